@@ -1,13 +1,26 @@
 #!/usr/bin/env node
-/* Minimal ITAM agent (CommonJS) with explicit http/https, detailed errors) */
+/* ITAM agent (CommonJS) with explicit http/https, detailed errors.
+ *
+ * Enrolls once, stores the per-device agent token, then checks in periodically
+ * with inventory deltas and runs commands queued by the server.
+ *   node itam-agent.js          run continuously
+ *   node itam-agent.js --once   enroll if needed, check in once and exit
+ */
 
 const os = require("os");
+const fs = require("fs");
+const path = require("path");
+const crypto = require("crypto");
 const { execSync } = require("child_process");
 const { URL } = require("url");
 const http = require("http");
 const https = require("https");
 
-const ENROLL_URL = process.env.AGENT_ENROLL_URL || process.env.PUBLIC_URL ? `${process.env.PUBLIC_URL}/api/agent/enroll` : "http://localhost:5050/api/agent/enroll";
+const AGENT_VERSION = "0.2.0";
+const ENROLL_URL = process.env.AGENT_ENROLL_URL || (process.env.PUBLIC_URL ? `${process.env.PUBLIC_URL}/api/agent/enroll` : "http://localhost:5050/api/agent/enroll");
+const ENROLLMENT_TOKEN = process.env.AGENT_ENROLLMENT_TOKEN || "";
+const STATE_FILE = process.env.AGENT_STATE_FILE || path.join(os.homedir(), ".itam-agent.json");
+const RUN_ONCE = process.argv.includes("--once");
 const DEBUG = process.env.DEBUG_AGENT === "1" || process.env.DEBUG_AGENT === "true";
 
 /** helpers */
@@ -121,18 +134,249 @@ function getIps() {
   return ips;
 }
 
-const payload = {
-  hostname: os.hostname(),
-  serial: getSerial(),
-  manufacturer: getManufacturer(),
-  model: getModel(),
-  os: { name: process.platform === "darwin" ? "macOS" : process.platform, version: os.release() },
-  username: os.userInfo().username,
-  ips: getIps(),
-  uptimeSeconds: Math.floor(os.uptime()),
-};
+function getOsName() {
+  return process.platform === "darwin" ? "macOS" : process.platform;
+}
+
+function getLoggedInUser() {
+  const platform = process.platform;
+
+  if (platform === "darwin") {
+    return safe("stat -f %Su /dev/console") || null;
+  }
+
+  if (platform === "win32") {
+    const ps = safe('powershell -NoProfile -Command "(Get-CimInstance Win32_ComputerSystem).UserName"');
+    return ps || null;
+  }
+
+  if (platform === "linux") {
+    const who = safe("who | awk '{print $1}' | head -n 1");
+    return who || null;
+  }
+
+  return null;
+}
+
+function getHardware() {
+  const cpus = os.cpus() || [];
+  const disks = [];
+
+  if (process.platform === "linux" || process.platform === "darwin") {
+    const df = safe("df -kP 2>/dev/null | tail -n +2");
+    for (const line of df.split(/\r?\n/).filter(Boolean)) {
+      const cols = line.split(/\s+/);
+      const mount = cols[5];
+      if (!mount || !(mount === "/" || mount.startsWith("/home") || mount.startsWith("/Volumes"))) continue;
+      disks.push({ name: mount, sizeGb: Math.round(Number(cols[1]) / 1024 / 1024) });
+    }
+  } else if (process.platform === "win32") {
+    const ps = safe('powershell -NoProfile -Command "Get-CimInstance Win32_LogicalDisk -Filter \\"DriveType=3\\" | ForEach-Object { $_.DeviceID + \\"|\\" + $_.Size }"');
+    for (const line of ps.split(/\r?\n/).filter(Boolean)) {
+      const [name, size] = line.split("|");
+      disks.push({ name, sizeGb: Math.round(Number(size) / 1024 / 1024 / 1024) });
+    }
+  }
+
+  return {
+    manufacturer: getManufacturer(),
+    model: getModel(),
+    cpu: cpus[0] ? cpus[0].model.trim() : null,
+    cpuCores: cpus.length || null,
+    memoryGb: Math.round((os.totalmem() / 1024 / 1024 / 1024) * 10) / 10,
+    disks,
+  };
+}
+
+function getOsPatchLevel() {
+  const platform = process.platform;
+  const info = { name: getOsName(), version: os.release(), build: null, patchLevel: null, lastPatchedAt: null, pendingUpdates: null };
+
+  if (platform === "darwin") {
+    info.version = safe("sw_vers -productVersion") || info.version;
+    info.build = safe("sw_vers -buildVersion") || null;
+    info.patchLevel = info.build;
+    const last = safe("softwareupdate --history 2>/dev/null | tail -n 1 | awk '{print $(NF-1)}'");
+    info.lastPatchedAt = last || null;
+  } else if (platform === "win32") {
+    info.build = safe('powershell -NoProfile -Command "(Get-CimInstance Win32_OperatingSystem).BuildNumber"') || null;
+    const ubr = safe('powershell -NoProfile -Command "(Get-ItemProperty \'HKLM:\\SOFTWARE\\Microsoft\\Windows NT\\CurrentVersion\').UBR"');
+    info.patchLevel = info.build && ubr ? `${info.build}.${ubr}` : info.build;
+    const hotfix = safe('powershell -NoProfile -Command "Get-HotFix | Sort-Object InstalledOn -Descending | Select-Object -First 1 | ForEach-Object { $_.HotFixID + \'|\' + $_.InstalledOn.ToString(\'o\') }"');
+    if (hotfix) {
+      const [id, installedOn] = hotfix.split("|");
+      info.patchLevel = info.patchLevel ? `${info.patchLevel} (${id})` : id;
+      info.lastPatchedAt = installedOn || null;
+    }
+  } else if (platform === "linux") {
+    const pretty = safe(". /etc/os-release 2>/dev/null && echo $PRETTY_NAME");
+    if (pretty) info.name = pretty;
+    info.patchLevel = os.release();
+    const aptUpdates = safe("apt list --upgradable 2>/dev/null | tail -n +2 | wc -l");
+    const dnfUpdates = aptUpdates ? "" : safe("dnf -q check-update 2>/dev/null | grep -c '^[a-zA-Z0-9]'");
+    const pending = aptUpdates || dnfUpdates;
+    info.pendingUpdates = pending ? Number(pending) : null;
+    const last = safe("stat -c %y /var/lib/dpkg/status 2>/dev/null") || safe("rpm -qa --last 2>/dev/null | head -n 1 | cut -c 30-");
+    info.lastPatchedAt = last || null;
+  }
+
+  return info;
+}
+
+function getDiskEncryption() {
+  const platform = process.platform;
+
+  if (platform === "darwin") {
+    const status = safe("fdesetup status");
+    const enabled = /FileVault is On/i.test(status);
+    return { enabled: status ? enabled : null, method: "FileVault", volumes: [{ mount: "/", encrypted: enabled, method: "FileVault" }] };
+  }
+
+  if (platform === "win32") {
+    const ps = safe('powershell -NoProfile -Command "Get-BitLockerVolume | ForEach-Object { $_.MountPoint + \'|\' + $_.ProtectionStatus }"');
+    const volumes = ps.split(/\r?\n/).filter(Boolean).map((line) => {
+      const [mount, status] = line.split("|");
+      return { mount, encrypted: /^(On|1)$/i.test((status || "").trim()), method: "BitLocker" };
+    });
+    if (volumes.length === 0) return { enabled: null, method: "BitLocker", volumes };
+    return { enabled: volumes.every((v) => v.encrypted), method: "BitLocker", volumes };
+  }
+
+  if (platform === "linux") {
+    const lsblk = safe("lsblk -rno TYPE,MOUNTPOINT 2>/dev/null");
+    const rootOnCrypt = /^crypt \/$/m.test(lsblk) || safe("lsblk -rno TYPE -s $(findmnt -no SOURCE / 2>/dev/null) 2>/dev/null").split(/\s+/).includes("crypt");
+    return { enabled: lsblk ? rootOnCrypt : null, method: "LUKS", volumes: [{ mount: "/", encrypted: rootOnCrypt, method: "LUKS" }] };
+  }
+
+  return { enabled: null, method: null, volumes: [] };
+}
+
+function getInstalledSoftware() {
+  const platform = process.platform;
+  const items = [];
+
+  if (platform === "win32") {
+    const ps = safe('powershell -NoProfile -Command "Get-ItemProperty HKLM:\\Software\\Microsoft\\Windows\\CurrentVersion\\Uninstall\\*, HKLM:\\Software\\WOW6432Node\\Microsoft\\Windows\\CurrentVersion\\Uninstall\\* | Where-Object DisplayName | ForEach-Object { $_.DisplayName + \'|\' + $_.DisplayVersion + \'|\' + $_.Publisher }"');
+    for (const line of ps.split(/\r?\n/).filter(Boolean)) {
+      const [name, version, publisher] = line.split("|");
+      items.push({ name, version: version || null, publisher: publisher || null });
+    }
+  } else if (platform === "darwin") {
+    const apps = safe("mdfind \"kMDItemContentType == 'com.apple.application-bundle'\" -onlyin /Applications");
+    for (const app of apps.split(/\r?\n/).filter(Boolean)) {
+      const version = safe(`defaults read "${app}/Contents/Info" CFBundleShortVersionString 2>/dev/null`);
+      items.push({ name: path.basename(app, ".app"), version: version || null, publisher: null });
+    }
+  } else if (platform === "linux") {
+    const dpkg = safe("dpkg-query -W -f='${Package}|${Version}|${Maintainer}\\n' 2>/dev/null");
+    const rpm = dpkg ? "" : safe("rpm -qa --queryformat '%{NAME}|%{VERSION}|%{VENDOR}\\n' 2>/dev/null");
+    for (const line of (dpkg || rpm).split(/\r?\n/).filter(Boolean)) {
+      const [name, version, publisher] = line.split("|");
+      items.push({ name, version: version || null, publisher: publisher || null });
+    }
+  }
 
-function postJsonRaw(urlStr, data, timeoutMs = 10000) {
+  return items.filter((sw) => sw.name);
+}
+
+/** state + inventory diffing */
+function loadState() {
+  try { return JSON.parse(fs.readFileSync(STATE_FILE, "utf8")); }
+  catch { return {}; }
+}
+function saveState(state) {
+  fs.writeFileSync(STATE_FILE, JSON.stringify(state, null, 2), { mode: 0o600 });
+}
+function hashOf(value) {
+  return crypto.createHash("sha256").update(JSON.stringify(value)).digest("hex");
+}
+function softwareKey(sw) {
+  return `${sw.name}|${sw.version || ""}`;
+}
+
+/**
+ * Build a check-in body containing only the sections that changed since the
+ * last acknowledged check-in (or everything when `full` is set).
+ */
+function buildCheckIn(state, full) {
+  const body = {
+    agentVersion: AGENT_VERSION,
+    hostname: os.hostname(),
+    ips: getIps(),
+    uptimeSeconds: Math.floor(os.uptime()),
+  };
+  const sections = {
+    loggedInUser: getLoggedInUser(),
+    hardware: getHardware(),
+    os: getOsPatchLevel(),
+    diskEncryption: getDiskEncryption(),
+  };
+  const previous = state.hashes || {};
+  const hashes = {};
+
+  for (const key of Object.keys(sections)) {
+    hashes[key] = hashOf(sections[key]);
+    if (full || hashes[key] !== previous[key]) body[key] = sections[key];
+  }
+
+  const software = getInstalledSoftware();
+  hashes.software = hashOf(software.map(softwareKey).sort());
+  if (full || !state.software) {
+    body.software = { full: true, items: software };
+  } else if (hashes.software !== previous.software) {
+    const before = new Map(state.software.map((sw) => [softwareKey(sw), sw]));
+    const after = new Map(software.map((sw) => [softwareKey(sw), sw]));
+    body.software = {
+      full: false,
+      added: software.filter((sw) => !before.has(softwareKey(sw))),
+      removed: state.software.filter((sw) => !after.has(softwareKey(sw))),
+    };
+  }
+
+  body.inventoryHashes = hashes;
+  return { body, hashes, software };
+}
+
+/** commands */
+function quoteArg(value) {
+  return `'${String(value).replace(/'/g, "'\\''")}'`;
+}
+function uninstallCommand(packageName) {
+  if (!/^[\w .+:@()-]{1,300}$/.test(packageName)) return null;
+
+  if (process.platform === "win32") {
+    return `powershell -NoProfile -Command "Get-Package -Name '${packageName.replace(/'/g, "''")}' | Uninstall-Package -Force"`;
+  }
+  if (process.platform === "darwin") {
+    return `rm -rf ${quoteArg(`/Applications/${packageName}.app`)}`;
+  }
+  if (safe("command -v apt-get")) return `apt-get remove -y ${quoteArg(packageName)}`;
+  if (safe("command -v dnf")) return `dnf remove -y ${quoteArg(packageName)}`;
+  if (safe("command -v yum")) return `yum remove -y ${quoteArg(packageName)}`;
+  return null;
+}
+function runCommand(command) {
+  if (command.type === "reinventory") {
+    return { status: "succeeded", exitCode: 0, output: "Full inventory scheduled", reinventory: true };
+  }
+
+  if (command.type === "uninstall_package") {
+    const packageName = command.payload && command.payload.packageName;
+    const cmd = packageName ? uninstallCommand(String(packageName)) : null;
+    if (!cmd) return { status: "failed", exitCode: null, output: "Unsupported package name or platform" };
+    try {
+      const output = execSync(cmd, { stdio: ["ignore", "pipe", "pipe"], timeout: 10 * 60 * 1000 }).toString();
+      return { status: "succeeded", exitCode: 0, output: output.slice(-4000) };
+    } catch (err) {
+      const output = `${err.stdout || ""}${err.stderr || ""}` || err.message;
+      return { status: "failed", exitCode: typeof err.status === "number" ? err.status : null, output: String(output).slice(-4000) };
+    }
+  }
+
+  return { status: "failed", exitCode: null, output: `Unknown command type: ${command.type}` };
+}
+
+function postJsonRaw(urlStr, data, timeoutMs = 10000, extraHeaders = {}) {
   return new Promise((resolve, reject) => {
     let url;
     try {
@@ -154,7 +398,8 @@ function postJsonRaw(urlStr, data, timeoutMs = 10000) {
       headers: {
         "Content-Type": "application/json",
         "Content-Length": body.length,
-        "User-Agent": "ITAM-Agent/0.1",
+        "User-Agent": `ITAM-Agent/${AGENT_VERSION}`,
+        ...extraHeaders,
       }
     };
 
@@ -187,20 +432,110 @@ function postJsonRaw(urlStr, data, timeoutMs = 10000) {
   });
 }
 
+function parseBody(resp) {
+  try { return JSON.parse(resp.text); } catch { return { raw: resp.text }; }
+}
+function serverUrl(pathname) {
+  return new URL(pathname, ENROLL_URL).toString();
+}
+
+async function enroll(state) {
+  const software = getInstalledSoftware();
+  const payload = {
+    hostname: os.hostname(),
+    serial: getSerial(),
+    manufacturer: getManufacturer(),
+    model: getModel(),
+    os: { name: getOsName(), version: os.release() },
+    username: os.userInfo().username,
+    ips: getIps(),
+    uptimeSeconds: Math.floor(os.uptime()),
+    agentVersion: AGENT_VERSION,
+    software,
+  };
+
+  const headers = ENROLLMENT_TOKEN ? { "X-Enrollment-Token": ENROLLMENT_TOKEN } : {};
+  const resp = await postJsonRaw(ENROLL_URL, payload, 60000, headers);
+  const body = parseBody(resp);
+  if (resp.status < 200 || resp.status >= 300 || !body.agentToken) {
+    throw new Error(`Enroll HTTP ${resp.status} ${resp.statusText} ${JSON.stringify(body)}`);
+  }
+
+  console.log("Enroll OK:", { assetId: body.assetId, agentId: body.agentId, softwareImported: body.softwareImported });
+  Object.assign(state, {
+    agentId: body.agentId,
+    token: body.agentToken,
+    checkInUrl: serverUrl(body.checkInUrl || "/api/agent/checkin"),
+    intervalSeconds: body.checkInIntervalSeconds || 3600,
+    software,
+    hashes: { software: hashOf(software.map(softwareKey).sort()) },
+  });
+  saveState(state);
+}
+
+/**
+ * Check in once. Returns the number of seconds to wait before the next check-in.
+ */
+async function checkIn(state, full) {
+  const auth = { Authorization: `Bearer ${state.token}` };
+  const { body, hashes, software } = buildCheckIn(state, full);
+  const resp = await postJsonRaw(state.checkInUrl, body, 60000, auth);
+  const result = parseBody(resp);
+
+  if (resp.status === 401 || resp.status === 410) {
+    // Credential revoked or asset removed: enroll again on the next cycle
+    console.error("Check-in rejected:", resp.status, result);
+    delete state.token;
+    saveState(state);
+    return 60;
+  }
+  if (resp.status < 200 || resp.status >= 300) {
+    throw new Error(`Check-in HTTP ${resp.status} ${resp.statusText} ${JSON.stringify(result)}`);
+  }
+
+  Object.assign(state, { hashes, software, intervalSeconds: result.nextCheckInSeconds || state.intervalSeconds });
+  saveState(state);
+  log("Check-in OK", result);
+
+  let reinventory = !!result.fullInventoryRequired;
+  for (const command of result.commands || []) {
+    console.log("Running command", command.id, command.type);
+    const outcome = runCommand(command);
+    if (outcome.reinventory) reinventory = true;
+    await postJsonRaw(
+      serverUrl(`/api/agent/commands/${encodeURIComponent(command.id)}/result`),
+      { status: outcome.status, exitCode: outcome.exitCode, output: outcome.output },
+      15000,
+      auth
+    );
+  }
+
+  if (reinventory || (result.commands || []).some((c) => c.type === "uninstall_package")) {
+    // Report the fresh state straight away rather than waiting a full interval
+    return reinventory ? checkIn(state, true) : checkIn(state, false);
+  }
+  return state.intervalSeconds;
+}
+
+function sleep(seconds) {
+  return new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+}
+
 (async () => {
-  try {
-    const resp = await postJsonRaw(ENROLL_URL, payload, 15000);
-    let body;
-    try { body = JSON.parse(resp.text); } catch { body = { raw: resp.text }; }
+  const state = loadState();
 
-    if (resp.status < 200 || resp.status >= 300) {
-      console.error("Enroll HTTP", resp.status, resp.statusText, body);
+  for (;;) {
+    let waitSeconds = state.intervalSeconds || 3600;
+    try {
+      if (!state.token) await enroll(state);
+      waitSeconds = await checkIn(state, false);
+    } catch (err) {
+      console.error("Agent error:", err && err.message ? err.message : err);
       process.exitCode = 1;
-      return;
+      waitSeconds = Math.min(waitSeconds, 300);
     }
-    console.log("Enroll OK:", body);
-  } catch (err) {
-    console.error("Agent error:", err && err.message ? err.message : err);
-    process.exitCode = 1;
+
+    if (RUN_ONCE) return;
+    await sleep(waitSeconds);
   }
 })();
@@ -7,12 +7,18 @@ import { AuthProvider } from "@/hooks/use-auth";
 import { ProtectedRoute } from "@/components/auth/protected-route";
 import NotFound from "@/pages/not-found";
 import Login from "@/pages/login";
+import SsoCallback from "@/pages/sso-callback";
 import Dashboard from "@/pages/dashboard";
 import Assets from "@/pages/assets";
+import Scan from "@/pages/scan";
+import InventoryAudits from "@/pages/inventory-audits";
+import InventoryAuditDetail from "@/pages/inventory-audit-detail";
+import Cmdb from "@/pages/cmdb";
 import Recommendations from "@/pages/recommendations";
 import AIResponse from "@/pages/ai-response";
 import Software from "@/pages/software";
 import Settings from "@/pages/settings";
+import SsoSettings from "@/pages/sso-settings";
 import Users from "@/pages/users";
 import UserDetail from "@/pages/user-detail";
 import Vendors from "@/pages/vendors";
@@ -48,6 +54,7 @@ function Router() {
   return (
     <Switch>
       <Route path="/login" component={Login} />
+      <Route path="/sso/callback" component={SsoCallback} />
       <Route path="/">
         <ProtectedRoute>
           <Dashboard />
@@ -73,6 +80,31 @@ function Router() {
           <Assets key="new" />
         </ProtectedRoute>
       </Route>
+      <Route path="/scan">
+        <ProtectedRoute requiredRole="technician">
+          <Scan />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/scan/:tag">
+        <ProtectedRoute requiredRole="technician">
+          <Scan />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/inventory-audits">
+        <ProtectedRoute requiredRole="technician">
+          <InventoryAudits />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/inventory-audits/:id">
+        <ProtectedRoute requiredRole="technician">
+          <InventoryAuditDetail />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/cmdb">
+        <ProtectedRoute requiredRole="technician">
+          <Cmdb />
+        </ProtectedRoute>
+      </Route>
       <Route path="/recommendations">
         <ProtectedRoute requiredRole="it-manager">
           <Recommendations />
@@ -93,6 +125,11 @@ function Router() {
           <Settings />
         </ProtectedRoute>
       </Route>
+      <Route path="/settings/sso">
+        <ProtectedRoute requiredRole="admin">
+          <SsoSettings />
+        </ProtectedRoute>
+      </Route>
       <Route path="/users">
         <ProtectedRoute requiredRole="admin">
           <Users />
@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { authenticatedRequest } from "@/lib/auth";
+import { formatAssetTag } from "@shared/utils";
+import { QrCode, Save } from "lucide-react";
+
+type AssetTagSettingsResponse = {
+  prefix: string;
+  padding: number;
+  nextNumber: number;
+  nextTag: string;
+};
+
+export function AssetTagSettingsCard() {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [prefix, setPrefix] = useState("");
+  const [padding, setPadding] = useState("6");
+  const [nextNumber, setNextNumber] = useState("1");
+
+  const { data, isLoading } = useQuery<AssetTagSettingsResponse>({
+    queryKey: ["/api/asset-tags/settings"],
+    queryFn: async () => {
+      const response = await authenticatedRequest("GET", "/api/asset-tags/settings");
+      return response.json();
+    },
+  });
+
+  useEffect(() => {
+    if (data) {
+      setPrefix(data.prefix);
+      setPadding(String(data.padding));
+      setNextNumber(String(data.nextNumber));
+    }
+  }, [data]);
+
+  const parsedPadding = Math.min(12, Math.max(1, parseInt(padding, 10) || 1));
+  const parsedNextNumber = Math.max(1, parseInt(nextNumber, 10) || 1);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedRequest("PUT", "/api/asset-tags/settings", {
+        prefix,
+        padding: parsedPadding,
+        // Only restart the sequence when the number was changed here
+        nextNumber: data && parsedNextNumber !== data.nextNumber ? parsedNextNumber : undefined,
+      });
+      return response.json();
+    },
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey: ["/api/asset-tags/settings"] });
+      toast({ title: "Asset tag settings saved" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save failed",
+        description: error?.message ?? "Could not save asset tag settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <QrCode className="h-5 w-5" />
+          Asset Tags
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Numbering for new asset tags and printed labels. Existing tags are not changed.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading…</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="assetTagPrefix">Prefix</Label>
+                <Input
+                  id="assetTagPrefix"
+                  value={prefix}
+                  onChange={(e) => setPrefix(e.target.value)}
+                  maxLength={16}
+                  data-testid="input-asset-tag-prefix"
+                />
+              </div>
+              <div>
+                <Label htmlFor="assetTagPadding">Digits</Label>
+                <Input
+                  id="assetTagPadding"
+                  type="number"
+                  min={1}
+                  max={12}
+                  value={padding}
+                  onChange={(e) => setPadding(e.target.value)}
+                  data-testid="input-asset-tag-padding"
+                />
+              </div>
+              <div>
+                <Label htmlFor="assetTagNextNumber">Next number</Label>
+                <Input
+                  id="assetTagNextNumber"
+                  type="number"
+                  min={1}
+                  value={nextNumber}
+                  onChange={(e) => setNextNumber(e.target.value)}
+                  data-testid="input-asset-tag-next-number"
+                />
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Next tag: <span className="font-mono text-foreground">{formatAssetTag(prefix, parsedPadding, parsedNextNumber)}</span>
+            </p>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending}
+                data-testid="button-save-asset-tags"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {saveMutation.isPending ? "Saving..." : "Save Changes"}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,278 @@
+import * as React from "react";
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { StatusBadge } from "@/components/ui-custom";
+import { useToast } from "@/hooks/use-toast";
+import { authenticatedRequest } from "@/lib/auth";
+import { ArrowRightLeft, LogIn, LogOut, Bell, MapPin, PlusCircle, UserCheck } from "lucide-react";
+import type { AssetCustodyRecord, AssetLifecycleEvent } from "@shared/schema";
+
+type Props = {
+  assetId: string;
+  canManage?: boolean;
+};
+
+type AssetTimelineResponse = {
+  currentCustody: AssetCustodyRecord | null;
+  isOverdue: boolean;
+  allowedTransitions: string[];
+  custody: AssetCustodyRecord[];
+  events: AssetLifecycleEvent[];
+};
+
+type Action = "check-out" | "check-in" | "transition" | null;
+
+const EVENT_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
+  created: PlusCircle,
+  status_changed: ArrowRightLeft,
+  checked_out: LogOut,
+  checked_in: LogIn,
+  reassigned: UserCheck,
+  moved: MapPin,
+  overdue_reminder: Bell,
+};
+
+const formatDate = (value: string | Date | null | undefined, pattern = "MMM d, yyyy") =>
+  value ? format(new Date(value), pattern) : "—";
+
+export function AssetTimeline({ assetId, canManage = false }: Props) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+
+  const [action, setAction] = useState<Action>(null);
+  const [custodianEmail, setCustodianEmail] = useState("");
+  const [expectedReturn, setExpectedReturn] = useState("");
+  const [condition, setCondition] = useState("good");
+  const [nextStatus, setNextStatus] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data, isLoading, isError } = useQuery<AssetTimelineResponse>({
+    queryKey: ["assetTimeline", assetId],
+    queryFn: async () => {
+      const response = await authenticatedRequest("GET", `/api/assets/${assetId}/timeline`);
+      return response.json();
+    },
+  });
+
+  const closeDialog = () => {
+    setAction(null);
+    setCustodianEmail("");
+    setExpectedReturn("");
+    setCondition("good");
+    setNextStatus("");
+    setNotes("");
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: async () => {
+      if (action === "check-out") {
+        const userResponse = await authenticatedRequest(
+          "GET",
+          `/api/users/find?email=${encodeURIComponent(custodianEmail.trim())}`
+        );
+        const user = await userResponse.json();
+        return authenticatedRequest("POST", `/api/assets/${assetId}/check-out`, {
+          userId: user.id,
+          expectedReturnAt: expectedReturn ? new Date(`${expectedReturn}T23:59:59`).toISOString() : undefined,
+          notes: notes || undefined,
+        });
+      }
+      if (action === "check-in") {
+        return authenticatedRequest("POST", `/api/assets/${assetId}/check-in`, {
+          condition,
+          notes: notes || undefined,
+        });
+      }
+      return authenticatedRequest("POST", `/api/assets/${assetId}/transition`, {
+        status: nextStatus,
+        notes: notes || undefined,
+      });
+    },
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey: ["assetTimeline", assetId] });
+      await qc.invalidateQueries({ queryKey: ["/api/assets"] });
+      toast({ title: "Asset updated" });
+      closeDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update failed",
+        description: error?.message ?? "Could not update the asset",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-sm text-muted-foreground">Loading timeline…</div>;
+  }
+  if (isError || !data) {
+    return <div className="text-sm text-destructive">Failed to load the asset timeline.</div>;
+  }
+
+  const custody = data.currentCustody;
+  const canSubmit =
+    action === "check-out" ? !!custodianEmail.trim() :
+    action === "transition" ? !!nextStatus :
+    true;
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-lg border border-border p-4 text-sm">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <div className="text-muted-foreground">Current custodian</div>
+            {custody ? (
+              <>
+                <div className="font-medium">{custody.userName ?? custody.userEmail ?? "Unknown user"}</div>
+                <div className="text-muted-foreground">
+                  Since {formatDate(custody.checkedOutAt)}
+                  {custody.expectedReturnAt && ` • due back ${formatDate(custody.expectedReturnAt)}`}
+                </div>
+              </>
+            ) : (
+              <div className="font-medium">Not checked out</div>
+            )}
+          </div>
+          {data.isOverdue && (
+            <StatusBadge variant="danger" data-testid={`badge-overdue-${assetId}`}>Overdue</StatusBadge>
+          )}
+        </div>
+
+        {canManage && (
+          <div className="mt-4 flex flex-wrap gap-2">
+            {custody ? (
+              <Button size="sm" variant="outline" onClick={() => setAction("check-in")} data-testid="button-check-in">
+                <LogIn className="mr-2 h-4 w-4" /> Check in
+              </Button>
+            ) : (
+              <Button size="sm" variant="outline" onClick={() => setAction("check-out")} data-testid="button-check-out">
+                <LogOut className="mr-2 h-4 w-4" /> Check out
+              </Button>
+            )}
+            {data.allowedTransitions.length > 0 && (
+              <Button size="sm" variant="outline" onClick={() => setAction("transition")} data-testid="button-change-status">
+                <ArrowRightLeft className="mr-2 h-4 w-4" /> Change status
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {data.events.length === 0 ? (
+        <div className="text-sm text-muted-foreground">No lifecycle events recorded yet.</div>
+      ) : (
+        <ol className="relative border-l border-border ml-2 space-y-4">
+          {data.events.map((event) => {
+            const Icon = EVENT_ICONS[event.eventType] ?? ArrowRightLeft;
+            return (
+              <li key={event.id} className="ml-6" data-testid={`timeline-event-${event.id}`}>
+                <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-muted">
+                  <Icon className="h-3 w-3" />
+                </span>
+                <div className="text-sm font-medium">{event.description}</div>
+                <div className="text-xs text-muted-foreground">
+                  {formatDate(event.createdAt, "MMM d, yyyy HH:mm")} • {event.actorName ?? "System"}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <Dialog open={action !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {action === "check-out" ? "Check out asset" : action === "check-in" ? "Check in asset" : "Change status"}
+            </DialogTitle>
+            <DialogDescription>
+              {action === "check-out"
+                ? "The asset is deployed to the user until it is checked back in."
+                : action === "check-in"
+                  ? "Good returns go back to stock, damaged to repair and lost items are retired."
+                  : "Only transitions allowed from the current lifecycle status are listed."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {action === "check-out" && (
+              <>
+                <div>
+                  <Label htmlFor="custodian-email">Custodian email</Label>
+                  <Input
+                    id="custodian-email"
+                    type="email"
+                    value={custodianEmail}
+                    onChange={(e) => setCustodianEmail(e.target.value)}
+                    placeholder="user@company.com"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="expected-return">Expected return (optional)</Label>
+                  <Input
+                    id="expected-return"
+                    type="date"
+                    value={expectedReturn}
+                    onChange={(e) => setExpectedReturn(e.target.value)}
+                  />
+                </div>
+              </>
+            )}
+
+            {action === "check-in" && (
+              <div>
+                <Label>Condition</Label>
+                <Select value={condition} onValueChange={setCondition}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="good">Good</SelectItem>
+                    <SelectItem value="damaged">Damaged</SelectItem>
+                    <SelectItem value="lost">Lost</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {action === "transition" && (
+              <div>
+                <Label>New status</Label>
+                <Select value={nextStatus} onValueChange={setNextStatus}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {data.allowedTransitions.map((status) => (
+                      <SelectItem key={status} value={status}>{status.replace("-", " ")}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="lifecycle-notes">Notes</Label>
+              <Textarea id="lifecycle-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+            <Button onClick={() => actionMutation.mutate()} disabled={!canSubmit || actionMutation.isPending}>
+              {actionMutation.isPending ? "Saving…" : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
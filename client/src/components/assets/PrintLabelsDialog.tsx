@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { authenticatedRequest } from "@/lib/auth";
+import type { AssetLabelSheet } from "@shared/schema";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  assetIds: string[];
+};
+
+export function PrintLabelsDialog({ open, onOpenChange, assetIds }: Props) {
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const [symbology, setSymbology] = useState<AssetLabelSheet["symbology"]>("qr");
+  const [layout, setLayout] = useState<AssetLabelSheet["layout"]>("letter-30");
+  const [startPosition, setStartPosition] = useState("1");
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const response = await authenticatedRequest("POST", "/api/asset-tags/labels", {
+        assetIds,
+        symbology,
+        layout,
+        startPosition: Math.max(1, parseInt(startPosition, 10) || 1),
+      });
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `asset-labels-${new Date().toISOString().split("T")[0]}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+
+      // Untagged assets were tagged while generating the sheet
+      await qc.invalidateQueries({ queryKey: ["/api/assets"] });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: "Label generation failed",
+        description: error?.message ?? "Could not generate the label sheet",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Print Asset Labels</DialogTitle>
+          <DialogDescription>
+            {assetIds.length} asset{assetIds.length === 1 ? "" : "s"} from the current list. Assets without a tag get the next tag in the sequence.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Code</Label>
+            <Select value={symbology} onValueChange={(value) => setSymbology(value as AssetLabelSheet["symbology"])}>
+              <SelectTrigger data-testid="select-label-symbology">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="qr">QR code (opens the asset from a phone camera)</SelectItem>
+                <SelectItem value="code128">Code128 barcode (handheld scanners)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Label sheet</Label>
+            <Select value={layout} onValueChange={(value) => setLayout(value as AssetLabelSheet["layout"])}>
+              <SelectTrigger data-testid="select-label-layout">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="letter-30">US Letter, 30 per sheet (2.625" × 1")</SelectItem>
+                <SelectItem value="a4-24">A4, 24 per sheet (70 × 37 mm)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="label-start-position">Start at label</Label>
+            <Input
+              id="label-start-position"
+              type="number"
+              min={1}
+              value={startPosition}
+              onChange={(e) => setStartPosition(e.target.value)}
+              data-testid="input-label-start-position"
+            />
+            <p className="text-muted-foreground text-xs mt-1">Skip labels already used on a partly printed sheet.</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={handleGenerate}
+            disabled={isGenerating || assetIds.length === 0}
+            data-testid="button-generate-labels"
+          >
+            {isGenerating ? "Generating…" : "Download PDF"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,13 +14,24 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { authenticatedRequest } from "@/lib/auth";
 import { Check, ChevronsUpDown, Plus } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { insertAssetSchema, insertMasterDataSchema } from "@shared/schema";
-import type { Asset, InsertAsset, MasterData } from "@shared/schema";
+import { insertAssetSchema, insertMasterDataSchema, AssetStatusEnum } from "@shared/schema";
+import type { Asset, AssetStatus, InsertAsset, MasterData } from "@shared/schema";
+import { isAssetTransitionAllowed } from "@shared/utils";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { LocationSelector } from "@/components/ui/location-selector";
 
 
+const ASSET_STATUS_LABELS: Record<AssetStatus, string> = {
+  "ordered": "Ordered",
+  "received": "Received",
+  "in-stock": "In Stock",
+  "deployed": "Deployed",
+  "in-repair": "In Repair",
+  "retired": "Retired",
+  "disposed": "Disposed",
+};
+
 const assetFormSchema = insertAssetSchema.extend({
   tenantId: z.string().optional(), // Make tenantId optional for form validation
   purchaseDate: z.string().optional(),
@@ -406,6 +417,7 @@ export function AssetForm({ isOpen, onClose, onSubmit, asset, isLoading }: Asset
       manufacturer: asset.manufacturer || "",
       model: asset.model || "",
       serialNumber: asset.serialNumber || "",
+      assetTag: asset.assetTag || "",
       status: asset.status,
       location: asset.location || "", // Legacy field, keep for migration
       country: asset.country || "",
@@ -438,6 +450,7 @@ export function AssetForm({ isOpen, onClose, onSubmit, asset, isLoading }: Asset
       manufacturer: "",
       model: "",
       serialNumber: "",
+      assetTag: "",
       location: "",
       assignedUserName: "",
       assignedUserEmail: "",
@@ -472,6 +485,7 @@ export function AssetForm({ isOpen, onClose, onSubmit, asset, isLoading }: Asset
         manufacturer: asset.manufacturer || "",
         model: asset.model || "",
         serialNumber: asset.serialNumber || "",
+        assetTag: asset.assetTag || "",
         status: asset.status,
         location: asset.location || "", // Legacy field, keep for migration
       country: asset.country || "",
@@ -508,6 +522,7 @@ export function AssetForm({ isOpen, onClose, onSubmit, asset, isLoading }: Asset
         manufacturer: "",
         model: "",
         serialNumber: "",
+        assetTag: "",
         location: "",
         assignedUserName: "",
         assignedUserEmail: "",
@@ -541,6 +556,7 @@ export function AssetForm({ isOpen, onClose, onSubmit, asset, isLoading }: Asset
       const { tenantId: _, ...restData } = data;
       const submitData: Omit<InsertAsset, 'tenantId'> = {
         ...restData,
+        assetTag: data.assetTag?.trim() || undefined, // Blank keeps the current tag
         purchaseDate: data.purchaseDate ? new Date(data.purchaseDate) : undefined,
         warrantyExpiry: data.warrantyExpiry ? new Date(data.warrantyExpiry) : undefined,
         renewalDate: data.renewalDate ? new Date(data.renewalDate) : undefined,
@@ -561,6 +577,7 @@ export function AssetForm({ isOpen, onClose, onSubmit, asset, isLoading }: Asset
     const { tenantId: _, ...restData } = reviewData;
     const submitData: Omit<InsertAsset, 'tenantId'> = {
       ...restData,
+      assetTag: reviewData.assetTag?.trim() || undefined, // Blank gets the next tag in the sequence
       purchaseDate: reviewData.purchaseDate ? new Date(reviewData.purchaseDate) : undefined,
       warrantyExpiry: reviewData.warrantyExpiry ? new Date(reviewData.warrantyExpiry) : undefined,
       renewalDate: reviewData.renewalDate ? new Date(reviewData.renewalDate) : undefined,
@@ -727,6 +744,10 @@ export function AssetForm({ isOpen, onClose, onSubmit, asset, isLoading }: Asset
                 <span className="font-medium text-muted-foreground">Serial Number:</span>
                 <p className="text-foreground" data-testid="text-review-serial-number">{formatFieldValue(reviewData.serialNumber)}</p>
               </div>
+              <div>
+                <span className="font-medium text-muted-foreground">Asset Tag:</span>
+                <p className="text-foreground" data-testid="text-review-asset-tag">{reviewData.assetTag?.trim() || "Assigned automatically"}</p>
+              </div>
               <div>
                 <span className="font-medium text-muted-foreground">Category:</span>
                 <p className="text-foreground">{formatFieldValue(reviewData.category)}</p>
@@ -935,6 +956,19 @@ export function AssetForm({ isOpen, onClose, onSubmit, asset, isLoading }: Asset
                 </p>
               )}
             </div>
+
+            <div>
+              <Label htmlFor="assetTag">Asset Tag</Label>
+              <Input
+                id="assetTag"
+                {...register("assetTag")}
+                placeholder={asset ? "" : "Leave blank to assign the next tag"}
+                data-testid="input-asset-tag"
+              />
+              {errors.assetTag && (
+                <p className="text-red-500 text-sm mt-1">{errors.assetTag.message}</p>
+              )}
+            </div>
             
             <div>
               <Label htmlFor="category">
@@ -1006,16 +1040,17 @@ export function AssetForm({ isOpen, onClose, onSubmit, asset, isLoading }: Asset
               <Label htmlFor="status">Status *</Label>
               <Select 
                 value={watch("status")} 
-                onValueChange={(value) => setValue("status", value)}
+                onValueChange={(value) => setValue("status", value as AssetStatus)}
               >
                 <SelectTrigger data-testid="select-status">
                   <SelectValue placeholder="Select status" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="in-stock">In Stock</SelectItem>
-                  <SelectItem value="deployed">Deployed</SelectItem>
-                  <SelectItem value="in-repair">In Repair</SelectItem>
-                  <SelectItem value="disposed">Disposed</SelectItem>
+                  {AssetStatusEnum.options
+                    .filter((status) => !asset || isAssetTransitionAllowed(asset.status, status))
+                    .map((status) => (
+                      <SelectItem key={status} value={status}>{ASSET_STATUS_LABELS[status]}</SelectItem>
+                    ))}
                 </SelectContent>
               </Select>
               {errors.status && (
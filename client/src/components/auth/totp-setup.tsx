@@ -0,0 +1,114 @@
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, Download, ExternalLink } from "lucide-react";
+
+export interface TotpEnrollment {
+  factorId: string;
+  secret: string;
+  otpauthUri: string;
+}
+
+interface TotpSetupProps {
+  enrollment: TotpEnrollment;
+  code: string;
+  onCodeChange: (code: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Shows the shared secret for an authenticator app and collects the first code
+ */
+export function TotpSetup({ enrollment, code, onCodeChange, disabled }: TotpSetupProps) {
+  const { toast } = useToast();
+
+  const copySecret = async () => {
+    await navigator.clipboard.writeText(enrollment.secret);
+    toast({ title: "Copied", description: "Setup key copied to clipboard." });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          Add this account to an authenticator app (Google Authenticator, Microsoft Authenticator, 1Password, ...)
+          by entering the setup key below, or open the link on the device where the app is installed.
+        </p>
+        <div className="flex items-center gap-2 rounded-md border bg-muted/40 p-3">
+          <code className="flex-1 break-all font-mono text-sm tracking-wider" data-testid="text-totp-secret">
+            {enrollment.secret.replace(/(.{4})/g, "$1 ").trim()}
+          </code>
+          <Button type="button" variant="ghost" size="icon" onClick={copySecret} data-testid="button-copy-totp-secret">
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <a
+          href={enrollment.otpauthUri}
+          className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+          data-testid="link-otpauth"
+        >
+          <ExternalLink className="h-3 w-3" />
+          Open in authenticator app
+        </a>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Enter the 6-digit code from the app</Label>
+        <InputOTP maxLength={6} value={code} onChange={onCodeChange} disabled={disabled} data-testid="input-totp-setup-code">
+          <InputOTPGroup>
+            {Array.from({ length: 6 }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * One-time display of freshly generated recovery codes
+ */
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast({ title: "Copied", description: "Recovery codes copied to clipboard." });
+  };
+
+  const downloadCodes = () => {
+    const blob = new Blob([codes.join("\n") + "\n"], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes somewhere safe. Each code can be used once to sign in if you lose access to your
+        authenticator app. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/40 p-3 font-mono text-sm" data-testid="list-recovery-codes">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={copyCodes} data-testid="button-copy-recovery-codes">
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={downloadCodes} data-testid="button-download-recovery-codes">
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
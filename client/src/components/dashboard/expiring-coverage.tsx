@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { authenticatedRequest } from "@/lib/auth";
+import { getRolePermissions } from "@/lib/permissions";
+import { Download, ShieldAlert } from "lucide-react";
+
+type CoverageType = "warranty" | "amc";
+
+interface CoverageItem {
+  assetId: string;
+  assetName: string;
+  serialNumber: string | null;
+  coverageType: CoverageType;
+  expiresAt: string;
+  daysRemaining: number;
+}
+
+interface VendorGroup {
+  vendor: string;
+  vendorEmail: string | null;
+  earliestExpiry: string;
+  warranty: number;
+  amc: number;
+  items: CoverageItem[];
+}
+
+interface ExpiringCoverage {
+  horizonDays: number;
+  total: number;
+  buckets: Array<{ leadDays: number; label: string; warranty: number; amc: number }>;
+  vendors: VendorGroup[];
+}
+
+const apiErrorMessage = (error: any, fallback: string) => {
+  try {
+    return JSON.parse(String(error?.message).replace(/^API Error \d+: /, "")).message ?? fallback;
+  } catch {
+    return error?.message ?? fallback;
+  }
+};
+
+export function ExpiringCoverageWidget() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const canRenew = getRolePermissions(user?.role).canManageAssets;
+
+  const [renewing, setRenewing] = useState<VendorGroup | null>(null);
+  const [coverageType, setCoverageType] = useState<CoverageType>("warranty");
+  const [expiresAt, setExpiresAt] = useState("");
+
+  const { data, isLoading } = useQuery<ExpiringCoverage>({
+    queryKey: ["/api/coverage/expiring"],
+    queryFn: async () => {
+      const response = await authenticatedRequest("GET", "/api/coverage/expiring");
+      return response.json();
+    },
+    staleTime: 60 * 1000,
+  });
+
+  const renewMutation = useMutation({
+    mutationFn: async () => {
+      const assetIds = renewing!.items.filter(item => item.coverageType === coverageType).map(item => item.assetId);
+      const response = await authenticatedRequest("POST", "/api/coverage/renewals", { assetIds, coverageType, expiresAt });
+      return response.json();
+    },
+    onSuccess: (result: { renewed: number }) => {
+      toast({ title: "Coverage renewed", description: `Updated ${result.renewed} asset(s) from ${renewing?.vendor}` });
+      setRenewing(null);
+      setExpiresAt("");
+      queryClient.invalidateQueries({ queryKey: ["/api/coverage/expiring"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Renewal not recorded",
+        description: apiErrorMessage(error, "Could not record the renewal"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openRenewal = (group: VendorGroup) => {
+    setRenewing(group);
+    setCoverageType(group.warranty > 0 ? "warranty" : "amc");
+  };
+
+  const handleQuoteDownload = async (vendor: string) => {
+    try {
+      const response = await authenticatedRequest("GET", `/api/coverage/expiring/quote?vendor=${encodeURIComponent(vendor)}`);
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `coverage-renewal-${vendor.replace(/[^A-Za-z0-9_-]+/g, "-")}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({
+        title: "Download failed",
+        description: error?.message ?? "Could not download the quote request",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renewCount = renewing?.items.filter(item => item.coverageType === coverageType).length ?? 0;
+
+  return (
+    <div className="bg-card rounded-lg border box-border mb-4" data-testid="card-expiring-coverage">
+      <div className="flex items-center justify-between p-3 border-b">
+        <div className="flex items-center">
+          <ShieldAlert className="h-4 w-4 text-orange-600 mr-2" />
+          <p className="text-sm font-medium text-foreground">Expiring Coverage</p>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {isLoading ? "--" : `${data?.total ?? 0} warranty/AMC item(s) in the next ${data?.horizonDays ?? 90} days`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-2 p-3 border-b">
+        {(data?.buckets ?? []).map(bucket => (
+          <div key={bucket.leadDays} className="rounded-md border p-2" data-testid={`coverage-bucket-${bucket.leadDays}`}>
+            <p className={`text-xs font-medium ${bucket.leadDays === 0 ? "text-red-600" : "text-muted-foreground"}`}>{bucket.label}</p>
+            <p className="text-lg font-bold">{bucket.warranty + bucket.amc}</p>
+            <p className="text-xs text-muted-foreground">{bucket.warranty}W + {bucket.amc}AMC</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="max-h-[248px] overflow-y-auto">
+        {data && data.vendors.length > 0 ? (
+          data.vendors.map(group => (
+            <div
+              key={group.vendor}
+              className="p-3 border-b last:border-b-0 flex items-center justify-between gap-2"
+              data-testid={`coverage-vendor-${group.vendor}`}
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">{group.vendor}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {group.items.length} device(s) • earliest {new Date(group.earliestExpiry).toLocaleDateString()}
+                  {group.vendorEmail ? ` • ${group.vendorEmail}` : ""}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {group.warranty > 0 && <Badge variant="outline">{group.warranty} warranty</Badge>}
+                {group.amc > 0 && <Badge variant="outline">{group.amc} AMC</Badge>}
+                <Button size="sm" variant="ghost" onClick={() => handleQuoteDownload(group.vendor)} title="Download quote request">
+                  <Download className="h-4 w-4" />
+                </Button>
+                {canRenew && (
+                  <Button size="sm" variant="outline" onClick={() => openRenewal(group)}>
+                    Renewed
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        ) : (
+          <div className="p-3 text-center text-xs text-muted-foreground">
+            {isLoading ? "Loading coverage..." : "No warranties or AMCs expiring"}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!renewing} onOpenChange={open => !open && setRenewing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record renewal from {renewing?.vendor}</DialogTitle>
+            <DialogDescription>
+              Sets the new end date on {renewCount} device(s) and closes their expiry alerts.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Coverage</Label>
+              <Select value={coverageType} onValueChange={value => setCoverageType(value as CoverageType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="warranty" disabled={!renewing?.warranty}>Warranty ({renewing?.warranty ?? 0})</SelectItem>
+                  <SelectItem value="amc" disabled={!renewing?.amc}>AMC ({renewing?.amc ?? 0})</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="coverage-expires-at">New end date</Label>
+              <Input id="coverage-expires-at" type="date" value={expiresAt} onChange={e => setExpiresAt(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenewing(null)}>Cancel</Button>
+            <Button
+              onClick={() => renewMutation.mutate()}
+              disabled={!expiresAt || renewCount === 0 || renewMutation.isPending}
+            >
+              {renewMutation.isPending ? "Saving..." : "Record renewal"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -28,6 +28,7 @@ import {
   Shield,
   ShieldCheck,
   Scan,
+  ScanLine,
   FileText,
   FileSearch,
   Building2,
@@ -59,6 +60,9 @@ const navigation = [
       { name: "Software", href: "/assets?type=Software", icon: Code },
       { name: "Peripherals", href: "/assets?type=Peripherals", icon: Printer },
       { name: "Others", href: "/assets?type=Others", icon: Package },
+      { name: "Scan Asset", href: "/scan", icon: ScanLine },
+      { name: "Inventory Audits", href: "/inventory-audits", icon: ClipboardCheck },
+      { name: "Service Map", href: "/cmdb", icon: Network },
     ]
   },
   { name: "Vendors", href: "/vendors", icon: Building2, requiredRole: "it-manager" },
@@ -3,9 +3,10 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Calendar, User, MessageSquare, AlertCircle, UserPlus, CheckCircle, MoreVertical, Edit, Trash2, XCircle, MessageCircle } from "lucide-react";
+import { Calendar, User, MessageSquare, AlertCircle, UserPlus, CheckCircle, MoreVertical, Edit, Trash2, XCircle, MessageCircle, Network } from "lucide-react";
 import { TicketStatusBadge } from "./ticket-status-badge";
 import { TicketPriorityBadge } from "./ticket-priority-badge";
+import { TicketSlaBadge } from "./ticket-sla-badge";
 import type { Ticket } from "@shared/schema";
 import { formatDistanceToNow } from "date-fns";
 
@@ -80,6 +81,12 @@ export function TicketCard({ ticket, onClick, className, onAssign, onUpdateStatu
             </div>
           </div>
           <div className="flex items-center space-x-2">
+            {ticket.slaStatus && (
+              <TicketSlaBadge
+                slaStatus={ticket.slaStatus as any}
+                dueAt={ticket.firstResponseAt ? ticket.resolutionDueAt : ticket.responseDueAt}
+              />
+            )}
             <TicketPriorityBadge priority={ticket.priority as any} />
             <TicketStatusBadge status={ticket.status as any} />
             
@@ -164,6 +171,15 @@ export function TicketCard({ ticket, onClick, className, onAssign, onUpdateStatu
           </div>
         )}
 
+        {Array.isArray(ticket.impactedServices) && ticket.impactedServices.length > 0 && (
+          <div className="flex items-center text-xs text-amber-700 mb-2">
+            <Network className="h-3 w-3 mr-1" />
+            <span data-testid={`text-ticket-services-${ticket.id}`}>
+              Affects: {(ticket.impactedServices as Array<{ name: string }>).map(service => service.name).join(", ")}
+            </span>
+          </div>
+        )}
+
         <div className="flex items-center justify-between text-xs text-muted-foreground">
           <div className="flex items-center space-x-3">
             <div className="flex items-center">
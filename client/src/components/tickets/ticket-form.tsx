@@ -12,7 +12,7 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { ChevronsUpDown, Check, Plus, User, Wrench } from "lucide-react";
+import { ChevronsUpDown, Check, Network, Plus, User, Wrench } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
@@ -213,6 +213,44 @@ function UserSelect({ value, onValueChange, placeholder, dataTestId, roleFilter,
   );
 }
 
+type AssetImpact = {
+  affectedServices: Array<{ id: string; name: string; criticality: string; via?: string }>;
+};
+
+/**
+ * Business services that depend on the selected asset in the CMDB graph
+ */
+function AffectedServicesNotice({ assetId }: { assetId: string }) {
+  const { data } = useQuery<AssetImpact>({
+    queryKey: ["/api/cmdb/impact", "asset", assetId],
+    queryFn: async () => {
+      const response = await authenticatedRequest("GET", `/api/cmdb/impact/asset/${assetId}`);
+      return response.json();
+    },
+    enabled: !!assetId,
+    retry: false,
+  });
+
+  if (!data || data.affectedServices.length === 0) return null;
+
+  return (
+    <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm" data-testid="notice-affected-services">
+      <div className="flex items-center gap-2 font-medium text-amber-900">
+        <Network className="h-4 w-4" />
+        Services affected by this asset
+      </div>
+      <div className="mt-2 flex flex-wrap gap-2">
+        {data.affectedServices.map((service) => (
+          <Badge key={service.id} variant="outline" className="bg-white">
+            {service.name}
+            <span className="ml-1 text-xs capitalize text-muted-foreground">{service.criticality}</span>
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 export function TicketForm({ onSuccess, onCancel, defaultValues, mode = "create", ticketId }: TicketFormProps) {
   const { toast } = useToast();
   const { user: currentUser } = useAuth();
@@ -490,6 +528,8 @@ export function TicketForm({ onSuccess, onCancel, defaultValues, mode = "create"
           )}
         />
 
+        <AffectedServicesNotice assetId={form.watch("assetId") || ""} />
+
         <div className="flex justify-end space-x-4">
           {onCancel && (
             <Button 
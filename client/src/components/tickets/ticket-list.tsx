@@ -48,6 +48,7 @@ export function TicketList({
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
   const [priorityFilter, setPriorityFilter] = useState<string>("all");
+  const [slaFilter, setSlaFilter] = useState<string>("all");
   
   // Assignment dialog state
   const [assignDialogOpen, setAssignDialogOpen] = useState(false);
@@ -309,8 +310,10 @@ export function TicketList({
     const matchesStatus = statusFilter === "all" || ticket.status === statusFilter;
     const matchesCategory = categoryFilter === "all" || ticket.category === categoryFilter;
     const matchesPriority = priorityFilter === "all" || ticket.priority === priorityFilter;
+    const matchesSla = slaFilter === "all" ||
+      (slaFilter === "none" ? !ticket.slaStatus : ticket.slaStatus === slaFilter);
 
-    return matchesSearch && matchesStatus && matchesCategory && matchesPriority;
+    return matchesSearch && matchesStatus && matchesCategory && matchesPriority && matchesSla;
   });
 
   if (isLoading) {
@@ -382,6 +385,7 @@ export function TicketList({
               <SelectItem value="all">All Status</SelectItem>
               <SelectItem value="open">Open</SelectItem>
               <SelectItem value="in-progress">In Progress</SelectItem>
+              <SelectItem value="awaiting-requestor">Awaiting Requestor</SelectItem>
               <SelectItem value="resolved">Resolved</SelectItem>
               <SelectItem value="closed">Closed</SelectItem>
             </SelectContent>
@@ -414,7 +418,22 @@ export function TicketList({
             </SelectContent>
           </Select>
 
-          {(statusFilter !== "all" || categoryFilter !== "all" || priorityFilter !== "all") && (
+          <Select value={slaFilter} onValueChange={setSlaFilter}>
+            <SelectTrigger className="w-[150px]" data-testid="select-filter-sla">
+              <SelectValue placeholder="SLA" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All SLA States</SelectItem>
+              <SelectItem value="on_track">On Track</SelectItem>
+              <SelectItem value="at_risk">At Risk</SelectItem>
+              <SelectItem value="breached">Breached</SelectItem>
+              <SelectItem value="paused">Paused</SelectItem>
+              <SelectItem value="met">Met</SelectItem>
+              <SelectItem value="none">No SLA</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {(statusFilter !== "all" || categoryFilter !== "all" || priorityFilter !== "all" || slaFilter !== "all") && (
             <Button
               variant="ghost"
               size="sm"
@@ -422,6 +441,7 @@ export function TicketList({
                 setStatusFilter("all");
                 setCategoryFilter("all");
                 setPriorityFilter("all");
+                setSlaFilter("all");
               }}
               data-testid="button-clear-filters"
             >
@@ -440,7 +460,7 @@ export function TicketList({
             </div>
             <h3 className="text-lg font-semibold mb-2">No tickets found</h3>
             <p className="text-muted-foreground mb-4">
-              {searchTerm || statusFilter !== "all" || categoryFilter !== "all" || priorityFilter !== "all"
+              {searchTerm || statusFilter !== "all" || categoryFilter !== "all" || priorityFilter !== "all" || slaFilter !== "all"
                 ? "Try adjusting your search or filters."
                 : "No support tickets have been created yet."}
             </p>
@@ -526,6 +546,7 @@ export function TicketList({
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="in-progress">In Progress</SelectItem>
+                  <SelectItem value="awaiting-requestor">Awaiting Requestor</SelectItem>
                   <SelectItem value="resolved">Resolved</SelectItem>
                   <SelectItem value="closed">Closed</SelectItem>
                 </SelectContent>
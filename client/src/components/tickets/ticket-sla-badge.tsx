@@ -0,0 +1,69 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { formatDistanceToNow } from "date-fns";
+
+export type TicketSlaStatus = "on_track" | "at_risk" | "breached" | "paused" | "met";
+
+interface TicketSlaBadgeProps {
+  slaStatus: TicketSlaStatus;
+  dueAt?: Date | string | null;
+  className?: string;
+}
+
+export function TicketSlaBadge({ slaStatus, dueAt, className }: TicketSlaBadgeProps) {
+  const getSlaConfig = (slaStatus: TicketSlaStatus) => {
+    switch (slaStatus) {
+      case "on_track":
+        return {
+          label: "SLA On Track",
+          variant: "secondary" as const,
+          className: "bg-green-100 text-green-800 hover:bg-green-100/80",
+        };
+      case "at_risk":
+        return {
+          label: "SLA At Risk",
+          variant: "secondary" as const,
+          className: "bg-amber-100 text-amber-800 hover:bg-amber-100/80",
+        };
+      case "breached":
+        return {
+          label: "SLA Breached",
+          variant: "destructive" as const,
+          className: "bg-red-100 text-red-800 hover:bg-red-100/80",
+        };
+      case "paused":
+        return {
+          label: "SLA Paused",
+          variant: "secondary" as const,
+          className: "bg-gray-100 text-gray-800 hover:bg-gray-100/80",
+        };
+      case "met":
+        return {
+          label: "SLA Met",
+          variant: "secondary" as const,
+          className: "bg-emerald-100 text-emerald-800 hover:bg-emerald-100/80",
+        };
+      default:
+        return {
+          label: slaStatus,
+          variant: "secondary" as const,
+          className: "bg-gray-100 text-gray-800 hover:bg-gray-100/80",
+        };
+    }
+  };
+
+  const config = getSlaConfig(slaStatus);
+  const showDue = dueAt && (slaStatus === "on_track" || slaStatus === "at_risk");
+
+  return (
+    <Badge
+      variant={config.variant}
+      className={cn(config.className, className)}
+      title={showDue ? `Due ${new Date(dueAt).toLocaleString()}` : undefined}
+      data-testid={`badge-sla-${slaStatus}`}
+    >
+      {config.label}
+      {showDue && ` · ${formatDistanceToNow(new Date(dueAt), { addSuffix: true })}`}
+    </Badge>
+  );
+}
@@ -1,7 +1,7 @@
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 
-export type TicketStatus = "open" | "in-progress" | "resolved" | "closed";
+export type TicketStatus = "open" | "in-progress" | "awaiting-requestor" | "resolved" | "closed";
 
 interface TicketStatusBadgeProps {
   status: TicketStatus;
@@ -23,6 +23,12 @@ export function TicketStatusBadge({ status, className }: TicketStatusBadgeProps)
           variant: "secondary" as const,
           className: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100/80",
         };
+      case "awaiting-requestor":
+        return {
+          label: "Awaiting Requestor",
+          variant: "secondary" as const,
+          className: "bg-purple-100 text-purple-800 hover:bg-purple-100/80",
+        };
       case "resolved":
         return {
           label: "Resolved",
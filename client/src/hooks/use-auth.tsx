@@ -12,12 +12,28 @@ interface AuthUser {
   tenantId: string;
 }
 
+export interface AuthSession {
+  token: string;
+  user: AuthUser;
+  tenant: Tenant | null;
+  recoveryCodes?: string[];
+  recoveryCodesRemaining?: number;
+}
+
+// Login either completes or asks for a second step, authorized by the short-lived mfaToken
+export type LoginResult =
+  | { status: "authenticated"; session: AuthSession }
+  | { status: "mfa_required"; mfaToken: string; methods: string[] }
+  | { status: "mfa_enrollment_required"; mfaToken: string };
+
 interface AuthContextType {
   user: AuthUser | null;
   tenant: Tenant | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (credentials: LoginRequest) => Promise<void>;
+  login: (credentials: LoginRequest) => Promise<LoginResult>;
+  verifyLoginMfa: (data: { mfaToken: string; code?: string; recoveryCode?: string }) => Promise<AuthSession>;
+  completeLogin: (session: AuthSession) => void;
   register: (data: RegisterRequest) => Promise<void>;
   logout: () => void;
 }
@@ -58,16 +74,40 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, [verifyData]);
 
+  const completeLogin = (session: AuthSession) => {
+    localStorage.setItem("token", session.token);
+    setUser(session.user);
+    setTenant(session.tenant);
+    queryClient.invalidateQueries();
+  };
+
   const loginMutation = useMutation({
-    mutationFn: async (credentials: LoginRequest) => {
+    mutationFn: async (credentials: LoginRequest): Promise<LoginResult> => {
       const response = await apiRequest("POST", "/api/auth/login", credentials);
+      const data = await response.json();
+
+      if (data.mfaRequired) {
+        return { status: "mfa_required", mfaToken: data.mfaToken, methods: data.methods || ["totp"] };
+      }
+      if (data.mfaEnrollmentRequired) {
+        return { status: "mfa_enrollment_required", mfaToken: data.mfaToken };
+      }
+      return { status: "authenticated", session: data };
+    },
+    onSuccess: (result) => {
+      if (result.status === "authenticated") {
+        completeLogin(result.session);
+      }
+    },
+  });
+
+  const verifyLoginMfaMutation = useMutation({
+    mutationFn: async (data: { mfaToken: string; code?: string; recoveryCode?: string }): Promise<AuthSession> => {
+      const response = await apiRequest("POST", "/api/auth/login/mfa", data);
       return response.json();
     },
-    onSuccess: (data) => {
-      localStorage.setItem("token", data.token);
-      setUser(data.user);
-      setTenant(data.tenant);
-      queryClient.invalidateQueries();
+    onSuccess: (session) => {
+      completeLogin(session);
     },
   });
 
@@ -97,6 +137,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     isAuthenticated: !!user,
     isLoading: isVerifying,
     login: loginMutation.mutateAsync,
+    verifyLoginMfa: verifyLoginMfaMutation.mutateAsync,
+    completeLogin,
     register: registerMutation.mutateAsync,
     logout,
   };
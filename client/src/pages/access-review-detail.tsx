@@ -6,6 +6,7 @@
  * - Filter by risk level, user, app
  * - Approve/Revoke/Defer individual items
  * - Bulk approve/revoke operations
+ * - Stage trail per item (multi-stage campaigns) and reviewer reassignment
  * - Track campaign progress
  */
 
@@ -63,8 +64,37 @@ import {
   AlertTriangle,
   User,
   Calendar,
+  UserCog,
+  ChevronDown,
+  ChevronRight,
 } from "lucide-react";
 
+interface StageTrailEntry {
+  stage: number;
+  stageName: string;
+  action: string;
+  reviewerId: string | null;
+  reviewerName: string | null;
+  actorId: string | null;
+  actorName: string | null;
+  notes?: string;
+  at: string;
+}
+
+interface ReviewStage {
+  name: string;
+  reviewerType: "manager" | "app_owner" | "specific_users";
+  riskLevels?: string[];
+  dueInDays?: number;
+}
+
+interface TenantUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
 interface AccessReviewItem {
   id: string;
   userId: string;
@@ -82,7 +112,12 @@ interface AccessReviewItem {
   decision: string;
   decisionNotes?: string;
   reviewedAt?: string;
+  reviewerId?: string | null;
   reviewerName?: string;
+  currentStage: number;
+  stageName?: string | null;
+  stageDueAt?: string | null;
+  stageTrail?: StageTrailEntry[] | null;
 }
 
 interface Campaign {
@@ -98,8 +133,25 @@ interface Campaign {
   deferredItems: number;
   startDate: string;
   dueDate: string;
+  stages?: ReviewStage[] | null;
 }
 
+const STAGE_REVIEWER_LABELS: Record<ReviewStage["reviewerType"], string> = {
+  manager: "Manager",
+  app_owner: "App owner",
+  specific_users: "Named reviewers",
+};
+
+const TRAIL_ACTION_LABELS: Record<string, string> = {
+  assigned: "Assigned",
+  delegated: "Delegated",
+  reassigned: "Reassigned",
+  blocked_conflict: "No eligible reviewer",
+  approved: "Approved",
+  revoked: "Revoked",
+  deferred: "Deferred",
+};
+
 export default function AccessReviewDetailPage() {
   const [, params] = useRoute("/access-reviews/:id");
   const [, setLocation] = useLocation();
@@ -120,15 +172,21 @@ export default function AccessReviewDetailPage() {
     notes: "",
   });
   const [bulkAction, setBulkAction] = useState<"approved" | "revoked" | "deferred">("approved");
+  const [expandedTrails, setExpandedTrails] = useState<Set<string>>(new Set());
+  const [reassignItem, setReassignItem] = useState<AccessReviewItem | null>(null);
+  const [reassignData, setReassignData] = useState({ reviewerId: "", reason: "" });
 
-  const permissions = user ? getRolePermissions(user.role) : { canWrite: false, canManage: false };
+  const permissions = getRolePermissions(user?.role);
+  const canOverride = permissions.isItManager || permissions.isAdmin || permissions.isSuperAdmin;
+  const canReview = (item: AccessReviewItem) => canOverride || (!!user && item.reviewerId === user.id);
 
   // Fetch campaign
   const { data: campaign, isLoading: campaignLoading } = useQuery<Campaign>({
     queryKey: ["access-review-campaign", campaignId],
     queryFn: async () => {
       const response = await authenticatedRequest("GET", `/api/access-reviews/campaigns/${campaignId}`);
-      return response.json();
+      const data = await response.json();
+      return data.campaign;
     },
     enabled: !!campaignId,
   });
@@ -138,21 +196,31 @@ export default function AccessReviewDetailPage() {
     queryKey: ["access-review-items", campaignId],
     queryFn: async () => {
       const response = await authenticatedRequest("GET", `/api/access-reviews/campaigns/${campaignId}/items`);
-      return response.json();
+      const data = await response.json();
+      return data.items ?? [];
     },
     enabled: !!campaignId,
   });
 
+  const { data: tenantUsers = [] } = useQuery<TenantUser[]>({
+    queryKey: ["/api/users"],
+    queryFn: async () => {
+      const response = await authenticatedRequest("GET", "/api/users");
+      return response.json();
+    },
+    enabled: !!reassignItem,
+  });
+
   // Submit decision mutation
   const submitDecisionMutation = useMutation({
     mutationFn: async ({ itemId, decision, notes }: { itemId: string; decision: string; notes?: string }) => {
       const response = await authenticatedRequest("POST", `/api/access-reviews/items/${itemId}/decision`, { decision, notes });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { message?: string }) => {
       toast({
         title: "Decision submitted",
-        description: "Review decision has been recorded",
+        description: result.message || "Review decision has been recorded",
       });
       queryClient.invalidateQueries({ queryKey: ["access-review-items", campaignId] });
       queryClient.invalidateQueries({ queryKey: ["access-review-campaign", campaignId] });
@@ -175,10 +243,13 @@ export default function AccessReviewDetailPage() {
       const response = await authenticatedRequest("POST", `/api/access-reviews/campaigns/${campaignId}/bulk-decision`, { itemIds, decision, notes });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { succeeded: number; failed: number; errors: Array<{ itemId: string; error: string }> }) => {
       toast({
-        title: "Bulk decision submitted",
-        description: `Decision applied to ${selectedItems.size} items`,
+        title: result.failed === 0 ? "Bulk decision submitted" : "Bulk decision partly applied",
+        description: result.failed === 0
+          ? `Decision applied to ${result.succeeded} items`
+          : `Decision applied to ${result.succeeded} items; ${result.failed} failed: ${result.errors[0]?.error}`,
+        variant: result.failed === 0 ? undefined : "destructive",
       });
       queryClient.invalidateQueries({ queryKey: ["access-review-items", campaignId] });
       queryClient.invalidateQueries({ queryKey: ["access-review-campaign", campaignId] });
@@ -195,6 +266,40 @@ export default function AccessReviewDetailPage() {
     },
   });
 
+  // Reassign mutation
+  const reassignMutation = useMutation({
+    mutationFn: async ({ itemId, reviewerId, reason }: { itemId: string; reviewerId: string; reason: string }) => {
+      const response = await authenticatedRequest("POST", `/api/access-reviews/items/${itemId}/reassign`, { reviewerId, reason });
+      return response.json();
+    },
+    onSuccess: (result: { message?: string }) => {
+      toast({
+        title: "Item reassigned",
+        description: result.message || "The review item has a new reviewer",
+      });
+      queryClient.invalidateQueries({ queryKey: ["access-review-items", campaignId] });
+      setReassignItem(null);
+      setReassignData({ reviewerId: "", reason: "" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reassign item",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleTrail = (itemId: string) => {
+    const next = new Set(expandedTrails);
+    if (next.has(itemId)) {
+      next.delete(itemId);
+    } else {
+      next.add(itemId);
+    }
+    setExpandedTrails(next);
+  };
+
   const handleDecision = (item: AccessReviewItem, decision: "approved" | "revoked" | "deferred") => {
     setCurrentItem(item);
     setDecisionData({ decision, notes: "" });
@@ -239,10 +344,11 @@ export default function AccessReviewDetailPage() {
   };
 
   const toggleAllItems = () => {
-    if (selectedItems.size === filteredItems.length) {
+    const selectable = filteredItems.filter((item) => item.decision === "pending" && canReview(item));
+    if (selectable.length === 0 || selectedItems.size === selectable.length) {
       setSelectedItems(new Set());
     } else {
-      setSelectedItems(new Set(filteredItems.map((item) => item.id)));
+      setSelectedItems(new Set(selectable.map((item) => item.id)));
     }
   };
 
@@ -370,6 +476,19 @@ export default function AccessReviewDetailPage() {
                     />
                   </div>
                 </div>
+
+                {campaign.stages && campaign.stages.length > 1 && (
+                  <div className="mt-4 flex flex-wrap items-center gap-2 text-sm" data-testid="campaign-stages">
+                    <span className="text-gray-600">Stages:</span>
+                    {campaign.stages.map((stage, index) => (
+                      <Badge key={index} variant="outline">
+                        {index + 1}. {stage.name} ({STAGE_REVIEWER_LABELS[stage.reviewerType]}
+                        {stage.riskLevels ? `, ${stage.riskLevels.join("/")} risk` : ""}
+                        {stage.dueInDays ? `, ${stage.dueInDays}d` : ""})
+                      </Badge>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -415,7 +534,7 @@ export default function AccessReviewDetailPage() {
                     </SelectContent>
                   </Select>
 
-                  {selectedItems.size > 0 && permissions.canWrite && (
+                  {selectedItems.size > 0 && (
                     <Button onClick={() => setBulkDialogOpen(true)} variant="outline">
                       Bulk Action ({selectedItems.size})
                     </Button>
@@ -432,7 +551,7 @@ export default function AccessReviewDetailPage() {
                   {filteredItems.length > 0 && (
                     <div className="flex items-center gap-2">
                       <Checkbox
-                        checked={selectedItems.size === filteredItems.length && filteredItems.length > 0}
+                        checked={selectedItems.size > 0 && selectedItems.size === filteredItems.filter((item) => item.decision === "pending" && canReview(item)).length}
                         onCheckedChange={toggleAllItems}
                       />
                       <span className="text-sm text-gray-600">Select All</span>
@@ -459,7 +578,7 @@ export default function AccessReviewDetailPage() {
                           <Checkbox
                             checked={selectedItems.has(item.id)}
                             onCheckedChange={() => toggleItemSelection(item.id)}
-                            disabled={item.decision !== "pending"}
+                            disabled={item.decision !== "pending" || !canReview(item)}
                           />
 
                           <div className="flex-1">
@@ -485,6 +604,9 @@ export default function AccessReviewDetailPage() {
                               </div>
 
                               <div className="flex items-center gap-2">
+                                {item.decision === "pending" && item.stageName && (
+                                  <Badge variant="outline">{item.stageName}</Badge>
+                                )}
                                 <Badge className={getRiskColor(item.riskLevel)}>{item.riskLevel}</Badge>
                                 <Badge className={getDecisionColor(item.decision)}>{item.decision}</Badge>
                               </div>
@@ -526,7 +648,55 @@ export default function AccessReviewDetailPage() {
                               </div>
                             )}
 
-                            {item.decision === "pending" && permissions.canWrite && (
+                            {item.decision === "pending" && (
+                              <div className="bg-gray-50 rounded-lg p-3 mb-3 flex flex-wrap items-center gap-4 text-sm text-gray-700">
+                                <span>
+                                  <strong>Reviewer:</strong> {item.reviewerName || "Unassigned"}
+                                </span>
+                                {item.stageDueAt && (
+                                  <span className={new Date(item.stageDueAt).getTime() < Date.now() ? "text-red-600" : ""}>
+                                    <Calendar className="inline h-3 w-3 mr-1" />
+                                    <strong>Stage due:</strong> {formatDate(item.stageDueAt)}
+                                  </span>
+                                )}
+                              </div>
+                            )}
+
+                            {(item.stageTrail?.length ?? 0) > 0 && (
+                              <div className="mb-3">
+                                <button
+                                  type="button"
+                                  className="flex items-center text-sm text-gray-600 hover:text-gray-900"
+                                  onClick={() => toggleTrail(item.id)}
+                                >
+                                  {expandedTrails.has(item.id) ? (
+                                    <ChevronDown className="h-4 w-4 mr-1" />
+                                  ) : (
+                                    <ChevronRight className="h-4 w-4 mr-1" />
+                                  )}
+                                  Stage trail ({item.stageTrail!.length})
+                                </button>
+                                {expandedTrails.has(item.id) && (
+                                  <ol className="mt-2 ml-5 border-l pl-4 space-y-2" data-testid={`stage-trail-${item.id}`}>
+                                    {item.stageTrail!.map((entry, index) => (
+                                      <li key={index} className="text-sm">
+                                        <p className="text-gray-900">
+                                          <strong>{entry.stageName}</strong> — {TRAIL_ACTION_LABELS[entry.action] ?? entry.action}
+                                          {entry.reviewerName && ` → ${entry.reviewerName}`}
+                                        </p>
+                                        <p className="text-xs text-gray-500">
+                                          {new Date(entry.at).toLocaleString()}
+                                          {entry.actorName && ` by ${entry.actorName}`}
+                                          {entry.notes && ` • ${entry.notes}`}
+                                        </p>
+                                      </li>
+                                    ))}
+                                  </ol>
+                                )}
+                              </div>
+                            )}
+
+                            {item.decision === "pending" && canReview(item) && (
                               <div className="flex gap-2">
                                 <Button
                                   size="sm"
@@ -555,6 +725,10 @@ export default function AccessReviewDetailPage() {
                                   <Clock className="h-4 w-4 mr-1" />
                                   Defer
                                 </Button>
+                                <Button size="sm" variant="outline" onClick={() => setReassignItem(item)}>
+                                  <UserCog className="h-4 w-4 mr-1" />
+                                  Reassign
+                                </Button>
                               </div>
                             )}
                           </div>
@@ -650,6 +824,68 @@ export default function AccessReviewDetailPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Reassign Dialog */}
+      <Dialog open={!!reassignItem} onOpenChange={(open) => !open && setReassignItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reassign Review Item</DialogTitle>
+            <DialogDescription>
+              Hand the {reassignItem?.stageName || "current"} stage for {reassignItem?.userName} / {reassignItem?.appName} to
+              another reviewer
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Reviewer</Label>
+              <Select
+                value={reassignData.reviewerId}
+                onValueChange={(value) => setReassignData((prev) => ({ ...prev, reviewerId: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a reviewer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {tenantUsers
+                    .filter((candidate) => candidate.id !== reassignItem?.userId && candidate.id !== reassignItem?.reviewerId)
+                    .map((candidate) => (
+                      <SelectItem key={candidate.id} value={candidate.id}>
+                        {`${candidate.firstName} ${candidate.lastName}`.trim() || candidate.email}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">The user whose access is under review cannot review it.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="reassign-reason">Reason</Label>
+              <Textarea
+                id="reassign-reason"
+                placeholder="Why is this item being reassigned?"
+                value={reassignData.reason}
+                onChange={(e) => setReassignData((prev) => ({ ...prev, reason: e.target.value }))}
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReassignItem(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                reassignItem && reassignMutation.mutate({ itemId: reassignItem.id, ...reassignData })
+              }
+              disabled={!reassignData.reviewerId || !reassignData.reason.trim() || reassignMutation.isPending}
+            >
+              {reassignMutation.isPending ? "Reassigning..." : "Reassign"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Bulk Decision Dialog */}
       <AlertDialog open={bulkDialogOpen} onOpenChange={setBulkDialogOpen}>
         <AlertDialogContent>
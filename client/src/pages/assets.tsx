@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useMemo, useRef, useCallback } from "react";
 import { Drawer, DrawerContent, DrawerHeader, DrawerTitle, DrawerDescription, DrawerClose } from "@/components/ui/drawer";
 import { DeviceSoftware } from "@/components/assets/DeviceSoftware";
+import { AssetTimeline } from "@/components/assets/AssetTimeline";
+import { PrintLabelsDialog } from "@/components/assets/PrintLabelsDialog";
 import { SoftwareDevices } from "@/components/assets/SoftwareDevices";
 import { AssetAnalytics } from "@/components/assets/AssetAnalytics";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
@@ -22,9 +24,10 @@ import { authenticatedRequest } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { getRolePermissions } from "@/lib/permissions";
-import { Laptop, Monitor, Code, Edit, Eye, Trash2, Search, Upload, Download, FileText, AlertCircle, CheckCircle, XCircle, ArrowUpDown, ArrowUp, ArrowDown, Settings, Calendar, DollarSign, Package, MapPin, User, Hash, Building, Wrench, Mail, BadgeCheck, RefreshCw } from "lucide-react";
+import { Laptop, Monitor, Code, Edit, Eye, Trash2, Search, Upload, Download, FileText, AlertCircle, CheckCircle, XCircle, ArrowUpDown, ArrowUp, ArrowDown, Settings, Calendar, DollarSign, Package, MapPin, User, Hash, Building, Wrench, Mail, BadgeCheck, RefreshCw, QrCode, ScanLine } from "lucide-react";
 import type { Asset, InsertAsset } from "@shared/schema";
 import { AssetTypeEnum } from "@shared/schema";
+import { isAgentStale } from "@shared/utils";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem } from "@/components/ui/command";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -65,6 +68,16 @@ interface ColumnVisibility {
   actions: boolean;
 }
 
+// Endpoint agent check-in health (null when the asset has no agent)
+function getAgentHealth(asset: Asset): { lastCheckInAt: string | null; stale: boolean } | null {
+  const agent = (asset.specifications as any)?.agent;
+  if (asset.type !== "Hardware" || !agent) return null;
+  return {
+    lastCheckInAt: agent.lastCheckInAt ?? null,
+    stale: isAgentStale(agent.lastCheckInAt, agent.checkInIntervalSeconds),
+  };
+}
+
 // Enhanced Assets Table Component
 interface EnhancedAssetsTableProps {
   assets: Asset[];
@@ -299,6 +312,7 @@ function EnhancedAssetsTable({ assets, isLoading, onEditAsset, onDeleteAsset, on
       case 'deployed': return 'bg-green-100 text-green-800 border-green-200 dark:bg-green-900 dark:text-green-100';
       case 'in-stock': return 'bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900 dark:text-blue-100';
       case 'in-repair': return 'bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-900 dark:text-yellow-100';
+      case 'retired': return 'bg-orange-100 text-orange-800 border-orange-200 dark:bg-orange-900 dark:text-orange-100';
       case 'disposed': return 'bg-red-100 text-red-800 border-red-200 dark:bg-red-900 dark:text-red-100';
       default: return 'bg-gray-100 text-gray-800 border-gray-200 dark:bg-gray-900 dark:text-gray-100';
     }
@@ -584,9 +598,12 @@ const totalColumnCount = columnCount + 1; // include View Devices column
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="all">All Status</SelectItem>
+                        <SelectItem value="ordered">Ordered</SelectItem>
+                        <SelectItem value="received">Received</SelectItem>
                         <SelectItem value="deployed">Deployed</SelectItem>
                         <SelectItem value="in-stock">In Stock</SelectItem>
                         <SelectItem value="in-repair">In Repair</SelectItem>
+                        <SelectItem value="retired">Retired</SelectItem>
                         <SelectItem value="disposed">Disposed</SelectItem>
                       </SelectContent>
                     </Select>
@@ -1067,7 +1084,7 @@ const totalColumnCount = columnCount + 1; // include View Devices column
                           variant={
                             asset.status === 'deployed' ? 'success' : 
                             asset.status === 'in-stock' ? 'info' :
-                            asset.status === 'in-repair' ? 'warning' :
+                            asset.status === 'in-repair' || asset.status === 'retired' ? 'warning' :
                             asset.status === 'disposed' ? 'danger' : 'default'
                           }
                           glow
@@ -1075,6 +1092,13 @@ const totalColumnCount = columnCount + 1; // include View Devices column
                         >
                           {asset.status.replace('-', ' ')}
                         </StatusBadge>
+                        {getAgentHealth(asset)?.stale && (
+                          <span className="ml-2" title="Agent has stopped checking in">
+                            <StatusBadge variant="warning" data-testid={`badge-agent-stale-${asset.id}`}>
+                              stale
+                            </StatusBadge>
+                          </span>
+                        )}
                       </td>
                     )}
 
@@ -1182,7 +1206,9 @@ const totalColumnCount = columnCount + 1; // include View Devices column
                           <span className="text-foreground text-sm" data-testid={`text-last-seen-${asset.id}`}>
                             {(asset.specifications as any)?.openaudit?.lastSeen 
                               ? new Date((asset.specifications as any).openaudit.lastSeen).toLocaleString()
-                              : "N/A"}
+                              : getAgentHealth(asset)?.lastCheckInAt
+                                ? new Date(getAgentHealth(asset)!.lastCheckInAt!).toLocaleString()
+                                : "N/A"}
                           </span>
                         ) : (
                           <span className="text-muted-foreground text-sm">—</span>
@@ -1362,6 +1388,7 @@ export default function Assets() {
   const [location, setLocation] = useLocation();
   const [isAssetFormOpen, setIsAssetFormOpen] = useState(false);
   const [isBulkUploadOpen, setIsBulkUploadOpen] = useState(false);
+  const [isPrintLabelsOpen, setIsPrintLabelsOpen] = useState(false);
   const [editingAsset, setEditingAsset] = useState<Asset | undefined>();
   const [searchTerm, setSearchTerm] = useState("");
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
@@ -2075,12 +2102,29 @@ export default function Assets() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
+                  <SelectItem value="ordered">Ordered</SelectItem>
+                  <SelectItem value="received">Received</SelectItem>
                   <SelectItem value="in-stock">In Stock</SelectItem>
                   <SelectItem value="deployed">Deployed</SelectItem>
                   <SelectItem value="in-repair">In Repair</SelectItem>
+                  <SelectItem value="retired">Retired</SelectItem>
                   <SelectItem value="disposed">Disposed</SelectItem>
                 </SelectContent>
               </Select>
+
+              <Button
+                variant="outline"
+                onClick={() => setIsPrintLabelsOpen(true)}
+                disabled={filteredAssets.length === 0}
+                data-testid="button-print-labels"
+              >
+                <QrCode className="h-4 w-4 mr-2" />
+                Print Labels
+              </Button>
+              <Button variant="outline" onClick={() => setLocation("/scan")} data-testid="button-scan-asset">
+                <ScanLine className="h-4 w-4 mr-2" />
+                Scan
+              </Button>
             </div>
           </div>
 
@@ -2117,10 +2161,17 @@ export default function Assets() {
                 {viewingAsset?.type === "Hardware" && (
                   <TabsTrigger value="software">Software</TabsTrigger>
                 )}
+                {viewingAsset?.type !== "Software" && (
+                  <TabsTrigger value="timeline">Timeline</TabsTrigger>
+                )}
               </TabsList>
 
               <TabsContent value="details" className="mt-4">
                 <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <div className="text-muted-foreground">Asset Tag</div>
+                    <div className="font-medium">{viewingAsset?.assetTag || "N/A"}</div>
+                  </div>
                   <div>
                     <div className="text-muted-foreground">Serial Number</div>
                     <div className="font-medium">{viewingAsset?.serialNumber || "N/A"}</div>
@@ -2161,6 +2212,12 @@ export default function Assets() {
                 )}
               </TabsContent>
             )}
+
+            {viewingAsset && viewingAsset.type !== "Software" && (
+              <TabsContent value="timeline" className="mt-4">
+                <AssetTimeline assetId={viewingAsset.id} canManage={permissions.canManageAssets} />
+              </TabsContent>
+            )}
           </Tabs>
 
           <div className="mt-6 flex justify-end">
@@ -2171,6 +2228,12 @@ export default function Assets() {
         </div>
       </DrawerContent>
     </Drawer>
+
+      <PrintLabelsDialog
+        open={isPrintLabelsOpen}
+        onOpenChange={setIsPrintLabelsOpen}
+        assetIds={filteredAssets.map((asset: Asset) => asset.id)}
+      />
       
       {permissions.canManageAssets && (
         <AssetForm
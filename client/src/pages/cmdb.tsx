@@ -0,0 +1,556 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { TopBar } from "@/components/layout/topbar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { authenticatedRequest } from "@/lib/auth";
+import { getRolePermissions } from "@/lib/permissions";
+import type { Asset, BusinessService, CiNodeType, SaasApp, Site, User } from "@shared/schema";
+import { ArrowDown, ArrowUp, Link2, Network, Plus, Trash2 } from "lucide-react";
+
+type NodeSummary = { type: CiNodeType; id: string; name: string; status?: string | null; missing?: boolean };
+
+type RelationshipView = {
+  id: string;
+  relationshipType: string;
+  notes: string | null;
+  source: NodeSummary;
+  target: NodeSummary;
+};
+
+type ImpactEntry = NodeSummary & { depth: number; relationshipType: string; viaName: string };
+
+type Impact = {
+  node: NodeSummary;
+  upstream: ImpactEntry[];
+  downstream: ImpactEntry[];
+  related: Array<NodeSummary & { relationshipType: string; direction: "outgoing" | "incoming" }>;
+  affectedServices: Array<{ id: string; name: string; criticality: string; depth: number; via?: string }>;
+};
+
+const NODE_TYPE_LABELS: Record<CiNodeType, string> = {
+  asset: "Asset",
+  saas_app: "SaaS app",
+  site: "Site",
+  user: "User",
+  service: "Service",
+};
+
+const RELATIONSHIP_LABELS: Record<string, string> = {
+  runs_on: "runs on",
+  depends_on: "depends on",
+  connected_to: "connected to",
+  backs_up: "backs up",
+  owned_by: "owned by",
+};
+
+const criticalityClass = (criticality: string) =>
+  criticality === "critical" ? "bg-red-100 text-red-800"
+    : criticality === "high" ? "bg-orange-100 text-orange-800"
+      : criticality === "medium" ? "bg-yellow-100 text-yellow-800"
+        : "bg-gray-100 text-gray-800";
+
+async function fetchList<T>(url: string): Promise<T[]> {
+  try {
+    const response = await authenticatedRequest("GET", url);
+    return response.json();
+  } catch {
+    // Not every role can list every kind of configuration item
+    return [];
+  }
+}
+
+export default function Cmdb() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const permissions = getRolePermissions(user?.role);
+
+  const [serviceOpen, setServiceOpen] = useState(false);
+  const [serviceForm, setServiceForm] = useState({ name: "", description: "", criticality: "medium", ownerId: "" });
+  const [relationshipOpen, setRelationshipOpen] = useState(false);
+  const [relationshipForm, setRelationshipForm] = useState({
+    sourceType: "service" as CiNodeType,
+    sourceId: "",
+    relationshipType: "runs_on",
+    targetType: "asset" as CiNodeType,
+    targetId: "",
+    notes: "",
+  });
+  const [selected, setSelected] = useState<{ type: CiNodeType; id: string } | null>(null);
+
+  const { data: services = [] } = useQuery<BusinessService[]>({
+    queryKey: ["/api/cmdb/services"],
+    queryFn: () => fetchList<BusinessService>("/api/cmdb/services"),
+  });
+
+  const { data: relationships = [], isLoading } = useQuery<RelationshipView[]>({
+    queryKey: ["/api/cmdb/relationships"],
+    queryFn: () => fetchList<RelationshipView>("/api/cmdb/relationships"),
+  });
+
+  const pickerOpen = serviceOpen || relationshipOpen;
+  const { data: assets = [] } = useQuery<Asset[]>({
+    queryKey: ["/api/assets"],
+    queryFn: () => fetchList<Asset>("/api/assets"),
+    enabled: relationshipOpen,
+  });
+  const { data: saasApps = [] } = useQuery<SaasApp[]>({
+    queryKey: ["/api/saas-apps"],
+    queryFn: () => fetchList<SaasApp>("/api/saas-apps"),
+    enabled: relationshipOpen,
+  });
+  const { data: sites = [] } = useQuery<Site[]>({
+    queryKey: ["/api/sites"],
+    queryFn: () => fetchList<Site>("/api/sites"),
+    enabled: relationshipOpen,
+  });
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    queryFn: () => fetchList<User>("/api/users"),
+    enabled: pickerOpen,
+  });
+
+  const { data: impact } = useQuery<Impact>({
+    queryKey: ["/api/cmdb/impact", selected?.type, selected?.id],
+    queryFn: async () => {
+      const response = await authenticatedRequest("GET", `/api/cmdb/impact/${selected!.type}/${selected!.id}`);
+      return response.json();
+    },
+    enabled: !!selected,
+  });
+
+  const optionsFor = (type: CiNodeType): Array<{ id: string; name: string }> => {
+    switch (type) {
+      case "asset": return assets.map((asset) => ({ id: asset.id, name: asset.name }));
+      case "saas_app": return saasApps.map((app) => ({ id: app.id, name: app.name }));
+      case "site": return sites.map((site) => ({ id: site.id, name: site.name }));
+      case "user": return users.map((u) => ({ id: u.id, name: `${u.firstName} ${u.lastName}` }));
+      case "service": return services.map((service) => ({ id: service.id, name: service.name }));
+    }
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error?.message ?? "Request failed", variant: "destructive" });
+  };
+
+  const createServiceMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedRequest("POST", "/api/cmdb/services", {
+        name: serviceForm.name,
+        description: serviceForm.description || null,
+        criticality: serviceForm.criticality,
+        ownerId: serviceForm.ownerId || null,
+      });
+      return response.json();
+    },
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey: ["/api/cmdb/services"] });
+      setServiceOpen(false);
+      setServiceForm({ name: "", description: "", criticality: "medium", ownerId: "" });
+      toast({ title: "Business service created" });
+    },
+    onError: onError("Could not create service"),
+  });
+
+  const deleteServiceMutation = useMutation({
+    mutationFn: async (id: string) => authenticatedRequest("DELETE", `/api/cmdb/services/${id}`),
+    onSuccess: async () => {
+      setSelected(null);
+      await qc.invalidateQueries({ queryKey: ["/api/cmdb"] });
+    },
+    onError: onError("Could not delete service"),
+  });
+
+  const createRelationshipMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedRequest("POST", "/api/cmdb/relationships", {
+        ...relationshipForm,
+        notes: relationshipForm.notes || null,
+      });
+      return response.json();
+    },
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey: ["/api/cmdb"] });
+      setRelationshipOpen(false);
+      setRelationshipForm((form) => ({ ...form, sourceId: "", targetId: "", notes: "" }));
+      toast({ title: "Relationship added" });
+    },
+    onError: onError("Could not add relationship"),
+  });
+
+  const deleteRelationshipMutation = useMutation({
+    mutationFn: async (id: string) => authenticatedRequest("DELETE", `/api/cmdb/relationships/${id}`),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["/api/cmdb"] }),
+    onError: onError("Could not remove relationship"),
+  });
+
+  const nodeButton = (node: NodeSummary) => (
+    <button
+      type="button"
+      className={`text-left hover:underline ${node.missing ? "text-muted-foreground line-through" : ""}`}
+      onClick={() => !node.missing && setSelected({ type: node.type, id: node.id })}
+    >
+      <span className="text-xs text-muted-foreground mr-1">{NODE_TYPE_LABELS[node.type]}</span>
+      {node.name}
+    </button>
+  );
+
+  const impactList = (entries: ImpactEntry[], empty: string) =>
+    entries.length === 0 ? (
+      <p className="text-sm text-muted-foreground">{empty}</p>
+    ) : (
+      <ul className="space-y-1 text-sm">
+        {entries.map((entry) => (
+          <li key={`${entry.type}:${entry.id}`} style={{ paddingLeft: `${(entry.depth - 1) * 12}px` }}>
+            {nodeButton(entry)}
+            <span className="text-xs text-muted-foreground ml-1">
+              ({RELATIONSHIP_LABELS[entry.relationshipType] ?? entry.relationshipType} {entry.viaName})
+            </span>
+          </li>
+        ))}
+      </ul>
+    );
+
+  return (
+    <div className="flex h-screen bg-background page-enter">
+      <Sidebar />
+
+      <main className="flex-1 md:ml-64 overflow-auto">
+        <TopBar
+          title="Service Map"
+          description="Business services and the configuration items they depend on"
+        />
+
+        <div className="p-6 grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Business Services</CardTitle>
+                {permissions.canManageAssets && (
+                  <Button size="sm" onClick={() => setServiceOpen(true)} data-testid="button-new-service">
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Service
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent>
+                {services.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No business services yet.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {services.map((service) => (
+                      <div key={service.id} className="flex items-center gap-1 rounded-md border px-3 py-1.5">
+                        <button
+                          type="button"
+                          className="text-sm font-medium hover:underline"
+                          onClick={() => setSelected({ type: "service", id: service.id })}
+                          data-testid={`button-service-${service.id}`}
+                        >
+                          {service.name}
+                        </button>
+                        <Badge className={`${criticalityClass(service.criticality)} capitalize`}>{service.criticality}</Badge>
+                        {permissions.canManageAssets && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-6 w-6"
+                            onClick={() => deleteServiceMutation.mutate(service.id)}
+                            aria-label={`Delete ${service.name}`}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Relationships</CardTitle>
+                {permissions.canManageAssets && (
+                  <Button size="sm" onClick={() => setRelationshipOpen(true)} data-testid="button-new-relationship">
+                    <Link2 className="h-4 w-4 mr-2" />
+                    Add Relationship
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Source</TableHead>
+                      <TableHead>Relationship</TableHead>
+                      <TableHead>Target</TableHead>
+                      {permissions.canManageAssets && <TableHead />}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-sm text-muted-foreground">Loading…</TableCell>
+                      </TableRow>
+                    ) : relationships.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-sm text-muted-foreground">
+                          No relationships recorded. Software linked to devices is included automatically.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      relationships.map((rel) => (
+                        <TableRow key={rel.id}>
+                          <TableCell>{nodeButton(rel.source)}</TableCell>
+                          <TableCell className="text-sm">{RELATIONSHIP_LABELS[rel.relationshipType] ?? rel.relationshipType}</TableCell>
+                          <TableCell>{nodeButton(rel.target)}</TableCell>
+                          {permissions.canManageAssets && (
+                            <TableCell className="text-right">
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => deleteRelationshipMutation.mutate(rel.id)}
+                                aria-label="Remove relationship"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Network className="h-5 w-5" />
+                Impact
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              {!impact ? (
+                <p className="text-sm text-muted-foreground">Select a service or configuration item to see its impact.</p>
+              ) : (
+                <>
+                  <div>
+                    <div className="text-xs text-muted-foreground">{NODE_TYPE_LABELS[impact.node.type]}</div>
+                    <div className="font-semibold">{impact.node.name}</div>
+                  </div>
+                  <div>
+                    <div className="text-sm font-medium mb-2">Affected business services</div>
+                    {impact.affectedServices.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">None</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {impact.affectedServices.map((service) => (
+                          <Badge key={service.id} className={criticalityClass(service.criticality)}>{service.name}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div>
+                    <div className="text-sm font-medium mb-2 flex items-center gap-1">
+                      <ArrowDown className="h-4 w-4" /> Affected if this goes away
+                    </div>
+                    {impactList(impact.downstream, "Nothing depends on this item.")}
+                  </div>
+                  <div>
+                    <div className="text-sm font-medium mb-2 flex items-center gap-1">
+                      <ArrowUp className="h-4 w-4" /> Depends on
+                    </div>
+                    {impactList(impact.upstream, "No recorded dependencies.")}
+                  </div>
+                  {impact.related.length > 0 && (
+                    <div>
+                      <div className="text-sm font-medium mb-2">Connections & backups</div>
+                      <ul className="space-y-1 text-sm">
+                        {impact.related.map((entry) => (
+                          <li key={`${entry.relationshipType}:${entry.type}:${entry.id}`}>
+                            <span className="text-xs text-muted-foreground mr-1">
+                              {entry.relationshipType === "backs_up" && entry.direction === "incoming"
+                                ? "backed up by"
+                                : RELATIONSHIP_LABELS[entry.relationshipType]}
+                            </span>
+                            {nodeButton(entry)}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      <Dialog open={serviceOpen} onOpenChange={setServiceOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Business Service</DialogTitle>
+            <DialogDescription>Services are reported on tickets and offboarding when something they depend on goes away.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="serviceName">Name</Label>
+              <Input
+                id="serviceName"
+                value={serviceForm.name}
+                onChange={(e) => setServiceForm({ ...serviceForm, name: e.target.value })}
+                placeholder="e.g. Payroll"
+                data-testid="input-service-name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Criticality</Label>
+                <Select value={serviceForm.criticality} onValueChange={(criticality) => setServiceForm({ ...serviceForm, criticality })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                    <SelectItem value="critical">Critical</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Owner</Label>
+                <Select value={serviceForm.ownerId} onValueChange={(ownerId) => setServiceForm({ ...serviceForm, ownerId })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="No owner" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {optionsFor("user").map((option) => (
+                      <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="serviceDescription">Description</Label>
+              <Textarea
+                id="serviceDescription"
+                value={serviceForm.description}
+                onChange={(e) => setServiceForm({ ...serviceForm, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setServiceOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createServiceMutation.mutate()}
+              disabled={!serviceForm.name.trim() || createServiceMutation.isPending}
+            >
+              Create Service
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={relationshipOpen} onOpenChange={setRelationshipOpen}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Add Relationship</DialogTitle>
+            <DialogDescription>Reads as "source relationship target", e.g. Payroll runs on db-01.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {(["source", "target"] as const).map((end) => (
+              <div key={end} className="grid grid-cols-3 gap-2">
+                <div>
+                  <Label className="capitalize">{end}</Label>
+                  <Select
+                    value={relationshipForm[`${end}Type`]}
+                    onValueChange={(type) => setRelationshipForm({ ...relationshipForm, [`${end}Type`]: type, [`${end}Id`]: "" })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(NODE_TYPE_LABELS).map(([type, label]) => (
+                        <SelectItem key={type} value={type}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-2">
+                  <Label>&nbsp;</Label>
+                  <Select
+                    value={relationshipForm[`${end}Id`]}
+                    onValueChange={(id) => setRelationshipForm({ ...relationshipForm, [`${end}Id`]: id })}
+                  >
+                    <SelectTrigger data-testid={`select-relationship-${end}`}>
+                      <SelectValue placeholder={`Select ${NODE_TYPE_LABELS[relationshipForm[`${end}Type`]].toLowerCase()}`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {optionsFor(relationshipForm[`${end}Type`]).map((option) => (
+                        <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {end === "source" && (
+                  <div className="col-span-3">
+                    <Label>Relationship</Label>
+                    <Select
+                      value={relationshipForm.relationshipType}
+                      onValueChange={(relationshipType) => setRelationshipForm({ ...relationshipForm, relationshipType })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(RELATIONSHIP_LABELS).map(([type, label]) => (
+                          <SelectItem key={type} value={type}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            ))}
+            <div>
+              <Label htmlFor="relationshipNotes">Notes</Label>
+              <Textarea
+                id="relationshipNotes"
+                value={relationshipForm.notes}
+                onChange={(e) => setRelationshipForm({ ...relationshipForm, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRelationshipOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createRelationshipMutation.mutate()}
+              disabled={!relationshipForm.sourceId || !relationshipForm.targetId || createRelationshipMutation.isPending}
+              data-testid="button-save-relationship"
+            >
+              Add Relationship
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -34,6 +34,7 @@ import { ExpiringItemsTile } from "@/components/dashboard/individual-tiles/expir
 import { ComplianceRiskTile } from "@/components/dashboard/individual-tiles/compliance-risk-tile";
 import { RecentActivitiesTile } from "@/components/dashboard/individual-tiles/recent-activities-tile";
 import { DashboardComplianceSection } from "@/components/dashboard/compliance-overview";
+import { ExpiringCoverageWidget } from "@/components/dashboard/expiring-coverage";
 import { Button } from "@/components/ui/button";
 import { authenticatedRequest } from "@/lib/auth";
 import type { Recommendation } from "@shared/schema";
@@ -784,6 +785,7 @@ export default function Dashboard() {
                   </div>
                 </div>
               </div>
+              <ExpiringCoverageWidget />
             </div>
 
             {/* Activities Section */}
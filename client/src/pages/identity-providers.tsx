@@ -31,6 +31,8 @@ const PROVIDER_TYPE_OPTIONS = [
   "google-workspace",
   "onelogin",
   "jumpcloud",
+  "keycloak",
+  "ldap",
   "ping-identity",
   // Social/OAuth Providers (for Shadow IT detection)
   "google-oauth",
@@ -44,6 +46,98 @@ const PROVIDER_TYPE_OPTIONS = [
 ] as const;
 type ProviderType = typeof PROVIDER_TYPE_OPTIONS[number];
 
+// Server connector type for each provider option (see IdPSyncScheduler.createConnector)
+const CONNECTOR_TYPES: Partial<Record<ProviderType, string>> = {
+  "azure-ad": "azuread",
+  "okta": "okta",
+  "google-workspace": "google",
+  "onelogin": "onelogin",
+  "jumpcloud": "jumpcloud",
+  "keycloak": "keycloak",
+  "ldap": "ldap",
+};
+
+interface ConnectionFieldHints {
+  tenantLabel: string;
+  tenantPlaceholder: string;
+  tenantDescription: string;
+  clientIdLabel: string;
+  clientIdPlaceholder: string;
+  clientSecretLabel: string;
+  clientSecretPlaceholder: string;
+  metadataPlaceholder?: string;
+}
+
+const DEFAULT_FIELD_HINTS: ConnectionFieldHints = {
+  tenantLabel: "Tenant ID (for Azure AD)",
+  tenantPlaceholder: "xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx",
+  tenantDescription: "Azure AD tenant ID (directory ID)",
+  clientIdLabel: "Client ID *",
+  clientIdPlaceholder: "Application (client) ID",
+  clientSecretLabel: "Client Secret *",
+  clientSecretPlaceholder: "Client secret value",
+};
+
+// Connection field labels for providers that don't use Azure-style app credentials
+const FIELD_HINTS: Partial<Record<ProviderType, Partial<ConnectionFieldHints>>> = {
+  "okta": {
+    tenantLabel: "Okta Domain",
+    tenantPlaceholder: "acme.okta.com",
+    tenantDescription: "Your Okta org domain",
+    clientSecretLabel: "API Token *",
+    clientSecretPlaceholder: "Okta API token (SSWS)",
+  },
+  "google-workspace": {
+    tenantLabel: "Workspace Domain",
+    tenantPlaceholder: "example.com",
+    tenantDescription: "Primary domain of the Google Workspace account",
+  },
+  "onelogin": {
+    tenantLabel: "OneLogin Subdomain",
+    tenantPlaceholder: "acme.onelogin.com",
+    tenantDescription: "Your OneLogin account subdomain",
+    clientIdPlaceholder: "API credential client ID",
+    clientSecretPlaceholder: "API credential client secret",
+  },
+  "jumpcloud": {
+    tenantLabel: "Tenant (not used)",
+    tenantPlaceholder: "",
+    tenantDescription: "JumpCloud connects to console.jumpcloud.com",
+    clientIdLabel: "Organization ID *",
+    clientIdPlaceholder: "Organization ID (Settings > Organization Profile)",
+    clientSecretLabel: "API Key *",
+    clientSecretPlaceholder: "JumpCloud administrator API key",
+  },
+  "keycloak": {
+    tenantLabel: "Realm URL",
+    tenantPlaceholder: "https://sso.example.com/realms/acme",
+    tenantDescription: "Keycloak base URL including /realms/<realm>",
+    clientIdPlaceholder: "Confidential client with a service account",
+  },
+  "ldap": {
+    tenantLabel: "Server URL",
+    tenantPlaceholder: "ldaps://dc01.corp.example.com:636",
+    tenantDescription: "ldap:// or ldaps:// URL of the directory server",
+    clientIdLabel: "Bind DN *",
+    clientIdPlaceholder: "CN=svc-itam,OU=Service Accounts,DC=corp,DC=example,DC=com",
+    clientSecretLabel: "Bind Password *",
+    clientSecretPlaceholder: "Service account password",
+    metadataPlaceholder: '{"baseDN": "DC=corp,DC=example,DC=com", "directoryType": "activedirectory", "appGroupFilter": "(cn=app-*)"}',
+  },
+};
+
+function formatProviderType(type: string) {
+  return type === "ldap"
+    ? "LDAP / AD"
+    : type.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+}
+
+function getProviderType(idp: IdentityProvider): ProviderType {
+  if (idp.config?.providerType) return idp.config.providerType;
+  const match = Object.entries(CONNECTOR_TYPES).find(([, type]) => type === idp.type);
+  return (match?.[0] as ProviderType) || "other";
+}
+
 // Pre-configured templates for common identity providers
 interface IdpTemplate {
   name: string;
@@ -114,6 +208,24 @@ const IDP_TEMPLATES: IdpTemplate[] = [
     scopes: "openid profile email",
     docUrl: "https://jumpcloud.com/support/api",
   },
+  {
+    name: "Keycloak",
+    providerType: "keycloak",
+    category: "enterprise",
+    description: "Open source identity and access management",
+    logoColor: "#4d4d4d",
+    scopes: "openid profile email",
+    docUrl: "https://www.keycloak.org/docs-api/latest/rest-api/",
+  },
+  {
+    name: "LDAP / Active Directory",
+    providerType: "ldap",
+    category: "enterprise",
+    description: "On-prem Active Directory or OpenLDAP directory",
+    logoColor: "#0f766e",
+    scopes: "",
+    docUrl: "https://learn.microsoft.com/en-us/windows/win32/ad/active-directory-domain-services",
+  },
   {
     name: "Ping Identity",
     providerType: "ping-identity",
@@ -227,16 +339,16 @@ interface IdentityProvider {
   id: string;
   tenantId: string;
   name: string;
-  providerType: ProviderType;
-  providerTenantId?: string;
-  clientId: string;
-  clientSecret: string; // Will be redacted in list view
-  redirectUri?: string;
-  scopes?: string;
-  enabled: boolean;
+  type: string;
+  tenantDomain?: string | null;
+  clientId: string | null;
+  clientSecret: string | null; // Will be redacted in list view
+  scopes?: string[] | null;
+  status: string;
+  syncEnabled?: boolean;
   syncInterval?: number;
-  lastSyncAt?: string;
-  metadata?: string;
+  lastSyncAt?: string | null;
+  config?: Record<string, any> | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -277,19 +389,29 @@ function IdpForm({
     form.reset(initialValues);
   }, [form, initialValues]);
 
+  const hints = { ...DEFAULT_FIELD_HINTS, ...FIELD_HINTS[form.watch("providerType")] };
+
   const createOrUpdateIdp = useMutation({
     mutationFn: async (data: IdpData) => {
+      let metadata: Record<string, any> = {};
+      if (data.metadata) {
+        try {
+          metadata = JSON.parse(data.metadata);
+        } catch {
+          throw new Error("Metadata must be valid JSON");
+        }
+      }
       const payload = {
         name: data.name,
-        providerType: data.providerType,
-        providerTenantId: data.tenantId || undefined,
+        type: CONNECTOR_TYPES[data.providerType] || data.providerType,
+        tenantDomain: data.tenantId || null,
         clientId: data.clientId,
         clientSecret: data.clientSecret,
-        redirectUri: data.redirectUri || undefined,
-        scopes: data.scopes || undefined,
-        enabled: data.enabled,
+        scopes: data.scopes ? data.scopes.split(/\s+/).filter(Boolean) : [],
+        status: data.enabled ? "active" : "disabled",
+        syncEnabled: !!data.syncInterval,
         syncInterval: data.syncInterval,
-        metadata: data.metadata || undefined,
+        config: { ...metadata, providerType: data.providerType, redirectUri: data.redirectUri || undefined },
       };
       const endpoint = editingIdp ? `/api/identity-providers/${editingIdp.id}` : "/api/identity-providers";
       const method = editingIdp ? "PUT" : "POST";
@@ -354,7 +476,7 @@ function IdpForm({
                   <SelectContent>
                     {PROVIDER_TYPE_OPTIONS.map((option) => (
                       <SelectItem key={option} value={option}>
-                        {option.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ')}
+                        {formatProviderType(option)}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -370,12 +492,12 @@ function IdpForm({
           name="tenantId"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Tenant ID (for Azure AD)</FormLabel>
+              <FormLabel>{hints.tenantLabel}</FormLabel>
               <FormControl>
-                <Input placeholder="xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx" {...field} />
+                <Input placeholder={hints.tenantPlaceholder} {...field} />
               </FormControl>
               <FormDescription>
-                Azure AD tenant ID (directory ID)
+                {hints.tenantDescription}
               </FormDescription>
               <FormMessage />
             </FormItem>
@@ -388,9 +510,9 @@ function IdpForm({
             name="clientId"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Client ID *</FormLabel>
+                <FormLabel>{hints.clientIdLabel}</FormLabel>
                 <FormControl>
-                  <Input placeholder="Application (client) ID" {...field} />
+                  <Input placeholder={hints.clientIdPlaceholder} {...field} />
                 </FormControl>
                 <FormMessage />
               </FormItem>
@@ -402,9 +524,9 @@ function IdpForm({
             name="clientSecret"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Client Secret *</FormLabel>
+                <FormLabel>{hints.clientSecretLabel}</FormLabel>
                 <FormControl>
-                  <Input type="password" placeholder="Client secret value" {...field} />
+                  <Input type="password" placeholder={hints.clientSecretPlaceholder} {...field} />
                 </FormControl>
                 <FormDescription>
                   Encrypted at rest with AES-256-GCM
@@ -500,7 +622,7 @@ function IdpForm({
             <FormItem>
               <FormLabel>Metadata (JSON)</FormLabel>
               <FormControl>
-                <Textarea placeholder='{"key": "value"}' {...field} />
+                <Textarea placeholder={hints.metadataPlaceholder || '{"key": "value"}'} {...field} />
               </FormControl>
               <FormDescription>
                 Optional JSON metadata for custom configurations
@@ -581,7 +703,8 @@ export default function IdentityProviders() {
 
   // Get configured provider types with counts
   const configuredTypeCounts = (providers || []).reduce((acc: Record<string, number>, p: IdentityProvider) => {
-    acc[p.providerType] = (acc[p.providerType] || 0) + 1;
+    const type = getProviderType(p);
+    acc[type] = (acc[type] || 0) + 1;
     return acc;
   }, {} as Record<string, number>);
   const configuredTypes = new Set(Object.keys(configuredTypeCounts));
@@ -685,19 +808,21 @@ export default function IdentityProviders() {
       const response = await authenticatedRequest("GET", `/api/identity-providers/${idp.id}`);
       const fullIdp = await response.json();
 
+      const { providerType, redirectUri, ...metadata } = fullIdp.config || {};
+
       setEditingIdp(fullIdp);
       setIdpFormValues({
         name: fullIdp.name,
-        providerType: fullIdp.providerType,
-        tenantId: fullIdp.providerTenantId || "",
-        clientId: fullIdp.clientId,
-        clientSecret: fullIdp.clientSecret,
-        redirectUri: fullIdp.redirectUri || "",
-        scopes: fullIdp.scopes || "openid profile email",
-        enabled: fullIdp.enabled,
+        providerType: getProviderType(fullIdp),
+        tenantId: fullIdp.tenantDomain || "",
+        clientId: fullIdp.clientId || "",
+        clientSecret: fullIdp.clientSecret || "",
+        redirectUri: redirectUri || "",
+        scopes: fullIdp.scopes?.join(" ") || "",
+        enabled: fullIdp.status === "active",
         syncInterval: fullIdp.syncInterval,
         lastSyncAt: fullIdp.lastSyncAt || "",
-        metadata: fullIdp.metadata || "",
+        metadata: Object.keys(metadata).length > 0 ? JSON.stringify(metadata, null, 2) : "",
       });
       setShowAddForm(true);
     } catch (error: any) {
@@ -721,7 +846,7 @@ export default function IdentityProviders() {
 
   const filteredProviders = providers?.filter((idp: IdentityProvider) =>
     idp.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    idp.providerType.toLowerCase().includes(searchTerm.toLowerCase())
+    formatProviderType(getProviderType(idp)).toLowerCase().includes(searchTerm.toLowerCase())
   ) || [];
 
   // Check admin access
@@ -963,7 +1088,7 @@ export default function IdentityProviders() {
                           {idp.name}
                         </CardTitle>
                         <CardDescription className="mt-1">
-                          {idp.providerType.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ')}
+                          {formatProviderType(getProviderType(idp))}
                         </CardDescription>
                       </div>
                       <div className="flex gap-1">
@@ -1003,8 +1128,8 @@ export default function IdentityProviders() {
                   </CardHeader>
                   <CardContent className="space-y-3">
                     <div className="flex items-center justify-between">
-                      <Badge variant={idp.enabled ? "default" : "secondary"}>
-                        {idp.enabled ? (
+                      <Badge variant={idp.status === "active" ? "default" : "secondary"}>
+                        {idp.status === "active" ? (
                           <>
                             <CheckCircle className="w-3 h-3 mr-1" />
                             Enabled
@@ -1046,7 +1171,7 @@ export default function IdentityProviders() {
                         variant="outline"
                         className="flex-1"
                         onClick={() => triggerSync.mutate(idp.id)}
-                        disabled={triggerSync.isPending || !idp.enabled}
+                        disabled={triggerSync.isPending || idp.status !== "active"}
                       >
                         {triggerSync.isPending ? "Syncing..." : "Sync"}
                       </Button>
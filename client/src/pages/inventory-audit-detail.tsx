@@ -0,0 +1,531 @@
+import { useEffect, useRef, useState } from "react";
+import { useParams, useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { TopBar } from "@/components/layout/topbar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { authenticatedRequest } from "@/lib/auth";
+import { getRolePermissions } from "@/lib/permissions";
+import type { InventoryAudit, InventoryAuditItem } from "@shared/schema";
+import { AlertCircle, ArrowLeft, CheckCircle, Download, MapPin, ScanLine, XCircle } from "lucide-react";
+
+type VarianceReport = {
+  totals: {
+    expected: number;
+    found: number;
+    missing: number;
+    wrongLocation: number;
+    unexpected: number;
+    pending: number;
+  };
+  accuracy: number;
+};
+
+type AuditDetail = {
+  audit: InventoryAudit;
+  items: InventoryAuditItem[];
+  report: VarianceReport;
+};
+
+type CloseResult = {
+  audit: InventoryAudit;
+  report: VarianceReport;
+  changes: Array<{ itemId: string; assetName: string | null; change: "status" | "location" | "ticket"; to?: string | null; ticketNumber?: string }>;
+  errors: Array<{ assetId: string; assetName: string | null; message: string }>;
+};
+
+const RESULT_LABELS: Record<string, string> = {
+  pending: "Pending",
+  found: "Found",
+  missing: "Missing",
+  wrong_location: "Wrong location",
+  unexpected: "Unexpected",
+};
+
+const resultVariant = (result: string) =>
+  result === "found" ? "secondary" : result === "missing" ? "destructive" : "outline";
+
+const NO_STATUS_CHANGE = "__none__";
+
+const apiErrorMessage = (error: any, fallback: string) => {
+  try {
+    return JSON.parse(String(error?.message).replace(/^API Error \d+: /, "")).message ?? fallback;
+  } catch {
+    return error?.message ?? fallback;
+  }
+};
+
+export default function InventoryAuditDetail() {
+  const params = useParams();
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const permissions = getRolePermissions(user?.role);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const auditId = params?.id ?? "";
+
+  const [code, setCode] = useState("");
+  const [lastScan, setLastScan] = useState<{ item: InventoryAuditItem; duplicate: boolean } | null>(null);
+  const [tab, setTab] = useState("pending");
+  const [closeOpen, setCloseOpen] = useState(false);
+  const [relocateWrongLocation, setRelocateWrongLocation] = useState(false);
+  const [missingStatus, setMissingStatus] = useState(NO_STATUS_CHANGE);
+  const [createTicketsForMissing, setCreateTicketsForMissing] = useState(false);
+  const [closeNotes, setCloseNotes] = useState("");
+  const [closeResult, setCloseResult] = useState<CloseResult | null>(null);
+
+  const queryKey = ["/api/inventory-audits", auditId];
+  const { data, isLoading } = useQuery<AuditDetail>({
+    queryKey,
+    queryFn: async () => {
+      const response = await authenticatedRequest("GET", `/api/inventory-audits/${auditId}`);
+      return response.json();
+    },
+    enabled: !!auditId,
+  });
+
+  const audit = data?.audit;
+  const isOpen = audit?.status === "open";
+
+  // Handheld scanners type the code and press Enter; keep the field ready for the next scan
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus();
+  }, [isOpen, lastScan]);
+
+  const refresh = () => qc.invalidateQueries({ queryKey: ["/api/inventory-audits"] });
+
+  const scanMutation = useMutation({
+    mutationFn: async (scanned: string) => {
+      const response = await authenticatedRequest("POST", `/api/inventory-audits/${auditId}/scan`, { code: scanned });
+      return response.json();
+    },
+    onSuccess: async (result: { item: InventoryAuditItem; duplicate: boolean }) => {
+      setLastScan(result);
+      setCode("");
+      await refresh();
+    },
+    onError: (error: any) => {
+      setCode("");
+      toast({
+        title: "Scan not recorded",
+        description: apiErrorMessage(error, "Could not record the scan"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const itemMutation = useMutation({
+    mutationFn: async ({ itemId, result }: { itemId: string; result: "pending" | "found" | "missing" }) => {
+      const response = await authenticatedRequest("PATCH", `/api/inventory-audits/${auditId}/items/${itemId}`, { result });
+      return response.json();
+    },
+    onSuccess: () => refresh(),
+    onError: (error: any) => {
+      toast({
+        title: "Update failed",
+        description: apiErrorMessage(error, "Could not update the item"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedRequest("POST", `/api/inventory-audits/${auditId}/close`, {
+        relocateWrongLocation,
+        missingStatus: missingStatus === NO_STATUS_CHANGE ? undefined : missingStatus,
+        createTicketsForMissing,
+        notes: closeNotes || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: async (result: CloseResult) => {
+      setCloseResult(result);
+      await refresh();
+      await qc.invalidateQueries({ queryKey: ["/api/assets"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not close audit",
+        description: apiErrorMessage(error, "Failed to close the audit"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedRequest("POST", `/api/inventory-audits/${auditId}/cancel`);
+      return response.json();
+    },
+    onSuccess: async () => {
+      await refresh();
+      toast({ title: "Audit cancelled" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not cancel audit",
+        description: apiErrorMessage(error, "Failed to cancel the audit"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleScan = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) {
+      scanMutation.mutate(code.trim());
+    }
+  };
+
+  const handleDownload = async () => {
+    try {
+      const response = await authenticatedRequest("GET", `/api/inventory-audits/${auditId}/report?format=csv`);
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `inventory-audit-${new Date().toISOString().split("T")[0]}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({
+        title: "Download failed",
+        description: error?.message ?? "Could not download the variance report",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const closeDialog = () => {
+    setCloseOpen(false);
+    setCloseResult(null);
+    setRelocateWrongLocation(false);
+    setMissingStatus(NO_STATUS_CHANGE);
+    setCreateTicketsForMissing(false);
+    setCloseNotes("");
+  };
+
+  if (isLoading || !data || !audit) {
+    return (
+      <div className="flex h-screen bg-background">
+        <Sidebar />
+        <main className="flex-1 md:ml-64 overflow-auto">
+          <TopBar title="Inventory Audit" description="Physical inventory audit" />
+          <div className="p-6 text-sm text-muted-foreground">{isLoading ? "Loading audit…" : "Audit not found."}</div>
+        </main>
+      </div>
+    );
+  }
+
+  const { items, report } = data;
+  const itemsFor = (result: string) => items.filter((item) => item.result === result);
+  const tabs = ["pending", "found", "missing", "wrong_location", "unexpected"].filter(
+    (result) => result !== "pending" || isOpen
+  );
+
+  return (
+    <div className="flex h-screen bg-background page-enter">
+      <Sidebar />
+
+      <main className="flex-1 md:ml-64 overflow-auto">
+        <TopBar title={audit.name} description={`Inventory audit at ${audit.location}`} />
+
+        <div className="p-6 space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <Button variant="ghost" onClick={() => setLocation("/inventory-audits")}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              All audits
+            </Button>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className="capitalize">{audit.status}</Badge>
+              <Button variant="outline" onClick={handleDownload} data-testid="button-download-variance">
+                <Download className="h-4 w-4 mr-2" />
+                Variance CSV
+              </Button>
+              {isOpen && permissions.canManageAssets && (
+                <>
+                  <Button
+                    variant="outline"
+                    onClick={() => cancelMutation.mutate()}
+                    disabled={cancelMutation.isPending}
+                    data-testid="button-cancel-audit"
+                  >
+                    Cancel Audit
+                  </Button>
+                  <Button onClick={() => setCloseOpen(true)} data-testid="button-close-audit">
+                    Close Audit
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+            {[
+              ["Expected", report.totals.expected],
+              ["Found", report.totals.found],
+              ["Missing", report.totals.missing],
+              ["Wrong location", report.totals.wrongLocation],
+              ["Unexpected", report.totals.unexpected],
+              ["Accuracy", `${report.accuracy}%`],
+            ].map(([label, value]) => (
+              <Card key={label}>
+                <CardContent className="p-4">
+                  <div className="text-sm text-muted-foreground">{label}</div>
+                  <div className="text-2xl font-semibold">{value}</div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {isOpen && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ScanLine className="h-5 w-5" />
+                  Scan Assets
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <form onSubmit={handleScan} className="flex items-center gap-2">
+                  <Input
+                    ref={inputRef}
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="Scan or type an asset tag, serial number or label URL"
+                    disabled={scanMutation.isPending}
+                    autoFocus
+                    data-testid="input-audit-scan"
+                  />
+                  <Button type="submit" disabled={!code.trim() || scanMutation.isPending}>
+                    Record
+                  </Button>
+                </form>
+                {lastScan && (
+                  <div className="flex items-center gap-2 text-sm" data-testid="text-last-scan">
+                    <Badge variant={resultVariant(lastScan.item.result)}>
+                      {RESULT_LABELS[lastScan.item.result] ?? lastScan.item.result}
+                    </Badge>
+                    <span>{lastScan.item.assetName ?? lastScan.item.scannedCode}</span>
+                    {lastScan.item.result === "wrong_location" && (
+                      <span className="text-muted-foreground">registered at {lastScan.item.registeredLocation || "no location"}</span>
+                    )}
+                    {lastScan.duplicate && <span className="text-muted-foreground">(already scanned)</span>}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          <Tabs value={tabs.includes(tab) ? tab : tabs[0]} onValueChange={setTab}>
+            <TabsList>
+              {tabs.map((result) => (
+                <TabsTrigger key={result} value={result}>
+                  {RESULT_LABELS[result]} ({itemsFor(result).length})
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {tabs.map((result) => (
+              <TabsContent key={result} value={result}>
+                <Card>
+                  <CardContent className="p-0">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Asset</TableHead>
+                          <TableHead>Tag</TableHead>
+                          <TableHead>Serial</TableHead>
+                          <TableHead>Registered location</TableHead>
+                          <TableHead>Scanned</TableHead>
+                          {isOpen && <TableHead className="text-right">Actions</TableHead>}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {itemsFor(result).length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={6} className="text-center text-sm text-muted-foreground">
+                              No assets
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          itemsFor(result).map((item) => (
+                            <TableRow key={item.id} data-testid={`row-audit-item-${item.id}`}>
+                              <TableCell>{item.assetName ?? <span className="text-muted-foreground">Unknown code</span>}</TableCell>
+                              <TableCell className="font-mono text-xs">{item.assetTag ?? item.scannedCode ?? "—"}</TableCell>
+                              <TableCell>{item.serialNumber ?? "—"}</TableCell>
+                              <TableCell>
+                                {item.registeredLocation ? (
+                                  <span className="flex items-center gap-1">
+                                    <MapPin className="h-3.5 w-3.5" />
+                                    {item.registeredLocation}
+                                  </span>
+                                ) : "—"}
+                              </TableCell>
+                              <TableCell className="text-sm text-muted-foreground">
+                                {item.scannedAt
+                                  ? `${new Date(item.scannedAt).toLocaleString()}${item.scannedByName ? ` by ${item.scannedByName}` : ""}`
+                                  : "—"}
+                              </TableCell>
+                              {isOpen && (
+                                <TableCell className="text-right space-x-1">
+                                  {item.expected && item.result !== "found" && (
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      onClick={() => itemMutation.mutate({ itemId: item.id, result: "found" })}
+                                      data-testid={`button-confirm-${item.id}`}
+                                    >
+                                      <CheckCircle className="h-4 w-4 mr-1" />
+                                      Found
+                                    </Button>
+                                  )}
+                                  {item.expected && item.result !== "missing" && (
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      onClick={() => itemMutation.mutate({ itemId: item.id, result: "missing" })}
+                                      data-testid={`button-missing-${item.id}`}
+                                    >
+                                      <XCircle className="h-4 w-4 mr-1" />
+                                      Missing
+                                    </Button>
+                                  )}
+                                </TableCell>
+                              )}
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            ))}
+          </Tabs>
+        </div>
+      </main>
+
+      <Dialog open={closeOpen} onOpenChange={(open) => (open ? setCloseOpen(true) : closeDialog())}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Close Inventory Audit</DialogTitle>
+            <DialogDescription>
+              {report.totals.pending > 0
+                ? `${report.totals.pending} expected assets have not been confirmed and will be marked missing.`
+                : "All expected assets have been confirmed or marked missing."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {closeResult ? (
+            <div className="space-y-3 text-sm">
+              <p>
+                Audit closed with {closeResult.report.accuracy}% accuracy. {closeResult.changes.length} changes applied.
+              </p>
+              {closeResult.changes.length > 0 && (
+                <ul className="list-disc pl-5 space-y-1 max-h-48 overflow-auto">
+                  {closeResult.changes.map((change, index) => (
+                    <li key={`${change.itemId}-${index}`}>
+                      {change.assetName}:{" "}
+                      {change.change === "ticket"
+                        ? `ticket ${change.ticketNumber} opened`
+                        : change.change === "status"
+                          ? `status set to ${change.to}`
+                          : `moved to ${change.to}`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {closeResult.errors.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    <ul className="space-y-1">
+                      {closeResult.errors.map((error) => (
+                        <li key={error.assetId}>{error.assetName}: {error.message}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  id="relocateWrongLocation"
+                  checked={relocateWrongLocation}
+                  onCheckedChange={(checked) => setRelocateWrongLocation(checked === true)}
+                />
+                <Label htmlFor="relocateWrongLocation" className="font-normal leading-snug">
+                  Move the {report.totals.wrongLocation} wrong-location assets to {audit.location}
+                </Label>
+              </div>
+              <div>
+                <Label>Status for missing assets</Label>
+                <Select value={missingStatus} onValueChange={setMissingStatus}>
+                  <SelectTrigger data-testid="select-missing-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_STATUS_CHANGE}>Leave unchanged</SelectItem>
+                    <SelectItem value="in-repair">In repair</SelectItem>
+                    <SelectItem value="retired">Retired</SelectItem>
+                    <SelectItem value="disposed">Disposed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  id="createTicketsForMissing"
+                  checked={createTicketsForMissing}
+                  onCheckedChange={(checked) => setCreateTicketsForMissing(checked === true)}
+                />
+                <Label htmlFor="createTicketsForMissing" className="font-normal leading-snug">
+                  Open a ticket for each missing asset
+                </Label>
+              </div>
+              <div>
+                <Label htmlFor="closeNotes">Notes</Label>
+                <Textarea id="closeNotes" value={closeNotes} onChange={(e) => setCloseNotes(e.target.value)} rows={2} />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {closeResult ? (
+              <Button onClick={closeDialog}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+                <Button
+                  onClick={() => closeMutation.mutate()}
+                  disabled={closeMutation.isPending}
+                  data-testid="button-confirm-close-audit"
+                >
+                  {closeMutation.isPending ? "Closing..." : "Close Audit"}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { TopBar } from "@/components/layout/topbar";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { authenticatedRequest } from "@/lib/auth";
+import { getRolePermissions } from "@/lib/permissions";
+import type { InventoryAudit, Site } from "@shared/schema";
+import { ClipboardList, MapPin, Plus } from "lucide-react";
+
+type InventoryAuditProgress = InventoryAudit & {
+  counts: Record<string, number>;
+};
+
+const FREE_TEXT_LOCATION = "__location__";
+
+const statusVariant = (status: string) =>
+  status === "open" ? "default" : status === "closed" ? "secondary" : "outline";
+
+export default function InventoryAudits() {
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const permissions = getRolePermissions(user?.role);
+
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [createOpen, setCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState("");
+  const [location, setLocationText] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data: audits = [], isLoading } = useQuery<InventoryAuditProgress[]>({
+    queryKey: ["/api/inventory-audits", statusFilter],
+    queryFn: async () => {
+      const query = statusFilter === "all" ? "" : `?status=${statusFilter}`;
+      const response = await authenticatedRequest("GET", `/api/inventory-audits${query}`);
+      return response.json();
+    },
+  });
+
+  const { data: sites = [] } = useQuery<Site[]>({
+    queryKey: ["/api/sites"],
+    queryFn: async () => {
+      const response = await authenticatedRequest("GET", "/api/sites");
+      return response.json();
+    },
+    enabled: createOpen,
+  });
+
+  const closeDialog = () => {
+    setCreateOpen(false);
+    setName("");
+    setScope("");
+    setLocationText("");
+    setNotes("");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedRequest("POST", "/api/inventory-audits", {
+        name,
+        siteId: scope && scope !== FREE_TEXT_LOCATION ? scope : undefined,
+        location: scope === FREE_TEXT_LOCATION ? location : undefined,
+        notes: notes || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: async (audit: InventoryAudit) => {
+      await qc.invalidateQueries({ queryKey: ["/api/inventory-audits"] });
+      closeDialog();
+      setLocation(`/inventory-audits/${audit.id}`);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not start audit",
+        description: error?.message ?? "Failed to start the inventory audit",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canCreate = name.trim() && (scope === FREE_TEXT_LOCATION ? location.trim() : scope);
+
+  return (
+    <div className="flex h-screen bg-background page-enter">
+      <Sidebar />
+
+      <main className="flex-1 md:ml-64 overflow-auto">
+        <TopBar
+          title="Inventory Audits"
+          description="Reconcile what is on the shelf against the asset register"
+        />
+
+        <div className="p-6 space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-44" data-testid="select-audit-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All audits</SelectItem>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="closed">Closed</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+            {permissions.canManageAssets && (
+              <Button onClick={() => setCreateOpen(true)} data-testid="button-new-audit">
+                <Plus className="h-4 w-4 mr-2" />
+                New Audit
+              </Button>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div className="text-sm text-muted-foreground">Loading audits…</div>
+          ) : audits.length === 0 ? (
+            <Card>
+              <CardContent className="p-12 text-center">
+                <ClipboardList className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-semibold mb-2">No inventory audits</h3>
+                <p className="text-sm text-muted-foreground">
+                  Start an audit for a site or location, then scan the assets you find there.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-4">
+              {audits.map((audit) => {
+                const expected = (audit.counts.found ?? 0) + (audit.counts.missing ?? 0) + (audit.counts.pending ?? 0);
+                const confirmed = expected - (audit.counts.pending ?? 0);
+                return (
+                  <Card
+                    key={audit.id}
+                    className="cursor-pointer hover:shadow-md transition-shadow"
+                    onClick={() => setLocation(`/inventory-audits/${audit.id}`)}
+                    data-testid={`card-audit-${audit.id}`}
+                  >
+                    <CardContent className="p-5 space-y-3">
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <h3 className="font-semibold">{audit.name}</h3>
+                            <Badge variant={statusVariant(audit.status)} className="capitalize">{audit.status}</Badge>
+                          </div>
+                          <div className="text-sm text-muted-foreground flex items-center gap-1 mt-1">
+                            <MapPin className="h-3.5 w-3.5" />
+                            {audit.location}
+                            {audit.createdByName && ` • started by ${audit.createdByName}`}
+                            {audit.createdAt && ` on ${new Date(audit.createdAt).toLocaleDateString()}`}
+                          </div>
+                        </div>
+                        <div className="text-right text-sm">
+                          <div>{audit.counts.found ?? 0} found</div>
+                          {(audit.counts.missing ?? 0) > 0 && (
+                            <div className="text-destructive">{audit.counts.missing} missing</div>
+                          )}
+                          {(audit.counts.wrong_location ?? 0) + (audit.counts.unexpected ?? 0) > 0 && (
+                            <div className="text-amber-600">
+                              {(audit.counts.wrong_location ?? 0) + (audit.counts.unexpected ?? 0)} not expected here
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                      {audit.status === "open" && expected > 0 && (
+                        <div className="space-y-1">
+                          <Progress value={(confirmed / expected) * 100} />
+                          <div className="text-xs text-muted-foreground">
+                            {confirmed} of {expected} expected assets confirmed
+                          </div>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Dialog open={createOpen} onOpenChange={(open) => (open ? setCreateOpen(true) : closeDialog())}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Inventory Audit</DialogTitle>
+            <DialogDescription>
+              The active hardware assets registered at the site or location become the expected list.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="auditName">Name</Label>
+              <Input
+                id="auditName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Q4 stock take - HQ store room"
+                data-testid="input-audit-name"
+              />
+            </div>
+            <div>
+              <Label>Site or location</Label>
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger data-testid="select-audit-scope">
+                  <SelectValue placeholder="Select a site" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sites.map((site) => (
+                    <SelectItem key={site.id} value={site.id}>{site.name}</SelectItem>
+                  ))}
+                  <SelectItem value={FREE_TEXT_LOCATION}>Other location…</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {scope === FREE_TEXT_LOCATION && (
+              <div>
+                <Label htmlFor="auditLocation">Location</Label>
+                <Input
+                  id="auditLocation"
+                  value={location}
+                  onChange={(e) => setLocationText(e.target.value)}
+                  placeholder="As recorded in the asset location field"
+                  data-testid="input-audit-location"
+                />
+              </div>
+            )}
+            <div>
+              <Label htmlFor="auditNotes">Notes</Label>
+              <Textarea id="auditNotes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!canCreate || createMutation.isPending}
+              data-testid="button-start-audit"
+            >
+              {createMutation.isPending ? "Starting..." : "Start Audit"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
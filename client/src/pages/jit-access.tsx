@@ -4,7 +4,7 @@
  */
 
 import { useState, useEffect } from "react";
-import { Plus, Clock, Shield, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { Plus, Clock, Shield, AlertTriangle, CheckCircle2, KeyRound } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -35,6 +35,8 @@ import {
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { Progress } from "@/components/ui/progress";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { getAssertion, isWebAuthnSupported } from "@/lib/webauthn";
 
 interface JitSession {
   id: string;
@@ -54,6 +56,19 @@ interface JitSession {
   createdAt: Date;
 }
 
+interface MfaChallenge {
+  challengeId: string;
+  expiresAt: string;
+  methods: Array<"totp" | "webauthn">;
+  webauthn?: {
+    challenge: string;
+    rpId: string;
+    timeout: number;
+    userVerification: UserVerificationRequirement;
+    allowCredentials: Array<{ type: "public-key"; id: string; transports?: string[] }>;
+  };
+}
+
 interface SaasApp {
   id: string;
   name: string;
@@ -75,6 +90,12 @@ export default function JitAccessPage() {
   const [justification, setJustification] = useState("");
   const [requiresMfa, setRequiresMfa] = useState(true);
 
+  // MFA step-up
+  const [mfaSession, setMfaSession] = useState<JitSession | null>(null);
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
+  const [mfaCode, setMfaCode] = useState("");
+  const [verifying, setVerifying] = useState(false);
+
   useEffect(() => {
     loadData();
     // Refresh every 30 seconds to update expiry times
@@ -199,6 +220,93 @@ export default function JitAccessPage() {
     }
   }
 
+  async function startMfaVerification(session: JitSession) {
+    try {
+      const res = await fetch(`/api/jit-access/${session.id}/mfa-challenge`, { method: "POST" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(
+          data.code === "not_enrolled"
+            ? "Enroll an authenticator app or security key in Settings before activating JIT access"
+            : data.error || "Failed to start MFA verification"
+        );
+      }
+
+      setMfaSession(session);
+      setMfaChallenge(data);
+      setMfaCode("");
+    } catch (error) {
+      toast({
+        title: "MFA Unavailable",
+        description: error instanceof Error ? error.message : "Failed to start MFA verification",
+        variant: "destructive",
+      });
+    }
+  }
+
+  async function submitMfa(body: Record<string, unknown>) {
+    if (!mfaSession || !mfaChallenge) return;
+
+    setVerifying(true);
+    try {
+      const res = await fetch(`/api/jit-access/${mfaSession.id}/verify-mfa`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ challengeId: mfaChallenge.challengeId, ...body }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        if (data.code === "challenge_invalid" || data.code === "rate_limited" || data.attemptsRemaining === 0) {
+          closeMfaDialog();
+        }
+        throw new Error(
+          data.attemptsRemaining !== undefined
+            ? `${data.error} (${data.attemptsRemaining} attempts remaining)`
+            : data.error || "MFA verification failed"
+        );
+      }
+
+      toast({
+        title: "Session Activated",
+        description: `${mfaSession.appName} access is now active`,
+      });
+      closeMfaDialog();
+      loadData();
+    } catch (error) {
+      setMfaCode("");
+      toast({
+        title: "Verification Failed",
+        description: error instanceof Error ? error.message : "MFA verification failed",
+        variant: "destructive",
+      });
+    } finally {
+      setVerifying(false);
+    }
+  }
+
+  async function verifyWithSecurityKey() {
+    if (!mfaChallenge?.webauthn) return;
+
+    try {
+      const credential = await getAssertion(mfaChallenge.webauthn);
+      await submitMfa({ type: "webauthn", credential });
+    } catch (error) {
+      toast({
+        title: "Security Key Error",
+        description: error instanceof Error ? error.message : "Security key verification failed",
+        variant: "destructive",
+      });
+    }
+  }
+
+  function closeMfaDialog() {
+    setMfaSession(null);
+    setMfaChallenge(null);
+    setMfaCode("");
+  }
+
   function resetForm() {
     setSelectedApp("");
     setAccessType("admin");
@@ -361,7 +469,7 @@ export default function JitAccessPage() {
                     <Progress value={timeRemaining.percentage} className="h-2" />
                   </div>
 
-                  {session.requiresMfa && (
+                  {session.mfaVerified && (
                     <div className="flex items-center gap-2 text-sm text-blue-600">
                       <Shield className="h-4 w-4" />
                       MFA Verified
@@ -390,12 +498,13 @@ export default function JitAccessPage() {
                 <TableHead>Status</TableHead>
                 <TableHead>Expires</TableHead>
                 <TableHead>Requested</TableHead>
+                <TableHead></TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {sessions.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                  <TableCell colSpan={7} className="text-center py-8 text-gray-500">
                     No JIT sessions yet. Click "Request Elevation" to create one.
                   </TableCell>
                 </TableRow>
@@ -416,6 +525,14 @@ export default function JitAccessPage() {
                     <TableCell className="text-sm text-gray-600">
                       {new Date(session.createdAt).toLocaleDateString()}
                     </TableCell>
+                    <TableCell>
+                      {session.status === "pending_mfa" && (
+                        <Button size="sm" variant="outline" onClick={() => startMfaVerification(session)}>
+                          <KeyRound className="h-4 w-4 mr-1" />
+                          Verify MFA
+                        </Button>
+                      )}
+                    </TableCell>
                   </TableRow>
                 ))
               )}
@@ -529,6 +646,47 @@ export default function JitAccessPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* MFA Verification Dialog */}
+      <Dialog open={!!mfaChallenge} onOpenChange={(open) => !open && closeMfaDialog()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Verify MFA</DialogTitle>
+            <DialogDescription>
+              Confirm your identity to activate {mfaSession?.accessType} access to {mfaSession?.appName}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-6 py-4">
+            {mfaChallenge?.methods.includes("totp") && (
+              <div className="space-y-2">
+                <Label>Authenticator app code</Label>
+                <InputOTP maxLength={6} value={mfaCode} onChange={setMfaCode} disabled={verifying}>
+                  <InputOTPGroup>
+                    {[0, 1, 2, 3, 4, 5].map((index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+                <Button
+                  className="w-full"
+                  onClick={() => submitMfa({ type: "totp", code: mfaCode })}
+                  disabled={verifying || mfaCode.length !== 6}
+                >
+                  {verifying ? "Verifying..." : "Verify Code"}
+                </Button>
+              </div>
+            )}
+
+            {mfaChallenge?.webauthn && isWebAuthnSupported() && (
+              <Button variant="outline" className="w-full" onClick={verifyWithSecurityKey} disabled={verifying}>
+                <KeyRound className="h-4 w-4 mr-2" />
+                Use Security Key
+              </Button>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -6,16 +6,33 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
-import { useAuth } from "@/hooks/use-auth";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { TotpSetup, RecoveryCodesList, type TotpEnrollment } from "@/components/auth/totp-setup";
+import { useAuth, type AuthSession } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { useLocation } from "wouter";
-import { Server } from "lucide-react";
+import { KeyRound, Server, ShieldCheck } from "lucide-react";
 import { loginSchema, registerSchema } from "@shared/schema";
 import type { LoginRequest, RegisterRequest } from "@shared/schema";
 
+// Second login step after a successful password check
+type MfaStep =
+  | { type: "verify"; mfaToken: string; methods: string[] }
+  | { type: "enroll"; mfaToken: string; enrollment: TotpEnrollment }
+  | { type: "recovery_codes"; session: AuthSession };
+
 export default function Login() {
   const [isRegistering, setIsRegistering] = useState(false);
-  const { login, register: registerUser, isAuthenticated } = useAuth();
+  const [mfaStep, setMfaStep] = useState<MfaStep | null>(null);
+  const [mfaCode, setMfaCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [mfaSubmitting, setMfaSubmitting] = useState(false);
+  const [ssoMode, setSsoMode] = useState(false);
+  const [ssoEmail, setSsoEmail] = useState("");
+  const [ssoSubmitting, setSsoSubmitting] = useState(false);
+  const { login, verifyLoginMfa, completeLogin, register: registerUser, isAuthenticated } = useAuth();
   const { toast } = useToast();
   const [location, setLocation] = useLocation();
 
@@ -51,6 +68,19 @@ export default function Login() {
     }
   }, [marketplaceSource, isAuthenticated]);
 
+  // Errors from the SSO callback come back as a query parameter
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const ssoError = params.get("sso_error");
+    if (ssoError) {
+      setSsoMode(true);
+      toast({ title: "Single sign-on failed", description: ssoError, variant: "destructive" });
+      params.delete("sso_error");
+      const query = params.toString();
+      window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+    }
+  }, [toast]);
+
   // Redirect if already authenticated
   useEffect(() => {
     if (isAuthenticated) {
@@ -58,15 +88,39 @@ export default function Login() {
     }
   }, [isAuthenticated, setLocation]);
 
+  const resetMfaStep = () => {
+    setMfaStep(null);
+    setMfaCode("");
+    setRecoveryCode("");
+    setUseRecoveryCode(false);
+  };
+
   const handleLogin = async (data: LoginRequest) => {
     try {
-      await login(data);
+      const result = await login(data);
+
+      if (result.status === "mfa_required") {
+        setMfaStep({ type: "verify", mfaToken: result.mfaToken, methods: result.methods });
+        return;
+      }
+      if (result.status === "mfa_enrollment_required") {
+        const response = await apiRequest("POST", "/api/auth/login/mfa/enroll", { mfaToken: result.mfaToken });
+        setMfaStep({ type: "enroll", mfaToken: result.mfaToken, enrollment: await response.json() });
+        return;
+      }
+
       toast({
         title: "Welcome back!",
         description: "You have been successfully logged in.",
       });
     } catch (error: any) {
       localStorage.removeItem("token");
+      if (error?.data?.code === "SSO_REQUIRED") {
+        setSsoEmail(data.email);
+        setSsoMode(true);
+        toast({ title: "Single sign-on required", description: error.data.message });
+        return;
+      }
       const apiMessage = error?.data?.message || error?.message;
       const description =
         apiMessage?.includes("deactivated")
@@ -80,6 +134,89 @@ export default function Login() {
     }
   };
 
+  const handleSsoLogin = async () => {
+    if (!ssoEmail.includes("@")) {
+      toast({ title: "Enter your work email", description: "We use your email domain to find your organization's sign-in page.", variant: "destructive" });
+      return;
+    }
+    setSsoSubmitting(true);
+    try {
+      const response = await apiRequest("GET", `/api/auth/sso/discover?email=${encodeURIComponent(ssoEmail)}`);
+      const { connections } = await response.json();
+      if (!connections?.length) {
+        toast({
+          title: "Single sign-on not available",
+          description: "Your organization has not set up single sign-on for this email domain.",
+          variant: "destructive",
+        });
+        setSsoSubmitting(false);
+        return;
+      }
+      // Full page navigation: the server redirects to the identity provider
+      window.location.href = connections[0].loginUrl;
+    } catch (error: any) {
+      toast({
+        title: "Single sign-on failed",
+        description: error?.data?.message || error?.message || "Please try again.",
+        variant: "destructive",
+      });
+      setSsoSubmitting(false);
+    }
+  };
+
+  const handleMfaError = (error: any) => {
+    // An expired or exhausted login session has to start over from the password step
+    if (error?.status === 401 || error?.data?.code === "challenge_invalid" || error?.data?.code === "mfa_already_enrolled") {
+      resetMfaStep();
+    }
+    setMfaCode("");
+    toast({
+      title: "Verification failed",
+      description: error?.data?.message || error?.message || "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const handleVerifyMfa = async () => {
+    if (mfaStep?.type !== "verify") return;
+    setMfaSubmitting(true);
+    try {
+      const session = await verifyLoginMfa(
+        useRecoveryCode
+          ? { mfaToken: mfaStep.mfaToken, recoveryCode }
+          : { mfaToken: mfaStep.mfaToken, code: mfaCode }
+      );
+      toast({
+        title: "Welcome back!",
+        description: session.recoveryCodesRemaining !== undefined
+          ? `Signed in with a recovery code. ${session.recoveryCodesRemaining} recovery codes remaining.`
+          : "You have been successfully logged in.",
+      });
+    } catch (error: any) {
+      handleMfaError(error);
+    } finally {
+      setMfaSubmitting(false);
+    }
+  };
+
+  const handleConfirmEnrollment = async () => {
+    if (mfaStep?.type !== "enroll") return;
+    setMfaSubmitting(true);
+    try {
+      const response = await apiRequest("POST", "/api/auth/login/mfa/enroll/verify", {
+        mfaToken: mfaStep.mfaToken,
+        factorId: mfaStep.enrollment.factorId,
+        code: mfaCode,
+      });
+      // Hold the session until the user has saved their recovery codes
+      setMfaStep({ type: "recovery_codes", session: await response.json() });
+    } catch (error: any) {
+      handleMfaError(error);
+    } finally {
+      setMfaSubmitting(false);
+    }
+  };
+
   const handleRegister = async (data: RegisterRequest) => {
     try {
       // Include marketplace source in registration request
@@ -195,7 +332,7 @@ export default function Login() {
             </div>
           </div>
           <CardTitle className="text-2xl gradient-text">
-            {isRegistering ? "Join Your Company" : "Sign In to AssetVault"}
+            {mfaStep ? "Two-Factor Authentication" : isRegistering ? "Join Your Company" : "Sign In to AssetVault"}
           </CardTitle>
           {isRegistering && (
             <p className="text-sm text-muted-foreground mt-2">
@@ -205,7 +342,96 @@ export default function Login() {
         </CardHeader>
         
         <CardContent>
-          {isRegistering ? (
+          {mfaStep?.type === "verify" ? (
+            <div className="space-y-4">
+              {useRecoveryCode ? (
+                <div>
+                  <Label htmlFor="recoveryCode">Recovery code</Label>
+                  <Input
+                    id="recoveryCode"
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                    placeholder="XXXXX-XXXXX"
+                    autoComplete="off"
+                    data-testid="input-recovery-code"
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">
+                    Enter the 6-digit code from your authenticator app.
+                  </p>
+                  <InputOTP maxLength={6} value={mfaCode} onChange={setMfaCode} disabled={mfaSubmitting} data-testid="input-mfa-code">
+                    <InputOTPGroup>
+                      {Array.from({ length: 6 }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
+
+              <Button
+                type="button"
+                className="w-full"
+                onClick={handleVerifyMfa}
+                disabled={mfaSubmitting || (useRecoveryCode ? !recoveryCode.trim() : mfaCode.length !== 6)}
+                data-testid="button-verify-mfa"
+              >
+                {mfaSubmitting ? "Verifying..." : "Verify"}
+              </Button>
+
+              <div className="flex justify-between text-sm">
+                {mfaStep.methods.includes("recovery_code") && (
+                  <button
+                    type="button"
+                    onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+                    className="text-primary hover:underline"
+                    data-testid="link-toggle-recovery-code"
+                  >
+                    {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                  </button>
+                )}
+                <button type="button" onClick={resetMfaStep} className="text-primary hover:underline ml-auto" data-testid="link-back-to-login">
+                  Back to sign in
+                </button>
+              </div>
+            </div>
+          ) : mfaStep?.type === "enroll" ? (
+            <div className="space-y-4">
+              <div className="flex items-start gap-2 rounded-md border border-blue-500/20 bg-blue-500/10 p-3 text-sm">
+                <ShieldCheck className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>Your organization requires two-factor authentication for your role. Set up an authenticator app to continue.</span>
+              </div>
+              <TotpSetup enrollment={mfaStep.enrollment} code={mfaCode} onCodeChange={setMfaCode} disabled={mfaSubmitting} />
+              <Button
+                type="button"
+                className="w-full"
+                onClick={handleConfirmEnrollment}
+                disabled={mfaSubmitting || mfaCode.length !== 6}
+                data-testid="button-confirm-mfa-enrollment"
+              >
+                {mfaSubmitting ? "Verifying..." : "Verify and Sign In"}
+              </Button>
+              <div className="text-center">
+                <button type="button" onClick={resetMfaStep} className="text-primary hover:underline text-sm" data-testid="link-back-to-login">
+                  Back to sign in
+                </button>
+              </div>
+            </div>
+          ) : mfaStep?.type === "recovery_codes" ? (
+            <div className="space-y-4">
+              <RecoveryCodesList codes={mfaStep.session.recoveryCodes || []} />
+              <Button
+                type="button"
+                className="w-full"
+                onClick={() => completeLogin(mfaStep.session)}
+                data-testid="button-continue-after-recovery-codes"
+              >
+                I've saved my recovery codes
+              </Button>
+            </div>
+          ) : isRegistering ? (
             <form onSubmit={registerForm.handleSubmit(handleRegister)} className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
@@ -308,6 +534,42 @@ export default function Login() {
                 </button>
               </div>
             </form>
+          ) : ssoMode ? (
+            <form
+              onSubmit={(event) => {
+                event.preventDefault();
+                handleSsoLogin();
+              }}
+              className="space-y-4"
+            >
+              <div>
+                <Label htmlFor="sso-email">Work email</Label>
+                <Input
+                  id="sso-email"
+                  type="email"
+                  value={ssoEmail}
+                  onChange={(event) => setSsoEmail(event.target.value)}
+                  placeholder="you@company.com"
+                  autoFocus
+                  data-testid="input-sso-email"
+                />
+              </div>
+
+              <Button type="submit" className="w-full" disabled={ssoSubmitting} data-testid="button-sso-continue">
+                {ssoSubmitting ? "Redirecting..." : "Continue with SSO"}
+              </Button>
+
+              <div className="text-center">
+                <button
+                  type="button"
+                  onClick={() => setSsoMode(false)}
+                  className="text-primary hover:underline text-sm"
+                  data-testid="link-to-password-login"
+                >
+                  Sign in with a password instead
+                </button>
+              </div>
+            </form>
           ) : (
             <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
               <div>
@@ -364,6 +626,20 @@ export default function Login() {
               >
                 {loginForm.formState.isSubmitting ? "Signing in..." : "Sign In"}
               </Button>
+
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={() => {
+                  setSsoEmail(loginForm.getValues("email") || "");
+                  setSsoMode(true);
+                }}
+                data-testid="button-sso-login"
+              >
+                <KeyRound className="h-4 w-4 mr-2" />
+                Sign in with SSO
+              </Button>
               
               <div className="text-center">
                 <button
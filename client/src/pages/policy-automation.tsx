@@ -120,6 +120,7 @@ export default function PolicyAutomationPage() {
       user_offboarded: "User Offboarded",
       renewal_approaching: "Renewal Due",
       budget_exceeded: "Budget Exceeded",
+      anomaly_detected: "Anomaly",
     };
     return labels[triggerType] || triggerType;
   };
@@ -28,6 +28,7 @@ const TRIGGER_TYPES = [
   { value: "user_offboarded", label: "User Offboarded", description: "When a user offboarding is completed" },
   { value: "renewal_approaching", label: "Renewal Approaching", description: "When a contract renewal is coming up" },
   { value: "budget_exceeded", label: "Budget Exceeded", description: "When department spending exceeds threshold" },
+  { value: "anomaly_detected", label: "Anomaly Detected", description: "When a high or critical behavioral anomaly is detected" },
 ];
 
 const ACTION_TYPES = [
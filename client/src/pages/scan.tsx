@@ -0,0 +1,325 @@
+import { useEffect, useRef, useState } from "react";
+import { useParams, useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { TopBar } from "@/components/layout/topbar";
+import { AssetTimeline } from "@/components/assets/AssetTimeline";
+import { TicketForm } from "@/components/tickets/ticket-form";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { authenticatedRequest } from "@/lib/auth";
+import { getRolePermissions } from "@/lib/permissions";
+import { parseScannedCode, ASSET_SCAN_PATH } from "@shared/utils";
+import type { Asset, Site } from "@shared/schema";
+import { AlertCircle, LogIn, MapPin, ScanLine, TicketPlus } from "lucide-react";
+
+type ScanResult = {
+  asset: Asset;
+  matchedBy: "tag" | "serial" | "id";
+};
+
+type QuickAction = "check-in" | "move" | "report" | null;
+
+const lookupErrorMessage = (error: Error, code: string) => {
+  if (error.message.startsWith("API Error 404")) {
+    return `No asset matches "${code}".`;
+  }
+  // Ambiguous serial numbers come back as 409 with an explanation
+  try {
+    return JSON.parse(error.message.replace(/^API Error \d+: /, "")).message ?? "Could not look up this asset.";
+  } catch {
+    return "Could not look up this asset.";
+  }
+};
+
+export default function Scan() {
+  const params = useParams();
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const permissions = getRolePermissions(user?.role);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const code = params?.tag ? decodeURIComponent(params.tag) : "";
+  const [input, setInput] = useState("");
+  const [action, setAction] = useState<QuickAction>(null);
+  const [condition, setCondition] = useState<"good" | "damaged" | "lost">("good");
+  const [siteId, setSiteId] = useState("");
+  const [notes, setNotes] = useState("");
+
+  // Handheld scanners type the code and press Enter; keep the field ready for the next scan
+  useEffect(() => {
+    setInput("");
+    inputRef.current?.focus();
+  }, [code]);
+
+  const { data, isLoading, error } = useQuery<ScanResult>({
+    queryKey: ["/api/asset-tags/scan", code],
+    queryFn: async () => {
+      const response = await authenticatedRequest("GET", `/api/asset-tags/scan/${encodeURIComponent(code)}`);
+      return response.json();
+    },
+    enabled: !!code,
+    retry: false,
+  });
+
+  const { data: sites = [] } = useQuery<Site[]>({
+    queryKey: ["/api/sites"],
+    queryFn: async () => {
+      const response = await authenticatedRequest("GET", "/api/sites");
+      return response.json();
+    },
+    enabled: action === "move",
+  });
+
+  const asset = data?.asset;
+
+  const closeDialog = () => {
+    setAction(null);
+    setCondition("good");
+    setSiteId("");
+    setNotes("");
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: async () => {
+      if (action === "check-in") {
+        return authenticatedRequest("POST", `/api/assets/${asset!.id}/check-in`, {
+          condition,
+          notes: notes || undefined,
+        });
+      }
+      return authenticatedRequest("POST", `/api/assets/${asset!.id}/move`, {
+        siteId,
+        notes: notes || undefined,
+      });
+    },
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey: ["/api/asset-tags/scan", code] });
+      await qc.invalidateQueries({ queryKey: ["assetTimeline", asset?.id] });
+      await qc.invalidateQueries({ queryKey: ["/api/assets"] });
+      toast({ title: action === "check-in" ? "Asset checked in" : "Asset moved" });
+      closeDialog();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update failed",
+        description: error?.message ?? "Could not update the asset",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleScan = (e: React.FormEvent) => {
+    e.preventDefault();
+    const scanned = parseScannedCode(input);
+    if (scanned) {
+      setLocation(`${ASSET_SCAN_PATH}/${encodeURIComponent(scanned)}`);
+    }
+  };
+
+  const handleTicketCreated = (ticket: any) => {
+    closeDialog();
+    toast({
+      title: "Issue reported",
+      description: `Ticket #${ticket.id} has been created for ${asset?.name}.`,
+    });
+  };
+
+  const location = asset
+    ? [asset.location, asset.city, asset.state, asset.country].filter(Boolean).join(", ")
+    : "";
+
+  return (
+    <div className="flex h-screen bg-background page-enter">
+      <Sidebar />
+
+      <main className="flex-1 md:ml-64 overflow-auto">
+        <TopBar
+          title="Scan Asset"
+          description="Scan an asset label or enter a tag or serial number"
+        />
+
+        <div className="p-6 space-y-6 max-w-3xl">
+          <form onSubmit={handleScan} className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                ref={inputRef}
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder="Scan or type an asset tag, serial number or label URL"
+                className="pl-10"
+                autoFocus
+                data-testid="input-scan-code"
+              />
+            </div>
+            <Button type="submit" disabled={!input.trim()} data-testid="button-scan-lookup">
+              Look up
+            </Button>
+          </form>
+
+          {code && isLoading && (
+            <div className="text-sm text-muted-foreground">Looking up {code}…</div>
+          )}
+
+          {code && error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {lookupErrorMessage(error as Error, code)}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {asset && (
+            <Card data-testid="card-scanned-asset">
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle>{asset.name}</CardTitle>
+                    <div className="text-sm text-muted-foreground mt-1">
+                      {asset.type}{asset.category ? ` • ${asset.category}` : ""}
+                      {data?.matchedBy === "serial" && " • matched by serial number"}
+                    </div>
+                  </div>
+                  <Badge variant="outline" className="capitalize">{asset.status}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <div className="text-muted-foreground">Asset Tag</div>
+                    <div className="font-medium">{asset.assetTag || "Not tagged"}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Serial Number</div>
+                    <div className="font-medium">{asset.serialNumber || "N/A"}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Model</div>
+                    <div className="font-medium">
+                      {[asset.manufacturer, asset.model].filter(Boolean).join(" ") || "N/A"}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Assigned To</div>
+                    <div className="font-medium">{asset.assignedUserName || asset.assignedUserEmail || "Unassigned"}</div>
+                  </div>
+                  <div className="col-span-2">
+                    <div className="text-muted-foreground">Location</div>
+                    <div className="font-medium">{location || "N/A"}</div>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {permissions.canManageAssets && (asset.assignedUserId || asset.assignedUserName || asset.assignedUserEmail) && (
+                    <Button variant="outline" onClick={() => setAction("check-in")} data-testid="button-quick-check-in">
+                      <LogIn className="h-4 w-4 mr-2" />
+                      Check In
+                    </Button>
+                  )}
+                  <Button variant="outline" onClick={() => setAction("move")} data-testid="button-quick-move">
+                    <MapPin className="h-4 w-4 mr-2" />
+                    Move Site
+                  </Button>
+                  <Button variant="outline" onClick={() => setAction("report")} data-testid="button-quick-report-issue">
+                    <TicketPlus className="h-4 w-4 mr-2" />
+                    Report Issue
+                  </Button>
+                </div>
+
+                {asset.type !== "Software" && <AssetTimeline assetId={asset.id} />}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+
+      <Dialog open={action === "check-in" || action === "move"} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{action === "check-in" ? "Check In Asset" : "Move to Site"}</DialogTitle>
+            <DialogDescription>{asset?.name}{asset?.assetTag ? ` (${asset.assetTag})` : ""}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {action === "check-in" && (
+              <div>
+                <Label>Condition</Label>
+                <Select value={condition} onValueChange={(value) => setCondition(value as typeof condition)}>
+                  <SelectTrigger data-testid="select-scan-check-in-condition">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="good">Good (back to stock)</SelectItem>
+                    <SelectItem value="damaged">Damaged (to repair)</SelectItem>
+                    <SelectItem value="lost">Lost (retire)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {action === "move" && (
+              <div>
+                <Label>Site</Label>
+                <Select value={siteId} onValueChange={setSiteId}>
+                  <SelectTrigger data-testid="select-scan-move-site">
+                    <SelectValue placeholder="Select a site" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sites.map((site) => (
+                      <SelectItem key={site.id} value={site.id}>
+                        {site.name}{site.city ? ` — ${site.city}` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label>Notes</Label>
+              <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+            <Button
+              onClick={() => actionMutation.mutate()}
+              disabled={actionMutation.isPending || (action === "move" && !siteId)}
+              data-testid="button-scan-action-confirm"
+            >
+              {action === "check-in" ? "Check In" : "Move"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={action === "report"} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Report Issue</DialogTitle>
+            <DialogDescription>{asset?.name}{asset?.assetTag ? ` (${asset.assetTag})` : ""}</DialogDescription>
+          </DialogHeader>
+          {asset && (
+            <TicketForm
+              defaultValues={{ assetId: asset.id, category: "hardware" }}
+              onSuccess={handleTicketCreated}
+              onCancel={closeDialog}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AssetTagSettingsCard } from "@/components/assets/AssetTagSettingsCard";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -30,7 +31,9 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { TotpSetup, RecoveryCodesList, type TotpEnrollment } from "@/components/auth/totp-setup";
 import { authenticatedRequest } from "@/lib/auth";
+import { createCredential, isWebAuthnSupported } from "@/lib/webauthn";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { getRolePermissions } from "@/lib/permissions";
@@ -60,7 +63,11 @@ import {
   Edit,
   UserCheck,
   UserX,
-  ExternalLink
+  ExternalLink,
+  Smartphone,
+  Fingerprint,
+  Trash2,
+  RefreshCw
 } from "lucide-react";
 
 interface TeamMember {
@@ -76,6 +83,38 @@ interface TeamMember {
   createdAt: string;
 }
 
+interface MfaFactor {
+  id: string;
+  type: "totp" | "webauthn";
+  name: string;
+  status: string;
+  verifiedAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string | null;
+}
+
+interface SsoDiscoveredConnection {
+  id: string;
+  name: string;
+  protocol: string;
+}
+
+interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// authenticatedRequest errors carry the raw response body after the status code
+function getApiErrorMessage(error: Error, fallback: string): string {
+  const body = error.message.replace(/^API Error \d+: /, "");
+  try {
+    return JSON.parse(body).message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
 export default function SettingsPage() {
   const [location] = useLocation();
   const queryClient = useQueryClient();
@@ -134,6 +173,36 @@ export default function SettingsPage() {
     enabled: permissions.canManageTeam,
   });
 
+  // Fetch login MFA status and enrolled factors
+  const { data: mfaStatus } = useQuery<MfaStatus>({
+    queryKey: ["/api/mfa/status"],
+    queryFn: async () => {
+      const response = await authenticatedRequest("GET", "/api/mfa/status");
+      return response.json();
+    },
+  });
+
+  const { data: mfaFactors = [] } = useQuery<MfaFactor[]>({
+    queryKey: ["/api/mfa/factors"],
+    queryFn: async () => {
+      const response = await authenticatedRequest("GET", "/api/mfa/factors");
+      return response.json();
+    },
+  });
+
+  // SSO connections serving the user's email domain, for linking this account to the IdP
+  const { data: ssoConnections = [] } = useQuery<SsoDiscoveredConnection[]>({
+    queryKey: ["/api/auth/sso/discover", user?.email],
+    queryFn: async () => {
+      const response = await authenticatedRequest("GET", `/api/auth/sso/discover?email=${encodeURIComponent(user!.email)}`);
+      return (await response.json()).connections;
+    },
+    enabled: !!user?.email && user.role !== "super-admin",
+  });
+
+  const activeTotpFactors = mfaFactors.filter(f => f.type === "totp" && f.status === "active");
+  const securityKeys = mfaFactors.filter(f => f.type === "webauthn" && f.status === "active");
+
   // Filter team members based on search
   const filteredTeamMembers = teamMembers.filter((member) => {
     const searchLower = teamSearchTerm.toLowerCase();
@@ -175,6 +244,7 @@ export default function SettingsPage() {
     dateFormat: "MM/DD/YYYY",
     autoRecommendations: false,
     dataRetentionDays: 365,
+    requireMFA: false,
   });
 
   const [isAdvancedOpen, setIsAdvancedOpen] = useState(false);
@@ -183,6 +253,12 @@ export default function SettingsPage() {
 
   // Change password dialog state
   const [isChangePasswordOpen, setIsChangePasswordOpen] = useState(false);
+
+  // Two-factor authentication state
+  const [totpEnrollment, setTotpEnrollment] = useState<TotpEnrollment | null>(null);
+  const [totpCode, setTotpCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isDisableMfaOpen, setIsDisableMfaOpen] = useState(false);
   
   // Change password form
   const changePasswordForm = useForm({
@@ -234,6 +310,7 @@ export default function SettingsPage() {
         dateFormat: orgSettings.dateFormat || "MM/DD/YYYY",
         autoRecommendations: orgSettings.autoRecommendations || false,
         dataRetentionDays: orgSettings.dataRetentionDays || 365,
+        requireMFA: orgSettings.requireMFA || false,
       });
     }
   }, [orgSettings]);
@@ -337,6 +414,132 @@ export default function SettingsPage() {
     },
   });
 
+  const invalidateMfaQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/mfa/status"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/mfa/factors"] });
+  };
+
+  const showMfaError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: getApiErrorMessage(error, "Please try again."),
+      variant: "destructive",
+    });
+  };
+
+  // Start authenticator app enrollment (also used to move to a new device)
+  const startTotpMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedRequest("POST", "/api/mfa/factors/totp", {});
+      return response.json() as Promise<TotpEnrollment>;
+    },
+    onSuccess: (enrollment) => {
+      setTotpCode("");
+      setTotpEnrollment(enrollment);
+    },
+    onError: showMfaError("Unable to start setup"),
+  });
+
+  const confirmTotpMutation = useMutation({
+    mutationFn: async ({ factorId, code }: { factorId: string; code: string }) => {
+      const response = await authenticatedRequest("POST", `/api/mfa/factors/totp/${factorId}/verify`, { code });
+      const result = await response.json();
+
+      // On reset, the new app replaces the previous ones once it is confirmed
+      for (const factor of activeTotpFactors) {
+        await authenticatedRequest("DELETE", `/api/mfa/factors/${factor.id}`);
+      }
+
+      return result as MfaFactor & { recoveryCodes?: string[] };
+    },
+    onSuccess: (result) => {
+      setTotpEnrollment(null);
+      setTotpCode("");
+      invalidateMfaQueries();
+      if (result.recoveryCodes) {
+        setRecoveryCodes(result.recoveryCodes);
+      }
+      toast({
+        title: "Two-factor authentication enabled",
+        description: "You'll be asked for a code from your authenticator app when you sign in.",
+      });
+    },
+    onError: (error: Error) => {
+      setTotpCode("");
+      showMfaError("Verification failed")(error);
+    },
+  });
+
+  const disableMfaMutation = useMutation({
+    mutationFn: async () => {
+      for (const factor of activeTotpFactors) {
+        await authenticatedRequest("DELETE", `/api/mfa/factors/${factor.id}`);
+      }
+    },
+    onSuccess: () => {
+      setIsDisableMfaOpen(false);
+      invalidateMfaQueries();
+      toast({
+        title: "Two-factor authentication disabled",
+        description: "Your authenticator app and recovery codes have been removed.",
+      });
+    },
+    onError: (error: Error) => {
+      setIsDisableMfaOpen(false);
+      invalidateMfaQueries();
+      showMfaError("Unable to disable two-factor authentication")(error);
+    },
+  });
+
+  const regenerateRecoveryCodesMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedRequest("POST", "/api/mfa/recovery-codes", {});
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (result) => {
+      setRecoveryCodes(result.recoveryCodes);
+      invalidateMfaQueries();
+    },
+    onError: showMfaError("Unable to generate recovery codes"),
+  });
+
+  const addSecurityKeyMutation = useMutation({
+    mutationFn: async () => {
+      const optionsResponse = await authenticatedRequest("POST", "/api/mfa/factors/webauthn/options", {});
+      const { challengeId, options } = await optionsResponse.json();
+      const credential = await createCredential(options);
+      const response = await authenticatedRequest("POST", "/api/mfa/factors/webauthn", { challengeId, credential });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateMfaQueries();
+      toast({ title: "Security key added", description: "The security key can now be used for step-up verification." });
+    },
+    onError: showMfaError("Unable to add security key"),
+  });
+
+  const linkSsoMutation = useMutation({
+    mutationFn: async (connectionId: string) => {
+      const response = await authenticatedRequest("POST", `/api/auth/sso/${connectionId}/link`, { returnTo: "/settings" });
+      return response.json() as Promise<{ url: string }>;
+    },
+    onSuccess: ({ url }) => {
+      window.location.href = url;
+    },
+    onError: showMfaError("Unable to link single sign-on"),
+  });
+
+  const removeSecurityKeyMutation = useMutation({
+    mutationFn: async (factorId: string) => {
+      await authenticatedRequest("DELETE", `/api/mfa/factors/${factorId}`);
+    },
+    onSuccess: () => {
+      invalidateMfaQueries();
+      toast({ title: "Security key removed" });
+    },
+    onError: showMfaError("Unable to remove security key"),
+  });
+
   const deleteAccountMutation = useMutation({
     mutationFn: async () => {
       const response = await authenticatedRequest("DELETE", "/api/users/me");
@@ -642,6 +845,36 @@ export default function SettingsPage() {
                           />
                         </div>
 
+                        <div className="flex items-center justify-between py-4">
+                          <div className="space-y-1">
+                            <Label htmlFor="requireMFA">Require Two-Factor Authentication for Admins</Label>
+                            <p className="text-sm text-muted-foreground">
+                              Admins and super admins must sign in with an authenticator app. Those not yet enrolled will be asked to set one up at their next sign in.
+                            </p>
+                          </div>
+                          <Switch
+                            id="requireMFA"
+                            checked={orgForm.requireMFA}
+                            onCheckedChange={(checked) => setOrgForm(prev => ({ ...prev, requireMFA: checked }))}
+                            data-testid="switch-require-mfa"
+                          />
+                        </div>
+
+                        <div className="flex items-center justify-between py-4">
+                          <div className="space-y-1">
+                            <Label>Single Sign-On</Label>
+                            <p className="text-sm text-muted-foreground">
+                              Let your team sign in through SAML 2.0 or OpenID Connect, provision accounts automatically and require SSO for everyone.
+                            </p>
+                          </div>
+                          <Link href="/settings/sso">
+                            <Button variant="outline" size="sm" className="flex items-center gap-2" data-testid="link-sso-settings">
+                              Configure SSO
+                              <ExternalLink className="h-3 w-3" />
+                            </Button>
+                          </Link>
+                        </div>
+
                         <div className="flex justify-end">
                           <Button 
                             onClick={handleSaveOrgSettings} 
@@ -656,6 +889,8 @@ export default function SettingsPage() {
                     )}
                   </CardContent>
                 </Card>
+
+                <AssetTagSettingsCard />
               </TabsContent>
               )}
 
@@ -960,17 +1195,145 @@ export default function SettingsPage() {
                         </Dialog>
                       </div>
 
-                      <div className="flex items-center justify-between p-4 border rounded-lg">
-                        <div className="space-y-1">
-                          <p className="font-medium">Two-Factor Authentication</p>
-                          <p className="text-sm text-muted-foreground">
-                            Add an extra layer of security to your account
-                          </p>
+                      {ssoConnections.length > 0 && (
+                        <div className="flex items-center justify-between p-4 border rounded-lg">
+                          <div className="space-y-1">
+                            <p className="font-medium">Single Sign-On</p>
+                            <p className="text-sm text-muted-foreground">
+                              Link your account to your organization's identity provider to sign in with SSO
+                            </p>
+                          </div>
+                          <div className="flex gap-2">
+                            {ssoConnections.map((connection) => (
+                              <Button
+                                key={connection.id}
+                                variant="outline"
+                                onClick={() => linkSsoMutation.mutate(connection.id)}
+                                disabled={linkSsoMutation.isPending}
+                                data-testid={`button-link-sso-${connection.id}`}
+                              >
+                                <ExternalLink className="h-4 w-4 mr-2" />
+                                Link {connection.name}
+                              </Button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      <div className="p-4 border rounded-lg space-y-4">
+                        <div className="flex items-center justify-between">
+                          <div className="space-y-1">
+                            <p className="font-medium flex items-center gap-2">
+                              Two-Factor Authentication
+                              {mfaStatus?.enabled ? (
+                                <Badge className="bg-green-500/10 text-green-600 border-green-500/20" data-testid="badge-2fa-enabled">Enabled</Badge>
+                              ) : (
+                                <Badge variant="outline" data-testid="badge-2fa-disabled">Not set up</Badge>
+                              )}
+                              {mfaStatus?.required && (
+                                <Badge variant="secondary">Required by your organization</Badge>
+                              )}
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                              Require a code from an authenticator app in addition to your password when signing in
+                            </p>
+                          </div>
+                          {mfaStatus?.enabled ? (
+                            <div className="flex gap-2">
+                              <Button
+                                variant="outline"
+                                onClick={() => startTotpMutation.mutate()}
+                                disabled={startTotpMutation.isPending}
+                                data-testid="button-reset-2fa"
+                              >
+                                <Smartphone className="h-4 w-4 mr-2" />
+                                Reset
+                              </Button>
+                              {!mfaStatus.required && (
+                                <Button
+                                  variant="outline"
+                                  className="border-destructive text-destructive hover:bg-destructive/10"
+                                  onClick={() => setIsDisableMfaOpen(true)}
+                                  data-testid="button-disable-2fa"
+                                >
+                                  Disable
+                                </Button>
+                              )}
+                            </div>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              onClick={() => startTotpMutation.mutate()}
+                              disabled={startTotpMutation.isPending}
+                              data-testid="button-setup-2fa"
+                            >
+                              <Shield className="h-4 w-4 mr-2" />
+                              Setup 2FA
+                            </Button>
+                          )}
+                        </div>
+
+                        {mfaStatus?.enabled && (
+                          <div className="flex items-center justify-between border-t pt-4">
+                            <div className="space-y-1">
+                              <p className="text-sm font-medium">Recovery Codes</p>
+                              <p className="text-sm text-muted-foreground">
+                                {mfaStatus.recoveryCodesRemaining} of 10 one-time codes remaining
+                              </p>
+                            </div>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => regenerateRecoveryCodesMutation.mutate()}
+                              disabled={regenerateRecoveryCodesMutation.isPending}
+                              data-testid="button-regenerate-recovery-codes"
+                            >
+                              <RefreshCw className="h-4 w-4 mr-2" />
+                              Generate New Codes
+                            </Button>
+                          </div>
+                        )}
+
+                        <div className="border-t pt-4 space-y-3">
+                          <div className="flex items-center justify-between">
+                            <div className="space-y-1">
+                              <p className="text-sm font-medium">Security Keys</p>
+                              <p className="text-sm text-muted-foreground">
+                                Used to verify sensitive actions such as activating just-in-time access
+                              </p>
+                            </div>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => addSecurityKeyMutation.mutate()}
+                              disabled={addSecurityKeyMutation.isPending || !isWebAuthnSupported()}
+                              data-testid="button-add-security-key"
+                            >
+                              <Fingerprint className="h-4 w-4 mr-2" />
+                              {addSecurityKeyMutation.isPending ? "Waiting for key..." : "Add Security Key"}
+                            </Button>
+                          </div>
+                          {securityKeys.map((factor) => (
+                            <div key={factor.id} className="flex items-center justify-between rounded-md bg-muted/40 px-3 py-2">
+                              <div>
+                                <p className="text-sm">{factor.name}</p>
+                                <p className="text-xs text-muted-foreground">
+                                  Added {factor.createdAt ? new Date(factor.createdAt).toLocaleDateString() : "-"}
+                                  {factor.lastUsedAt && ` · Last used ${new Date(factor.lastUsedAt).toLocaleDateString()}`}
+                                </p>
+                              </div>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => removeSecurityKeyMutation.mutate(factor.id)}
+                                disabled={removeSecurityKeyMutation.isPending}
+                                data-testid={`button-remove-security-key-${factor.id}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          ))}
                         </div>
-                        <Button variant="outline" data-testid="button-setup-2fa">
-                          <Shield className="h-4 w-4 mr-2" />
-                          Setup 2FA
-                        </Button>
                       </div>
 
                       <div className="flex items-center justify-between p-4 border rounded-lg">
@@ -1046,6 +1409,81 @@ export default function SettingsPage() {
       {/* Global Floating AI Assistant */}
       <FloatingAIAssistant />
 
+      <Dialog
+        open={!!totpEnrollment}
+        onOpenChange={(open) => {
+          if (!open && !confirmTotpMutation.isPending) setTotpEnrollment(null);
+        }}
+      >
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{mfaStatus?.enabled ? "Reset Authenticator App" : "Set Up Authenticator App"}</DialogTitle>
+          </DialogHeader>
+          {totpEnrollment && (
+            <div className="space-y-4">
+              {mfaStatus?.enabled && (
+                <p className="text-sm text-muted-foreground">
+                  Your current authenticator app keeps working until the new one is verified.
+                </p>
+              )}
+              <TotpSetup
+                enrollment={totpEnrollment}
+                code={totpCode}
+                onCodeChange={setTotpCode}
+                disabled={confirmTotpMutation.isPending}
+              />
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setTotpEnrollment(null)} disabled={confirmTotpMutation.isPending}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => confirmTotpMutation.mutate({ factorId: totpEnrollment.factorId, code: totpCode })}
+                  disabled={confirmTotpMutation.isPending || totpCode.length !== 6}
+                  data-testid="button-confirm-2fa"
+                >
+                  {confirmTotpMutation.isPending ? "Verifying..." : "Verify and Enable"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!recoveryCodes} onOpenChange={(open) => !open && setRecoveryCodes(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Recovery Codes</DialogTitle>
+          </DialogHeader>
+          {recoveryCodes && <RecoveryCodesList codes={recoveryCodes} />}
+          <div className="flex justify-end">
+            <Button onClick={() => setRecoveryCodes(null)} data-testid="button-close-recovery-codes">
+              Done
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isDisableMfaOpen} onOpenChange={setIsDisableMfaOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Disable two-factor authentication?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your authenticator app and all recovery codes will be removed. You will sign in with your password only.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={disableMfaMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => disableMfaMutation.mutate()}
+              disabled={disableMfaMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {disableMfaMutation.isPending ? "Disabling..." : "Disable"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -4,7 +4,7 @@
  */
 
 import { useState, useEffect } from "react";
-import { Plus, Shield, AlertTriangle, CheckCircle, XCircle, FileText } from "lucide-react";
+import { Plus, Shield, AlertTriangle, CheckCircle, XCircle, FileText, RefreshCw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -37,15 +37,26 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+
+interface EntitlementRef {
+  appId: string | null;
+  entitlementType: "access" | "role" | "permission" | "group";
+  value: string;
+  label?: string;
+}
 
 interface SodRule {
   id: string;
   name: string;
   severity: string;
-  appId1: string;
-  appName1: string;
-  appId2: string;
-  appName2: string;
+  ruleType: "app_pair" | "entitlement_set";
+  appId1: string | null;
+  appName1: string | null;
+  appId2: string | null;
+  appName2: string | null;
+  entitlements?: EntitlementRef[] | null;
+  minMatch?: number | null;
   rationale: string;
   complianceFramework?: string;
   isActive: boolean;
@@ -55,15 +66,16 @@ interface SodRule {
 interface SodViolation {
   id: string;
   sodRuleId: string;
-  sodRuleName: string;
+  ruleName: string;
   userId: string;
   userName: string;
   userEmail: string;
   userDepartment?: string;
-  appId1: string;
-  appName1: string;
-  appId2: string;
-  appName2: string;
+  app1Id: string | null;
+  app1Name: string | null;
+  app2Id: string | null;
+  app2Name: string | null;
+  matchedEntitlements?: EntitlementRef[] | null;
   severity: string;
   status: string;
   detectedAt: Date;
@@ -75,11 +87,34 @@ interface SaasApp {
   name: string;
 }
 
+interface AppEntitlement {
+  id: string;
+  appId: string | null;
+  entitlementType: "role" | "permission" | "group";
+  value: string;
+  displayName?: string | null;
+  source: string;
+  lastSeenAt?: string | null;
+}
+
+// Apps a violation can be remediated in: the rule's pair, or every app among the colliding entitlements
+function revokeTargets(violation: SodViolation): Array<{ appId: string; appName: string }> {
+  const targets = new Map<string, string>();
+  if (violation.app1Id) targets.set(violation.app1Id, violation.app1Name ?? violation.app1Id);
+  if (violation.app2Id) targets.set(violation.app2Id, violation.app2Name ?? violation.app2Id);
+  for (const ref of violation.matchedEntitlements ?? []) {
+    if (ref.appId && !targets.has(ref.appId)) targets.set(ref.appId, ref.label ?? ref.appId);
+  }
+  return Array.from(targets, ([appId, appName]) => ({ appId, appName }));
+}
+
 export default function SodManagementPage() {
   const { toast } = useToast();
   const [rules, setRules] = useState<SodRule[]>([]);
   const [violations, setViolations] = useState<SodViolation[]>([]);
   const [apps, setApps] = useState<SaasApp[]>([]);
+  const [entitlements, setEntitlements] = useState<AppEntitlement[]>([]);
+  const [refreshingCatalog, setRefreshingCatalog] = useState(false);
   const [loading, setLoading] = useState(true);
   const [showNewRuleDialog, setShowNewRuleDialog] = useState(false);
   const [showComplianceReport, setShowComplianceReport] = useState(false);
@@ -88,6 +123,9 @@ export default function SodManagementPage() {
 
   // New rule form
   const [ruleName, setRuleName] = useState("");
+  const [ruleType, setRuleType] = useState<"app_pair" | "entitlement_set">("app_pair");
+  const [selectedEntitlements, setSelectedEntitlements] = useState<string[]>([]);
+  const [minMatch, setMinMatch] = useState("2");
   const [app1, setApp1] = useState("");
   const [app2, setApp2] = useState("");
   const [severity, setSeverity] = useState("medium");
@@ -121,6 +159,13 @@ export default function SodManagementPage() {
         const data = await appsRes.json();
         setApps(data);
       }
+
+      // Load entitlement catalog
+      const entitlementsRes = await fetch("/api/sod/entitlements");
+      if (entitlementsRes.ok) {
+        const data = await entitlementsRes.json();
+        setEntitlements(data);
+      }
     } catch (error) {
       console.error("Failed to load data:", error);
       toast({
@@ -134,7 +179,8 @@ export default function SodManagementPage() {
   }
 
   async function createRule() {
-    if (!ruleName.trim() || !app1 || !app2 || !rationale.trim()) {
+    const isEntitlementSet = ruleType === "entitlement_set";
+    if (!ruleName.trim() || !rationale.trim() || (!isEntitlementSet && (!app1 || !app2))) {
       toast({
         title: "Validation Error",
         description: "Please fill in all required fields",
@@ -143,7 +189,17 @@ export default function SodManagementPage() {
       return;
     }
 
-    if (app1 === app2) {
+    const required = Number(minMatch);
+    if (isEntitlementSet && (selectedEntitlements.length < 2 || required < 2 || required > selectedEntitlements.length)) {
+      toast({
+        title: "Validation Error",
+        description: "Select at least two entitlements and a match count between 2 and the number selected",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!isEntitlementSet && app1 === app2) {
       toast({
         title: "Validation Error",
         description: "Please select two different applications",
@@ -159,8 +215,14 @@ export default function SodManagementPage() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           name: ruleName,
-          appId1: app1,
-          appId2: app2,
+          ...(isEntitlementSet
+            ? {
+                entitlements: entitlements
+                  .filter(e => selectedEntitlements.includes(e.id))
+                  .map(e => ({ appId: e.appId, entitlementType: e.entitlementType, value: e.value })),
+                minMatch: required,
+              }
+            : { appId1: app1, appId2: app2 }),
           severity,
           rationale,
           complianceFramework: complianceFramework || undefined,
@@ -305,8 +367,49 @@ export default function SodManagementPage() {
     }
   }
 
+  async function refreshCatalog() {
+    setRefreshingCatalog(true);
+    try {
+      const res = await fetch("/api/sod/entitlements/refresh", { method: "POST" });
+      if (!res.ok) {
+        throw new Error(await res.text());
+      }
+
+      const result = await res.json();
+      toast({
+        title: "Catalog Refreshed",
+        description: `${result.discovered} entitlements discovered, ${result.added} new`,
+      });
+
+      loadData();
+    } catch (error) {
+      console.error("Failed to refresh catalog:", error);
+      toast({
+        title: "Refresh Failed",
+        description: error instanceof Error ? error.message : "Failed to refresh entitlement catalog",
+        variant: "destructive",
+      });
+    } finally {
+      setRefreshingCatalog(false);
+    }
+  }
+
+  function appName(appId: string | null) {
+    if (!appId) return "Directory";
+    return apps.find(app => app.id === appId)?.name ?? appId;
+  }
+
+  function toggleEntitlement(id: string, checked: boolean) {
+    setSelectedEntitlements(current =>
+      checked ? [...current, id] : current.filter(existing => existing !== id)
+    );
+  }
+
   function resetForm() {
     setRuleName("");
+    setRuleType("app_pair");
+    setSelectedEntitlements([]);
+    setMinMatch("2");
     setApp1("");
     setApp2("");
     setSeverity("medium");
@@ -428,6 +531,7 @@ export default function SodManagementPage() {
             Violations ({openViolations.length})
           </TabsTrigger>
           <TabsTrigger value="rules">Rules ({rules.length})</TabsTrigger>
+          <TabsTrigger value="entitlements">Entitlements ({entitlements.length})</TabsTrigger>
         </TabsList>
 
         {/* Violations Tab */}
@@ -445,7 +549,7 @@ export default function SodManagementPage() {
                   <TableRow>
                     <TableHead>User</TableHead>
                     <TableHead>Rule</TableHead>
-                    <TableHead>Conflicting Apps</TableHead>
+                    <TableHead>Conflicting Access</TableHead>
                     <TableHead>Severity</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Detected</TableHead>
@@ -468,15 +572,25 @@ export default function SodManagementPage() {
                           <div className="font-medium">{violation.userName}</div>
                           <div className="text-sm text-gray-600">{violation.userEmail}</div>
                         </TableCell>
-                        <TableCell className="text-sm">{violation.sodRuleName}</TableCell>
+                        <TableCell className="text-sm">{violation.ruleName}</TableCell>
                         <TableCell>
                           <div className="space-y-1 text-sm">
-                            <div className="flex items-center gap-2">
-                              <Badge variant="outline">{violation.appName1}</Badge>
-                            </div>
-                            <div className="flex items-center gap-2">
-                              <Badge variant="outline">{violation.appName2}</Badge>
-                            </div>
+                            {violation.matchedEntitlements?.length ? (
+                              violation.matchedEntitlements.map((ref) => (
+                                <div key={`${ref.appId}|${ref.entitlementType}|${ref.value}`} className="flex items-center gap-2">
+                                  <Badge variant="outline">{ref.label ?? ref.value}</Badge>
+                                </div>
+                              ))
+                            ) : (
+                              <>
+                                <div className="flex items-center gap-2">
+                                  <Badge variant="outline">{violation.app1Name}</Badge>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  <Badge variant="outline">{violation.app2Name}</Badge>
+                                </div>
+                              </>
+                            )}
                           </div>
                         </TableCell>
                         <TableCell>{getSeverityBadge(violation.severity)}</TableCell>
@@ -485,21 +599,17 @@ export default function SodManagementPage() {
                           {new Date(violation.detectedAt).toLocaleDateString()}
                         </TableCell>
                         <TableCell>
-                          <div className="flex gap-2">
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => remediateViolation(violation.id, violation.appId1)}
-                            >
-                              Revoke App 1
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => remediateViolation(violation.id, violation.appId2)}
-                            >
-                              Revoke App 2
-                            </Button>
+                          <div className="flex flex-wrap gap-2">
+                            {revokeTargets(violation).map((target) => (
+                              <Button
+                                key={target.appId}
+                                size="sm"
+                                variant="outline"
+                                onClick={() => remediateViolation(violation.id, target.appId)}
+                              >
+                                Revoke {target.appName}
+                              </Button>
+                            ))}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -517,7 +627,7 @@ export default function SodManagementPage() {
             <CardHeader>
               <CardTitle>SoD Rules</CardTitle>
               <CardDescription>
-                Define conflicting application combinations
+                Define conflicting application combinations and toxic entitlement sets
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -525,7 +635,7 @@ export default function SodManagementPage() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Rule Name</TableHead>
-                    <TableHead>Conflicting Apps</TableHead>
+                    <TableHead>Conflicting Access</TableHead>
                     <TableHead>Severity</TableHead>
                     <TableHead>Framework</TableHead>
                     <TableHead>Active</TableHead>
@@ -537,11 +647,22 @@ export default function SodManagementPage() {
                     <TableRow key={rule.id}>
                       <TableCell className="font-medium">{rule.name}</TableCell>
                       <TableCell>
-                        <div className="space-y-1 text-sm">
-                          <div>{rule.appName1}</div>
-                          <div className="text-gray-400">×</div>
-                          <div>{rule.appName2}</div>
-                        </div>
+                        {rule.ruleType === "entitlement_set" ? (
+                          <div className="space-y-1 text-sm">
+                            <div className="text-gray-600">
+                              Any {rule.minMatch} of {rule.entitlements?.length ?? 0}:
+                            </div>
+                            {(rule.entitlements ?? []).map((ref) => (
+                              <div key={`${ref.appId}|${ref.entitlementType}|${ref.value}`}>{ref.label ?? ref.value}</div>
+                            ))}
+                          </div>
+                        ) : (
+                          <div className="space-y-1 text-sm">
+                            <div>{rule.appName1}</div>
+                            <div className="text-gray-400">×</div>
+                            <div>{rule.appName2}</div>
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>{getSeverityBadge(rule.severity)}</TableCell>
                       <TableCell>
@@ -569,6 +690,60 @@ export default function SodManagementPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Entitlements Tab */}
+        <TabsContent value="entitlements">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between">
+              <div>
+                <CardTitle>Entitlement Catalog</CardTitle>
+                <CardDescription>
+                  App roles, permissions and directory groups discovered from your identity providers
+                </CardDescription>
+              </div>
+              <Button variant="outline" onClick={refreshCatalog} disabled={refreshingCatalog}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${refreshingCatalog ? "animate-spin" : ""}`} />
+                Refresh
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Application</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Entitlement</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Last Seen</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entitlements.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8 text-sm text-gray-600">
+                        No entitlements discovered yet. Sync an identity provider or refresh the catalog.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    entitlements.map((entitlement) => (
+                      <TableRow key={entitlement.id}>
+                        <TableCell>{appName(entitlement.appId)}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{entitlement.entitlementType}</Badge>
+                        </TableCell>
+                        <TableCell className="font-medium">{entitlement.displayName || entitlement.value}</TableCell>
+                        <TableCell className="text-sm text-gray-600">{entitlement.source.replace("_", " ")}</TableCell>
+                        <TableCell className="text-sm text-gray-600">
+                          {entitlement.lastSeenAt ? new Date(entitlement.lastSeenAt).toLocaleDateString() : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
 
       {/* New Rule Dialog */}
@@ -577,7 +752,7 @@ export default function SodManagementPage() {
           <DialogHeader>
             <DialogTitle>Create SoD Rule</DialogTitle>
             <DialogDescription>
-              Define a conflicting application combination that violates segregation of duties
+              Define a conflicting application pair, or a set of entitlements no one should hold together
             </DialogDescription>
           </DialogHeader>
 
@@ -592,39 +767,90 @@ export default function SodManagementPage() {
               />
             </div>
 
-            <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="ruleType">Rule Type *</Label>
+              <Select value={ruleType} onValueChange={(value) => setRuleType(value as "app_pair" | "entitlement_set")}>
+                <SelectTrigger id="ruleType">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="app_pair">Conflicting applications</SelectItem>
+                  <SelectItem value="entitlement_set">Toxic entitlement combination</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {ruleType === "entitlement_set" ? (
               <div className="space-y-2">
-                <Label htmlFor="app1">Application 1 *</Label>
-                <Select value={app1} onValueChange={setApp1}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select first app" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {apps.map((app) => (
-                      <SelectItem key={app.id} value={app.id}>
-                        {app.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                <Label>Entitlements * ({selectedEntitlements.length} selected)</Label>
+                <div className="max-h-56 overflow-y-auto rounded-md border p-2 space-y-1">
+                  {entitlements.length === 0 ? (
+                    <p className="text-sm text-gray-600 p-2">
+                      The entitlement catalog is empty. Refresh it from the Entitlements tab first.
+                    </p>
+                  ) : (
+                    entitlements.map((entitlement) => (
+                      <label key={entitlement.id} className="flex items-center gap-2 text-sm p-1 cursor-pointer">
+                        <Checkbox
+                          checked={selectedEntitlements.includes(entitlement.id)}
+                          onCheckedChange={(checked) => toggleEntitlement(entitlement.id, checked === true)}
+                        />
+                        <span className="text-gray-600">{appName(entitlement.appId)}</span>
+                        <Badge variant="outline">{entitlement.entitlementType}</Badge>
+                        <span>{entitlement.displayName || entitlement.value}</span>
+                      </label>
+                    ))
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="minMatch" className="whitespace-nowrap">Violation when a user holds at least</Label>
+                  <Input
+                    id="minMatch"
+                    type="number"
+                    min={2}
+                    max={Math.max(2, selectedEntitlements.length)}
+                    value={minMatch}
+                    onChange={(e) => setMinMatch(e.target.value)}
+                    className="w-20"
+                  />
+                  <span className="text-sm text-gray-600">of the selected entitlements</span>
+                </div>
               </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="app1">Application 1 *</Label>
+                  <Select value={app1} onValueChange={setApp1}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select first app" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {apps.map((app) => (
+                        <SelectItem key={app.id} value={app.id}>
+                          {app.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="app2">Application 2 *</Label>
-                <Select value={app2} onValueChange={setApp2}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select second app" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {apps.map((app) => (
-                      <SelectItem key={app.id} value={app.id}>
-                        {app.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                <div className="space-y-2">
+                  <Label htmlFor="app2">Application 2 *</Label>
+                  <Select value={app2} onValueChange={setApp2}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select second app" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {apps.map((app) => (
+                        <SelectItem key={app.id} value={app.id}>
+                          {app.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
-            </div>
+            )}
 
             <div className="space-y-2">
               <Label htmlFor="severity">Severity *</Label>
@@ -0,0 +1,66 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2, ShieldAlert } from "lucide-react";
+
+/**
+ * Landing page after the identity provider redirects back.
+ * The one-time login code arrives in the URL fragment so it never reaches server logs.
+ */
+export default function SsoCallback() {
+  const { completeLogin } = useAuth();
+  const [, setLocation] = useLocation();
+  const [error, setError] = useState<string | null>(null);
+  const exchanged = useRef(false);
+
+  useEffect(() => {
+    // Codes are single use; guard against the effect running twice
+    if (exchanged.current) return;
+    exchanged.current = true;
+
+    const code = new URLSearchParams(window.location.hash.slice(1)).get("code");
+    window.history.replaceState(null, "", window.location.pathname);
+
+    if (!code) {
+      setError("The sign-in link is missing its login code.");
+      return;
+    }
+
+    (async () => {
+      try {
+        const response = await apiRequest("POST", "/api/auth/sso/exchange", { code });
+        const session = await response.json();
+        completeLogin(session);
+        setLocation(session.returnTo || "/dashboard");
+      } catch (err: any) {
+        setError(err?.data?.message || "Single sign-on could not be completed.");
+      }
+    })();
+  }, [completeLogin, setLocation]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-center">{error ? "Sign-in failed" : "Signing you in..."}</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col items-center gap-4">
+          {error ? (
+            <>
+              <ShieldAlert className="h-10 w-10 text-destructive" />
+              <p className="text-sm text-muted-foreground text-center" data-testid="text-sso-error">{error}</p>
+              <Button onClick={() => setLocation("/login")} data-testid="button-back-to-login">
+                Back to sign in
+              </Button>
+            </>
+          ) : (
+            <Loader2 className="h-10 w-10 animate-spin text-primary" />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
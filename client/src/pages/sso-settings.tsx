@@ -0,0 +1,1019 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { authenticatedRequest } from "@/lib/auth";
+import { Sidebar } from "@/components/layout/sidebar";
+import { TopBar } from "@/components/layout/topbar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { CheckCircle2, Copy, Download, Edit, KeyRound, Loader2, Plus, RefreshCw, Trash2, X } from "lucide-react";
+
+type SsoProtocol = "saml" | "oidc";
+type MappedRole = "technician" | "it-manager" | "admin";
+
+const ROLE_OPTIONS: { value: MappedRole; label: string }[] = [
+  { value: "technician", label: "Technician" },
+  { value: "it-manager", label: "IT Manager" },
+  { value: "admin", label: "Admin" },
+];
+
+interface ServiceProviderInfo {
+  entityId: string;
+  acsUrl: string;
+  metadataUrl: string;
+  redirectUri: string;
+}
+
+interface SsoConnection {
+  id: string;
+  name: string;
+  protocol: SsoProtocol;
+  enabled: boolean;
+  emailDomains: string[] | null;
+  samlEntryPoint: string | null;
+  samlIdpIssuer: string | null;
+  samlIdpCertificate: string | null;
+  oidcIssuer: string | null;
+  oidcClientId: string | null;
+  oidcClientSecret: string | null;
+  oidcScopes: string[] | null;
+  emailAttribute: string | null;
+  firstNameAttribute: string | null;
+  lastNameAttribute: string | null;
+  groupsAttribute: string | null;
+  jitProvisioning: boolean;
+  defaultRole: MappedRole;
+  roleMappings: { group: string; role: MappedRole }[] | null;
+  lastLoginAt: string | null;
+  serviceProvider?: ServiceProviderInfo;
+}
+
+interface ScimToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+interface SsoDomain {
+  id: string;
+  domain: string;
+  verifiedAt: string | null;
+  lastCheckedAt: string | null;
+  record: { name: string; type: "TXT"; value: string };
+}
+
+interface ConnectionFormValues {
+  name: string;
+  protocol: SsoProtocol;
+  enabled: boolean;
+  emailDomains: string;
+  samlEntryPoint: string;
+  samlIdpIssuer: string;
+  samlIdpCertificate: string;
+  oidcIssuer: string;
+  oidcClientId: string;
+  oidcClientSecret: string;
+  oidcScopes: string;
+  emailAttribute: string;
+  firstNameAttribute: string;
+  lastNameAttribute: string;
+  groupsAttribute: string;
+  jitProvisioning: boolean;
+  defaultRole: MappedRole;
+  roleMappings: { group: string; role: MappedRole }[];
+}
+
+const EMPTY_FORM: ConnectionFormValues = {
+  name: "",
+  protocol: "oidc",
+  enabled: false,
+  emailDomains: "",
+  samlEntryPoint: "",
+  samlIdpIssuer: "",
+  samlIdpCertificate: "",
+  oidcIssuer: "",
+  oidcClientId: "",
+  oidcClientSecret: "",
+  oidcScopes: "openid email profile",
+  emailAttribute: "",
+  firstNameAttribute: "",
+  lastNameAttribute: "",
+  groupsAttribute: "",
+  jitProvisioning: true,
+  defaultRole: "technician",
+  roleMappings: [],
+};
+
+function toFormValues(connection: SsoConnection): ConnectionFormValues {
+  return {
+    name: connection.name,
+    protocol: connection.protocol,
+    enabled: connection.enabled,
+    emailDomains: (connection.emailDomains || []).join(", "),
+    samlEntryPoint: connection.samlEntryPoint || "",
+    samlIdpIssuer: connection.samlIdpIssuer || "",
+    samlIdpCertificate: connection.samlIdpCertificate || "",
+    oidcIssuer: connection.oidcIssuer || "",
+    oidcClientId: connection.oidcClientId || "",
+    oidcClientSecret: connection.oidcClientSecret || "",
+    oidcScopes: (connection.oidcScopes || []).join(" ") || EMPTY_FORM.oidcScopes,
+    emailAttribute: connection.emailAttribute || "",
+    firstNameAttribute: connection.firstNameAttribute || "",
+    lastNameAttribute: connection.lastNameAttribute || "",
+    groupsAttribute: connection.groupsAttribute || "",
+    jitProvisioning: connection.jitProvisioning,
+    defaultRole: connection.defaultRole,
+    roleMappings: connection.roleMappings || [],
+  };
+}
+
+function toPayload(values: ConnectionFormValues) {
+  const isSaml = values.protocol === "saml";
+  return {
+    name: values.name.trim(),
+    protocol: values.protocol,
+    enabled: values.enabled,
+    emailDomains: values.emailDomains.split(/[\s,]+/).map((domain) => domain.trim()).filter(Boolean),
+    samlEntryPoint: isSaml ? values.samlEntryPoint.trim() || null : null,
+    samlIdpIssuer: isSaml ? values.samlIdpIssuer.trim() || null : null,
+    samlIdpCertificate: isSaml ? values.samlIdpCertificate.trim() || null : null,
+    oidcIssuer: isSaml ? null : values.oidcIssuer.trim() || null,
+    oidcClientId: isSaml ? null : values.oidcClientId.trim() || null,
+    oidcClientSecret: isSaml ? null : values.oidcClientSecret || null,
+    oidcScopes: isSaml ? null : values.oidcScopes.split(/\s+/).filter(Boolean),
+    emailAttribute: values.emailAttribute.trim() || null,
+    firstNameAttribute: values.firstNameAttribute.trim() || null,
+    lastNameAttribute: values.lastNameAttribute.trim() || null,
+    groupsAttribute: values.groupsAttribute.trim() || null,
+    jitProvisioning: values.jitProvisioning,
+    defaultRole: values.defaultRole,
+    roleMappings: values.roleMappings.filter((mapping) => mapping.group.trim()),
+  };
+}
+
+function CopyField({ label, value }: { label: string; value: string }) {
+  const { toast } = useToast();
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <div className="flex items-center gap-2">
+        <code className="flex-1 truncate rounded-md border bg-muted/40 px-2 py-1 text-xs">{value}</code>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={async () => {
+            await navigator.clipboard.writeText(value);
+            toast({ title: "Copied", description: `${label} copied to clipboard.` });
+          }}
+        >
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ConnectionDialog({
+  open,
+  connection,
+  onClose,
+}: {
+  open: boolean;
+  connection: SsoConnection | null;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [values, setValues] = useState<ConnectionFormValues>(EMPTY_FORM);
+
+  useEffect(() => {
+    setValues(connection ? toFormValues(connection) : EMPTY_FORM);
+  }, [connection, open]);
+
+  const update = <K extends keyof ConnectionFormValues>(key: K, value: ConnectionFormValues[K]) =>
+    setValues((current) => ({ ...current, [key]: value }));
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const endpoint = connection ? `/api/sso/connections/${connection.id}` : "/api/sso/connections";
+      const response = await apiRequest(connection ? "PUT" : "POST", endpoint, toPayload(values));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sso/connections"] });
+      toast({
+        title: connection ? "Connection updated" : "Connection created",
+        description: connection
+          ? "The SSO connection has been updated."
+          : "Register the service provider details with your identity provider, then enable the connection.",
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.data?.message || error.message || "Failed to save SSO connection.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const downloadMetadata = async () => {
+    if (!connection) return;
+    const response = await authenticatedRequest("GET", `/api/sso/connections/${connection.id}/metadata`);
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "sp-metadata.xml";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const isSaml = values.protocol === "saml";
+  const sp = connection?.serviceProvider;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{connection ? "Edit SSO Connection" : "Add SSO Connection"}</DialogTitle>
+          <DialogDescription>
+            Let users sign in to the platform through your organization's identity provider.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="sso-name">Name *</Label>
+              <Input
+                id="sso-name"
+                value={values.name}
+                onChange={(e) => update("name", e.target.value)}
+                placeholder="e.g. Corporate Okta"
+                data-testid="input-sso-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Protocol *</Label>
+              <Select
+                value={values.protocol}
+                onValueChange={(value) => update("protocol", value as SsoProtocol)}
+                disabled={!!connection}
+              >
+                <SelectTrigger data-testid="select-sso-protocol">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="oidc">OpenID Connect</SelectItem>
+                  <SelectItem value="saml">SAML 2.0</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sso-domains">Email domains *</Label>
+            <Input
+              id="sso-domains"
+              value={values.emailDomains}
+              onChange={(e) => update("emailDomains", e.target.value)}
+              placeholder="company.com, company.co.uk"
+              data-testid="input-sso-domains"
+            />
+            <p className="text-xs text-muted-foreground">
+              Users who enter an email on these domains are sent to this identity provider once the domain is verified.
+            </p>
+          </div>
+
+          {sp && (
+            <div className="space-y-3 rounded-md border p-4">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium">Service provider details</h4>
+                {isSaml && (
+                  <Button type="button" variant="outline" size="sm" onClick={downloadMetadata}>
+                    <Download className="h-4 w-4 mr-2" />
+                    SP Metadata
+                  </Button>
+                )}
+              </div>
+              {isSaml ? (
+                <>
+                  <CopyField label="Entity ID (Audience)" value={sp.entityId} />
+                  <CopyField label="ACS URL" value={sp.acsUrl} />
+                </>
+              ) : (
+                <CopyField label="Redirect URI" value={sp.redirectUri} />
+              )}
+            </div>
+          )}
+
+          {isSaml ? (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="saml-entry-point">IdP SSO URL *</Label>
+                <Input
+                  id="saml-entry-point"
+                  value={values.samlEntryPoint}
+                  onChange={(e) => update("samlEntryPoint", e.target.value)}
+                  placeholder="https://idp.example.com/sso/saml"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="saml-issuer">IdP Entity ID</Label>
+                <Input
+                  id="saml-issuer"
+                  value={values.samlIdpIssuer}
+                  onChange={(e) => update("samlIdpIssuer", e.target.value)}
+                  placeholder="Optional; checked against the response issuer"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="saml-certificate">IdP signing certificate *</Label>
+                <Textarea
+                  id="saml-certificate"
+                  value={values.samlIdpCertificate}
+                  onChange={(e) => update("samlIdpCertificate", e.target.value)}
+                  placeholder="-----BEGIN CERTIFICATE-----"
+                  className="font-mono text-xs"
+                  rows={5}
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="oidc-issuer">Issuer URL *</Label>
+                <Input
+                  id="oidc-issuer"
+                  value={values.oidcIssuer}
+                  onChange={(e) => update("oidcIssuer", e.target.value)}
+                  placeholder="https://login.example.com"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="oidc-client-id">Client ID *</Label>
+                  <Input id="oidc-client-id" value={values.oidcClientId} onChange={(e) => update("oidcClientId", e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="oidc-client-secret">Client secret *</Label>
+                  <Input
+                    id="oidc-client-secret"
+                    type="password"
+                    value={values.oidcClientSecret}
+                    onChange={(e) => update("oidcClientSecret", e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="oidc-scopes">Scopes</Label>
+                <Input id="oidc-scopes" value={values.oidcScopes} onChange={(e) => update("oidcScopes", e.target.value)} />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Attribute mapping</h4>
+            <p className="text-xs text-muted-foreground">
+              Leave blank to use the standard {isSaml ? "attribute" : "claim"} names
+              ({isSaml ? "email, firstName, lastName, groups" : "email, given_name, family_name, groups"}).
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <Input value={values.emailAttribute} onChange={(e) => update("emailAttribute", e.target.value)} placeholder="Email" />
+              <Input value={values.groupsAttribute} onChange={(e) => update("groupsAttribute", e.target.value)} placeholder="Groups" />
+              <Input value={values.firstNameAttribute} onChange={(e) => update("firstNameAttribute", e.target.value)} placeholder="First name" />
+              <Input value={values.lastNameAttribute} onChange={(e) => update("lastNameAttribute", e.target.value)} placeholder="Last name" />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <h4 className="text-sm font-medium">Just-in-time provisioning</h4>
+                <p className="text-xs text-muted-foreground">Create accounts on first sign-in for users who don't have one yet.</p>
+              </div>
+              <Switch checked={values.jitProvisioning} onCheckedChange={(checked) => update("jitProvisioning", checked)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Default role</Label>
+              <Select value={values.defaultRole} onValueChange={(value) => update("defaultRole", value as MappedRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <h4 className="text-sm font-medium">Group to role mapping</h4>
+                <p className="text-xs text-muted-foreground">
+                  The highest matching role is applied on every sign-in. Super admin is never granted through SSO.
+                </p>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => update("roleMappings", [...values.roleMappings, { group: "", role: "technician" }])}
+                data-testid="button-add-role-mapping"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+            {values.roleMappings.map((mapping, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={mapping.group}
+                  placeholder="IdP group name"
+                  onChange={(e) => update("roleMappings", values.roleMappings.map((item, i) => i === index ? { ...item, group: e.target.value } : item))}
+                />
+                <Select
+                  value={mapping.role}
+                  onValueChange={(value) => update("roleMappings", values.roleMappings.map((item, i) => i === index ? { ...item, role: value as MappedRole } : item))}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => update("roleMappings", values.roleMappings.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between rounded-md border p-4">
+            <div>
+              <h4 className="text-sm font-medium">Enabled</h4>
+              <p className="text-xs text-muted-foreground">Show this connection on the sign-in page.</p>
+            </div>
+            <Switch checked={values.enabled} onCheckedChange={(checked) => update("enabled", checked)} data-testid="switch-sso-enabled" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => save.mutate()} disabled={save.isPending || !values.name.trim()} data-testid="button-save-sso-connection">
+            {save.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {connection ? "Save Changes" : "Create Connection"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Email domains the organization proves it owns with a DNS TXT record before SSO routes them
+ */
+function VerifiedDomainsCard() {
+  const { toast } = useToast();
+  const [domain, setDomain] = useState("");
+  const [removing, setRemoving] = useState<SsoDomain | null>(null);
+
+  const { data: domains = [], isLoading } = useQuery<SsoDomain[]>({
+    queryKey: ["/api/sso/domains"],
+    queryFn: async () => {
+      const response = await authenticatedRequest("GET", "/api/sso/domains");
+      return response.json();
+    },
+  });
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.data?.message || error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const claimDomain = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/sso/domains", { domain: domain.trim() });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sso/domains"] });
+      setDomain("");
+      toast({ title: "Domain added", description: "Publish the TXT record below, then verify the domain." });
+    },
+    onError: onError("Failed to add domain."),
+  });
+
+  const verifyDomain = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/sso/domains/${id}/verify`);
+      return response.json();
+    },
+    onSuccess: (data: SsoDomain) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sso/domains"] });
+      toast({ title: "Domain verified", description: `Users on ${data.domain} can now sign in with SSO.` });
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sso/domains"] });
+      onError("Failed to verify domain.")(error);
+    },
+  });
+
+  const removeDomain = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/sso/domains/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sso/domains"] });
+      toast({ title: "Domain removed", description: "SSO no longer routes users on this domain." });
+      setRemoving(null);
+    },
+    onError: (error: any) => {
+      onError("Failed to remove domain.")(error);
+      setRemoving(null);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Verified Domains</CardTitle>
+        <CardDescription>
+          SSO connections only route users whose email domain your organization has verified with a DNS TXT record.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="sso-domain">Domain</Label>
+            <Input
+              id="sso-domain"
+              value={domain}
+              onChange={(e) => setDomain(e.target.value)}
+              placeholder="company.com"
+              data-testid="input-sso-domain"
+            />
+          </div>
+          <Button onClick={() => claimDomain.mutate()} disabled={claimDomain.isPending || !domain.trim()} data-testid="button-add-sso-domain">
+            {claimDomain.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add Domain
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin mx-auto text-muted-foreground" />
+        ) : domains.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No domains added.</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {domains.map((item) => (
+              <div key={item.id} className="space-y-3 p-3" data-testid={`row-sso-domain-${item.id}`}>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium">{item.domain}</p>
+                    {item.verifiedAt ? (
+                      <Badge variant="default"><CheckCircle2 className="h-3 w-3 mr-1" />Verified</Badge>
+                    ) : (
+                      <Badge variant="secondary">Pending</Badge>
+                    )}
+                  </div>
+                  <div className="flex gap-1">
+                    {!item.verifiedAt && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => verifyDomain.mutate(item.id)}
+                        disabled={verifyDomain.isPending}
+                        data-testid={`button-verify-sso-domain-${item.id}`}
+                      >
+                        <RefreshCw className="h-4 w-4 mr-1" />
+                        Verify
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="icon" onClick={() => setRemoving(item)} data-testid={`button-remove-sso-domain-${item.id}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {!item.verifiedAt && (
+                  <div className="space-y-2">
+                    <CopyField label="TXT record name" value={item.record.name} />
+                    <CopyField label="TXT record value" value={item.record.value} />
+                    {item.lastCheckedAt && (
+                      <p className="text-xs text-muted-foreground">
+                        Record not found at last check, {new Date(item.lastCheckedAt).toLocaleString()}. DNS changes can take a while to propagate.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!removing} onOpenChange={(open) => !open && setRemoving(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove domain?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Users on {removing?.domain} will no longer be sent to your identity provider.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => removing && removeDomain.mutate(removing.id)}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+/**
+ * Bearer tokens the identity provider uses to push users and groups over SCIM 2.0
+ */
+function ScimProvisioningCard() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [issued, setIssued] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<ScimToken | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<ScimToken[]>({
+    queryKey: ["/api/scim-tokens"],
+    queryFn: async () => {
+      const response = await authenticatedRequest("GET", "/api/scim-tokens");
+      return response.json();
+    },
+  });
+
+  const createToken = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/scim-tokens", { name: name.trim() });
+      return response.json();
+    },
+    onSuccess: (data: ScimToken & { token: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scim-tokens"] });
+      setName("");
+      setIssued(data.token);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.data?.message || error.message || "Failed to create SCIM token.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeToken = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/scim-tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scim-tokens"] });
+      toast({ title: "Token revoked", description: "The identity provider can no longer provision with this token." });
+      setRevoking(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.data?.message || error.message || "Failed to revoke SCIM token.",
+        variant: "destructive",
+      });
+      setRevoking(null);
+    },
+  });
+
+  const activeTokens = tokens.filter((token) => !token.revokedAt);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>SCIM Provisioning</CardTitle>
+        <CardDescription>
+          Let your identity provider create, update and deactivate users in real time. Deactivated users are offboarded automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <CopyField label="SCIM base URL" value={`${window.location.origin}/scim/v2`} />
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="scim-token-name">New token</Label>
+            <Input
+              id="scim-token-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Okta provisioning"
+              data-testid="input-scim-token-name"
+            />
+          </div>
+          <Button onClick={() => createToken.mutate()} disabled={createToken.isPending || !name.trim()} data-testid="button-create-scim-token">
+            {createToken.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Generate Token
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin mx-auto text-muted-foreground" />
+        ) : activeTokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No active SCIM tokens.</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {activeTokens.map((token) => (
+              <div key={token.id} className="flex items-center justify-between p-3" data-testid={`row-scim-token-${token.id}`}>
+                <div>
+                  <p className="text-sm font-medium">{token.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    <code>{token.tokenPrefix}...</code>
+                    {" · "}
+                    {token.lastUsedAt ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}` : "Never used"}
+                    {token.expiresAt && ` · Expires ${new Date(token.expiresAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => setRevoking(token)} data-testid={`button-revoke-scim-token-${token.id}`}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!issued} onOpenChange={(isOpen) => !isOpen && setIssued(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>SCIM token created</DialogTitle>
+            <DialogDescription>
+              Copy this token into your identity provider's provisioning settings now. It will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          {issued && <CopyField label="Bearer token" value={issued} />}
+          <DialogFooter>
+            <Button onClick={() => setIssued(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!revoking} onOpenChange={(open) => !open && setRevoking(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke SCIM token?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Provisioning through {revoking?.name} stops immediately. Existing users are not changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => revoking && revokeToken.mutate(revoking.id)}>Revoke</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+export default function SsoSettings() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<SsoConnection | null>(null);
+  const [deleting, setDeleting] = useState<SsoConnection | null>(null);
+
+  const { data: connections = [], isLoading } = useQuery<SsoConnection[]>({
+    queryKey: ["/api/sso/connections"],
+    queryFn: async () => {
+      const response = await authenticatedRequest("GET", "/api/sso/connections");
+      return response.json();
+    },
+  });
+
+  const { data: settings } = useQuery<{ ssoOnly: boolean }>({
+    queryKey: ["/api/sso/settings"],
+    queryFn: async () => {
+      const response = await authenticatedRequest("GET", "/api/sso/settings");
+      return response.json();
+    },
+  });
+
+  const updateSettings = useMutation({
+    mutationFn: async (ssoOnly: boolean) => {
+      const response = await apiRequest("PATCH", "/api/sso/settings", { ssoOnly });
+      return response.json();
+    },
+    onSuccess: (data: { ssoOnly: boolean }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sso/settings"] });
+      toast({
+        title: data.ssoOnly ? "SSO required" : "Password sign-in allowed",
+        description: data.ssoOnly
+          ? "Users must now sign in through single sign-on. Super admins can still use a password."
+          : "Users can sign in with a password or single sign-on.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.data?.message || error.message || "Failed to update SSO settings.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteConnection = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/sso/connections/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sso/connections"] });
+      toast({ title: "Connection deleted", description: "The SSO connection has been removed." });
+      setDeleting(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.data?.message || error.message || "Failed to delete SSO connection.",
+        variant: "destructive",
+      });
+      setDeleting(null);
+    },
+  });
+
+  const openEditor = async (connection: SsoConnection | null) => {
+    if (!connection) {
+      setEditing(null);
+      setDialogOpen(true);
+      return;
+    }
+    try {
+      // The detail view includes the service provider URLs to register with the IdP
+      const response = await authenticatedRequest("GET", `/api/sso/connections/${connection.id}`);
+      setEditing(await response.json());
+      setDialogOpen(true);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to load connection.", variant: "destructive" });
+    }
+  };
+
+  if (user?.role !== "admin" && user?.role !== "super-admin") {
+    return (
+      <div className="flex h-screen bg-background">
+        <Sidebar />
+        <main className="flex-1 md:ml-64 flex items-center justify-center p-6">
+          <Card className="max-w-md text-center">
+            <CardHeader>
+              <CardTitle>Access Restricted</CardTitle>
+              <CardDescription>Only administrators can manage single sign-on.</CardDescription>
+            </CardHeader>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  const hasEnabledConnection = connections.some((connection) => connection.enabled);
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar />
+      <main className="flex-1 md:ml-64 overflow-auto">
+        <TopBar
+          title="Single Sign-On"
+          description="Sign in to the platform with SAML 2.0 or OpenID Connect"
+          showAddButton
+          addButtonText="Add Connection"
+          onAddClick={() => openEditor(null)}
+        />
+        <div className="p-6 space-y-6 max-w-5xl">
+          <Card>
+            <CardHeader>
+              <CardTitle>Require SSO</CardTitle>
+              <CardDescription>
+                Turn off password sign-in for everyone in your organization. Super admins keep password access for emergencies.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                {hasEnabledConnection
+                  ? "Users are redirected to your identity provider when they try to sign in with a password."
+                  : "Enable at least one connection before requiring SSO."}
+              </p>
+              <Switch
+                checked={!!settings?.ssoOnly}
+                disabled={updateSettings.isPending || (!settings?.ssoOnly && !hasEnabledConnection)}
+                onCheckedChange={(checked) => updateSettings.mutate(checked)}
+                data-testid="switch-sso-only"
+              />
+            </CardContent>
+          </Card>
+
+          {isLoading ? (
+            <div className="text-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin mx-auto text-muted-foreground" />
+            </div>
+          ) : connections.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-8">
+                <KeyRound className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                <h3 className="text-lg font-medium mb-2">No SSO connections</h3>
+                <p className="text-muted-foreground mb-4">Connect Okta, Entra ID, Google Workspace or any SAML / OIDC identity provider.</p>
+                <Button onClick={() => openEditor(null)}>Add Connection</Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              {connections.map((connection) => (
+                <Card key={connection.id} data-testid={`card-sso-connection-${connection.id}`}>
+                  <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                    <div>
+                      <CardTitle className="text-base">{connection.name}</CardTitle>
+                      <CardDescription>{(connection.emailDomains || []).join(", ") || "No email domains"}</CardDescription>
+                    </div>
+                    <div className="flex gap-2">
+                      <Badge variant="outline">{connection.protocol === "saml" ? "SAML 2.0" : "OIDC"}</Badge>
+                      <Badge variant={connection.enabled ? "default" : "secondary"}>
+                        {connection.enabled ? "Enabled" : "Disabled"}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="flex items-center justify-between">
+                    <p className="text-xs text-muted-foreground">
+                      {connection.lastLoginAt
+                        ? `Last sign-in ${new Date(connection.lastLoginAt).toLocaleString()}`
+                        : "No sign-ins yet"}
+                    </p>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => openEditor(connection)} data-testid={`button-edit-sso-${connection.id}`}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setDeleting(connection)} data-testid={`button-delete-sso-${connection.id}`}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          <VerifiedDomainsCard />
+
+          <ScimProvisioningCard />
+        </div>
+      </main>
+
+      <ConnectionDialog
+        open={dialogOpen}
+        connection={editing}
+        onClose={() => {
+          setDialogOpen(false);
+          setEditing(null);
+        }}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete SSO connection?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Users who sign in through {deleting?.name} will need another connection or a password to sign in.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleting && deleteConnection.mutate(deleting.id)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -67,6 +67,7 @@ interface UserActionsProps {
   currentUser?: { id: string; role: string } | null;
   onEditRole: (user: TeamMember) => void;
   onToggleStatus: (user: TeamMember) => void;
+  onResetMfa: (user: TeamMember) => void;
 }
 
 export default function Users() {
@@ -212,6 +213,27 @@ export default function Users() {
     },
   });
 
+  // Reset MFA mutation (lost authenticator app)
+  const resetMfaMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await authenticatedRequest("POST", `/api/mfa/users/${userId}/reset`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Two-factor authentication reset",
+        description: "The user can set up a new authenticator app at their next sign in.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to reset two-factor authentication",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Bulk upload mutations
   const validateBulkUploadMutation = useMutation({
     mutationFn: async (file: File) => {
@@ -644,6 +666,7 @@ export default function Users() {
                                 currentUser={currentUser}
                                 onEditRole={handleEditRole}
                                 onToggleStatus={handleToggleStatus}
+                                onResetMfa={(user) => resetMfaMutation.mutate(user.id)}
                               />
                             </div>
                           </div>
@@ -965,7 +988,7 @@ export default function Users() {
   );
 }
 
-function UserActions({ member, currentUser, onEditRole, onToggleStatus }: UserActionsProps) {
+function UserActions({ member, currentUser, onEditRole, onToggleStatus, onResetMfa }: UserActionsProps) {
   const currentRole = currentUser?.role ?? "";
   const isSelf = currentUser?.id === member.id;
   const canManage =
@@ -988,6 +1011,12 @@ function UserActions({ member, currentUser, onEditRole, onToggleStatus }: UserAc
     onToggleStatus(member);
   };
 
+  const handleResetMfaClick = (event: ReactMouseEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    onResetMfa(member);
+  };
+
   return (
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
@@ -1010,6 +1039,13 @@ function UserActions({ member, currentUser, onEditRole, onToggleStatus }: UserAc
         >
           Edit Role
         </DropdownMenuItem>
+        <DropdownMenuItem
+          onClick={handleResetMfaClick}
+          disabled={isSelf}
+          data-testid={`user-actions-reset-mfa-${member.id}`}
+        >
+          Reset 2FA
+        </DropdownMenuItem>
         <DropdownMenuSeparator />
         <DropdownMenuItem
           onClick={handleStatusClick}
@@ -0,0 +1,40 @@
+-- Migration: Add durable event outbox for the policy EventSystem
+-- Every emitted event is persisted once in event_outbox; event_deliveries tracks
+-- at-least-once delivery to each consumer with exponential retry and dead-lettering
+
+CREATE TABLE IF NOT EXISTS event_outbox (
+    id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id VARCHAR(255) NOT NULL,
+    event_name TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_outbox_tenant ON event_outbox(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_event_outbox_event_name ON event_outbox(tenant_id, event_name);
+CREATE INDEX IF NOT EXISTS idx_event_outbox_created ON event_outbox(created_at);
+
+CREATE TABLE IF NOT EXISTS event_deliveries (
+    id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id VARCHAR(255) NOT NULL,
+    event_id VARCHAR(255) NOT NULL REFERENCES event_outbox(id) ON DELETE CASCADE,
+    event_name TEXT NOT NULL,
+    consumer TEXT NOT NULL,
+
+    -- Delivery state: pending, processing, delivered, failed, dead_letter
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 8,
+    next_attempt_at TIMESTAMP DEFAULT NOW(),
+    locked_at TIMESTAMP,
+    last_error TEXT,
+    delivered_at TIMESTAMP,
+    dead_lettered_at TIMESTAMP,
+
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_deliveries_tenant_status ON event_deliveries(tenant_id, status);
+CREATE INDEX IF NOT EXISTS idx_event_deliveries_due ON event_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_event_deliveries_event ON event_deliveries(event_id);
@@ -0,0 +1,56 @@
+-- Migration: Add MFA factors and step-up challenges
+-- Description: TOTP/WebAuthn factors enrolled per user, single-use challenges for
+--              step-up verification, and MFA outcome columns on JIT sessions
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS user_mfa_factors (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  user_id VARCHAR NOT NULL,
+  type TEXT NOT NULL, -- 'totp', 'webauthn'
+  name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'active'
+
+  -- TOTP
+  secret_encrypted TEXT,
+  last_used_step INTEGER,
+
+  -- WebAuthn
+  credential_id TEXT,
+  public_key TEXT,
+  sign_count INTEGER DEFAULT 0,
+  transports JSONB,
+
+  verified_at TIMESTAMP,
+  last_used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_factors_user ON user_mfa_factors(tenant_id, user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mfa_factors_credential ON user_mfa_factors(credential_id);
+
+CREATE TABLE IF NOT EXISTS mfa_challenges (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  user_id VARCHAR NOT NULL,
+  purpose TEXT NOT NULL, -- 'jit_activation', 'webauthn_registration'
+  resource_id VARCHAR,
+  challenge TEXT NOT NULL,
+  failed_attempts INTEGER DEFAULT 0,
+  expires_at TIMESTAMP NOT NULL,
+  consumed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_challenges_user ON mfa_challenges(tenant_id, user_id, created_at);
+
+ALTER TABLE jit_access_sessions ADD COLUMN IF NOT EXISTS mfa_method TEXT;
+ALTER TABLE jit_access_sessions ADD COLUMN IF NOT EXISTS mfa_factor_id VARCHAR;
+ALTER TABLE jit_access_sessions ADD COLUMN IF NOT EXISTS mfa_failed_attempts INTEGER DEFAULT 0;
+ALTER TABLE jit_access_sessions ADD COLUMN IF NOT EXISTS mfa_last_failed_at TIMESTAMP;
+
+COMMENT ON TABLE user_mfa_factors IS 'Second factors (TOTP secrets, WebAuthn credentials) enrolled by users';
+COMMENT ON COLUMN user_mfa_factors.secret_encrypted IS 'TOTP shared secret, encrypted with ENCRYPTION_KEY';
+COMMENT ON COLUMN user_mfa_factors.last_used_step IS 'Last accepted TOTP time step; codes at or before it are rejected as replays';
+COMMENT ON TABLE mfa_challenges IS 'Single-use MFA challenges for step-up verification and WebAuthn registration';
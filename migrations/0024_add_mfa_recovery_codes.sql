@@ -0,0 +1,14 @@
+-- Migration: Add MFA recovery codes
+-- Description: One-time backup codes for login MFA, stored as SHA-256 hashes
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  user_id VARCHAR NOT NULL,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user ON mfa_recovery_codes(tenant_id, user_id);
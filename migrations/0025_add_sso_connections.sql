@@ -0,0 +1,81 @@
+-- Migration: Add SAML 2.0 / OIDC single sign-on
+-- Description: Per-tenant SSO connections for logging into the platform, IdP subject
+--              bindings for JIT-provisioned users, pending SP-initiated login requests,
+--              and the tenant-level "SSO only" switch
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS sso_connections (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  name TEXT NOT NULL,
+  protocol TEXT NOT NULL, -- 'saml', 'oidc'
+  enabled BOOLEAN DEFAULT false,
+  identity_provider_id VARCHAR,
+  email_domains JSONB DEFAULT '[]',
+
+  -- SAML 2.0
+  saml_entry_point TEXT,
+  saml_idp_issuer TEXT,
+  saml_idp_certificate TEXT,
+
+  -- OIDC
+  oidc_issuer TEXT,
+  oidc_client_id TEXT,
+  oidc_client_secret TEXT, -- encrypted
+  oidc_scopes JSONB,
+
+  -- Claim / attribute mapping
+  email_attribute TEXT,
+  first_name_attribute TEXT,
+  last_name_attribute TEXT,
+  groups_attribute TEXT,
+
+  -- Provisioning
+  jit_provisioning BOOLEAN DEFAULT true,
+  default_role TEXT NOT NULL DEFAULT 'technician',
+  role_mappings JSONB DEFAULT '[]',
+
+  last_login_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sso_connections_tenant ON sso_connections(tenant_id, enabled);
+
+CREATE TABLE IF NOT EXISTS user_sso_identities (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  user_id VARCHAR NOT NULL,
+  connection_id VARCHAR NOT NULL,
+  subject TEXT NOT NULL, -- SAML NameID / OIDC sub
+  email TEXT,
+  groups JSONB,
+  last_login_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_user_sso_identities_subject ON user_sso_identities(connection_id, subject);
+CREATE INDEX IF NOT EXISTS idx_user_sso_identities_user ON user_sso_identities(tenant_id, user_id);
+
+CREATE TABLE IF NOT EXISTS sso_login_requests (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  connection_id VARCHAR NOT NULL,
+  protocol TEXT NOT NULL,
+  state TEXT,
+  nonce TEXT,
+  code_verifier TEXT,
+  saml_request_id TEXT,
+  return_to TEXT,
+  user_id VARCHAR,
+  login_code_hash TEXT,
+  expires_at TIMESTAMP NOT NULL,
+  completed_at TIMESTAMP,
+  consumed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sso_login_requests_state ON sso_login_requests(state);
+CREATE INDEX IF NOT EXISTS idx_sso_login_requests_login_code ON sso_login_requests(login_code_hash);
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS sso_only BOOLEAN DEFAULT false;
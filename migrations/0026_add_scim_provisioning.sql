@@ -0,0 +1,44 @@
+-- Migration: Add SCIM 2.0 provisioning
+-- Description: Per-tenant SCIM bearer tokens, IdP-pushed groups and memberships,
+--              and the provisioning client's externalId on users
+-- Date: 2026-10-19
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS external_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_users_tenant_external_id ON users(tenant_id, external_id);
+
+CREATE TABLE IF NOT EXISTS scim_tokens (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE, -- SHA-256; plaintext is shown once
+  token_prefix TEXT NOT NULL,
+  created_by VARCHAR NOT NULL,
+  last_used_at TIMESTAMP,
+  expires_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scim_tokens_tenant ON scim_tokens(tenant_id);
+
+CREATE TABLE IF NOT EXISTS scim_groups (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  display_name TEXT NOT NULL,
+  external_id TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_scim_groups_display_name ON scim_groups(tenant_id, display_name);
+
+CREATE TABLE IF NOT EXISTS scim_group_members (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  group_id VARCHAR NOT NULL,
+  user_id VARCHAR NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_scim_group_members ON scim_group_members(group_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_scim_group_members_user ON scim_group_members(tenant_id, user_id);
@@ -0,0 +1,42 @@
+-- Migration: Add ticket SLA policies
+-- Description: Tenant SLA policies keyed by category/priority with business-hours
+--              calendars, and per-ticket response/resolution clocks
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS ticket_sla_policies (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  category TEXT, -- NULL = any category
+  priority TEXT, -- NULL = any priority
+  response_minutes INTEGER NOT NULL,
+  resolution_minutes INTEGER NOT NULL,
+  warning_threshold_percent INTEGER NOT NULL DEFAULT 75,
+  business_hours JSONB, -- { days: [1..5], start: "09:00", end: "17:00" }; NULL = 24x7
+  timezone TEXT DEFAULT 'UTC',
+  escalation_action TEXT NOT NULL DEFAULT 'escalate_manager', -- none, reassign, escalate_manager
+  escalate_to_id VARCHAR,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_by VARCHAR,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_sla_policies_tenant ON ticket_sla_policies(tenant_id);
+
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS site_id VARCHAR;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS sla_policy_id VARCHAR;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS sla_status TEXT;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS first_response_at TIMESTAMP;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS response_due_at TIMESTAMP;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS resolution_due_at TIMESTAMP;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS response_warning_at TIMESTAMP;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS resolution_warning_at TIMESTAMP;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS response_breached_at TIMESTAMP;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS resolution_breached_at TIMESTAMP;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS sla_paused_at TIMESTAMP;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS sla_paused_minutes INTEGER DEFAULT 0;
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_sla_status ON tickets(tenant_id, sla_status);
@@ -0,0 +1,47 @@
+-- Migration: Add agent check-in and command queue
+-- Description: Per-device agent credentials issued at enrollment, check-in state,
+--              and a pull-based command queue delivered on check-in
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS agent_devices (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  asset_id VARCHAR NOT NULL,
+  hostname TEXT NOT NULL,
+  serial_number TEXT,
+  credential_hash TEXT NOT NULL UNIQUE, -- SHA-256; plaintext is returned once at enrollment
+  credential_prefix TEXT NOT NULL,
+  platform TEXT,
+  agent_version TEXT,
+  check_in_interval_seconds INTEGER NOT NULL DEFAULT 3600,
+  last_check_in_at TIMESTAMP,
+  last_ip TEXT,
+  last_inventory_at TIMESTAMP,
+  inventory_hashes JSONB,
+  status TEXT NOT NULL DEFAULT 'active', -- active, revoked
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_devices_tenant ON agent_devices(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_agent_devices_asset ON agent_devices(tenant_id, asset_id);
+
+CREATE TABLE IF NOT EXISTS agent_commands (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  agent_device_id VARCHAR NOT NULL,
+  asset_id VARCHAR NOT NULL,
+  command_type TEXT NOT NULL, -- reinventory, uninstall_package
+  payload JSONB,
+  status TEXT NOT NULL DEFAULT 'pending', -- pending, delivered, succeeded, failed, cancelled, expired
+  result JSONB,
+  issued_by VARCHAR NOT NULL,
+  delivered_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  expires_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_commands_device_status ON agent_commands(agent_device_id, status);
+CREATE INDEX IF NOT EXISTS idx_agent_commands_tenant ON agent_commands(tenant_id);
@@ -0,0 +1,12 @@
+-- Migration: Add server-side network scan jobs
+-- Description: Discovery jobs can now be run by the server (SNMP v2c/v3 and TCP port
+--              fingerprinting of a site's network ranges) instead of a downloaded scanner
+-- Date: 2026-10-19
+
+ALTER TABLE discovery_jobs
+ADD COLUMN IF NOT EXISTS scan_mode TEXT NOT NULL DEFAULT 'agent',
+ADD COLUMN IF NOT EXISTS credential_profile_ids JSONB,
+ADD COLUMN IF NOT EXISTS scan_options JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_discovery_jobs_tenant_status ON discovery_jobs(tenant_id, status);
+CREATE INDEX IF NOT EXISTS idx_discovered_devices_job ON discovered_devices(tenant_id, job_id);
@@ -0,0 +1,58 @@
+-- Migration: Add asset lifecycle and custody history
+-- Description: Enforced hardware lifecycle (ordered → received → in-stock → deployed →
+--              in-repair → retired → disposed), check-out/check-in custody periods with
+--              expected-return dates and overdue reminders, and the asset timeline
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS asset_custody_records (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  asset_id VARCHAR NOT NULL,
+  user_id VARCHAR,
+  user_name TEXT,
+  user_email TEXT,
+  user_employee_id TEXT,
+  checked_out_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  checked_out_by VARCHAR,
+  expected_return_at TIMESTAMP, -- NULL = open-ended assignment
+  check_out_notes TEXT,
+  checked_in_at TIMESTAMP, -- NULL = still with the custodian
+  checked_in_by VARCHAR,
+  return_condition TEXT, -- good, damaged, lost
+  check_in_notes TEXT,
+  last_reminder_at TIMESTAMP,
+  reminder_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_custody_asset ON asset_custody_records(tenant_id, asset_id, checked_out_at);
+CREATE INDEX IF NOT EXISTS idx_asset_custody_user ON asset_custody_records(tenant_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_asset_custody_open ON asset_custody_records(checked_in_at, expected_return_at);
+
+CREATE TABLE IF NOT EXISTS asset_lifecycle_events (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  asset_id VARCHAR NOT NULL,
+  event_type TEXT NOT NULL, -- created, status_changed, checked_out, checked_in, reassigned, overdue_reminder
+  from_status TEXT,
+  to_status TEXT,
+  custody_record_id VARCHAR,
+  description TEXT NOT NULL,
+  metadata JSONB,
+  actor_id VARCHAR,
+  actor_name TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_lifecycle_events_asset ON asset_lifecycle_events(tenant_id, asset_id, created_at);
+
+-- Seed custody history with each currently assigned asset's open period
+INSERT INTO asset_custody_records (tenant_id, asset_id, user_id, user_name, user_email, user_employee_id, checked_out_at, check_out_notes)
+SELECT a.tenant_id, a.id, a.assigned_user_id, a.assigned_user_name, a.assigned_user_email, a.assigned_user_employee_id,
+       COALESCE(a.updated_at, a.created_at, NOW()), 'Assignment recorded before custody history was tracked'
+FROM assets a
+WHERE a.assigned_user_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM asset_custody_records c
+    WHERE c.asset_id = a.id AND c.checked_in_at IS NULL
+  );
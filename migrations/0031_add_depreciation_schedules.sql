@@ -0,0 +1,22 @@
+-- Migration: Add depreciation schedules
+-- Description: Per-category depreciation rules (straight-line or declining balance,
+--              useful life and salvage value) used to compute asset book value and
+--              the fixed-asset depreciation register
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS depreciation_schedules (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  name TEXT NOT NULL,
+  category TEXT, -- matches assets.category case-insensitively; NULL = tenant default
+  method TEXT NOT NULL DEFAULT 'straight_line', -- straight_line, declining_balance
+  useful_life_months INTEGER NOT NULL,
+  salvage_percent DECIMAL(5, 2) NOT NULL DEFAULT 0, -- % of cost
+  declining_rate DECIMAL(4, 2), -- multiple of the straight-line rate, e.g. 2.00 = double-declining
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_depreciation_schedules_tenant_category
+  ON depreciation_schedules(tenant_id, category);
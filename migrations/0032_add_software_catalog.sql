@@ -0,0 +1,43 @@
+-- Migration: Add software normalization catalog and license position inputs
+-- Description: Canonical software products/editions with normalization rules that map raw
+--              install strings and publishers to them, product links on discovered software
+--              assets and license entitlements, and license metrics (per device/user/core)
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS software_products (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  name TEXT NOT NULL,
+  publisher TEXT,
+  edition TEXT, -- NULL = single-edition product
+  category TEXT,
+  license_metric TEXT NOT NULL DEFAULT 'per_device', -- per_device, per_user, per_core
+  min_cores_per_device INTEGER,
+  saas_app_id VARCHAR, -- Active contracts for this app count as entitlements
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_software_products_tenant_name ON software_products(tenant_id, name);
+
+CREATE TABLE IF NOT EXISTS software_normalization_rules (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  product_id VARCHAR NOT NULL,
+  match_type TEXT NOT NULL DEFAULT 'prefix', -- exact, prefix, contains, regex
+  pattern TEXT NOT NULL,
+  publisher_pattern TEXT,
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_software_normalization_rules_tenant ON software_normalization_rules(tenant_id, product_id);
+
+ALTER TABLE assets ADD COLUMN IF NOT EXISTS software_product_id VARCHAR;
+CREATE INDEX IF NOT EXISTS idx_assets_software_product ON assets(tenant_id, software_product_id);
+
+ALTER TABLE software_licenses ADD COLUMN IF NOT EXISTS product_id VARCHAR;
+ALTER TABLE software_licenses ADD COLUMN IF NOT EXISTS license_metric TEXT; -- NULL = the product's metric
@@ -0,0 +1,14 @@
+-- Migration: Add asset tag numbering
+-- Description: Tenant-configurable asset tag sequence (prefix, zero padding, next number) and
+--              a printed tag identifier on assets, unique per tenant, used by QR/Code128 labels
+--              and the scan page
+-- Date: 2026-10-19
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS asset_tag_prefix TEXT NOT NULL DEFAULT 'AST-';
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS asset_tag_padding INTEGER NOT NULL DEFAULT 6;
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS asset_tag_next_number INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE assets ADD COLUMN IF NOT EXISTS asset_tag TEXT;
+
+-- Existing assets stay untagged until tags are assigned or labels are printed
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_assets_tenant_asset_tag ON assets(tenant_id, asset_tag);
@@ -0,0 +1,56 @@
+-- Migration: Add physical inventory audits
+-- Description: Audit campaigns scoped to a site or free-text location. The assets registered
+--              there are snapshotted as expected items; scans are recorded as found,
+--              wrong_location or unexpected, and unconfirmed expected assets become missing
+--              when the audit closes
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS inventory_audits (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  name TEXT NOT NULL,
+  site_id VARCHAR, -- NULL when scoped to a free-text location
+  location TEXT NOT NULL, -- asset location audited (the site's name for site audits)
+  status TEXT NOT NULL DEFAULT 'open', -- open, closed, cancelled
+  notes TEXT,
+  created_by VARCHAR,
+  created_by_name TEXT,
+  closed_at TIMESTAMP,
+  closed_by VARCHAR,
+  closed_by_name TEXT,
+  close_options JSONB, -- bulk actions chosen at close
+  summary JSONB, -- variance counts frozen at close
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_audits_tenant_status
+  ON inventory_audits(tenant_id, status);
+
+CREATE TABLE IF NOT EXISTS inventory_audit_items (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  audit_id VARCHAR NOT NULL,
+  asset_id VARCHAR, -- NULL for codes that match no asset
+  asset_name TEXT,
+  asset_tag TEXT,
+  serial_number TEXT,
+  expected BOOLEAN NOT NULL DEFAULT FALSE,
+  registered_location TEXT,
+  result TEXT NOT NULL DEFAULT 'pending', -- pending, found, missing, wrong_location, unexpected
+  scanned_code TEXT,
+  scanned_at TIMESTAMP,
+  scanned_by VARCHAR,
+  scanned_by_name TEXT,
+  notes TEXT,
+  resolution JSONB, -- changes applied at close: status, location, ticket
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_audit_items_audit
+  ON inventory_audit_items(tenant_id, audit_id);
+
+-- One row per asset per audit; unknown codes (NULL asset_id) may repeat
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_inventory_audit_items_audit_asset
+  ON inventory_audit_items(audit_id, asset_id);
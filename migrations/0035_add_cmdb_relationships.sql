@@ -0,0 +1,43 @@
+-- Migration: Add CMDB business services and configuration item relationships
+-- Description: Business services plus typed, directed relationships between assets, SaaS apps,
+--              sites, users and services (runs_on, depends_on, connected_to, backs_up, owned_by)
+--              used for upstream/downstream impact. Tickets keep a snapshot of the services
+--              affected by their asset when raised.
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS business_services (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  criticality TEXT NOT NULL DEFAULT 'medium', -- low, medium, high, critical
+  owner_id VARCHAR,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_business_services_tenant_name
+  ON business_services(tenant_id, name);
+
+CREATE TABLE IF NOT EXISTS ci_relationships (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  source_type TEXT NOT NULL, -- asset, saas_app, site, user, service
+  source_id VARCHAR NOT NULL,
+  target_type TEXT NOT NULL,
+  target_id VARCHAR NOT NULL,
+  relationship_type TEXT NOT NULL, -- source runs_on / depends_on / connected_to / backs_up / owned_by target
+  notes TEXT,
+  created_by VARCHAR,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ci_relationships_source
+  ON ci_relationships(tenant_id, source_type, source_id);
+CREATE INDEX IF NOT EXISTS idx_ci_relationships_target
+  ON ci_relationships(tenant_id, target_type, target_id);
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_ci_relationships_edge
+  ON ci_relationships(tenant_id, source_type, source_id, target_type, target_id, relationship_type);
+
+ALTER TABLE tickets ADD COLUMN IF NOT EXISTS impacted_services JSONB;
@@ -0,0 +1,28 @@
+-- Migration: Add hardware warranty and AMC expiry alerts
+-- Description: Per-tenant lead times (days before expiry) for warranty/AMC alerts, and the alerts
+--              raised for each asset, coverage type, expiry date and lead time reached. Renewing
+--              coverage moves the asset to a new expiry date, so alerting starts over.
+-- Date: 2026-10-19
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS coverage_alerts_enabled BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS coverage_alert_days INTEGER[] NOT NULL DEFAULT '{90,60,30,7}';
+
+CREATE TABLE IF NOT EXISTS coverage_alerts (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  asset_id VARCHAR NOT NULL,
+  coverage_type TEXT NOT NULL, -- warranty, amc
+  expires_at TIMESTAMP NOT NULL,
+  lead_days INTEGER NOT NULL, -- 0 once coverage has lapsed
+  vendor TEXT,
+  status TEXT NOT NULL DEFAULT 'open', -- open, acknowledged, renewed
+  acknowledged_by VARCHAR,
+  acknowledged_at TIMESTAMP,
+  resolved_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_coverage_alerts_tenant_status
+  ON coverage_alerts(tenant_id, status);
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_coverage_alerts_asset_lead
+  ON coverage_alerts(asset_id, coverage_type, expires_at, lead_days);
@@ -0,0 +1,40 @@
+-- Migration: Add entitlement catalog and entitlement-set SoD rules
+-- Description: Catalog of app roles, permissions and directory groups harvested from IdP discovery,
+--              and SoD rules expressed as a set of entitlements with a minimum-match count (e.g.
+--              "create vendor" + "approve payment" in the same ERP, or any two of three across apps).
+--              Pairwise rules keep their app columns; entitlement-set rules leave them empty, so the
+--              columns become nullable. Violations record exactly which entitlements collided.
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS app_entitlements (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  app_id VARCHAR,
+  entitlement_type TEXT NOT NULL,
+  value TEXT NOT NULL,
+  display_name TEXT,
+  description TEXT,
+  source TEXT NOT NULL DEFAULT 'manual',
+  last_seen_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_app_entitlements_tenant_app ON app_entitlements(tenant_id, app_id);
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_app_entitlements ON app_entitlements(tenant_id, app_id, entitlement_type, value);
+-- Directory groups have no app_id, and NULLs never collide in the index above
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_app_entitlements_groups ON app_entitlements(tenant_id, entitlement_type, value) WHERE app_id IS NULL;
+
+ALTER TABLE sod_rules ADD COLUMN IF NOT EXISTS rule_type TEXT NOT NULL DEFAULT 'app_pair';
+ALTER TABLE sod_rules ADD COLUMN IF NOT EXISTS entitlements JSONB;
+ALTER TABLE sod_rules ADD COLUMN IF NOT EXISTS min_match INTEGER;
+ALTER TABLE sod_rules ALTER COLUMN app_id_1 DROP NOT NULL;
+ALTER TABLE sod_rules ALTER COLUMN app_name_1 DROP NOT NULL;
+ALTER TABLE sod_rules ALTER COLUMN app_id_2 DROP NOT NULL;
+ALTER TABLE sod_rules ALTER COLUMN app_name_2 DROP NOT NULL;
+
+ALTER TABLE sod_violations ADD COLUMN IF NOT EXISTS matched_entitlements JSONB;
+ALTER TABLE sod_violations ALTER COLUMN app_1_id DROP NOT NULL;
+ALTER TABLE sod_violations ALTER COLUMN app_1_name DROP NOT NULL;
+ALTER TABLE sod_violations ALTER COLUMN app_2_id DROP NOT NULL;
+ALTER TABLE sod_violations ALTER COLUMN app_2_name DROP NOT NULL;
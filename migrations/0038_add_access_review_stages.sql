@@ -0,0 +1,29 @@
+-- Migration: Add multi-stage, delegated access review campaigns
+-- Description: Campaigns get an ordered list of certification stages (manager, app owner, specific
+--              reviewers such as security for high-risk items), each with its own reviewer resolution
+--              and due date. Items track their current stage and a trail of assignments, delegations,
+--              reassignments and decisions. Reviewers can delegate their reviews for a period.
+-- Date: 2026-10-19
+
+ALTER TABLE access_review_campaigns ADD COLUMN IF NOT EXISTS stages JSONB;
+ALTER TABLE access_review_campaigns ADD COLUMN IF NOT EXISTS fallback_reviewer_id VARCHAR;
+
+ALTER TABLE access_review_items ADD COLUMN IF NOT EXISTS current_stage INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE access_review_items ADD COLUMN IF NOT EXISTS stage_name TEXT;
+ALTER TABLE access_review_items ADD COLUMN IF NOT EXISTS stage_due_at TIMESTAMP;
+ALTER TABLE access_review_items ADD COLUMN IF NOT EXISTS stage_trail JSONB;
+
+CREATE TABLE IF NOT EXISTS access_review_delegations (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  delegator_id VARCHAR NOT NULL,
+  delegate_id VARCHAR NOT NULL,
+  starts_at TIMESTAMP NOT NULL,
+  ends_at TIMESTAMP NOT NULL,
+  reason TEXT,
+  created_by VARCHAR NOT NULL,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_access_review_delegations_delegator ON access_review_delegations(tenant_id, delegator_id);
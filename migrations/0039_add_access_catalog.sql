@@ -0,0 +1,36 @@
+-- Migration: Add requestable access catalog
+-- Description: Catalog of apps, app roles and bundles users can request, each with its own approval
+--              chain (manager, app owner, security above a risk threshold), time-bound duration limits
+--              and IdP provisioning target. Access requests record the grants they expand to, the state
+--              of each approval step and the fulfilment ticket raised when no connector could provision.
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS access_catalog_items (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  item_type TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  app_id VARCHAR,
+  access_type TEXT NOT NULL DEFAULT 'member',
+  role_name TEXT,
+  bundle_item_ids JSONB,
+  approval_chain JSONB,
+  provisioning JSONB,
+  max_duration_hours INTEGER,
+  default_duration_hours INTEGER,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_by VARCHAR NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_access_catalog_items_tenant ON access_catalog_items(tenant_id, is_active);
+
+ALTER TABLE access_requests ADD COLUMN IF NOT EXISTS catalog_item_id VARCHAR;
+ALTER TABLE access_requests ADD COLUMN IF NOT EXISTS grants JSONB;
+ALTER TABLE access_requests ADD COLUMN IF NOT EXISTS approval_steps JSONB;
+ALTER TABLE access_requests ADD COLUMN IF NOT EXISTS current_step INTEGER DEFAULT 0;
+ALTER TABLE access_requests ADD COLUMN IF NOT EXISTS fulfilment_ticket_id VARCHAR;
+ALTER TABLE access_requests ADD COLUMN IF NOT EXISTS fulfilment_ticket_number TEXT;
+ALTER TABLE access_requests ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP;
@@ -0,0 +1,58 @@
+-- Migration: Add break-glass emergency access
+-- Description: Emergency accounts whose credentials are stored encrypted and released only after a
+--              second person unseals a session. Sessions auto-expire, every use pages the account's
+--              notification channels, and each unsealed session carries a post-incident review that
+--              must be completed before break-glass can be used again.
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS break_glass_accounts (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  name TEXT NOT NULL,
+  system TEXT NOT NULL,
+  username TEXT NOT NULL,
+  description TEXT,
+  credential_encrypted TEXT NOT NULL,
+  credential_rotated_at TIMESTAMP,
+  session_minutes INTEGER NOT NULL DEFAULT 60,
+  page_channel_ids JSONB,
+  page_recipients JSONB,
+  is_active BOOLEAN DEFAULT TRUE,
+  last_used_at TIMESTAMP,
+  created_by VARCHAR NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_break_glass_accounts_tenant ON break_glass_accounts(tenant_id, is_active);
+
+CREATE TABLE IF NOT EXISTS break_glass_sessions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  account_id VARCHAR NOT NULL,
+  account_name TEXT NOT NULL,
+  requested_by VARCHAR NOT NULL,
+  requested_by_name TEXT NOT NULL,
+  justification TEXT NOT NULL,
+  incident_reference TEXT,
+  status TEXT NOT NULL DEFAULT 'pending_unseal',
+  unsealed_by VARCHAR,
+  unsealed_by_name TEXT,
+  unsealed_at TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  credential_view_count INTEGER DEFAULT 0,
+  last_credential_view_at TIMESTAMP,
+  ended_at TIMESTAMP,
+  ended_by VARCHAR,
+  end_reason TEXT,
+  review_status TEXT,
+  reviewed_by VARCHAR,
+  reviewed_by_name TEXT,
+  reviewed_at TIMESTAMP,
+  review_findings TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_break_glass_sessions_tenant ON break_glass_sessions(tenant_id, status);
+CREATE INDEX IF NOT EXISTS idx_break_glass_sessions_review ON break_glass_sessions(tenant_id, review_status);
@@ -0,0 +1,7 @@
+-- Migration: Require an explicit link step for existing accounts signing in through SSO
+-- Description: SSO logins no longer attach an IdP identity to an existing account by email alone.
+--              A signed-in user starts a link login, recorded on the pending login request, and only
+--              that login may bind the IdP identity to their account.
+-- Date: 2026-10-19
+
+ALTER TABLE sso_login_requests ADD COLUMN IF NOT EXISTS link_user_id VARCHAR;
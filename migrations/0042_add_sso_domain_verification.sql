@@ -0,0 +1,19 @@
+-- Migration: Verify SSO email domains through DNS
+-- Description: A tenant proves control of an email domain by publishing a TXT record before the domain
+--              routes SSO discovery or logins to its connections. Domains listed on connections before
+--              this migration stop routing until the tenant verifies them.
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS sso_domains (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL,
+  domain TEXT NOT NULL,
+  verification_token TEXT NOT NULL,
+  verified_at TIMESTAMP,
+  last_checked_at TIMESTAMP,
+  created_by VARCHAR,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sso_domains_tenant ON sso_domains(tenant_id);
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_sso_domains_verified ON sso_domains(domain) WHERE verified_at IS NOT NULL;
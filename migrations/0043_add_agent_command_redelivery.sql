@@ -0,0 +1,7 @@
+-- Migration: Redeliver agent commands that were never reported on
+-- Description: A command handed to an agent stays "delivered" until the agent posts its result. If the agent
+--              crashes first, the command is handed out again after a timeout; delivery_attempts bounds how
+--              often before the command is marked failed.
+-- Date: 2026-10-19
+
+ALTER TABLE agent_commands ADD COLUMN IF NOT EXISTS delivery_attempts INTEGER NOT NULL DEFAULT 0;
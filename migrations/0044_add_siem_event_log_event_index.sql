@@ -0,0 +1,6 @@
+-- Migration: Index SIEM event log by event
+-- Description: The SIEM consumer logs the outbox event ID per integration and, when the event bus retries a
+--              delivery, looks it up to skip integrations that already received the event.
+-- Date: 2026-10-19
+
+CREATE INDEX IF NOT EXISTS idx_siem_event_log_event ON siem_event_log (tenant_id, event_id);
@@ -0,0 +1,133 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import type { AccessRequest } from '@shared/schema';
+import { storage } from '../storage';
+import { NotificationService } from '../services/alerting/notification-service';
+import { AccessRequestService } from '../services/advanced/access-request';
+import {
+  DEFAULT_APPROVAL_CHAIN,
+  buildApprovalSteps,
+  canDecideStep,
+  currentStepIndex,
+  grantDurationHours,
+  provisioningFor,
+} from '../services/advanced/access-approval';
+
+const approvers = [['manager'], ['owner', 'requester'], []];
+
+describe('Access request approval chains', () => {
+  it('should require security review only above the risk threshold or on SoD conflicts', () => {
+    const low = buildApprovalSteps(DEFAULT_APPROVAL_CHAIN, approvers, { requesterId: 'requester', riskScore: 20, hasSodConflicts: false });
+    expect(low.map(step => step.status)).toEqual(['pending', 'pending', 'skipped']);
+
+    const risky = buildApprovalSteps(DEFAULT_APPROVAL_CHAIN, approvers, { requesterId: 'requester', riskScore: 60, hasSodConflicts: false });
+    expect(risky[2].status).toBe('pending');
+
+    const conflicting = buildApprovalSteps(DEFAULT_APPROVAL_CHAIN, approvers, { requesterId: 'requester', riskScore: 20, hasSodConflicts: true });
+    expect(conflicting[2].status).toBe('pending');
+
+    // Requesters never approve their own request
+    expect(low[1].approverIds).toEqual(['owner']);
+  });
+
+  it('should advance through pending steps and only let IT managers override when asked', () => {
+    const steps = buildApprovalSteps(DEFAULT_APPROVAL_CHAIN, approvers, { requesterId: 'requester', riskScore: 60, hasSodConflicts: false });
+    expect(currentStepIndex(steps)).toBe(0);
+    expect(currentStepIndex([{ ...steps[0], status: 'approved' }, { ...steps[1], status: 'approved' }, { ...steps[2], status: 'approved' }])).toBeNull();
+
+    expect(canDecideStep(steps, 0, { id: 'manager', isItManager: false }, 'requester')).toBe('allowed');
+    expect(canDecideStep(steps, 0, { id: 'owner', isItManager: false }, 'requester')).toBe('not_an_approver');
+    expect(canDecideStep(steps, 0, { id: 'it', isItManager: true }, 'requester')).toBe('not_an_approver');
+    expect(canDecideStep(steps, 0, { id: 'it', isItManager: true }, 'requester', true)).toBe('override');
+    expect(canDecideStep(steps, 0, { id: 'requester', isItManager: true }, 'requester', true)).toBe('conflict_of_interest');
+
+    // A step naming no approvers falls to any IT manager
+    expect(canDecideStep(steps, 2, { id: 'it', isItManager: true }, 'requester')).toBe('allowed');
+  });
+
+  it('should never let an override stand in for security review', () => {
+    const steps = buildApprovalSteps(DEFAULT_APPROVAL_CHAIN, [['manager'], ['owner'], ['secops']], { requesterId: 'requester', riskScore: 60, hasSodConflicts: false });
+
+    expect(canDecideStep(steps, 2, { id: 'it', isItManager: true }, 'requester', true)).toBe('not_an_approver');
+    expect(canDecideStep(steps, 2, { id: 'secops', isItManager: false }, 'requester')).toBe('allowed');
+  });
+
+  it('should require a different approver for each step', () => {
+    const steps = buildApprovalSteps(DEFAULT_APPROVAL_CHAIN, [['manager'], ['manager', 'owner'], []], { requesterId: 'requester', riskScore: 60, hasSodConflicts: false });
+    const afterManager = [{ ...steps[0], status: 'approved' as const, decidedBy: 'manager' }, steps[1], steps[2]];
+
+    expect(canDecideStep(afterManager, 1, { id: 'manager', isItManager: false }, 'requester')).toBe('already_decided');
+    expect(canDecideStep(afterManager, 1, { id: 'owner', isItManager: false }, 'requester')).toBe('allowed');
+
+    const afterOverride = [afterManager[0], { ...steps[1], status: 'approved' as const, decidedBy: 'it', overridden: true }, steps[2]];
+    expect(canDecideStep(afterOverride, 2, { id: 'it', isItManager: true }, 'requester')).toBe('already_decided');
+    expect(canDecideStep(afterOverride, 2, { id: 'it-2', isItManager: true }, 'requester')).toBe('allowed');
+  });
+
+  it('should bound grant durations by the catalog item', () => {
+    const item = { maxDurationHours: 72, defaultDurationHours: 24 };
+    expect(grantDurationHours(item)).toEqual({ durationHours: 24 });
+    expect(grantDurationHours(item, 48)).toEqual({ durationHours: 48 });
+    expect(grantDurationHours(item, 96).error).toBeDefined();
+    expect(grantDurationHours({ maxDurationHours: null, defaultDurationHours: null })).toEqual({ durationHours: null });
+  });
+
+  it('should send unconfigured roles to a ticket', () => {
+    expect(provisioningFor({})).toEqual({ method: 'app_assignment' });
+    expect(provisioningFor({ roleName: 'AP_Approver' })).toBeNull();
+    expect(provisioningFor({ roleName: 'AP_Approver', provisioning: { method: 'group', groupId: 'g1' } }))
+      .toEqual({ method: 'group', groupId: 'g1' });
+  });
+
+  describe('Reviewing a request', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    function pendingRequest(): AccessRequest {
+      const steps = buildApprovalSteps(DEFAULT_APPROVAL_CHAIN, [['it'], ['owner'], []], { requesterId: 'requester', riskScore: 60, hasSodConflicts: false });
+      return {
+        id: 'req-1',
+        tenantId: 't1',
+        requesterId: 'requester',
+        requesterName: 'Rae Requester',
+        requesterEmail: 'rae@example.com',
+        appId: 'app-1',
+        appName: 'Figma',
+        accessType: 'member',
+        justification: 'Design reviews',
+        status: 'pending',
+        riskLevel: 'medium',
+        approvalSteps: steps,
+        currentStep: 0,
+      } as AccessRequest;
+    }
+
+    it('should stop the approver of one step from deciding the next', async () => {
+      let request = pendingRequest();
+      const users: Record<string, any> = {
+        it: { id: 'it', tenantId: 't1', firstName: 'Ivy', lastName: 'Tech', email: 'ivy@example.com' },
+        owner: { id: 'owner', tenantId: 't1', firstName: 'Otto', lastName: 'Owner', email: 'otto@example.com' },
+      };
+      jest.spyOn(storage, 'getAccessRequest').mockImplementation(async () => request);
+      jest.spyOn(storage, 'getUser').mockImplementation(async (id) => users[id]);
+      jest.spyOn(storage, 'updateAccessRequest').mockImplementation(async (_id, _tenantId, updates) => {
+        request = { ...request, ...updates } as AccessRequest;
+        return request;
+      });
+      jest.spyOn(NotificationService.prototype, 'sendToRecipients').mockResolvedValue(true);
+      const service = new AccessRequestService('t1');
+
+      await service.reviewRequest({ requestId: 'req-1', decision: 'approved', approverId: 'it', approverIsItManager: true });
+      expect(request.currentStep).toBe(1);
+
+      await expect(service.reviewRequest({ requestId: 'req-1', decision: 'approved', approverId: 'it', approverIsItManager: true, override: true }))
+        .rejects.toMatchObject({ statusCode: 403, message: expect.stringContaining('different approver') });
+      expect(request.approvalSteps![1].status).toBe('pending');
+
+      await service.reviewRequest({ requestId: 'req-1', decision: 'approved', approverId: 'owner' });
+      await expect(service.reviewRequest({ requestId: 'req-1', decision: 'approved', approverId: 'owner', approverIsItManager: true }))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(request).toMatchObject({ status: 'pending', currentStep: 2 });
+    });
+  });
+});
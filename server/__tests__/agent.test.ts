@@ -0,0 +1,307 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { sql } from 'drizzle-orm';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { AgentCommand, AgentDevice, Asset } from '@shared/schema';
+import { db } from '../db';
+import { storage } from '../storage';
+import { auditLogger } from '../audit-logger';
+import { softwareCatalogService } from '../services/software/software-catalog-service';
+import { authenticateAgent, hashAgentToken, issueAgentCredential } from '../services/agent/agent-credentials';
+import agentRouter from '../routes/agent.routes';
+
+const TENANT = 't1';
+const TOKEN = 'itam_agent_device-token';
+
+/**
+ * In-memory stand-in for the agent device, command, asset and software-link storage the routes use
+ */
+function fakeStorage() {
+  const state = {
+    devices: new Map<string, AgentDevice>(),
+    commands: new Map<string, AgentCommand>(),
+    assets: new Map<string, Asset>(),
+    links: [] as Array<{ id: string; assetId: string; softwareAssetId: string }>,
+    claims: [] as Array<{ redeliverBefore: Date; maxDeliveries: number }>,
+  };
+  const software = () => Array.from(state.assets.values()).filter(asset => asset.type === 'Software');
+
+  jest.spyOn(storage, 'getAgentDeviceByCredentialHash').mockImplementation(async (hash) =>
+    Array.from(state.devices.values()).find(device => device.credentialHash === hash));
+  jest.spyOn(storage, 'revokeAgentDevicesForAsset').mockImplementation(async (assetId) => {
+    const active = Array.from(state.devices.values()).filter(device => device.assetId === assetId && device.status === 'active');
+    active.forEach(device => { device.status = 'revoked'; });
+    return active.length;
+  });
+  jest.spyOn(storage, 'createAgentDevice').mockImplementation(async (device) => {
+    const created = { ...device, id: `dev-${state.devices.size + 1}`, status: 'active' } as AgentDevice;
+    state.devices.set(created.id, created);
+    return created;
+  });
+  jest.spyOn(storage, 'updateAgentDevice').mockImplementation(async (id, _tenantId, updates) =>
+    Object.assign(state.devices.get(id)!, updates));
+  jest.spyOn(storage, 'claimPendingAgentCommands').mockImplementation(async (deviceId, _tenantId, redeliverBefore, maxDeliveries) => {
+    state.claims.push({ redeliverBefore, maxDeliveries });
+    return Array.from(state.commands.values())
+      .filter(command => command.agentDeviceId === deviceId && command.status === 'pending')
+      .map(command => Object.assign(command, { status: 'delivered', deliveredAt: new Date() }));
+  });
+  jest.spyOn(storage, 'getAgentCommand').mockImplementation(async (id) => state.commands.get(id));
+  jest.spyOn(storage, 'updateAgentCommand').mockImplementation(async (id, _tenantId, updates) =>
+    Object.assign(state.commands.get(id)!, updates));
+  jest.spyOn(storage, 'getAsset').mockImplementation(async (id) => state.assets.get(id));
+  jest.spyOn(storage, 'updateAsset').mockImplementation(async (id, _tenantId, updates) =>
+    Object.assign(state.assets.get(id)!, updates));
+  jest.spyOn(storage, 'createAsset').mockImplementation(async (asset) => {
+    const created = { ...asset, id: `sw-${state.assets.size + 1}` } as unknown as Asset;
+    state.assets.set(created.id, created);
+    return created;
+  });
+  jest.spyOn(storage, 'getSoftwareAssetByName').mockImplementation(async (name) =>
+    software().find(asset => asset.name === name));
+  jest.spyOn(storage, 'getAssetSoftwareLinks').mockImplementation(async (assetId) =>
+    state.links
+      .filter(link => link.assetId === assetId)
+      .map(link => ({
+        id: link.id,
+        softwareAssetId: link.softwareAssetId,
+        softwareName: state.assets.get(link.softwareAssetId)!.name,
+        softwareVersion: null,
+        softwareManufacturer: null,
+        createdAt: null,
+      })));
+  jest.spyOn(storage, 'createAssetSoftwareLink').mockImplementation(async (link) => {
+    const created = { id: `link-${state.links.length + 1}`, assetId: link.assetId, softwareAssetId: link.softwareAssetId };
+    state.links.push(created);
+    return created as any;
+  });
+  jest.spyOn(storage, 'deleteAssetSoftwareLink').mockImplementation(async (assetId: string, softwareAssetId: string) => {
+    const before = state.links.length;
+    state.links = state.links.filter(link => !(link.assetId === assetId && link.softwareAssetId === softwareAssetId));
+    return state.links.length < before;
+  });
+  jest.spyOn(softwareCatalogService, 'getActiveRules').mockResolvedValue([]);
+  jest.spyOn(auditLogger, 'logSystemActivity').mockResolvedValue(undefined as any);
+
+  state.assets.set('asset-1', { id: 'asset-1', tenantId: TENANT, type: 'Hardware', name: 'LAPTOP-01', specifications: null } as Asset);
+  state.devices.set('dev-1', {
+    id: 'dev-1',
+    tenantId: TENANT,
+    assetId: 'asset-1',
+    hostname: 'LAPTOP-01',
+    status: 'active',
+    credentialHash: hashAgentToken(TOKEN),
+    checkInIntervalSeconds: 3600,
+    lastInventoryAt: null,
+    inventoryHashes: null,
+  } as AgentDevice);
+
+  return state;
+}
+
+function addSoftware(state: ReturnType<typeof fakeStorage>, name: string): string {
+  const id = `sw-${state.assets.size + 1}`;
+  state.assets.set(id, { id, tenantId: TENANT, type: 'Software', name } as Asset);
+  state.links.push({ id: `link-${state.links.length + 1}`, assetId: 'asset-1', softwareAssetId: id });
+  return id;
+}
+
+function addCommand(state: ReturnType<typeof fakeStorage>, overrides: Partial<AgentCommand> = {}): AgentCommand {
+  const command = {
+    id: `cmd-${state.commands.size + 1}`,
+    tenantId: TENANT,
+    agentDeviceId: 'dev-1',
+    commandType: 'reinventory',
+    payload: {},
+    status: 'pending',
+    deliveryAttempts: 0,
+    ...overrides,
+  } as AgentCommand;
+  state.commands.set(command.id, command);
+  return command;
+}
+
+const linkedNames = (state: ReturnType<typeof fakeStorage>) =>
+  state.links.filter(link => link.assetId === 'asset-1').map(link => state.assets.get(link.softwareAssetId)!.name).sort();
+
+describe('Agent', () => {
+  let state: ReturnType<typeof fakeStorage>;
+  const app = express().use(express.json()).use('/api/agent', agentRouter);
+  const checkIn = (body: object) => request(app).post('/api/agent/checkin').set('Authorization', `Bearer ${TOKEN}`).send(body);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    state = fakeStorage();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Credentials', () => {
+    const params = {
+      tenantId: TENANT,
+      assetId: 'asset-1',
+      hostname: 'LAPTOP-01',
+      serialNumber: null,
+      platform: null,
+      agentVersion: '2.0.0',
+      lastIp: null,
+      inventoryTaken: true,
+    };
+
+    it('should store only the token hash and revoke earlier credentials for the asset', async () => {
+      const { device, token } = await issueAgentCredential(params);
+
+      expect(token.startsWith('itam_agent_')).toBe(true);
+      expect(device.credentialHash).toBe(hashAgentToken(token));
+      expect(JSON.stringify(device)).not.toContain(token);
+      expect(state.devices.get('dev-1')!.status).toBe('revoked');
+      expect(await authenticateAgent(`Bearer ${token}`)).toMatchObject({ id: device.id });
+    });
+
+    it('should reject revoked, unknown and non-agent tokens', async () => {
+      await issueAgentCredential(params);
+
+      expect(await authenticateAgent(`Bearer ${TOKEN}`)).toBeNull();
+      expect(await authenticateAgent('Bearer itam_agent_unknown')).toBeNull();
+      expect(await authenticateAgent('Bearer some-user-jwt')).toBeNull();
+      expect(await authenticateAgent(undefined)).toBeNull();
+    });
+
+    it('should refuse a check-in with a revoked credential', async () => {
+      state.devices.get('dev-1')!.status = 'revoked';
+
+      const response = await checkIn({});
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('Software inventory', () => {
+    it('should unlink software missing from a full snapshot', async () => {
+      addSoftware(state, 'Slack 4.36');
+      addSoftware(state, 'Zoom 5.17');
+
+      const response = await checkIn({
+        software: { full: true, items: [{ name: 'Slack', version: '4.36' }, { name: 'Firefox', version: '128.0' }] },
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.body.software).toEqual({ added: 2, removed: 1 });
+      expect(linkedNames(state)).toEqual(['Firefox 128.0', 'Slack 4.36']);
+      expect(state.devices.get('dev-1')!.lastInventoryAt).toBeInstanceOf(Date);
+    });
+
+    it('should apply a delta without touching unmentioned software', async () => {
+      addSoftware(state, 'Slack 4.36');
+      addSoftware(state, 'Zoom 5.17');
+      state.devices.get('dev-1')!.lastInventoryAt = new Date();
+
+      const response = await checkIn({
+        software: { added: [{ name: 'Firefox', version: '128.0' }], removed: [{ name: 'Zoom', version: '5.17' }] },
+      });
+
+      expect(response.body.software).toEqual({ added: 1, removed: 1 });
+      expect(response.body.fullInventoryRequired).toBe(false);
+      expect(linkedNames(state)).toEqual(['Firefox 128.0', 'Slack 4.36']);
+      // The Software asset stays for other devices that still have it
+      expect(storage.getSoftwareAssetByName).toHaveBeenCalledWith('Zoom 5.17', TENANT);
+      expect(Array.from(state.assets.values()).some(asset => asset.name === 'Zoom 5.17')).toBe(true);
+    });
+
+    it('should not link existing software twice', async () => {
+      addSoftware(state, 'Slack 4.36');
+
+      await checkIn({ software: { added: [{ name: 'Slack', version: '4.36' }] } });
+
+      expect(state.links).toHaveLength(1);
+    });
+
+    it('should ask for a full snapshot when a delta arrives without a baseline', async () => {
+      const response = await checkIn({ software: { added: [{ name: 'Slack', version: '4.36' }] } });
+
+      expect(response.body.fullInventoryRequired).toBe(true);
+    });
+  });
+
+  describe('Command queue', () => {
+    const report = (id: string, body: object) =>
+      request(app).post(`/api/agent/commands/${id}/result`).set('Authorization', `Bearer ${TOKEN}`).send(body);
+
+    it('should hand out pending commands with a redelivery cutoff', async () => {
+      addCommand(state);
+      const before = Date.now();
+
+      const response = await checkIn({});
+
+      expect(response.body.commands).toEqual([{ id: 'cmd-1', type: 'reinventory', payload: {} }]);
+      expect(state.commands.get('cmd-1')!.status).toBe('delivered');
+      const [claim] = state.claims;
+      expect(claim.maxDeliveries).toBe(3);
+      expect(before - claim.redeliverBefore.getTime()).toBeGreaterThanOrEqual(30 * 60 * 1000 - 1000);
+    });
+
+    it('should record the result of a delivered command', async () => {
+      addCommand(state, { status: 'delivered' });
+
+      const response = await report('cmd-1', { status: 'succeeded', exitCode: 0, output: 'ok' });
+
+      expect(response.status).toBe(200);
+      expect(state.commands.get('cmd-1')).toMatchObject({
+        status: 'succeeded',
+        result: { exitCode: 0, output: 'ok' },
+      });
+    });
+
+    it('should reject results for commands that are not awaiting one', async () => {
+      addCommand(state, { status: 'pending' });
+      addCommand(state, { status: 'succeeded' });
+
+      expect((await report('cmd-1', { status: 'succeeded' })).status).toBe(409);
+      expect((await report('cmd-2', { status: 'failed' })).status).toBe(409);
+      expect(state.commands.get('cmd-2')!.status).toBe('succeeded');
+    });
+
+    it("should not let a device report another device's command", async () => {
+      addCommand(state, { status: 'delivered', agentDeviceId: 'dev-2' });
+
+      const response = await report('cmd-1', { status: 'succeeded' });
+
+      expect(response.status).toBe(404);
+      expect(state.commands.get('cmd-1')!.status).toBe('delivered');
+    });
+
+    it('should claim unreported deliveries past the cutoff and fail them after the delivery limit', async () => {
+      const updates: Array<{ set: any; where: any }> = [];
+      const tx = {
+        update: () => ({
+          set: (values: any) => ({
+            where: (condition: any) => {
+              updates.push({ set: values, where: condition });
+              return Object.assign(Promise.resolve(), { returning: async () => [] });
+            },
+          }),
+        }),
+      };
+      jest.spyOn(db, 'transaction').mockImplementation(async (fn: any) => fn(tx));
+      jest.mocked(storage.claimPendingAgentCommands).mockRestore();
+
+      const redeliverBefore = new Date('2026-10-19T11:30:00Z');
+      await storage.claimPendingAgentCommands('dev-1', TENANT, redeliverBefore, 3);
+
+      const dialect = new PgDialect();
+      const [expire, giveUp, claim] = updates.map(update => ({ ...update, query: dialect.sqlToQuery(sql`${update.where}`) }));
+      expect(expire.set.status).toBe('expired');
+      expect(expire.query.sql).toContain('"expires_at" IS NOT NULL');
+      expect(giveUp.set.status).toBe('failed');
+      expect(giveUp.query.sql).toContain('"delivery_attempts" >=');
+      expect(giveUp.query.params).toEqual(expect.arrayContaining(['delivered', 3]));
+      expect(claim.set.status).toBe('delivered');
+      expect(claim.query.sql).toContain('"delivered_at" <');
+      expect(claim.query.params).toEqual(expect.arrayContaining(['dev-1', TENANT, 'pending', 'delivered']));
+    });
+  });
+});
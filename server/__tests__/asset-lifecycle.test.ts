@@ -0,0 +1,275 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import sgMail from '@sendgrid/mail';
+import type { Asset, AssetCustodyRecord } from '@shared/schema';
+import { isAssetTransitionAllowed } from '@shared/utils';
+import { storage } from '../storage';
+import { AssetLifecycleService } from '../services/assets/asset-lifecycle';
+
+const TENANT = 't1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const actor = { userId: 'admin', name: 'Ada Admin' };
+
+/**
+ * In-memory stand-in for the asset, custody and lifecycle-event storage the service uses
+ */
+function fakeStorage() {
+  const state = {
+    assets: new Map<string, Asset>(),
+    custody: new Map<string, AssetCustodyRecord>(),
+    events: [] as any[],
+    users: new Map<string, any>([
+      ['admin', { id: 'admin', tenantId: TENANT, firstName: 'Ada', lastName: 'Admin', email: 'ada@example.com', isActive: true }],
+      ['u1', { id: 'u1', tenantId: TENANT, firstName: 'Uma', lastName: 'User', email: 'uma@example.com', userID: 7, isActive: true }],
+      ['gone', { id: 'gone', tenantId: TENANT, firstName: 'Gil', lastName: 'Gone', email: 'gil@example.com', isActive: false }],
+    ]),
+  };
+  const open = (assetId: string) => Array.from(state.custody.values()).find(record => record.assetId === assetId && !record.checkedInAt);
+
+  jest.spyOn(storage, 'getAsset').mockImplementation(async (id) => state.assets.get(id) && { ...state.assets.get(id)! });
+  jest.spyOn(storage, 'updateAsset').mockImplementation(async (id, _tenantId, updates) => {
+    const updated = { ...state.assets.get(id)!, ...updates } as Asset;
+    state.assets.set(id, updated);
+    return updated;
+  });
+  jest.spyOn(storage, 'getUser').mockImplementation(async (id) => state.users.get(id));
+  jest.spyOn(storage, 'getOpenAssetCustodyRecord').mockImplementation(async (assetId) => open(assetId));
+  jest.spyOn(storage, 'getAssetCustodyRecords').mockImplementation(async (assetId) =>
+    Array.from(state.custody.values()).filter(record => record.assetId === assetId));
+  jest.spyOn(storage, 'createAssetCustodyRecord').mockImplementation(async (record) => {
+    const created = { checkedOutAt: new Date(), reminderCount: 0, lastReminderAt: null, checkedInAt: null, ...record, id: `cus-${state.custody.size + 1}` } as AssetCustodyRecord;
+    state.custody.set(created.id, created);
+    return created;
+  });
+  jest.spyOn(storage, 'updateAssetCustodyRecord').mockImplementation(async (id, _tenantId, updates) => {
+    const updated = { ...state.custody.get(id)!, ...updates } as AssetCustodyRecord;
+    state.custody.set(id, updated);
+    return updated;
+  });
+  jest.spyOn(storage, 'getOverdueAssetCustodyRecords').mockImplementation(async (now) =>
+    Array.from(state.custody.values()).filter(record => !record.checkedInAt && record.expectedReturnAt && record.expectedReturnAt < now));
+  jest.spyOn(storage, 'getAssetLifecycleEvents').mockImplementation(async () => state.events);
+  jest.spyOn(storage, 'createAssetLifecycleEvent').mockImplementation(async (event) => {
+    state.events.push(event);
+    return event as any;
+  });
+
+  return state;
+}
+
+function addAsset(state: ReturnType<typeof fakeStorage>, overrides: Partial<Asset> = {}): Asset {
+  const asset = {
+    id: `asset-${state.assets.size + 1}`,
+    tenantId: TENANT,
+    name: 'MacBook Pro 14',
+    type: 'Hardware',
+    status: 'in-stock',
+    serialNumber: 'C02XYZ',
+    assignedUserId: null,
+    assignedUserName: null,
+    assignedUserEmail: null,
+    assignedUserEmployeeId: null,
+    ...overrides,
+  } as Asset;
+  state.assets.set(asset.id, asset);
+  return asset;
+}
+
+describe('Asset lifecycle', () => {
+  let state: ReturnType<typeof fakeStorage>;
+  let service: AssetLifecycleService;
+
+  beforeEach(() => {
+    state = fakeStorage();
+    service = new AssetLifecycleService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Transitions', () => {
+    it('should allow the lifecycle path and its returns to stock', () => {
+      expect(isAssetTransitionAllowed('ordered', 'received')).toBe(true);
+      expect(isAssetTransitionAllowed('received', 'in-stock')).toBe(true);
+      expect(isAssetTransitionAllowed('deployed', 'in-stock')).toBe(true);
+      expect(isAssetTransitionAllowed('retired', 'in-stock')).toBe(true);
+      expect(isAssetTransitionAllowed('retired', 'disposed')).toBe(true);
+
+      // Unchanged and legacy statuses are left alone
+      expect(isAssetTransitionAllowed('deployed', 'deployed')).toBe(true);
+      expect(isAssetTransitionAllowed('lost-in-transit', 'in-stock')).toBe(true);
+      expect(isAssetTransitionAllowed(null, 'deployed')).toBe(true);
+    });
+
+    it('should reject skipped and backward steps', () => {
+      expect(isAssetTransitionAllowed('ordered', 'deployed')).toBe(false);
+      expect(isAssetTransitionAllowed('in-stock', 'disposed')).toBe(false);
+      expect(isAssetTransitionAllowed('deployed', 'received')).toBe(false);
+      expect(isAssetTransitionAllowed('disposed', 'in-stock')).toBe(false);
+    });
+
+    it('should refuse a disallowed transition without touching the asset', async () => {
+      const asset = addAsset(state, { status: 'ordered' });
+
+      await expect(service.transition(TENANT, asset.id, 'deployed', actor))
+        .rejects.toMatchObject({ statusCode: 409, message: 'Cannot move an asset from ordered to deployed; allowed: received' });
+      await expect(service.transition(TENANT, addAsset(state, { status: 'disposed' }).id, 'in-stock', actor))
+        .rejects.toThrow('end of its lifecycle');
+      expect(storage.updateAsset).not.toHaveBeenCalled();
+    });
+
+    it('should record allowed transitions on the timeline', async () => {
+      const asset = addAsset(state, { status: 'received' });
+
+      const updated = await service.transition(TENANT, asset.id, 'in-stock', actor, 'Imaged');
+
+      expect(updated.status).toBe('in-stock');
+      expect(state.events).toEqual([expect.objectContaining({
+        eventType: 'status_changed',
+        fromStatus: 'received',
+        toStatus: 'in-stock',
+        actorId: 'admin',
+        metadata: { notes: 'Imaged' },
+      })]);
+    });
+
+    it('should not return a checked-out asset to stock until it is checked in', async () => {
+      const asset = addAsset(state);
+      await service.checkOut(TENANT, asset.id, { userId: 'u1' }, actor);
+
+      await expect(service.transition(TENANT, asset.id, 'in-stock', actor)).rejects.toMatchObject({ statusCode: 409 });
+      await expect(service.transition(TENANT, asset.id, 'in-repair', actor)).resolves.toMatchObject({ status: 'in-repair' });
+    });
+  });
+
+  describe('Check-out and check-in', () => {
+    it('should check out stock to an active user with an open custody record', async () => {
+      const asset = addAsset(state);
+      const returnBy = new Date(Date.now() + 7 * DAY_MS);
+
+      const { asset: deployed, custody } = await service.checkOut(TENANT, asset.id, { userId: 'u1', expectedReturnAt: returnBy }, actor);
+
+      expect(deployed).toMatchObject({ status: 'deployed', assignedUserId: 'u1', assignedUserName: 'Uma User', assignedUserEmployeeId: '7' });
+      expect(custody).toMatchObject({ userId: 'u1', checkedOutBy: 'admin', expectedReturnAt: returnBy, checkedInAt: null });
+      await expect(service.checkOut(TENANT, asset.id, { userId: 'admin' }, actor)).rejects.toThrow('already checked out to Uma User');
+    });
+
+    it('should block check-out from states that cannot be deployed', async () => {
+      for (const status of ['ordered', 'received', 'retired', 'disposed']) {
+        const asset = addAsset(state, { status });
+        await expect(service.checkOut(TENANT, asset.id, { userId: 'u1' }, actor)).rejects.toMatchObject({ statusCode: 409 });
+      }
+
+      await expect(service.checkOut(TENANT, addAsset(state).id, { userId: 'gone' }, actor)).rejects.toThrow('inactive user');
+      await expect(service.checkOut(TENANT, addAsset(state, { type: 'Software' }).id, { userId: 'u1' }, actor)).rejects.toThrow('licenses');
+      await expect(service.checkOut(TENANT, addAsset(state).id, { userId: 'u1', expectedReturnAt: new Date(Date.now() - DAY_MS) }, actor))
+        .rejects.toThrow('in the future');
+      expect(state.custody.size).toBe(0);
+    });
+
+    it('should close the custody record and unassign the asset on check-in', async () => {
+      const asset = addAsset(state);
+      const { custody: opened } = await service.checkOut(TENANT, asset.id, { userId: 'u1' }, actor);
+
+      const { asset: returned, custody } = await service.checkIn(TENANT, asset.id, { condition: 'good', notes: 'Wiped' }, actor);
+
+      expect(returned).toMatchObject({ status: 'in-stock', assignedUserId: null, assignedUserName: null, assignedUserEmail: null });
+      expect(custody).toMatchObject({ id: opened.id, checkedInAt: expect.any(Date), checkedInBy: 'admin', returnCondition: 'good', checkInNotes: 'Wiped' });
+      expect(await storage.getOpenAssetCustodyRecord(asset.id, TENANT)).toBeUndefined();
+      await expect(service.checkIn(TENANT, asset.id, { condition: 'good' }, actor)).rejects.toThrow('not checked out');
+    });
+
+    it('should send damaged returns to repair and lost ones to retirement', async () => {
+      const damaged = addAsset(state);
+      await service.checkOut(TENANT, damaged.id, { userId: 'u1' }, actor);
+      expect((await service.checkIn(TENANT, damaged.id, { condition: 'damaged' }, actor)).asset.status).toBe('in-repair');
+
+      const lost = addAsset(state);
+      await service.checkOut(TENANT, lost.id, { userId: 'u1' }, actor);
+      expect((await service.checkIn(TENANT, lost.id, { condition: 'lost' }, actor)).asset.status).toBe('retired');
+    });
+  });
+
+  describe('Overdue returns', () => {
+    let sent: Array<{ to: string; subject: string }>;
+
+    function checkedOut(asset: Asset, overrides: Partial<AssetCustodyRecord>): AssetCustodyRecord {
+      const record = {
+        id: `cus-${state.custody.size + 1}`,
+        tenantId: TENANT,
+        assetId: asset.id,
+        userId: 'u1',
+        userName: 'Uma User',
+        userEmail: 'uma@example.com',
+        checkedOutAt: new Date(Date.now() - 10 * DAY_MS),
+        checkedOutBy: 'admin',
+        checkedInAt: null,
+        lastReminderAt: null,
+        reminderCount: 0,
+        ...overrides,
+      } as AssetCustodyRecord;
+      state.custody.set(record.id, record);
+      state.assets.set(asset.id, { ...asset, status: 'deployed', assignedUserId: 'u1' });
+      return record;
+    }
+
+    beforeEach(() => {
+      sent = [];
+      process.env.SENDGRID_API_KEY = 'SG.test';
+      jest.spyOn(sgMail, 'send').mockImplementation(async (message: any) => {
+        sent.push({ to: message.to, subject: message.subject });
+        return [] as any;
+      });
+    });
+
+    afterEach(() => {
+      delete process.env.SENDGRID_API_KEY;
+    });
+
+    it('should flag an open custody period past its expected return', async () => {
+      const late = addAsset(state);
+      checkedOut(late, { expectedReturnAt: new Date(Date.now() - DAY_MS) });
+      const onTime = addAsset(state);
+      checkedOut(onTime, { expectedReturnAt: new Date(Date.now() + DAY_MS) });
+      const openEnded = addAsset(state);
+      checkedOut(openEnded, { expectedReturnAt: null });
+
+      expect((await service.getTimeline(TENANT, late.id)).isOverdue).toBe(true);
+      expect((await service.getTimeline(TENANT, onTime.id)).isOverdue).toBe(false);
+      expect((await service.getTimeline(TENANT, openEnded.id)).isOverdue).toBe(false);
+
+      await service.checkIn(TENANT, late.id, { condition: 'good' }, actor);
+      expect(state.events.at(-1)).toMatchObject({ eventType: 'checked_in', metadata: { overdue: true } });
+      expect((await service.getTimeline(TENANT, late.id)).isOverdue).toBe(false);
+    });
+
+    it('should remind the custodian and issuer at most once a day', async () => {
+      const asset = addAsset(state);
+      const now = new Date();
+      const record = checkedOut(asset, { expectedReturnAt: new Date(now.getTime() - 3 * DAY_MS) });
+
+      expect(await service.sendOverdueReminders(now)).toBe(1);
+      expect(sent).toEqual([
+        { to: 'uma@example.com', subject: 'Overdue return: MacBook Pro 14' },
+        { to: 'ada@example.com', subject: 'Overdue return: MacBook Pro 14 (Uma User)' },
+      ]);
+      expect(state.custody.get(record.id)).toMatchObject({ lastReminderAt: now, reminderCount: 1 });
+      expect(state.events.at(-1)).toMatchObject({ eventType: 'overdue_reminder', custodyRecordId: record.id });
+
+      // Within a day of the last reminder nothing more goes out
+      expect(await service.sendOverdueReminders(new Date(now.getTime() + 23 * 60 * 60 * 1000))).toBe(0);
+      expect(sent).toHaveLength(2);
+
+      expect(await service.sendOverdueReminders(new Date(now.getTime() + DAY_MS))).toBe(1);
+      expect(state.custody.get(record.id)!.reminderCount).toBe(2);
+    });
+
+    it('should not remind about returned or not yet due assets', async () => {
+      checkedOut(addAsset(state), { expectedReturnAt: new Date(Date.now() + DAY_MS) });
+      checkedOut(addAsset(state), { expectedReturnAt: new Date(Date.now() - DAY_MS), checkedInAt: new Date() });
+
+      expect(await service.sendOverdueReminders()).toBe(0);
+      expect(sent).toEqual([]);
+    });
+  });
+});
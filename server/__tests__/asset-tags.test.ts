@@ -0,0 +1,40 @@
+import { describe, it, expect } from '@jest/globals';
+import { formatAssetTag, parseScannedCode } from '@shared/utils';
+import { generateLabelSheet } from '../services/assets/asset-labels';
+
+describe('Asset tags', () => {
+  it('should format tags from the tenant sequence', () => {
+    expect(formatAssetTag('AST-', 6, 42)).toBe('AST-000042');
+    expect(formatAssetTag('', 4, 7)).toBe('0007');
+    // Numbers wider than the padding are not truncated
+    expect(formatAssetTag('IT/', 2, 1234)).toBe('IT/1234');
+  });
+
+  it('should read the tag from scanned QR URLs and bare codes', () => {
+    expect(parseScannedCode('https://app.example.com/scan/AST-000042')).toBe('AST-000042');
+    expect(parseScannedCode('https://app.example.com/scan/IT%2F0001/')).toBe('IT/0001');
+    expect(parseScannedCode('https://app.example.com/assets?tag=AST-000007')).toBe('AST-000007');
+    expect(parseScannedCode('  AST-000042\n')).toBe('AST-000042');
+    expect(parseScannedCode('SN-ABC123')).toBe('SN-ABC123');
+  });
+
+  it('should render label sheets as paged PDFs', async () => {
+    const labels = Array.from({ length: 5 }, (_, i) => ({
+      assetTag: formatAssetTag('AST-', 6, i + 1),
+      name: `Laptop ${i + 1}`,
+      serialNumber: `SN${i + 1}`,
+    }));
+
+    for (const symbology of ['qr', 'code128'] as const) {
+      // Starting at the last label of a 30-up sheet pushes the other four onto a second page
+      const pdf = await generateLabelSheet(labels, {
+        symbology,
+        layout: 'letter-30',
+        startPosition: 30,
+        scanBaseUrl: 'https://app.example.com',
+      });
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+      expect(pdf.toString('latin1').match(/\/Type \/Page\b/g)).toHaveLength(2);
+    }
+  });
+});
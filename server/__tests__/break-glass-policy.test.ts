@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  canUnseal,
+  canViewCredential,
+  reviewBlocker,
+  useBlockers,
+} from '../services/advanced/break-glass-policy';
+
+const now = new Date('2026-10-19T12:00:00Z');
+const later = new Date('2026-10-19T13:00:00Z');
+const earlier = new Date('2026-10-19T11:00:00Z');
+
+describe('Break-glass access policy', () => {
+  it('should block new use until every unsealed session has been reviewed', () => {
+    expect(useBlockers([
+      { id: 's1', accountName: 'Global admin', status: 'expired', reviewStatus: 'completed' },
+      { id: 's2', accountName: 'Global admin', status: 'cancelled', reviewStatus: null },
+    ])).toEqual([]);
+
+    const blockers = useBlockers([
+      { id: 's3', accountName: 'Global admin', status: 'closed', reviewStatus: 'pending' },
+      { id: 's4', accountName: 'Root', status: 'active', reviewStatus: 'pending' },
+    ]);
+    expect(blockers).toHaveLength(2);
+    expect(blockers[0]).toContain('Post-incident review');
+  });
+
+  it('should require a second person to unseal within the window', () => {
+    const session = { status: 'pending_unseal', requestedBy: 'alice', expiresAt: later };
+
+    expect(canUnseal(session, 'bob', now)).toBe('allowed');
+    expect(canUnseal(session, 'alice', now)).toBe('same_person');
+    expect(canUnseal({ ...session, expiresAt: earlier }, 'bob', now)).toBe('window_passed');
+    expect(canUnseal({ ...session, status: 'active' }, 'bob', now)).toBe('not_pending');
+  });
+
+  it('should only reveal the credential to the requester of a live session', () => {
+    const session = { status: 'active', requestedBy: 'alice', expiresAt: later };
+
+    expect(canViewCredential(session, 'alice', now)).toBeNull();
+    expect(canViewCredential(session, 'bob', now)).toBeDefined();
+    expect(canViewCredential({ ...session, status: 'pending_unseal' }, 'alice', now)).toBe('Session is pending unseal');
+    expect(canViewCredential({ ...session, expiresAt: earlier }, 'alice', now)).toBe('Session has expired');
+  });
+
+  it('should require rotation of a revealed credential before the review closes', () => {
+    const session = { status: 'closed', reviewStatus: 'pending', requestedBy: 'alice', unsealedAt: now, credentialViewCount: 2 };
+
+    expect(reviewBlocker(session, { credentialRotatedAt: earlier }, 'bob')).toContain('Rotate');
+    expect(reviewBlocker(session, { credentialRotatedAt: later }, 'bob')).toBeNull();
+    expect(reviewBlocker({ ...session, credentialViewCount: 0 }, { credentialRotatedAt: earlier }, 'bob')).toBeNull();
+    expect(reviewBlocker(session, { credentialRotatedAt: later }, 'alice')).toContain('requester');
+    expect(reviewBlocker({ ...session, status: 'active' }, { credentialRotatedAt: later }, 'bob')).toContain('End the session');
+  });
+});
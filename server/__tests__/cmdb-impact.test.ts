@@ -0,0 +1,59 @@
+import { describe, it, expect } from '@jest/globals';
+import { affectedServices, traverseImpact, type CiEdge } from '../services/cmdb/ci-graph';
+
+const edge = (id: string, source: string, relationshipType: string, target: string): CiEdge => {
+  const [sourceType, sourceId] = source.split(':');
+  const [targetType, targetId] = target.split(':');
+  return { id, sourceType, sourceId, targetType, targetId, relationshipType };
+};
+
+// payroll runs on app-01, which depends on db-01; db-01 is owned by jane and backed up by nas-01;
+// app-01 is connected to switch-01; email depends on the Google Workspace app
+const edges: CiEdge[] = [
+  edge('e1', 'service:payroll', 'runs_on', 'asset:app-01'),
+  edge('e2', 'asset:app-01', 'depends_on', 'asset:db-01'),
+  edge('e3', 'asset:db-01', 'owned_by', 'user:jane'),
+  edge('e4', 'asset:nas-01', 'backs_up', 'asset:db-01'),
+  edge('e5', 'asset:app-01', 'connected_to', 'asset:switch-01'),
+  edge('e6', 'service:email', 'depends_on', 'saas_app:workspace'),
+  // A cycle must not loop forever
+  edge('e7', 'asset:db-01', 'depends_on', 'service:payroll'),
+];
+
+describe('CMDB impact graph', () => {
+  it('should walk downstream and upstream along dependency edges', () => {
+    const impact = traverseImpact(edges, { type: 'asset', id: 'db-01' });
+
+    expect(impact.downstream.map(entry => [entry.id, entry.depth, entry.via.id])).toEqual([
+      ['app-01', 1, 'db-01'],
+      ['payroll', 2, 'app-01'],
+    ]);
+    expect(impact.upstream.map(entry => [entry.id, entry.depth])).toEqual([
+      ['jane', 1],
+      ['payroll', 1],
+      ['app-01', 2],
+    ]);
+    // Backups are neighbours only; losing the backup target does not impact the backup host
+    expect(impact.related).toEqual([
+      { type: 'asset', id: 'nas-01', relationshipType: 'backs_up', direction: 'incoming', edgeId: 'e4' },
+    ]);
+  });
+
+  it('should not propagate impact across connections', () => {
+    const impact = traverseImpact(edges, { type: 'asset', id: 'switch-01' });
+    expect(impact.downstream).toEqual([]);
+    expect(impact.related.map(entry => entry.id)).toEqual(['app-01']);
+  });
+
+  it('should report the services affected when an owner goes away, within the depth limit', () => {
+    expect(affectedServices(edges, [{ type: 'user', id: 'jane' }]).map(entry => [entry.id, entry.depth])).toEqual([
+      ['payroll', 3],
+    ]);
+    expect(affectedServices(edges, [{ type: 'user', id: 'jane' }], 2)).toEqual([]);
+    expect(affectedServices(edges, [{ type: 'saas_app', id: 'workspace' }, { type: 'service', id: 'payroll' }])
+      .map(entry => [entry.id, entry.depth])).toEqual([
+      ['payroll', 0],
+      ['email', 1],
+    ]);
+  });
+});
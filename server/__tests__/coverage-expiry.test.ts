@@ -0,0 +1,90 @@
+import { describe, it, expect } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { Asset } from '@shared/schema';
+import { bucketCoverage, collectCoverage, groupByVendor, reachedLeadTime } from '../services/assets/coverage-expiry';
+import { FileWarrantyLookupProvider, WarrantyLookupRegistry } from '../services/assets/warranty-lookup';
+
+const now = new Date('2026-10-01T00:00:00Z');
+const inDays = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+const asset = (overrides: Partial<Asset>): Asset => ({
+  id: 'a1',
+  name: 'Laptop',
+  status: 'deployed',
+  manufacturer: null,
+  vendorName: null,
+  vendorEmail: null,
+  vendorPhone: null,
+  warrantyExpiry: null,
+  amcExpiry: null,
+  ...overrides,
+} as Asset);
+
+const assets = [
+  asset({ id: 'a1', name: 'Laptop 1', manufacturer: 'Dell', warrantyExpiry: inDays(20) }),
+  asset({ id: 'a2', name: 'Server', manufacturer: 'HPE', vendorName: 'Acme IT', vendorEmail: 'quotes@acme.test', warrantyExpiry: inDays(-5), amcExpiry: inDays(75) }),
+  asset({ id: 'a3', name: 'Laptop 2', manufacturer: 'dell', warrantyExpiry: inDays(45) }),
+  // Out of range, untracked or without dates
+  asset({ id: 'a4', name: 'Old desktop', manufacturer: 'Dell', warrantyExpiry: inDays(-400) }),
+  asset({ id: 'a5', name: 'Retired laptop', manufacturer: 'Dell', status: 'retired', warrantyExpiry: inDays(10) }),
+  asset({ id: 'a6', name: 'Switch', manufacturer: 'Cisco', warrantyExpiry: inDays(200) }),
+  asset({ id: 'a7', name: 'Monitor' }),
+];
+
+describe('Coverage expiry', () => {
+  it('should pick the smallest lead time reached and 0 once lapsed', () => {
+    const leadDays = [90, 60, 30, 7];
+    expect(reachedLeadTime(120, leadDays)).toBeNull();
+    expect(reachedLeadTime(90, leadDays)).toBe(90);
+    expect(reachedLeadTime(45, leadDays)).toBe(60);
+    expect(reachedLeadTime(7, leadDays)).toBe(7);
+    expect(reachedLeadTime(0, leadDays)).toBe(0);
+    expect(reachedLeadTime(-3, leadDays)).toBe(0);
+  });
+
+  it('should list in-service coverage within the horizon and bucket it by lead time', () => {
+    const items = collectCoverage(assets, now, 90);
+    expect(items.map(item => [item.assetId, item.coverageType, item.daysRemaining])).toEqual([
+      ['a2', 'warranty', -5],
+      ['a1', 'warranty', 20],
+      ['a3', 'warranty', 45],
+      ['a2', 'amc', 75],
+    ]);
+    expect(collectCoverage(assets, now, 90, 'amc').map(item => item.assetId)).toEqual(['a2']);
+
+    expect(bucketCoverage(items, [90, 60, 30, 7]).map(({ label, warranty, amc }) => [label, warranty, amc])).toEqual([
+      ['Lapsed', 1, 0],
+      ['≤ 7 days', 0, 0],
+      ['≤ 30 days', 1, 0],
+      ['≤ 60 days', 1, 0],
+      ['≤ 90 days', 0, 1],
+    ]);
+  });
+
+  it('should group by vendor, falling back to the manufacturer', () => {
+    const groups = groupByVendor(collectCoverage(assets, now, 90));
+    expect(groups.map(group => [group.vendor, group.warranty, group.amc, group.items.length])).toEqual([
+      ['Acme IT', 1, 1, 2],
+      ['Dell', 2, 0, 2],
+    ]);
+    expect(groups[0].vendorEmail).toBe('quotes@acme.test');
+  });
+
+  it('should look up coverage from the file provider by manufacturer and serial', async () => {
+    const file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'warranty-')), 'warranty.json');
+    await fs.writeFile(file, JSON.stringify([
+      { manufacturer: 'Dell', serialNumber: 'ABC123', warrantyExpiry: '2027-03-31', coverageLevel: 'ProSupport' },
+    ]));
+
+    const registry = new WarrantyLookupRegistry();
+    await expect(registry.lookup('Dell', 'ABC123')).rejects.toThrow('No warranty lookup provider');
+
+    registry.register(new FileWarrantyLookupProvider(file));
+    const result = await registry.lookup(' dell ', 'abc123');
+    expect(result).toMatchObject({ provider: 'file', amcExpiry: null, coverageLevel: 'ProSupport' });
+    expect(result!.warrantyExpiry!.toISOString().slice(0, 10)).toBe('2027-03-31');
+    expect(await registry.lookup('Dell', 'UNKNOWN')).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import { calculateDepreciation, monthsBetween, type DepreciationPolicy } from '../services/assets/depreciation-calculator';
+
+const purchased = new Date('2024-01-15T00:00:00Z');
+
+const straightLine: DepreciationPolicy = {
+  method: 'straight_line',
+  usefulLifeMonths: 36,
+  salvagePercent: 10,
+};
+
+const decliningBalance: DepreciationPolicy = {
+  method: 'declining_balance',
+  usefulLifeMonths: 60,
+  salvagePercent: 10,
+  decliningRate: 2,
+};
+
+describe('Asset depreciation', () => {
+  it('should count whole months in service', () => {
+    expect(monthsBetween(purchased, new Date('2024-02-14T00:00:00Z'))).toBe(0);
+    expect(monthsBetween(purchased, new Date('2024-02-15T00:00:00Z'))).toBe(1);
+    expect(monthsBetween(purchased, new Date('2023-12-01T00:00:00Z'))).toBe(0);
+  });
+
+  it('should depreciate evenly down to salvage value on straight line', () => {
+    // (1800 - 180) / 36 = 45 per month
+    const result = calculateDepreciation(1800, purchased, new Date('2025-01-15T00:00:00Z'), straightLine);
+    expect(result.monthsInService).toBe(12);
+    expect(result.accumulatedDepreciation).toBe(540);
+    expect(result.bookValue).toBe(1260);
+    expect(result.fullyDepreciated).toBe(false);
+
+    const ended = calculateDepreciation(1800, purchased, new Date('2030-01-01T00:00:00Z'), straightLine);
+    expect(ended.bookValue).toBe(180);
+    expect(ended.fullyDepreciated).toBe(true);
+  });
+
+  it('should apply a fixed monthly rate to the remaining book value on declining balance', () => {
+    // 2 / 60 per month: 1000 * (1 - 1/30)^12
+    const result = calculateDepreciation(1000, purchased, new Date('2025-01-15T00:00:00Z'), decliningBalance);
+    expect(result.bookValue).toBeCloseTo(1000 * Math.pow(29 / 30, 12), 2);
+
+    const straight = calculateDepreciation(1000, purchased, new Date('2025-01-15T00:00:00Z'), {
+      ...decliningBalance,
+      method: 'straight_line',
+    });
+    expect(result.accumulatedDepreciation).toBeGreaterThan(straight.accumulatedDepreciation);
+  });
+
+  it('should never take declining balance below salvage and reach it at end of life', () => {
+    const aggressive: DepreciationPolicy = { ...decliningBalance, salvagePercent: 40, decliningRate: 4 };
+    const midLife = calculateDepreciation(1000, purchased, new Date('2026-01-15T00:00:00Z'), aggressive);
+    expect(midLife.bookValue).toBe(400);
+
+    const ended = calculateDepreciation(1000, purchased, new Date('2029-01-15T00:00:00Z'), decliningBalance);
+    expect(ended.bookValue).toBe(100);
+  });
+
+  it('should stop depreciating on disposal and write off the remaining book value', () => {
+    const disposedAt = new Date('2024-07-20T00:00:00Z');
+    const result = calculateDepreciation(1800, purchased, new Date('2025-06-30T00:00:00Z'), straightLine, disposedAt);
+
+    expect(result.monthsInService).toBe(6);
+    expect(result.accumulatedDepreciation).toBe(270);
+    expect(result.writeOff).toBe(1530);
+    expect(result.bookValue).toBe(0);
+    expect(result.disposedAt).toEqual(disposedAt);
+
+    // Disposal after the as-of date has not happened yet
+    const before = calculateDepreciation(1800, purchased, new Date('2024-06-15T00:00:00Z'), straightLine, disposedAt);
+    expect(before.writeOff).toBe(0);
+    expect(before.bookValue).toBe(1575);
+  });
+});
@@ -0,0 +1,464 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { Client } from 'ldapts';
+import { storage } from '../storage';
+import { LdapConnector } from '../services/idp/ldap-connector';
+import { KeycloakConnector } from '../services/idp/keycloak-connector';
+import { JumpCloudConnector } from '../services/idp/jumpcloud-connector';
+import { OneLoginConnector } from '../services/idp/onelogin-connector';
+
+const TENANT = 't1';
+
+interface StubResponse {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Route fetch calls to a handler and record each request
+ */
+function stubFetch(handler: (url: URL, init: RequestInit) => StubResponse) {
+  const requests: Array<{ method: string; url: URL; body?: string }> = [];
+  jest.spyOn(globalThis, 'fetch').mockImplementation(async (input, init = {}) => {
+    const url = new URL(String(input));
+    requests.push({ method: init.method || 'GET', url, body: init.body as string | undefined });
+    const { status = 200, body, headers } = handler(url, init);
+    return new Response(body === undefined ? null : JSON.stringify(body), { status, headers });
+  });
+  return requests;
+}
+
+const route = (url: URL) => url.pathname;
+
+function spyOnUpserts(connector: object) {
+  return jest.spyOn(connector as any, 'upsertDirectoryUser').mockResolvedValue('added' as never);
+}
+
+describe('Directory connectors', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Directory user upsert', () => {
+    const connector = () => new JumpCloudConnector({ clientId: '', clientSecret: 'key', scopes: [] }, TENANT, 'idp-1');
+    const upsert = (profile: object) => (connector() as any).upsertDirectoryUser(profile);
+
+    it('should update an existing tenant user, keeping fields the directory leaves empty', async () => {
+      jest.spyOn(storage, 'getUserByEmail').mockResolvedValue({ id: 'u1', firstName: 'Ada', lastName: 'Lovelace', department: 'R&D', jobTitle: 'Engineer' } as any);
+      const update = jest.spyOn(storage, 'updateUser').mockResolvedValue(undefined);
+
+      expect(await upsert({ email: 'Ada@Example.com', jobTitle: 'Principal Engineer' })).toBe('updated');
+      expect(storage.getUserByEmail).toHaveBeenCalledWith('ada@example.com', TENANT);
+      expect(update).toHaveBeenCalledWith('u1', { firstName: 'Ada', lastName: 'Lovelace', department: 'R&D', jobTitle: 'Principal Engineer' });
+    });
+
+    it('should skip an email that belongs to another tenant', async () => {
+      jest.spyOn(storage, 'getUserByEmail').mockImplementation(async (_email, tenantId) =>
+        tenantId ? undefined : ({ id: 'other', tenantId: 't2' } as any));
+      const create = jest.spyOn(storage, 'createUser');
+
+      expect(await upsert({ email: 'ada@example.com' })).toBe('skipped');
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should create a technician with a unique username and an unusable password', async () => {
+      jest.spyOn(storage, 'getUserByEmail').mockResolvedValue(undefined);
+      jest.spyOn(storage, 'getUserByUsername').mockImplementation(async (username) =>
+        username === 'ada.l' ? ({ id: 'taken' } as any) : undefined);
+      const create = jest.spyOn(storage, 'createUser').mockResolvedValue({} as any);
+
+      expect(await upsert({ email: 'Ada.L@Example.com', department: 'R&D' })).toBe('added');
+      const [created] = create.mock.calls[0];
+      expect(created).toMatchObject({
+        tenantId: TENANT,
+        username: 'ada.l1',
+        email: 'ada.l@example.com',
+        firstName: 'ada.l',
+        department: 'R&D',
+        role: 'technician',
+      });
+      expect(created.password).toMatch(/^\$2[aby]\$/);
+    });
+  });
+
+  describe('LDAP', () => {
+    const config = (custom: Record<string, any> = {}) => ({
+      clientId: 'CN=svc-itam,OU=Service,DC=corp,DC=example,DC=com',
+      clientSecret: 'secret',
+      tenantDomain: 'ldaps://dc1.corp.example.com',
+      scopes: [],
+      customConfig: { baseDN: 'DC=corp,DC=example,DC=com', directoryType: 'activedirectory', appGroupFilter: '(cn=app-*)', ...custom },
+    });
+
+    const users = [
+      { dn: 'CN=Ada,OU=Staff,DC=corp,DC=example,DC=com', mail: 'Ada@Example.com', givenName: 'Ada', sn: 'Lovelace', department: 'R&D', title: 'Engineer', userAccountControl: '512', whenCreated: '20240115103000.0Z' },
+      { dn: 'CN=Bob,OU=Staff,DC=corp,DC=example,DC=com', userPrincipalName: 'bob@example.com', userAccountControl: '512' },
+      { dn: 'CN=Gone,OU=Staff,DC=corp,DC=example,DC=com', mail: 'gone@example.com', userAccountControl: '514' },
+    ];
+    const groups = [
+      { dn: 'CN=app-jira,OU=Apps,DC=corp,DC=example,DC=com', cn: 'app-jira', description: 'Jira', member: ['cn=ada,ou=staff,dc=corp,dc=example,dc=com', 'CN=Gone,OU=Staff,DC=corp,DC=example,DC=com'], whenCreated: '20230301000000.0Z' },
+      { dn: 'CN=app-wiki,OU=Apps,DC=corp,DC=example,DC=com', cn: 'app-wiki', uniqueMember: 'CN=Bob,OU=Staff,DC=corp,DC=example,DC=com' },
+    ];
+
+    let searches: Array<{ base: string; options: any }>;
+    let modifications: Array<{ dn: string; change: any }>;
+
+    beforeEach(() => {
+      searches = [];
+      modifications = [];
+      jest.spyOn(Client.prototype, 'bind').mockResolvedValue(undefined);
+      jest.spyOn(Client.prototype, 'unbind').mockResolvedValue(undefined);
+      jest.spyOn(Client.prototype, 'search').mockImplementation(async (base: any, options: any = {}) => {
+        searches.push({ base, options });
+        const filter: string = options.filter || '';
+        let searchEntries: any[] = [];
+        if (options.scope === 'base') {
+          searchEntries = groups.filter(group => group.dn === base);
+        } else if (filter.includes('member=')) {
+          searchEntries = groups;
+        } else if (filter.includes('objectClass=group')) {
+          searchEntries = groups;
+        } else if (filter.includes('mail=')) {
+          searchEntries = users.filter(user => filter.includes(`=${user.mail ?? user.userPrincipalName})`));
+        } else {
+          searchEntries = users;
+        }
+        return { searchEntries, searchReferences: [] } as any;
+      });
+      jest.spyOn(Client.prototype, 'modify').mockImplementation(async (dn: any, change: any) => {
+        modifications.push({ dn, change });
+      });
+    });
+
+    it('should map enabled users and page through the directory', async () => {
+      const connector = new LdapConnector(config(), TENANT, 'idp-1');
+      const upserts = spyOnUpserts(connector);
+
+      expect(await connector.syncUsers()).toEqual({ usersAdded: 2, usersUpdated: 0 });
+      expect(upserts.mock.calls.map(([profile]) => profile)).toEqual([
+        { email: 'ada@example.com', firstName: 'Ada', lastName: 'Lovelace', department: 'R&D', jobTitle: 'Engineer' },
+        { email: 'bob@example.com', firstName: undefined, lastName: undefined, department: undefined, jobTitle: undefined },
+      ]);
+      expect(searches[0].options).toMatchObject({
+        filter: '(&(objectCategory=person)(objectClass=user))',
+        paged: { pageSize: 500 },
+      });
+      expect(Client.prototype.unbind).toHaveBeenCalled();
+    });
+
+    it('should map app groups and their enabled members', async () => {
+      const connector = new LdapConnector(config(), TENANT, 'idp-1');
+
+      const apps = await connector.discoverApps();
+      const access = await connector.discoverUserAccess();
+
+      expect(apps.map(app => app.name)).toEqual(['app-jira', 'app-wiki']);
+      expect(apps[0]).toMatchObject({ externalId: groups[0].dn, metadata: { description: 'Jira', directoryType: 'activedirectory' } });
+      expect(access).toEqual([
+        { userId: 'ada@example.com', appExternalId: groups[0].dn, permissions: [], grantedDate: new Date(Date.UTC(2023, 2, 1)) },
+        { userId: 'bob@example.com', appExternalId: groups[1].dn, permissions: [], grantedDate: expect.any(Date) },
+      ]);
+    });
+
+    it('should combine the configured app group filter into a single filter', async () => {
+      const connector = new LdapConnector(config({ appGroupFilter: '(&(cn=app-*)(description=a\\29b))' }), TENANT, 'idp-1');
+
+      await connector.discoverApps();
+
+      expect(searches[0].options.filter).toBe('(&(objectClass=group)(&(cn=app-*)(description=a\\29b)))');
+    });
+
+    it('should reject configured filters that would escape the combined filter', () => {
+      expect(() => new LdapConnector(config({ appGroupFilter: '(cn=app-*))(|(objectClass=*)' }), TENANT, 'idp-1'))
+        .toThrow(/Invalid LDAP appGroupFilter/);
+      expect(() => new LdapConnector(config({ userFilter: '(uid=*)(uid=admin)' }), TENANT, 'idp-1'))
+        .toThrow(/Invalid LDAP userFilter/);
+    });
+
+    it('should skip app discovery without an app group filter', async () => {
+      const connector = new LdapConnector(config({ appGroupFilter: undefined }), TENANT, 'idp-1');
+
+      expect(await connector.discoverApps()).toEqual([]);
+      expect(await connector.discoverUserAccess()).toEqual([]);
+      expect(searches).toHaveLength(0);
+    });
+
+    it('should escape the email when looking a user up', async () => {
+      const connector = new LdapConnector(config(), TENANT, 'idp-1');
+
+      await expect(connector.getUserGroups('*)(objectClass=*')).rejects.toThrow('User not found');
+
+      expect(searches[0].options.filter).toBe(
+        '(&(&(objectCategory=person)(objectClass=user))(|(mail=\\2a\\29\\28objectClass=\\2a)(userPrincipalName=\\2a\\29\\28objectClass=\\2a)))'
+      );
+    });
+
+    it('should remove a user from every group using the matching member attribute', async () => {
+      const connector = new LdapConnector(config(), TENANT, 'idp-1');
+      jest.mocked(Client.prototype.modify).mockImplementationOnce(async () => {
+        throw new Error('Object class violation');
+      });
+
+      expect(await connector.removeUserFromAllGroups('bob@example.com')).toBe(1);
+
+      const groupLookup = searches.find(search => search.options.filter?.includes('member='))!;
+      expect(groupLookup.options.filter).toBe(
+        '(&(objectClass=group)(|(member=CN=Bob,OU=Staff,DC=corp,DC=example,DC=com)(uniqueMember=CN=Bob,OU=Staff,DC=corp,DC=example,DC=com)))'
+      );
+      expect(modifications).toHaveLength(1);
+      expect(modifications[0].dn).toBe(groups[1].dn);
+      expect(modifications[0].change.operation).toBe('delete');
+      expect(modifications[0].change.modification).toMatchObject({ type: 'uniqueMember', values: [users[1].dn] });
+    });
+  });
+
+  describe('Keycloak', () => {
+    const config = { clientId: 'itam', clientSecret: 'secret', tenantDomain: 'https://sso.example.com/realms/acme', scopes: [] };
+    const admin = '/admin/realms/acme';
+
+    const client = (index: number) => ({ id: `c${index}`, clientId: `app-${index}`, enabled: true });
+
+    it('should page through clients with first/max and drop built-in and disabled ones', async () => {
+      const clients = [
+        { id: 'a', clientId: 'account', enabled: true },
+        { id: 'x', clientId: 'legacy', enabled: false },
+        ...Array.from({ length: 101 }, (_, index) => client(index)),
+      ];
+      const requests = stubFetch((url) => {
+        if (route(url).endsWith('/token')) return { body: { access_token: 'tok', expires_in: 300 } };
+        const first = Number(url.searchParams.get('first'));
+        const max = Number(url.searchParams.get('max'));
+        return { body: clients.slice(first, first + max) };
+      });
+
+      const apps = await new KeycloakConnector(config, TENANT, 'idp-1').discoverApps();
+
+      expect(apps).toHaveLength(101);
+      expect(apps.map(app => app.externalId)).not.toContain('account');
+      const pages = requests.filter(request => route(request.url) === `${admin}/clients`);
+      expect(pages.map(request => request.url.searchParams.get('first'))).toEqual(['0', '100']);
+      // One token serves every page
+      expect(requests.filter(request => route(request.url).endsWith('/token'))).toHaveLength(1);
+    });
+
+    it('should merge client roles into one grant per user and client', async () => {
+      stubFetch((url) => {
+        const path = route(url);
+        if (path.endsWith('/token')) return { body: { access_token: 'tok', expires_in: 300 } };
+        if (path === `${admin}/clients`) return { body: [{ id: 'c1', clientId: 'grafana', name: 'Grafana', enabled: true, baseUrl: 'https://grafana.example.com' }] };
+        if (path === `${admin}/clients/c1/roles`) return { body: [{ name: 'viewer' }, { name: 'editor' }] };
+        if (path === `${admin}/clients/c1/roles/viewer/users`) {
+          return { body: [{ id: 'u1', email: 'ada@example.com', enabled: true, createdTimestamp: 1700000000000 }, { id: 'u2', email: 'gone@example.com', enabled: false }] };
+        }
+        if (path === `${admin}/clients/c1/roles/editor/users`) return { body: [{ id: 'u1', email: 'ada@example.com', enabled: true }] };
+        return { status: 404 };
+      });
+
+      const access = await new KeycloakConnector(config, TENANT, 'idp-1').discoverUserAccess();
+
+      expect(access).toEqual([
+        { userId: 'ada@example.com', appExternalId: 'grafana', permissions: ['viewer', 'editor'], grantedDate: new Date(1700000000000) },
+      ]);
+    });
+
+    it('should map user attributes when syncing', async () => {
+      stubFetch((url) => {
+        if (route(url).endsWith('/token')) return { body: { access_token: 'tok', expires_in: 300 } };
+        return {
+          body: [
+            { id: 'u1', username: 'ada', email: 'ada@example.com', firstName: 'Ada', lastName: 'Lovelace', enabled: true, attributes: { department: ['R&D'], jobTitle: ['Engineer'] } },
+            { id: 'u2', username: 'svc', enabled: true },
+            { id: 'u3', username: 'gone', email: 'gone@example.com', enabled: false },
+          ],
+        };
+      });
+      const connector = new KeycloakConnector(config, TENANT, 'idp-1');
+      const upserts = spyOnUpserts(connector);
+
+      expect(await connector.syncUsers()).toEqual({ usersAdded: 1, usersUpdated: 0 });
+      expect(upserts).toHaveBeenCalledWith({ email: 'ada@example.com', firstName: 'Ada', lastName: 'Lovelace', department: 'R&D', jobTitle: 'Engineer' });
+    });
+
+    it('should remove a user from all groups, treating already-removed groups as done', async () => {
+      const requests = stubFetch((url, init) => {
+        const path = route(url);
+        if (path.endsWith('/token')) return { body: { access_token: 'tok', expires_in: 300 } };
+        if (path === `${admin}/users`) return { body: [{ id: 'u1', email: 'Ada@Example.com', enabled: true }] };
+        if (path === `${admin}/users/u1/groups`) return { body: [{ id: 'g1', name: 'eng', path: '/eng' }, { id: 'g2', name: 'ops', path: '/ops' }, { id: 'g3', name: 'sec', path: '/sec' }] };
+        if (init.method === 'DELETE') {
+          if (path.endsWith('/g2')) return { status: 404 };
+          if (path.endsWith('/g3')) return { status: 403 };
+          return { status: 204 };
+        }
+        return { status: 404 };
+      });
+
+      expect(await new KeycloakConnector(config, TENANT, 'idp-1').removeUserFromAllGroups('ada@example.com')).toBe(2);
+      expect(requests.filter(request => request.method === 'DELETE').map(request => route(request.url))).toEqual([
+        `${admin}/users/u1/groups/g1`,
+        `${admin}/users/u1/groups/g2`,
+        `${admin}/users/u1/groups/g3`,
+      ]);
+    });
+  });
+
+  describe('JumpCloud', () => {
+    const config = { clientId: 'org-1', clientSecret: 'api-key', scopes: [] };
+    const user = (index: number, overrides: object = {}) => ({ _id: `u${index}`, username: `user${index}`, email: `user${index}@example.com`, activated: true, ...overrides });
+
+    it('should page v1 lists by skip until totalCount and drop suspended users', async () => {
+      const all = [...Array.from({ length: 100 }, (_, index) => user(index)), user(100, { suspended: true }), user(101, { state: 'SUSPENDED' }), user(102, { activated: false })];
+      const requests = stubFetch((url) => {
+        const skip = Number(url.searchParams.get('skip'));
+        const limit = Number(url.searchParams.get('limit'));
+        return { body: { totalCount: all.length, results: all.slice(skip, skip + limit) } };
+      });
+      const connector = new JumpCloudConnector(config, TENANT, 'idp-1');
+      const upserts = spyOnUpserts(connector);
+
+      expect(await connector.syncUsers()).toEqual({ usersAdded: 100, usersUpdated: 0 });
+      expect(requests.map(request => request.url.searchParams.get('skip'))).toEqual(['0', '100']);
+      expect(requests[0].url.pathname).toBe('/api/systemusers');
+      expect(upserts).toHaveBeenCalledWith({ email: 'user0@example.com', firstName: undefined, lastName: undefined, department: undefined, jobTitle: undefined });
+    });
+
+    it('should send the API key and organization ID', async () => {
+      stubFetch(() => ({ body: { totalCount: 0, results: [] } }));
+
+      await new JumpCloudConnector(config, TENANT, 'idp-1').testConnection();
+
+      const [, init] = jest.mocked(globalThis.fetch).mock.calls[0];
+      expect(init!.headers).toMatchObject({ 'x-api-key': 'api-key', 'x-org-id': 'org-1' });
+    });
+
+    it('should map applications and tell direct bindings from group bindings', async () => {
+      stubFetch((url) => {
+        const path = route(url);
+        if (path === '/api/applications') {
+          return { body: { totalCount: 2, results: [
+            { _id: 'a1', name: 'slack', displayLabel: 'Slack', ssoUrl: 'https://sso.jumpcloud.com/saml2/slack', logo: { url: 'https://cdn/slack.png' }, created: '2024-01-01T00:00:00Z' },
+            { _id: 'a2', name: 'legacy', active: false },
+          ] } };
+        }
+        if (path === '/api/systemusers') return { body: { totalCount: 3, results: [user(1), user(2), user(3, { suspended: true })] } };
+        if (path === '/api/v2/applications/a1/users') {
+          return { body: [
+            { id: 'u1', type: 'user', paths: [[{ to: { id: 'a1', type: 'application' } }]] },
+            { id: 'u2', type: 'user', paths: [[{ to: { id: 'g1', type: 'user_group' } }, { to: { id: 'a1', type: 'application' } }]] },
+            { id: 'u3', type: 'user', paths: [[{ to: { id: 'a1', type: 'application' } }]] },
+          ] };
+        }
+        return { status: 404 };
+      });
+      const connector = new JumpCloudConnector(config, TENANT, 'idp-1');
+
+      const apps = await connector.discoverApps();
+      const access = await connector.discoverUserAccess();
+
+      expect(apps).toEqual([{
+        externalId: 'a1',
+        name: 'Slack',
+        logoUrl: 'https://cdn/slack.png',
+        websiteUrl: 'https://sso.jumpcloud.com/saml2/slack',
+        permissions: [],
+        metadata: { connector: 'slack' },
+      }]);
+      expect(access.map(grant => [grant.userId, grant.permissions])).toEqual([
+        ['user1@example.com', ['direct']],
+        ['user2@example.com', ['group']],
+      ]);
+    });
+
+    it('should remove a user from the user groups they are directly in', async () => {
+      const requests = stubFetch((url) => {
+        const path = route(url);
+        if (path === '/api/systemusers') return { body: { results: [user(1)] } };
+        if (path === '/api/v2/users/u1/memberof') {
+          return { body: [
+            { id: 'g1', type: 'user_group', paths: [[{ to: { id: 'g1', type: 'user_group' } }]] },
+            { id: 'g2', type: 'user_group', paths: [[{ to: { id: 'g1', type: 'user_group' } }, { to: { id: 'g2', type: 'user_group' } }]] },
+            { id: 'a1', type: 'application', paths: [[{ to: { id: 'a1', type: 'application' } }]] },
+          ] };
+        }
+        return { status: 204 };
+      });
+
+      expect(await new JumpCloudConnector(config, TENANT, 'idp-1').removeUserFromAllGroups('user1@example.com')).toBe(1);
+      expect(requests[0].url.searchParams.get('filter')).toBe('email:$eq:user1@example.com');
+      const removal = requests.find(request => request.method === 'POST')!;
+      expect(route(removal.url)).toBe('/api/v2/usergroups/g1/members');
+      expect(JSON.parse(removal.body!)).toEqual({ op: 'remove', type: 'user', id: 'u1' });
+    });
+  });
+
+  describe('OneLogin', () => {
+    const config = { clientId: 'id', clientSecret: 'secret', tenantDomain: 'acme', scopes: [], customConfig: {} };
+
+    it('should follow the After-Cursor header and keep only active users', async () => {
+      const requests = stubFetch((url) => {
+        if (route(url) === '/auth/oauth2/v2/token') return { body: { access_token: 'tok', expires_in: 3600 } };
+        if (!url.searchParams.get('cursor')) {
+          return {
+            body: [{ id: 1, email: 'ada@example.com', firstname: 'Ada', lastname: 'Lovelace', department: 'R&D', title: 'Engineer', status: 1 }],
+            headers: { 'After-Cursor': 'page-2' },
+          };
+        }
+        return { body: [{ id: 2, email: 'bob@example.com', status: 1 }, { id: 3, email: 'gone@example.com', status: 2 }] };
+      });
+      const connector = new OneLoginConnector(config, TENANT, 'idp-1');
+      const upserts = spyOnUpserts(connector);
+
+      expect(await connector.syncUsers()).toEqual({ usersAdded: 2, usersUpdated: 0 });
+      expect(upserts).toHaveBeenCalledWith({ email: 'ada@example.com', firstName: 'Ada', lastName: 'Lovelace', department: 'R&D', jobTitle: 'Engineer' });
+      const pages = requests.filter(request => route(request.url) === '/api/2/users');
+      expect(pages.map(request => request.url.searchParams.get('cursor'))).toEqual([null, 'page-2']);
+      expect(pages[0].url.host).toBe('acme.onelogin.com');
+    });
+
+    it('should map applications and the active users assigned to them', async () => {
+      stubFetch((url) => {
+        const path = route(url);
+        if (path === '/auth/oauth2/v2/token') return { body: { access_token: 'tok', expires_in: 3600 } };
+        if (path === '/api/2/apps') return { body: [{ id: 42, name: 'Zoom', icon_url: 'https://cdn/zoom.png', connector_id: 7, visible: true, created_at: '2024-01-01T00:00:00Z' }] };
+        if (path === '/api/2/users') return { body: [{ id: 1, email: 'ada@example.com', status: 1 }, { id: 3, email: 'gone@example.com', status: 2 }] };
+        if (path === '/api/2/apps/42/users') return { body: [{ id: 1 }, { id: 3 }] };
+        return { status: 404 };
+      });
+      const connector = new OneLoginConnector(config, TENANT, 'idp-1');
+
+      const [app] = await connector.discoverApps();
+      const access = await connector.discoverUserAccess();
+
+      expect(app).toMatchObject({ externalId: '42', name: 'Zoom', logoUrl: 'https://cdn/zoom.png', metadata: { connectorId: 7, visible: true } });
+      expect(access).toEqual([
+        { userId: 'ada@example.com', appExternalId: '42', permissions: [], grantedDate: new Date('2024-01-01T00:00:00Z') },
+      ]);
+    });
+
+    it('should remove a user from every role', async () => {
+      const requests = stubFetch((url) => {
+        const path = route(url);
+        if (path === '/auth/oauth2/v2/token') return { body: { access_token: 'tok', expires_in: 3600 } };
+        if (path === '/api/2/users') return { body: [{ id: 1, email: 'ada@example.com', status: 1 }] };
+        if (path === '/api/2/users/1/roles') return { body: [10, 20] };
+        return { status: 204 };
+      });
+
+      expect(await new OneLoginConnector(config, TENANT, 'idp-1').removeUserFromAllGroups('ada@example.com')).toBe(2);
+      const removals = requests.filter(request => request.method === 'DELETE');
+      expect(removals.map(request => route(request.url))).toEqual(['/api/2/roles/10/users', '/api/2/roles/20/users']);
+      expect(JSON.parse(removals[0].body!)).toEqual([1]);
+    });
+
+    it('should reject domains outside onelogin.com', () => {
+      expect(() => new OneLoginConnector({ ...config, tenantDomain: 'evil.example.com' }, TENANT, 'idp-1'))
+        .toThrow('Invalid OneLogin domain');
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { sql } from 'drizzle-orm';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { EventDelivery, EventOutboxRecord } from '@shared/schema';
+import { db } from '../db';
+import { storage } from '../storage';
+import { EventSystem, computeRetryDelay, type EventHandler } from '../services/policy/event-system';
+
+const OPTIONS = { baseRetryDelayMs: 1000, maxRetryDelayMs: 10000 };
+
+function outboxEvent(payload: Record<string, any>): EventOutboxRecord {
+  return { id: 'evt-1', tenantId: 't1', eventName: 'app.discovered', payload, createdAt: new Date() };
+}
+
+function delivery(overrides: Partial<EventDelivery> = {}): EventDelivery {
+  return {
+    id: 'dlv-1',
+    tenantId: 't1',
+    eventId: 'evt-1',
+    eventName: 'app.discovered',
+    consumer: 'policy-engine',
+    status: 'processing',
+    attempts: 0,
+    maxAttempts: 3,
+    nextAttemptAt: new Date(),
+    lockedAt: new Date(),
+    lastError: null,
+    deliveredAt: null,
+    deadLetteredAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+/**
+ * Hand the dispatcher one claimed delivery and collect the updates it records
+ */
+function dispatchOnce(claimed: EventDelivery, event: EventOutboxRecord) {
+  jest.spyOn(storage, 'claimDueEventDeliveries').mockResolvedValue([claimed]);
+  jest.spyOn(storage, 'getOutboxEventsByIds').mockResolvedValue([event]);
+  return jest.spyOn(storage, 'updateEventDelivery').mockResolvedValue(undefined);
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Event outbox', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should back off exponentially up to the cap', () => {
+    expect(computeRetryDelay(1, OPTIONS)).toBe(1000);
+    expect(computeRetryDelay(2, OPTIONS)).toBe(2000);
+    expect(computeRetryDelay(4, OPTIONS)).toBe(8000);
+    expect(computeRetryDelay(6, OPTIONS)).toBe(10000);
+  });
+
+  it('should mark a delivery delivered once the consumer succeeds', async () => {
+    const events = new EventSystem(OPTIONS);
+    const handler = jest.fn<EventHandler>();
+    events.subscribe('policy-engine', 'app.discovered', handler);
+    const updates = dispatchOnce(delivery(), outboxEvent({ tenantId: 't1', appName: 'Notion' }));
+
+    expect(await events.processDueDeliveries()).toBe(1);
+    expect(handler).toHaveBeenCalledWith({ tenantId: 't1', appName: 'Notion' }, { eventId: 'evt-1' });
+    expect(updates).toHaveBeenCalledWith('dlv-1', 't1', expect.objectContaining({ status: 'delivered', attempts: 1, lockedAt: null }));
+  });
+
+  it('should schedule a retry with backoff when the consumer fails', async () => {
+    const events = new EventSystem(OPTIONS);
+    events.subscribe('policy-engine', 'app.discovered', async () => {
+      throw new Error('IdP unavailable');
+    });
+    const updates = dispatchOnce(delivery({ attempts: 1 }), outboxEvent({ tenantId: 't1', appName: 'Notion' }));
+
+    const before = Date.now();
+    await events.processDueDeliveries();
+
+    const [, , update] = updates.mock.calls[0];
+    expect(update).toMatchObject({ status: 'failed', attempts: 2, lastError: 'IdP unavailable', lockedAt: null });
+    const delay = update.nextAttemptAt!.getTime() - before;
+    expect(delay).toBeGreaterThanOrEqual(2000);
+    expect(delay).toBeLessThan(3000);
+  });
+
+  it('should dead-letter a delivery on its last attempt', async () => {
+    const events = new EventSystem(OPTIONS);
+    events.subscribe('policy-engine', 'app.discovered', async () => {
+      throw new Error('IdP unavailable');
+    });
+    const updates = dispatchOnce(delivery({ attempts: 2 }), outboxEvent({ tenantId: 't1', appName: 'Notion' }));
+
+    await events.processDueDeliveries();
+
+    expect(updates).toHaveBeenCalledWith('dlv-1', 't1', expect.objectContaining({
+      status: 'dead_letter',
+      attempts: 3,
+      lastError: 'IdP unavailable',
+      deadLetteredAt: expect.any(Date),
+    }));
+  });
+
+  it('should dead-letter invalid payloads instead of throwing at the emitter', async () => {
+    const events = new EventSystem(OPTIONS);
+    const handler = jest.fn<EventHandler>();
+    events.subscribe('policy-engine', 'app.discovered', handler);
+    const created = jest.spyOn(storage, 'createOutboxEvent').mockResolvedValue({
+      event: outboxEvent({ tenantId: 't1' }),
+      deliveries: [delivery()],
+    });
+    const updates = jest.spyOn(storage, 'updateEventDelivery').mockResolvedValue(undefined);
+
+    // appName is required by the app.discovered schema
+    expect(() => events.emit('app.discovered', { tenantId: 't1' } as any)).not.toThrow();
+    await flush();
+
+    expect(created.mock.calls[0]).toEqual([{ tenantId: 't1', eventName: 'app.discovered', payload: { tenantId: 't1' } }, ['policy-engine'], 8]);
+    expect(updates).toHaveBeenCalledWith('dlv-1', 't1', expect.objectContaining({
+      status: 'dead_letter',
+      lastError: expect.stringContaining('Invalid payload'),
+    }));
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should not deliver an invalid payload when it is replayed', async () => {
+    const events = new EventSystem(OPTIONS);
+    const handler = jest.fn<EventHandler>();
+    events.subscribe('policy-engine', 'app.discovered', handler);
+    const updates = dispatchOnce(delivery({ status: 'pending' }), outboxEvent({ tenantId: 't1' }));
+
+    await events.processDueDeliveries();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(updates).toHaveBeenCalledWith('dlv-1', 't1', expect.objectContaining({ status: 'dead_letter', attempts: 0 }));
+  });
+
+  it('should claim due and stale deliveries with FOR UPDATE SKIP LOCKED', async () => {
+    let claimCondition: any;
+    jest.spyOn(db, 'update').mockReturnValue({
+      set: () => ({
+        where: (condition: any) => {
+          claimCondition = condition;
+          return { returning: async () => [] };
+        },
+      }),
+    } as any);
+
+    const staleBefore = new Date('2026-10-19T11:55:00Z');
+    await storage.claimDueEventDeliveries(25, staleBefore);
+
+    const query = new PgDialect().sqlToQuery(sql`${claimCondition}`);
+    expect(query.sql).toMatch(/for update skip locked/i);
+    expect(query.sql).toContain('"next_attempt_at" <=');
+    expect(query.sql).toContain('"locked_at" <');
+    expect(query.params).toEqual(expect.arrayContaining(['pending', 'failed', 'processing', 25]));
+  });
+});
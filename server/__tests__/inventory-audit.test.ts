@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+import type { InventoryAuditItem } from '@shared/schema';
+import { buildVarianceReport, classifyScan, isExpectedAt } from '../services/assets/inventory-variance';
+
+const item = (overrides: Partial<InventoryAuditItem>): InventoryAuditItem => ({
+  id: overrides.id ?? 'item',
+  tenantId: 'tenant',
+  auditId: 'audit',
+  assetId: null,
+  assetName: null,
+  assetTag: null,
+  serialNumber: null,
+  expected: false,
+  registeredLocation: null,
+  result: 'pending',
+  scannedCode: null,
+  scannedAt: null,
+  scannedBy: null,
+  scannedByName: null,
+  notes: null,
+  resolution: null,
+  createdAt: null,
+  updatedAt: null,
+  ...overrides,
+});
+
+describe('Inventory audit variance', () => {
+  it('should expect active hardware registered at the location', () => {
+    expect(isExpectedAt({ type: 'Hardware', status: 'deployed', location: ' HQ  Store Room ' }, 'hq store room')).toBe(true);
+    expect(isExpectedAt({ type: 'Software', status: 'deployed', location: 'HQ Store Room' }, 'HQ Store Room')).toBe(false);
+    expect(isExpectedAt({ type: 'Hardware', status: 'disposed', location: 'HQ Store Room' }, 'HQ Store Room')).toBe(false);
+    expect(isExpectedAt({ type: 'Hardware', status: 'in-stock', location: null }, 'HQ Store Room')).toBe(false);
+  });
+
+  it('should classify scans against the audited location', () => {
+    expect(classifyScan({ status: 'in-stock', location: 'HQ Store Room' }, 'HQ Store Room')).toBe('found');
+    expect(classifyScan({ status: 'deployed', location: 'Branch Office' }, 'HQ Store Room')).toBe('wrong_location');
+    expect(classifyScan({ status: 'retired', location: 'HQ Store Room' }, 'HQ Store Room')).toBe('unexpected');
+    expect(classifyScan(null, 'HQ Store Room')).toBe('unexpected');
+  });
+
+  it('should total the variance and accuracy over expected assets', () => {
+    const report = buildVarianceReport([
+      item({ id: '1', assetId: 'a1', expected: true, result: 'found' }),
+      item({ id: '2', assetId: 'a2', expected: true, result: 'found' }),
+      item({ id: '3', assetId: 'a3', expected: true, result: 'missing' }),
+      item({ id: '4', assetId: 'a4', expected: true, result: 'pending' }),
+      item({ id: '5', assetId: 'a5', result: 'wrong_location', registeredLocation: 'Branch Office' }),
+      item({ id: '6', assetId: 'a6', result: 'found' }),
+      item({ id: '7', result: 'unexpected', scannedCode: 'SN-UNKNOWN' }),
+    ]);
+
+    // Assets registered here after the audit started are found but do not raise accuracy
+    expect(report.totals).toEqual({ expected: 4, found: 3, missing: 1, wrongLocation: 1, unexpected: 1, pending: 1 });
+    expect(report.accuracy).toBe(50);
+    expect(report.wrongLocation[0].registeredLocation).toBe('Branch Office');
+    expect(report.unexpected[0].scannedCode).toBe('SN-UNKNOWN');
+    expect(buildVarianceReport([]).accuracy).toBe(100);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from '@jest/globals';
+import crypto from 'crypto';
+import { base32Encode, generateHotp, generateTotp, verifyTotp, getTimeStep } from '../services/mfa/totp';
+import { verifyAuthenticationResponse, WebAuthnVerificationError } from '../services/mfa/webauthn';
+import { generateRecoveryCodes, hashRecoveryCode } from '../services/mfa/recovery-codes';
+
+// RFC 4226 / RFC 6238 reference secret "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('MFA', () => {
+  describe('TOTP', () => {
+    it('should match the RFC 4226 HOTP test vectors', () => {
+      expect(generateHotp(RFC_SECRET, 0)).toBe('755224');
+      expect(generateHotp(RFC_SECRET, 1)).toBe('287082');
+      expect(generateHotp(RFC_SECRET, 9)).toBe('520489');
+    });
+
+    it('should match the RFC 6238 SHA-1 test vectors (6 digits)', () => {
+      expect(generateTotp(RFC_SECRET, new Date(59 * 1000))).toBe('287082');
+      expect(generateTotp(RFC_SECRET, new Date(1111111109 * 1000))).toBe('081804');
+      expect(generateTotp(RFC_SECRET, new Date(2000000000 * 1000))).toBe('279037');
+    });
+
+    it('should accept codes within one step and return the matched step', () => {
+      const now = new Date('2025-06-01T12:00:00Z');
+      const previous = generateTotp(RFC_SECRET, new Date(now.getTime() - 30 * 1000));
+
+      expect(verifyTotp(RFC_SECRET, previous, { now })).toBe(getTimeStep(now) - 1);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, new Date(now.getTime() - 90 * 1000)), { now })).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abc123', { now })).toBeNull();
+    });
+
+    it('should reject replays of an already used step', () => {
+      const now = new Date('2025-06-01T12:00:00Z');
+      const code = generateTotp(RFC_SECRET, now);
+
+      expect(verifyTotp(RFC_SECRET, code, { now, lastUsedStep: getTimeStep(now) })).toBeNull();
+      expect(verifyTotp(RFC_SECRET, code, { now, lastUsedStep: getTimeStep(now) - 1 })).toBe(getTimeStep(now));
+    });
+  });
+
+  describe('Recovery codes', () => {
+    it('should generate unique formatted codes', () => {
+      const codes = generateRecoveryCodes();
+
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      codes.forEach(code => expect(code).toMatch(/^[A-Z2-9]{5}-[A-Z2-9]{5}$/));
+    });
+
+    it('should hash codes regardless of case, spaces and dashes', () => {
+      const [code] = generateRecoveryCodes(1);
+      const relaxed = ` ${code.replace('-', ' ').toLowerCase()} `;
+
+      expect(hashRecoveryCode(relaxed)).toBe(hashRecoveryCode(code));
+      expect(hashRecoveryCode(code)).not.toBe(hashRecoveryCode(generateRecoveryCodes(1)[0]));
+    });
+  });
+
+  describe('WebAuthn assertions', () => {
+    const rp = { id: 'app.example.com', name: 'Test', origins: ['https://app.example.com'] };
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const stored = {
+      publicKey: publicKey.export({ format: 'der', type: 'spki' }).toString('base64url'),
+      signCount: 4,
+    };
+
+    function buildAssertion(challenge: string, options: { signCount?: number; origin?: string; flags?: number } = {}) {
+      const clientDataJSON = Buffer.from(JSON.stringify({
+        type: 'webauthn.get',
+        challenge,
+        origin: options.origin || 'https://app.example.com',
+      }));
+
+      const authenticatorData = Buffer.alloc(37);
+      crypto.createHash('sha256').update(rp.id).digest().copy(authenticatorData, 0);
+      authenticatorData.writeUInt8(options.flags ?? 0x05, 32);
+      authenticatorData.writeUInt32BE(options.signCount ?? 5, 33);
+
+      const signature = crypto.sign(
+        'sha256',
+        Buffer.concat([authenticatorData, crypto.createHash('sha256').update(clientDataJSON).digest()]),
+        privateKey
+      );
+
+      return {
+        id: 'credential-1',
+        type: 'public-key',
+        response: {
+          clientDataJSON: clientDataJSON.toString('base64url'),
+          authenticatorData: authenticatorData.toString('base64url'),
+          signature: signature.toString('base64url'),
+        },
+      };
+    }
+
+    it('should verify a signed assertion and return the new counter', () => {
+      const result = verifyAuthenticationResponse(buildAssertion('challenge-1'), 'challenge-1', stored, rp);
+
+      expect(result).toEqual({ signCount: 5, userVerified: true });
+    });
+
+    it('should reject a wrong challenge, origin, regressed counter or missing user presence', () => {
+      expect(() => verifyAuthenticationResponse(buildAssertion('other'), 'challenge-1', stored, rp))
+        .toThrow(WebAuthnVerificationError);
+      expect(() => verifyAuthenticationResponse(buildAssertion('challenge-1', { origin: 'https://evil.example.com' }), 'challenge-1', stored, rp))
+        .toThrow(WebAuthnVerificationError);
+      expect(() => verifyAuthenticationResponse(buildAssertion('challenge-1', { signCount: 4 }), 'challenge-1', stored, rp))
+        .toThrow('Signature counter did not increase');
+      expect(() => verifyAuthenticationResponse(buildAssertion('challenge-1', { flags: 0x00 }), 'challenge-1', stored, rp))
+        .toThrow('User presence was not asserted');
+    });
+
+    it('should reject a tampered signature', () => {
+      const assertion = buildAssertion('challenge-1');
+      const forged = buildAssertion('challenge-1', { signCount: 6 });
+      assertion.response.signature = forged.response.signature;
+
+      expect(() => verifyAuthenticationResponse(assertion, 'challenge-1', stored, rp)).toThrow('Invalid signature');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import * as snmp from 'net-snmp';
+import {
+  expandNetworkRange,
+  expandNetworkRanges,
+  fingerprintPorts,
+  formatMacAddress,
+  probeSnmp,
+} from '../services/discovery/network-scanner';
+
+const SIMULATOR_PORT = 16161;
+
+/**
+ * Local SNMP simulator: an in-process net-snmp agent answering the system group
+ * for the "public" community on a high UDP port
+ */
+function startSimulator(): any {
+  const agent = snmp.createAgent({ port: SIMULATOR_PORT }, () => undefined);
+  agent.getAuthorizer().addCommunity('public');
+
+  const mib = agent.getMib();
+  const scalars: Array<[string, string, number, unknown]> = [
+    ['sysDescr', '1.3.6.1.2.1.1.1', snmp.ObjectType.OctetString, 'Cisco IOS Software, C2960 Software'],
+    ['sysObjectID', '1.3.6.1.2.1.1.2', snmp.ObjectType.OID, '1.3.6.1.4.1.9.1.716'],
+    ['sysName', '1.3.6.1.2.1.1.5', snmp.ObjectType.OctetString, 'core-switch-01'],
+  ];
+  scalars.forEach(([name, oid, scalarType, value]) => {
+    mib.registerProvider({
+      name,
+      type: snmp.MibProviderType.Scalar,
+      oid,
+      scalarType,
+      maxAccess: snmp.MaxAccess['read-only'],
+    } as any);
+    mib.setScalarValue(name, value);
+  });
+  return agent;
+}
+
+describe('Network scanner', () => {
+  describe('Range expansion', () => {
+    it('should skip network and broadcast addresses in a CIDR', () => {
+      const hosts = expandNetworkRange('192.168.10.0/30');
+      expect(hosts).toEqual(['192.168.10.1', '192.168.10.2']);
+    });
+
+    it('should expand short and full dash ranges', () => {
+      expect(expandNetworkRange('10.0.0.10-12')).toEqual(['10.0.0.10', '10.0.0.11', '10.0.0.12']);
+      expect(expandNetworkRange('10.0.0.254-10.0.1.1')).toEqual(['10.0.0.254', '10.0.0.255', '10.0.1.0', '10.0.1.1']);
+    });
+
+    it('should reject ranges over the per-job host limit', () => {
+      expect(() => expandNetworkRange('10.0.0.0/16')).toThrow(/limit per job/);
+      expect(() => expandNetworkRanges(['10.0.0.0/24', '10.0.1.0/24'], 300)).toThrow(/more than 300 hosts/);
+    });
+
+    it('should de-duplicate overlapping ranges', () => {
+      expect(expandNetworkRanges(['10.0.0.1-3', '10.0.0.2/32'])).toHaveLength(3);
+    });
+  });
+
+  describe('Fingerprinting', () => {
+    it('should classify hosts by open ports', () => {
+      expect(fingerprintPorts([80, 9100])).toBe('printer');
+      expect(fingerprintPorts([135, 445, 3389])).toBe('windows-host');
+      expect(fingerprintPorts([22])).toBe('linux-host');
+      expect(fingerprintPorts([])).toBeNull();
+    });
+
+    it('should normalise MAC addresses and ignore all-zero values', () => {
+      expect(formatMacAddress(Buffer.from([0x00, 0x1b, 0x54, 0xaa, 0xbb, 0xcc]))).toBe('00:1b:54:aa:bb:cc');
+      expect(formatMacAddress('00-1B-54-AA-BB-CC')).toBe('00:1b:54:aa:bb:cc');
+      expect(formatMacAddress(Buffer.alloc(6))).toBeNull();
+    });
+  });
+
+  describe('SNMP probe against a local simulator', () => {
+    let agent: any;
+
+    beforeAll(() => {
+      agent = startSimulator();
+    });
+
+    afterAll(() => {
+      agent.close();
+    });
+
+    it('should read the system group with a matching community', async () => {
+      const result = await probeSnmp(
+        '127.0.0.1',
+        { snmpVersion: 'v2c', communityString: 'public' },
+        { port: SIMULATOR_PORT, timeoutMs: 1000, retries: 0 }
+      );
+
+      expect(result).not.toBeNull();
+      expect(result!.sysName).toBe('core-switch-01');
+      expect(result!.sysDescr).toContain('C2960');
+      expect(result!.manufacturer).toBe('Cisco');
+      expect(result!.interfaces).toEqual([]);
+    });
+
+    it('should return null when the community is rejected', async () => {
+      const result = await probeSnmp(
+        '127.0.0.1',
+        { snmpVersion: 'v2c', communityString: 'wrong-community' },
+        { port: SIMULATOR_PORT, timeoutMs: 500, retries: 0 }
+      );
+
+      expect(result).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { OktaConnector } from '../services/idp/okta-connector';
+
+const ORG = 'https://acme.okta.com';
+
+interface StubResponse {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Route fetch calls to a handler and record each request
+ */
+function stubFetch(handler: (url: URL, init: RequestInit) => StubResponse) {
+  const requests: Array<{ method: string; url: URL; headers: Record<string, string> }> = [];
+  jest.spyOn(globalThis, 'fetch').mockImplementation(async (input, init = {}) => {
+    const url = new URL(String(input));
+    requests.push({ method: init.method || 'GET', url, headers: init.headers as Record<string, string> });
+    const { status = 200, body, headers } = handler(url, init);
+    return new Response(body === undefined ? null : JSON.stringify(body), { status, headers });
+  });
+  return requests;
+}
+
+/**
+ * Link header Okta sends on a page that has a successor
+ */
+const nextPage = (path: string, after: string) => ({
+  link: `<${ORG}/api/v1${path}?after=${after}&limit=200>; rel="self", <${ORG}/api/v1${path}?after=${after}&limit=200>; rel="next"`,
+});
+
+const user = (id: string, profile: object, status = 'ACTIVE') => ({ id, status, profile: { login: `${id}@example.com`, ...profile } });
+
+describe('Okta connector', () => {
+  const connector = () => new OktaConnector({ clientId: '', clientSecret: 'ssws-token', tenantDomain: 'acme.okta.com', scopes: [] }, 't1', 'idp-1');
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should follow rel="next" links until the last page', async () => {
+    const requests = stubFetch((url) => {
+      switch (url.searchParams.get('after')) {
+        case null:
+          return { body: [{ id: 'a1', name: 'slack', label: 'Slack', status: 'ACTIVE', signOnMode: 'SAML_2_0' }], headers: nextPage('/apps', 'a1') };
+        case 'a1':
+          return { body: [{ id: 'a2', name: 'box', label: 'Box', status: 'ACTIVE', signOnMode: 'BOOKMARK' }], headers: nextPage('/apps', 'a2') };
+        default:
+          return { body: [{ id: 'a3', name: 'custom', label: '', status: 'ACTIVE', signOnMode: 'BASIC_AUTH' }], headers: { link: `<${ORG}/api/v1/apps?limit=200>; rel="self"` } };
+      }
+    });
+
+    const apps = await connector().discoverApps();
+
+    expect(apps.map(app => app.externalId)).toEqual(['a1', 'a2', 'a3']);
+    expect(requests.map(request => request.url.searchParams.get('after'))).toEqual([null, 'a1', 'a2']);
+    expect(requests[0].url.searchParams.get('filter')).toBe('status eq "ACTIVE"');
+    expect(requests[0].headers.Authorization).toBe('SSWS ssws-token');
+  });
+
+  it('should not follow a next link off the configured Okta org', async () => {
+    stubFetch(() => ({ body: [], headers: { link: '<https://attacker.example.com/api/v1/apps?after=x>; rel="next"' } }));
+
+    await expect(connector().discoverApps()).rejects.toThrow('attacker.example.com is not the configured Okta org');
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should map application fields and sign-on categories', async () => {
+    stubFetch(() => ({
+      body: [
+        {
+          id: 'a1',
+          name: 'oidc_client',
+          label: 'Grafana',
+          status: 'ACTIVE',
+          signOnMode: 'OPENID_CONNECT',
+          settings: { app: { url: 'https://grafana.example.com' } },
+          credentials: { oauthClient: { client_id: '0oa-grafana' } },
+          _links: { logo: [{ href: 'https://cdn/grafana.png' }] },
+        },
+        { id: 'a2', name: 'template_basic_auth', label: '', status: 'ACTIVE', signOnMode: 'BASIC_AUTH' },
+      ],
+    }));
+
+    const [grafana, basic] = await connector().discoverApps();
+
+    expect(grafana).toEqual({
+      externalId: 'a1',
+      name: 'Grafana',
+      logoUrl: 'https://cdn/grafana.png',
+      websiteUrl: 'https://grafana.example.com',
+      permissions: [],
+      metadata: { appName: 'oidc_client', signOnMode: 'OPENID_CONNECT', category: 'Authentication', oauthClientId: '0oa-grafana' },
+    });
+    expect(basic).toMatchObject({ name: 'template_basic_auth', metadata: { category: 'Other' } });
+  });
+
+  it('should map profiles of active users when syncing', async () => {
+    stubFetch(() => ({
+      body: [
+        user('u1', { email: 'ada@example.com', firstName: 'Ada', lastName: 'Lovelace', department: 'R&D', title: 'Engineer' }),
+        user('svc', {}),
+      ],
+    }));
+    const okta = connector();
+    const upserts = jest.spyOn(okta as any, 'upsertDirectoryUser').mockResolvedValue('updated' as never);
+
+    expect(await okta.syncUsers()).toEqual({ usersAdded: 0, usersUpdated: 1 });
+    expect(upserts).toHaveBeenCalledWith({ email: 'ada@example.com', firstName: 'Ada', lastName: 'Lovelace', department: 'R&D', jobTitle: 'Engineer' });
+  });
+
+  it('should map app assignments of active users across pages', async () => {
+    stubFetch((url) => {
+      const after = url.searchParams.get('after');
+      switch (url.pathname) {
+        case '/api/v1/users':
+          return { body: [user('u1', { email: 'ada@example.com' }), user('u2', {})] };
+        case '/api/v1/apps':
+          return { body: [{ id: 'a1', name: 'slack', label: 'Slack', status: 'ACTIVE', signOnMode: 'SAML_2_0' }] };
+        case '/api/v1/apps/a1/users':
+          return after
+            ? { body: [{ id: 'u3', scope: 'USER', created: '2024-03-01T00:00:00.000Z' }] }
+            : {
+                body: [
+                  { id: 'u1', scope: 'USER', created: '2024-01-01T00:00:00.000Z', lastUpdated: '2024-02-01T00:00:00.000Z' },
+                  { id: 'u2', scope: 'GROUP', created: '2024-01-02T00:00:00.000Z' },
+                ],
+                headers: nextPage('/apps/a1/users', 'u2'),
+              };
+        default:
+          return { status: 404 };
+      }
+    });
+
+    const access = await connector().discoverUserAccess();
+
+    expect(access).toEqual([
+      { userId: 'ada@example.com', appExternalId: 'a1', permissions: [], grantedDate: new Date('2024-01-01T00:00:00.000Z'), lastAccessDate: new Date('2024-02-01T00:00:00.000Z') },
+      // Users without an email are reported by login
+      { userId: 'u2@example.com', appExternalId: 'a1', permissions: [], grantedDate: new Date('2024-01-02T00:00:00.000Z'), lastAccessDate: undefined },
+    ]);
+  });
+
+  it('should group active consent grants per client and map them to apps', async () => {
+    stubFetch((url) => {
+      switch (url.pathname) {
+        case '/api/v1/apps':
+          return { body: [{ id: 'a1', name: 'oidc_client', label: 'Grafana', status: 'ACTIVE', signOnMode: 'OPENID_CONNECT', credentials: { oauthClient: { client_id: '0oa-grafana' } } }] };
+        case '/api/v1/users':
+          return { body: [user('u1', { email: 'ada@example.com' })] };
+        case '/api/v1/users/u1/grants':
+          return {
+            body: [
+              { id: 'g1', clientId: '0oa-grafana', scopeId: 's1', status: 'ACTIVE', created: '2024-02-01T00:00:00.000Z', _embedded: { scope: { name: 'openid' } } },
+              { id: 'g2', clientId: '0oa-grafana', scopeId: 's2', status: 'ACTIVE', created: '2024-01-01T00:00:00.000Z' },
+              { id: 'g3', clientId: '0oa-grafana', scopeId: 's3', status: 'REVOKED', created: '2023-01-01T00:00:00.000Z' },
+              { id: 'g4', clientId: '0oa-unknown', scopeId: 's4', status: 'ACTIVE', created: '2024-01-01T00:00:00.000Z', _embedded: { scope: { name: 'profile' } } },
+            ],
+          };
+        default:
+          return { status: 404 };
+      }
+    });
+
+    const tokens = await connector().discoverOAuthTokens();
+
+    expect(tokens).toEqual([
+      { userId: 'ada@example.com', appExternalId: 'a1', scopes: ['openid', 's2'], grantedAt: new Date('2024-01-01T00:00:00.000Z'), tokenHash: '0oa-grafana' },
+      { userId: 'ada@example.com', appExternalId: '0oa-unknown', scopes: ['profile'], grantedAt: new Date('2024-01-01T00:00:00.000Z'), tokenHash: '0oa-unknown' },
+    ]);
+  });
+
+  it('should fall back to an email search and return only Okta-mastered groups', async () => {
+    const requests = stubFetch((url) => {
+      switch (url.pathname) {
+        case '/api/v1/users/ada%40example.com':
+          return { status: 404 };
+        case '/api/v1/users':
+          return { body: [user('u1', { email: 'ada@example.com' })] };
+        case '/api/v1/users/u1/groups':
+          return {
+            body: [
+              { id: 'g0', type: 'BUILT_IN', profile: { name: 'Everyone' } },
+              { id: 'g1', type: 'OKTA_GROUP', profile: { name: 'Engineering' } },
+              { id: 'g2', type: 'APP_GROUP', profile: { name: 'AD Staff' } },
+            ],
+          };
+        default:
+          return { status: 404 };
+      }
+    });
+
+    expect(await connector().getUserGroups('ada@example.com')).toEqual([{ id: 'g1', displayName: 'Engineering' }]);
+    expect(requests[1].url.searchParams.get('search')).toBe('profile.email eq "ada@example.com"');
+  });
+});
@@ -7,6 +7,7 @@ import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
 import request from 'supertest';
 import { app } from '../index';
 import { storage } from '../storage';
+import { generateTotp } from '../services/mfa/totp';
 
 describe('Phase 6: Advanced Features Integration Tests', () => {
   let authToken: string;
@@ -111,12 +112,47 @@ describe('Phase 6: Advanced Features Integration Tests', () => {
       expect(Array.isArray(response.body)).toBe(true);
     });
 
-    it('should verify MFA for JIT session', async () => {
+    it('should reject MFA verification without a challenge', async () => {
       const response = await request(app)
         .post(`/api/jit-access/${jitSessionId}/verify-mfa`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ type: 'totp', code: '000000' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('challenge_invalid');
+    });
+
+    it('should verify MFA for JIT session', async () => {
+      // Enroll an authenticator app
+      const enrollment = await request(app)
+        .post('/api/mfa/factors/totp')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(enrollment.status).toBe(201);
+
+      const confirm = await request(app)
+        .post(`/api/mfa/factors/totp/${enrollment.body.factorId}/verify`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ code: generateTotp(enrollment.body.secret) });
+      expect(confirm.status).toBe(200);
+
+      const challenge = await request(app)
+        .post(`/api/jit-access/${jitSessionId}/mfa-challenge`)
         .set('Authorization', `Bearer ${authToken}`);
+      expect(challenge.status).toBe(200);
+      expect(challenge.body.methods).toContain('totp');
+
+      // The enrollment code cannot be replayed, so answer with the next time step
+      const response = await request(app)
+        .post(`/api/jit-access/${jitSessionId}/verify-mfa`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          challengeId: challenge.body.challengeId,
+          type: 'totp',
+          code: generateTotp(enrollment.body.secret, new Date(Date.now() + 30 * 1000)),
+        });
 
       expect(response.status).toBe(200);
+      expect(response.body.method).toBe('totp');
     });
 
     it('should extend JIT session', async () => {
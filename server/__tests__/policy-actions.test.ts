@@ -0,0 +1,219 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { storage } from '../storage';
+import { NotificationService } from '../services/alerting/notification-service';
+import { SSORevocationService } from '../services/offboarding/sso-revocation';
+import { OAuthRevocationService } from '../services/offboarding/oauth-revocation';
+import { ActionRegistry } from '../services/policy/action-registry';
+import { PolicyEngine, type PolicyContext } from '../services/policy/engine';
+
+const TENANT = 't1';
+
+const context: PolicyContext = {
+  tenantId: TENANT,
+  triggerEvent: 'license_unused',
+  triggerData: { userId: 'u1', appId: 'app-1', department: 'Engineering', unusedDays: 60 },
+  policyId: 'policy-1',
+  policyName: 'Reclaim unused licenses',
+  policyOwnerId: 'owner',
+};
+
+// Rows come back as copies, like they would from the database
+const row = <T>(value: T | undefined): T | undefined => value && { ...value };
+
+/**
+ * In-memory stand-in for the storage calls the action handlers make
+ */
+function fakeStorage() {
+  const state = {
+    apps: new Map<string, any>([['app-1', { id: 'app-1', tenantId: TENANT, name: 'Figma', approvalStatus: 'approved', userCount: 5 }]]),
+    access: new Map<string, any>([['acc-1', { id: 'acc-1', tenantId: TENANT, userId: 'u1', appId: 'app-1', status: 'active', accessRevokedDate: null, assignedBy: 'admin' }]]),
+    users: new Map<string, any>([
+      ['owner', { id: 'owner', tenantId: TENANT, firstName: 'Olive', lastName: 'Owner', email: 'olive@example.com', department: 'IT', jobTitle: 'IT Lead' }],
+      ['head', { id: 'head', tenantId: TENANT, firstName: 'Hank', lastName: 'Head', email: 'hank@example.com', department: 'Engineering', jobTitle: 'VP Engineering', isActive: true }],
+      ['u1', { id: 'u1', tenantId: TENANT, firstName: 'Uma', lastName: 'User', email: 'uma@example.com', department: 'Engineering', jobTitle: 'Engineer', isActive: true }],
+    ]),
+    alerts: new Map<string, any>(),
+    tickets: new Map<string, any>(),
+    executions: new Map<string, any>(),
+  };
+
+  jest.spyOn(storage, 'getSaasApp').mockImplementation(async (id) => row(state.apps.get(id)));
+  jest.spyOn(storage, 'updateSaasAppApprovalStatus').mockImplementation(async (id, _tenantId, approvalStatus) => {
+    Object.assign(state.apps.get(id), { approvalStatus });
+    return state.apps.get(id);
+  });
+  jest.spyOn(storage, 'updateSaasApp').mockImplementation(async (id, _tenantId, updates) => Object.assign(state.apps.get(id), updates));
+  jest.spyOn(storage, 'getUserAppAccessByUserAndApp').mockImplementation(async (userId, appId) =>
+    row(Array.from(state.access.values()).find(a => a.userId === userId && a.appId === appId)));
+  jest.spyOn(storage, 'revokeUserAppAccess').mockImplementation(async (id) =>
+    Object.assign(state.access.get(id), { status: 'revoked', accessRevokedDate: new Date() }));
+  jest.spyOn(storage, 'updateUserAppAccess').mockImplementation(async (id, _tenantId, updates) => Object.assign(state.access.get(id), updates));
+  jest.spyOn(storage, 'getUser').mockImplementation(async (id) => row(state.users.get(id)));
+  jest.spyOn(storage, 'getTenantUsers').mockImplementation(async () => Array.from(state.users.values()));
+  jest.spyOn(storage, 'getOauthTokens').mockResolvedValue([{ id: 'tok-1' }, { id: 'tok-2' }] as any);
+  jest.spyOn(storage, 'getNotificationChannel').mockImplementation(async (id) =>
+    ({ id, tenantId: TENANT, name: 'SecOps Slack', type: 'slack', config: { slackWebhookUrl: 'https://hooks.example.com' }, enabled: true }) as any);
+  jest.spyOn(storage, 'createAlertInstance').mockImplementation(async (alert) => {
+    const created = { ...alert, id: `alert-${state.alerts.size + 1}`, createdAt: new Date() };
+    state.alerts.set(created.id, created);
+    return created as any;
+  });
+  jest.spyOn(storage, 'updateAlertInstance').mockImplementation(async (id, _tenantId, updates) => Object.assign(state.alerts.get(id), updates));
+  jest.spyOn(storage, 'createTicket').mockImplementation(async (ticket) => {
+    const created = { ...ticket, id: `ticket-${state.tickets.size + 1}`, ticketNumber: `TKT-${state.tickets.size + 1}` };
+    state.tickets.set(created.id, created);
+    return created as any;
+  });
+  jest.spyOn(storage, 'assignTicket').mockImplementation(async (id, _tenantId, assigneeId) => Object.assign(state.tickets.get(id), { assignedToId: assigneeId }));
+  jest.spyOn(storage, 'updateTicketStatus').mockImplementation(async (id, _tenantId, status) => Object.assign(state.tickets.get(id), { status }));
+  jest.spyOn(storage, 'createPolicyExecution').mockImplementation(async (execution) => {
+    const created = { ...execution, id: `exec-${state.executions.size + 1}` };
+    state.executions.set(created.id, created);
+    return created as any;
+  });
+  jest.spyOn(storage, 'getPolicyExecution').mockImplementation(async (id) => row(state.executions.get(id)));
+  jest.spyOn(storage, 'updatePolicyExecution').mockImplementation(async (id, _tenantId, updates) => Object.assign(state.executions.get(id), updates));
+  jest.spyOn(storage, 'updatePolicyStats').mockResolvedValue(undefined as any);
+
+  return state;
+}
+
+describe('Policy actions', () => {
+  let state: ReturnType<typeof fakeStorage>;
+  let registry: ActionRegistry;
+
+  beforeEach(() => {
+    state = fakeStorage();
+    registry = new ActionRegistry();
+    jest.spyOn(NotificationService.prototype, 'sendNotification').mockResolvedValue(true);
+    jest.spyOn(NotificationService.prototype, 'sendToRecipients').mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const run = (type: string, config: Record<string, any>) => registry.getHandler(type)!.execute(config, context);
+
+  describe('Reported changes', () => {
+    it('send_alert should report the alert it raised and the channels it notified', async () => {
+      const result = await run('send_alert', { channels: ['ch-1'], recipients: ['secops@example.com'] });
+
+      expect(result).toMatchObject({ success: true, data: { alertId: 'alert-1', delivered: ['ch-1', 'secops@example.com'] } });
+      expect(result.touched).toEqual([
+        { resourceType: 'alert_instance', resourceId: 'alert-1', operation: 'created', reversible: true },
+        { resourceType: 'notification_channel', resourceId: 'ch-1', operation: 'notified', reversible: false },
+      ]);
+    });
+
+    it('create_ticket should report the ticket raised for the policy owner', async () => {
+      const result = await run('create_ticket', { title: 'Reclaim {{appId}} from {{userId}}' });
+
+      expect(result.touched).toEqual([{ resourceType: 'ticket', resourceId: 'ticket-1', operation: 'created', reversible: true }]);
+      expect(state.tickets.get('ticket-1')).toMatchObject({ title: 'Reclaim app-1 from u1', requestorId: 'owner' });
+    });
+
+    it('block_app should report the previous approval status, and nothing when already blocked', async () => {
+      const result = await run('block_app', {});
+
+      expect(result.touched).toEqual([{
+        resourceType: 'saas_app',
+        resourceId: 'app-1',
+        operation: 'updated',
+        previousState: { approvalStatus: 'approved' },
+        reversible: true,
+      }]);
+      expect(state.apps.get('app-1').approvalStatus).toBe('denied');
+
+      expect((await run('block_app', {})).touched).toEqual([]);
+    });
+
+    it('revoke_access should report the removed access and revoked tokens as irreversible', async () => {
+      jest.spyOn(SSORevocationService.prototype, 'revokeAccess').mockResolvedValue({ success: true, message: 'Revoked', details: {} } as any);
+      jest.spyOn(OAuthRevocationService.prototype, 'revokeTokensForApp').mockResolvedValue({ success: true, tokensRevoked: 2, apps: [], errors: [] } as any);
+
+      const result = await run('revoke_access', {});
+
+      expect(result.success).toBe(true);
+      expect(result.touched).toEqual([
+        expect.objectContaining({ resourceType: 'user_app_access', resourceId: 'acc-1', operation: 'deleted', reversible: false }),
+        { resourceType: 'oauth_token', resourceId: 'tok-1', operation: 'revoked', reversible: false },
+        { resourceType: 'oauth_token', resourceId: 'tok-2', operation: 'revoked', reversible: false },
+      ]);
+    });
+
+    it('reclaim_license should report the revoked access and the seat count it changed', async () => {
+      const result = await run('reclaim_license', {});
+
+      expect(result.touched).toEqual([
+        {
+          resourceType: 'user_app_access',
+          resourceId: 'acc-1',
+          operation: 'revoked',
+          previousState: { status: 'active', accessRevokedDate: null, assignedBy: 'admin' },
+          reversible: true,
+        },
+        { resourceType: 'saas_app', resourceId: 'app-1', operation: 'updated', previousState: { userCount: 5 }, reversible: true },
+      ]);
+      expect(state.access.get('acc-1').status).toBe('revoked');
+      expect(state.apps.get('app-1').userCount).toBe(4);
+    });
+
+    it('notify_department_head should report each head it notified', async () => {
+      const result = await run('notify_department_head', {});
+
+      expect(result).toMatchObject({ success: true, data: { department: 'Engineering', recipients: ['hank@example.com'] } });
+      expect(result.touched).toEqual([{ resourceType: 'user', resourceId: 'head', operation: 'notified', reversible: false }]);
+    });
+  });
+
+  describe('Rollback', () => {
+    const policy = {
+      id: 'policy-1',
+      name: 'Reclaim unused licenses',
+      createdBy: 'owner',
+      actions: [
+        { type: 'block_app', config: {} },
+        { type: 'reclaim_license', config: {} },
+        { type: 'create_ticket', config: { title: 'Follow up on {{appId}}' } },
+        { type: 'send_alert', config: { channels: ['ch-1'] } },
+      ],
+    };
+
+    it('should restore the state each reversible action changed', async () => {
+      const engine = new PolicyEngine();
+      const execution = await engine.executePolicy(policy, context);
+      expect(execution.success).toBe(true);
+
+      const rollback = await engine.rollbackExecution(execution.executionId, TENANT, 'admin');
+
+      expect(rollback).toMatchObject({ rolledBack: 5, errors: [] });
+      expect(rollback.skipped).toEqual([
+        expect.objectContaining({ actionType: 'send_alert', resourceType: 'notification_channel', resourceId: 'ch-1' }),
+      ]);
+      expect(state.apps.get('app-1')).toMatchObject({ approvalStatus: 'approved', userCount: 5 });
+      expect(state.access.get('acc-1')).toMatchObject({ status: 'active', accessRevokedDate: null, assignedBy: 'admin' });
+      expect(state.tickets.get('ticket-1').status).toBe('cancelled');
+      expect(state.alerts.get('alert-1').status).toBe('dismissed');
+      expect(state.executions.get(execution.executionId)).toMatchObject({
+        status: 'rolled_back',
+        result: { rollback: expect.objectContaining({ rolledBackBy: 'admin' }) },
+      });
+    });
+
+    it('should undo actions in reverse order and refuse a second rollback', async () => {
+      const engine = new PolicyEngine();
+      const execution = await engine.executePolicy(policy, context);
+      const updateApp = storage.updateSaasApp as jest.Mock;
+      const updateApproval = storage.updateSaasAppApprovalStatus as jest.Mock;
+      updateApp.mockClear();
+      updateApproval.mockClear();
+
+      await engine.rollbackExecution(execution.executionId, TENANT, 'admin');
+
+      // reclaim_license ran after block_app, so its seat count is restored first
+      expect(updateApp.mock.invocationCallOrder[0]).toBeLessThan(updateApproval.mock.invocationCallOrder[0]);
+      await expect(engine.rollbackExecution(execution.executionId, TENANT, 'admin')).rejects.toThrow('already been rolled back');
+    });
+  });
+});
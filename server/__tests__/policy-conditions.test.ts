@@ -0,0 +1,128 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseConditions, compileConditions, evaluateCondition, ConditionValidationError } from '../services/policy/conditions';
+
+const NOW = new Date('2025-06-01T00:00:00Z');
+
+function matches(conditions: unknown, data: Record<string, any>): boolean {
+  return evaluateCondition(compileConditions(conditions), data, NOW);
+}
+
+describe('Policy Condition Language', () => {
+  describe('Legacy flat conditions', () => {
+    it('should treat keys as an implicit AND', () => {
+      const conditions = { riskLevel: 'high', unusedDays: { $gte: 30 } };
+
+      expect(matches(conditions, { riskLevel: 'high', unusedDays: 45 })).toBe(true);
+      expect(matches(conditions, { riskLevel: 'high', unusedDays: 10 })).toBe(false);
+      expect(matches(conditions, { riskLevel: 'low', unusedDays: 45 })).toBe(false);
+    });
+
+    it('should match objects without operator keys as literals', () => {
+      const conditions = { owner: { department: 'Finance', region: 'EU' } };
+
+      expect(matches(conditions, { owner: { region: 'EU', department: 'Finance' } })).toBe(true);
+      expect(matches(conditions, { owner: { department: 'Finance' } })).toBe(false);
+      expect(matches({ tags: { $in: [{ key: 'pii' }] } }, { tags: [{ key: 'pii' }] })).toBe(true);
+      expect(parseConditions({ metadata: { $ref: 'x', source: 'okta' } }).issues).toEqual([]);
+    });
+
+    it('should treat arrays as membership', () => {
+      expect(matches({ riskLevel: ['high', 'critical'] }, { riskLevel: 'critical' })).toBe(true);
+      expect(matches({ riskLevel: ['high', 'critical'] }, { riskLevel: 'low' })).toBe(false);
+    });
+
+    it('should match everything when conditions are empty', () => {
+      expect(matches({}, { anything: true })).toBe(true);
+      expect(matches(null, { anything: true })).toBe(true);
+    });
+  });
+
+  describe('Boolean groups', () => {
+    const conditions = {
+      $and: [
+        { riskLevel: { $in: ['high', 'critical'] } },
+        { $or: [{ 'owner.department': 'Finance' }, { cost: { $gt: 1000 } }] },
+        { $not: { approvalStatus: 'approved' } },
+      ],
+    };
+
+    it('should evaluate nested $and/$or/$not', () => {
+      expect(matches(conditions, { riskLevel: 'high', owner: { department: 'Finance' }, approvalStatus: 'pending' })).toBe(true);
+      expect(matches(conditions, { riskLevel: 'high', owner: { department: 'Sales' }, cost: 5000, approvalStatus: 'pending' })).toBe(true);
+      expect(matches(conditions, { riskLevel: 'high', owner: { department: 'Sales' }, cost: 50, approvalStatus: 'pending' })).toBe(false);
+      expect(matches(conditions, { riskLevel: 'high', owner: { department: 'Finance' }, approvalStatus: 'approved' })).toBe(false);
+    });
+  });
+
+  describe('Operators', () => {
+    it('should support $nin, $contains, $regex and $exists', () => {
+      expect(matches({ category: { $nin: ['security', 'hr'] } }, { category: 'marketing' })).toBe(true);
+      expect(matches({ scopes: { $contains: 'mail.read' } }, { scopes: ['user.read', 'mail.read'] })).toBe(true);
+      expect(matches({ appName: { $regex: '^drop', $options: 'i' } }, { appName: 'Dropbox' })).toBe(true);
+      expect(matches({ ownerId: { $exists: false } }, { appName: 'Dropbox' })).toBe(true);
+      expect(matches({ ownerId: { $exists: true } }, { ownerId: null })).toBe(false);
+    });
+
+    it('should support relative date comparisons', () => {
+      const renewalSoon = { renewalDate: { $withinNext: '30d' } };
+
+      expect(matches(renewalSoon, { renewalDate: '2025-06-20T00:00:00Z' })).toBe(true);
+      expect(matches(renewalSoon, { renewalDate: '2025-08-01T00:00:00Z' })).toBe(false);
+      expect(matches(renewalSoon, { renewalDate: '2025-05-20T00:00:00Z' })).toBe(false);
+      expect(matches({ lastLoginAt: { $before: 'now-90d' } }, { lastLoginAt: '2025-01-01T00:00:00Z' })).toBe(true);
+      expect(matches({ discoveredAt: { $withinLast: '1w' } }, { discoveredAt: '2025-05-28T00:00:00Z' })).toBe(true);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should report unknown operators with their path', () => {
+      const { issues } = parseConditions({ $and: [{ riskScore: { $greaterThan: 5 } }] });
+
+      expect(issues).toEqual([
+        { path: 'conditions.$and[0].riskScore.$greaterThan', message: 'unknown operator "$greaterThan"' },
+      ]);
+    });
+
+    it('should reject malformed operands', () => {
+      const { issues } = parseConditions({
+        category: { $in: 'security' },
+        appName: { $regex: '(' },
+        renewalDate: { $withinNext: 'soon' },
+        $or: [],
+      });
+
+      expect(issues.map(i => i.path)).toEqual([
+        'conditions.category.$in',
+        'conditions.appName.$regex',
+        'conditions.renewalDate.$withinNext',
+        'conditions.$or',
+      ]);
+    });
+
+    it('should reject $regex patterns prone to catastrophic backtracking', () => {
+      const { issues } = parseConditions({
+        appName: { $regex: '^(a+)+$' },
+        vendor: { $regex: '(\\w*\\s?)*@' },
+        domain: { $regex: 'x'.repeat(201) },
+        owner: { $regex: '(a|a)*b' },
+        category: { $regex: '^(a|ab)*c' },
+        department: { $regex: '((x|y)z){2,}' },
+      });
+
+      expect(issues.map(i => i.path)).toEqual([
+        'conditions.appName.$regex',
+        'conditions.vendor.$regex',
+        'conditions.domain.$regex',
+        'conditions.owner.$regex',
+        'conditions.category.$regex',
+        'conditions.department.$regex',
+      ]);
+      expect(parseConditions({ appName: { $regex: '^(drop|box)[a-z]*(\\+\\d{2})?$' } }).issues).toEqual([]);
+      expect(parseConditions({ appName: { $regex: 'drop|box+' } }).issues).toEqual([]);
+    });
+
+    it('should throw a ConditionValidationError from compileConditions', () => {
+      expect(() => compileConditions({ $xor: [] })).toThrow(ConditionValidationError);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { storage, DatabaseStorage } from '../storage';
+import { PolicySimulator, type SimulatablePolicy } from '../services/policy/simulator';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number, minutes = 0) => new Date(Date.now() - days * DAY_MS + minutes * 60 * 1000);
+
+// Local time of day three days ago, so throttling cases never straddle midnight
+function threeDaysAgoAt(hours: number, minutes: number): Date {
+  const at = new Date(Date.now() - 3 * DAY_MS);
+  at.setHours(hours, minutes, 0, 0);
+  return at;
+}
+
+const READS = ['getSaasApps', 'getPolicyExecutionsSince', 'getAnomalyDetections', 'getSaasContracts'] as const;
+
+const alertPolicy: SimulatablePolicy = {
+  id: 'policy-1',
+  name: 'Alert on risky apps',
+  triggerType: 'app_discovered',
+  conditions: { riskLevel: { $in: ['high', 'critical'] } },
+  actions: [{ type: 'send_alert', config: { recipients: ['secops@example.com'] } }],
+  createdBy: 'user-1',
+};
+
+function app(id: string, riskScore: number, discoveryDate: Date) {
+  return { id, name: `App ${id}`, riskScore, discoveryDate, createdAt: discoveryDate, approvalStatus: 'pending', category: 'Productivity', discoveryMethod: 'oauth' };
+}
+
+function history(data: { apps?: any[]; executions?: any[]; anomalies?: any[]; contracts?: any[] }) {
+  jest.spyOn(storage, 'getSaasApps').mockResolvedValue((data.apps ?? []) as any);
+  jest.spyOn(storage, 'getPolicyExecutionsSince').mockResolvedValue((data.executions ?? []) as any);
+  jest.spyOn(storage, 'getAnomalyDetections').mockResolvedValue((data.anomalies ?? []) as any);
+  jest.spyOn(storage, 'getSaasContracts').mockResolvedValue((data.contracts ?? []) as any);
+}
+
+describe('Policy Simulator', () => {
+  let writes: Array<ReturnType<typeof jest.spyOn>>;
+
+  beforeEach(() => {
+    // Every other storage method fails loudly, so a replay that writes anything is caught
+    writes = Object.getOwnPropertyNames(DatabaseStorage.prototype)
+      .filter(name => name !== 'constructor' && !(READS as readonly string[]).includes(name))
+      .map(name => jest.spyOn(storage as any, name).mockImplementation(() => {
+        throw new Error(`simulation called storage.${name}`);
+      }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should only replay events for the policy trigger inside the window', async () => {
+    history({
+      apps: [app('a1', 80, daysAgo(3)), app('a2', 10, daysAgo(2)), app('a3', 90, daysAgo(45))],
+      anomalies: [
+        { id: 'n1', detectedAt: daysAgo(1), severity: 'high', anomalyType: 'geographic_anomaly', confidenceScore: '80.00', userId: 'u1', userName: 'Jane' },
+        { id: 'n2', detectedAt: daysAgo(1), severity: 'low', anomalyType: 'off_hours_access', confidenceScore: '60.00', userId: 'u1', userName: 'Jane' },
+      ],
+      contracts: [{ id: 'c1', appId: 'a1', vendor: 'Acme', renewalDate: new Date(daysAgo(5).getTime() + 30 * DAY_MS), annualValue: '1200' }],
+    });
+
+    const report = await new PolicySimulator('t1').simulate(alertPolicy, 30);
+
+    expect(report.eventsBySource).toEqual({ discovery: 2, policy_execution: 0, anomaly: 1, renewal: 1 });
+    expect(report.summary).toMatchObject({ relevantEvents: 2, matched: 1, wouldExecute: 1, actionsWouldFire: { send_alert: 1 } });
+
+    const [first, second] = report.events;
+    expect(first).toMatchObject({ sourceId: 'a1', matched: true, wouldExecute: true });
+    expect(first.triggerData).toMatchObject({ riskLevel: 'critical', riskScore: 80 });
+    expect(second).toMatchObject({ sourceId: 'a2', matched: false, wouldExecute: false, actions: [] });
+  });
+
+  it('should replay anomalies with the payload anomaly.detected carries', async () => {
+    history({
+      anomalies: [{ id: 'n1', detectedAt: daysAgo(1), severity: 'critical', anomalyType: 'geographic_anomaly', confidenceScore: '92.50', userId: 'u1', userName: 'Jane', appId: 'a1', appName: 'Slack' }],
+    });
+
+    const report = await new PolicySimulator('t1').simulate({
+      ...alertPolicy,
+      triggerType: 'anomaly_detected',
+      conditions: { severity: 'critical', confidence: { $gte: 90 } },
+    }, 7);
+
+    expect(report.summary.matched).toBe(1);
+    expect(report.events[0].triggerData).toEqual({
+      tenantId: 't1',
+      anomalyId: 'n1',
+      userId: 'u1',
+      userName: 'Jane',
+      appId: 'a1',
+      appName: 'Slack',
+      anomalyType: 'geographic_anomaly',
+      severity: 'critical',
+      confidence: 92.5,
+    });
+  });
+
+  it('should replay stored execution triggers once and skip those rebuilt from records', async () => {
+    const offboarded = { userId: 'u9', offboardingStatus: 'completed' };
+    history({
+      apps: [app('a1', 80, daysAgo(3))],
+      executions: [
+        { id: 'x1', triggerEvent: 'app_discovered', triggerData: { appId: 'a1', riskLevel: 'critical' }, createdAt: daysAgo(3, 1) },
+        { id: 'x2', triggerEvent: 'user_offboarded', triggerData: offboarded, createdAt: daysAgo(2) },
+        { id: 'x3', triggerEvent: 'user_offboarded', triggerData: offboarded, createdAt: daysAgo(2, 1) },
+      ],
+    });
+
+    const report = await new PolicySimulator('t1').simulate({ ...alertPolicy, triggerType: 'user_offboarded', conditions: null }, 30);
+
+    expect(report.eventsBySource).toMatchObject({ discovery: 1, policy_execution: 1 });
+    expect(report.events.map(event => event.sourceId)).toEqual(['x2']);
+    expect(report.events[0].triggerData).toEqual({ ...offboarded, tenantId: 't1' });
+  });
+
+  it('should model cooldown and daily limits across the replay', async () => {
+    history({
+      apps: [
+        app('a1', 80, threeDaysAgoAt(9, 0)),
+        app('a2', 80, threeDaysAgoAt(9, 10)),
+        app('a3', 80, threeDaysAgoAt(10, 30)),
+        app('a4', 80, threeDaysAgoAt(12, 20)),
+      ],
+    });
+
+    const report = await new PolicySimulator('t1').simulate({ ...alertPolicy, cooldownMinutes: 60, maxExecutionsPerDay: 2 }, 30);
+
+    expect(report.events.map(event => event.throttledBy)).toEqual([null, 'cooldown', null, 'max_executions_per_day']);
+    expect(report.summary).toMatchObject({ matched: 4, wouldExecute: 2, throttledByCooldown: 1, throttledByDailyLimit: 1 });
+  });
+
+  it('should plan actions without executing them or writing anything', async () => {
+    history({ apps: [app('a1', 80, daysAgo(1))] });
+
+    const report = await new PolicySimulator('t1').simulate({
+      ...alertPolicy,
+      actions: [
+        { type: 'send_alert', config: { recipients: ['secops@example.com'] } },
+        { type: 'send_alert', config: {} },
+        { type: 'not_a_handler', config: {} },
+      ],
+    }, 30);
+
+    expect(report.events[0].actions).toEqual([
+      { actionType: 'send_alert', wouldExecute: true, config: { recipients: ['secops@example.com'] } },
+      { actionType: 'send_alert', wouldExecute: false, config: {}, reason: 'Invalid action configuration for trigger data' },
+      { actionType: 'not_a_handler', wouldExecute: false, config: {}, reason: 'No handler found' },
+    ]);
+    for (const write of writes) {
+      expect(write).not.toHaveBeenCalled();
+    }
+  });
+});
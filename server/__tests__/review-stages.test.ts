@@ -0,0 +1,195 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import type { AccessReviewCampaign, AccessReviewDelegation, AccessReviewItem, ReviewStage } from '@shared/schema';
+import { storage } from '../storage';
+import { AccessReviewCampaignEngine } from '../services/access-review/campaign-engine';
+import {
+  campaignStages,
+  nextStageIndex,
+  pickReviewer,
+  resolveDelegate,
+  stageDeciders,
+  stageDueAt,
+  trailEntry,
+} from '../services/access-review/review-stages';
+
+const now = new Date('2026-10-01T00:00:00Z');
+const inDays = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+const delegation = (overrides: Partial<AccessReviewDelegation>): AccessReviewDelegation => ({
+  id: 'd1',
+  tenantId: 't1',
+  delegatorId: 'manager',
+  delegateId: 'deputy',
+  startsAt: inDays(-1),
+  endsAt: inDays(7),
+  revokedAt: null,
+  ...overrides,
+} as AccessReviewDelegation);
+
+const stages: ReviewStage[] = [
+  { name: 'Manager review', reviewerType: 'manager', dueInDays: 7 },
+  { name: 'App owner review', reviewerType: 'app_owner', dueInDays: 7 },
+  { name: 'Security review', reviewerType: 'specific_users', reviewerIds: ['sec1'], riskLevels: ['high', 'critical'] },
+];
+
+describe('Access review stages', () => {
+  it('should route items through the stages that apply to their risk level', () => {
+    expect(nextStageIndex(stages, -1, 'low')).toBe(0);
+    expect(nextStageIndex(stages, 0, 'low')).toBe(1);
+    expect(nextStageIndex(stages, 1, 'low')).toBeNull();
+    expect(nextStageIndex(stages, 1, 'critical')).toBe(2);
+    expect(nextStageIndex(stages, 2, 'critical')).toBeNull();
+
+    // Campaigns without stages keep the single manager review
+    expect(campaignStages(null).map(stage => stage.reviewerType)).toEqual(['manager']);
+  });
+
+  it('should cap stage due dates at the campaign due date', () => {
+    expect(stageDueAt(stages[0], now, inDays(30))).toEqual(inDays(7));
+    expect(stageDueAt(stages[0], now, inDays(3))).toEqual(inDays(3));
+    expect(stageDueAt(stages[2], now, inDays(30))).toEqual(inDays(30));
+  });
+
+  it('should follow active delegations and stop at loops', () => {
+    const chain = [delegation({}), delegation({ id: 'd2', delegatorId: 'deputy', delegateId: 'backup' })];
+    expect(resolveDelegate('manager', chain, now)).toEqual({ reviewerId: 'backup', delegatedFrom: ['manager', 'deputy'] });
+
+    // Revoked, expired or future delegations are ignored
+    expect(resolveDelegate('manager', [delegation({ revokedAt: inDays(-1) })], now).reviewerId).toBe('manager');
+    expect(resolveDelegate('manager', [delegation({ endsAt: now })], now).reviewerId).toBe('manager');
+    expect(resolveDelegate('manager', [delegation({ startsAt: inDays(1) })], now).reviewerId).toBe('manager');
+
+    const loop = [delegation({}), delegation({ id: 'd2', delegatorId: 'deputy', delegateId: 'manager' })];
+    expect(resolveDelegate('manager', loop, now)).toEqual({ reviewerId: 'deputy', delegatedFrom: ['manager'] });
+  });
+
+  it('should skip reviewers who would review their own access', () => {
+    // A manager reviewing themselves falls through to the next candidate
+    expect(pickReviewer(['u1', null, 'fallback'], 'u1', [], now)).toEqual({ reviewerId: 'fallback', delegatedFrom: [] });
+
+    // So does a reviewer whose delegate is the reviewed user
+    expect(pickReviewer(['manager', 'creator'], 'deputy', [delegation({})], now)?.reviewerId).toBe('creator');
+
+    expect(pickReviewer(['u1'], 'u1', [], now)).toBeNull();
+  });
+
+  it('should skip reviewers who decided an earlier stage', () => {
+    const trail = [
+      trailEntry({ stage: 0, stageName: 'Manager review', action: 'assigned', reviewerId: 'it', reviewerName: 'Ivy', actorId: null, actorName: 'System' }, now),
+      trailEntry({ stage: 0, stageName: 'Manager review', action: 'approved', reviewerId: 'it', reviewerName: 'Ivy', actorId: 'it', actorName: 'Ivy' }, now),
+      trailEntry({ stage: 1, stageName: 'App owner review', action: 'reassigned', reviewerId: 'owner', reviewerName: 'Otto', actorId: 'admin', actorName: 'Ada' }, now),
+    ];
+
+    expect(stageDeciders(trail)).toEqual(['it']);
+    expect(stageDeciders(trail, 0)).toEqual([]);
+    expect(pickReviewer(['it', 'creator'], 'u1', [], now, stageDeciders(trail))?.reviewerId).toBe('creator');
+  });
+
+  describe('Deciding items', () => {
+    const campaign = {
+      id: 'c1',
+      tenantId: 't1',
+      name: 'Q4 certification',
+      status: 'active',
+      stages: stages.slice(0, 2),
+      dueDate: inDays(30),
+      createdBy: 'creator',
+      fallbackReviewerId: null,
+    } as unknown as AccessReviewCampaign;
+
+    const users: Record<string, any> = {
+      u1: { id: 'u1', tenantId: 't1', firstName: 'Uma', lastName: 'User', email: 'uma@example.com', manager: 'it' },
+      it: { id: 'it', tenantId: 't1', firstName: 'Ivy', lastName: 'Tech', email: 'ivy@example.com' },
+      owner: { id: 'owner', tenantId: 't1', firstName: 'Otto', lastName: 'Owner', email: 'otto@example.com' },
+      creator: { id: 'creator', tenantId: 't1', firstName: 'Cy', lastName: 'Creator', email: 'cy@example.com' },
+    };
+
+    let items: Map<string, AccessReviewItem>;
+    let appOwnerId: string;
+
+    const item = (id: string, overrides: Partial<AccessReviewItem> = {}): AccessReviewItem => ({
+      id,
+      campaignId: 'c1',
+      userId: 'u1',
+      userName: 'Uma User',
+      appId: 'app-1',
+      appName: 'Figma',
+      riskLevel: 'low',
+      decision: 'pending',
+      currentStage: 0,
+      stageName: 'Manager review',
+      reviewerId: 'it',
+      reviewerName: 'Ivy Tech',
+      stageTrail: [],
+      ...overrides,
+    } as AccessReviewItem);
+
+    beforeEach(() => {
+      items = new Map([['i1', item('i1')]]);
+      appOwnerId = 'owner';
+      jest.spyOn(storage, 'getAccessReviewItem').mockImplementation(async (id) => items.get(id));
+      jest.spyOn(storage, 'getAccessReviewCampaign').mockResolvedValue(campaign);
+      jest.spyOn(storage, 'getAccessReviewItems').mockImplementation(async () => Array.from(items.values()));
+      jest.spyOn(storage, 'getAccessReviewDelegations').mockResolvedValue([]);
+      jest.spyOn(storage, 'getUser').mockImplementation(async (id) => users[id]);
+      jest.spyOn(storage, 'getSaasApp').mockImplementation(async () => ({ id: 'app-1', tenantId: 't1', name: 'Figma', ownerId: appOwnerId }) as any);
+      jest.spyOn(storage, 'createAccessReviewDecision').mockResolvedValue({} as any);
+      jest.spyOn(storage, 'updateAccessReviewCampaign').mockResolvedValue({} as any);
+      jest.spyOn(storage, 'updateAccessReviewItem').mockImplementation(async (id, updates) => {
+        const updated = { ...items.get(id)!, ...updates } as AccessReviewItem;
+        items.set(id, updated);
+        return updated;
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should record each stage decision and reject the same reviewer at a later stage', async () => {
+      const engine = new AccessReviewCampaignEngine('t1');
+
+      const moved = await engine.submitDecision('i1', 'approved', 'Still needed', 'it', 'Ivy Tech');
+      expect(moved).toMatchObject({ decision: 'pending', currentStage: 1, reviewerId: 'owner' });
+      expect(moved.stageTrail).toContainEqual(expect.objectContaining({ stage: 0, action: 'approved', actorId: 'it' }));
+
+      await expect(engine.submitDecision('i1', 'approved', undefined, 'it', 'Ivy Tech'))
+        .rejects.toMatchObject({ statusCode: 403, message: expect.stringContaining('earlier stage') });
+      expect(items.get('i1')!.decision).toBe('pending');
+
+      const decided = await engine.submitDecision('i1', 'approved', undefined, 'owner', 'Otto Owner');
+      expect(decided.decision).toBe('approved');
+      expect(stageDeciders(decided.stageTrail ?? [])).toEqual(['it', 'owner']);
+    });
+
+    it('should not assign the next stage to whoever decided the previous one', async () => {
+      appOwnerId = 'it';
+
+      const moved = await new AccessReviewCampaignEngine('t1').submitDecision('i1', 'approved', undefined, 'it', 'Ivy Tech');
+
+      expect(moved).toMatchObject({ currentStage: 1, reviewerId: 'creator' });
+    });
+
+    it('should report which items of a bulk decision failed', async () => {
+      items.set('i2', item('i2', { userId: 'it', userName: 'Ivy Tech', reviewerId: 'owner' }));
+      items.set('i3', item('i3', { decision: 'approved' }));
+
+      const result = await new AccessReviewCampaignEngine('t1').submitBulkDecision({
+        itemIds: ['i1', 'i2', 'i3'],
+        decision: 'deferred',
+        reviewerId: 'it',
+        reviewerName: 'Ivy Tech',
+      });
+
+      expect(result).toEqual({
+        succeeded: 1,
+        failed: 2,
+        errors: [
+          { itemId: 'i2', error: 'Reviewers cannot certify their own access', statusCode: 403 },
+          { itemId: 'i3', error: 'Review item has already been decided', statusCode: 409 },
+        ],
+      });
+      expect(items.get('i1')!.decision).toBe('deferred');
+    });
+  });
+});
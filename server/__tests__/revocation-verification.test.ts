@@ -0,0 +1,52 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  indexDiscoveredAccess,
+  matchDiscoveredApps,
+  nextStep,
+  summarizeVerification,
+  verifyRemoval,
+} from '../services/access-review/revocation-verification';
+
+const discoveredApps = [
+  { externalId: 'okta-slack', name: 'Slack' },
+  { externalId: 'okta-zoom', name: 'Zoom' },
+];
+
+describe('Access review revocation verification', () => {
+  it('should match a SaaS app to the discovered apps it came from', () => {
+    expect(matchDiscoveredApps({ name: 'Slack Enterprise', metadata: { externalId: 'okta-slack' } }, discoveredApps)).toEqual(['okta-slack']);
+    expect(matchDiscoveredApps({ name: ' zoom ', metadata: null }, discoveredApps)).toEqual(['okta-zoom']);
+    expect(matchDiscoveredApps({ name: 'Notion' }, discoveredApps)).toEqual([]);
+  });
+
+  it('should only verify removal when the sync covers the app', () => {
+    const access = indexDiscoveredAccess([
+      { userId: 'Alice@Example.com', appExternalId: 'okta-slack' },
+      { userId: 'bob@example.com', appExternalId: 'okta-zoom' },
+    ]);
+
+    expect(verifyRemoval(['alice@example.com', 'u1'], ['okta-slack'], access)).toBe('still_present');
+    expect(verifyRemoval(['alice@example.com', 'u1'], ['okta-zoom'], access)).toBe('removed');
+    expect(verifyRemoval(['alice@example.com'], [], access)).toBe('not_covered');
+
+    // Connectors that cannot list grants say nothing about removal
+    expect(verifyRemoval(['alice@example.com'], ['okta-slack'], new Set())).toBe('not_covered');
+  });
+
+  it('should retry until the attempt limit and then escalate', () => {
+    expect(nextStep(1)).toBe('retry');
+    expect(nextStep(2)).toBe('retry');
+    expect(nextStep(3)).toBe('escalate');
+  });
+
+  it('should count untracked revocations as pending verification', () => {
+    const summary = summarizeVerification(['i1', 'i2', 'i3', 'i4'], [
+      { sourceId: 'i1', status: 'verified' },
+      { sourceId: 'i2', status: 'pending_verification' },
+      { sourceId: 'i3', status: 'escalated' },
+    ]);
+
+    expect(summary).toMatchObject({ revokedAndVerified: 1, pendingVerification: 2, escalated: 1 });
+    expect(summary.byItem.get('i4')).toBe('pending_verification');
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { storage } from '../storage';
+import { auditLogger } from '../audit-logger';
+import { JMLWorkflowService } from '../services/jml-workflow';
+import { OffboardingOrchestrator } from '../services/offboarding/orchestrator';
+import { parseFilter, matchesFilter } from '../services/scim/filter';
+import { applyPatch } from '../services/scim/patch';
+import { SCIM_SCHEMAS, ScimError, fromScimUser } from '../services/scim/resources';
+import { ScimService } from '../services/scim/scim-service';
+import type { User } from '@shared/schema';
+
+const ENTERPRISE = SCIM_SCHEMAS.ENTERPRISE_USER;
+
+function sampleUser() {
+  return {
+    schemas: [SCIM_SCHEMAS.USER, ENTERPRISE],
+    id: 'user-1',
+    userName: 'jane.doe@example.com',
+    name: { givenName: 'Jane', familyName: 'Doe' },
+    title: 'Engineer',
+    active: true,
+    emails: [
+      { value: 'jane.doe@example.com', type: 'work', primary: true },
+      { value: 'jane@home.example', type: 'home' },
+    ],
+    [ENTERPRISE]: { department: 'Engineering', manager: { value: 'mgr-1' } },
+    meta: { resourceType: 'User', lastModified: '2026-01-15T10:00:00.000Z' },
+  };
+}
+
+describe('SCIM', () => {
+  describe('Filters', () => {
+    const matches = (filter: string) => matchesFilter(sampleUser(), parseFilter(filter));
+
+    it('should compare attributes case-insensitively', () => {
+      expect(matches('userName eq "Jane.Doe@Example.com"')).toBe(true);
+      expect(matches('USERNAME sw "jane"')).toBe(true);
+      expect(matches('name.familyName co "oe"')).toBe(true);
+      expect(matches('userName ew "@other.com"')).toBe(false);
+    });
+
+    it('should honour logical precedence and grouping', () => {
+      expect(matches('title eq "Manager" or active eq true and name.givenName eq "Jane"')).toBe(true);
+      expect(matches('(title eq "Manager" or active eq true) and name.givenName eq "John"')).toBe(false);
+      expect(matches('not (active eq false)')).toBe(true);
+    });
+
+    it('should match value paths, presence and extension attributes', () => {
+      expect(matches('emails[type eq "work" and value co "example.com"]')).toBe(true);
+      expect(matches('emails[type eq "other"]')).toBe(false);
+      expect(matches('title pr')).toBe(true);
+      expect(matches('externalId pr')).toBe(false);
+      expect(matches(`${ENTERPRISE}:department eq "engineering"`)).toBe(true);
+      expect(matches('meta.lastModified gt "2026-01-01T00:00:00Z"')).toBe(true);
+    });
+
+    it('should reject malformed filters', () => {
+      expect(() => parseFilter('userName eq')).toThrow(ScimError);
+      expect(() => parseFilter('userName like "x"')).toThrow(/Unsupported filter operator/);
+      expect(() => parseFilter('(userName eq "x"')).toThrow(ScimError);
+    });
+  });
+
+  describe('PATCH', () => {
+    it('should deactivate a user with Azure AD style operations', () => {
+      const patched = applyPatch(sampleUser(), [{ op: 'Replace', path: 'active', value: 'False' }]);
+
+      expect(fromScimUser(patched).isActive).toBe(false);
+    });
+
+    it('should apply path-less replacements including extension attributes', () => {
+      const patched = applyPatch(sampleUser(), [{
+        op: 'replace',
+        value: {
+          title: 'Staff Engineer',
+          'name.givenName': 'Janet',
+          [`${ENTERPRISE}:department`]: 'Platform',
+        },
+      }]);
+
+      expect(patched.title).toBe('Staff Engineer');
+      expect(patched.name).toEqual({ givenName: 'Janet', familyName: 'Doe' });
+      expect(fromScimUser(patched).department).toBe('Platform');
+    });
+
+    it('should update and remove elements selected by a value filter', () => {
+      const patched = applyPatch(sampleUser(), [
+        { op: 'replace', path: 'emails[type eq "work"].value', value: 'jane.d@example.com' },
+        { op: 'remove', path: 'emails[type eq "home"]' },
+        { op: 'add', path: 'phoneNumbers[type eq "work"].value', value: '+1 555 0100' },
+      ]);
+
+      expect(patched.emails).toEqual([{ value: 'jane.d@example.com', type: 'work', primary: true }]);
+      expect(fromScimUser(patched).phone).toBe('+1 555 0100');
+    });
+
+    it('should add and remove group members', () => {
+      const group = { displayName: 'Engineering', members: [{ value: 'user-1' }] };
+
+      const added = applyPatch(group, [{ op: 'add', path: 'members', value: [{ value: 'user-1' }, { value: 'user-2' }] }]);
+      expect(added.members).toEqual([{ value: 'user-1' }, { value: 'user-2' }]);
+
+      const removed = applyPatch(added, [
+        { op: 'remove', path: 'members[value eq "user-1"]' },
+        { op: 'remove', path: 'members', value: [{ value: 'user-2' }] },
+      ]);
+      expect(removed.members).toEqual([]);
+      expect(group.members).toEqual([{ value: 'user-1' }]);
+    });
+
+    it('should reject unsupported operations and targetless removals', () => {
+      expect(() => applyPatch(sampleUser(), [{ op: 'move', path: 'title' }])).toThrow(ScimError);
+      expect(() => applyPatch(sampleUser(), [{ op: 'remove' }])).toThrow(/path is required/);
+    });
+  });
+
+  describe('Resource mapping', () => {
+    it('should require an email address for userName', () => {
+      expect(() => fromScimUser({ userName: 'jdoe' })).toThrow(ScimError);
+      expect(fromScimUser({ userName: 'jdoe', emails: [{ value: 'JDoe@Example.com', primary: true }] }).email).toBe('jdoe@example.com');
+    });
+  });
+
+  describe('Deprovisioning', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should hand deactivated users to the leaver flow without assuming why they left', async () => {
+      const user = { id: 'user-1', tenantId: 't1', email: 'jane.doe@example.com', department: 'Engineering', isActive: true } as User;
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(storage, 'getUser').mockResolvedValue(user);
+      jest.spyOn(storage, 'updateUser').mockImplementation(async (_id, updates) => ({ ...user, ...updates }) as User);
+      jest.spyOn(auditLogger, 'logSystemActivity').mockResolvedValue(undefined as any);
+      const leaver = jest.spyOn(JMLWorkflowService.prototype, 'processLeaver').mockResolvedValue(undefined as any);
+      jest.spyOn(OffboardingOrchestrator.prototype, 'createRequest').mockResolvedValue('offboarding-1');
+      const offboarding = jest.spyOn(OffboardingOrchestrator.prototype, 'executeOffboarding').mockResolvedValue();
+
+      await new ScimService('t1', 'https://app.example.com/scim/v2', { id: 'token-1', name: 'Okta', createdBy: 'admin-1' }).deleteUser('user-1');
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(storage.updateUser).toHaveBeenCalledWith('user-1', expect.objectContaining({ isActive: false }));
+      expect(leaver).toHaveBeenCalledWith('user-1', expect.objectContaining({ department: 'Engineering', terminationType: 'unspecified', immediateRevocation: true }), 'scim:Okta');
+      expect(offboarding).toHaveBeenCalledWith('offboarding-1');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { storage } from '../storage';
+import { SIEMIntegrationService, type SIEMEvent, type SIEMIntegration } from '../services/integrations/siem-integration';
+
+const TENANT = 't1';
+
+function integration(id: string, overrides: Partial<SIEMIntegration> = {}): SIEMIntegration {
+  return {
+    id,
+    tenantId: TENANT,
+    name: `SIEM ${id}`,
+    provider: 'custom',
+    integrationType: 'webhook',
+    status: 'active',
+    eventTypesEnabled: ['policy_violation'],
+    severityFilter: 'low',
+    eventsSent: 0,
+    errorsCount: 0,
+    ...overrides,
+  } as SIEMIntegration;
+}
+
+const event: SIEMEvent = {
+  eventType: 'policy_violation',
+  timestamp: new Date('2026-10-19T12:00:00Z'),
+  severity: 'high',
+  source: 'policy_engine',
+  sourceId: 'policy-1',
+  message: 'Policy violated: Block unapproved apps',
+  details: {},
+  deliveryId: 'evt-1',
+};
+
+describe('SIEM event delivery', () => {
+  let logs: Array<{ integrationId: string; eventId: string; status: string }>;
+  let failing: Set<string>;
+  let sentTo: string[];
+
+  beforeEach(() => {
+    logs = [];
+    failing = new Set();
+    sentTo = [];
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(storage, 'getSIEMIntegrations').mockResolvedValue([
+      integration('splunk'),
+      integration('sentinel'),
+      integration('disabled', { status: 'disabled' }),
+      integration('critical-only', { severityFilter: 'critical' }),
+    ]);
+    jest.spyOn(storage, 'updateSIEMIntegration').mockResolvedValue(undefined as any);
+    jest.spyOn(storage, 'createSIEMEventLog').mockImplementation(async (log) => {
+      logs.push(log);
+      return log;
+    });
+    jest.spyOn(storage, 'getSIEMIntegrationIdsSentEvent').mockImplementation(async (_tenantId, eventId) =>
+      logs.filter(log => log.eventId === eventId && log.status === 'sent').map(log => log.integrationId));
+    jest.spyOn(SIEMIntegrationService.prototype as any, 'sendToWebhook').mockImplementation(async (target: any) => {
+      if (failing.has(target.id)) throw new Error('503 Service Unavailable');
+      sentTo.push(target.id);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send to every matching integration and log the delivery per integration', async () => {
+    await new SIEMIntegrationService(TENANT).deliverEvent(event);
+
+    expect(sentTo).toEqual(['splunk', 'sentinel']);
+    expect(logs.map(log => [log.integrationId, log.eventId])).toEqual([['splunk', 'evt-1'], ['sentinel', 'evt-1']]);
+  });
+
+  it('should retry only the integrations that failed', async () => {
+    const service = new SIEMIntegrationService(TENANT);
+    failing.add('sentinel');
+
+    await expect(service.deliverEvent(event)).rejects.toThrow('SIEM delivery failed for SIEM sentinel: 503 Service Unavailable');
+    expect(sentTo).toEqual(['splunk']);
+    expect(storage.updateSIEMIntegration).toHaveBeenCalledWith('sentinel', TENANT, { errorsCount: 1 });
+
+    failing.clear();
+    await service.deliverEvent(event);
+
+    expect(sentTo).toEqual(['splunk', 'sentinel']);
+    expect(storage.getSIEMIntegrationIdsSentEvent).toHaveBeenLastCalledWith(TENANT, 'evt-1');
+  });
+
+  it('should send to every integration when the event has no delivery ID', async () => {
+    logs.push({ integrationId: 'splunk', eventId: 'policy-1', status: 'sent' });
+
+    await new SIEMIntegrationService(TENANT).deliverEvent({ ...event, deliveryId: undefined });
+
+    expect(sentTo).toEqual(['splunk', 'sentinel']);
+    expect(storage.getSIEMIntegrationIdsSentEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from '@jest/globals';
+import type { ScimGroup, SodEntitlementRef, SodRule, UserAppAccess } from '@shared/schema';
+import { checkGrant, harvestEntitlements, heldEntitlements, matchRule } from '../services/advanced/sod-entitlements';
+
+const grant = (overrides: Partial<UserAppAccess>): UserAppAccess => ({
+  id: 'g1',
+  userId: 'u1',
+  appId: 'erp',
+  status: 'active',
+  roles: [],
+  permissions: [],
+  ...overrides,
+} as UserAppAccess);
+
+const rule = (overrides: Partial<SodRule>): SodRule => ({
+  id: 'r1',
+  name: 'Rule',
+  ruleType: 'entitlement_set',
+  exemptedUsers: [],
+  isActive: true,
+  ...overrides,
+} as SodRule);
+
+const erp = (entitlementType: 'role' | 'permission', value: string): SodEntitlementRef =>
+  ({ appId: 'erp', entitlementType, value });
+
+const vendorPayment = rule({
+  entitlements: [erp('permission', 'vendor.create'), erp('permission', 'payment.approve')],
+  minMatch: 2,
+});
+
+describe('Entitlement SoD', () => {
+  it('should match a toxic combination inside one app and report the colliding entitlements', () => {
+    const held = heldEntitlements([grant({ permissions: ['Vendor.Create', 'payment.approve', 'invoice.view'] })], []);
+    expect(matchRule(vendorPayment, held)?.map(ref => ref.value)).toEqual(['vendor.create', 'payment.approve']);
+
+    const oneSide = heldEntitlements([grant({ permissions: ['vendor.create'] })], []);
+    expect(matchRule(vendorPayment, oneSide)).toBeNull();
+
+    // Revoked grants hold nothing
+    const revoked = heldEntitlements([grant({ status: 'revoked', permissions: ['vendor.create', 'payment.approve'] })], []);
+    expect(matchRule(vendorPayment, revoked)).toBeNull();
+  });
+
+  it('should honour minimum-match counts across apps and directory groups', () => {
+    const twoOfThree = rule({
+      entitlements: [
+        erp('role', 'AP Clerk'),
+        { appId: 'bank', entitlementType: 'access', value: '*' },
+        { appId: null, entitlementType: 'group', value: 'Treasury' },
+      ],
+      minMatch: 2,
+    });
+
+    const held = heldEntitlements([grant({ appId: 'bank' })], ['treasury']);
+    expect(matchRule(twoOfThree, held)?.map(ref => ref.appId ?? ref.value)).toEqual(['bank', 'Treasury']);
+    expect(matchRule({ ...twoOfThree, minMatch: 3 }, held)).toBeNull();
+  });
+
+  it('should evaluate pairwise app rules as access to both apps', () => {
+    const pair = rule({ ruleType: 'app_pair', appId1: 'erp', appName1: 'ERP', appId2: 'bank', appName2: 'Bank' });
+    const held = heldEntitlements([grant({ appId: 'erp' })], []);
+
+    const collision = checkGrant(pair, held, [{ appId: 'bank', entitlementType: 'access', value: '*' }]);
+    expect(collision?.conflicting.map(ref => ref.label)).toEqual(['ERP (any access)']);
+    expect(checkGrant(pair, held, [{ appId: 'crm', entitlementType: 'access', value: '*' }])).toBeNull();
+  });
+
+  it('should only flag a grant that contributes to the collision', () => {
+    const held = heldEntitlements([grant({ permissions: ['vendor.create', 'payment.approve'] })], []);
+    // Already toxic, but adding an unrelated permission does not add to it
+    expect(checkGrant(vendorPayment, held, [erp('permission', 'invoice.view')])).toBeNull();
+
+    const requester = heldEntitlements([grant({ permissions: ['vendor.create'] })], []);
+    const collision = checkGrant(vendorPayment, requester, [erp('permission', 'payment.approve')]);
+    expect(collision?.requested.map(ref => ref.value)).toEqual(['payment.approve']);
+    expect(collision?.conflicting.map(ref => ref.value)).toEqual(['vendor.create']);
+  });
+
+  it('should harvest distinct roles, permissions and groups for the catalog', () => {
+    const harvested = harvestEntitlements(
+      [
+        grant({ roles: ['Admin'], permissions: ['vendor.create'] }),
+        grant({ id: 'g2', userId: 'u2', roles: ['admin'], permissions: ['payment.approve'] }),
+        grant({ id: 'g3', userId: 'u3', status: 'revoked', roles: ['Auditor'] }),
+      ],
+      [{ id: 'grp1', displayName: 'Treasury' } as ScimGroup]
+    );
+    expect(harvested.map(entry => [entry.appId, entry.entitlementType, entry.value, entry.source])).toEqual([
+      ['erp', 'role', 'Admin', 'app_role'],
+      ['erp', 'permission', 'vendor.create', 'app_role'],
+      ['erp', 'permission', 'payment.approve', 'app_role'],
+      [null, 'group', 'Treasury', 'idp_group'],
+    ]);
+  });
+});
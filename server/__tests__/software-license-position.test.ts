@@ -0,0 +1,161 @@
+import { describe, it, expect } from '@jest/globals';
+import type { SoftwareLicense, SoftwareNormalizationRule, SoftwareProduct } from '@shared/schema';
+import { cleanSoftwareName, matchNormalizationRule } from '../services/software/normalization';
+import { calculateLicensePosition, type LicensePositionInput } from '../services/software/license-position';
+
+const now = new Date('2026-06-01T00:00:00Z');
+
+function rule(overrides: Partial<SoftwareNormalizationRule>): SoftwareNormalizationRule {
+  return {
+    id: overrides.productId ?? 'rule',
+    tenantId: 't1',
+    productId: 'p1',
+    matchType: 'prefix',
+    pattern: '',
+    publisherPattern: null,
+    priority: 0,
+    isActive: true,
+    createdAt: now,
+    ...overrides,
+  };
+}
+
+function product(overrides: Partial<SoftwareProduct>): SoftwareProduct {
+  return {
+    id: 'p1',
+    tenantId: 't1',
+    name: 'Product',
+    publisher: null,
+    edition: null,
+    category: null,
+    licenseMetric: 'per_device',
+    minCoresPerDevice: null,
+    saasAppId: null,
+    notes: null,
+    isActive: true,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+function license(overrides: Partial<SoftwareLicense>): SoftwareLicense {
+  return {
+    id: 'l1',
+    name: 'License',
+    vendor: null,
+    version: null,
+    licenseKey: null,
+    licenseType: 'volume',
+    totalLicenses: 0,
+    usedLicenses: 0,
+    costPerLicense: null,
+    renewalDate: null,
+    notes: null,
+    productId: 'p1',
+    licenseMetric: null,
+    tenantId: 't1',
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+function device(id: string, overrides: Partial<LicensePositionInput['devices'][number]> = {}): LicensePositionInput['devices'][number] {
+  return { id, status: 'deployed', assignedUserId: null, assignedUserEmail: null, specifications: null, ...overrides };
+}
+
+describe('Software normalization', () => {
+  it('should strip versions and architectures from install names', () => {
+    expect(cleanSoftwareName('Google Chrome 120.0.6099.130')).toBe('google chrome');
+    expect(cleanSoftwareName('Google Chrome (x64) 121.0')).toBe('google chrome');
+    expect(cleanSoftwareName('7-Zip 23.01 (x64)')).toBe('7-zip');
+  });
+
+  it('should prefer higher priority, then more specific rules', () => {
+    const rules = [
+      rule({ id: 'office', productId: 'office', matchType: 'prefix', pattern: 'Microsoft Office' }),
+      rule({ id: 'proplus', productId: 'office-proplus', matchType: 'contains', pattern: 'Professional Plus', priority: 10 }),
+      rule({ id: 'visio', productId: 'visio', matchType: 'exact', pattern: 'Microsoft Office Visio' }),
+    ];
+
+    expect(matchNormalizationRule('Microsoft Office Professional Plus 2019', 'Microsoft Corporation', rules)?.productId).toBe('office-proplus');
+    expect(matchNormalizationRule('Microsoft Office Visio 16.0', null, rules)?.productId).toBe('visio');
+    expect(matchNormalizationRule('Microsoft Office Standard 2016', null, rules)?.productId).toBe('office');
+    expect(matchNormalizationRule('LibreOffice 7.6', null, rules)).toBeUndefined();
+  });
+
+  it('should honour publisher filters and regex rules on the raw name', () => {
+    const rules = [
+      rule({ productId: 'java', matchType: 'regex', pattern: '^Java \\d+ Update', publisherPattern: 'oracle' }),
+    ];
+
+    expect(matchNormalizationRule('Java 8 Update 381', 'Oracle Corporation', rules)?.productId).toBe('java');
+    expect(matchNormalizationRule('Java 8 Update 381', 'Azul Systems', rules)).toBeUndefined();
+  });
+});
+
+describe('Effective license position', () => {
+  const softwareAssets = [
+    { id: 'chrome-120', name: 'Chrome 120.0', softwareProductId: 'p1' },
+    { id: 'chrome-121', name: 'Chrome 121.0', softwareProductId: 'p1' },
+    { id: 'unknown', name: 'Some Tool 1.0', softwareProductId: null },
+  ];
+
+  it('should count a device once across versions and report over-deployment', () => {
+    const report = calculateLicensePosition({
+      products: [product({})],
+      softwareAssets,
+      devices: [device('d1'), device('d2'), device('d3'), device('d4', { status: 'retired' })],
+      installations: [
+        { deviceAssetId: 'd1', softwareAssetId: 'chrome-120' },
+        { deviceAssetId: 'd1', softwareAssetId: 'chrome-121' },
+        { deviceAssetId: 'd2', softwareAssetId: 'chrome-121' },
+        { deviceAssetId: 'd3', softwareAssetId: 'chrome-121' },
+        { deviceAssetId: 'd4', softwareAssetId: 'chrome-121' },
+        { deviceAssetId: 'd2', softwareAssetId: 'unknown' },
+      ],
+      licenses: [license({ totalLicenses: 2, costPerLicense: '50.00' })],
+      contracts: [],
+      asOf: now,
+    });
+
+    const [position] = report.positions;
+    expect(position.consumed).toBe(3);
+    expect(position.entitled).toBe(2);
+    expect(position.status).toBe('over_deployed');
+    expect(position.shortfall).toBe(1);
+    expect(position.estimatedShortfallCost).toBe(50);
+    expect(report.unnormalized).toEqual([{ softwareAssetId: 'unknown', name: 'Some Tool 1.0', installs: 1 }]);
+  });
+
+  it('should measure per-user and per-core metrics', () => {
+    const installations = ['d1', 'd2', 'd3'].map(id => ({ deviceAssetId: id, softwareAssetId: 'chrome-121' }));
+    const devices = [
+      device('d1', { assignedUserId: 'u1', specifications: { agent: { hardware: { cpuCores: 8 } } } }),
+      device('d2', { assignedUserId: 'u1', specifications: { agent: { hardware: { cpuCores: 2 } } } }),
+      device('d3'),
+    ];
+
+    const perUser = calculateLicensePosition({
+      products: [product({ licenseMetric: 'per_user' })],
+      softwareAssets, devices, installations,
+      licenses: [license({ totalLicenses: 5 })],
+      contracts: [],
+    }).positions[0];
+    expect(perUser.consumed).toBe(2); // u1 plus one unassigned device
+    expect(perUser.unassignedDevices).toBe(1);
+    expect(perUser.status).toBe('under_deployed');
+    expect(perUser.surplus).toBe(3);
+
+    const perCore = calculateLicensePosition({
+      products: [product({ licenseMetric: 'per_core', minCoresPerDevice: 4 })],
+      softwareAssets, devices, installations,
+      licenses: [license({ totalLicenses: 16 })],
+      contracts: [],
+    }).positions[0];
+    expect(perCore.consumed).toBe(16); // 8 + max(2, 4) + 4 for the device without a core count
+    expect(perCore.devicesWithoutCoreCount).toBe(1);
+    expect(perCore.status).toBe('compliant');
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import http from 'http';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { createAuthorizationRequest, exchangeCode, OidcError } from '../services/sso/oidc';
+import { extractClaims, isEmailInDomains, resolveRoleFromGroups, sanitizeReturnTo } from '../services/sso/claims';
+import { getVerificationRecord, hasVerificationRecord, validateSsoDomain } from '../services/sso/domain-verification';
+
+/**
+ * Minimal local OIDC provider: discovery, JWKS and a token endpoint that
+ * issues an RS256 ID token for whatever nonce the test registers
+ */
+function startMockIdp() {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'test-key', use: 'sig', alg: 'RS256' };
+  const state: { issuer: string; nonce: string; claims: Record<string, unknown>; lastTokenRequest?: URLSearchParams } = {
+    issuer: '',
+    nonce: '',
+    claims: {},
+  };
+
+  const server = http.createServer((req, res) => {
+    const send = (body: unknown) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === '/.well-known/openid-configuration') {
+      return send({
+        issuer: state.issuer,
+        authorization_endpoint: `${state.issuer}/authorize`,
+        token_endpoint: `${state.issuer}/token`,
+        jwks_uri: `${state.issuer}/jwks`,
+      });
+    }
+    if (req.url === '/jwks') {
+      return send({ keys: [jwk] });
+    }
+    if (req.url === '/token' && req.method === 'POST') {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        state.lastTokenRequest = new URLSearchParams(body);
+        const idToken = jwt.sign(
+          { sub: 'user-123', nonce: state.nonce, ...state.claims },
+          privateKey,
+          { algorithm: 'RS256', keyid: 'test-key', issuer: state.issuer, audience: 'client-abc', expiresIn: 300 }
+        );
+        send({ id_token: idToken, access_token: 'access', token_type: 'Bearer' });
+      });
+      return;
+    }
+    res.statusCode = 404;
+    res.end();
+  });
+
+  return { server, state };
+}
+
+describe('SSO', () => {
+  describe('OIDC login against a local mock IdP', () => {
+    const idp = startMockIdp();
+    let config: Parameters<typeof exchangeCode>[0];
+
+    beforeAll(async () => {
+      await new Promise<void>((resolve) => idp.server.listen(0, '127.0.0.1', resolve));
+      idp.state.issuer = `http://127.0.0.1:${(idp.server.address() as AddressInfo).port}`;
+      config = {
+        issuer: idp.state.issuer,
+        clientId: 'client-abc',
+        clientSecret: 'secret-xyz',
+        redirectUri: 'https://app.example.com/api/auth/sso/conn-1/oidc/callback',
+      };
+    });
+
+    afterAll(async () => {
+      await new Promise<void>((resolve) => idp.server.close(() => resolve()));
+    });
+
+    it('should build a PKCE authorization request', async () => {
+      const request = await createAuthorizationRequest(config);
+      const url = new URL(request.url);
+
+      expect(url.origin + url.pathname).toBe(`${idp.state.issuer}/authorize`);
+      expect(url.searchParams.get('state')).toBe(request.state);
+      expect(url.searchParams.get('nonce')).toBe(request.nonce);
+      expect(url.searchParams.get('code_challenge')).toBe(
+        crypto.createHash('sha256').update(request.codeVerifier).digest('base64url')
+      );
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    });
+
+    it('should exchange the code and return verified claims', async () => {
+      idp.state.nonce = 'nonce-1';
+      idp.state.claims = { email: 'Jane@Example.com', groups: ['IT-Admins'] };
+
+      const claims = await exchangeCode(config, 'auth-code', { nonce: 'nonce-1', codeVerifier: 'verifier-1' });
+
+      expect(claims.sub).toBe('user-123');
+      expect(claims.email).toBe('Jane@Example.com');
+      expect(idp.state.lastTokenRequest?.get('code_verifier')).toBe('verifier-1');
+      expect(idp.state.lastTokenRequest?.get('client_secret')).toBe('secret-xyz');
+    });
+
+    it('should reject an ID token issued for another login request', async () => {
+      idp.state.nonce = 'someone-elses-nonce';
+
+      await expect(
+        exchangeCode(config, 'auth-code', { nonce: 'nonce-2', codeVerifier: 'verifier-2' })
+      ).rejects.toBeInstanceOf(OidcError);
+    });
+
+    it('should reject an ID token for another client', async () => {
+      idp.state.nonce = 'nonce-3';
+
+      await expect(
+        exchangeCode({ ...config, clientId: 'other-client' }, 'auth-code', { nonce: 'nonce-3', codeVerifier: 'v' })
+      ).rejects.toThrow(/audience/);
+    });
+  });
+
+  describe('Claims and role mapping', () => {
+    const mappings = [
+      { group: 'it-staff', role: 'technician' as const },
+      { group: 'IT-Admins', role: 'admin' as const },
+      { group: 'managers', role: 'it-manager' as const },
+    ];
+
+    it('should grant the highest mapped role', () => {
+      expect(resolveRoleFromGroups(['managers', 'it-admins'], mappings, 'technician')).toBe('admin');
+      expect(resolveRoleFromGroups(['Managers'], mappings, 'technician')).toBe('it-manager');
+      expect(resolveRoleFromGroups(['sales'], mappings, 'technician')).toBe('technician');
+    });
+
+    it('should never grant super-admin', () => {
+      expect(resolveRoleFromGroups(['root'], [{ group: 'root', role: 'super-admin' as any }], 'technician')).toBe('admin');
+    });
+
+    it('should map SAML attributes with defaults and overrides', () => {
+      const saml = { protocol: 'saml', emailAttribute: null, firstNameAttribute: null, lastNameAttribute: null, groupsAttribute: null };
+
+      expect(extractClaims(saml, 'nameid', { nameID: 'Jane@Example.com', givenName: 'Jane', memberOf: 'IT-Admins' })).toEqual({
+        subject: 'nameid',
+        email: 'jane@example.com',
+        firstName: 'Jane',
+        lastName: undefined,
+        groups: ['IT-Admins'],
+      });
+      expect(extractClaims({ ...saml, groupsAttribute: 'roles' }, 'nameid', { roles: ['a', 'b'], groups: ['c'] }).groups).toEqual(['a', 'b']);
+    });
+
+    it('should read the OIDC email_verified claim', () => {
+      const oidc = { protocol: 'oidc', emailAttribute: null, firstNameAttribute: null, lastNameAttribute: null, groupsAttribute: null };
+
+      expect(extractClaims(oidc, 'sub', { email: 'jane@example.com', email_verified: false }).emailVerified).toBe(false);
+      expect(extractClaims(oidc, 'sub', { email: 'jane@example.com', email_verified: 'true' }).emailVerified).toBe(true);
+      expect(extractClaims(oidc, 'sub', { email: 'jane@example.com' }).emailVerified).toBeUndefined();
+    });
+
+    it('should only accept emails in the connection domains', () => {
+      expect(isEmailInDomains('Jane@Example.com', ['example.com'])).toBe(true);
+      expect(isEmailInDomains('root@platform.io', ['example.com'])).toBe(false);
+      expect(isEmailInDomains('jane@eu.example.com', ['example.com'])).toBe(false);
+      expect(isEmailInDomains('jane@example.com', null)).toBe(false);
+    });
+
+    it('should only allow same-origin return paths', () => {
+      expect(sanitizeReturnTo('/assets?page=2')).toBe('/assets?page=2');
+      expect(sanitizeReturnTo('//evil.example.com')).toBeNull();
+      expect(sanitizeReturnTo('https://evil.example.com')).toBeNull();
+      expect(sanitizeReturnTo('/\\evil.example.com')).toBeNull();
+    });
+  });
+
+  describe('Domain verification', () => {
+    it('should refuse malformed and public email domains', () => {
+      expect(validateSsoDomain('example.com')).toBeNull();
+      expect(validateSsoDomain('eu.example.co.uk')).toBeNull();
+      expect(validateSsoDomain('localhost')).toContain('not a valid domain');
+      expect(validateSsoDomain('-bad.example.com')).toContain('not a valid domain');
+      expect(validateSsoDomain('gmail.com')).toContain('public email provider');
+    });
+
+    it('should only verify when the TXT record carries the token', async () => {
+      const record = getVerificationRecord('example.com', 'abc123');
+      expect(record.name).toBe('_assetinfo-sso.example.com');
+
+      const lookups: string[] = [];
+      const resolver = async (hostname: string) => {
+        lookups.push(hostname);
+        return [['v=spf1 -all'], ['assetinfo-sso-', 'verification=abc123']];
+      };
+
+      await expect(hasVerificationRecord('example.com', 'abc123', resolver)).resolves.toBe(true);
+      await expect(hasVerificationRecord('example.com', 'other', resolver)).resolves.toBe(false);
+      expect(lookups).toEqual([record.name, record.name]);
+    });
+
+    it('should treat missing records as unverified and surface other DNS failures', async () => {
+      const failing = (code: string) => async () => {
+        throw Object.assign(new Error(code), { code });
+      };
+
+      await expect(hasVerificationRecord('example.com', 'abc123', failing('ENOTFOUND'))).resolves.toBe(false);
+      await expect(hasVerificationRecord('example.com', 'abc123', failing('ENODATA'))).resolves.toBe(false);
+      await expect(hasVerificationRecord('example.com', 'abc123', failing('ESERVFAIL'))).rejects.toThrow('ESERVFAIL');
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from '@jest/globals';
+import { addBusinessMinutes, businessMinutesBetween, isValidTimezone, type BusinessCalendar } from '../services/tickets/business-hours';
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const newYork: BusinessCalendar = {
+  timezone: 'America/New_York',
+  hours: { days: WEEKDAYS, start: '09:00', end: '17:00' },
+};
+
+describe('Ticket SLA business hours', () => {
+  it('should run the clock continuously without a business-hours window', () => {
+    const calendar: BusinessCalendar = { timezone: 'UTC', hours: null };
+    const start = new Date('2026-03-06T22:00:00Z'); // Friday evening
+
+    expect(addBusinessMinutes(start, 240, calendar).toISOString()).toBe('2026-03-07T02:00:00.000Z');
+    expect(businessMinutesBetween(start, new Date('2026-03-07T02:00:00Z'), calendar)).toBe(240);
+  });
+
+  it('should add minutes within the same working day in the site timezone', () => {
+    // 10:00 EST on Monday 2 March
+    const start = new Date('2026-03-02T15:00:00Z');
+    expect(addBusinessMinutes(start, 120, newYork).toISOString()).toBe('2026-03-02T17:00:00.000Z');
+  });
+
+  it('should carry remaining minutes over the weekend', () => {
+    // 16:00 EST Friday 6 March; one hour left that day, three more on Monday
+    const start = new Date('2026-03-06T21:00:00Z');
+    const due = addBusinessMinutes(start, 240, newYork);
+
+    // DST starts on 8 March, so Monday 12:00 local is 16:00 UTC
+    expect(due.toISOString()).toBe('2026-03-09T16:00:00.000Z');
+    expect(businessMinutesBetween(start, due, newYork)).toBe(240);
+  });
+
+  it('should start the clock at the next opening when created out of hours', () => {
+    // Saturday 7 March, 10:00 EST
+    const start = new Date('2026-03-07T15:00:00Z');
+    expect(addBusinessMinutes(start, 30, newYork).toISOString()).toBe('2026-03-09T13:30:00.000Z');
+  });
+
+  it('should not count time outside the window', () => {
+    const calendar: BusinessCalendar = {
+      timezone: 'Asia/Kolkata',
+      hours: { days: WEEKDAYS, start: '09:30', end: '18:30' },
+    };
+    // Monday 18:00 IST to Tuesday 10:00 IST: 30 + 30 minutes
+    const from = new Date('2026-06-01T12:30:00Z');
+    const to = new Date('2026-06-02T04:30:00Z');
+
+    expect(businessMinutesBetween(from, to, calendar)).toBe(60);
+    expect(businessMinutesBetween(to, from, calendar)).toBe(0);
+  });
+
+  it('should reject unknown timezones', () => {
+    expect(isValidTimezone('Europe/London')).toBe(true);
+    expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
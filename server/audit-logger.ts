@@ -9,6 +9,12 @@ export const AuditActions = {
   SIGNUP: "signup", 
   LOGOUT: "logout",
   PASSWORD_CHANGE: "password_change",
+  MFA_ENROLL: "mfa_enroll",
+  MFA_REMOVE: "mfa_remove",
+  MFA_VERIFY: "mfa_verify",
+  MFA_VERIFY_FAILED: "mfa_verify_failed",
+  MFA_RECOVERY_CODES_REGENERATE: "mfa_recovery_codes_regenerate",
+  MFA_RESET: "mfa_reset",
   
   // Assets
   ASSET_CREATE: "asset_create",
@@ -16,6 +22,11 @@ export const AuditActions = {
   ASSET_DELETE: "asset_delete",
   ASSET_BULK_IMPORT: "asset_bulk_import",
   ASSET_BULK_UPDATE: "asset_bulk_update",
+  ASSET_STATUS_CHANGE: "asset_status_change",
+  ASSET_CHECK_OUT: "asset_check_out",
+  ASSET_CHECK_IN: "asset_check_in",
+  ASSET_MOVE: "asset_move",
+  ASSET_TAG_ASSIGN: "asset_tag_assign",
   
   // Software Licenses
   LICENSE_CREATE: "license_create",
@@ -43,6 +54,9 @@ export const AuditActions = {
   TICKET_COMMENT_ADD: "ticket_comment_add",
   TICKET_COMMENT_UPDATE: "ticket_comment_update",
   TICKET_COMMENT_DELETE: "ticket_comment_delete",
+
+  // Access Requests
+  ACCESS_REQUEST_OVERRIDE: "access_request_override",
   
   // Settings & Preferences
   USER_PREFERENCES_UPDATE: "user_preferences_update",
@@ -97,6 +111,35 @@ export const ResourceTypes = {
   IDENTITY_PROVIDER: "identity_provider",
   SAAS_INVOICE: "saas_invoice",
   GOVERNANCE_POLICY: "governance_policy",
+  // Identity Governance (Phase 6)
+  MFA_FACTOR: "mfa_factor",
+  ACCESS_REQUEST: "access_request",
+  JIT_ACCESS_SESSION: "jit_access_session",
+  BREAK_GLASS_ACCOUNT: "break_glass_account",
+  BREAK_GLASS_SESSION: "break_glass_session",
+  SSO_CONNECTION: "sso_connection",
+  SCIM_TOKEN: "scim_token",
+  SCIM_GROUP: "scim_group",
+  // Service Desk
+  TICKET_SLA_POLICY: "ticket_sla_policy",
+  // Endpoint Agent
+  AGENT_DEVICE: "agent_device",
+  AGENT_COMMAND: "agent_command",
+  // Network Discovery
+  DISCOVERY_JOB: "discovery_job",
+  CREDENTIAL_PROFILE: "credential_profile",
+  // Finance
+  DEPRECIATION_SCHEDULE: "depreciation_schedule",
+  // Software Asset Management
+  SOFTWARE_PRODUCT: "software_product",
+  SOFTWARE_NORMALIZATION_RULE: "software_normalization_rule",
+  // Physical Inventory
+  INVENTORY_AUDIT: "inventory_audit",
+  // CMDB
+  BUSINESS_SERVICE: "business_service",
+  CI_RELATIONSHIP: "ci_relationship",
+  // Warranty & AMC coverage
+  COVERAGE_ALERT: "coverage_alert",
 } as const;
 
 interface AuditLogOptions {
@@ -3,6 +3,10 @@ import path from "node:path";
 import cookieParser from "cookie-parser";
 import { startOpenAuditScheduler } from "./services/openauditScheduler";
 import { AccessReviewScheduler } from "./services/access-review/scheduler";
+import { ticketSlaService } from "./services/tickets/sla-service";
+import { assetLifecycleService } from "./services/assets/asset-lifecycle";
+import { coverageAlertsService } from "./services/assets/coverage-alerts";
+import { policyEngine } from "./services/policy/engine";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerAllRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
@@ -127,5 +131,9 @@ app.use((req, res, next) => {
     log(`serving on http://${host}:${port}`);
     startOpenAuditScheduler(); // ← start the every-minute sync (if enabled)
     AccessReviewScheduler.initializeScheduledTasks(); // ← Phase 5: Access review automation
+    ticketSlaService.start(); // ← ticket SLA warnings, breaches and escalation
+    assetLifecycleService.start(); // ← overdue asset return reminders
+    coverageAlertsService.start(); // ← hardware warranty / AMC expiry alerts
+    policyEngine.getEventSystem().startDispatcher(); // ← retry failed and orphaned event deliveries
   });
 })();
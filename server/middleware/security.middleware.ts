@@ -104,6 +104,19 @@ export const sensitiveOperationLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+/**
+ * Rate Limiter for MFA Verification
+ * Slows down guessing of TOTP codes; failed attempts are also capped per user
+ */
+export const mfaVerificationLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // Limit each IP to 10 failed verifications per windowMs
+  message: "Too many MFA verification attempts, please try again later.",
+  standardHeaders: true,
+  legacyHeaders: false,
+  skipSuccessfulRequests: true,
+});
+
 /**
  * Response Compression Middleware
  * Compresses HTTP responses for better performance
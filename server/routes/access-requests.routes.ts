@@ -9,11 +9,22 @@
 
 import { Router } from "express";
 import { storage } from "../storage";
-import { AccessRequestService } from "../services/advanced/access-request";
+import { authenticateToken, requireRole } from "../middleware/auth.middleware";
+import { checkPermission } from "../services/auth";
+import { auditLogger, AuditActions, ResourceTypes } from "../audit-logger";
+import { AccessRequestService, AccessRequestError } from "../services/advanced/access-request";
 import type { Request, Response } from "express";
 
 const router = Router();
 
+const handleAccessRequestError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof AccessRequestError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`[AccessRequests] ${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+};
+
 /**
  * @swagger
  * /api/access-requests:
@@ -78,6 +89,275 @@ router.get("/", async (req: Request, res: Response) => {
   }
 });
 
+// ============================================================================
+// Access Catalog
+// ============================================================================
+
+/**
+ * @swagger
+ * /api/access-requests/catalog:
+ *   get:
+ *     tags: [Access Requests]
+ *     summary: Browse the access catalog
+ *     description: Apps, app roles and bundles users can request, with their approval chains and duration limits
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: itemType
+ *         schema:
+ *           type: string
+ *           enum: [app, role, bundle]
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *         description: Include retired items (IT managers only)
+ *     responses:
+ *       200:
+ *         description: Catalog items
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AccessCatalogItem'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       500:
+ *         description: Server error
+ */
+router.get("/catalog", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const service = new AccessRequestService(req.user!.tenantId);
+    const items = await service.getCatalog({
+      itemType: req.query.itemType as string | undefined,
+      includeInactive: req.query.includeInactive === "true" && checkPermission(req.user!.role, "it-manager"),
+    });
+
+    res.json(items);
+  } catch (error) {
+    handleAccessRequestError(res, error, "Failed to fetch access catalog");
+  }
+});
+
+/**
+ * @swagger
+ * /api/access-requests/catalog:
+ *   post:
+ *     tags: [Access Requests]
+ *     summary: Add a catalog item
+ *     description: |
+ *       Publish an app, an app role or a bundle of those for request. Each item may define its own
+ *       approval chain (default: manager, app owner, then security review at risk score 50+), a
+ *       maximum grant duration, and how a connector provisions it (IdP group or app assignment).
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AccessCatalogItem'
+ *     responses:
+ *       201:
+ *         description: Catalog item created
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         description: Application or bundle item not found
+ *       500:
+ *         description: Server error
+ */
+router.post("/catalog", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const service = new AccessRequestService(req.user!.tenantId);
+    const item = await service.createCatalogItem(req.body, req.user!.userId);
+
+    res.status(201).json(item);
+  } catch (error) {
+    handleAccessRequestError(res, error, "Failed to create catalog item");
+  }
+});
+
+/**
+ * @swagger
+ * /api/access-requests/catalog/{id}:
+ *   put:
+ *     tags: [Access Requests]
+ *     summary: Replace a catalog item
+ *     description: Requests already submitted keep the grants and approval chain they were made with
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AccessCatalogItem'
+ *     responses:
+ *       200:
+ *         description: Catalog item updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         description: Server error
+ */
+router.put("/catalog/:id", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const service = new AccessRequestService(req.user!.tenantId);
+    const item = await service.updateCatalogItem(req.params.id, req.body);
+
+    res.json(item);
+  } catch (error) {
+    handleAccessRequestError(res, error, "Failed to update catalog item");
+  }
+});
+
+/**
+ * @swagger
+ * /api/access-requests/catalog/{id}/status:
+ *   post:
+ *     tags: [Access Requests]
+ *     summary: Retire or restore a catalog item
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - isActive
+ *             properties:
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Catalog item updated
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         description: Server error
+ */
+router.post("/catalog/:id/status", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    if (typeof req.body?.isActive !== "boolean") {
+      return res.status(400).json({ error: "isActive must be a boolean" });
+    }
+
+    const service = new AccessRequestService(req.user!.tenantId);
+    const item = await service.setCatalogItemActive(req.params.id, req.body.isActive);
+
+    res.json(item);
+  } catch (error) {
+    handleAccessRequestError(res, error, "Failed to update catalog item");
+  }
+});
+
+/**
+ * @swagger
+ * /api/access-requests/catalog-requests:
+ *   post:
+ *     tags: [Access Requests]
+ *     summary: Request an item from the access catalog
+ *     description: |
+ *       Submit a request for the caller. SoD rules are checked first: critical conflicts block the
+ *       request, other conflicts add a security review. The request then moves through the item's
+ *       approval chain and is provisioned through an IdP connector, or a fulfilment ticket, on approval.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - catalogItemId
+ *               - justification
+ *             properties:
+ *               catalogItemId:
+ *                 type: string
+ *               justification:
+ *                 type: string
+ *               durationHours:
+ *                 type: integer
+ *                 description: Time-bound grant length; capped by the item's maxDurationHours
+ *     responses:
+ *       201:
+ *         description: Request submitted
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         description: Catalog item not found
+ *       409:
+ *         description: Blocked by a critical SoD conflict
+ *       500:
+ *         description: Server error
+ */
+router.post("/catalog-requests", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const service = new AccessRequestService(req.user!.tenantId);
+    const result = await service.submitCatalogRequest(req.user!.userId, req.body);
+
+    res.status(201).json(result);
+  } catch (error) {
+    handleAccessRequestError(res, error, "Failed to submit access request");
+  }
+});
+
+/**
+ * @swagger
+ * /api/access-requests/expire-grants:
+ *   post:
+ *     tags: [Access Requests]
+ *     summary: Remove expired time-bound grants
+ *     description: Revoke access granted by requests whose duration has run out (admin/scheduler use)
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Expiry run completed
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       500:
+ *         description: Server error
+ */
+router.post("/expire-grants", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const service = new AccessRequestService(req.user!.tenantId);
+    const result = await service.expireGrants();
+
+    res.json(result);
+  } catch (error) {
+    handleAccessRequestError(res, error, "Failed to expire grants");
+  }
+});
+
 /**
  * @swagger
  * /api/access-requests/{id}:
@@ -317,7 +597,12 @@ router.post("/", async (req: Request, res: Response) => {
  *   post:
  *     tags: [Access Requests]
  *     summary: Approve or deny an access request
- *     description: Review an access request and approve or deny it with notes
+ *     description: |
+ *       Decide the caller's step of the request's approval chain. Only that step's approvers may
+ *       decide it (any IT manager when it names none), and each step needs a different approver.
+ *       An IT manager may override a step's named approvers with `override: true`, which is
+ *       audited and not allowed for security review. Requesters never approve their own requests.
+ *       Approving the last step provisions the access.
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -336,43 +621,62 @@ router.post("/", async (req: Request, res: Response) => {
  *             type: object
  *             required:
  *               - decision
- *               - approverId
  *             properties:
  *               decision:
  *                 type: string
  *                 enum: [approved, denied]
- *               approverId:
- *                 type: string
- *                 format: uuid
  *               notes:
  *                 type: string
+ *               override:
+ *                 type: boolean
+ *                 description: IT managers only - decide in place of the step's named approvers
  *     responses:
  *       200:
  *         description: Request reviewed successfully
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not an approver of the current step, already decided an earlier step, or the caller's own request
+ *       409:
+ *         description: Request already decided
  *       500:
  *         description: Server error
  */
-router.post("/:id/review", async (req: Request, res: Response) => {
+router.post("/:id/review", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
   try {
-    const tenantId = req.user?.tenantId;
-    if (!tenantId) {
-      return res.status(401).json({ error: "Unauthorized" });
+    const { decision, notes, override } = req.body;
+    if (decision !== "approved" && decision !== "denied") {
+      return res.status(400).json({ error: "decision must be approved or denied" });
     }
 
-    const service = new AccessRequestService(tenantId);
-    await service.reviewRequest({
+    const service = new AccessRequestService(req.user!.tenantId);
+    const request = await service.reviewRequest({
       requestId: req.params.id,
-      ...req.body,
+      decision,
+      notes,
+      approverId: req.user!.userId,
+      approverIsItManager: checkPermission(req.user!.role, "it-manager"),
+      override: override === true,
     });
 
-    res.json({ message: "Request reviewed successfully" });
+    const overridden = request.approvalSteps?.find(step => step.overridden && step.decidedBy === req.user!.userId);
+    if (overridden) {
+      await auditLogger.logActivity(
+        auditLogger.createUserContext(req),
+        {
+          action: AuditActions.ACCESS_REQUEST_OVERRIDE,
+          resourceType: ResourceTypes.ACCESS_REQUEST,
+          resourceId: request.id,
+          description: `Overrode ${overridden.name} (${overridden.status}) on ${request.requesterName}'s request for ${request.appName}`,
+          afterState: { step: overridden.name, status: overridden.status, approverIds: overridden.approverIds, notes },
+        },
+        req
+      );
+    }
+
+    res.json({ message: "Request reviewed successfully", request });
   } catch (error) {
-    console.error("[AccessRequests] Error reviewing request:", error);
-    res.status(500).json({
-      error: error instanceof Error ? error.message : "Failed to review access request"
-    });
+    handleAccessRequestError(res, error, "Failed to review access request");
   }
 });
 
@@ -8,10 +8,11 @@
  * - Role template management
  */
 
-import { Router } from 'express';
+import { Router, type Response } from 'express';
 import { storage } from '../storage';
-import { requireRole } from '../middleware/auth.middleware';
-import { AccessReviewCampaignEngine } from '../services/access-review/campaign-engine';
+import { authenticateToken, requireRole } from '../middleware/auth.middleware';
+import { checkPermission } from '../services/auth';
+import { AccessReviewCampaignEngine, AccessReviewError } from '../services/access-review/campaign-engine';
 import { PrivilegeDriftDetector } from '../services/access-review/privilege-drift';
 import { OverprivilegedAccountDetector } from '../services/access-review/overprivileged-detector';
 import type {
@@ -19,9 +20,23 @@ import type {
   BulkDecision,
 } from '../services/access-review/campaign-engine';
 import type { RoleTemplateDefinition } from '../services/access-review/privilege-drift';
+import { createReviewDelegationSchema, reassignReviewItemSchema } from '@shared/schema';
 
 const router = Router();
 
+const handleAccessReviewError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof AccessReviewError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+};
+
+const currentUserName = async (userId: string) => {
+  const user = await storage.getUser(userId);
+  return user ? `${user.firstName} ${user.lastName}`.trim() || user.email : 'Unknown';
+};
+
 // ============================================
 // Access Review Campaigns
 // ============================================
@@ -50,7 +65,7 @@ router.get('/campaigns', requireRole(['admin', 'compliance_manager']), async (re
  * GET /api/access-reviews/campaigns/:id
  * Get campaign details
  */
-router.get('/campaigns/:id', requireRole(['admin', 'compliance_manager', 'manager']), async (req, res) => {
+router.get('/campaigns/:id', authenticateToken, requireRole('technician'), async (req, res) => {
   try {
     const tenantId = req.user!.tenantId;
     const { id } = req.params;
@@ -71,10 +86,10 @@ router.get('/campaigns/:id', requireRole(['admin', 'compliance_manager', 'manage
  * POST /api/access-reviews/campaigns
  * Create a new access review campaign
  */
-router.post('/campaigns', requireRole(['admin', 'compliance_manager']), async (req, res) => {
+router.post('/campaigns', authenticateToken, requireRole('it-manager'), async (req, res) => {
   try {
     const tenantId = req.user!.tenantId;
-    const userId = req.user!.id;
+    const userId = req.user!.userId;
     const config: CampaignConfig = req.body;
 
     // Validate config
@@ -87,8 +102,7 @@ router.post('/campaigns', requireRole(['admin', 'compliance_manager']), async (r
 
     res.status(201).json({ campaignId, message: 'Campaign created successfully' });
   } catch (error) {
-    console.error('Error creating campaign:', error);
-    res.status(500).json({ error: 'Failed to create campaign' });
+    handleAccessReviewError(res, error, 'Failed to create campaign');
   }
 });
 
@@ -115,9 +129,14 @@ router.post('/campaigns/:id/generate-items', requireRole(['admin', 'compliance_m
  * GET /api/access-reviews/campaigns/:id/items
  * Get review items for a campaign
  */
-router.get('/campaigns/:id/items', requireRole(['admin', 'compliance_manager', 'manager']), async (req, res) => {
+router.get('/campaigns/:id/items', authenticateToken, requireRole('technician'), async (req, res) => {
   try {
     const { id } = req.params;
+    const campaign = await storage.getAccessReviewCampaign(id, req.user!.tenantId);
+    if (!campaign) {
+      return res.status(404).json({ error: 'Campaign not found' });
+    }
+
     const items = await storage.getAccessReviewItems(id);
 
     res.json({ items });
@@ -211,19 +230,36 @@ router.get('/campaigns/:id/export/csv', requireRole(['admin', 'compliance_manage
   }
 });
 
+/**
+ * GET /api/access-reviews/campaigns/:id/report
+ * Compliance report for a campaign, with each revocation marked revoked and verified, pending
+ * verification or escalated
+ */
+router.get('/campaigns/:id/report', authenticateToken, requireRole('it-manager'), async (req, res) => {
+  try {
+    const engine = new AccessReviewCampaignEngine(req.user!.tenantId);
+    const report = await engine.buildCompletionReport(req.params.id);
+
+    res.json({ report });
+  } catch (error) {
+    handleAccessReviewError(res, error, 'Failed to build campaign report');
+  }
+});
+
 // ============================================
 // Access Review Items & Decisions
 // ============================================
 
 /**
  * POST /api/access-reviews/items/:id/decision
- * Submit a review decision for an item
+ * Submit a review decision for an item at its current stage. Only the assigned reviewer may
+ * decide, or an IT manager overriding them; nobody may certify their own access or decide a
+ * second stage of the same item.
  */
-router.post('/items/:id/decision', requireRole(['admin', 'compliance_manager', 'manager']), async (req, res) => {
+router.post('/items/:id/decision', authenticateToken, requireRole('technician'), async (req, res) => {
   try {
     const tenantId = req.user!.tenantId;
-    const userId = req.user!.id;
-    const userName = req.user!.name;
+    const userId = req.user!.userId;
     const { id } = req.params;
     const { decision, notes } = req.body;
 
@@ -231,30 +267,67 @@ router.post('/items/:id/decision', requireRole(['admin', 'compliance_manager', '
       return res.status(400).json({ error: 'Invalid decision' });
     }
 
-    const item = await storage.getAccessReviewItem(id);
-    if (!item) {
-      return res.status(404).json({ error: 'Review item not found' });
+    const engine = new AccessReviewCampaignEngine(tenantId);
+    const { item } = await engine.getItemWithCampaign(id);
+    if (item.reviewerId !== userId && !checkPermission(req.user!.role, 'it-manager')) {
+      return res.status(403).json({ error: 'This item is assigned to another reviewer' });
+    }
+
+    const updated = await engine.submitDecision(id, decision, notes, userId, await currentUserName(userId));
+
+    res.json({
+      item: updated,
+      message: updated.decision === 'pending'
+        ? `Approved; moved to stage "${updated.stageName}"`
+        : 'Decision submitted successfully',
+    });
+  } catch (error) {
+    handleAccessReviewError(res, error, 'Failed to submit decision');
+  }
+});
+
+/**
+ * POST /api/access-reviews/items/:id/reassign
+ * Hand a pending item to another reviewer at its current stage (IT manager or the current reviewer)
+ */
+router.post('/items/:id/reassign', authenticateToken, requireRole('technician'), async (req, res) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const userId = req.user!.userId;
+    const parsed = reassignReviewItemSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message ?? 'Invalid request' });
     }
 
     const engine = new AccessReviewCampaignEngine(tenantId);
-    await engine.submitDecision(id, decision, notes, userId, userName);
+    const { item } = await engine.getItemWithCampaign(req.params.id);
+    if (item.reviewerId !== userId && !checkPermission(req.user!.role, 'it-manager')) {
+      return res.status(403).json({ error: 'Only the assigned reviewer or an IT manager can reassign this item' });
+    }
+
+    const updated = await engine.reassignItem(
+      req.params.id,
+      parsed.data.reviewerId,
+      parsed.data.reason,
+      userId,
+      await currentUserName(userId)
+    );
 
-    res.json({ message: 'Decision submitted successfully' });
+    res.json({ item: updated, message: `Reassigned to ${updated.reviewerName}` });
   } catch (error) {
-    console.error('Error submitting decision:', error);
-    res.status(500).json({ error: 'Failed to submit decision' });
+    handleAccessReviewError(res, error, 'Failed to reassign review item');
   }
 });
 
 /**
  * POST /api/access-reviews/campaigns/:id/bulk-decision
- * Submit bulk decisions for multiple items
+ * Submit bulk decisions for multiple items, reporting how many were decided and why the rest
+ * were not
  */
-router.post('/campaigns/:id/bulk-decision', requireRole(['admin', 'compliance_manager', 'manager']), async (req, res) => {
+router.post('/campaigns/:id/bulk-decision', authenticateToken, requireRole('technician'), async (req, res) => {
   try {
     const tenantId = req.user!.tenantId;
-    const userId = req.user!.id;
-    const userName = req.user!.name;
+    const userId = req.user!.userId;
     const { itemIds, decision, notes } = req.body;
 
     if (!itemIds || !Array.isArray(itemIds) || itemIds.length === 0) {
@@ -265,18 +338,31 @@ router.post('/campaigns/:id/bulk-decision', requireRole(['admin', 'compliance_ma
       return res.status(400).json({ error: 'Invalid decision' });
     }
 
+    const engine = new AccessReviewCampaignEngine(tenantId);
+    if (!checkPermission(req.user!.role, 'it-manager')) {
+      const items = await storage.getAccessReviewItems(req.params.id);
+      const assigned = new Set(items.filter(item => item.reviewerId === userId).map(item => item.id));
+      if (itemIds.some((itemId: string) => !assigned.has(itemId))) {
+        return res.status(403).json({ error: 'Some items are assigned to another reviewer' });
+      }
+    }
+
     const bulkDecision: BulkDecision = {
       itemIds,
       decision,
       notes,
       reviewerId: userId,
-      reviewerName: userName,
+      reviewerName: await currentUserName(userId),
     };
 
-    const engine = new AccessReviewCampaignEngine(tenantId);
-    await engine.submitBulkDecision(bulkDecision);
+    const result = await engine.submitBulkDecision(bulkDecision);
 
-    res.json({ message: `Bulk decision submitted for ${itemIds.length} items` });
+    res.json({
+      ...result,
+      message: result.failed === 0
+        ? `Bulk decision submitted for ${result.succeeded} items`
+        : `Bulk decision submitted for ${result.succeeded} of ${itemIds.length} items; ${result.failed} failed`,
+    });
   } catch (error) {
     console.error('Error submitting bulk decision:', error);
     res.status(500).json({ error: 'Failed to submit bulk decision' });
@@ -287,9 +373,9 @@ router.post('/campaigns/:id/bulk-decision', requireRole(['admin', 'compliance_ma
  * GET /api/access-reviews/my-reviews
  * Get pending review items assigned to current user
  */
-router.get('/my-reviews', requireRole(['admin', 'compliance_manager', 'manager']), async (req, res) => {
+router.get('/my-reviews', authenticateToken, requireRole('technician'), async (req, res) => {
   try {
-    const userId = req.user!.id;
+    const userId = req.user!.userId;
     const tenantId = req.user!.tenantId;
 
     // Get all active campaigns
@@ -316,6 +402,83 @@ router.get('/my-reviews', requireRole(['admin', 'compliance_manager', 'manager']
   }
 });
 
+// ============================================
+// Reviewer Delegations
+// ============================================
+
+/**
+ * GET /api/access-reviews/delegations
+ * List review delegations; non-managers only see their own
+ */
+router.get('/delegations', authenticateToken, requireRole('technician'), async (req, res) => {
+  try {
+    const engine = new AccessReviewCampaignEngine(req.user!.tenantId);
+    const delegatorId = checkPermission(req.user!.role, 'it-manager')
+      ? req.query.delegatorId as string | undefined
+      : req.user!.userId;
+
+    const delegations = await engine.listDelegations(delegatorId);
+    res.json({ delegations });
+  } catch (error) {
+    handleAccessReviewError(res, error, 'Failed to fetch delegations');
+  }
+});
+
+/**
+ * POST /api/access-reviews/delegations
+ * Delegate reviews for a period (e.g. while on leave). Reviewers delegate their own reviews;
+ * IT managers can delegate on behalf of anyone.
+ */
+router.post('/delegations', authenticateToken, requireRole('technician'), async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    const parsed = createReviewDelegationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message ?? 'Invalid request' });
+    }
+
+    const delegatorId = parsed.data.delegatorId ?? userId;
+    if (delegatorId !== userId && !checkPermission(req.user!.role, 'it-manager')) {
+      return res.status(403).json({ error: 'Only IT managers can delegate on behalf of another reviewer' });
+    }
+
+    const engine = new AccessReviewCampaignEngine(req.user!.tenantId);
+    const result = await engine.createDelegation(
+      { ...parsed.data, delegatorId },
+      userId,
+      await currentUserName(userId)
+    );
+
+    res.status(201).json({ ...result, message: 'Delegation created successfully' });
+  } catch (error) {
+    handleAccessReviewError(res, error, 'Failed to create delegation');
+  }
+});
+
+/**
+ * POST /api/access-reviews/delegations/:id/revoke
+ * End a delegation early (the delegator or an IT manager)
+ */
+router.post('/delegations/:id/revoke', authenticateToken, requireRole('technician'), async (req, res) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const delegation = await storage.getAccessReviewDelegation(req.params.id, tenantId);
+    if (!delegation) {
+      return res.status(404).json({ error: 'Delegation not found' });
+    }
+    if (delegation.delegatorId !== req.user!.userId && !checkPermission(req.user!.role, 'it-manager')) {
+      return res.status(403).json({ error: 'Only the delegating reviewer or an IT manager can revoke this delegation' });
+    }
+
+    const engine = new AccessReviewCampaignEngine(tenantId);
+    const revoked = await engine.revokeDelegation(req.params.id);
+
+    res.json({ delegation: revoked, message: 'Delegation revoked successfully' });
+  } catch (error) {
+    handleAccessReviewError(res, error, 'Failed to revoke delegation');
+  }
+});
+
 // ============================================
 // Role Templates
 // ============================================
@@ -5,10 +5,158 @@ import { eq, and, sql } from "drizzle-orm";
 import type { InferInsertModel } from "drizzle-orm";
 import { buildMinimalOAXml, oaSubmitDeviceXML, oaFindDeviceId } from "../utils/openAuditClient";
 import { markSyncChanged } from "../utils/syncHeartbeat";
+import { storage } from "../storage";
+import { authenticateToken, requireRole } from "../middleware/auth.middleware";
+import { auditLogger, AuditActions, ResourceTypes } from "../audit-logger";
+import { isAgentStale } from "@shared/utils";
+import { softwareCatalogService } from "../services/software/software-catalog-service";
+import {
+  AGENT_CHECKIN_INTERVAL_SECONDS,
+  authenticateAgent,
+  issueAgentCredential,
+  type IssuedAgentCredential,
+} from "../services/agent/agent-credentials";
+import { z } from "zod";
 import crypto from "crypto";
 
 const router = Router();
 
+const AGENT_COMMAND_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// A delivered command with no reported result is handed out again after this long
+const AGENT_COMMAND_RESULT_TIMEOUT_MS = 30 * 60 * 1000;
+const AGENT_COMMAND_MAX_DELIVERIES = 3;
+
+function softwareAssetName(sw: { name?: unknown; version?: unknown }): string | null {
+  const swName = String(sw.name ?? "").trim();
+  const swVersion = String(sw.version ?? "").trim();
+  if (!swName) return null;
+  // Full name includes version for uniqueness
+  return swVersion ? `${swName} ${swVersion}` : swName;
+}
+
+/**
+ * Upsert Software assets and link them to the hardware asset
+ */
+async function importSoftware(
+  tenantId: string,
+  assetId: string,
+  hostname: string,
+  softwareArr: any[],
+  now: Date
+): Promise<number> {
+  let softwareImported = 0;
+  const rules = await softwareCatalogService.getActiveRules(tenantId);
+  const linkedIds = new Set((await storage.getAssetSoftwareLinks(assetId, tenantId)).map((link) => link.softwareAssetId));
+
+  for (const sw of softwareArr) {
+    try {
+      const fullName = softwareAssetName(sw ?? {});
+      if (!fullName) continue;
+
+      const swVersion = String(sw.version ?? "").trim();
+      const swPublisher = String(sw.publisher ?? "").trim();
+      const softwareProductId = softwareCatalogService.resolveProductId(rules, String(sw.name), swPublisher);
+
+      // Check if software asset already exists
+      const existingSw = await storage.getSoftwareAssetByName(fullName, tenantId);
+
+      let softwareAssetId: string;
+
+      if (existingSw) {
+        softwareAssetId = existingSw.id;
+        // Update existing software
+        await storage.updateAsset(softwareAssetId, tenantId, {
+          version: swVersion || null,
+          manufacturer: swPublisher || null,
+          softwareProductId,
+        });
+      } else {
+        // Create new software asset
+        const newSw = await storage.createAsset({
+          tenantId,
+          type: "Software",
+          name: fullName,
+          version: swVersion || null,
+          manufacturer: swPublisher || null,
+          status: "in-stock",
+          category: "Application",
+          notes: `Discovered via agent enrollment from ${hostname}`,
+          softwareProductId,
+        });
+
+        softwareAssetId = newSw.id;
+      }
+
+      // Create link between hardware and software (if not exists)
+      if (!linkedIds.has(softwareAssetId)) {
+        await storage.createAssetSoftwareLink({
+          tenantId,
+          assetId,
+          softwareAssetId,
+          createdAt: now,
+        });
+        linkedIds.add(softwareAssetId);
+      }
+
+      softwareImported++;
+    } catch (swErr: any) {
+      // Log but don't fail the whole report for one bad software item
+      console.warn(`[Agent] Failed to import software: ${sw?.name}`, swErr?.message);
+    }
+  }
+
+  return softwareImported;
+}
+
+/**
+ * Unlink software that the agent reports as uninstalled. The Software asset
+ * itself is kept, since other devices may still have it installed.
+ */
+async function unlinkSoftware(tenantId: string, assetId: string, softwareArr: any[]): Promise<number> {
+  let removed = 0;
+
+  for (const sw of softwareArr) {
+    const fullName = softwareAssetName(sw ?? {});
+    if (!fullName) continue;
+
+    const softwareAsset = await storage.getSoftwareAssetByName(fullName, tenantId);
+    if (!softwareAsset) continue;
+
+    if (await storage.deleteAssetSoftwareLink(assetId, softwareAsset.id, tenantId)) {
+      removed++;
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * Replace the asset's software links with a full inventory snapshot
+ */
+async function replaceSoftware(
+  tenantId: string,
+  assetId: string,
+  hostname: string,
+  softwareArr: any[],
+  now: Date
+): Promise<{ imported: number; removed: number }> {
+  const imported = await importSoftware(tenantId, assetId, hostname, softwareArr, now);
+
+  const reported = new Set(
+    softwareArr.map((sw) => softwareAssetName(sw ?? {})).filter((name): name is string => !!name)
+  );
+  const linked = await storage.getAssetSoftwareLinks(assetId, tenantId);
+
+  let removed = 0;
+  for (const link of linked) {
+    if (!reported.has(link.softwareName) && (await storage.deleteAssetSoftwareLink(assetId, link.softwareAssetId, tenantId))) {
+      removed++;
+    }
+  }
+
+  return { imported, removed };
+}
+
 /**
  * Validate agent enrollment token
  * Tokens can be:
@@ -232,9 +380,10 @@ router.post("/enroll", async (req: Request, res: Response) => {
       specifications: {
         agent: {
           platform: osName ?? null,
-          agentVersion: "dev",
+          agentVersion: body.agentVersion ? String(body.agentVersion).slice(0, 50) : "dev",
           enrollMethod: "link",
           lastCheckInAt: now.toISOString(),
+          checkInIntervalSeconds: AGENT_CHECKIN_INTERVAL_SECONDS,
           firstEnrolledAt: now.toISOString(),
           uptimeSeconds,
           lastIPs: ipsArr,
@@ -367,121 +516,26 @@ router.post("/enroll", async (req: Request, res: Response) => {
 
     if (assetId && softwareArr.length > 0) {
       console.log(`[Agent Enrollment] Processing ${softwareArr.length} software items for asset ${assetId}`);
-
-      for (const sw of softwareArr) {
-        try {
-          const swName = String(sw.name ?? "").trim();
-          const swVersion = String(sw.version ?? "").trim();
-          const swPublisher = String(sw.publisher ?? "").trim();
-
-          if (!swName) continue;
-
-          // Full name includes version for uniqueness
-          const fullName = swVersion ? `${swName} ${swVersion}` : swName;
-
-          // Check if software asset already exists
-          const [existingSw] = await db
-            .select()
-            .from(s.assets)
-            .where(
-              and(
-                eq(s.assets.tenantId, devTenant),
-                eq(s.assets.name, fullName),
-                eq(s.assets.type, "Software")
-              )
-            )
-            .limit(1);
-
-          let softwareAssetId: string;
-
-          if (existingSw) {
-            softwareAssetId = existingSw.id;
-            // Update existing software
-            await db
-              .update(s.assets)
-              .set({
-                version: swVersion || null,
-                manufacturer: swPublisher || null,
-                updatedAt: now,
-              })
-              .where(eq(s.assets.id, softwareAssetId));
-          } else {
-            // Create new software asset
-            const [newSw] = await db
-              .insert(s.assets)
-              .values({
-                tenantId: devTenant,
-                type: "Software",
-                name: fullName,
-                version: swVersion || null,
-                manufacturer: swPublisher || null,
-                status: "in-stock",
-                category: "Application",
-                notes: `Discovered via agent enrollment from ${hostname}`,
-                specifications: null,
-                location: null,
-                country: null,
-                state: null,
-                city: null,
-                assignedUserId: null,
-                assignedUserName: null,
-                assignedUserEmail: null,
-                assignedUserEmployeeId: null,
-                purchaseDate: null,
-                purchaseCost: null,
-                warrantyExpiry: null,
-                amcExpiry: null,
-                softwareName: null,
-                licenseType: null,
-                licenseKey: null,
-                usedLicenses: null,
-                renewalDate: null,
-                vendorName: null,
-                vendorEmail: null,
-                vendorPhone: null,
-                companyName: null,
-                companyGstNumber: null,
-                createdAt: now,
-                updatedAt: now,
-              })
-              .returning();
-
-            softwareAssetId = newSw.id;
-          }
-
-          // Create link between hardware and software (if not exists)
-          const [existingLink] = await db
-            .select()
-            .from(s.assetSoftwareLinks)
-            .where(
-              and(
-                eq(s.assetSoftwareLinks.tenantId, devTenant),
-                eq(s.assetSoftwareLinks.assetId, assetId),
-                eq(s.assetSoftwareLinks.softwareAssetId, softwareAssetId)
-              )
-            )
-            .limit(1);
-
-          if (!existingLink) {
-            await db.insert(s.assetSoftwareLinks).values({
-              tenantId: devTenant,
-              assetId,
-              softwareAssetId,
-              createdAt: now,
-            });
-          }
-
-          softwareImported++;
-        } catch (swErr: any) {
-          // Log but don't fail the whole enrollment for one bad software item
-          console.warn(`[Agent Enrollment] Failed to import software: ${sw.name}`, swErr?.message);
-        }
-      }
-
+      softwareImported = await importSoftware(devTenant, assetId, hostname, softwareArr, now);
       console.log(`[Agent Enrollment] Imported ${softwareImported}/${softwareArr.length} software items`);
     }
 
-    // 8) Notify heartbeat and return
+    // 8) Issue the per-device agent credential (replaces any earlier credential for this asset)
+    let agentCredential: IssuedAgentCredential | null = null;
+    if (assetId) {
+      agentCredential = await issueAgentCredential({
+        tenantId: devTenant,
+        assetId,
+        hostname,
+        serialNumber: serial,
+        platform: osName,
+        agentVersion: body.agentVersion ? String(body.agentVersion).slice(0, 50) : null,
+        lastIp: ipsArr[0] ?? null,
+        inventoryTaken: softwareArr.length > 0,
+      });
+    }
+
+    // 9) Notify heartbeat and return
     markSyncChanged();
 
     return res.json({
@@ -489,6 +543,10 @@ router.post("/enroll", async (req: Request, res: Response) => {
       assetId,
       oa: { deviceId: oaId ?? null },
       softwareImported,
+      agentId: agentCredential?.device.id ?? null,
+      agentToken: agentCredential?.token ?? null,
+      checkInIntervalSeconds: agentCredential?.device.checkInIntervalSeconds ?? null,
+      checkInUrl: "/api/agent/checkin",
       message: skipOA
         ? "Device enrolled (OA skipped by ENROLL_SKIP_OA=true)."
         : "Device enrolled and posted to Open-AudIT.",
@@ -501,4 +559,487 @@ router.post("/enroll", async (req: Request, res: Response) => {
   }
 });
 
+const softwareItemSchema = z.object({
+  name: z.string().trim().min(1).max(300),
+  version: z.string().max(100).nullable().optional(),
+  publisher: z.string().max(200).nullable().optional(),
+});
+
+const checkInSchema = z.object({
+  agentVersion: z.string().max(50).optional(),
+  hostname: z.string().max(255).optional(),
+  ips: z.array(z.string().max(64)).max(50).optional(),
+  uptimeSeconds: z.number().nonnegative().optional(),
+  loggedInUser: z.string().max(255).nullable().optional(),
+  hardware: z.object({
+    manufacturer: z.string().max(200).nullable(),
+    model: z.string().max(200).nullable(),
+    cpu: z.string().max(200).nullable(),
+    cpuCores: z.number().int().nonnegative().nullable(),
+    memoryGb: z.number().nonnegative().nullable(),
+    disks: z.array(z.object({
+      name: z.string().max(200),
+      sizeGb: z.number().nonnegative().nullable().optional(),
+    })).max(50),
+  }).partial().optional(),
+  os: z.object({
+    name: z.string().max(100).nullable(),
+    version: z.string().max(100).nullable(),
+    build: z.string().max(100).nullable(),
+    patchLevel: z.string().max(200).nullable(),
+    lastPatchedAt: z.string().max(64).nullable(),
+    pendingUpdates: z.number().int().nonnegative().nullable(),
+  }).partial().optional(),
+  diskEncryption: z.object({
+    enabled: z.boolean().nullable(),
+    method: z.string().max(100).nullable(),
+    volumes: z.array(z.object({
+      mount: z.string().max(200),
+      encrypted: z.boolean(),
+      method: z.string().max(100).nullable().optional(),
+    })).max(50),
+  }).partial().optional(),
+  software: z.object({
+    full: z.boolean().default(false),
+    items: z.array(softwareItemSchema).max(5000).default([]),
+    added: z.array(softwareItemSchema).max(5000).default([]),
+    removed: z.array(softwareItemSchema).max(5000).default([]),
+  }).optional(),
+  inventoryHashes: z.record(z.string().max(128)).optional(),
+});
+
+const commandResultSchema = z.object({
+  status: z.enum(["succeeded", "failed"]),
+  exitCode: z.number().int().nullable().optional(),
+  output: z.string().max(10000).nullable().optional(),
+});
+
+const issueCommandSchema = z.discriminatedUnion("commandType", [
+  z.object({ commandType: z.literal("reinventory"), payload: z.object({}).optional() }),
+  z.object({
+    commandType: z.literal("uninstall_package"),
+    payload: z.object({
+      packageName: z.string().trim().min(1).max(300),
+      version: z.string().max(100).optional(),
+    }),
+  }),
+]);
+
+function toDeviceResponse(device: s.AgentDevice) {
+  const { credentialHash, inventoryHashes, ...rest } = device;
+  return {
+    ...rest,
+    stale: device.status === "active" && isAgentStale(device.lastCheckInAt, device.checkInIntervalSeconds),
+  };
+}
+
+/**
+ * @swagger
+ * /api/agent/checkin:
+ *   post:
+ *     summary: Periodic agent check-in with inventory deltas
+ *     description: |
+ *       Authenticated with the per-device agent token issued at enrollment.
+ *       Only changed inventory sections need to be sent; software may be a full
+ *       snapshot or an added/removed delta. Pending commands are returned and
+ *       marked as delivered. A delivered command with no result after 30 minutes
+ *       is returned again, and marked failed after three deliveries.
+ *     tags: [Agent]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Check-in accepted, with the next interval and queued commands
+ *       401:
+ *         description: Missing, unknown or revoked agent token
+ *       410:
+ *         description: The enrolled asset no longer exists; the agent must re-enroll
+ */
+router.post("/checkin", async (req: Request, res: Response) => {
+  try {
+    const device = await authenticateAgent(req.headers.authorization);
+    if (!device) {
+      return res.status(401).json({ ok: false, error: "Unauthorized" });
+    }
+
+    const data = checkInSchema.parse(req.body ?? {});
+    const now = new Date();
+
+    const asset = await storage.getAsset(device.assetId, device.tenantId);
+    if (!asset) {
+      await storage.revokeAgentDevice(device.id, device.tenantId);
+      return res.status(410).json({ ok: false, error: "Enrolled asset no longer exists; re-enroll the device" });
+    }
+
+    // 1) Merge reported sections into the asset's agent specifications
+    const specifications = (asset.specifications as any) ?? {};
+    const previous = specifications.agent ?? {};
+    const inventoryReported = !!(data.hardware || data.os || data.diskEncryption || data.software);
+
+    const agentSpec: Record<string, any> = {
+      ...previous,
+      agentVersion: data.agentVersion ?? previous.agentVersion,
+      lastCheckInAt: now.toISOString(),
+      checkInIntervalSeconds: device.checkInIntervalSeconds,
+      uptimeSeconds: data.uptimeSeconds ?? previous.uptimeSeconds ?? null,
+      lastIPs: data.ips ?? previous.lastIPs ?? [],
+    };
+    if (data.loggedInUser !== undefined) {
+      agentSpec.loggedInUser = data.loggedInUser;
+    }
+    if (data.hardware) {
+      agentSpec.hardware = { ...previous.hardware, ...data.hardware };
+    }
+    if (data.os) {
+      agentSpec.os = { ...previous.os, ...data.os };
+      agentSpec.platform = data.os.name ?? previous.platform ?? null;
+    }
+    if (data.diskEncryption) {
+      agentSpec.diskEncryption = data.diskEncryption;
+    }
+    if (inventoryReported) {
+      agentSpec.lastInventoryAt = now.toISOString();
+    }
+
+    await storage.updateAsset(asset.id, device.tenantId, {
+      specifications: { ...specifications, agent: agentSpec } as any,
+      ...(data.hardware?.manufacturer ? { manufacturer: data.hardware.manufacturer } : {}),
+      ...(data.hardware?.model ? { model: data.hardware.model } : {}),
+    });
+
+    // 2) Apply software snapshot or delta
+    let softwareAdded = 0;
+    let softwareRemoved = 0;
+    if (data.software?.full) {
+      const result = await replaceSoftware(device.tenantId, asset.id, asset.name, data.software.items, now);
+      softwareAdded = result.imported;
+      softwareRemoved = result.removed;
+    } else if (data.software) {
+      softwareAdded = await importSoftware(device.tenantId, asset.id, asset.name, data.software.added, now);
+      softwareRemoved = await unlinkSoftware(device.tenantId, asset.id, data.software.removed);
+    }
+
+    // A delta is only meaningful against a baseline the server has applied
+    const hasBaseline = !!device.lastInventoryAt || !!data.software?.full;
+
+    // 3) Record check-in state and hand over queued commands
+    await storage.updateAgentDevice(device.id, device.tenantId, {
+      hostname: data.hostname || device.hostname,
+      agentVersion: data.agentVersion ?? device.agentVersion,
+      platform: data.os?.name ?? device.platform,
+      lastCheckInAt: now,
+      lastIp: data.ips?.[0] ?? req.ip ?? device.lastIp,
+      lastInventoryAt: data.software?.full ? now : device.lastInventoryAt,
+      ...(data.inventoryHashes
+        ? { inventoryHashes: { ...((device.inventoryHashes as Record<string, string> | null) ?? {}), ...data.inventoryHashes } }
+        : {}),
+    });
+
+    const commands = await storage.claimPendingAgentCommands(
+      device.id,
+      device.tenantId,
+      new Date(now.getTime() - AGENT_COMMAND_RESULT_TIMEOUT_MS),
+      AGENT_COMMAND_MAX_DELIVERIES
+    );
+
+    if (softwareAdded > 0 || softwareRemoved > 0) {
+      markSyncChanged();
+    }
+
+    return res.json({
+      ok: true,
+      nextCheckInSeconds: device.checkInIntervalSeconds,
+      fullInventoryRequired: !hasBaseline,
+      software: { added: softwareAdded, removed: softwareRemoved },
+      commands: commands.map((command) => ({
+        id: command.id,
+        type: command.commandType,
+        payload: command.payload ?? {},
+      })),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ ok: false, error: "Validation failed", errors: error.errors });
+    }
+    console.error("[POST /api/agent/checkin] fail:", error);
+    return res.status(500).json({ ok: false, error: "Check-in failed" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/agent/commands/{id}/result:
+ *   post:
+ *     summary: Report the outcome of a delivered agent command
+ *     tags: [Agent]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [succeeded, failed]
+ *               exitCode:
+ *                 type: integer
+ *               output:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Result recorded
+ *       401:
+ *         description: Missing, unknown or revoked agent token
+ *       404:
+ *         description: Command not found for this device
+ *       409:
+ *         description: Command is not awaiting a result
+ */
+router.post("/commands/:id/result", async (req: Request, res: Response) => {
+  try {
+    const device = await authenticateAgent(req.headers.authorization);
+    if (!device) {
+      return res.status(401).json({ ok: false, error: "Unauthorized" });
+    }
+
+    const data = commandResultSchema.parse(req.body ?? {});
+    const command = await storage.getAgentCommand(req.params.id, device.tenantId);
+    if (!command || command.agentDeviceId !== device.id) {
+      return res.status(404).json({ ok: false, error: "Command not found" });
+    }
+    if (command.status !== "delivered") {
+      return res.status(409).json({ ok: false, error: `Command is ${command.status}` });
+    }
+
+    const updated = await storage.updateAgentCommand(command.id, device.tenantId, {
+      status: data.status,
+      result: { exitCode: data.exitCode ?? null, output: data.output ?? null },
+      completedAt: new Date(),
+    });
+
+    await auditLogger.logSystemActivity(device.tenantId, {
+      action: AuditActions.UPDATE,
+      resourceType: ResourceTypes.AGENT_COMMAND,
+      resourceId: command.id,
+      description: `Agent on ${device.hostname} reported ${command.commandType} ${data.status}`,
+      beforeState: { status: command.status },
+      afterState: { status: updated?.status, exitCode: data.exitCode ?? null },
+    });
+
+    return res.json({ ok: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ ok: false, error: "Validation failed", errors: error.errors });
+    }
+    console.error("[POST /api/agent/commands/:id/result] fail:", error);
+    return res.status(500).json({ ok: false, error: "Failed to record command result" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/agent/devices:
+ *   get:
+ *     summary: List enrolled agent devices with check-in health
+ *     description: A device is stale when it has missed three consecutive check-ins
+ *     tags: [Agent]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Agent devices for the tenant
+ */
+router.get("/devices", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const devices = await storage.getAgentDevices(req.user!.tenantId);
+    res.json(devices.map(toDeviceResponse));
+  } catch (error) {
+    console.error("Failed to fetch agent devices:", error);
+    res.status(500).json({ message: "Failed to fetch agent devices" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/agent/devices/{id}/commands:
+ *   get:
+ *     summary: List commands queued for an agent device
+ *     tags: [Agent]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Commands, newest first
+ *       404:
+ *         description: Agent device not found
+ */
+router.get("/devices/:id/commands", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const device = await storage.getAgentDevice(req.params.id, tenantId);
+    if (!device) {
+      return res.status(404).json({ message: "Agent device not found" });
+    }
+
+    const commands = await storage.getAgentCommands(device.id, tenantId);
+    res.json(commands);
+  } catch (error) {
+    console.error("Failed to fetch agent commands:", error);
+    res.status(500).json({ message: "Failed to fetch agent commands" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/agent/devices/{id}/commands:
+ *   post:
+ *     summary: Queue a command for an agent device
+ *     description: The agent picks the command up on its next check-in
+ *     tags: [Agent]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [commandType]
+ *             properties:
+ *               commandType:
+ *                 type: string
+ *                 enum: [reinventory, uninstall_package]
+ *               payload:
+ *                 type: object
+ *                 properties:
+ *                   packageName:
+ *                     type: string
+ *     responses:
+ *       201:
+ *         description: Command queued
+ *       400:
+ *         description: Invalid command
+ *       404:
+ *         description: Agent device not found
+ *       409:
+ *         description: Agent device is revoked
+ */
+router.post("/devices/:id/commands", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const data = issueCommandSchema.parse(req.body);
+
+    const device = await storage.getAgentDevice(req.params.id, tenantId);
+    if (!device) {
+      return res.status(404).json({ message: "Agent device not found" });
+    }
+    if (device.status !== "active") {
+      return res.status(409).json({ message: "Agent device is revoked" });
+    }
+
+    const command = await storage.createAgentCommand({
+      tenantId,
+      agentDeviceId: device.id,
+      assetId: device.assetId,
+      commandType: data.commandType,
+      payload: data.payload ?? {},
+      issuedBy: req.user!.userId,
+      expiresAt: new Date(Date.now() + AGENT_COMMAND_TTL_MS),
+    });
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.CREATE,
+        resourceType: ResourceTypes.AGENT_COMMAND,
+        resourceId: command.id,
+        description: `Queued ${command.commandType} for agent on ${device.hostname}`,
+        afterState: command
+      },
+      req
+    );
+
+    res.status(201).json(command);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Failed to queue agent command:", error);
+    res.status(500).json({ message: "Failed to queue agent command" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/agent/devices/{id}/revoke:
+ *   post:
+ *     summary: Revoke an agent device credential
+ *     description: The agent must re-enroll; pending commands are cancelled
+ *     tags: [Agent]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Agent credential revoked
+ *       404:
+ *         description: Agent device not found
+ */
+router.post("/devices/:id/revoke", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const existing = await storage.getAgentDevice(req.params.id, tenantId);
+    if (!existing) {
+      return res.status(404).json({ message: "Agent device not found" });
+    }
+
+    const device = await storage.revokeAgentDevice(existing.id, tenantId);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.UPDATE,
+        resourceType: ResourceTypes.AGENT_DEVICE,
+        resourceId: existing.id,
+        description: `Revoked agent credential for ${existing.hostname}`,
+        beforeState: { status: existing.status },
+        afterState: { status: device?.status }
+      },
+      req
+    );
+
+    res.json(device ? toDeviceResponse(device) : null);
+  } catch (error) {
+    console.error("Failed to revoke agent device:", error);
+    res.status(500).json({ message: "Failed to revoke agent device" });
+  }
+});
+
 export default router;
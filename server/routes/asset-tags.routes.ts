@@ -0,0 +1,321 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { authenticateToken, requireRole } from "../middleware/auth.middleware";
+import { auditLogger, AuditActions, ResourceTypes } from "../audit-logger";
+import { assetTagService, AssetTagError } from "../services/assets/asset-tags";
+import { generateLabelSheet } from "../services/assets/asset-labels";
+import { assetLabelSheetSchema, assetTagSettingsSchema, type Asset } from "@shared/schema";
+import { formatAssetTag } from "@shared/utils";
+import { z } from "zod";
+
+const router = Router();
+
+/**
+ * Origin QR labels point at; APP_URL when the app sits behind a proxy
+ */
+function scanBaseUrl(req: Request): string {
+  return process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+/**
+ * @swagger
+ * /api/asset-tags/settings:
+ *   get:
+ *     summary: Asset tag numbering settings
+ *     tags: [Asset Tags]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Prefix, padding, next number and a preview of the next tag
+ */
+router.get("/settings", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const tenant = await storage.getTenant(req.user!.tenantId);
+    if (!tenant) {
+      return res.status(404).json({ message: "Organization not found" });
+    }
+
+    res.json({
+      prefix: tenant.assetTagPrefix,
+      padding: tenant.assetTagPadding,
+      nextNumber: tenant.assetTagNextNumber,
+      nextTag: formatAssetTag(tenant.assetTagPrefix, tenant.assetTagPadding, tenant.assetTagNextNumber),
+    });
+  } catch (error) {
+    console.error("Failed to fetch asset tag settings:", error);
+    res.status(500).json({ message: "Failed to fetch asset tag settings" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/asset-tags/settings:
+ *   put:
+ *     summary: Update asset tag numbering (Admin only)
+ *     description: Existing tags are kept; changes apply to tags issued from now on
+ *     tags: [Asset Tags]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - prefix
+ *               - padding
+ *             properties:
+ *               prefix:
+ *                 type: string
+ *                 example: "AST-"
+ *               padding:
+ *                 type: integer
+ *                 example: 6
+ *               nextNumber:
+ *                 type: integer
+ *                 description: Restart the sequence at this number
+ *     responses:
+ *       200:
+ *         description: Settings updated
+ */
+router.put("/settings", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const settings = assetTagSettingsSchema.parse(req.body);
+
+    const before = await storage.getTenant(tenantId);
+    const tenant = await storage.updateAssetTagSettings(tenantId, settings);
+    if (!tenant) {
+      return res.status(404).json({ message: "Organization not found" });
+    }
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.ORG_SETTINGS_UPDATE,
+        resourceType: ResourceTypes.SETTINGS,
+        resourceId: tenantId,
+        description: `Updated asset tag numbering: ${formatAssetTag(tenant.assetTagPrefix, tenant.assetTagPadding, tenant.assetTagNextNumber)} is next`,
+        beforeState: before
+          ? { prefix: before.assetTagPrefix, padding: before.assetTagPadding, nextNumber: before.assetTagNextNumber }
+          : null,
+        afterState: { prefix: tenant.assetTagPrefix, padding: tenant.assetTagPadding, nextNumber: tenant.assetTagNextNumber }
+      },
+      req
+    );
+
+    res.json({
+      prefix: tenant.assetTagPrefix,
+      padding: tenant.assetTagPadding,
+      nextNumber: tenant.assetTagNextNumber,
+      nextTag: formatAssetTag(tenant.assetTagPrefix, tenant.assetTagPadding, tenant.assetTagNextNumber),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Failed to update asset tag settings:", error);
+    res.status(500).json({ message: "Failed to update asset tag settings" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/asset-tags/assign:
+ *   post:
+ *     summary: Assign tags to all assets that have none (IT Manager only)
+ *     tags: [Asset Tags]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of assets tagged
+ */
+router.post("/assign", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const assets = await storage.getAllAssets(tenantId);
+    const untagged = assets.filter(asset => !asset.assetTag);
+    const tagged = await assetTagService.assignMissingTags(tenantId, untagged);
+
+    if (tagged.length > 0) {
+      await auditLogger.logActivity(
+        auditLogger.createUserContext(req),
+        {
+          action: AuditActions.ASSET_TAG_ASSIGN,
+          resourceType: ResourceTypes.ASSET,
+          description: `Assigned asset tags to ${tagged.length} assets`,
+          afterState: { count: tagged.length, first: tagged[0].assetTag, last: tagged[tagged.length - 1].assetTag }
+        },
+        req
+      );
+    }
+
+    res.json({ assigned: tagged.length });
+  } catch (error) {
+    if (error instanceof AssetTagError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error("Failed to assign asset tags:", error);
+    res.status(500).json({ message: "Failed to assign asset tags" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/asset-tags/labels:
+ *   post:
+ *     summary: Printable PDF label sheet for a list of assets
+ *     description: |
+ *       Pass assetIds, or filters matching the asset list. Assets without a tag are
+ *       tagged first. QR labels encode the scan page URL; Code128 labels encode the tag.
+ *     tags: [Asset Tags]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               assetIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               filters:
+ *                 type: object
+ *                 properties:
+ *                   type:
+ *                     type: string
+ *                   status:
+ *                     type: string
+ *                   category:
+ *                     type: string
+ *                   search:
+ *                     type: string
+ *               symbology:
+ *                 type: string
+ *                 enum: [qr, code128]
+ *                 default: qr
+ *               layout:
+ *                 type: string
+ *                 enum: [letter-30, a4-24]
+ *                 default: letter-30
+ *               startPosition:
+ *                 type: integer
+ *                 default: 1
+ *                 description: First free label on a partly used sheet
+ *     responses:
+ *       200:
+ *         description: PDF label sheet
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: No assets matched
+ */
+router.post("/labels", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const options = assetLabelSheetSchema.parse(req.body ?? {});
+
+    let assets: Asset[];
+    if (options.assetIds?.length) {
+      const wanted = new Set(options.assetIds);
+      assets = (await storage.getAllAssets(tenantId)).filter(asset => wanted.has(asset.id));
+    } else {
+      assets = await storage.getAllAssets(tenantId, options.filters);
+    }
+    if (assets.length === 0) {
+      return res.status(400).json({ message: "No assets match the selection" });
+    }
+    if (assets.length > 1000) {
+      return res.status(400).json({ message: `Selection has ${assets.length} assets; print at most 1000 labels at a time` });
+    }
+
+    const untaggedCount = assets.filter(asset => !asset.assetTag).length;
+    assets = await assetTagService.assignMissingTags(tenantId, assets);
+    if (untaggedCount > 0) {
+      await auditLogger.logActivity(
+        auditLogger.createUserContext(req),
+        {
+          action: AuditActions.ASSET_TAG_ASSIGN,
+          resourceType: ResourceTypes.ASSET,
+          description: `Assigned asset tags to ${untaggedCount} assets for label printing`,
+          afterState: { count: untaggedCount }
+        },
+        req
+      );
+    }
+
+    const tenant = await storage.getTenant(tenantId);
+    const pdf = await generateLabelSheet(
+      assets.map(asset => ({ assetTag: asset.assetTag!, name: asset.name, serialNumber: asset.serialNumber })),
+      {
+        symbology: options.symbology,
+        layout: options.layout,
+        startPosition: options.startPosition,
+        scanBaseUrl: scanBaseUrl(req),
+        organization: tenant?.name,
+      }
+    );
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="asset-labels-${new Date().toISOString().split("T")[0]}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    if (error instanceof AssetTagError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error("Failed to generate asset labels:", error);
+    res.status(500).json({ message: "Failed to generate asset labels" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/asset-tags/scan/{code}:
+ *   get:
+ *     summary: Look up the asset for a scanned label
+ *     description: Accepts a QR scan URL, an asset tag, a serial number or an asset id
+ *     tags: [Asset Tags]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The asset and which identifier matched
+ *       404:
+ *         description: No asset matches the code
+ *       409:
+ *         description: Serial number matches several assets
+ */
+router.get("/scan/:code", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const result = await assetTagService.resolveScan(req.user!.tenantId, req.params.code);
+    if (!result) {
+      return res.status(404).json({ message: "No asset matches this code" });
+    }
+    res.json(result);
+  } catch (error) {
+    if (error instanceof AssetTagError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error("Failed to resolve scanned code:", error);
+    res.status(500).json({ message: "Failed to look up asset" });
+  }
+});
+
+export default router;
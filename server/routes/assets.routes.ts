@@ -10,9 +10,17 @@ import { syncOpenAuditFirstPage } from "../services/openauditSync";
 import multer from "multer";
 import { parse } from "csv-parse/sync";
 import { stringify } from "csv-stringify/sync";
+import { assetLifecycleService, AssetLifecycleError, type LifecycleActor } from "../services/assets/asset-lifecycle";
+import { assetTagService, AssetTagError } from "../services/assets/asset-tags";
+import { z } from "zod";
 import {
   insertAssetSchema,
   AssetTypeEnum,
+  AssetStatusEnum,
+  assetStatusTransitionSchema,
+  checkOutAssetSchema,
+  checkInAssetSchema,
+  moveAssetSchema,
   type Asset
 } from "@shared/schema";
 
@@ -31,6 +39,12 @@ const upload = multer({
   }
 });
 
+async function getLifecycleActor(req: Request): Promise<LifecycleActor> {
+  const user = await storage.getUser(req.user!.userId);
+  const name = user ? `${user.firstName} ${user.lastName}`.trim() || user.email : req.user!.email;
+  return { userId: req.user!.userId, name };
+}
+
 // Helper function to sanitize CSV values (prevent formula injection)
 const sanitizeCsvValue = (value: string): string => {
   if (!value) return value;
@@ -414,7 +428,15 @@ router.post("/", authenticateToken, requireRole("manager"), async (req: Request,
       tenantId: req.user!.tenantId,
     });
 
-    const asset = await storage.createAsset(assetData);
+    if (assetData.assetTag) {
+      await assetTagService.assertTagAvailable(req.user!.tenantId, assetData.assetTag);
+    }
+
+    let asset = await storage.createAsset(assetData);
+    if (!asset.assetTag) {
+      [asset] = await assetTagService.assignMissingTags(req.user!.tenantId, [asset]);
+    }
+    await assetLifecycleService.recordCreated(asset, await getLifecycleActor(req));
 
     // Log asset creation
     await auditLogger.logActivity(
@@ -431,6 +453,9 @@ router.post("/", authenticateToken, requireRole("manager"), async (req: Request,
 
     res.status(201).json(asset);
   } catch (error) {
+    if (error instanceof AssetTagError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
     console.error("Asset creation error:", error);
     res.status(400).json({ message: "Invalid asset data" });
   }
@@ -466,11 +491,20 @@ router.put("/:id", authenticateToken, requireRole("manager"), async (req: Reques
     const originalAsset = await storage.getAsset(req.params.id, req.user!.tenantId);
 
     const assetData = insertAssetSchema.partial().parse(req.body);
+    if (originalAsset) {
+      assetLifecycleService.validateUpdate(originalAsset, assetData);
+    }
+    if (assetData.assetTag) {
+      await assetTagService.assertTagAvailable(req.user!.tenantId, assetData.assetTag, req.params.id);
+    }
     const asset = await storage.updateAsset(req.params.id, req.user!.tenantId, assetData);
 
     if (!asset) {
       return res.status(404).json({ message: "Asset not found" });
     }
+    if (originalAsset) {
+      await assetLifecycleService.recordUpdate(originalAsset, asset, await getLifecycleActor(req));
+    }
 
     // Log asset update
     await auditLogger.logActivity(
@@ -488,6 +522,9 @@ router.put("/:id", authenticateToken, requireRole("manager"), async (req: Reques
 
     res.json(asset);
   } catch (error) {
+    if (error instanceof AssetLifecycleError || error instanceof AssetTagError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
     console.error("Asset update error:", error);
     res.status(400).json({ message: "Invalid asset data" });
   }
@@ -520,6 +557,7 @@ router.delete("/:id", authenticateToken, requireRole("admin"), async (req: Reque
     if (!deleted) {
       return res.status(404).json({ message: "Asset not found" });
     }
+    await storage.deleteCiRelationshipsForNode(req.user!.tenantId, "asset", req.params.id);
 
     // Log asset deletion
     if (asset) {
@@ -639,8 +677,8 @@ router.post("/bulk/upload", authenticateToken, requireRole("manager"), upload.si
         }
         if (!record.status?.trim()) {
           errors.push("Status is required");
-        } else if (!['in-stock', 'deployed', 'in-repair', 'disposed'].includes(record.status.trim().toLowerCase())) {
-          errors.push("Status must be in-stock, deployed, in-repair, or disposed");
+        } else if (!AssetStatusEnum.safeParse(record.status.trim().toLowerCase()).success) {
+          errors.push(`Status must be one of: ${AssetStatusEnum.options.join(", ")}`);
         }
 
         // Build asset object if no errors
@@ -1207,4 +1245,406 @@ router.delete("/:assetId/software-links/:softwareAssetId", authenticateToken, as
   }
 });
 
+/**
+ * @swagger
+ * /api/assets/custody/overdue:
+ *   get:
+ *     summary: List checked-out assets past their expected return date (Manager only)
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Overdue custody periods with their assets
+ */
+router.get("/custody/overdue", authenticateToken, requireRole("manager"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const records = await storage.getOverdueAssetCustodyRecords(new Date(), tenantId);
+    const overdue = await Promise.all(records.map(async record => ({
+      ...record,
+      asset: await storage.getAsset(record.assetId, tenantId),
+    })));
+    res.json(overdue);
+  } catch (error) {
+    console.error("Failed to fetch overdue assets:", error);
+    res.status(500).json({ message: "Failed to fetch overdue assets" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/assets/{id}/transition:
+ *   post:
+ *     summary: Move an asset to another lifecycle status (Manager only)
+ *     description: |
+ *       Allowed transitions: ordered → received → in-stock → deployed → in-repair → retired → disposed,
+ *       plus returns to stock from deployed/in-repair/retired. Checked-out assets must be checked in
+ *       before moving to in-stock, retired or disposed.
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [ordered, received, in-stock, deployed, in-repair, retired, disposed]
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Asset status updated
+ *       404:
+ *         description: Asset not found
+ *       409:
+ *         description: Transition not allowed
+ */
+router.post("/:id/transition", authenticateToken, requireRole("manager"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const { status, notes } = assetStatusTransitionSchema.parse(req.body);
+    const before = await storage.getAsset(req.params.id, tenantId);
+
+    const asset = await assetLifecycleService.transition(tenantId, req.params.id, status, await getLifecycleActor(req), notes);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.ASSET_STATUS_CHANGE,
+        resourceType: ResourceTypes.ASSET,
+        resourceId: asset.id,
+        description: `Changed status of ${asset.name} from ${before?.status} to ${asset.status}`,
+        beforeState: { status: before?.status },
+        afterState: { status: asset.status }
+      },
+      req
+    );
+
+    res.json(asset);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    if (error instanceof AssetLifecycleError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error("Asset transition error:", error);
+    res.status(500).json({ message: "Failed to change asset status" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/assets/{id}/check-out:
+ *   post:
+ *     summary: Check an asset out to a user (Manager only)
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [userId]
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               expectedReturnAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Omit for an open-ended assignment
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Asset deployed to the user and custody period opened
+ *       404:
+ *         description: Asset or user not found
+ *       409:
+ *         description: Asset already checked out or cannot be deployed from its status
+ */
+router.post("/:id/check-out", authenticateToken, requireRole("manager"), async (req: Request, res: Response) => {
+  try {
+    const data = checkOutAssetSchema.parse(req.body);
+    const result = await assetLifecycleService.checkOut(req.user!.tenantId, req.params.id, data, await getLifecycleActor(req));
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.ASSET_CHECK_OUT,
+        resourceType: ResourceTypes.ASSET,
+        resourceId: result.asset.id,
+        description: `Checked out ${result.asset.name} to ${result.custody.userName}`,
+        afterState: {
+          custodyRecordId: result.custody.id,
+          userId: result.custody.userId,
+          expectedReturnAt: result.custody.expectedReturnAt
+        }
+      },
+      req
+    );
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    if (error instanceof AssetLifecycleError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error("Asset check-out error:", error);
+    res.status(500).json({ message: "Failed to check out asset" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/assets/{id}/check-in:
+ *   post:
+ *     summary: Check an asset back in from its custodian (Manager only)
+ *     description: Good returns go to in-stock, damaged to in-repair, lost to retired
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               condition:
+ *                 type: string
+ *                 enum: [good, damaged, lost]
+ *                 default: good
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Custody period closed and asset unassigned
+ *       404:
+ *         description: Asset not found
+ *       409:
+ *         description: Asset is not checked out
+ */
+router.post("/:id/check-in", authenticateToken, requireRole("manager"), async (req: Request, res: Response) => {
+  try {
+    const data = checkInAssetSchema.parse(req.body ?? {});
+    const result = await assetLifecycleService.checkIn(req.user!.tenantId, req.params.id, data, await getLifecycleActor(req));
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.ASSET_CHECK_IN,
+        resourceType: ResourceTypes.ASSET,
+        resourceId: result.asset.id,
+        description: `Checked in ${result.asset.name} from ${result.custody.userName} (${data.condition})`,
+        afterState: { custodyRecordId: result.custody.id, condition: data.condition, status: result.asset.status }
+      },
+      req
+    );
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    if (error instanceof AssetLifecycleError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error("Asset check-in error:", error);
+    res.status(500).json({ message: "Failed to check in asset" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/assets/{id}/move:
+ *   post:
+ *     summary: Move an asset to another site
+ *     description: The site's name and address become the asset's location
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - siteId
+ *             properties:
+ *               siteId:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Asset moved
+ *       404:
+ *         description: Asset or site not found
+ */
+router.post("/:id/move", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const data = moveAssetSchema.parse(req.body);
+
+    const site = await storage.getSite(data.siteId, tenantId);
+    if (!site) {
+      return res.status(404).json({ message: "Site not found" });
+    }
+
+    const before = await storage.getAsset(req.params.id, tenantId);
+    const asset = await assetLifecycleService.moveToSite(tenantId, req.params.id, site, await getLifecycleActor(req), data.notes);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.ASSET_MOVE,
+        resourceType: ResourceTypes.ASSET,
+        resourceId: asset.id,
+        description: `Moved ${asset.name} (${asset.assetTag ?? asset.serialNumber ?? asset.id}) to ${site.name}`,
+        beforeState: before ? { location: before.location, city: before.city, state: before.state, country: before.country } : null,
+        afterState: { siteId: site.id, location: asset.location, city: asset.city, state: asset.state, country: asset.country }
+      },
+      req
+    );
+
+    res.json(asset);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    if (error instanceof AssetLifecycleError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error("Asset move error:", error);
+    res.status(500).json({ message: "Failed to move asset" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/assets/{id}/custody:
+ *   get:
+ *     summary: Custody history for an asset
+ *     description: Pass `at` for who held the asset at an instant, or `from`/`to` for periods overlapping a range
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: at
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Custody periods, newest first
+ */
+router.get("/:id/custody", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const asset = await storage.getAsset(req.params.id, tenantId);
+    if (!asset) {
+      return res.status(404).json({ message: "Asset not found" });
+    }
+
+    const query = z.object({
+      at: z.coerce.date().optional(),
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+    }).parse(req.query);
+    const range = query.at ? { from: query.at, to: query.at } : { from: query.from, to: query.to };
+
+    res.json(await storage.getAssetCustodyRecords(asset.id, tenantId, range));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid date range", errors: error.errors });
+    }
+    console.error("Failed to fetch custody history:", error);
+    res.status(500).json({ message: "Failed to fetch custody history" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/assets/{id}/timeline:
+ *   get:
+ *     summary: Lifecycle timeline for an asset
+ *     description: Current custodian, allowed next statuses, custody periods and lifecycle events
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Asset timeline
+ *       404:
+ *         description: Asset not found
+ */
+router.get("/:id/timeline", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    res.json(await assetLifecycleService.getTimeline(req.user!.tenantId, req.params.id));
+  } catch (error) {
+    if (error instanceof AssetLifecycleError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error("Failed to fetch asset timeline:", error);
+    res.status(500).json({ message: "Failed to fetch asset timeline" });
+  }
+});
+
 export default router;
@@ -8,15 +8,22 @@ import {
   comparePassword,
   hashToken,
   getTokenExpiry,
+  generateMfaPendingToken,
+  verifyMfaPendingToken,
+  migrateRole,
+  ROLES,
 } from "../services/auth";
 import {
   loginSchema,
   registerSchema,
   type LoginRequest,
   type RegisterRequest,
+  type User,
 } from "@shared/schema";
 import { authenticateToken } from "../middleware/auth.middleware";
-import { authLimiter } from "../middleware/security.middleware";
+import { authLimiter, mfaVerificationLimiter } from "../middleware/security.middleware";
+import { MfaService, MfaVerificationError } from "../services/mfa/mfa-service";
+import { SsoService, SsoError } from "../services/sso/sso-service";
 
 const router = Router();
 
@@ -44,9 +51,113 @@ function clearAuthCookie(res: Response) {
   res.clearCookie("auth_token", { path: "/" });
 }
 
+function sendMfaError(res: Response, error: MfaVerificationError) {
+  if (error.details.retryAfterSeconds) {
+    res.setHeader("Retry-After", String(error.details.retryAfterSeconds));
+  }
+  return res.status(error.statusCode).json({ message: error.message, code: error.code, ...error.details });
+}
+
+/**
+ * Issue the session token once every login step has passed
+ */
+async function completeLogin(
+  req: Request,
+  res: Response,
+  user: User,
+  metadata: Record<string, any> = {},
+  extra: Record<string, any> = {}
+) {
+  const token = generateToken(user);
+  const tenant = await storage.getTenant(user.tenantId);
+
+  // Log successful login
+  await auditLogger.logAuthActivity(
+    AuditActions.LOGIN,
+    user.email,
+    user.tenantId,
+    req,
+    true,
+    { tenantName: tenant?.name, ...metadata },
+    user.id,
+    user.role
+  );
+
+  // SECURITY: Set HttpOnly cookie for secure token storage
+  setAuthCookie(res, token);
+
+  res.json({
+    token, // Keep for backward compatibility during migration
+    user: {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: user.role,
+      tenantId: user.tenantId,
+    },
+    tenant: tenant ? { id: tenant.id, name: tenant.name } : null,
+    ...extra,
+  });
+}
+
+/**
+ * Resolve the user behind a pending MFA token, or null if it is invalid or expired
+ */
+async function getPendingMfaUser(mfaToken: unknown, purpose: "mfa_login" | "mfa_enrollment") {
+  const pending = typeof mfaToken === "string" ? verifyMfaPendingToken(mfaToken, purpose) : null;
+  if (!pending) {
+    return null;
+  }
+
+  const user = await storage.getUser(pending.userId);
+  if (!user || user.tenantId !== pending.tenantId || user.isActive === false) {
+    return null;
+  }
+
+  return { user, challengeId: pending.challengeId };
+}
+
+/**
+ * Public base URL the IdP redirects back to (SAML ACS / OIDC redirect URI)
+ */
+function getSsoBaseUrl(req: Request): string {
+  if (process.env.APP_URL) {
+    return process.env.APP_URL;
+  }
+  const protocol = req.headers["x-forwarded-proto"] || req.protocol || "https";
+  const host = req.headers["x-forwarded-host"] || req.headers.host || req.hostname;
+  return `${protocol}://${host}`;
+}
+
+/**
+ * Send the browser back to the login page with an SSO error
+ */
+async function redirectSsoFailure(req: Request, res: Response, connectionId: string, error: unknown) {
+  const message = error instanceof SsoError ? error.message : "Single sign-on failed";
+  if (!(error instanceof SsoError)) {
+    console.error("SSO login error:", error);
+  }
+
+  try {
+    await auditLogger.logAuthActivity(
+      AuditActions.LOGIN,
+      "unknown",
+      "unknown",
+      req,
+      false,
+      { method: "sso", connectionId, reason: error instanceof SsoError ? error.code : "error", detail: message }
+    );
+  } catch (auditError) {
+    console.warn("Failed to log auth activity:", auditError);
+  }
+
+  res.redirect(302, `/login?sso_error=${encodeURIComponent(message)}`);
+}
+
 /**
  * POST /api/auth/login
- * Authenticate user and return JWT token
+ * Authenticate user and return JWT token, or an MFA token when a second step is needed
  */
 router.post("/login", authLimiter, async (req: Request, res: Response) => {
   try {
@@ -99,6 +210,25 @@ router.post("/login", authLimiter, async (req: Request, res: Response) => {
       return res.status(401).json({ message: "Invalid credentials" });
     }
 
+    // Tenant policy: password login is disabled once SSO is enforced (super-admins keep break-glass access)
+    const userTenant = await storage.getTenant(user.tenantId);
+    if (userTenant?.ssoOnly && migrateRole(user.role) !== ROLES.SUPER_ADMIN) {
+      await auditLogger.logAuthActivity(
+        AuditActions.LOGIN,
+        email,
+        user.tenantId,
+        req,
+        false,
+        { reason: "sso_required" },
+        user.id,
+        user.role
+      );
+      return res.status(403).json({
+        message: "Your organization requires single sign-on. Use \"Sign in with SSO\" instead.",
+        code: "SSO_REQUIRED",
+      });
+    }
+
     // Check if user must change password on first login
     if (user.mustChangePassword) {
       await auditLogger.logAuthActivity(
@@ -118,39 +248,302 @@ router.post("/login", authLimiter, async (req: Request, res: Response) => {
       });
     }
 
-    const token = generateToken(user);
-    const tenant = await storage.getTenant(user.tenantId);
+    // Second step: users with an authenticator app must present a code
+    const mfa = new MfaService(user.tenantId);
+    if (await mfa.hasLoginMfa(user.id)) {
+      const challenge = await mfa.createChallenge(user.id, "login", user.id);
+      return res.json({
+        mfaRequired: true,
+        mfaToken: generateMfaPendingToken(user, "mfa_login", challenge.challengeId),
+        methods: challenge.methods,
+        expiresAt: challenge.expiresAt,
+      });
+    }
+
+    // Tenant policy: admins without an authenticator app must enroll before signing in
+    if (await mfa.isLoginMfaRequired(user.id)) {
+      return res.json({
+        mfaEnrollmentRequired: true,
+        mfaToken: generateMfaPendingToken(user, "mfa_enrollment"),
+      });
+    }
+
+    await completeLogin(req, res, user);
+  } catch (error) {
+    if (error instanceof MfaVerificationError) {
+      return sendMfaError(res, error);
+    }
+    console.error("Login error:", error);
+    res.status(400).json({ message: "Invalid request data" });
+  }
+});
+
+/**
+ * POST /api/auth/login/mfa
+ * Complete login with an authenticator app code or a one-time recovery code
+ */
+router.post("/login/mfa", mfaVerificationLimiter, async (req: Request, res: Response) => {
+  try {
+    const { mfaToken, code, recoveryCode } = req.body || {};
+
+    const pending = await getPendingMfaUser(mfaToken, "mfa_login");
+    if (!pending || !pending.challengeId) {
+      return res.status(401).json({ message: "Login session expired. Please sign in again.", code: "mfa_token_invalid" });
+    }
+    if (!code && !recoveryCode) {
+      return res.status(400).json({ message: "A verification code or recovery code is required" });
+    }
+
+    const { user, challengeId } = pending;
+    const mfa = new MfaService(user.tenantId);
+
+    try {
+      const result = await mfa.verifyChallenge(
+        user.id,
+        "login",
+        user.id,
+        recoveryCode
+          ? { challengeId, type: "recovery_code", code: String(recoveryCode) }
+          : { challengeId, type: "totp", code: String(code) }
+      );
+
+      await auditLogger.logAuthActivity(
+        AuditActions.MFA_VERIFY,
+        user.email,
+        user.tenantId,
+        req,
+        true,
+        { purpose: "login", method: result.method },
+        user.id,
+        user.role
+      );
+
+      const extra = result.method === "recovery_code"
+        ? { recoveryCodesRemaining: (await mfa.getLoginMfaStatus(user.id)).recoveryCodesRemaining }
+        : {};
+
+      await completeLogin(req, res, user, { mfaMethod: result.method }, extra);
+    } catch (error) {
+      if (error instanceof MfaVerificationError) {
+        await auditLogger.logAuthActivity(
+          AuditActions.MFA_VERIFY_FAILED,
+          user.email,
+          user.tenantId,
+          req,
+          false,
+          { purpose: "login", method: recoveryCode ? "recovery_code" : "totp", reason: error.code },
+          user.id,
+          user.role
+        );
+      }
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof MfaVerificationError) {
+      return sendMfaError(res, error);
+    }
+    console.error("MFA login error:", error);
+    res.status(500).json({ message: "Failed to verify MFA" });
+  }
+});
+
+/**
+ * POST /api/auth/login/mfa/enroll
+ * Start authenticator app enrollment for a user the tenant policy requires to use MFA
+ */
+router.post("/login/mfa/enroll", authLimiter, async (req: Request, res: Response) => {
+  try {
+    const pending = await getPendingMfaUser(req.body?.mfaToken, "mfa_enrollment");
+    if (!pending) {
+      return res.status(401).json({ message: "Login session expired. Please sign in again.", code: "mfa_token_invalid" });
+    }
+
+    const { user } = pending;
+    const mfa = new MfaService(user.tenantId);
+
+    // The enrollment token must not be reusable to add a factor once one exists
+    if (await mfa.hasLoginMfa(user.id)) {
+      return res.status(409).json({ message: "MFA is already set up. Please sign in again.", code: "mfa_already_enrolled" });
+    }
+
+    res.status(201).json(await mfa.startTotpEnrollment({ id: user.id, email: user.email }));
+  } catch (error) {
+    console.error("MFA enrollment error:", error);
+    res.status(500).json({ message: "Failed to start MFA enrollment" });
+  }
+});
+
+/**
+ * POST /api/auth/login/mfa/enroll/verify
+ * Confirm the enrolled authenticator app, issue recovery codes and complete login
+ */
+router.post("/login/mfa/enroll/verify", mfaVerificationLimiter, async (req: Request, res: Response) => {
+  try {
+    const { mfaToken, factorId, code } = req.body || {};
+
+    const pending = await getPendingMfaUser(mfaToken, "mfa_enrollment");
+    if (!pending) {
+      return res.status(401).json({ message: "Login session expired. Please sign in again.", code: "mfa_token_invalid" });
+    }
+
+    const { user } = pending;
+    const mfa = new MfaService(user.tenantId);
+
+    if (await mfa.hasLoginMfa(user.id)) {
+      return res.status(409).json({ message: "MFA is already set up. Please sign in again.", code: "mfa_already_enrolled" });
+    }
+
+    const factor = await mfa.confirmTotpEnrollment(user.id, String(factorId || ""), String(code || ""));
+    const recoveryCodes = await mfa.regenerateRecoveryCodes(user.id);
 
-    // Log successful login
     await auditLogger.logAuthActivity(
-      AuditActions.LOGIN,
-      email,
+      AuditActions.MFA_ENROLL,
+      user.email,
       user.tenantId,
       req,
       true,
-      { tenantName: tenant?.name },
+      { factorId: factor.id, type: "totp", enforcedByPolicy: true },
       user.id,
       user.role
     );
 
-    // SECURITY: Set HttpOnly cookie for secure token storage
-    setAuthCookie(res, token);
+    await completeLogin(req, res, user, { mfaMethod: "totp" }, { recoveryCodes });
+  } catch (error) {
+    if (error instanceof MfaVerificationError) {
+      return sendMfaError(res, error);
+    }
+    console.error("MFA enrollment verification error:", error);
+    res.status(500).json({ message: "Failed to verify MFA enrollment" });
+  }
+});
+
+/**
+ * GET /api/auth/sso/discover?email=
+ * Find the SSO connection for an email's domain
+ */
+router.get("/sso/discover", authLimiter, async (req: Request, res: Response) => {
+  try {
+    const email = String(req.query.email || "");
+    const connections = await new SsoService(getSsoBaseUrl(req)).discover(email);
 
     res.json({
-      token, // Keep for backward compatibility during migration
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role,
-        tenantId: user.tenantId,
-      },
-      tenant: tenant ? { id: tenant.id, name: tenant.name } : null,
+      connections: connections.map((connection) => ({
+        id: connection.id,
+        name: connection.name,
+        protocol: connection.protocol,
+        loginUrl: `/api/auth/sso/${connection.id}/login`,
+      })),
     });
   } catch (error) {
-    console.error("Login error:", error);
-    res.status(400).json({ message: "Invalid request data" });
+    console.error("SSO discovery error:", error);
+    res.status(500).json({ message: "Failed to look up single sign-on" });
+  }
+});
+
+/**
+ * GET /api/auth/sso/:connectionId/login
+ * Start SP-initiated login by redirecting to the identity provider
+ */
+router.get("/sso/:connectionId/login", authLimiter, async (req: Request, res: Response) => {
+  try {
+    const url = await new SsoService(getSsoBaseUrl(req)).startLogin(req.params.connectionId, req.query.returnTo);
+    res.redirect(302, url);
+  } catch (error) {
+    await redirectSsoFailure(req, res, req.params.connectionId, error);
+  }
+});
+
+/**
+ * POST /api/auth/sso/:connectionId/link
+ * Start a login that links the IdP identity to the signed-in user's existing account.
+ * Returns the IdP URL for the browser to visit; the callback then signs the user in as usual.
+ */
+router.post("/sso/:connectionId/link", authLimiter, authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const url = await new SsoService(getSsoBaseUrl(req)).startLink(req.params.connectionId, req.user!.userId, req.body?.returnTo);
+    res.json({ url });
+  } catch (error) {
+    if (error instanceof SsoError) {
+      return res.status(error.statusCode).json({ message: error.message, code: error.code });
+    }
+    console.error("SSO link error:", error);
+    res.status(500).json({ message: "Failed to start single sign-on linking" });
+  }
+});
+
+/**
+ * GET /api/auth/sso/:connectionId/saml/metadata
+ * SAML service provider metadata for the IdP administrator
+ */
+router.get("/sso/:connectionId/saml/metadata", async (req: Request, res: Response) => {
+  try {
+    const metadata = await new SsoService(getSsoBaseUrl(req)).getMetadata(req.params.connectionId);
+    res.type("application/samlmetadata+xml").send(metadata);
+  } catch (error) {
+    if (error instanceof SsoError) {
+      return res.status(error.statusCode).json({ message: error.message, code: error.code });
+    }
+    console.error("SAML metadata error:", error);
+    res.status(500).json({ message: "Failed to generate SAML metadata" });
+  }
+});
+
+/**
+ * POST /api/auth/sso/:connectionId/saml/acs
+ * SAML assertion consumer service (HTTP-POST binding)
+ */
+router.post("/sso/:connectionId/saml/acs", authLimiter, async (req: Request, res: Response) => {
+  const { connectionId } = req.params;
+  try {
+    const { SAMLResponse, RelayState } = req.body || {};
+    if (!SAMLResponse || !RelayState) {
+      throw new SsoError("Missing SAML response", "response_invalid");
+    }
+
+    const result = await new SsoService(getSsoBaseUrl(req)).completeSamlLogin(connectionId, String(SAMLResponse), String(RelayState));
+    res.redirect(302, `/sso/callback#code=${encodeURIComponent(result.loginCode)}`);
+  } catch (error) {
+    await redirectSsoFailure(req, res, connectionId, error);
+  }
+});
+
+/**
+ * GET /api/auth/sso/:connectionId/oidc/callback
+ * OIDC redirect URI (authorization code flow)
+ */
+router.get("/sso/:connectionId/oidc/callback", authLimiter, async (req: Request, res: Response) => {
+  const { connectionId } = req.params;
+  try {
+    const { code, state, error, error_description } = req.query;
+    if (error) {
+      throw new SsoError(`Identity provider returned an error: ${error_description || error}`, "response_invalid");
+    }
+    if (!code || !state) {
+      throw new SsoError("Missing authorization code", "response_invalid");
+    }
+
+    const result = await new SsoService(getSsoBaseUrl(req)).completeOidcLogin(connectionId, String(code), String(state));
+    res.redirect(302, `/sso/callback#code=${encodeURIComponent(result.loginCode)}`);
+  } catch (error) {
+    await redirectSsoFailure(req, res, connectionId, error);
+  }
+});
+
+/**
+ * POST /api/auth/sso/exchange
+ * Exchange the one-time code from an SSO callback for a session.
+ * MFA is left to the identity provider for SSO logins.
+ */
+router.post("/sso/exchange", authLimiter, async (req: Request, res: Response) => {
+  try {
+    const { user, connectionId, returnTo } = await new SsoService(getSsoBaseUrl(req)).exchangeLoginCode(String(req.body?.code || ""));
+    await completeLogin(req, res, user, { method: "sso", connectionId }, { returnTo });
+  } catch (error) {
+    if (error instanceof SsoError) {
+      return res.status(error.statusCode).json({ message: error.message, code: error.code });
+    }
+    console.error("SSO exchange error:", error);
+    res.status(500).json({ message: "Failed to complete single sign-on" });
   }
 });
 
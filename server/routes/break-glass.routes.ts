@@ -0,0 +1,635 @@
+/**
+ * Break-glass Access API Routes (Phase 6.2)
+ * Emergency accounts for incidents where JIT approvers are unavailable
+ * @swagger
+ * tags:
+ *   name: Break-glass Access
+ *   description: Sealed emergency credentials with two-person unseal, paging and mandatory post-incident review
+ */
+
+import { Router } from "express";
+import { authenticateToken, requireRole } from "../middleware/auth.middleware";
+import { checkPermission } from "../services/auth";
+import { BreakGlassService, BreakGlassError } from "../services/advanced/break-glass";
+import { auditLogger, AuditActions, ResourceTypes } from "../audit-logger";
+import type { Request, Response } from "express";
+
+const router = Router();
+
+const handleBreakGlassError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof BreakGlassError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`[BreakGlass] ${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+};
+
+/**
+ * @swagger
+ * /api/break-glass/accounts:
+ *   get:
+ *     tags: [Break-glass Access]
+ *     summary: List break-glass accounts
+ *     description: Credentials are never included; they are only released through an unsealed session
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Break-glass accounts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/BreakGlassAccount'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       500:
+ *         description: Server error
+ */
+router.get("/accounts", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const service = new BreakGlassService(req.user!.tenantId);
+    res.json(await service.getAccounts());
+  } catch (error) {
+    handleBreakGlassError(res, error, "Failed to fetch break-glass accounts");
+  }
+});
+
+/**
+ * @swagger
+ * /api/break-glass/accounts:
+ *   post:
+ *     tags: [Break-glass Access]
+ *     summary: Add a break-glass account
+ *     description: The credential is encrypted at rest. At least one channel or recipient must be paged on use.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - system
+ *               - username
+ *               - credential
+ *             properties:
+ *               name:
+ *                 type: string
+ *               system:
+ *                 type: string
+ *                 example: Azure AD global admin
+ *               username:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               credential:
+ *                 type: string
+ *               sessionMinutes:
+ *                 type: integer
+ *                 minimum: 15
+ *                 maximum: 480
+ *                 default: 60
+ *               pageChannelIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               pageRecipients:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: email
+ *     responses:
+ *       201:
+ *         description: Break-glass account created
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       500:
+ *         description: Server error
+ */
+router.post("/accounts", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const service = new BreakGlassService(req.user!.tenantId);
+    const account = await service.createAccount(req.body, req.user!.userId);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.CREATE,
+        resourceType: ResourceTypes.BREAK_GLASS_ACCOUNT,
+        resourceId: account.id,
+        description: `Created break-glass account: ${account.name}`,
+        afterState: account
+      },
+      req
+    );
+
+    res.status(201).json(account);
+  } catch (error) {
+    handleBreakGlassError(res, error, "Failed to create break-glass account");
+  }
+});
+
+/**
+ * @swagger
+ * /api/break-glass/accounts/{id}/rotate:
+ *   post:
+ *     tags: [Break-glass Access]
+ *     summary: Rotate a break-glass credential
+ *     description: Store a new credential. Reviews of sessions that revealed the old one require this.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - credential
+ *             properties:
+ *               credential:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Credential rotated
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         description: Server error
+ */
+router.post("/accounts/:id/rotate", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const service = new BreakGlassService(req.user!.tenantId);
+    const account = await service.rotateCredential(req.params.id, req.body?.credential);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.UPDATE,
+        resourceType: ResourceTypes.BREAK_GLASS_ACCOUNT,
+        resourceId: account.id,
+        description: `Rotated break-glass credential: ${account.name}`
+      },
+      req
+    );
+
+    res.json(account);
+  } catch (error) {
+    handleBreakGlassError(res, error, "Failed to rotate break-glass credential");
+  }
+});
+
+/**
+ * @swagger
+ * /api/break-glass/accounts/{id}/status:
+ *   post:
+ *     tags: [Break-glass Access]
+ *     summary: Enable or disable a break-glass account
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - isActive
+ *             properties:
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Account updated
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         description: Server error
+ */
+router.post("/accounts/:id/status", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    if (typeof req.body?.isActive !== "boolean") {
+      return res.status(400).json({ error: "isActive must be a boolean" });
+    }
+
+    const service = new BreakGlassService(req.user!.tenantId);
+    res.json(await service.setAccountActive(req.params.id, req.body.isActive));
+  } catch (error) {
+    handleBreakGlassError(res, error, "Failed to update break-glass account");
+  }
+});
+
+/**
+ * @swagger
+ * /api/break-glass/status:
+ *   get:
+ *     tags: [Break-glass Access]
+ *     summary: Check whether break-glass can be used
+ *     description: Lists open sessions and outstanding post-incident reviews that block a new use
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Break-glass availability
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       500:
+ *         description: Server error
+ */
+router.get("/status", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const service = new BreakGlassService(req.user!.tenantId);
+    res.json(await service.getStatus());
+  } catch (error) {
+    handleBreakGlassError(res, error, "Failed to fetch break-glass status");
+  }
+});
+
+/**
+ * @swagger
+ * /api/break-glass/sessions:
+ *   get:
+ *     tags: [Break-glass Access]
+ *     summary: List break-glass sessions
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: accountId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending_unseal, active, expired, closed, cancelled]
+ *       - in: query
+ *         name: reviewStatus
+ *         schema:
+ *           type: string
+ *           enum: [pending, completed]
+ *     responses:
+ *       200:
+ *         description: Break-glass sessions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/BreakGlassSession'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       500:
+ *         description: Server error
+ */
+router.get("/sessions", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const { accountId, status, reviewStatus } = req.query;
+
+    const service = new BreakGlassService(req.user!.tenantId);
+    const sessions = await service.getSessions({
+      accountId: accountId as string,
+      status: status as string,
+      reviewStatus: reviewStatus as string,
+    });
+
+    res.json(sessions);
+  } catch (error) {
+    handleBreakGlassError(res, error, "Failed to fetch break-glass sessions");
+  }
+});
+
+/**
+ * @swagger
+ * /api/break-glass/sessions:
+ *   post:
+ *     tags: [Break-glass Access]
+ *     summary: Request break-glass access
+ *     description: |
+ *       Open a session for a break-glass account and page its security contacts. The credential
+ *       stays sealed until a second IT manager unseals the session within 30 minutes. Blocked while
+ *       another session is open or a post-incident review is outstanding.
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - accountId
+ *               - justification
+ *             properties:
+ *               accountId:
+ *                 type: string
+ *               justification:
+ *                 type: string
+ *               incidentReference:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Session awaiting unseal
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         description: Account not found
+ *       409:
+ *         description: Blocked by an open session or outstanding post-incident review
+ *       500:
+ *         description: Server error
+ */
+router.post("/sessions", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const service = new BreakGlassService(req.user!.tenantId);
+    const session = await service.requestSession(req.user!.userId, req.body);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.CREATE,
+        resourceType: ResourceTypes.BREAK_GLASS_SESSION,
+        resourceId: session.id,
+        description: `Requested break-glass access: ${session.accountName}`,
+        metadata: { justification: session.justification, incidentReference: session.incidentReference }
+      },
+      req
+    );
+
+    res.status(201).json(session);
+  } catch (error) {
+    handleBreakGlassError(res, error, "Failed to request break-glass access");
+  }
+});
+
+/**
+ * @swagger
+ * /api/break-glass/sessions/{id}/unseal:
+ *   post:
+ *     tags: [Break-glass Access]
+ *     summary: Unseal a break-glass session
+ *     description: Second-person approval. Starts the session clock, pages security and opens the post-incident review.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session unsealed
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: The requester cannot unseal their own session
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Session not awaiting unseal, or the unseal window has passed
+ *       500:
+ *         description: Server error
+ */
+router.post("/sessions/:id/unseal", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const service = new BreakGlassService(req.user!.tenantId);
+    const session = await service.unseal(req.params.id, req.user!.userId);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.UPDATE,
+        resourceType: ResourceTypes.BREAK_GLASS_SESSION,
+        resourceId: session.id,
+        description: `Unsealed break-glass access to ${session.accountName} for ${session.requestedByName}`,
+        metadata: { expiresAt: session.expiresAt }
+      },
+      req
+    );
+
+    res.json(session);
+  } catch (error) {
+    handleBreakGlassError(res, error, "Failed to unseal break-glass session");
+  }
+});
+
+/**
+ * @swagger
+ * /api/break-glass/sessions/{id}/credential:
+ *   post:
+ *     tags: [Break-glass Access]
+ *     summary: Reveal the break-glass credential
+ *     description: Requester only, while the unsealed session lasts. Every view is audited.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Decrypted credential
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not the requester of this session
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Session not unsealed or already expired
+ *       500:
+ *         description: Server error
+ */
+router.post("/sessions/:id/credential", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const service = new BreakGlassService(req.user!.tenantId);
+    const credential = await service.revealCredential(req.params.id, req.user!.userId);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.READ,
+        resourceType: ResourceTypes.BREAK_GLASS_SESSION,
+        resourceId: req.params.id,
+        description: `Viewed break-glass credential for ${credential.system}`
+      },
+      req
+    );
+
+    res.set("Cache-Control", "no-store");
+    res.json(credential);
+  } catch (error) {
+    handleBreakGlassError(res, error, "Failed to reveal break-glass credential");
+  }
+});
+
+/**
+ * @swagger
+ * /api/break-glass/sessions/{id}/end:
+ *   post:
+ *     tags: [Break-glass Access]
+ *     summary: End a break-glass session
+ *     description: Close an active session or cancel one awaiting unseal. Closed sessions still need their review.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Session ended
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not the requester or an IT manager
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         description: Server error
+ */
+router.post("/sessions/:id/end", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const service = new BreakGlassService(req.user!.tenantId);
+    const session = await service.endSession(
+      req.params.id,
+      { id: req.user!.userId, isItManager: checkPermission(req.user!.role, "it-manager") },
+      req.body?.reason
+    );
+
+    res.json(session);
+  } catch (error) {
+    handleBreakGlassError(res, error, "Failed to end break-glass session");
+  }
+});
+
+/**
+ * @swagger
+ * /api/break-glass/sessions/{id}/review:
+ *   post:
+ *     tags: [Break-glass Access]
+ *     summary: Complete a post-incident review
+ *     description: |
+ *       Record the review of an ended session, lifting its block on further break-glass use. The
+ *       requester cannot review their own use, and a revealed credential must be rotated first.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - findings
+ *             properties:
+ *               findings:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Review completed
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: The requester cannot review their own use
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: Session still active, no pending review, or credential not rotated
+ *       500:
+ *         description: Server error
+ */
+router.post("/sessions/:id/review", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const service = new BreakGlassService(req.user!.tenantId);
+    const session = await service.completeReview(req.params.id, req.user!.userId, req.body);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.UPDATE,
+        resourceType: ResourceTypes.BREAK_GLASS_SESSION,
+        resourceId: session.id,
+        description: `Completed post-incident review of break-glass use: ${session.accountName}`
+      },
+      req
+    );
+
+    res.json(session);
+  } catch (error) {
+    handleBreakGlassError(res, error, "Failed to complete post-incident review");
+  }
+});
+
+/**
+ * @swagger
+ * /api/break-glass/expire:
+ *   post:
+ *     tags: [Break-glass Access]
+ *     summary: Expire elapsed break-glass sessions
+ *     description: End sessions past their time and requests past the unseal window (admin/scheduler use)
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Expiry run completed
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       500:
+ *         description: Server error
+ */
+router.post("/expire", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const service = new BreakGlassService(req.user!.tenantId);
+    res.json(await service.expireSessions());
+  } catch (error) {
+    handleBreakGlassError(res, error, "Failed to expire break-glass sessions");
+  }
+});
+
+export default router;
@@ -0,0 +1,382 @@
+import { Router, Request, Response } from "express";
+import { authenticateToken, requireRole } from "../middleware/auth.middleware";
+import { auditLogger, AuditActions, ResourceTypes } from "../audit-logger";
+import { cmdbService, CmdbError } from "../services/cmdb/cmdb-service";
+import { DEFAULT_IMPACT_DEPTH } from "../services/cmdb/ci-graph";
+import {
+  insertBusinessServiceSchema,
+  insertCiRelationshipSchema,
+  CiNodeTypeEnum,
+} from "@shared/schema";
+import { z } from "zod";
+
+const router = Router();
+
+const updateBusinessServiceSchema = insertBusinessServiceSchema.partial();
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Validation failed", errors: error.errors });
+  }
+  if (error instanceof CmdbError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ message: fallback });
+}
+
+/**
+ * @swagger
+ * /api/cmdb/services:
+ *   get:
+ *     summary: List business services
+ *     tags: [CMDB]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Business services ordered by name
+ */
+router.get("/services", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    res.json(await cmdbService.listServices(req.user!.tenantId));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch business services");
+  }
+});
+
+/**
+ * @swagger
+ * /api/cmdb/services:
+ *   post:
+ *     summary: Create a business service (IT Manager only)
+ *     tags: [CMDB]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               criticality:
+ *                 type: string
+ *                 enum: [low, medium, high, critical]
+ *               ownerId:
+ *                 type: string
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Service created
+ *       409:
+ *         description: A service with this name already exists
+ */
+router.post("/services", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const data = insertBusinessServiceSchema.parse(req.body);
+    const service = await cmdbService.createService(req.user!.tenantId, data);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.CREATE,
+        resourceType: ResourceTypes.BUSINESS_SERVICE,
+        resourceId: service.id,
+        description: `Created business service "${service.name}"`,
+        afterState: service
+      },
+      req
+    );
+
+    res.status(201).json(service);
+  } catch (error) {
+    handleError(res, error, "Failed to create business service");
+  }
+});
+
+/**
+ * @swagger
+ * /api/cmdb/services/{id}:
+ *   put:
+ *     summary: Update a business service (IT Manager only)
+ *     tags: [CMDB]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Service updated
+ *       404:
+ *         description: Service not found
+ */
+router.put("/services/:id", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const data = updateBusinessServiceSchema.parse(req.body);
+    const before = await cmdbService.getServiceOrThrow(req.params.id, req.user!.tenantId);
+    const service = await cmdbService.updateService(req.user!.tenantId, req.params.id, data);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.UPDATE,
+        resourceType: ResourceTypes.BUSINESS_SERVICE,
+        resourceId: service.id,
+        description: `Updated business service "${service.name}"`,
+        beforeState: before,
+        afterState: service
+      },
+      req
+    );
+
+    res.json(service);
+  } catch (error) {
+    handleError(res, error, "Failed to update business service");
+  }
+});
+
+/**
+ * @swagger
+ * /api/cmdb/services/{id}:
+ *   delete:
+ *     summary: Delete a business service and its relationships (IT Manager only)
+ *     tags: [CMDB]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Service deleted
+ *       404:
+ *         description: Service not found
+ */
+router.delete("/services/:id", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const service = await cmdbService.deleteService(req.user!.tenantId, req.params.id);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.DELETE,
+        resourceType: ResourceTypes.BUSINESS_SERVICE,
+        resourceId: service.id,
+        description: `Deleted business service "${service.name}"`,
+        beforeState: service
+      },
+      req
+    );
+
+    res.json({ message: "Business service deleted" });
+  } catch (error) {
+    handleError(res, error, "Failed to delete business service");
+  }
+});
+
+/**
+ * @swagger
+ * /api/cmdb/relationships:
+ *   get:
+ *     summary: List configuration item relationships
+ *     tags: [CMDB]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: nodeType
+ *         schema:
+ *           type: string
+ *           enum: [asset, saas_app, site, user, service]
+ *       - in: query
+ *         name: nodeId
+ *         schema:
+ *           type: string
+ *         description: With nodeType, only relationships touching this configuration item
+ *     responses:
+ *       200:
+ *         description: Relationships with source and target names
+ */
+router.get("/relationships", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const node = req.query.nodeType && req.query.nodeId
+      ? { type: CiNodeTypeEnum.parse(req.query.nodeType), id: String(req.query.nodeId) }
+      : undefined;
+    res.json(await cmdbService.listRelationships(req.user!.tenantId, node));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch relationships");
+  }
+});
+
+/**
+ * @swagger
+ * /api/cmdb/relationships:
+ *   post:
+ *     summary: Relate two configuration items (IT Manager only)
+ *     description: Reads as "source relationshipType target", e.g. a service runs_on an asset, or an asset owned_by a user
+ *     tags: [CMDB]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sourceType
+ *               - sourceId
+ *               - targetType
+ *               - targetId
+ *               - relationshipType
+ *             properties:
+ *               sourceType:
+ *                 type: string
+ *                 enum: [asset, saas_app, site, user, service]
+ *               sourceId:
+ *                 type: string
+ *               targetType:
+ *                 type: string
+ *                 enum: [asset, saas_app, site, user, service]
+ *               targetId:
+ *                 type: string
+ *               relationshipType:
+ *                 type: string
+ *                 enum: [runs_on, depends_on, connected_to, backs_up, owned_by]
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Relationship created
+ *       404:
+ *         description: Source or target not found
+ *       409:
+ *         description: Relationship already exists
+ */
+router.post("/relationships", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const data = insertCiRelationshipSchema.parse(req.body);
+    const relationship = await cmdbService.createRelationship(req.user!.tenantId, data, req.user!.userId);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.CREATE,
+        resourceType: ResourceTypes.CI_RELATIONSHIP,
+        resourceId: relationship.id,
+        description: `Related ${relationship.source.name} ${relationship.relationshipType.replace("_", " ")} ${relationship.target.name}`,
+        afterState: relationship
+      },
+      req
+    );
+
+    res.status(201).json(relationship);
+  } catch (error) {
+    handleError(res, error, "Failed to create relationship");
+  }
+});
+
+/**
+ * @swagger
+ * /api/cmdb/relationships/{id}:
+ *   delete:
+ *     summary: Remove a relationship (IT Manager only)
+ *     tags: [CMDB]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Relationship removed
+ *       404:
+ *         description: Relationship not found
+ */
+router.delete("/relationships/:id", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const relationship = await cmdbService.deleteRelationship(req.user!.tenantId, req.params.id);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.DELETE,
+        resourceType: ResourceTypes.CI_RELATIONSHIP,
+        resourceId: relationship.id,
+        description: `Removed ${relationship.relationshipType} relationship from ${relationship.sourceType} ${relationship.sourceId} to ${relationship.targetType} ${relationship.targetId}`,
+        beforeState: relationship
+      },
+      req
+    );
+
+    res.json({ message: "Relationship removed" });
+  } catch (error) {
+    handleError(res, error, "Failed to remove relationship");
+  }
+});
+
+/**
+ * @swagger
+ * /api/cmdb/impact/{nodeType}/{nodeId}:
+ *   get:
+ *     summary: Upstream and downstream impact for a configuration item
+ *     description: |
+ *       downstream lists what is affected if the item goes away; upstream lists what it needs.
+ *       Implied edges (software linked to devices, service owners) are included.
+ *     tags: [CMDB]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: nodeType
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [asset, saas_app, site, user, service]
+ *       - in: path
+ *         name: nodeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: depth
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 10
+ *           default: 5
+ *     responses:
+ *       200:
+ *         description: Impact graph and affected business services
+ *       404:
+ *         description: Configuration item not found
+ */
+router.get("/impact/:nodeType/:nodeId", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const type = CiNodeTypeEnum.parse(req.params.nodeType);
+    const depth = parseInt(String(req.query.depth ?? DEFAULT_IMPACT_DEPTH), 10) || DEFAULT_IMPACT_DEPTH;
+    res.json(await cmdbService.getImpact(req.user!.tenantId, { type, id: req.params.nodeId }, depth));
+  } catch (error) {
+    handleError(res, error, "Failed to compute impact");
+  }
+});
+
+export default router;
@@ -0,0 +1,436 @@
+import { Router, Request, Response } from "express";
+import { stringify } from "csv-stringify/sync";
+import { authenticateToken, requireRole } from "../middleware/auth.middleware";
+import { auditLogger, AuditActions, ResourceTypes } from "../audit-logger";
+import { storage } from "../storage";
+import { coverageAlertsService, CoverageAlertError } from "../services/assets/coverage-alerts";
+import { WarrantyLookupError } from "../services/assets/warranty-lookup";
+import {
+  coverageAlertSettingsSchema,
+  renewCoverageSchema,
+  warrantyLookupRequestSchema,
+  CoverageAlertStatusEnum,
+  CoverageTypeEnum,
+} from "@shared/schema";
+import { z } from "zod";
+
+const router = Router();
+
+const expiringQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(730).optional(),
+  coverageType: CoverageTypeEnum.optional(),
+});
+
+// Helper function to sanitize CSV values (prevent formula injection)
+const sanitizeCsvValue = (value: string): string => {
+  if (!value) return value;
+  if (/^[=+\-@]/.test(value)) {
+    return `'${value}`;
+  }
+  return value;
+};
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Validation failed", errors: error.errors });
+  }
+  if (error instanceof CoverageAlertError || error instanceof WarrantyLookupError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ message: fallback });
+}
+
+/**
+ * @swagger
+ * /api/coverage/settings:
+ *   get:
+ *     summary: Warranty/AMC expiry alert settings
+ *     tags: [Coverage]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Whether alerts are enabled and the lead times (days before expiry) they fire at
+ */
+router.get("/settings", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    res.json(await coverageAlertsService.getSettingsForTenant(req.user!.tenantId));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch coverage alert settings");
+  }
+});
+
+/**
+ * @swagger
+ * /api/coverage/settings:
+ *   put:
+ *     summary: Update warranty/AMC expiry alert settings (IT Manager only)
+ *     tags: [Coverage]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - enabled
+ *               - leadDays
+ *             properties:
+ *               enabled:
+ *                 type: boolean
+ *               leadDays:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                   minimum: 1
+ *                   maximum: 730
+ *                 example: [90, 60, 30, 7]
+ *     responses:
+ *       200:
+ *         description: Settings updated
+ */
+router.put("/settings", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const settings = coverageAlertSettingsSchema.parse(req.body);
+    const before = await coverageAlertsService.getSettingsForTenant(tenantId);
+    const updated = await coverageAlertsService.updateSettings(tenantId, settings);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.ORG_SETTINGS_UPDATE,
+        resourceType: ResourceTypes.SETTINGS,
+        resourceId: tenantId,
+        description: updated.enabled
+          ? `Set warranty/AMC expiry alerts at ${updated.leadDays.join(", ")} days`
+          : "Disabled warranty/AMC expiry alerts",
+        beforeState: before,
+        afterState: updated
+      },
+      req
+    );
+
+    res.json(updated);
+  } catch (error) {
+    handleError(res, error, "Failed to update coverage alert settings");
+  }
+});
+
+/**
+ * @swagger
+ * /api/coverage/expiring:
+ *   get:
+ *     summary: Warranty and AMC coverage ending soon or recently lapsed, grouped by vendor
+ *     tags: [Coverage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *         description: Horizon in days; defaults to the longest alert lead time
+ *       - in: query
+ *         name: coverageType
+ *         schema:
+ *           type: string
+ *           enum: [warranty, amc]
+ *     responses:
+ *       200:
+ *         description: Counts per lead-time window and one group per vendor
+ */
+router.get("/expiring", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const query = expiringQuerySchema.parse(req.query);
+    res.json(await coverageAlertsService.getExpiringCoverage(req.user!.tenantId, query));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch expiring coverage");
+  }
+});
+
+/**
+ * @swagger
+ * /api/coverage/expiring/quote:
+ *   get:
+ *     summary: Renewal quote request for one vendor (CSV)
+ *     tags: [Coverage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: vendor
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: coverageType
+ *         schema:
+ *           type: string
+ *           enum: [warranty, amc]
+ *     responses:
+ *       200:
+ *         description: CSV of the vendor's devices with model, serial and coverage end date
+ *       404:
+ *         description: Nothing is expiring for this vendor
+ */
+router.get("/expiring/quote", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const query = expiringQuerySchema.parse(req.query);
+    const vendor = z.string().min(1).parse(req.query.vendor);
+    const expiring = await coverageAlertsService.getExpiringCoverage(req.user!.tenantId, query);
+    const group = expiring.vendors.find(entry => entry.vendor.toLowerCase() === vendor.toLowerCase());
+    if (!group) {
+      return res.status(404).json({ message: `No expiring coverage for ${vendor}` });
+    }
+
+    const csv = stringify(group.items.map(item => ({
+      assetTag: sanitizeCsvValue(item.assetTag ?? ""),
+      assetName: sanitizeCsvValue(item.assetName),
+      manufacturer: sanitizeCsvValue(item.manufacturer ?? ""),
+      model: sanitizeCsvValue(item.model ?? ""),
+      serialNumber: sanitizeCsvValue(item.serialNumber ?? ""),
+      coverageType: item.coverageType,
+      expiresAt: item.expiresAt.toISOString().slice(0, 10),
+      daysRemaining: item.daysRemaining,
+    })), {
+      header: true,
+      columns: ["assetTag", "assetName", "manufacturer", "model", "serialNumber", "coverageType", "expiresAt", "daysRemaining"],
+    });
+    const filename = `coverage-renewal-${group.vendor.replace(/[^A-Za-z0-9_-]+/g, "-")}.csv`;
+    res.setHeader("Content-Type", "text/csv");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.send(csv);
+  } catch (error) {
+    handleError(res, error, "Failed to build renewal quote request");
+  }
+});
+
+/**
+ * @swagger
+ * /api/coverage/alerts:
+ *   get:
+ *     summary: Warranty/AMC expiry alerts
+ *     tags: [Coverage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, acknowledged, renewed]
+ *     responses:
+ *       200:
+ *         description: Alerts, soonest expiry first
+ */
+router.get("/alerts", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status ? CoverageAlertStatusEnum.parse(req.query.status) : undefined;
+    res.json(await coverageAlertsService.listAlerts(req.user!.tenantId, status));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch coverage alerts");
+  }
+});
+
+/**
+ * @swagger
+ * /api/coverage/alerts/{id}/acknowledge:
+ *   post:
+ *     summary: Acknowledge a warranty/AMC expiry alert
+ *     tags: [Coverage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Alert acknowledged
+ *       409:
+ *         description: Alert is not open
+ */
+router.post("/alerts/:id/acknowledge", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const alert = await coverageAlertsService.acknowledgeAlert(req.user!.tenantId, req.params.id, req.user!.userId);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.UPDATE,
+        resourceType: ResourceTypes.COVERAGE_ALERT,
+        resourceId: alert.id,
+        description: `Acknowledged ${alert.coverageType} expiry alert for asset ${alert.assetId}`,
+        afterState: alert
+      },
+      req
+    );
+
+    res.json(alert);
+  } catch (error) {
+    handleError(res, error, "Failed to acknowledge coverage alert");
+  }
+});
+
+/**
+ * @swagger
+ * /api/coverage/renewals:
+ *   post:
+ *     summary: Record renewed warranty or AMC coverage for a batch of assets (IT Manager only)
+ *     description: Sets the new end date on each asset and marks their outstanding alerts renewed
+ *     tags: [Coverage]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - assetIds
+ *               - coverageType
+ *               - expiresAt
+ *             properties:
+ *               assetIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               coverageType:
+ *                 type: string
+ *                 enum: [warranty, amc]
+ *               expiresAt:
+ *                 type: string
+ *                 format: date
+ *               vendorName:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Coverage renewed
+ *       404:
+ *         description: One or more assets not found
+ */
+router.post("/renewals", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const data = renewCoverageSchema.parse(req.body);
+    const { before, assets, resolvedAlerts } = await coverageAlertsService.renew(req.user!.tenantId, data);
+    const field = data.coverageType === "warranty" ? "warrantyExpiry" : "amcExpiry";
+    const label = data.coverageType === "warranty" ? "warranty" : "AMC";
+
+    for (const asset of assets) {
+      const previous = before.find(entry => entry.id === asset.id);
+      await auditLogger.logActivity(
+        auditLogger.createUserContext(req),
+        {
+          action: AuditActions.ASSET_UPDATE,
+          resourceType: ResourceTypes.ASSET,
+          resourceId: asset.id,
+          description: `Renewed ${label} for ${asset.name} until ${data.expiresAt.toISOString().slice(0, 10)}` +
+            (data.notes ? `: ${data.notes}` : ""),
+          beforeState: { [field]: previous?.[field] ?? null, vendorName: previous?.vendorName ?? null },
+          afterState: { [field]: asset[field], vendorName: asset.vendorName }
+        },
+        req
+      );
+    }
+
+    res.json({ renewed: assets.length, resolvedAlerts, assets });
+  } catch (error) {
+    handleError(res, error, "Failed to record coverage renewal");
+  }
+});
+
+/**
+ * @swagger
+ * /api/coverage/lookup:
+ *   post:
+ *     summary: Look up warranty/AMC coverage by manufacturer and serial (IT Manager only)
+ *     description: Queries the configured warranty lookup provider; with apply, found dates that differ are written to the assets
+ *     tags: [Coverage]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - assetIds
+ *             properties:
+ *               assetIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               apply:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: One lookup outcome per asset
+ *       501:
+ *         description: No warranty lookup provider is configured
+ */
+router.post("/lookup", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const { assetIds, apply } = warrantyLookupRequestSchema.parse(req.body);
+    const outcomes = await coverageAlertsService.lookupCoverage(req.user!.tenantId, assetIds, apply);
+
+    for (const outcome of outcomes.filter(entry => entry.applied)) {
+      await auditLogger.logActivity(
+        auditLogger.createUserContext(req),
+        {
+          action: AuditActions.ASSET_UPDATE,
+          resourceType: ResourceTypes.ASSET,
+          resourceId: outcome.assetId,
+          description: `Updated coverage dates for ${outcome.assetName} from ${outcome.result!.provider} warranty lookup`,
+          afterState: { warrantyExpiry: outcome.result!.warrantyExpiry, amcExpiry: outcome.result!.amcExpiry }
+        },
+        req
+      );
+    }
+
+    res.json(outcomes);
+  } catch (error) {
+    handleError(res, error, "Failed to look up warranty coverage");
+  }
+});
+
+/**
+ * @swagger
+ * /api/coverage/check:
+ *   post:
+ *     summary: Run the warranty/AMC expiry check for this organization now (Admin only)
+ *     tags: [Coverage]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of alerts raised
+ */
+router.post("/check", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const tenant = await storage.getTenant(req.user!.tenantId);
+    if (!tenant) {
+      return res.status(404).json({ message: "Organization not found" });
+    }
+    const alerts = await coverageAlertsService.checkTenant(tenant);
+    res.json({ raised: alerts.length });
+  } catch (error) {
+    handleError(res, error, "Failed to run coverage check");
+  }
+});
+
+export default router;
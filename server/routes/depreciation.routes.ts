@@ -0,0 +1,371 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { authenticateToken, requireRole } from "../middleware/auth.middleware";
+import { auditLogger, AuditActions, ResourceTypes } from "../audit-logger";
+import { depreciationService } from "../services/assets/depreciation";
+import {
+  insertDepreciationScheduleSchema,
+  type DepreciationSchedule,
+  type InsertDepreciationSchedule,
+} from "@shared/schema";
+import { z } from "zod";
+
+const router = Router();
+
+const updateDepreciationScheduleSchema = insertDepreciationScheduleSchema.partial();
+
+type DepreciationScheduleInput = z.infer<typeof updateDepreciationScheduleSchema>;
+
+/**
+ * Decimal columns are stored as strings
+ */
+function toScheduleValues(data: DepreciationScheduleInput): Partial<InsertDepreciationSchedule> {
+  const { salvagePercent, decliningRate, ...rest } = data;
+  return {
+    ...rest,
+    ...(salvagePercent !== undefined && { salvagePercent: salvagePercent.toFixed(2) }),
+    ...(decliningRate !== undefined && { decliningRate: decliningRate.toFixed(2) }),
+  };
+}
+
+/**
+ * One schedule per category (case-insensitive) and a single tenant default
+ */
+async function findConflictingSchedule(
+  tenantId: string,
+  category: string | null | undefined,
+  excludeId?: string
+): Promise<DepreciationSchedule | undefined> {
+  const key = category?.trim().toLowerCase() || null;
+  const schedules = await storage.getDepreciationSchedules(tenantId);
+  return schedules.find(schedule =>
+    schedule.id !== excludeId && (schedule.category?.trim().toLowerCase() || null) === key
+  );
+}
+
+function parseDate(value: unknown): Date | null | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * @swagger
+ * /api/depreciation/schedules:
+ *   get:
+ *     summary: List depreciation schedules
+ *     tags: [Depreciation]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Per-category schedules and the tenant default
+ */
+router.get("/schedules", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const schedules = await storage.getDepreciationSchedules(req.user!.tenantId);
+    res.json(schedules);
+  } catch (error) {
+    console.error("Failed to fetch depreciation schedules:", error);
+    res.status(500).json({ message: "Failed to fetch depreciation schedules" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/depreciation/schedules:
+ *   post:
+ *     summary: Create a depreciation schedule
+ *     description: Omit category to create the tenant default used by assets without a category schedule
+ *     tags: [Depreciation]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - usefulLifeMonths
+ *             properties:
+ *               name:
+ *                 type: string
+ *               category:
+ *                 type: string
+ *                 nullable: true
+ *               method:
+ *                 type: string
+ *                 enum: [straight_line, declining_balance]
+ *               usefulLifeMonths:
+ *                 type: integer
+ *               salvagePercent:
+ *                 type: number
+ *               decliningRate:
+ *                 type: number
+ *                 description: Multiple of the straight-line rate (default 2)
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Schedule created
+ *       409:
+ *         description: A schedule already exists for the category
+ */
+router.post("/schedules", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const data = insertDepreciationScheduleSchema.parse(req.body);
+
+    if (await findConflictingSchedule(tenantId, data.category)) {
+      return res.status(409).json({
+        message: data.category
+          ? `A depreciation schedule already exists for category "${data.category}"`
+          : "A default depreciation schedule already exists",
+      });
+    }
+
+    const schedule = await storage.createDepreciationSchedule({
+      ...toScheduleValues(data),
+      name: data.name,
+      usefulLifeMonths: data.usefulLifeMonths,
+      category: data.category ?? null,
+      tenantId,
+    });
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.CREATE,
+        resourceType: ResourceTypes.DEPRECIATION_SCHEDULE,
+        resourceId: schedule.id,
+        description: `Created depreciation schedule ${schedule.name}`,
+        afterState: schedule
+      },
+      req
+    );
+
+    res.status(201).json(schedule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Failed to create depreciation schedule:", error);
+    res.status(500).json({ message: "Failed to create depreciation schedule" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/depreciation/schedules/{id}:
+ *   put:
+ *     summary: Update a depreciation schedule
+ *     description: Book values are always derived, so changes apply to all past and future periods
+ *     tags: [Depreciation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Schedule updated
+ *       404:
+ *         description: Schedule not found
+ *       409:
+ *         description: A schedule already exists for the category
+ */
+router.put("/schedules/:id", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const data = updateDepreciationScheduleSchema.parse(req.body);
+
+    const existing = await storage.getDepreciationSchedule(req.params.id, tenantId);
+    if (!existing) {
+      return res.status(404).json({ message: "Depreciation schedule not found" });
+    }
+
+    if (data.category !== undefined && await findConflictingSchedule(tenantId, data.category, existing.id)) {
+      return res.status(409).json({
+        message: data.category
+          ? `A depreciation schedule already exists for category "${data.category}"`
+          : "A default depreciation schedule already exists",
+      });
+    }
+
+    const schedule = await storage.updateDepreciationSchedule(existing.id, tenantId, toScheduleValues(data));
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.UPDATE,
+        resourceType: ResourceTypes.DEPRECIATION_SCHEDULE,
+        resourceId: existing.id,
+        description: `Updated depreciation schedule ${existing.name}`,
+        beforeState: existing,
+        afterState: schedule
+      },
+      req
+    );
+
+    res.json(schedule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Failed to update depreciation schedule:", error);
+    res.status(500).json({ message: "Failed to update depreciation schedule" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/depreciation/schedules/{id}:
+ *   delete:
+ *     summary: Delete a depreciation schedule
+ *     tags: [Depreciation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Schedule deleted
+ *       404:
+ *         description: Schedule not found
+ */
+router.delete("/schedules/:id", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const existing = await storage.getDepreciationSchedule(req.params.id, tenantId);
+    if (!existing) {
+      return res.status(404).json({ message: "Depreciation schedule not found" });
+    }
+
+    await storage.deleteDepreciationSchedule(existing.id, tenantId);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.DELETE,
+        resourceType: ResourceTypes.DEPRECIATION_SCHEDULE,
+        resourceId: existing.id,
+        description: `Deleted depreciation schedule ${existing.name}`,
+        beforeState: existing
+      },
+      req
+    );
+
+    res.json({ message: "Depreciation schedule deleted" });
+  } catch (error) {
+    console.error("Failed to delete depreciation schedule:", error);
+    res.status(500).json({ message: "Failed to delete depreciation schedule" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/depreciation/register:
+ *   get:
+ *     summary: Depreciation register for a period
+ *     description: |
+ *       Opening book value, additions, depreciation charge, disposal write-offs and
+ *       closing book value per asset. Export it as CSV/XLSX/PDF through
+ *       POST /api/reports/export with type depreciation_register.
+ *     tags: [Depreciation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: periodStart
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Defaults to the start of the period end's calendar year
+ *       - in: query
+ *         name: periodEnd
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Defaults to today
+ *     responses:
+ *       200:
+ *         description: Register rows, totals and assets that could not be depreciated
+ *       400:
+ *         description: Invalid period
+ */
+router.get("/register", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const periodEnd = parseDate(req.query.periodEnd) ?? (req.query.periodEnd === undefined ? new Date() : null);
+    if (!periodEnd) {
+      return res.status(400).json({ message: "Invalid periodEnd" });
+    }
+    const periodStart = parseDate(req.query.periodStart)
+      ?? (req.query.periodStart === undefined ? new Date(Date.UTC(periodEnd.getUTCFullYear(), 0, 1)) : null);
+    if (!periodStart || periodStart > periodEnd) {
+      return res.status(400).json({ message: "periodStart must be a valid date on or before periodEnd" });
+    }
+
+    const register = await depreciationService.buildRegister(req.user!.tenantId, periodStart, periodEnd);
+    res.json(register);
+  } catch (error) {
+    console.error("Failed to build depreciation register:", error);
+    res.status(500).json({ message: "Failed to build depreciation register" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/depreciation/assets/{id}:
+ *   get:
+ *     summary: Book value of an asset
+ *     tags: [Depreciation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Defaults to today
+ *     responses:
+ *       200:
+ *         description: Book value, accumulated depreciation and any disposal write-off
+ *       404:
+ *         description: Asset not found
+ */
+router.get("/assets/:id", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const asOf = parseDate(req.query.asOf) ?? (req.query.asOf === undefined ? new Date() : null);
+    if (!asOf) {
+      return res.status(400).json({ message: "Invalid asOf date" });
+    }
+
+    const depreciation = await depreciationService.getAssetDepreciation(req.user!.tenantId, req.params.id, asOf);
+    if (!depreciation) {
+      return res.status(404).json({ message: "Asset not found" });
+    }
+
+    const { asset, schedule, result, reason } = depreciation;
+    res.json({ assetId: asset.id, asOf, schedule, depreciation: result, reason });
+  } catch (error) {
+    console.error("Failed to calculate asset depreciation:", error);
+    res.status(500).json({ message: "Failed to calculate asset depreciation" });
+  }
+});
+
+export default router;
@@ -0,0 +1,200 @@
+/**
+ * Event Bus Administration Routes
+ *
+ * Provides endpoints for operating the durable policy event bus:
+ * - Delivery statistics per consumer
+ * - Inspect failed and dead-lettered deliveries
+ * - Inspect an outbox event with its deliveries
+ * - Replay dead-lettered deliveries
+ */
+
+import { Router, Request, Response } from "express";
+import { authenticateToken, requireRole } from "../middleware/auth.middleware";
+import { policyEngine } from "../services/policy/engine";
+import { EVENT_CONSUMERS } from "../services/policy/event-system";
+import { storage } from "../storage";
+import { auditLogger, AuditActions } from "../audit-logger";
+
+const router = Router();
+
+const DELIVERY_STATUSES = ['pending', 'processing', 'delivered', 'failed', 'dead_letter'];
+
+/**
+ * @swagger
+ * /api/event-bus/stats:
+ *   get:
+ *     summary: Get event delivery counts by consumer and status
+ *     tags: [Event Bus]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Delivery statistics retrieved successfully
+ */
+router.get("/stats", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const rows = await storage.getEventDeliveryStats(req.user!.tenantId);
+
+    const byConsumer: Record<string, Record<string, number>> = {};
+    for (const consumer of EVENT_CONSUMERS) {
+      byConsumer[consumer] = Object.fromEntries(DELIVERY_STATUSES.map(status => [status, 0]));
+    }
+    for (const row of rows) {
+      byConsumer[row.consumer] = byConsumer[row.consumer] || {};
+      byConsumer[row.consumer][row.status] = row.count;
+    }
+
+    res.json({
+      byConsumer,
+      emittedThisProcess: policyEngine.getEventSystem().getStats()
+    });
+  } catch (error) {
+    console.error('Failed to fetch event bus stats:', error);
+    res.status(500).json({ message: "Failed to fetch event bus stats" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/event-bus/deliveries:
+ *   get:
+ *     summary: List event deliveries (defaults to the dead-letter queue)
+ *     tags: [Event Bus]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, processing, delivered, failed, dead_letter]
+ *       - in: query
+ *         name: consumer
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: eventName
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Deliveries retrieved successfully
+ */
+router.get("/deliveries", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const status = (req.query.status as string) || 'dead_letter';
+    if (!DELIVERY_STATUSES.includes(status)) {
+      return res.status(400).json({ message: `Invalid status. Must be one of: ${DELIVERY_STATUSES.join(', ')}` });
+    }
+
+    const deliveries = await storage.getEventDeliveries(req.user!.tenantId, {
+      status,
+      consumer: req.query.consumer as string | undefined,
+      eventName: req.query.eventName as string | undefined,
+      limit: Math.min(parseInt(req.query.limit as string) || 100, 500)
+    });
+
+    res.json(deliveries);
+  } catch (error) {
+    console.error('Failed to fetch event deliveries:', error);
+    res.status(500).json({ message: "Failed to fetch event deliveries" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/event-bus/events/{id}:
+ *   get:
+ *     summary: Get an outbox event with its payload and deliveries
+ *     tags: [Event Bus]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Event retrieved successfully
+ *       404:
+ *         description: Event not found
+ */
+router.get("/events/:id", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const event = await storage.getOutboxEvent(req.params.id, req.user!.tenantId);
+    if (!event) {
+      return res.status(404).json({ message: "Event not found" });
+    }
+
+    const deliveries = await storage.getEventDeliveries(req.user!.tenantId, { eventId: event.id });
+
+    res.json({ ...event, deliveries });
+  } catch (error) {
+    console.error('Failed to fetch event:', error);
+    res.status(500).json({ message: "Failed to fetch event" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/event-bus/dead-letters/replay:
+ *   post:
+ *     summary: Replay dead-lettered deliveries
+ *     description: |
+ *       Resets matching dead-lettered deliveries to pending with a fresh retry budget.
+ *       Pass deliveryIds to replay specific deliveries, or consumer/eventName to replay
+ *       every dead letter that matches. With no filters the whole queue is replayed.
+ *     tags: [Event Bus]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               deliveryIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               consumer:
+ *                 type: string
+ *               eventName:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Deliveries queued for replay
+ */
+router.post("/dead-letters/replay", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const { deliveryIds, consumer, eventName } = req.body || {};
+
+    if (deliveryIds !== undefined && (!Array.isArray(deliveryIds) || deliveryIds.some((id: unknown) => typeof id !== 'string'))) {
+      return res.status(400).json({ message: "deliveryIds must be an array of strings" });
+    }
+
+    const replayed = await policyEngine.getEventSystem().replayDeadLetters(req.user!.tenantId, {
+      ids: deliveryIds,
+      consumer,
+      eventName
+    });
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.UPDATE,
+        resourceType: "event_delivery",
+        description: `Replayed ${replayed.length} dead-lettered event deliver${replayed.length === 1 ? 'y' : 'ies'}`,
+        metadata: { deliveryIds: replayed.map(d => d.id), consumer, eventName }
+      },
+      req
+    );
+
+    res.json({ replayed: replayed.length, deliveries: replayed });
+  } catch (error) {
+    console.error('Failed to replay dead letters:', error);
+    res.status(500).json({ message: "Failed to replay dead letters" });
+  }
+});
+
+export default router;
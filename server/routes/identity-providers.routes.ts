@@ -5,8 +5,6 @@ import { auditLogger, AuditActions, ResourceTypes } from "../audit-logger";
 import { insertIdentityProviderSchema } from "@shared/schema";
 import { encrypt, decrypt } from "../services/encryption";
 import { idpSyncScheduler } from "../services/idp/sync-scheduler";
-import { AzureADConnector } from "../services/idp/azuread-connector";
-import { GoogleWorkspaceConnector } from "../services/idp/google-connector";
 import { z } from "zod";
 
 const router = Router();
@@ -249,22 +247,11 @@ router.post("/:id/test", authenticateToken, requireRole("admin"), async (req: Re
     }
 
     // Create connector and test connection
-    const decryptedSecret = decrypt(provider.clientSecret);
-    const config = {
-      clientId: provider.clientId,
-      clientSecret: decryptedSecret,
-      tenantDomain: provider.tenantDomain || undefined,
-      scopes: provider.scopes || [],
-      customConfig: provider.config || {}
-    };
-
     let connector;
-    if (provider.type === 'azuread') {
-      connector = new AzureADConnector(config, req.user!.tenantId, provider.id);
-    } else if (provider.type === 'google') {
-      connector = new GoogleWorkspaceConnector(config, req.user!.tenantId, provider.id);
-    } else {
-      return res.status(400).json({ message: `Unsupported provider type: ${provider.type}` });
+    try {
+      connector = await idpSyncScheduler.createConnector(provider, req.user!.tenantId);
+    } catch (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : `Unsupported provider type: ${provider.type}` });
     }
 
     const testResult = await connector.testConnection();
@@ -5,7 +5,13 @@ import { swaggerSpec } from "../swagger.config";
 import authRoutes from "./auth.routes";
 import usersRoutes from "./users.routes";
 import ticketsRoutes from "./tickets.routes";
+import ticketSlaRoutes from "./ticket-sla.routes";
 import assetsRoutes from "./assets.routes";
+import depreciationRoutes from "./depreciation.routes";
+import assetTagsRoutes from "./asset-tags.routes";
+import inventoryAuditsRoutes from "./inventory-audits.routes";
+import cmdbRoutes from "./cmdb.routes";
+import coverageRoutes from "./coverage.routes";
 import vendorsRoutes from "./vendors.routes";
 import licensesRoutes from "./licenses.routes";
 import dashboardRoutes from "./dashboard.routes";
@@ -26,6 +32,7 @@ import sitesRoutes from "./sites.routes";
 import complianceRoutes from "./compliance.routes";
 import networkRoutes from "./network.routes";
 import softwareRoutes from "./software.routes";
+import softwareCatalogRoutes from "./software-catalog.routes";
 import debugRoutes from "./debug.routes";
 // SaaS Governance routes (Phase 0)
 import saasAppsRoutes from "./saas-apps.routes";
@@ -35,6 +42,7 @@ import identityProvidersRoutes from "./identity-providers.routes";
 import governancePoliciesRoutes from "./governance-policies.routes";
 // Phase 1: Discovery & Shadow IT
 import discoveryRoutes from "./discovery.routes";
+import networkDiscoveryRoutes from "./network-discovery.routes";
 import shadowItAdvancedRoutes from "./shadow-it-advanced.routes";
 // Phase 2: Spend Management & License Intelligence
 import spendRoutes from "./spend.routes";
@@ -42,11 +50,17 @@ import spendRoutes from "./spend.routes";
 import offboardingRoutes from "./offboarding.routes";
 // Phase 4: Policy Automation Engine
 import policyRoutes from "./policy.routes";
+import eventBusRoutes from "./event-bus.routes";
 // Phase 5: Identity Governance & Access Reviews
 import accessReviewsRoutes from "./access-reviews.routes";
 // Phase 6: Advanced Features & AI Intelligence
 import accessRequestsRoutes from "./access-requests.routes";
 import jitAccessRoutes from "./jit-access.routes";
+import breakGlassRoutes from "./break-glass.routes";
+import mfaRoutes from "./mfa.routes";
+import ssoRoutes from "./sso.routes";
+import scimTokensRoutes from "./scim-tokens.routes";
+import scimRoutes from "./scim.routes";
 import sodRoutes from "./sod.routes";
 import anomaliesRoutes from "./anomalies.routes";
 import reportsRoutes from "./reports.routes";
@@ -87,7 +101,13 @@ export async function registerAllRoutes(app: Express): Promise<Server> {
   app.use("/api/auth", authRoutes);
   app.use("/api/users", usersRoutes);           // 19 routes - User management
   app.use("/api/tickets", ticketsRoutes);       // 12 routes - Service desk
-  app.use("/api/assets", assetsRoutes);         // 12 routes - Asset management
+  app.use("/api/ticket-sla-policies", ticketSlaRoutes); // 4 routes - Ticket SLA policies
+  app.use("/api/assets", assetsRoutes);         // 19 routes - Asset management, lifecycle & custody
+  app.use("/api/asset-tags", assetTagsRoutes);  // 5 routes - Asset tag numbering, labels & scanning
+  app.use("/api/inventory-audits", inventoryAuditsRoutes); // 8 routes - Physical inventory audits
+  app.use("/api/cmdb", cmdbRoutes);             // 8 routes - Business services, CI relationships & impact
+  app.use("/api/depreciation", depreciationRoutes); // 6 routes - Depreciation schedules & register
+  app.use("/api/coverage", coverageRoutes);     // 9 routes - Warranty/AMC expiry alerts, renewals & lookup
   app.use("/api/vendors", vendorsRoutes);       // 4 routes - Vendor management
   app.use("/api/licenses", licensesRoutes);     // 2 routes - License tracking
   app.use("/api/dashboard", dashboardRoutes);   // 1 route - Dashboard metrics
@@ -101,12 +121,13 @@ export async function registerAllRoutes(app: Express): Promise<Server> {
   app.use("/api/audit-logs", auditLogsRoutes);  // 2 routes - Audit logs
   app.use("/api/geographic", geographicRoutes); // 4 routes - Geographic data
   app.use("/api/webhook", webhookRoutes);       // 1 route - Email to ticket webhook
-  app.use("/api/agent", agentRoutes);           // 1 route - Agent enrollment
+  app.use("/api/agent", agentRoutes);           // 7 routes - Agent enrollment, check-in & commands
   app.use("/api/enrollment-tokens", enrollmentTokensRoutes); // 2 routes - Enrollment tokens
   app.use("/api/sites", sitesRoutes);           // 5 routes - Site/location management
   app.use("/api/compliance", complianceRoutes); // 4 routes - Compliance monitoring
   app.use("/api/network", networkRoutes);       // 5 routes - Network monitoring with SSE
   app.use("/api/software", softwareRoutes);     // 2 routes - Software management
+  app.use("/api/software-catalog", softwareCatalogRoutes); // 12 routes - Software normalization & license position
   app.use("/api/debug", debugRoutes);           // 1 route - Debug endpoints
 
   // ========================================
@@ -118,14 +139,20 @@ export async function registerAllRoutes(app: Express): Promise<Server> {
   app.use("/api/identity-providers", identityProvidersRoutes); // 7 routes - IdP configuration
   app.use("/api/governance-policies", governancePoliciesRoutes); // 6 routes - Policy automation
   app.use("/api/discovery", discoveryRoutes);          // 6 routes - Discovery dashboard (Phase 1)
+  app.use("/api/discovery", networkDiscoveryRoutes);   // 9 routes - Network discovery scans (SNMP/port)
   app.use("/api/shadow-it", shadowItAdvancedRoutes);    // Advanced Shadow IT features (Phase 1)
   app.use("/api/spend", spendRoutes);                  // 7 routes - Spend management (Phase 2)
   app.use("/api/offboarding", offboardingRoutes);      // 12 routes - Offboarding automation (Phase 3)
   app.use("/api/policies", policyRoutes);              // 13 routes - Policy automation engine (Phase 4)
-  app.use("/api/access-reviews", accessReviewsRoutes); // 22 routes - Identity governance (Phase 5)
-  app.use("/api/access-requests", accessRequestsRoutes); // 8 routes - Self-service access requests (Phase 6.1)
-  app.use("/api/jit-access", jitAccessRoutes);         // 11 routes - Just-in-time access (Phase 6.2)
-  app.use("/api/sod", sodRoutes);                      // 14 routes - Segregation of duties (Phase 6.3)
+  app.use("/api/event-bus", eventBusRoutes);           // 4 routes - Durable event bus admin (Phase 4)
+  app.use("/api/access-reviews", accessReviewsRoutes); // 27 routes - Identity governance (Phase 5)
+  app.use("/api/access-requests", accessRequestsRoutes); // 14 routes - Self-service access requests (Phase 6.1)
+  app.use("/api/jit-access", jitAccessRoutes);         // 12 routes - Just-in-time access (Phase 6.2)
+  app.use("/api/break-glass", breakGlassRoutes);       // 12 routes - Break-glass emergency access (Phase 6.2)
+  app.use("/api/mfa", mfaRoutes);                      // 9 routes - MFA factors, recovery codes and admin reset (Phase 6.2)
+  app.use("/api/sso", ssoRoutes);                      // 12 routes - SAML / OIDC login connections and SSO-only policy
+  app.use("/api/scim-tokens", scimTokensRoutes);       // 3 routes - SCIM provisioning tokens
+  app.use("/api/sod", sodRoutes);                      // 18 routes - Segregation of duties (Phase 6.3)
   app.use("/api/anomalies", anomaliesRoutes);          // 8 routes - Anomaly detection (Phase 6.5)
   app.use("/api/reports", reportsRoutes);              // 6 routes - Audit reports & export
 
@@ -136,6 +163,7 @@ export async function registerAllRoutes(app: Express): Promise<Server> {
 
   // SPECIAL ROUTES (Non-API)
   app.use("/enroll", enrollmentRoutes);         // 2 routes - Device enrollment pages
+  app.use("/scim/v2", scimRoutes);              // 14 routes - SCIM 2.0 provisioning (IdP bearer tokens)
 
   // ========================================
   // ALL ROUTES MIGRATED ✅
@@ -0,0 +1,442 @@
+import { Router, Request, Response } from "express";
+import { stringify } from "csv-stringify/sync";
+import { storage } from "../storage";
+import { authenticateToken, requireRole } from "../middleware/auth.middleware";
+import { auditLogger, AuditActions, ResourceTypes } from "../audit-logger";
+import {
+  inventoryAuditService,
+  InventoryAuditError,
+  type InventoryAuditActor,
+} from "../services/assets/inventory-audit";
+import { AssetTagError } from "../services/assets/asset-tags";
+import type { VarianceLine } from "../services/assets/inventory-variance";
+import {
+  insertInventoryAuditSchema,
+  inventoryAuditScanSchema,
+  updateInventoryAuditItemSchema,
+  closeInventoryAuditSchema,
+} from "@shared/schema";
+import { z } from "zod";
+
+const router = Router();
+
+async function getAuditActor(req: Request): Promise<InventoryAuditActor> {
+  const user = await storage.getUser(req.user!.userId);
+  const name = user ? `${user.firstName} ${user.lastName}`.trim() || user.email : req.user!.email;
+  return { userId: req.user!.userId, name, email: user?.email ?? req.user!.email };
+}
+
+// Helper function to sanitize CSV values (prevent formula injection)
+const sanitizeCsvValue = (value: string): string => {
+  if (!value) return value;
+  if (/^[=+\-@]/.test(value)) {
+    return `'${value}`;
+  }
+  return value;
+};
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Validation failed", errors: error.errors });
+  }
+  if (error instanceof InventoryAuditError || error instanceof AssetTagError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ message: fallback });
+}
+
+/**
+ * @swagger
+ * /api/inventory-audits:
+ *   get:
+ *     summary: List inventory audits with scan progress
+ *     tags: [Inventory Audits]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, closed, cancelled]
+ *     responses:
+ *       200:
+ *         description: Audits, newest first, with item counts per result
+ */
+router.get("/", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const status = typeof req.query.status === "string" ? req.query.status : undefined;
+    res.json(await inventoryAuditService.listAudits(req.user!.tenantId, status));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch inventory audits");
+  }
+});
+
+/**
+ * @swagger
+ * /api/inventory-audits:
+ *   post:
+ *     summary: Start an inventory audit for a site or location (IT Manager only)
+ *     description: Snapshots the active hardware assets registered at the location as the expected list
+ *     tags: [Inventory Audits]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               siteId:
+ *                 type: string
+ *               location:
+ *                 type: string
+ *                 description: Free-text asset location, when not auditing a site
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Audit started
+ *       404:
+ *         description: Site not found
+ */
+router.post("/", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const data = insertInventoryAuditSchema.parse(req.body);
+    const audit = await inventoryAuditService.createAudit(req.user!.tenantId, data, await getAuditActor(req));
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.CREATE,
+        resourceType: ResourceTypes.INVENTORY_AUDIT,
+        resourceId: audit.id,
+        description: `Started inventory audit "${audit.name}" at ${audit.location}`,
+        afterState: audit
+      },
+      req
+    );
+
+    res.status(201).json(audit);
+  } catch (error) {
+    handleError(res, error, "Failed to start inventory audit");
+  }
+});
+
+/**
+ * @swagger
+ * /api/inventory-audits/{id}:
+ *   get:
+ *     summary: Inventory audit with its items and current variance
+ *     tags: [Inventory Audits]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Audit, items and variance report
+ *       404:
+ *         description: Audit not found
+ */
+router.get("/:id", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    res.json(await inventoryAuditService.getAudit(req.user!.tenantId, req.params.id));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch inventory audit");
+  }
+});
+
+/**
+ * @swagger
+ * /api/inventory-audits/{id}/scan:
+ *   post:
+ *     summary: Record a scanned asset tag, label URL or serial number
+ *     description: |
+ *       Expected assets become found. Other assets are found (registered here), wrong_location
+ *       (registered elsewhere) or unexpected (unknown code, or a retired/disposed asset).
+ *     tags: [Inventory Audits]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: The audit item and whether it had already been scanned
+ *       409:
+ *         description: Audit is not open, or the serial number matches several assets
+ */
+router.post("/:id/scan", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const scan = inventoryAuditScanSchema.parse(req.body);
+    res.json(await inventoryAuditService.recordScan(req.user!.tenantId, req.params.id, scan, await getAuditActor(req)));
+  } catch (error) {
+    handleError(res, error, "Failed to record scan");
+  }
+});
+
+/**
+ * @swagger
+ * /api/inventory-audits/{id}/items/{itemId}:
+ *   patch:
+ *     summary: Confirm an expected asset by hand, mark it missing or reset it
+ *     tags: [Inventory Audits]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - result
+ *             properties:
+ *               result:
+ *                 type: string
+ *                 enum: [pending, found, missing]
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Item updated
+ */
+router.patch("/:id/items/:itemId", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const data = updateInventoryAuditItemSchema.parse(req.body);
+    res.json(await inventoryAuditService.updateItem(
+      req.user!.tenantId,
+      req.params.id,
+      req.params.itemId,
+      data,
+      await getAuditActor(req)
+    ));
+  } catch (error) {
+    handleError(res, error, "Failed to update audit item");
+  }
+});
+
+/**
+ * @swagger
+ * /api/inventory-audits/{id}/close:
+ *   post:
+ *     summary: Close an audit and apply bulk actions (IT Manager only)
+ *     description: |
+ *       Unconfirmed expected assets become missing. Optionally moves wrong-location assets to the
+ *       audited location, sets a status on missing assets and opens a ticket for each missing asset.
+ *       Every change is audit logged; assets whose lifecycle does not allow the change are reported in errors.
+ *     tags: [Inventory Audits]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               relocateWrongLocation:
+ *                 type: boolean
+ *               missingStatus:
+ *                 type: string
+ *                 enum: [ordered, received, in-stock, deployed, in-repair, retired, disposed]
+ *               createTicketsForMissing:
+ *                 type: boolean
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Closed audit, variance report, applied changes and errors
+ *       409:
+ *         description: Audit is not open
+ */
+router.post("/:id/close", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const options = closeInventoryAuditSchema.parse(req.body ?? {});
+    const result = await inventoryAuditService.closeAudit(req.user!.tenantId, req.params.id, options, await getAuditActor(req));
+    const context = auditLogger.createUserContext(req);
+
+    for (const change of result.changes) {
+      if (change.change === "ticket") {
+        await auditLogger.logActivity(context, {
+          action: AuditActions.TICKET_CREATE,
+          resourceType: ResourceTypes.TICKET,
+          resourceId: change.ticketId,
+          description: `Opened ticket ${change.ticketNumber} for ${change.assetName}, missing in inventory audit "${result.audit.name}"`,
+          afterState: { assetId: change.assetId, inventoryAuditId: result.audit.id }
+        }, req);
+      } else {
+        await auditLogger.logActivity(context, {
+          action: change.change === "status" ? AuditActions.ASSET_STATUS_CHANGE : AuditActions.ASSET_MOVE,
+          resourceType: ResourceTypes.ASSET,
+          resourceId: change.assetId,
+          description: change.change === "status"
+            ? `Set ${change.assetName} to ${change.to} after inventory audit "${result.audit.name}"`
+            : `Moved ${change.assetName} to ${change.to} after inventory audit "${result.audit.name}"`,
+          beforeState: { [change.change === "status" ? "status" : "location"]: change.from },
+          afterState: { [change.change === "status" ? "status" : "location"]: change.to, inventoryAuditId: result.audit.id }
+        }, req);
+      }
+    }
+
+    await auditLogger.logActivity(context, {
+      action: AuditActions.UPDATE,
+      resourceType: ResourceTypes.INVENTORY_AUDIT,
+      resourceId: result.audit.id,
+      description: `Closed inventory audit "${result.audit.name}": ${result.report.totals.found} found, ${result.report.totals.missing} missing, ${result.report.totals.wrongLocation} wrong location, ${result.report.totals.unexpected} unexpected`,
+      afterState: { status: result.audit.status, summary: result.audit.summary, closeOptions: options }
+    }, req);
+
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to close inventory audit");
+  }
+});
+
+/**
+ * @swagger
+ * /api/inventory-audits/{id}/cancel:
+ *   post:
+ *     summary: Cancel an open audit without changing any assets (IT Manager only)
+ *     tags: [Inventory Audits]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Audit cancelled
+ */
+router.post("/:id/cancel", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const audit = await inventoryAuditService.cancelAudit(req.user!.tenantId, req.params.id, await getAuditActor(req));
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.UPDATE,
+        resourceType: ResourceTypes.INVENTORY_AUDIT,
+        resourceId: audit.id,
+        description: `Cancelled inventory audit "${audit.name}"`,
+        afterState: { status: audit.status }
+      },
+      req
+    );
+
+    res.json(audit);
+  } catch (error) {
+    handleError(res, error, "Failed to cancel inventory audit");
+  }
+});
+
+/**
+ * @swagger
+ * /api/inventory-audits/{id}/report:
+ *   get:
+ *     summary: Variance report for an audit
+ *     tags: [Inventory Audits]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Variance report
+ */
+router.get("/:id/report", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const { audit, report } = await inventoryAuditService.getAudit(req.user!.tenantId, req.params.id);
+
+    if (req.query.format !== "csv") {
+      return res.json({ audit, report });
+    }
+
+    const rows = ([
+      ["missing", report.missing],
+      ["wrong_location", report.wrongLocation],
+      ["unexpected", report.unexpected],
+      ["pending", report.pending],
+      ["found", report.found],
+    ] as Array<[string, VarianceLine[]]>).flatMap(([result, lines]) => lines.map(line => ({
+      result,
+      assetTag: sanitizeCsvValue(line.assetTag ?? ""),
+      assetName: sanitizeCsvValue(line.assetName ?? ""),
+      serialNumber: sanitizeCsvValue(line.serialNumber ?? ""),
+      registeredLocation: sanitizeCsvValue(line.registeredLocation ?? ""),
+      scannedCode: sanitizeCsvValue(line.scannedCode ?? ""),
+      scannedAt: line.scannedAt ? new Date(line.scannedAt).toISOString() : "",
+      scannedBy: sanitizeCsvValue(line.scannedByName ?? ""),
+      notes: sanitizeCsvValue(line.notes ?? ""),
+    })));
+
+    const csv = stringify(rows, {
+      header: true,
+      columns: ["result", "assetTag", "assetName", "serialNumber", "registeredLocation", "scannedCode", "scannedAt", "scannedBy", "notes"],
+    });
+    const filename = `inventory-audit-${audit.name.replace(/[^A-Za-z0-9_-]+/g, "-")}.csv`;
+    res.setHeader("Content-Type", "text/csv");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.send(csv);
+  } catch (error) {
+    handleError(res, error, "Failed to build variance report");
+  }
+});
+
+export default router;
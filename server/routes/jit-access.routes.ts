@@ -10,6 +10,10 @@
 import { Router } from "express";
 import { storage } from "../storage";
 import { JitAccessService } from "../services/advanced/jit-access";
+import { MfaVerificationError } from "../services/mfa/mfa-service";
+import { authenticateToken } from "../middleware/auth.middleware";
+import { mfaVerificationLimiter } from "../middleware/security.middleware";
+import { auditLogger, AuditActions, ResourceTypes } from "../audit-logger";
 import type { Request, Response } from "express";
 
 const router = Router();
@@ -408,13 +412,81 @@ router.post("/:id/review", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Send an MFA failure with the status and hints the client needs to retry
+ */
+function sendMfaError(res: Response, error: MfaVerificationError) {
+  if (error.details.retryAfterSeconds) {
+    res.setHeader("Retry-After", String(error.details.retryAfterSeconds));
+  }
+  return res.status(error.statusCode).json({
+    error: error.message,
+    code: error.code,
+    ...error.details,
+  });
+}
+
+/**
+ * @swagger
+ * /api/jit-access/{id}/mfa-challenge:
+ *   post:
+ *     tags: [JIT Access]
+ *     summary: Request an MFA challenge to activate a JIT session
+ *     description: |
+ *       Issues a single-use challenge valid for 5 minutes. The response lists the
+ *       enrolled methods and, when a security key is enrolled, the WebAuthn
+ *       request options for navigator.credentials.get().
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: JIT session ID
+ *     responses:
+ *       200:
+ *         description: Challenge issued
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       409:
+ *         description: No MFA factor enrolled
+ *       429:
+ *         description: Too many failed attempts
+ *       500:
+ *         description: Server error
+ */
+router.post("/:id/mfa-challenge", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { tenantId, userId } = req.user!;
+
+    const service = new JitAccessService(tenantId);
+    const challenge = await service.createMfaChallenge(req.params.id, userId);
+
+    res.json(challenge);
+  } catch (error) {
+    if (error instanceof MfaVerificationError) {
+      return sendMfaError(res, error);
+    }
+    console.error("[JitAccess] Error creating MFA challenge:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Failed to create MFA challenge"
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/jit-access/{id}/verify-mfa:
  *   post:
  *     tags: [JIT Access]
  *     summary: Verify MFA and activate JIT session
- *     description: Verify multi-factor authentication and activate the JIT session
+ *     description: |
+ *       Answer a challenge from /mfa-challenge with either a TOTP code or a WebAuthn
+ *       assertion. Failed attempts are audited and rate limited; a challenge allows
+ *       5 attempts and 10 failures in 15 minutes lock the user out.
  *     security:
  *       - BearerAuth: []
  *     parameters:
@@ -425,27 +497,79 @@ router.post("/:id/review", async (req: Request, res: Response) => {
  *           type: string
  *           format: uuid
  *         description: JIT session ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeId
+ *               - type
+ *             properties:
+ *               challengeId:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [totp, webauthn]
+ *               code:
+ *                 type: string
+ *                 description: 6-digit TOTP code (type totp)
+ *               credential:
+ *                 type: object
+ *                 description: PublicKeyCredential with base64url fields (type webauthn)
  *     responses:
  *       200:
  *         description: MFA verified and session activated
+ *       400:
+ *         description: Invalid code/assertion or expired challenge
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
+ *       429:
+ *         description: Too many failed attempts
  *       500:
  *         description: Server error
  */
-router.post("/:id/verify-mfa", async (req: Request, res: Response) => {
+router.post("/:id/verify-mfa", authenticateToken, mfaVerificationLimiter, async (req: Request, res: Response) => {
+  const { tenantId, userId } = req.user!;
+  const method = req.body?.type;
+
   try {
-    const tenantId = req.user?.tenantId;
-    const userId = req.user?.id;
-    if (!tenantId || !userId) {
-      return res.status(401).json({ error: "Unauthorized" });
+    if (method !== "totp" && method !== "webauthn") {
+      return res.status(400).json({ error: "type must be one of: totp, webauthn" });
     }
 
     const service = new JitAccessService(tenantId);
-    await service.verifyMfaAndActivate(req.params.id, userId);
-
-    res.json({ message: "MFA verified, JIT session activated" });
+    const result = await service.verifyMfaAndActivate(req.params.id, userId, req.body);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.MFA_VERIFY,
+        resourceType: ResourceTypes.JIT_ACCESS_SESSION,
+        resourceId: req.params.id,
+        description: `Activated JIT session with ${result.method} MFA`,
+        metadata: { method: result.method, factorId: result.factorId }
+      },
+      req
+    );
+
+    res.json({ message: "MFA verified, JIT session activated", method: result.method });
   } catch (error) {
+    if (error instanceof MfaVerificationError) {
+      await auditLogger.logActivity(
+        auditLogger.createUserContext(req),
+        {
+          action: AuditActions.MFA_VERIFY_FAILED,
+          resourceType: ResourceTypes.JIT_ACCESS_SESSION,
+          resourceId: req.params.id,
+          description: `JIT session MFA verification failed: ${error.message}`,
+          metadata: { method, code: error.code, ...error.details }
+        },
+        req
+      );
+      return sendMfaError(res, error);
+    }
     console.error("[JitAccess] Error verifying MFA:", error);
     res.status(500).json({
       error: error instanceof Error ? error.message : "Failed to verify MFA"
@@ -0,0 +1,387 @@
+/**
+ * MFA Factor Routes (Phase 6.2)
+ *
+ * Lets users manage the second factors used for login and step-up verification:
+ * - List enrolled factors and login MFA status
+ * - Enroll an authenticator app (TOTP) and confirm it with a first code
+ * - Register a WebAuthn security key or platform authenticator
+ * - Regenerate one-time recovery codes
+ * - Remove a factor
+ * - Reset another user's login MFA (admins, for lost devices)
+ */
+
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { authenticateToken, requireRole } from "../middleware/auth.middleware";
+import { mfaVerificationLimiter, sensitiveOperationLimiter } from "../middleware/security.middleware";
+import { ROLES, migrateRole } from "../services/auth";
+import { MfaService, MfaVerificationError } from "../services/mfa/mfa-service";
+import { auditLogger, AuditActions, ResourceTypes } from "../audit-logger";
+
+const router = Router();
+
+function sendMfaError(res: Response, error: MfaVerificationError) {
+  return res.status(error.statusCode).json({ message: error.message, code: error.code, ...error.details });
+}
+
+/**
+ * @swagger
+ * /api/mfa/factors:
+ *   get:
+ *     summary: List the current user's MFA factors
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Factors retrieved successfully
+ */
+router.get("/factors", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const mfa = new MfaService(req.user!.tenantId);
+    res.json(await mfa.getFactors(req.user!.userId));
+  } catch (error) {
+    console.error('Failed to fetch MFA factors:', error);
+    res.status(500).json({ message: "Failed to fetch MFA factors" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/mfa/status:
+ *   get:
+ *     summary: Get the current user's login MFA status
+ *     description: Whether an authenticator app is enrolled, whether the organization requires MFA for the user's role, and how many recovery codes remain.
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Status retrieved successfully
+ */
+router.get("/status", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const mfa = new MfaService(req.user!.tenantId);
+    res.json(await mfa.getLoginMfaStatus(req.user!.userId));
+  } catch (error) {
+    console.error('Failed to fetch MFA status:', error);
+    res.status(500).json({ message: "Failed to fetch MFA status" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/mfa/factors/totp:
+ *   post:
+ *     summary: Start authenticator app (TOTP) enrollment
+ *     description: Returns the shared secret and otpauth:// URI to show as a QR code. The factor stays pending until confirmed.
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Enrollment started
+ */
+router.post("/factors/totp", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user = await storage.getUser(req.user!.userId);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const mfa = new MfaService(req.user!.tenantId);
+    const enrollment = await mfa.startTotpEnrollment({ id: user.id, email: user.email }, req.body?.name);
+
+    res.status(201).json(enrollment);
+  } catch (error) {
+    console.error('Failed to start TOTP enrollment:', error);
+    res.status(500).json({ message: "Failed to start TOTP enrollment" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/mfa/factors/totp/{id}/verify:
+ *   post:
+ *     summary: Confirm TOTP enrollment with a code from the authenticator app
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Factor activated. Includes recoveryCodes when this is the user's first authenticator app.
+ *       400:
+ *         description: Invalid code
+ */
+router.post("/factors/totp/:id/verify", authenticateToken, mfaVerificationLimiter, async (req: Request, res: Response) => {
+  try {
+    const mfa = new MfaService(req.user!.tenantId);
+    const factor = await mfa.confirmTotpEnrollment(req.user!.userId, req.params.id, String(req.body?.code || ''));
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.MFA_ENROLL,
+        resourceType: ResourceTypes.MFA_FACTOR,
+        resourceId: factor.id,
+        description: `Enrolled authenticator app "${factor.name}"`,
+        afterState: factor
+      },
+      req
+    );
+
+    const recoveryCodes = await mfa.ensureRecoveryCodes(req.user!.userId);
+    res.json({ ...factor, recoveryCodes });
+  } catch (error) {
+    if (error instanceof MfaVerificationError) {
+      return sendMfaError(res, error);
+    }
+    console.error('Failed to verify TOTP enrollment:', error);
+    res.status(500).json({ message: "Failed to verify TOTP enrollment" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/mfa/factors/webauthn/options:
+ *   post:
+ *     summary: Get WebAuthn registration options
+ *     description: Returns PublicKeyCredentialCreationOptions (binary fields base64url-encoded) for navigator.credentials.create().
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Registration options issued
+ */
+router.post("/factors/webauthn/options", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user = await storage.getUser(req.user!.userId);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const mfa = new MfaService(req.user!.tenantId);
+    const registration = await mfa.startWebAuthnRegistration({
+      id: user.id,
+      email: user.email,
+      name: `${user.firstName} ${user.lastName}`.trim(),
+    });
+
+    res.json(registration);
+  } catch (error) {
+    console.error('Failed to start WebAuthn registration:', error);
+    res.status(500).json({ message: "Failed to start WebAuthn registration" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/mfa/factors/webauthn:
+ *   post:
+ *     summary: Complete WebAuthn registration
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeId
+ *               - credential
+ *             properties:
+ *               challengeId:
+ *                 type: string
+ *               credential:
+ *                 type: object
+ *               name:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Security key registered
+ *       400:
+ *         description: Invalid registration response
+ */
+router.post("/factors/webauthn", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { challengeId, credential, name } = req.body || {};
+
+    const mfa = new MfaService(req.user!.tenantId);
+    const factor = await mfa.finishWebAuthnRegistration(req.user!.userId, challengeId, credential, name);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.MFA_ENROLL,
+        resourceType: ResourceTypes.MFA_FACTOR,
+        resourceId: factor.id,
+        description: `Registered security key "${factor.name}"`,
+        afterState: factor
+      },
+      req
+    );
+
+    res.status(201).json(factor);
+  } catch (error) {
+    if (error instanceof MfaVerificationError) {
+      return sendMfaError(res, error);
+    }
+    console.error('Failed to register WebAuthn credential:', error);
+    res.status(500).json({ message: "Failed to register security key" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/mfa/recovery-codes:
+ *   post:
+ *     summary: Regenerate recovery codes
+ *     description: Invalidates any existing recovery codes. The new codes are only returned in this response.
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: New recovery codes issued
+ *       409:
+ *         description: No authenticator app enrolled
+ */
+router.post("/recovery-codes", authenticateToken, sensitiveOperationLimiter, async (req: Request, res: Response) => {
+  try {
+    const mfa = new MfaService(req.user!.tenantId);
+    const recoveryCodes = await mfa.regenerateRecoveryCodes(req.user!.userId);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.MFA_RECOVERY_CODES_REGENERATE,
+        resourceType: ResourceTypes.USER,
+        resourceId: req.user!.userId,
+        description: "Regenerated MFA recovery codes",
+        metadata: { count: recoveryCodes.length }
+      },
+      req
+    );
+
+    res.json({ recoveryCodes });
+  } catch (error) {
+    if (error instanceof MfaVerificationError) {
+      return sendMfaError(res, error);
+    }
+    console.error('Failed to regenerate recovery codes:', error);
+    res.status(500).json({ message: "Failed to regenerate recovery codes" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/mfa/factors/{id}:
+ *   delete:
+ *     summary: Remove an MFA factor
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: Factor removed
+ *       404:
+ *         description: Factor not found
+ *       409:
+ *         description: Organization policy requires MFA for the user's role
+ */
+router.delete("/factors/:id", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const mfa = new MfaService(req.user!.tenantId);
+    await mfa.removeFactor(req.user!.userId, req.params.id);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.MFA_REMOVE,
+        resourceType: ResourceTypes.MFA_FACTOR,
+        resourceId: req.params.id,
+        description: "Removed MFA factor"
+      },
+      req
+    );
+
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof MfaVerificationError) {
+      return sendMfaError(res, error);
+    }
+    console.error('Failed to remove MFA factor:', error);
+    res.status(500).json({ message: "Failed to remove MFA factor" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/mfa/users/{userId}/reset:
+ *   post:
+ *     summary: Reset a user's login MFA (Admin only)
+ *     description: Removes the user's authenticator apps and recovery codes so they can enroll again at next login.
+ *     tags: [MFA]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Login MFA reset
+ *       404:
+ *         description: User not found
+ */
+router.post("/users/:userId/reset", authenticateToken, requireRole("admin"), sensitiveOperationLimiter, async (req: Request, res: Response) => {
+  try {
+    const target = await storage.getUser(req.params.userId);
+    if (!target || target.tenantId !== req.user!.tenantId) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (migrateRole(target.role) === ROLES.SUPER_ADMIN && migrateRole(req.user!.role) !== ROLES.SUPER_ADMIN) {
+      return res.status(403).json({ message: "Only a super admin can reset a super admin's MFA" });
+    }
+
+    const mfa = new MfaService(req.user!.tenantId);
+    const removed = await mfa.resetLoginMfa(target.id);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.MFA_RESET,
+        resourceType: ResourceTypes.USER,
+        resourceId: target.id,
+        description: `Reset login MFA for ${target.email}`,
+        metadata: { authenticatorsRemoved: removed }
+      },
+      req
+    );
+
+    res.json({ message: "MFA reset", authenticatorsRemoved: removed });
+  } catch (error) {
+    console.error('Failed to reset MFA:', error);
+    res.status(500).json({ message: "Failed to reset MFA" });
+  }
+});
+
+export default router;
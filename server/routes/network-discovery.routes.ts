@@ -0,0 +1,564 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { authenticateToken, requireRole } from "../middleware/auth.middleware";
+import { auditLogger, AuditActions, ResourceTypes } from "../audit-logger";
+import { encrypt } from "../services/encryption";
+import { networkScanService, NetworkScanError } from "../services/discovery/network-scan-service";
+import {
+  createCredentialProfileSchema,
+  createNetworkScanJobSchema,
+  importDiscoveredDevicesSchema,
+  type CredentialProfile,
+  type DiscoveryJob,
+} from "@shared/schema";
+import { z } from "zod";
+
+const router = Router();
+
+const SECRET_FIELDS = ["communityString", "snmpV3AuthPassword", "snmpV3PrivPassword"] as const;
+
+const updateCredentialProfileSchema = createCredentialProfileSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+type CredentialProfileInput = z.infer<typeof updateCredentialProfileSchema>;
+
+function toProfileResponse(profile: CredentialProfile) {
+  const { communityString, snmpV3AuthPassword, snmpV3PrivPassword, ...rest } = profile;
+  return {
+    ...rest,
+    hasCommunityString: !!communityString,
+    hasAuthPassword: !!snmpV3AuthPassword,
+    hasPrivPassword: !!snmpV3PrivPassword,
+  };
+}
+
+/**
+ * Check that the credentials needed for the SNMP version and security level are present.
+ * `existing` supplies secrets that are kept when an update omits them.
+ */
+function validateProfileCredentials(data: CredentialProfileInput, existing?: CredentialProfile): string | null {
+  const has = (field: typeof SECRET_FIELDS[number]) => !!data[field] || !!existing?.[field];
+
+  if (data.snmpVersion === "v2c") {
+    return has("communityString") ? null : "A community string is required for SNMP v2c";
+  }
+
+  if (!data.snmpV3Username) return "A username is required for SNMP v3";
+  const level = data.snmpV3SecurityLevel ?? "noAuthNoPriv";
+  if (level !== "noAuthNoPriv" && (!data.snmpV3AuthProtocol || !has("snmpV3AuthPassword"))) {
+    return "An authentication protocol and password are required for this security level";
+  }
+  if (level === "authPriv" && (!data.snmpV3PrivProtocol || !has("snmpV3PrivPassword"))) {
+    return "A privacy protocol and password are required for authPriv";
+  }
+  return null;
+}
+
+function encryptSecrets<T extends CredentialProfileInput>(data: T): T {
+  const result = { ...data };
+  SECRET_FIELDS.forEach(field => {
+    if (result[field]) {
+      result[field] = encrypt(result[field]!);
+    } else {
+      delete result[field]; // Keep the stored secret
+    }
+  });
+  return result;
+}
+
+/**
+ * A server scan whose process went away (e.g. restart) can never finish; report it as failed
+ */
+async function reconcileJob(job: DiscoveryJob): Promise<DiscoveryJob> {
+  if (job.scanMode !== "server" || job.status !== "running" || networkScanService.isRunning(job.id)) {
+    return job;
+  }
+  const updated = await storage.updateDiscoveryJob(job.id, job.tenantId, {
+    status: "failed",
+    errorLog: "Scan was interrupted before it finished",
+    completedAt: new Date(),
+  });
+  return updated ?? job;
+}
+
+/**
+ * @swagger
+ * /api/discovery/jobs:
+ *   get:
+ *     summary: List network discovery jobs
+ *     tags: [Network Discovery]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Most recent discovery jobs for the tenant
+ */
+router.get("/jobs", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const jobs = await storage.getDiscoveryJobs(req.user!.tenantId);
+    res.json(await Promise.all(jobs.map(reconcileJob)));
+  } catch (error) {
+    console.error("Failed to fetch discovery jobs:", error);
+    res.status(500).json({ message: "Failed to fetch discovery jobs" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/discovery/jobs:
+ *   post:
+ *     summary: Start a server-side network scan
+ *     description: |
+ *       Scans the site's networkRanges (or the given ranges) with the tenant's SNMP
+ *       credential profiles, falling back to TCP port fingerprinting. Progress is
+ *       reported on the job while it runs.
+ *     tags: [Network Discovery]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               siteId:
+ *                 type: string
+ *               networkRanges:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               credentialProfileIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               snmpPort:
+ *                 type: integer
+ *                 default: 161
+ *               ports:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *               timeoutMs:
+ *                 type: integer
+ *               concurrency:
+ *                 type: integer
+ *     responses:
+ *       201:
+ *         description: Scan started
+ *       400:
+ *         description: Invalid ranges or credential profiles
+ *       404:
+ *         description: Site not found
+ */
+router.post("/jobs", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const data = createNetworkScanJobSchema.parse(req.body);
+
+    const user = await storage.getUser(req.user!.userId);
+    const name = user ? `${user.firstName ?? ""} ${user.lastName ?? ""}`.trim() || user.email : req.user!.email;
+
+    const job = await networkScanService.startScan(tenantId, { userId: req.user!.userId, name }, data);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.CREATE,
+        resourceType: ResourceTypes.DISCOVERY_JOB,
+        resourceId: job.id,
+        description: `Started network scan ${job.jobId} of ${job.networkRange}`,
+        afterState: { jobId: job.jobId, networkRange: job.networkRange, totalHosts: job.totalHosts }
+      },
+      req
+    );
+
+    res.status(201).json({ success: true, job });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    if (error instanceof NetworkScanError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error("Failed to start network scan:", error);
+    res.status(500).json({ message: "Failed to start network scan" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/discovery/jobs/{id}:
+ *   get:
+ *     summary: Get a discovery job with its discovered devices
+ *     tags: [Network Discovery]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: Job id or short job code
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job progress and devices found so far
+ *       404:
+ *         description: Job not found
+ */
+router.get("/jobs/:id", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const existing = await storage.getDiscoveryJob(req.params.id, tenantId);
+    if (!existing) {
+      return res.status(404).json({ message: "Discovery job not found" });
+    }
+
+    const job = await reconcileJob(existing);
+    const devices = await storage.getDiscoveredDevices(job.id, tenantId);
+    res.json({ job, devices });
+  } catch (error) {
+    console.error("Failed to fetch discovery job:", error);
+    res.status(500).json({ message: "Failed to fetch discovery job" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/discovery/jobs/{id}/cancel:
+ *   post:
+ *     summary: Cancel a running network scan
+ *     description: Hosts already being probed finish; devices found so far are kept
+ *     tags: [Network Discovery]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Cancellation requested
+ *       404:
+ *         description: Job not found
+ *       409:
+ *         description: Job is not running
+ */
+router.post("/jobs/:id/cancel", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const job = await storage.getDiscoveryJob(req.params.id, req.user!.tenantId);
+    if (!job) {
+      return res.status(404).json({ message: "Discovery job not found" });
+    }
+    if (!networkScanService.cancelScan(job.id)) {
+      return res.status(409).json({ message: "Discovery job is not running" });
+    }
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.UPDATE,
+        resourceType: ResourceTypes.DISCOVERY_JOB,
+        resourceId: job.id,
+        description: `Cancelled network scan ${job.jobId}`
+      },
+      req
+    );
+
+    res.json({ message: "Cancellation requested" });
+  } catch (error) {
+    console.error("Failed to cancel discovery job:", error);
+    res.status(500).json({ message: "Failed to cancel discovery job" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/discovery/import:
+ *   post:
+ *     summary: Import reviewed discovered devices into assets
+ *     description: Devices that match an existing asset by serial, MAC or IP are skipped unless mergeDuplicates is set
+ *     tags: [Network Discovery]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [jobId, deviceIds]
+ *             properties:
+ *               jobId:
+ *                 type: string
+ *               deviceIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               siteId:
+ *                 type: string
+ *               siteName:
+ *                 type: string
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               mergeDuplicates:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Imported, merged and skipped devices
+ *       404:
+ *         description: Job not found
+ */
+router.post("/import", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const data = importDiscoveredDevicesSchema.parse({
+      ...req.body,
+      siteName: req.body?.siteName ?? undefined,
+    });
+
+    const result = await networkScanService.importDevices(tenantId, data);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.DATA_IMPORT,
+        resourceType: ResourceTypes.ASSET,
+        resourceId: data.jobId,
+        description: `Imported ${result.imported.length} discovered devices (${result.merged.length} merged, ${result.skipped.length} skipped)`,
+        afterState: result
+      },
+      req
+    );
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    if (error instanceof NetworkScanError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error("Failed to import discovered devices:", error);
+    res.status(500).json({ message: "Failed to import discovered devices" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/discovery/credential-profiles:
+ *   get:
+ *     summary: List SNMP credential profiles
+ *     description: Secrets are never returned; has* flags show which are set
+ *     tags: [Network Discovery]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Credential profiles in the order scans try them
+ */
+router.get("/credential-profiles", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const profiles = await storage.getCredentialProfiles(req.user!.tenantId);
+    res.json(profiles.map(toProfileResponse));
+  } catch (error) {
+    console.error("Failed to fetch credential profiles:", error);
+    res.status(500).json({ message: "Failed to fetch credential profiles" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/discovery/credential-profiles:
+ *   post:
+ *     summary: Create an SNMP credential profile
+ *     tags: [Network Discovery]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, snmpVersion]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               snmpVersion:
+ *                 type: string
+ *                 enum: [v2c, v3]
+ *               communityString:
+ *                 type: string
+ *               snmpV3Username:
+ *                 type: string
+ *               snmpV3SecurityLevel:
+ *                 type: string
+ *                 enum: [noAuthNoPriv, authNoPriv, authPriv]
+ *               priority:
+ *                 type: integer
+ *     responses:
+ *       201:
+ *         description: Credential profile created
+ *       400:
+ *         description: Missing credentials for the SNMP version
+ */
+router.post("/credential-profiles", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const data = createCredentialProfileSchema.parse(req.body);
+
+    const credentialError = validateProfileCredentials(data);
+    if (credentialError) {
+      return res.status(400).json({ message: credentialError });
+    }
+
+    const profile = await storage.createCredentialProfile({ ...encryptSecrets(data), tenantId });
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.CREATE,
+        resourceType: ResourceTypes.CREDENTIAL_PROFILE,
+        resourceId: profile.id,
+        description: `Created SNMP credential profile: ${profile.name}`,
+        afterState: toProfileResponse(profile)
+      },
+      req
+    );
+
+    res.status(201).json(toProfileResponse(profile));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Failed to create credential profile:", error);
+    res.status(500).json({ message: "Failed to create credential profile" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/discovery/credential-profiles/{id}:
+ *   put:
+ *     summary: Update an SNMP credential profile
+ *     description: Omitted secrets keep their stored values
+ *     tags: [Network Discovery]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Credential profile updated
+ *       404:
+ *         description: Credential profile not found
+ */
+router.put("/credential-profiles/:id", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const existing = await storage.getCredentialProfile(req.params.id, tenantId);
+    if (!existing) {
+      return res.status(404).json({ message: "Credential profile not found" });
+    }
+
+    const data = updateCredentialProfileSchema.parse(req.body);
+    const merged: CredentialProfileInput = {
+      snmpVersion: existing.snmpVersion as "v2c" | "v3",
+      snmpV3Username: existing.snmpV3Username ?? undefined,
+      snmpV3AuthProtocol: (existing.snmpV3AuthProtocol as "SHA" | "MD5" | null) ?? undefined,
+      snmpV3PrivProtocol: (existing.snmpV3PrivProtocol as "AES" | "DES" | null) ?? undefined,
+      snmpV3SecurityLevel: (existing.snmpV3SecurityLevel as "noAuthNoPriv" | "authNoPriv" | "authPriv" | null) ?? undefined,
+      ...data,
+    };
+
+    const credentialError = validateProfileCredentials(merged, existing);
+    if (credentialError) {
+      return res.status(400).json({ message: credentialError });
+    }
+
+    const profile = await storage.updateCredentialProfile(existing.id, tenantId, encryptSecrets(data));
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.UPDATE,
+        resourceType: ResourceTypes.CREDENTIAL_PROFILE,
+        resourceId: existing.id,
+        description: `Updated SNMP credential profile: ${existing.name}`,
+        beforeState: toProfileResponse(existing),
+        afterState: profile ? toProfileResponse(profile) : undefined
+      },
+      req
+    );
+
+    res.json(profile ? toProfileResponse(profile) : null);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Failed to update credential profile:", error);
+    res.status(500).json({ message: "Failed to update credential profile" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/discovery/credential-profiles/{id}:
+ *   delete:
+ *     summary: Delete an SNMP credential profile
+ *     tags: [Network Discovery]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Credential profile deleted
+ *       404:
+ *         description: Credential profile not found
+ */
+router.delete("/credential-profiles/:id", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const existing = await storage.getCredentialProfile(req.params.id, tenantId);
+    if (!existing) {
+      return res.status(404).json({ message: "Credential profile not found" });
+    }
+
+    await storage.deleteCredentialProfile(existing.id, tenantId);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.DELETE,
+        resourceType: ResourceTypes.CREDENTIAL_PROFILE,
+        resourceId: existing.id,
+        description: `Deleted SNMP credential profile: ${existing.name}`,
+        beforeState: toProfileResponse(existing)
+      },
+      req
+    );
+
+    res.json({ message: "Credential profile deleted" });
+  } catch (error) {
+    console.error("Failed to delete credential profile:", error);
+    res.status(500).json({ message: "Failed to delete credential profile" });
+  }
+});
+
+export default router;
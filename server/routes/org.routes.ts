@@ -32,6 +32,7 @@ router.get("/settings", authenticateToken, async (req: Request, res: Response) =
       dateFormat: tenant.dateFormat,
       autoRecommendations: tenant.autoRecommendations,
       dataRetentionDays: tenant.dataRetentionDays,
+      requireMFA: tenant.requireMFA ?? false,
       createdAt: tenant.createdAt,
       updatedAt: tenant.updatedAt,
     });
@@ -88,6 +89,7 @@ router.patch("/settings", authenticateToken, requireRole("admin"), async (req: R
       dateFormat: updatedTenant.dateFormat,
       autoRecommendations: updatedTenant.autoRecommendations,
       dataRetentionDays: updatedTenant.dataRetentionDays,
+      requireMFA: updatedTenant.requireMFA ?? false,
       createdAt: updatedTenant.createdAt,
       updatedAt: updatedTenant.updatedAt,
     });
@@ -6,6 +6,7 @@
  * - View policy execution history
  * - Use pre-built templates
  * - Test policies with sample data
+ * - Simulate policies against historical events
  * - Manage policy approvals
  *
  * Target: 50% reduction in IT toil through automation
@@ -15,9 +16,32 @@ import { Router, Request, Response } from "express";
 import { authenticateToken, requireRole } from "../middleware/auth.middleware";
 import { policyEngine } from "../services/policy/engine";
 import { storage } from "../storage";
+import { auditLogger, AuditActions } from "../audit-logger";
+import { parseConditions } from "../services/policy/conditions";
+import { PolicySimulator, type SimulatablePolicy } from "../services/policy/simulator";
+import { isPolicyEvent, validateEventPayload } from "../services/policy/event-schemas";
+import type { AutomatedPolicy } from "@shared/schema";
 
 const router = Router();
 
+/**
+ * Reject malformed condition documents before they are persisted.
+ * Returns true when a 400 response has been sent.
+ */
+function rejectInvalidConditions(conditions: unknown, res: Response): boolean {
+  const { issues } = parseConditions(conditions);
+  if (issues.length === 0) {
+    return false;
+  }
+
+  res.status(400).json({
+    message: `Invalid conditions: ${issues[0].path}: ${issues[0].message}`,
+    code: "VALIDATION_ERROR",
+    errors: issues
+  });
+  return true;
+}
+
 /**
  * @swagger
  * /api/policies:
@@ -77,7 +101,8 @@ router.post("/", authenticateToken, requireRole("it-manager"), async (req: Reque
       'oauth_risky_permission',
       'user_offboarded',
       'renewal_approaching',
-      'budget_exceeded'
+      'budget_exceeded',
+      'anomaly_detected'
     ];
 
     if (!validTriggers.includes(triggerType)) {
@@ -100,6 +125,10 @@ router.post("/", authenticateToken, requireRole("it-manager"), async (req: Reque
       }
     }
 
+    if (rejectInvalidConditions(conditions, res)) {
+      return;
+    }
+
     const policy = await storage.createAutomatedPolicy({
       tenantId: req.user!.tenantId,
       name,
@@ -162,6 +191,10 @@ router.get("/:id", authenticateToken, requireRole("it-manager"), async (req: Req
  */
 router.put("/:id", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
   try {
+    if ('conditions' in req.body && rejectInvalidConditions(req.body.conditions, res)) {
+      return;
+    }
+
     const updated = await storage.updateAutomatedPolicy(req.params.id, req.user!.tenantId, req.body);
 
     if (!updated) {
@@ -303,6 +336,49 @@ router.get("/:id/executions", authenticateToken, requireRole("it-manager"), asyn
   }
 });
 
+/**
+ * @swagger
+ * /api/policies/executions/{executionId}/rollback:
+ *   post:
+ *     summary: Roll back the reversible side effects of a policy execution
+ *     tags: [Policies]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rollback completed (irreversible effects are listed as skipped)
+ *       404:
+ *         description: Execution not found
+ */
+router.post("/executions/:executionId/rollback", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const result = await policyEngine.rollbackExecution(req.params.executionId, req.user!.tenantId, req.user!.userId);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.UPDATE,
+        resourceType: "policy_execution",
+        resourceId: req.params.executionId,
+        description: `Rolled back policy execution (${result.rolledBack} change(s) reverted, ${result.skipped.length} skipped)`,
+        afterState: result
+      },
+      req
+    );
+
+    res.json(result);
+  } catch (error: any) {
+    if (error.message === 'Execution not found') {
+      return res.status(404).json({ message: "Execution not found" });
+    }
+    if (error.message === 'Execution has already been rolled back') {
+      return res.status(409).json({ message: error.message });
+    }
+    console.error('Failed to roll back execution:', error);
+    res.status(500).json({ message: "Failed to roll back execution" });
+  }
+});
+
 /**
  * @swagger
  * /api/policies/{id}/stats:
@@ -385,6 +461,10 @@ router.post("/templates/:id/use", authenticateToken, requireRole("it-manager"),
       return res.status(404).json({ message: "Template not found" });
     }
 
+    if (rejectInvalidConditions(overrides.conditions ?? template.conditions, res)) {
+      return;
+    }
+
     const policy = await storage.createAutomatedPolicy({
       tenantId: req.user!.tenantId,
       name: name || template.name,
@@ -423,8 +503,17 @@ router.post("/test-event", authenticateToken, requireRole("admin"), async (req:
   try {
     const { eventType, eventData } = req.body;
 
+    if (typeof eventType !== 'string' || !isPolicyEvent(eventType)) {
+      return res.status(400).json({ message: `Unknown event type: ${eventType}` });
+    }
+
+    const validation = validateEventPayload(eventType, { ...eventData, tenantId: req.user!.tenantId });
+    if (!validation.success) {
+      return res.status(400).json({ message: `Invalid payload for event ${eventType}: ${validation.error}`, code: "VALIDATION_ERROR" });
+    }
+
     const eventSystem = policyEngine.getEventSystem();
-    eventSystem.emit(eventType, { ...eventData, tenantId: req.user!.tenantId });
+    eventSystem.emit(eventType, validation.data);
 
     res.json({ message: "Event emitted successfully" });
   } catch (error) {
@@ -433,4 +522,96 @@ router.post("/test-event", authenticateToken, requireRole("admin"), async (req:
   }
 });
 
+/**
+ * @swagger
+ * /api/policies/simulate:
+ *   post:
+ *     summary: Dry-run a policy against historical events
+ *     description: |
+ *       Replays the last N days of stored events (app discoveries, policy execution
+ *       triggers, anomalies, contract renewals) through the policy with every action
+ *       handler in no-op mode. Accepts a saved policy (policyId), a draft policy, or
+ *       a saved policy with draft overrides. Nothing is executed or persisted.
+ *     tags: [Policies]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               policyId:
+ *                 type: string
+ *               policy:
+ *                 type: object
+ *                 description: Draft policy, or overrides applied to the saved policy
+ *               days:
+ *                 type: integer
+ *                 default: 30
+ *                 minimum: 1
+ *                 maximum: 365
+ *     responses:
+ *       200:
+ *         description: Per-event simulation report
+ *       400:
+ *         description: Invalid policy or window
+ *       404:
+ *         description: Policy not found
+ */
+router.post("/simulate", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const { policyId, policy: draft, days = 30 } = req.body;
+
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      return res.status(400).json({ message: "days must be an integer between 1 and 365" });
+    }
+
+    if (!policyId && !draft) {
+      return res.status(400).json({ message: "policyId or policy is required" });
+    }
+
+    let saved: AutomatedPolicy | undefined;
+    if (policyId) {
+      saved = await storage.getAutomatedPolicy(policyId, req.user!.tenantId);
+      if (!saved) {
+        return res.status(404).json({ message: "Policy not found" });
+      }
+    }
+
+    // Draft fields override the saved policy's
+    const overrides: Partial<SimulatablePolicy> = draft || {};
+    const triggerType = overrides.triggerType ?? saved?.triggerType;
+    const actions = overrides.actions ?? saved?.actions;
+
+    if (!triggerType || !Array.isArray(actions)) {
+      return res.status(400).json({ message: "triggerType and actions are required" });
+    }
+
+    const policy: SimulatablePolicy = {
+      id: saved?.id,
+      name: overrides.name ?? saved?.name,
+      triggerType,
+      conditions: overrides.conditions !== undefined ? overrides.conditions : saved?.conditions,
+      actions,
+      cooldownMinutes: overrides.cooldownMinutes !== undefined ? overrides.cooldownMinutes : saved?.cooldownMinutes,
+      maxExecutionsPerDay: overrides.maxExecutionsPerDay !== undefined ? overrides.maxExecutionsPerDay : saved?.maxExecutionsPerDay,
+      createdBy: saved?.createdBy ?? req.user!.userId,
+    };
+
+    if (rejectInvalidConditions(policy.conditions, res)) {
+      return;
+    }
+
+    const simulator = new PolicySimulator(req.user!.tenantId);
+    const report = await simulator.simulate(policy, days);
+
+    res.json(report);
+  } catch (error) {
+    console.error('Failed to simulate policy:', error);
+    res.status(500).json({ message: "Failed to simulate policy" });
+  }
+});
+
 export default router;
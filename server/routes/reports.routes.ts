@@ -80,6 +80,18 @@ router.get("/types", authenticateToken, async (req: Request, res: Response) => {
         name: 'Executive Summary',
         description: 'High-level overview combining security, compliance, and cost metrics',
         category: 'Executive'
+      },
+      {
+        type: 'depreciation_register',
+        name: 'Depreciation Register',
+        description: 'Opening and closing book values, depreciation charge and disposal write-offs for the period',
+        category: 'Finance'
+      },
+      {
+        type: 'coverage_expiry',
+        name: 'Expiring Coverage',
+        description: 'Hardware warranties and AMCs ending or lapsed as of the end date, grouped by vendor for renewal quotes',
+        category: 'Assets'
       }
     ];
 
@@ -109,7 +121,7 @@ router.get("/types", authenticateToken, async (req: Request, res: Response) => {
  *             properties:
  *               type:
  *                 type: string
- *                 enum: [security_audit, compliance_audit, access_review, license_usage, cost_analysis, vendor_risk, user_activity, shadow_it, executive_summary]
+ *                 enum: [security_audit, compliance_audit, access_review, license_usage, cost_analysis, vendor_risk, user_activity, shadow_it, executive_summary, depreciation_register, coverage_expiry]
  *               title:
  *                 type: string
  *               startDate:
@@ -144,7 +156,8 @@ router.post("/generate", authenticateToken, async (req: Request, res: Response)
     const validTypes: ReportType[] = [
       'security_audit', 'compliance_audit', 'access_review',
       'license_usage', 'cost_analysis', 'vendor_risk',
-      'user_activity', 'shadow_it', 'executive_summary'
+      'user_activity', 'shadow_it', 'executive_summary',
+      'depreciation_register', 'coverage_expiry'
     ];
 
     if (!validTypes.includes(type)) {
@@ -0,0 +1,153 @@
+import { Router, Request, Response } from "express";
+import crypto from "crypto";
+import { storage } from "../storage";
+import { authenticateToken, requireRole } from "../middleware/auth.middleware";
+import { auditLogger, AuditActions, ResourceTypes } from "../audit-logger";
+import { hashScimToken } from "../services/scim/scim-service";
+import type { ScimToken } from "@shared/schema";
+import { z } from "zod";
+
+const router = Router();
+
+const createScimTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  expiresInDays: z.number().int().min(1).max(730).optional(),
+});
+
+function redact(token: ScimToken) {
+  const { tokenHash, ...rest } = token;
+  return rest;
+}
+
+/**
+ * @swagger
+ * /api/scim-tokens:
+ *   get:
+ *     summary: List SCIM provisioning tokens
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tokens for the tenant (without secrets)
+ */
+router.get("/", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const tokens = await storage.getScimTokens(req.user!.tenantId);
+    res.json(tokens.map(redact));
+  } catch (error) {
+    console.error('Failed to fetch SCIM tokens:', error);
+    res.status(500).json({ message: "Failed to fetch SCIM tokens" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/scim-tokens:
+ *   post:
+ *     summary: Issue a SCIM provisioning token
+ *     description: The plaintext token is returned once and cannot be retrieved again
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               expiresInDays:
+ *                 type: integer
+ *     responses:
+ *       201:
+ *         description: Token created
+ *       400:
+ *         description: Invalid input
+ */
+router.post("/", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const { name, expiresInDays } = createScimTokenSchema.parse(req.body);
+    const plaintext = `scim_${crypto.randomBytes(32).toString("base64url")}`;
+
+    const token = await storage.createScimToken({
+      tenantId: req.user!.tenantId,
+      name,
+      tokenHash: hashScimToken(plaintext),
+      tokenPrefix: plaintext.slice(0, 12),
+      createdBy: req.user!.userId,
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+    });
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.CREATE,
+        resourceType: ResourceTypes.SCIM_TOKEN,
+        resourceId: token.id,
+        description: `Issued SCIM token: ${token.name}`,
+        afterState: auditLogger.sanitizeForLogging(redact(token))
+      },
+      req
+    );
+
+    res.status(201).json({ ...redact(token), token: plaintext });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error('Failed to create SCIM token:', error);
+    res.status(500).json({ message: "Failed to create SCIM token" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/scim-tokens/{id}:
+ *   delete:
+ *     summary: Revoke a SCIM provisioning token
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Token revoked
+ *       404:
+ *         description: Token not found or already revoked
+ */
+router.delete("/:id", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const token = await storage.revokeScimToken(req.params.id, req.user!.tenantId);
+    if (!token) {
+      return res.status(404).json({ message: "SCIM token not found" });
+    }
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.DELETE,
+        resourceType: ResourceTypes.SCIM_TOKEN,
+        resourceId: token.id,
+        description: `Revoked SCIM token: ${token.name}`,
+        beforeState: auditLogger.sanitizeForLogging(redact(token))
+      },
+      req
+    );
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Failed to revoke SCIM token:', error);
+    res.status(500).json({ message: "Failed to revoke SCIM token" });
+  }
+});
+
+export default router;
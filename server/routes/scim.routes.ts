@@ -0,0 +1,560 @@
+import express, { Router, Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { ScimService, hashScimToken, SCIM_MAX_BULK_OPERATIONS, SCIM_MAX_PAYLOAD_SIZE } from "../services/scim/scim-service";
+import { SCIM_SCHEMAS, ScimError, getAttribute } from "../services/scim/resources";
+
+/**
+ * SCIM 2.0 protocol endpoints (RFC 7644), authenticated with per-tenant
+ * bearer tokens issued from /api/scim-tokens rather than user sessions
+ */
+const router = Router();
+
+router.use(express.json({ type: ["application/json", "application/scim+json"], limit: SCIM_MAX_PAYLOAD_SIZE }));
+
+function getBaseUrl(req: Request): string {
+  if (process.env.APP_URL) {
+    return `${process.env.APP_URL}/scim/v2`;
+  }
+  const protocol = req.headers["x-forwarded-proto"] || req.protocol || "https";
+  const host = req.headers["x-forwarded-host"] || req.headers.host || req.hostname;
+  return `${protocol}://${host}/scim/v2`;
+}
+
+function sendError(res: Response, error: unknown) {
+  const scimError = error instanceof ScimError ? error : new ScimError(500, "Internal server error");
+  if (!(error instanceof ScimError)) {
+    console.error("SCIM request failed:", error);
+  }
+  res.status(scimError.status).json(scimError.toResponse());
+}
+
+function getService(res: Response): ScimService {
+  return res.locals.scimService;
+}
+
+function listOptions(req: Request) {
+  return {
+    filter: typeof req.query.filter === "string" ? req.query.filter : undefined,
+    startIndex: req.query.startIndex ? Number(req.query.startIndex) : undefined,
+    count: req.query.count !== undefined ? Number(req.query.count) : undefined,
+    excludedAttributes: typeof req.query.excludedAttributes === "string" ? req.query.excludedAttributes : undefined,
+  };
+}
+
+function patchOperations(body: any) {
+  const operations = getAttribute(body, "Operations");
+  if (!Array.isArray(operations)) {
+    throw new ScimError(400, "PATCH body must contain an Operations array", "invalidSyntax");
+  }
+  return operations;
+}
+
+/**
+ * Resolve the tenant from the SCIM bearer token
+ */
+async function authenticateScimToken(req: Request, res: Response, next: NextFunction) {
+  res.type("application/scim+json");
+
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || "");
+  if (!match) {
+    return sendError(res, new ScimError(401, "Bearer token required"));
+  }
+
+  try {
+    const token = await storage.getScimTokenByHash(hashScimToken(match[1].trim()));
+    if (!token || token.revokedAt || (token.expiresAt && token.expiresAt < new Date())) {
+      return sendError(res, new ScimError(401, "Invalid or expired SCIM token"));
+    }
+
+    storage.touchScimToken(token.id).catch((error) => {
+      console.error("Failed to record SCIM token use:", error);
+    });
+    res.locals.scimService = new ScimService(token.tenantId, getBaseUrl(req), token);
+    next();
+  } catch (error) {
+    sendError(res, error);
+  }
+}
+
+router.use(authenticateScimToken);
+
+/**
+ * @swagger
+ * /scim/v2/ServiceProviderConfig:
+ *   get:
+ *     summary: SCIM service provider capabilities
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Supported SCIM features
+ */
+router.get("/ServiceProviderConfig", (req: Request, res: Response) => {
+  res.json({
+    schemas: [SCIM_SCHEMAS.SERVICE_PROVIDER_CONFIG],
+    patch: { supported: true },
+    bulk: { supported: true, maxOperations: SCIM_MAX_BULK_OPERATIONS, maxPayloadSize: SCIM_MAX_PAYLOAD_SIZE },
+    filter: { supported: true, maxResults: 200 },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [
+      {
+        type: "oauthbearertoken",
+        name: "Bearer Token",
+        description: "Per-tenant SCIM token issued from the SSO settings page",
+        primary: true,
+      },
+    ],
+    meta: { resourceType: "ServiceProviderConfig", location: `${getBaseUrl(req)}/ServiceProviderConfig` },
+  });
+});
+
+/**
+ * @swagger
+ * /scim/v2/ResourceTypes:
+ *   get:
+ *     summary: SCIM resource types
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: User and Group resource types
+ */
+router.get("/ResourceTypes", (req: Request, res: Response) => {
+  const baseUrl = getBaseUrl(req);
+  const resourceTypes = [
+    {
+      schemas: [SCIM_SCHEMAS.RESOURCE_TYPE],
+      id: "User",
+      name: "User",
+      endpoint: "/Users",
+      schema: SCIM_SCHEMAS.USER,
+      schemaExtensions: [{ schema: SCIM_SCHEMAS.ENTERPRISE_USER, required: false }],
+      meta: { resourceType: "ResourceType", location: `${baseUrl}/ResourceTypes/User` },
+    },
+    {
+      schemas: [SCIM_SCHEMAS.RESOURCE_TYPE],
+      id: "Group",
+      name: "Group",
+      endpoint: "/Groups",
+      schema: SCIM_SCHEMAS.GROUP,
+      meta: { resourceType: "ResourceType", location: `${baseUrl}/ResourceTypes/Group` },
+    },
+  ];
+  res.json({
+    schemas: [SCIM_SCHEMAS.LIST_RESPONSE],
+    totalResults: resourceTypes.length,
+    startIndex: 1,
+    itemsPerPage: resourceTypes.length,
+    Resources: resourceTypes,
+  });
+});
+
+/**
+ * @swagger
+ * /scim/v2/Schemas:
+ *   get:
+ *     summary: SCIM schemas and the attributes this server maps
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: User, enterprise User and Group schemas
+ */
+router.get("/Schemas", (req: Request, res: Response) => {
+  const attribute = (name: string, type = "string", extra: Record<string, any> = {}) => ({
+    name,
+    type,
+    multiValued: false,
+    required: false,
+    caseExact: false,
+    mutability: "readWrite",
+    returned: "default",
+    uniqueness: "none",
+    ...extra,
+  });
+  const schemas = [
+    {
+      id: SCIM_SCHEMAS.USER,
+      name: "User",
+      attributes: [
+        attribute("userName", "string", { required: true, uniqueness: "server" }),
+        attribute("name", "complex", {
+          subAttributes: [attribute("givenName"), attribute("familyName"), attribute("formatted", "string", { mutability: "readOnly" })],
+        }),
+        attribute("displayName"),
+        attribute("title"),
+        attribute("active", "boolean"),
+        attribute("emails", "complex", { multiValued: true, subAttributes: [attribute("value"), attribute("type"), attribute("primary", "boolean")] }),
+        attribute("phoneNumbers", "complex", { multiValued: true, subAttributes: [attribute("value"), attribute("type")] }),
+        attribute("groups", "complex", { multiValued: true, mutability: "readOnly", subAttributes: [attribute("value"), attribute("display")] }),
+      ],
+    },
+    {
+      id: SCIM_SCHEMAS.ENTERPRISE_USER,
+      name: "EnterpriseUser",
+      attributes: [
+        attribute("department"),
+        attribute("manager", "complex", { subAttributes: [attribute("value"), attribute("displayName")] }),
+      ],
+    },
+    {
+      id: SCIM_SCHEMAS.GROUP,
+      name: "Group",
+      attributes: [
+        attribute("displayName", "string", { required: true, uniqueness: "server" }),
+        attribute("members", "complex", { multiValued: true, subAttributes: [attribute("value"), attribute("display", "string", { mutability: "readOnly" })] }),
+      ],
+    },
+  ].map((schema) => ({
+    schemas: [SCIM_SCHEMAS.SCHEMA],
+    ...schema,
+    meta: { resourceType: "Schema", location: `${getBaseUrl(req)}/Schemas/${schema.id}` },
+  }));
+
+  res.json({
+    schemas: [SCIM_SCHEMAS.LIST_RESPONSE],
+    totalResults: schemas.length,
+    startIndex: 1,
+    itemsPerPage: schemas.length,
+    Resources: schemas,
+  });
+});
+
+/**
+ * @swagger
+ * /scim/v2/Users:
+ *   get:
+ *     summary: List or filter users
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: filter
+ *         schema:
+ *           type: string
+ *         description: SCIM filter, e.g. userName eq "jane@example.com"
+ *       - in: query
+ *         name: startIndex
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: count
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: SCIM ListResponse of users
+ */
+router.get("/Users", async (req: Request, res: Response) => {
+  try {
+    res.json(await getService(res).listUsers(listOptions(req)));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /scim/v2/Users:
+ *   post:
+ *     summary: Provision a user (joiner)
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: User created
+ *       409:
+ *         description: A user with this userName already exists
+ */
+router.post("/Users", async (req: Request, res: Response) => {
+  try {
+    const user = await getService(res).createUser(req.body);
+    res.status(201).location(user.meta.location).json(user);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /scim/v2/Users/{id}:
+ *   get:
+ *     summary: Get a user
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: SCIM User resource
+ *       404:
+ *         description: User not found
+ */
+router.get("/Users/:id", async (req: Request, res: Response) => {
+  try {
+    const excludedAttributes = typeof req.query.excludedAttributes === "string" ? req.query.excludedAttributes : undefined;
+    res.json(await getService(res).getUser(req.params.id, excludedAttributes));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /scim/v2/Users/{id}:
+ *   put:
+ *     summary: Replace a user (mover, or leaver when active is false)
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Updated SCIM User resource
+ */
+router.put("/Users/:id", async (req: Request, res: Response) => {
+  try {
+    res.json(await getService(res).replaceUser(req.params.id, req.body));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /scim/v2/Users/{id}:
+ *   patch:
+ *     summary: Patch a user (mover, or leaver when active is set to false)
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Updated SCIM User resource
+ */
+router.patch("/Users/:id", async (req: Request, res: Response) => {
+  try {
+    res.json(await getService(res).patchUser(req.params.id, patchOperations(req.body)));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /scim/v2/Users/{id}:
+ *   delete:
+ *     summary: Deprovision a user (leaver); the account is deactivated, not erased
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: User deactivated
+ */
+router.delete("/Users/:id", async (req: Request, res: Response) => {
+  try {
+    await getService(res).deleteUser(req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /scim/v2/Groups:
+ *   get:
+ *     summary: List or filter groups
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: SCIM ListResponse of groups
+ */
+router.get("/Groups", async (req: Request, res: Response) => {
+  try {
+    res.json(await getService(res).listGroups(listOptions(req)));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /scim/v2/Groups:
+ *   post:
+ *     summary: Create a group
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Group created
+ */
+router.post("/Groups", async (req: Request, res: Response) => {
+  try {
+    const group = await getService(res).createGroup(req.body);
+    res.status(201).location(group.meta.location).json(group);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /scim/v2/Groups/{id}:
+ *   get:
+ *     summary: Get a group
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: SCIM Group resource
+ */
+router.get("/Groups/:id", async (req: Request, res: Response) => {
+  try {
+    const excludedAttributes = typeof req.query.excludedAttributes === "string" ? req.query.excludedAttributes : undefined;
+    res.json(await getService(res).getGroup(req.params.id, excludedAttributes));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /scim/v2/Groups/{id}:
+ *   put:
+ *     summary: Replace a group and its members
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Updated SCIM Group resource
+ */
+router.put("/Groups/:id", async (req: Request, res: Response) => {
+  try {
+    res.json(await getService(res).replaceGroup(req.params.id, req.body));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /scim/v2/Groups/{id}:
+ *   patch:
+ *     summary: Patch a group (rename, add or remove members)
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Updated SCIM Group resource
+ */
+router.patch("/Groups/:id", async (req: Request, res: Response) => {
+  try {
+    res.json(await getService(res).patchGroup(req.params.id, patchOperations(req.body)));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /scim/v2/Groups/{id}:
+ *   delete:
+ *     summary: Delete a group
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Group deleted
+ */
+router.delete("/Groups/:id", async (req: Request, res: Response) => {
+  try {
+    await getService(res).deleteGroup(req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /scim/v2/Bulk:
+ *   post:
+ *     summary: Run up to 100 user/group operations in one request
+ *     tags: [SCIM]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: SCIM BulkResponse with a status per operation
+ */
+router.post("/Bulk", async (req: Request, res: Response) => {
+  try {
+    res.json(await getService(res).processBulk(req.body));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+export default router;
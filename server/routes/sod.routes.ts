@@ -9,7 +9,7 @@
 
 import { Router } from "express";
 import { storage } from "../storage";
-import { SodService } from "../services/advanced/sod";
+import { SodService, SodError } from "../services/advanced/sod";
 import type { Request, Response } from "express";
 
 const router = Router();
@@ -132,7 +132,10 @@ router.get("/rules/:id", async (req: Request, res: Response) => {
  *   post:
  *     tags: [SoD]
  *     summary: Create a new SoD rule
- *     description: Create a new Segregation of Duties rule defining conflicting applications
+ *     description: |
+ *       Create a new Segregation of Duties rule. Either a pair of conflicting applications
+ *       (appId1 + appId2), or a set of entitlements of which holding minMatch together is toxic
+ *       (e.g. "create vendor" + "approve payment" in the same ERP, or two of three across apps).
  *     security:
  *       - BearerAuth: []
  *     requestBody:
@@ -144,8 +147,6 @@ router.get("/rules/:id", async (req: Request, res: Response) => {
  *             required:
  *               - name
  *               - severity
- *               - appId1
- *               - appId2
  *               - rationale
  *             properties:
  *               name:
@@ -158,9 +159,21 @@ router.get("/rules/:id", async (req: Request, res: Response) => {
  *               appId1:
  *                 type: string
  *                 format: uuid
+ *                 description: Pairwise rules only
  *               appId2:
  *                 type: string
  *                 format: uuid
+ *                 description: Pairwise rules only
+ *               entitlements:
+ *                 type: array
+ *                 description: Entitlement-set rules only (at least 2)
+ *                 items:
+ *                   $ref: '#/components/schemas/SodEntitlementRef'
+ *               minMatch:
+ *                 type: integer
+ *                 minimum: 2
+ *                 default: 2
+ *                 description: How many of the entitlements must be held together to violate the rule
  *               rationale:
  *                 type: string
  *               complianceFramework:
@@ -178,23 +191,31 @@ router.get("/rules/:id", async (req: Request, res: Response) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/SodRule'
+ *       400:
+ *         description: Invalid entitlement set
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         description: Application not found
  *       500:
  *         description: Server error
  */
 router.post("/rules", async (req: Request, res: Response) => {
   try {
     const tenantId = req.user?.tenantId;
-    if (!tenantId) {
+    const userId = req.user?.userId;
+    if (!tenantId || !userId) {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
     const service = new SodService(tenantId);
-    const rule = await service.createRule(req.body);
+    const rule = await service.createRule(req.body, userId);
 
     res.status(201).json(rule);
   } catch (error) {
+    if (error instanceof SodError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error("[SoD] Error creating rule:", error);
     res.status(500).json({
       error: error instanceof Error ? error.message : "Failed to create SoD rule"
@@ -243,6 +264,14 @@ router.post("/rules", async (req: Request, res: Response) => {
  *                 items:
  *                   type: string
  *                   format: uuid
+ *               entitlements:
+ *                 type: array
+ *                 description: Entitlement-set rules only; triggers a re-scan
+ *                 items:
+ *                   $ref: '#/components/schemas/SodEntitlementRef'
+ *               minMatch:
+ *                 type: integer
+ *                 minimum: 2
  *     responses:
  *       200:
  *         description: SoD rule updated successfully
@@ -267,6 +296,9 @@ router.patch("/rules/:id", async (req: Request, res: Response) => {
 
     res.json(rule);
   } catch (error) {
+    if (error instanceof SodError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error("[SoD] Error updating rule:", error);
     res.status(500).json({
       error: error instanceof Error ? error.message : "Failed to update SoD rule"
@@ -668,6 +700,204 @@ router.post("/violations/:id/accept", async (req: Request, res: Response) => {
   }
 });
 
+// ============================================================================
+// Entitlement Catalog
+// ============================================================================
+
+/**
+ * @swagger
+ * /api/sod/entitlements:
+ *   get:
+ *     tags: [SoD]
+ *     summary: Get the entitlement catalog
+ *     description: App roles, permissions and directory groups that entitlement-set SoD rules can reference
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: appId
+ *         schema:
+ *           type: string
+ *         description: Only entitlements of this application
+ *     responses:
+ *       200:
+ *         description: Entitlement catalog
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       500:
+ *         description: Server error
+ */
+router.get("/entitlements", async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user?.tenantId;
+    if (!tenantId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const service = new SodService(tenantId);
+    const entitlements = await service.getEntitlementCatalog(req.query.appId as string | undefined);
+
+    res.json(entitlements);
+  } catch (error) {
+    console.error("[SoD] Error fetching entitlement catalog:", error);
+    res.status(500).json({ error: "Failed to fetch entitlement catalog" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/sod/entitlements:
+ *   post:
+ *     tags: [SoD]
+ *     summary: Add an entitlement to the catalog
+ *     description: Add a role, permission or group the IdP does not report (e.g. a permission managed inside an ERP)
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - entitlementType
+ *               - value
+ *             properties:
+ *               appId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Required for roles and permissions, null for groups
+ *               entitlementType:
+ *                 type: string
+ *                 enum: [role, permission, group]
+ *               value:
+ *                 type: string
+ *               displayName:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Entitlement added
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       409:
+ *         description: Already in the catalog
+ *       500:
+ *         description: Server error
+ */
+router.post("/entitlements", async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user?.tenantId;
+    if (!tenantId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const service = new SodService(tenantId);
+    const entitlement = await service.addEntitlement(req.body);
+
+    res.status(201).json(entitlement);
+  } catch (error) {
+    if (error instanceof SodError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error("[SoD] Error adding entitlement:", error);
+    res.status(500).json({ error: "Failed to add entitlement" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/sod/entitlements/refresh:
+ *   post:
+ *     tags: [SoD]
+ *     summary: Refresh the entitlement catalog
+ *     description: |
+ *       Harvest roles and permissions from IdP app-role discovery and groups from SCIM into the
+ *       catalog. Also runs after every successful IdP sync.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Catalog refreshed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 discovered:
+ *                   type: integer
+ *                 added:
+ *                   type: integer
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       500:
+ *         description: Server error
+ */
+router.post("/entitlements/refresh", async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user?.tenantId;
+    if (!tenantId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const service = new SodService(tenantId);
+    const result = await service.refreshEntitlementCatalog();
+
+    res.json(result);
+  } catch (error) {
+    console.error("[SoD] Error refreshing entitlement catalog:", error);
+    res.status(500).json({ error: "Failed to refresh entitlement catalog" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/sod/entitlements/{id}:
+ *   delete:
+ *     tags: [SoD]
+ *     summary: Remove an entitlement from the catalog
+ *     description: Rules that reference the entitlement keep their own copy and keep evaluating it
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Entitlement removed
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         description: Server error
+ */
+router.delete("/entitlements/:id", async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user?.tenantId;
+    if (!tenantId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const service = new SodService(tenantId);
+    await service.deleteEntitlement(req.params.id);
+
+    res.json({ message: "Entitlement removed successfully" });
+  } catch (error) {
+    if (error instanceof SodError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error("[SoD] Error removing entitlement:", error);
+    res.status(500).json({ error: "Failed to remove entitlement" });
+  }
+});
+
 // ============================================================================
 // SoD Checks & Scanning
 // ============================================================================
@@ -678,7 +908,10 @@ router.post("/violations/:id/accept", async (req: Request, res: Response) => {
  *   post:
  *     tags: [SoD]
  *     summary: Check for SoD violations
- *     description: Check if granting access to a user for a specific application would violate any SoD rules
+ *     description: |
+ *       Check if granting access to a user for a specific application (optionally with specific
+ *       roles or permissions in it) would violate any SoD rules. Each violation lists the
+ *       entitlements the user already holds that collide with the requested ones.
  *     security:
  *       - BearerAuth: []
  *     requestBody:
@@ -699,6 +932,16 @@ router.post("/violations/:id/accept", async (req: Request, res: Response) => {
  *                 type: string
  *                 format: uuid
  *                 description: Application ID to check
+ *               roles:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: App roles the grant would add
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: App permissions the grant would add
  *     responses:
  *       200:
  *         description: SoD check result
@@ -725,10 +968,10 @@ router.post("/check", async (req: Request, res: Response) => {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
-    const { userId, appId } = req.body;
+    const { userId, appId, roles, permissions } = req.body;
 
     const service = new SodService(tenantId);
-    const violations = await service.checkViolation(userId, appId);
+    const violations = await service.checkViolation(userId, appId, { roles, permissions });
 
     res.json({ violations, hasViolations: violations.length > 0 });
   } catch (error) {
@@ -0,0 +1,582 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { authenticateToken, requireRole } from "../middleware/auth.middleware";
+import { auditLogger, AuditActions, ResourceTypes } from "../audit-logger";
+import { softwareCatalogService } from "../services/software/software-catalog-service";
+import { cleanSoftwareName, matchNormalizationRule } from "../services/software/normalization";
+import {
+  insertSoftwareProductSchema,
+  insertSoftwareNormalizationRuleSchema,
+  NormalizationMatchTypeEnum,
+} from "@shared/schema";
+import { z } from "zod";
+
+const router = Router();
+
+const updateSoftwareProductSchema = insertSoftwareProductSchema.partial();
+
+// Partial of the rule fields; the regex check is repeated since .refine() schemas cannot be made partial
+const updateSoftwareNormalizationRuleSchema = z.object({
+  productId: z.string().min(1).optional(),
+  matchType: NormalizationMatchTypeEnum.optional(),
+  pattern: z.string().trim().min(1).max(500).optional(),
+  publisherPattern: z.string().trim().max(200).nullable().optional(),
+  priority: z.number().int().min(-1000).max(1000).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const testNormalizationSchema = z.object({
+  name: z.string().trim().min(1, "Install name is required"),
+  publisher: z.string().nullable().optional(),
+});
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * @swagger
+ * /api/software-catalog/products:
+ *   get:
+ *     summary: List catalog products
+ *     tags: [Software Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Canonical products and editions
+ */
+router.get("/products", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const products = await storage.getSoftwareProducts(req.user!.tenantId);
+    res.json(products);
+  } catch (error) {
+    console.error("Failed to fetch software products:", error);
+    res.status(500).json({ message: "Failed to fetch software products" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/software-catalog/products:
+ *   post:
+ *     summary: Create a catalog product
+ *     tags: [Software Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               publisher:
+ *                 type: string
+ *               edition:
+ *                 type: string
+ *               category:
+ *                 type: string
+ *               licenseMetric:
+ *                 type: string
+ *                 enum: [per_device, per_user, per_core]
+ *               minCoresPerDevice:
+ *                 type: integer
+ *               saasAppId:
+ *                 type: string
+ *                 description: Active contracts for this SaaS app count as entitlements
+ *     responses:
+ *       201:
+ *         description: Product created
+ */
+router.post("/products", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const data = insertSoftwareProductSchema.parse(req.body);
+
+    if (data.saasAppId && !(await storage.getSaasApp(data.saasAppId, tenantId))) {
+      return res.status(400).json({ message: "SaaS app not found" });
+    }
+
+    const product = await storage.createSoftwareProduct({ ...data, tenantId });
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.CREATE,
+        resourceType: ResourceTypes.SOFTWARE_PRODUCT,
+        resourceId: product.id,
+        description: `Created software product ${product.name}${product.edition ? ` ${product.edition}` : ""}`,
+        afterState: product
+      },
+      req
+    );
+
+    res.status(201).json(product);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Failed to create software product:", error);
+    res.status(500).json({ message: "Failed to create software product" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/software-catalog/products/{id}:
+ *   put:
+ *     summary: Update a catalog product
+ *     tags: [Software Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Product updated
+ *       404:
+ *         description: Product not found
+ */
+router.put("/products/:id", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const data = updateSoftwareProductSchema.parse(req.body);
+
+    const existing = await storage.getSoftwareProduct(req.params.id, tenantId);
+    if (!existing) {
+      return res.status(404).json({ message: "Software product not found" });
+    }
+    if (data.saasAppId && !(await storage.getSaasApp(data.saasAppId, tenantId))) {
+      return res.status(400).json({ message: "SaaS app not found" });
+    }
+
+    const product = await storage.updateSoftwareProduct(existing.id, tenantId, data);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.UPDATE,
+        resourceType: ResourceTypes.SOFTWARE_PRODUCT,
+        resourceId: existing.id,
+        description: `Updated software product ${existing.name}`,
+        beforeState: existing,
+        afterState: product
+      },
+      req
+    );
+
+    res.json(product);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Failed to update software product:", error);
+    res.status(500).json({ message: "Failed to update software product" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/software-catalog/products/{id}:
+ *   delete:
+ *     summary: Delete a catalog product
+ *     description: Its normalization rules are deleted; installs and licenses are detached from it
+ *     tags: [Software Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Product deleted
+ *       404:
+ *         description: Product not found
+ */
+router.delete("/products/:id", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const existing = await storage.getSoftwareProduct(req.params.id, tenantId);
+    if (!existing) {
+      return res.status(404).json({ message: "Software product not found" });
+    }
+
+    await storage.deleteSoftwareProduct(existing.id, tenantId);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.DELETE,
+        resourceType: ResourceTypes.SOFTWARE_PRODUCT,
+        resourceId: existing.id,
+        description: `Deleted software product ${existing.name}`,
+        beforeState: existing
+      },
+      req
+    );
+
+    res.json({ message: "Software product deleted" });
+  } catch (error) {
+    console.error("Failed to delete software product:", error);
+    res.status(500).json({ message: "Failed to delete software product" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/software-catalog/rules:
+ *   get:
+ *     summary: List normalization rules
+ *     tags: [Software Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rules in priority order
+ */
+router.get("/rules", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const rules = await storage.getSoftwareNormalizationRules(req.user!.tenantId);
+    res.json(rules);
+  } catch (error) {
+    console.error("Failed to fetch normalization rules:", error);
+    res.status(500).json({ message: "Failed to fetch normalization rules" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/software-catalog/rules:
+ *   post:
+ *     summary: Create a normalization rule
+ *     description: |
+ *       exact, prefix and contains compare against the install name with versions and
+ *       architecture stripped; regex runs case-insensitively on the raw name.
+ *     tags: [Software Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - productId
+ *               - pattern
+ *             properties:
+ *               productId:
+ *                 type: string
+ *               matchType:
+ *                 type: string
+ *                 enum: [exact, prefix, contains, regex]
+ *               pattern:
+ *                 type: string
+ *               publisherPattern:
+ *                 type: string
+ *               priority:
+ *                 type: integer
+ *     responses:
+ *       201:
+ *         description: Rule created
+ */
+router.post("/rules", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const data = insertSoftwareNormalizationRuleSchema.parse(req.body);
+
+    const product = await storage.getSoftwareProduct(data.productId, tenantId);
+    if (!product) {
+      return res.status(400).json({ message: "Software product not found" });
+    }
+
+    const rule = await storage.createSoftwareNormalizationRule({ ...data, tenantId });
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.CREATE,
+        resourceType: ResourceTypes.SOFTWARE_NORMALIZATION_RULE,
+        resourceId: rule.id,
+        description: `Created ${rule.matchType} rule "${rule.pattern}" for ${product.name}`,
+        afterState: rule
+      },
+      req
+    );
+
+    res.status(201).json(rule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Failed to create normalization rule:", error);
+    res.status(500).json({ message: "Failed to create normalization rule" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/software-catalog/rules/{id}:
+ *   put:
+ *     summary: Update a normalization rule
+ *     tags: [Software Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rule updated
+ *       404:
+ *         description: Rule not found
+ */
+router.put("/rules/:id", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const data = updateSoftwareNormalizationRuleSchema.parse(req.body);
+
+    const existing = await storage.getSoftwareNormalizationRule(req.params.id, tenantId);
+    if (!existing) {
+      return res.status(404).json({ message: "Normalization rule not found" });
+    }
+    if ((data.matchType ?? existing.matchType) === "regex" && !isValidRegex(data.pattern ?? existing.pattern)) {
+      return res.status(400).json({ message: "Pattern is not a valid regular expression" });
+    }
+    if (data.productId && !(await storage.getSoftwareProduct(data.productId, tenantId))) {
+      return res.status(400).json({ message: "Software product not found" });
+    }
+
+    const rule = await storage.updateSoftwareNormalizationRule(existing.id, tenantId, data);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.UPDATE,
+        resourceType: ResourceTypes.SOFTWARE_NORMALIZATION_RULE,
+        resourceId: existing.id,
+        description: `Updated normalization rule "${existing.pattern}"`,
+        beforeState: existing,
+        afterState: rule
+      },
+      req
+    );
+
+    res.json(rule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Failed to update normalization rule:", error);
+    res.status(500).json({ message: "Failed to update normalization rule" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/software-catalog/rules/{id}:
+ *   delete:
+ *     summary: Delete a normalization rule
+ *     tags: [Software Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rule deleted
+ *       404:
+ *         description: Rule not found
+ */
+router.delete("/rules/:id", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const existing = await storage.getSoftwareNormalizationRule(req.params.id, tenantId);
+    if (!existing) {
+      return res.status(404).json({ message: "Normalization rule not found" });
+    }
+
+    await storage.deleteSoftwareNormalizationRule(existing.id, tenantId);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.DELETE,
+        resourceType: ResourceTypes.SOFTWARE_NORMALIZATION_RULE,
+        resourceId: existing.id,
+        description: `Deleted normalization rule "${existing.pattern}"`,
+        beforeState: existing
+      },
+      req
+    );
+
+    res.json({ message: "Normalization rule deleted" });
+  } catch (error) {
+    console.error("Failed to delete normalization rule:", error);
+    res.status(500).json({ message: "Failed to delete normalization rule" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/software-catalog/rules/test:
+ *   post:
+ *     summary: Show how an install string would be normalized
+ *     tags: [Software Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               publisher:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Cleaned name, matching rule and product (null when unmatched)
+ */
+router.post("/rules/test", authenticateToken, requireRole("technician"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const data = testNormalizationSchema.parse(req.body);
+
+    const rules = await softwareCatalogService.getActiveRules(tenantId);
+    const rule = matchNormalizationRule(data.name, data.publisher, rules) ?? null;
+    const product = rule ? await storage.getSoftwareProduct(rule.productId, tenantId) : undefined;
+
+    res.json({ cleanName: cleanSoftwareName(data.name), rule, product: product ?? null });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Failed to test normalization:", error);
+    res.status(500).json({ message: "Failed to test normalization" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/software-catalog/normalize:
+ *   post:
+ *     summary: Re-apply normalization rules to all software assets
+ *     tags: [Software Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Counts of software assets matched and changed
+ */
+router.post("/normalize", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const result = await softwareCatalogService.normalizeSoftwareAssets(req.user!.tenantId);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.UPDATE,
+        resourceType: ResourceTypes.SOFTWARE_PRODUCT,
+        description: `Normalized ${result.total} software assets (${result.matched} matched, ${result.changed} changed)`,
+        afterState: result
+      },
+      req
+    );
+
+    res.json(result);
+  } catch (error) {
+    console.error("Failed to normalize software:", error);
+    res.status(500).json({ message: "Failed to normalize software" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/software-catalog/license-position:
+ *   get:
+ *     summary: Effective license position per product
+ *     description: |
+ *       Compares installs on active devices with license and SaaS contract entitlements,
+ *       measured per device, per user or per core. Positions are sorted by balance, so
+ *       the largest over-deployments come first.
+ *     tags: [Software Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Positions, summary and software no rule has matched
+ */
+router.get("/license-position", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const report = await softwareCatalogService.getLicensePosition(req.user!.tenantId);
+    res.json(report);
+  } catch (error) {
+    console.error("Failed to calculate license position:", error);
+    res.status(500).json({ message: "Failed to calculate license position" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/software-catalog/license-position/sync:
+ *   post:
+ *     summary: Update licenses' used counts from measured consumption
+ *     tags: [Software Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of licenses updated
+ */
+router.post("/license-position/sync", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const result = await softwareCatalogService.syncUsedLicenses(req.user!.tenantId);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.LICENSE_UPDATE,
+        resourceType: ResourceTypes.LICENSE,
+        description: `Synced used license counts from installs (${result.updated} licenses updated)`,
+        afterState: result
+      },
+      req
+    );
+
+    res.json(result);
+  } catch (error) {
+    console.error("Failed to sync used licenses:", error);
+    res.status(500).json({ message: "Failed to sync used licenses" });
+  }
+});
+
+export default router;
@@ -1,9 +1,11 @@
 import { Router, Request, Response } from "express";
 import { db } from "../db";
+import { storage } from "../storage";
 import * as s from "@shared/schema";
 import { eq, and } from "drizzle-orm";
 import { authenticateToken } from "../middleware/auth.middleware";
 import { oaFetchDeviceSoftware } from "../utils/openAuditClient";
+import { softwareCatalogService } from "../services/software/software-catalog-service";
 
 const router = Router();
 
@@ -27,6 +29,7 @@ const router = Router();
  *                 type: string
  *               deviceAssetId:
  *                 type: string
+ *                 description: Hardware asset the software is installed on; links each item to it
  *               items:
  *                 type: array
  *                 items:
@@ -55,17 +58,24 @@ router.post("/import", async (req: Request, res: Response) => {
     if (!tenantId || !Array.isArray(items) || items.length === 0) {
       return res.status(400).json({ error: "tenantId and items are required" });
     }
+    if (deviceAssetId && !(await storage.getAsset(deviceAssetId, tenantId))) {
+      return res.status(400).json({ error: "deviceAssetId does not belong to the tenant" });
+    }
 
     const now = new Date();
     let created = 0;
+    const rules = await softwareCatalogService.getActiveRules(tenantId);
 
     for (const it of items) {
       const baseName = (it.name || "").trim();
       if (!baseName) continue;
 
       const version = (it.version ?? "").trim();
-      // Include version in name to make it unique (e.g., "Chrome 120.0" vs "Chrome 121.0")
+      // Include version in name to make it unique (e.g., "Chrome 120.0" vs "Chrome 121.0");
+      // the catalog product ties the versions together
       const fullName = version ? `${baseName} ${version}` : baseName;
+      const softwareProductId = softwareCatalogService.resolveProductId(rules, baseName, it.publisher);
+      let softwareAssetId: string;
 
       // Check if software already exists
       const existing = await db
@@ -81,12 +91,14 @@ router.post("/import", async (req: Request, res: Response) => {
         .limit(1);
 
       if (existing.length > 0) {
+        softwareAssetId = existing[0].id;
         // Update existing software
         await db
           .update(s.assets)
           .set({
             version: version || null,
             manufacturer: it.publisher ?? null,
+            softwareProductId,
             updatedAt: now,
             notes: deviceAssetId
               ? `Added from device ${deviceAssetId}`
@@ -95,7 +107,7 @@ router.post("/import", async (req: Request, res: Response) => {
           .where(eq(s.assets.id, existing[0].id));
       } else {
         // Insert new software
-        await db
+        const [inserted] = await db
           .insert(s.assets)
           .values({
             tenantId,
@@ -133,9 +145,19 @@ router.post("/import", async (req: Request, res: Response) => {
             vendorPhone: null,
             companyName: null,
             companyGstNumber: null,
+            softwareProductId,
             createdAt: now,
             updatedAt: now,
-          });
+          })
+          .returning({ id: s.assets.id });
+        softwareAssetId = inserted.id;
+      }
+
+      if (deviceAssetId) {
+        await db
+          .insert(s.assetSoftwareLinks)
+          .values({ tenantId, assetId: deviceAssetId, softwareAssetId, createdAt: now })
+          .onConflictDoNothing();
       }
 
       created += 1;
@@ -0,0 +1,731 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { authenticateToken, requireRole } from "../middleware/auth.middleware";
+import { auditLogger, AuditActions, ResourceTypes } from "../audit-logger";
+import { insertSsoConnectionSchema, type SsoConnection, type SsoDomain } from "@shared/schema";
+import { encrypt } from "../services/encryption";
+import { getServiceProviderInfo } from "../services/sso/sso-service";
+import { getServiceProviderMetadata } from "../services/sso/saml";
+import {
+  generateVerificationToken,
+  getVerificationRecord,
+  hasVerificationRecord,
+  validateSsoDomain,
+} from "../services/sso/domain-verification";
+import { z } from "zod";
+
+const router = Router();
+
+const ssoSettingsSchema = z.object({
+  ssoOnly: z.boolean(),
+});
+
+const ssoDomainSchema = z.object({
+  domain: z.string().trim().min(1).max(253),
+});
+
+function redact(connection: SsoConnection) {
+  return {
+    ...connection,
+    oidcClientSecret: connection.oidcClientSecret ? '********' : null,
+  };
+}
+
+function getBaseUrl(req: Request): string {
+  if (process.env.APP_URL) {
+    return process.env.APP_URL;
+  }
+  const protocol = req.headers["x-forwarded-proto"] || req.protocol || "https";
+  const host = req.headers["x-forwarded-host"] || req.headers.host || req.hostname;
+  return `${protocol}://${host}`;
+}
+
+function normalizeDomains(domains: string[] | null | undefined): string[] {
+  return Array.from(new Set((domains || []).map((domain) => domain.trim().toLowerCase().replace(/^@/, "")).filter(Boolean)));
+}
+
+/**
+ * Protocol-specific settings an enabled connection cannot work without
+ */
+function getMissingSettings(connection: Partial<SsoConnection>): string[] {
+  const missing: string[] = [];
+  if (connection.protocol === "saml") {
+    if (!connection.samlEntryPoint) missing.push("samlEntryPoint");
+    if (!connection.samlIdpCertificate) missing.push("samlIdpCertificate");
+  } else {
+    if (!connection.oidcIssuer) missing.push("oidcIssuer");
+    if (!connection.oidcClientId) missing.push("oidcClientId");
+    if (!connection.oidcClientSecret) missing.push("oidcClientSecret");
+  }
+  if (!connection.emailDomains?.length) missing.push("emailDomains");
+  return missing;
+}
+
+function withVerificationRecord(domain: SsoDomain) {
+  return {
+    ...domain,
+    record: getVerificationRecord(domain.domain, domain.verificationToken),
+  };
+}
+
+/**
+ * Email domains route users to exactly one tenant's connection: the tenant that verified the domain
+ */
+async function findClaimedDomain(tenantId: string, domains: string[]): Promise<string | undefined> {
+  for (const domain of domains) {
+    const verified = await storage.getVerifiedSsoDomain(domain);
+    if (verified && verified.tenantId !== tenantId) {
+      return domain;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * SSO-only mode needs at least one other enabled connection to stay reachable
+ */
+async function wouldLockOutTenant(tenantId: string, connectionId: string): Promise<boolean> {
+  const tenant = await storage.getTenant(tenantId);
+  if (!tenant?.ssoOnly) {
+    return false;
+  }
+  const connections = await storage.getSsoConnections(tenantId);
+  return !connections.some((connection) => connection.enabled && connection.id !== connectionId);
+}
+
+/**
+ * @swagger
+ * /api/sso/connections:
+ *   get:
+ *     summary: List SSO connections for logging into the platform
+ *     tags: [SSO]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: SSO connections retrieved successfully
+ */
+router.get("/connections", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const connections = await storage.getSsoConnections(req.user!.tenantId);
+    res.json(connections.map(redact));
+  } catch (error) {
+    console.error('Failed to fetch SSO connections:', error);
+    res.status(500).json({ message: "Failed to fetch SSO connections" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/sso/connections/{id}:
+ *   get:
+ *     summary: Get an SSO connection with its service provider endpoints
+ *     tags: [SSO]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: SSO connection retrieved successfully
+ *       404:
+ *         description: SSO connection not found
+ */
+router.get("/connections/:id", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const connection = await storage.getSsoConnection(req.params.id, req.user!.tenantId);
+
+    if (!connection) {
+      return res.status(404).json({ message: "SSO connection not found" });
+    }
+
+    res.json({
+      ...redact(connection),
+      serviceProvider: getServiceProviderInfo(connection.id, getBaseUrl(req)),
+    });
+  } catch (error) {
+    console.error('Failed to fetch SSO connection:', error);
+    res.status(500).json({ message: "Failed to fetch SSO connection" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/sso/connections/{id}/metadata:
+ *   get:
+ *     summary: Download SAML service provider metadata for an SSO connection
+ *     tags: [SSO]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: SAML SP metadata XML
+ *       404:
+ *         description: SSO connection not found
+ */
+router.get("/connections/:id/metadata", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const connection = await storage.getSsoConnection(req.params.id, req.user!.tenantId);
+
+    if (!connection || connection.protocol !== "saml") {
+      return res.status(404).json({ message: "SAML connection not found" });
+    }
+
+    res.type("application/samlmetadata+xml")
+      .attachment(`sp-metadata-${connection.id}.xml`)
+      .send(getServiceProviderMetadata(getServiceProviderInfo(connection.id, getBaseUrl(req))));
+  } catch (error) {
+    console.error('Failed to generate SAML metadata:', error);
+    res.status(500).json({ message: "Failed to generate SAML metadata" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/sso/connections:
+ *   post:
+ *     summary: Create an SSO connection (SAML 2.0 or OIDC)
+ *     tags: [SSO]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       201:
+ *         description: SSO connection created successfully
+ *       409:
+ *         description: An email domain is verified by another organization
+ */
+router.post("/connections", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const connectionData = insertSsoConnectionSchema.parse({
+      ...req.body,
+      tenantId: req.user!.tenantId,
+    });
+    connectionData.emailDomains = normalizeDomains(connectionData.emailDomains);
+
+    if (connectionData.enabled) {
+      const missing = getMissingSettings(connectionData);
+      if (missing.length > 0) {
+        return res.status(400).json({ message: `Cannot enable connection without: ${missing.join(", ")}` });
+      }
+    }
+
+    const claimedDomain = await findClaimedDomain(req.user!.tenantId, connectionData.emailDomains);
+    if (claimedDomain) {
+      return res.status(409).json({ message: `The domain ${claimedDomain} is verified by another organization` });
+    }
+
+    // Encrypt client secret before storing
+    if (connectionData.oidcClientSecret) {
+      connectionData.oidcClientSecret = encrypt(connectionData.oidcClientSecret);
+    }
+
+    const connection = await storage.createSsoConnection(connectionData);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.CREATE,
+        resourceType: ResourceTypes.SSO_CONNECTION,
+        resourceId: connection.id,
+        description: `Created SSO connection: ${connection.name} (${connection.protocol})`,
+        afterState: auditLogger.sanitizeForLogging(redact(connection))
+      },
+      req
+    );
+
+    res.status(201).json({
+      ...redact(connection),
+      serviceProvider: getServiceProviderInfo(connection.id, getBaseUrl(req)),
+    });
+  } catch (error) {
+    console.error('Failed to create SSO connection:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+
+    res.status(500).json({ message: "Failed to create SSO connection" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/sso/connections/{id}:
+ *   put:
+ *     summary: Update an SSO connection
+ *     tags: [SSO]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: SSO connection updated successfully
+ *       404:
+ *         description: SSO connection not found
+ */
+router.put("/connections/:id", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const original = await storage.getSsoConnection(req.params.id, req.user!.tenantId);
+    if (!original) {
+      return res.status(404).json({ message: "SSO connection not found" });
+    }
+
+    const { tenantId: _tenantId, ...updates } = insertSsoConnectionSchema.partial().parse(req.body);
+    if (updates.emailDomains !== undefined) {
+      updates.emailDomains = normalizeDomains(updates.emailDomains);
+    }
+
+    // The redacted placeholder (or an empty field) keeps the stored secret
+    if (!updates.oidcClientSecret || updates.oidcClientSecret === '********') {
+      delete updates.oidcClientSecret;
+    }
+
+    const merged = { ...original, ...updates };
+    if (merged.enabled) {
+      const missing = getMissingSettings(merged);
+      if (missing.length > 0) {
+        return res.status(400).json({ message: `Cannot enable connection without: ${missing.join(", ")}` });
+      }
+    } else if (original.enabled && await wouldLockOutTenant(req.user!.tenantId, original.id)) {
+      return res.status(409).json({ message: "Turn off SSO-only login before disabling the last enabled connection" });
+    }
+
+    const claimedDomain = await findClaimedDomain(req.user!.tenantId, merged.emailDomains || []);
+    if (claimedDomain) {
+      return res.status(409).json({ message: `The domain ${claimedDomain} is verified by another organization` });
+    }
+
+    if (updates.oidcClientSecret) {
+      updates.oidcClientSecret = encrypt(updates.oidcClientSecret);
+    }
+
+    const connection = await storage.updateSsoConnection(req.params.id, req.user!.tenantId, updates);
+    if (!connection) {
+      return res.status(404).json({ message: "SSO connection not found" });
+    }
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.UPDATE,
+        resourceType: ResourceTypes.SSO_CONNECTION,
+        resourceId: connection.id,
+        description: `Updated SSO connection: ${connection.name}`,
+        beforeState: auditLogger.sanitizeForLogging(redact(original)),
+        afterState: auditLogger.sanitizeForLogging(redact(connection))
+      },
+      req
+    );
+
+    res.json({
+      ...redact(connection),
+      serviceProvider: getServiceProviderInfo(connection.id, getBaseUrl(req)),
+    });
+  } catch (error) {
+    console.error('Failed to update SSO connection:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+
+    res.status(500).json({ message: "Failed to update SSO connection" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/sso/connections/{id}:
+ *   delete:
+ *     summary: Delete an SSO connection
+ *     tags: [SSO]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: SSO connection deleted successfully
+ *       404:
+ *         description: SSO connection not found
+ *       409:
+ *         description: Connection is required while SSO-only login is on
+ */
+router.delete("/connections/:id", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const connection = await storage.getSsoConnection(req.params.id, req.user!.tenantId);
+    if (!connection) {
+      return res.status(404).json({ message: "SSO connection not found" });
+    }
+
+    if (connection.enabled && await wouldLockOutTenant(req.user!.tenantId, connection.id)) {
+      return res.status(409).json({ message: "Turn off SSO-only login before deleting the last enabled connection" });
+    }
+
+    await storage.deleteSsoConnection(connection.id, req.user!.tenantId);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.DELETE,
+        resourceType: ResourceTypes.SSO_CONNECTION,
+        resourceId: connection.id,
+        description: `Deleted SSO connection: ${connection.name}`,
+        beforeState: auditLogger.sanitizeForLogging(redact(connection))
+      },
+      req
+    );
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Failed to delete SSO connection:', error);
+    res.status(500).json({ message: "Failed to delete SSO connection" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/sso/domains:
+ *   get:
+ *     summary: List the email domains claimed for SSO and their DNS verification records
+ *     tags: [SSO]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: SSO domains retrieved successfully
+ */
+router.get("/domains", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const domains = await storage.getSsoDomains(req.user!.tenantId);
+    res.json(domains.map(withVerificationRecord));
+  } catch (error) {
+    console.error('Failed to fetch SSO domains:', error);
+    res.status(500).json({ message: "Failed to fetch SSO domains" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/sso/domains:
+ *   post:
+ *     summary: Claim an email domain for SSO
+ *     description: Returns the DNS TXT record to publish. The domain routes SSO discovery and logins only once verified.
+ *     tags: [SSO]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - domain
+ *             properties:
+ *               domain:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Domain claimed, pending verification
+ *       400:
+ *         description: Invalid or public email domain
+ *       409:
+ *         description: Domain already claimed by this organization or verified by another
+ */
+router.post("/domains", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const [domain] = normalizeDomains([ssoDomainSchema.parse(req.body).domain]);
+
+    const invalid = domain ? validateSsoDomain(domain) : "Domain is required";
+    if (invalid) {
+      return res.status(400).json({ message: invalid });
+    }
+
+    const existing = await storage.getSsoDomains(req.user!.tenantId);
+    if (existing.some((claim) => claim.domain === domain)) {
+      return res.status(409).json({ message: `The domain ${domain} is already claimed by your organization` });
+    }
+    if (await findClaimedDomain(req.user!.tenantId, [domain])) {
+      return res.status(409).json({ message: `The domain ${domain} is verified by another organization` });
+    }
+
+    const created = await storage.createSsoDomain({
+      tenantId: req.user!.tenantId,
+      domain,
+      verificationToken: generateVerificationToken(),
+      createdBy: req.user!.userId,
+    });
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.CREATE,
+        resourceType: ResourceTypes.SSO_CONNECTION,
+        resourceId: created.id,
+        description: `Claimed SSO domain: ${domain}`
+      },
+      req
+    );
+
+    res.status(201).json(withVerificationRecord(created));
+  } catch (error) {
+    console.error('Failed to claim SSO domain:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+
+    res.status(500).json({ message: "Failed to claim SSO domain" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/sso/domains/{id}/verify:
+ *   post:
+ *     summary: Check the DNS TXT record for a claimed domain
+ *     tags: [SSO]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Domain verified
+ *       404:
+ *         description: SSO domain not found
+ *       409:
+ *         description: Domain verified by another organization
+ *       422:
+ *         description: TXT record not found yet
+ *       502:
+ *         description: DNS lookup failed
+ */
+router.post("/domains/:id/verify", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const claim = await storage.getSsoDomain(req.params.id, req.user!.tenantId);
+    if (!claim) {
+      return res.status(404).json({ message: "SSO domain not found" });
+    }
+    if (claim.verifiedAt) {
+      return res.json(withVerificationRecord(claim));
+    }
+
+    let found: boolean;
+    try {
+      found = await hasVerificationRecord(claim.domain, claim.verificationToken);
+    } catch (error) {
+      console.warn(`[SSO] DNS lookup failed for ${claim.domain}:`, error);
+      return res.status(502).json({ message: "DNS lookup failed; try again shortly" });
+    }
+
+    if (!found) {
+      await storage.updateSsoDomain(claim.id, req.user!.tenantId, { lastCheckedAt: new Date() });
+      const record = getVerificationRecord(claim.domain, claim.verificationToken);
+      return res.status(422).json({ message: `TXT record ${record.name} with value ${record.value} was not found` });
+    }
+
+    if (await findClaimedDomain(req.user!.tenantId, [claim.domain])) {
+      return res.status(409).json({ message: `The domain ${claim.domain} is verified by another organization` });
+    }
+
+    const now = new Date();
+    const verified = await storage.updateSsoDomain(claim.id, req.user!.tenantId, { verifiedAt: now, lastCheckedAt: now });
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.UPDATE,
+        resourceType: ResourceTypes.SSO_CONNECTION,
+        resourceId: claim.id,
+        description: `Verified SSO domain: ${claim.domain}`
+      },
+      req
+    );
+
+    res.json(withVerificationRecord(verified!));
+  } catch (error) {
+    console.error('Failed to verify SSO domain:', error);
+    res.status(500).json({ message: "Failed to verify SSO domain" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/sso/domains/{id}:
+ *   delete:
+ *     summary: Release a claimed SSO domain
+ *     tags: [SSO]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: SSO domain released
+ *       404:
+ *         description: SSO domain not found
+ */
+router.delete("/domains/:id", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const claim = await storage.getSsoDomain(req.params.id, req.user!.tenantId);
+    if (!claim) {
+      return res.status(404).json({ message: "SSO domain not found" });
+    }
+
+    await storage.deleteSsoDomain(claim.id, req.user!.tenantId);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.DELETE,
+        resourceType: ResourceTypes.SSO_CONNECTION,
+        resourceId: claim.id,
+        description: `Released SSO domain: ${claim.domain}`
+      },
+      req
+    );
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Failed to release SSO domain:', error);
+    res.status(500).json({ message: "Failed to release SSO domain" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/sso/settings:
+ *   get:
+ *     summary: Get the tenant's SSO login policy
+ *     tags: [SSO]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: SSO settings retrieved successfully
+ */
+router.get("/settings", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const tenant = await storage.getTenant(req.user!.tenantId);
+    res.json({ ssoOnly: !!tenant?.ssoOnly });
+  } catch (error) {
+    console.error('Failed to fetch SSO settings:', error);
+    res.status(500).json({ message: "Failed to fetch SSO settings" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/sso/settings:
+ *   patch:
+ *     summary: Turn SSO-only login on or off (super-admins can always use a password)
+ *     tags: [SSO]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ssoOnly:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: SSO settings updated successfully
+ *       409:
+ *         description: No enabled SSO connection
+ */
+router.patch("/settings", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const { ssoOnly } = ssoSettingsSchema.parse(req.body);
+
+    if (ssoOnly) {
+      const connections = await storage.getSsoConnections(req.user!.tenantId);
+      if (!connections.some((connection) => connection.enabled)) {
+        return res.status(409).json({ message: "Enable an SSO connection before requiring SSO for all users" });
+      }
+    }
+
+    const original = await storage.getTenant(req.user!.tenantId);
+    await storage.updateTenant(req.user!.tenantId, { ssoOnly });
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.ORG_SETTINGS_UPDATE,
+        resourceType: ResourceTypes.SETTINGS,
+        resourceId: req.user!.tenantId,
+        description: `${ssoOnly ? "Enabled" : "Disabled"} SSO-only login`,
+        beforeState: { ssoOnly: !!original?.ssoOnly },
+        afterState: { ssoOnly }
+      },
+      req
+    );
+
+    res.json({ ssoOnly });
+  } catch (error) {
+    console.error('Failed to update SSO settings:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+
+    res.status(500).json({ message: "Failed to update SSO settings" });
+  }
+});
+
+export default router;
@@ -0,0 +1,273 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { authenticateToken, requireRole } from "../middleware/auth.middleware";
+import { auditLogger, AuditActions, ResourceTypes } from "../audit-logger";
+import { isValidTimezone } from "../services/tickets/business-hours";
+import type { TicketSlaPolicy } from "@shared/schema";
+import { z } from "zod";
+
+const router = Router();
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+
+const businessHoursSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).min(1, "At least one working day is required"),
+  start: timeOfDay,
+  end: timeOfDay,
+}).refine(hours => hours.end > hours.start, { message: "End time must be after start time", path: ["end"] });
+
+const slaPolicySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  category: z.enum(["hardware", "software", "network", "account", "other"]).nullable().optional(),
+  priority: z.enum(["low", "medium", "high", "urgent"]).nullable().optional(),
+  responseMinutes: z.number().int().min(1),
+  resolutionMinutes: z.number().int().min(1),
+  warningThresholdPercent: z.number().int().min(1).max(99).default(75),
+  businessHours: businessHoursSchema.nullable().optional(),
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone").default("UTC"),
+  escalationAction: z.enum(["none", "reassign", "escalate_manager"]).default("escalate_manager"),
+  escalateToId: z.string().nullable().optional(),
+  isActive: z.boolean().default(true),
+})
+  .refine(policy => policy.resolutionMinutes >= policy.responseMinutes, {
+    message: "Resolution target cannot be shorter than the response target",
+    path: ["resolutionMinutes"],
+  })
+  .refine(policy => policy.escalationAction !== "reassign" || !!policy.escalateToId, {
+    message: "A reassignment target is required",
+    path: ["escalateToId"],
+  });
+
+function editableFields(policy: TicketSlaPolicy) {
+  const { id, tenantId, createdBy, createdAt, updatedAt, ...fields } = policy;
+  return {
+    ...fields,
+    timezone: fields.timezone ?? undefined,
+    isActive: fields.isActive ?? undefined,
+  };
+}
+
+async function isTenantUser(userId: string | null | undefined, tenantId: string): Promise<boolean> {
+  if (!userId) return true;
+  const user = await storage.getUser(userId);
+  return !!user && user.tenantId === tenantId;
+}
+
+/**
+ * @swagger
+ * /api/ticket-sla-policies:
+ *   get:
+ *     summary: List ticket SLA policies
+ *     tags: [Tickets]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: SLA policies for the tenant
+ */
+router.get("/", authenticateToken, requireRole("it-manager"), async (req: Request, res: Response) => {
+  try {
+    const policies = await storage.getTicketSlaPolicies(req.user!.tenantId);
+    res.json(policies);
+  } catch (error) {
+    console.error("Failed to fetch SLA policies:", error);
+    res.status(500).json({ message: "Failed to fetch SLA policies" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/ticket-sla-policies:
+ *   post:
+ *     summary: Create a ticket SLA policy
+ *     description: Targets are business minutes measured on the ticket site's timezone (or the policy timezone)
+ *     tags: [Tickets]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, responseMinutes, resolutionMinutes]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               category:
+ *                 type: string
+ *                 nullable: true
+ *               priority:
+ *                 type: string
+ *                 nullable: true
+ *               responseMinutes:
+ *                 type: integer
+ *               resolutionMinutes:
+ *                 type: integer
+ *               warningThresholdPercent:
+ *                 type: integer
+ *               businessHours:
+ *                 type: object
+ *                 nullable: true
+ *               timezone:
+ *                 type: string
+ *               escalationAction:
+ *                 type: string
+ *                 enum: [none, reassign, escalate_manager]
+ *               escalateToId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: SLA policy created
+ *       400:
+ *         description: Invalid input
+ */
+router.post("/", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const data = slaPolicySchema.parse(req.body);
+
+    if (!(await isTenantUser(data.escalateToId, tenantId))) {
+      return res.status(400).json({ message: "Invalid escalation target" });
+    }
+
+    const policy = await storage.createTicketSlaPolicy({
+      ...data,
+      tenantId,
+      createdBy: req.user!.userId,
+    });
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.CREATE,
+        resourceType: ResourceTypes.TICKET_SLA_POLICY,
+        resourceId: policy.id,
+        description: `Created ticket SLA policy: ${policy.name}`,
+        afterState: policy
+      },
+      req
+    );
+
+    res.status(201).json(policy);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Failed to create SLA policy:", error);
+    res.status(500).json({ message: "Failed to create SLA policy" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/ticket-sla-policies/{id}:
+ *   put:
+ *     summary: Update a ticket SLA policy
+ *     description: Applies to tickets created or re-prioritised after the change
+ *     tags: [Tickets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: SLA policy updated
+ *       404:
+ *         description: SLA policy not found
+ */
+router.put("/:id", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const existing = await storage.getTicketSlaPolicy(req.params.id, tenantId);
+    if (!existing) {
+      return res.status(404).json({ message: "SLA policy not found" });
+    }
+
+    const data = slaPolicySchema.parse({ ...editableFields(existing), ...req.body });
+
+    if (!(await isTenantUser(data.escalateToId, tenantId))) {
+      return res.status(400).json({ message: "Invalid escalation target" });
+    }
+
+    const policy = await storage.updateTicketSlaPolicy(existing.id, tenantId, data);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.UPDATE,
+        resourceType: ResourceTypes.TICKET_SLA_POLICY,
+        resourceId: existing.id,
+        description: `Updated ticket SLA policy: ${existing.name}`,
+        beforeState: existing,
+        afterState: policy
+      },
+      req
+    );
+
+    res.json(policy);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Failed to update SLA policy:", error);
+    res.status(500).json({ message: "Failed to update SLA policy" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/ticket-sla-policies/{id}:
+ *   delete:
+ *     summary: Delete a ticket SLA policy
+ *     description: Tickets already tracked against the policy stop being evaluated
+ *     tags: [Tickets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: SLA policy deleted
+ *       404:
+ *         description: SLA policy not found
+ */
+router.delete("/:id", authenticateToken, requireRole("admin"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.user!.tenantId;
+    const existing = await storage.getTicketSlaPolicy(req.params.id, tenantId);
+    if (!existing) {
+      return res.status(404).json({ message: "SLA policy not found" });
+    }
+
+    await storage.deleteTicketSlaPolicy(existing.id, tenantId);
+
+    await auditLogger.logActivity(
+      auditLogger.createUserContext(req),
+      {
+        action: AuditActions.DELETE,
+        resourceType: ResourceTypes.TICKET_SLA_POLICY,
+        resourceId: existing.id,
+        description: `Deleted ticket SLA policy: ${existing.name}`,
+        beforeState: existing
+      },
+      req
+    );
+
+    res.json({ message: "SLA policy deleted" });
+  } catch (error) {
+    console.error("Failed to delete SLA policy:", error);
+    res.status(500).json({ message: "Failed to delete SLA policy" });
+  }
+});
+
+export default router;
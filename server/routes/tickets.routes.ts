@@ -6,6 +6,8 @@ import {
   updateTicketSchema,
   insertTicketCommentSchema
 } from "@shared/schema";
+import { ticketSlaService } from "../services/tickets/sla-service";
+import { cmdbService } from "../services/cmdb/cmdb-service";
 import { z } from "zod";
 
 const router = Router();
@@ -18,6 +20,12 @@ const router = Router();
  *     tags: [Tickets]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: slaStatus
+ *         schema:
+ *           type: string
+ *           enum: [on_track, at_risk, breached, paused, met]
  *     responses:
  *       200:
  *         description: Tickets retrieved successfully
@@ -48,6 +56,10 @@ router.get("/", authenticateToken, async (req: Request, res: Response) => {
         return res.status(403).json({ message: "Invalid role" });
     }
 
+    if (typeof req.query.slaStatus === "string") {
+      tickets = tickets.filter(ticket => ticket.slaStatus === req.query.slaStatus);
+    }
+
     res.json(tickets);
   } catch (error) {
     console.error("Failed to fetch tickets:", error);
@@ -109,6 +121,7 @@ router.get("/:id", authenticateToken, async (req: Request, res: Response) => {
  * /api/tickets:
  *   post:
  *     summary: Create new ticket
+ *     description: When the ticket names an asset, the business services that depend on it in the CMDB graph are recorded in impactedServices
  *     tags: [Tickets]
  *     security:
  *       - bearerAuth: []
@@ -137,11 +150,26 @@ router.post("/", authenticateToken, async (req: Request, res: Response) => {
       ...req.body,
       requestorId: user.userId,
       requestorName: `${fullUser.firstName} ${fullUser.lastName}`,
-      tenantId: user.tenantId
+      tenantId: user.tenantId,
+      impactedServices: undefined
     });
 
+    if (ticketData.siteId && !(await storage.getSite(ticketData.siteId, user.tenantId))) {
+      return res.status(400).json({ message: "Invalid site" });
+    }
+
+    // Record which business services depend on the device, as known when the ticket was raised
+    if (ticketData.assetId) {
+      try {
+        const impacted = await cmdbService.getAffectedServices(user.tenantId, [{ type: "asset", id: ticketData.assetId }]);
+        ticketData.impactedServices = impacted.length > 0 ? impacted : null;
+      } catch (error) {
+        console.warn("[Tickets] Could not resolve impacted services:", error);
+      }
+    }
+
     const ticket = await storage.createTicket(ticketData);
-    res.status(201).json(ticket);
+    res.status(201).json(await ticketSlaService.applyPolicy(ticket));
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({
@@ -201,7 +229,22 @@ router.put("/:id", authenticateToken, async (req: Request, res: Response) => {
     // Parse and validate update data (only description, category, priority, assetId, assetName allowed)
     const updateData = updateTicketSchema.parse(req.body);
 
-    const updatedTicket = await storage.updateTicket(ticketId, user.tenantId, updateData);
+    if (updateData.siteId && !(await storage.getSite(updateData.siteId, user.tenantId))) {
+      return res.status(400).json({ message: "Invalid site" });
+    }
+
+    let updatedTicket = await storage.updateTicket(ticketId, user.tenantId, updateData);
+
+    // Category, priority and site drive the SLA policy and calendar
+    const slaInputsChanged = updatedTicket && (
+      updatedTicket.category !== existingTicket.category ||
+      updatedTicket.priority !== existingTicket.priority ||
+      updatedTicket.siteId !== existingTicket.siteId
+    );
+    if (updatedTicket && slaInputsChanged) {
+      updatedTicket = await ticketSlaService.applyPolicy(updatedTicket);
+    }
+
     res.json(updatedTicket);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -261,6 +304,11 @@ router.put("/:id/assign", authenticateToken, requireRole("manager"), async (req:
       return res.status(401).json({ message: "User not found" });
     }
 
+    const existingTicket = await storage.getTicket(ticketId, user.tenantId);
+    if (!existingTicket) {
+      return res.status(404).json({ message: "Ticket not found" });
+    }
+
     const updatedTicket = await storage.assignTicket(
       ticketId,
       user.tenantId,
@@ -274,7 +322,8 @@ router.put("/:id/assign", authenticateToken, requireRole("manager"), async (req:
       return res.status(404).json({ message: "Ticket not found" });
     }
 
-    res.json(updatedTicket);
+    // Assignment moves the ticket to in-progress, which resumes a paused SLA clock
+    res.json(await ticketSlaService.handleStatusChange(existingTicket, updatedTicket));
   } catch (error) {
     console.error("Failed to assign ticket:", error);
     res.status(500).json({ message: "Failed to assign ticket" });
@@ -330,7 +379,7 @@ router.put("/:id/status", authenticateToken, requireRole("technician"), async (r
       return res.status(403).json({ message: "Access denied" });
     }
 
-    const updatedTicket = await storage.updateTicketStatus(
+    let updatedTicket = await storage.updateTicketStatus(
       ticketId,
       user.tenantId,
       status,
@@ -338,6 +387,14 @@ router.put("/:id/status", authenticateToken, requireRole("technician"), async (r
       resolutionNotes
     );
 
+    if (updatedTicket) {
+      // A status change by support staff counts as the first response
+      if (user.userId !== existingTicket.requestorId) {
+        updatedTicket = await ticketSlaService.recordFirstResponse(updatedTicket);
+      }
+      updatedTicket = await ticketSlaService.handleStatusChange(existingTicket, updatedTicket);
+    }
+
     res.json(updatedTicket);
   } catch (error) {
     console.error("Failed to update ticket status:", error);
@@ -487,6 +544,19 @@ router.post("/:id/comments", authenticateToken, async (req: Request, res: Respon
     });
 
     const comment = await storage.addTicketComment(commentData);
+
+    if (user.userId === ticket.requestorId) {
+      // A requestor reply hands the ticket back to support and restarts the SLA clock
+      if (ticket.status === "awaiting-requestor") {
+        const resumed = await storage.updateTicketStatus(ticket.id, user.tenantId, "in-progress");
+        if (resumed) {
+          await ticketSlaService.handleStatusChange(ticket, resumed);
+        }
+      }
+    } else if (!comment.isInternal) {
+      await ticketSlaService.recordFirstResponse(ticket);
+    }
+
     res.status(201).json(comment);
   } catch (error) {
     if (error instanceof z.ZodError) {
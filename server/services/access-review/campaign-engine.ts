@@ -4,7 +4,9 @@
  * Manages quarterly/annual access certification campaigns:
  * - Create and configure campaigns
  * - Generate review items from user access data
- * - Assign reviewers (managers)
+ * - Multi-stage certification (e.g. manager, then app owner, then security for high-risk items)
+ *   with per-stage reviewers and due dates
+ * - Reviewer delegation, item reassignment and conflict-of-interest blocking
  * - Track progress and SLAs
  * - Execute decisions (approve/revoke)
  * - Generate compliance reports
@@ -13,8 +15,23 @@
  */
 
 import { storage } from '../../storage';
-import type { InsertAccessReviewCampaign, InsertAccessReviewItem } from '@shared/schema';
+import {
+  reviewStagesSchema,
+  type AccessReviewCampaign,
+  type AccessReviewDelegation,
+  type AccessReviewItem,
+  type CreateReviewDelegation,
+  type InsertAccessReviewItem,
+  type ReviewStage,
+  type ReviewStageTrailEntry,
+  type SaasApp,
+  type User,
+} from '@shared/schema';
 import { policyEngine } from '../policy/engine';
+import { SSORevocationService, type RevocationResult } from '../offboarding/sso-revocation';
+import { RevocationVerifier } from './revocation-verifier';
+import { summarizeVerification } from './revocation-verification';
+import { campaignStages, nextStageIndex, pickReviewer, stageDeciders, stageDueAt, trailEntry } from './review-stages';
 
 export interface CampaignConfig {
   name: string;
@@ -30,6 +47,8 @@ export interface CampaignConfig {
   startDate: Date;
   dueDate: Date;
   autoApproveOnTimeout?: boolean;
+  stages?: ReviewStage[]; // Defaults to a single manager stage
+  fallbackReviewerId?: string; // Reviews items whose stage resolves no eligible reviewer; defaults to the creator
 }
 
 export interface ReviewItemContext {
@@ -67,6 +86,30 @@ export interface BulkDecision {
   reviewerName: string;
 }
 
+export interface BulkDecisionResult {
+  succeeded: number;
+  failed: number;
+  errors: Array<{ itemId: string; error: string; statusCode: number }>;
+}
+
+export class AccessReviewError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'AccessReviewError';
+  }
+}
+
+interface StageAssignment {
+  currentStage: number;
+  stageName: string;
+  stageDueAt: Date;
+  reviewerId: string | null;
+  reviewerName: string | null;
+  trail: ReviewStageTrailEntry[];
+}
+
+const displayName = (user: User) => `${user.firstName} ${user.lastName}`.trim() || user.email;
+
 /**
  * Access Review Campaign Engine
  */
@@ -79,6 +122,26 @@ export class AccessReviewCampaignEngine {
   async createCampaign(config: CampaignConfig, createdBy: string): Promise<string> {
     console.log(`[AccessReview] Creating campaign: ${config.name}`);
 
+    let stages: ReviewStage[] | null = null;
+    if (config.stages) {
+      const parsed = reviewStagesSchema.safeParse(config.stages);
+      if (!parsed.success) {
+        throw new AccessReviewError(`Invalid stages: ${parsed.error.errors[0]?.message}`);
+      }
+      // Every item needs a first reviewer, so risk filters only apply from the second stage on
+      if (parsed.data[0].riskLevels) {
+        throw new AccessReviewError('The first stage must apply to every item; limit later stages to risk levels instead');
+      }
+      stages = parsed.data;
+    }
+
+    if (config.fallbackReviewerId) {
+      const fallback = await storage.getUser(config.fallbackReviewerId);
+      if (!fallback || fallback.tenantId !== this.tenantId) {
+        throw new AccessReviewError('Fallback reviewer not found', 404);
+      }
+    }
+
     // Create campaign record
     const campaign = await storage.createAccessReviewCampaign({
       tenantId: this.tenantId,
@@ -91,6 +154,8 @@ export class AccessReviewCampaignEngine {
       startDate: config.startDate,
       dueDate: config.dueDate,
       autoApproveOnTimeout: config.autoApproveOnTimeout || false,
+      stages,
+      fallbackReviewerId: config.fallbackReviewerId || null,
       createdBy,
       status: 'draft',
     });
@@ -116,11 +181,14 @@ export class AccessReviewCampaignEngine {
 
     console.log(`[AccessReview] Found ${userAccessList.length} access items to review`);
 
+    // Reviewers on leave hand their first-stage items straight to their delegates
+    const delegations = await storage.getAccessReviewDelegations(this.tenantId, { activeAt: new Date() });
+
     // Create review items
     let itemsCreated = 0;
     for (const access of userAccessList) {
       try {
-        const reviewItem = await this.createReviewItem(campaignId, access);
+        const reviewItem = await this.createReviewItem(campaign, access, delegations);
         if (reviewItem) {
           itemsCreated++;
         }
@@ -174,9 +242,13 @@ export class AccessReviewCampaignEngine {
   }
 
   /**
-   * Create a review item
+   * Create a review item, assigned to the reviewer of its first stage
    */
-  private async createReviewItem(campaignId: string, access: any): Promise<any> {
+  private async createReviewItem(
+    campaign: AccessReviewCampaign,
+    access: any,
+    delegations: AccessReviewDelegation[]
+  ): Promise<AccessReviewItem | null> {
     // Get user details
     const user = await storage.getUser(access.userId);
     const app = await storage.getSaasApp(access.appId, this.tenantId);
@@ -194,14 +266,12 @@ export class AccessReviewCampaignEngine {
     // Determine risk level
     const riskLevel = this.calculateRiskLevel(app, access, daysSinceLastUse);
 
-    // Assign reviewer (user's manager)
-    const reviewerId = user.manager || null;
-    const reviewerName = reviewerId ? (await storage.getUser(reviewerId))?.name : null;
+    const { trail, ...assignment } = await this.assignStage(campaign, 0, user, app, delegations, []);
 
     const reviewItem: InsertAccessReviewItem = {
-      campaignId,
+      campaignId: campaign.id,
       userId: user.id,
-      userName: user.name,
+      userName: displayName(user),
       userEmail: user.email,
       userDepartment: user.department,
       userManager: user.manager,
@@ -213,8 +283,8 @@ export class AccessReviewCampaignEngine {
       daysSinceLastUse,
       businessJustification: access.businessJustification,
       riskLevel,
-      reviewerId,
-      reviewerName,
+      ...assignment,
+      stageTrail: trail,
       decision: 'pending',
       executionStatus: 'pending',
     };
@@ -222,6 +292,79 @@ export class AccessReviewCampaignEngine {
     return await storage.createAccessReviewItem(reviewItem);
   }
 
+  /**
+   * Resolve the reviewer for a stage: the stage's own reviewers, then the campaign fallback
+   * reviewer, then the campaign creator. Active delegations are followed, and anyone who would be
+   * reviewing their own access or who decided an earlier stage is skipped; when nobody is left the
+   * item stays unassigned.
+   */
+  private async assignStage(
+    campaign: AccessReviewCampaign,
+    stageIndex: number,
+    user: User,
+    app: SaasApp | undefined,
+    delegations: AccessReviewDelegation[],
+    trail: ReviewStageTrailEntry[]
+  ): Promise<StageAssignment> {
+    const stages = campaignStages(campaign.stages as ReviewStage[] | null);
+    const stage = stages[stageIndex];
+    const now = new Date();
+
+    const candidates: Array<string | null | undefined> = [];
+    if (stage.reviewerType === 'manager') {
+      candidates.push((await this.resolveUserRef(user.manager))?.id);
+    } else if (stage.reviewerType === 'app_owner') {
+      candidates.push(app?.ownerId ?? (await this.resolveUserRef(app?.owner))?.id);
+    } else {
+      candidates.push(...(stage.reviewerIds ?? []));
+    }
+    candidates.push(campaign.fallbackReviewerId, campaign.createdBy);
+
+    const pick = pickReviewer(candidates, user.id, delegations, now, stageDeciders(trail));
+    const reviewer = pick ? await storage.getUser(pick.reviewerId) : undefined;
+    const reviewerName = reviewer ? displayName(reviewer) : null;
+
+    const entry = trailEntry({
+      stage: stageIndex,
+      stageName: stage.name,
+      action: reviewer ? 'assigned' : 'blocked_conflict',
+      reviewerId: reviewer?.id ?? null,
+      reviewerName,
+      actorId: null,
+      actorName: 'System',
+      notes: pick && pick.delegatedFrom.length > 0
+        ? `Delegated by ${await this.describeUsers(pick.delegatedFrom)}`
+        : reviewer ? undefined : 'No reviewer without a conflict of interest; reassign the item',
+    }, now);
+
+    return {
+      currentStage: stageIndex,
+      stageName: stage.name,
+      stageDueAt: stageDueAt(stage, now, new Date(campaign.dueDate)),
+      reviewerId: reviewer?.id ?? null,
+      reviewerName,
+      trail: [...trail, entry],
+    };
+  }
+
+  private async describeUsers(userIds: string[]): Promise<string> {
+    const names = await Promise.all(userIds.map(async id => {
+      const user = await storage.getUser(id);
+      return user ? displayName(user) : id;
+    }));
+    return names.join(' via ');
+  }
+
+  /**
+   * users.manager and saasApps.owner hold a user id, username or email
+   */
+  private async resolveUserRef(ref: string | null | undefined): Promise<User | undefined> {
+    if (!ref) return undefined;
+    const user = (await storage.getUser(ref)) ?? (await storage.getUserByUsername(ref)) ??
+      (await storage.getUserByEmail(ref, this.tenantId));
+    return user?.tenantId === this.tenantId ? user : undefined;
+  }
+
   /**
    * Calculate risk level for an access item
    */
@@ -262,7 +405,9 @@ export class AccessReviewCampaignEngine {
   }
 
   /**
-   * Submit a review decision for an item
+   * Submit a review decision for an item. Approving at a stage that has later applicable stages
+   * moves the item to the next stage's reviewer; revoking or deferring is final at any stage.
+   * Each stage needs a different reviewer, so one sign-off never certifies several stages.
    */
   async submitDecision(
     itemId: string,
@@ -270,22 +415,33 @@ export class AccessReviewCampaignEngine {
     notes: string | undefined,
     reviewerId: string,
     reviewerName: string
-  ): Promise<void> {
+  ): Promise<AccessReviewItem> {
     console.log(`[AccessReview] Submitting decision for item ${itemId}: ${decision}`);
 
-    const item = await storage.getAccessReviewItem(itemId);
-    if (!item) {
-      throw new Error('Review item not found');
+    const { item, campaign } = await this.getItemWithCampaign(itemId);
+    if (item.decision !== 'pending') {
+      throw new AccessReviewError('Review item has already been decided', 409);
+    }
+    if (reviewerId === item.userId) {
+      throw new AccessReviewError('Reviewers cannot certify their own access', 403);
+    }
+    if (stageDeciders(item.stageTrail ?? [], item.currentStage).includes(reviewerId)) {
+      throw new AccessReviewError('You already decided an earlier stage of this item; a different reviewer must decide this stage', 403);
     }
 
-    // Update review item
-    await storage.updateAccessReviewItem(itemId, {
-      decision,
-      decisionNotes: notes,
+    const stages = campaignStages(campaign.stages as ReviewStage[] | null);
+    const stage = stages[item.currentStage] ?? stages[0];
+    const decisionEntry = trailEntry({
+      stage: item.currentStage,
+      stageName: item.stageName ?? stage.name,
+      action: decision,
       reviewerId,
       reviewerName,
-      reviewedAt: new Date(),
+      actorId: reviewerId,
+      actorName: reviewerName,
+      notes,
     });
+    const trail = [...(item.stageTrail ?? []), decisionEntry];
 
     // Create decision record for audit trail
     await storage.createAccessReviewDecision({
@@ -293,28 +449,59 @@ export class AccessReviewCampaignEngine {
       reviewItemId: itemId,
       decision,
       decisionNotes: notes,
-      decisionRationale: notes,
+      decisionRationale: stages.length > 1 ? `${decisionEntry.stageName}: ${notes ?? decision}` : notes,
       reviewerId,
       reviewerName,
       reviewerEmail: (await storage.getUser(reviewerId))?.email,
       executionStatus: 'pending',
     });
 
-    // Update campaign progress
-    await this.updateCampaignProgress(item.campaignId);
+    const nextStage = decision === 'approved'
+      ? nextStageIndex(stages, item.currentStage, item.riskLevel)
+      : null;
+
+    let updated: AccessReviewItem | undefined;
+    if (nextStage !== null) {
+      const user = await storage.getUser(item.userId);
+      if (!user) {
+        throw new AccessReviewError('Reviewed user no longer exists', 409);
+      }
+      const app = await storage.getSaasApp(item.appId, this.tenantId);
+      const delegations = await storage.getAccessReviewDelegations(this.tenantId, { activeAt: new Date() });
+      const { trail: stageTrail, ...assignment } = await this.assignStage(campaign, nextStage, user, app, delegations, trail);
+
+      updated = await storage.updateAccessReviewItem(itemId, { ...assignment, stageTrail });
+      console.log(`[AccessReview] Item ${itemId} moved to stage "${assignment.stageName}"`);
+    } else {
+      updated = await storage.updateAccessReviewItem(itemId, {
+        decision,
+        decisionNotes: notes,
+        reviewerId,
+        reviewerName,
+        reviewedAt: new Date(),
+        stageTrail: trail,
+      });
 
-    // Execute decision if revoked
-    if (decision === 'revoked') {
-      await this.executeRevocation(item);
+      // Update campaign progress
+      await this.updateCampaignProgress(item.campaignId);
+
+      // Execute decision if revoked
+      if (decision === 'revoked') {
+        await this.executeRevocation(item);
+      }
     }
+
+    return updated!;
   }
 
   /**
-   * Submit bulk decisions
+   * Submit bulk decisions. Items are decided independently; those that cannot be decided (own
+   * access, already decided, an earlier stage decided by the same reviewer) are reported back.
    */
-  async submitBulkDecision(bulkDecision: BulkDecision): Promise<void> {
+  async submitBulkDecision(bulkDecision: BulkDecision): Promise<BulkDecisionResult> {
     console.log(`[AccessReview] Submitting bulk decision for ${bulkDecision.itemIds.length} items`);
 
+    const result: BulkDecisionResult = { succeeded: 0, failed: 0, errors: [] };
     for (const itemId of bulkDecision.itemIds) {
       try {
         await this.submitDecision(
@@ -324,38 +511,198 @@ export class AccessReviewCampaignEngine {
           bulkDecision.reviewerId,
           bulkDecision.reviewerName
         );
+        result.succeeded++;
       } catch (error) {
         console.error(`[AccessReview] Error processing item ${itemId}:`, error);
+        result.failed++;
+        result.errors.push({
+          itemId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          statusCode: error instanceof AccessReviewError ? error.statusCode : 500,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Hand a pending item to another reviewer at its current stage
+   */
+  async reassignItem(
+    itemId: string,
+    reviewerId: string,
+    reason: string,
+    actorId: string,
+    actorName: string
+  ): Promise<AccessReviewItem> {
+    const { item, campaign } = await this.getItemWithCampaign(itemId);
+    if (campaign.status !== 'active') {
+      throw new AccessReviewError('Only items in active campaigns can be reassigned', 409);
+    }
+    if (item.decision !== 'pending') {
+      throw new AccessReviewError('Review item has already been decided', 409);
+    }
+    if (reviewerId === item.userId) {
+      throw new AccessReviewError('Reviewers cannot certify their own access', 403);
+    }
+
+    const reviewer = await storage.getUser(reviewerId);
+    if (!reviewer || reviewer.tenantId !== this.tenantId || !reviewer.isActive) {
+      throw new AccessReviewError('Reviewer not found', 404);
+    }
+
+    const reviewerName = displayName(reviewer);
+    const updated = await storage.updateAccessReviewItem(itemId, {
+      reviewerId,
+      reviewerName,
+      stageTrail: [...(item.stageTrail ?? []), trailEntry({
+        stage: item.currentStage,
+        stageName: item.stageName ?? campaignStages(campaign.stages as ReviewStage[] | null)[0].name,
+        action: 'reassigned',
+        reviewerId,
+        reviewerName,
+        actorId,
+        actorName,
+        notes: reason,
+      })],
+    });
+
+    console.log(`[AccessReview] Item ${itemId} reassigned to ${reviewerName}`);
+    return updated!;
+  }
+
+  async listDelegations(delegatorId?: string): Promise<AccessReviewDelegation[]> {
+    return storage.getAccessReviewDelegations(this.tenantId, { delegatorId });
+  }
+
+  /**
+   * Delegate a reviewer's reviews for a period. Once the delegation is active, new stage
+   * assignments go to the delegate; creating an already-active delegation also moves the
+   * delegator's pending items in active campaigns, except items about the delegate's own access.
+   */
+  async createDelegation(
+    input: CreateReviewDelegation & { delegatorId: string },
+    createdBy: string,
+    createdByName: string
+  ): Promise<{ delegation: AccessReviewDelegation; reassignedItems: number }> {
+    if (input.delegatorId === input.delegateId) {
+      throw new AccessReviewError('A reviewer cannot delegate to themselves');
+    }
+
+    const [delegator, delegate] = await Promise.all([
+      storage.getUser(input.delegatorId),
+      storage.getUser(input.delegateId),
+    ]);
+    if (!delegator || delegator.tenantId !== this.tenantId) {
+      throw new AccessReviewError('Delegating reviewer not found', 404);
+    }
+    if (!delegate || delegate.tenantId !== this.tenantId || !delegate.isActive) {
+      throw new AccessReviewError('Delegate not found', 404);
+    }
+
+    const delegation = await storage.createAccessReviewDelegation({
+      tenantId: this.tenantId,
+      delegatorId: input.delegatorId,
+      delegateId: input.delegateId,
+      startsAt: input.startsAt,
+      endsAt: input.endsAt,
+      reason: input.reason,
+      createdBy,
+    });
+
+    let reassignedItems = 0;
+    const now = new Date();
+    if (input.startsAt <= now && input.endsAt > now) {
+      const delegateName = displayName(delegate);
+      const campaigns = await storage.getAccessReviewCampaigns(this.tenantId, { status: 'active' });
+      for (const campaign of campaigns) {
+        const pending = await storage.getAccessReviewItemsPending(campaign.id);
+        for (const item of pending) {
+          if (item.reviewerId !== input.delegatorId || item.userId === input.delegateId) continue;
+          await storage.updateAccessReviewItem(item.id, {
+            reviewerId: delegate.id,
+            reviewerName: delegateName,
+            stageTrail: [...(item.stageTrail ?? []), trailEntry({
+              stage: item.currentStage,
+              stageName: item.stageName ?? campaignStages(campaign.stages as ReviewStage[] | null)[0].name,
+              action: 'delegated',
+              reviewerId: delegate.id,
+              reviewerName: delegateName,
+              actorId: createdBy,
+              actorName: createdByName,
+              notes: `Delegated by ${displayName(delegator)} until ${input.endsAt.toISOString().slice(0, 10)}${input.reason ? `: ${input.reason}` : ''}`,
+            }, now)],
+          });
+          reassignedItems++;
+        }
       }
     }
+
+    console.log(`[AccessReview] Delegation ${delegation.id} created (${reassignedItems} pending items moved)`);
+    return { delegation, reassignedItems };
+  }
+
+  /**
+   * End a delegation early. Items already handed to the delegate stay with them.
+   */
+  async revokeDelegation(delegationId: string): Promise<AccessReviewDelegation> {
+    const delegation = await storage.getAccessReviewDelegation(delegationId, this.tenantId);
+    if (!delegation) {
+      throw new AccessReviewError('Delegation not found', 404);
+    }
+    if (delegation.revokedAt) {
+      throw new AccessReviewError('Delegation is already revoked', 409);
+    }
+
+    const updated = await storage.updateAccessReviewDelegation(delegationId, this.tenantId, { revokedAt: new Date() });
+    return updated!;
   }
 
   /**
-   * Execute access revocation
+   * Review items carry no tenant id; tenancy comes from the campaign
    */
-  private async executeRevocation(item: any): Promise<void> {
+  async getItemWithCampaign(itemId: string): Promise<{ item: AccessReviewItem; campaign: AccessReviewCampaign }> {
+    const item = await storage.getAccessReviewItem(itemId);
+    const campaign = item ? await storage.getAccessReviewCampaign(item.campaignId, this.tenantId) : undefined;
+    if (!item || !campaign) {
+      throw new AccessReviewError('Review item not found', 404);
+    }
+    return { item, campaign };
+  }
+
+  /**
+   * Execute access revocation, then track it until an IdP sync confirms the access is gone
+   */
+  private async executeRevocation(item: AccessReviewItem): Promise<void> {
     console.log(`[AccessReview] Executing revocation for ${item.userName} - ${item.appName}`);
 
+    let result: RevocationResult;
     try {
-      // Use Phase 3 offboarding SSO/OAuth revocation if available
-      // For now, just update the user_app_access status
-      await storage.revokeUserAppAccess(item.userId, item.appId, this.tenantId);
+      result = await new SSORevocationService(this.tenantId).revokeAccess(item.userId, item.appId);
 
-      // Update execution status
       await storage.updateAccessReviewItem(item.id, {
-        executionStatus: 'completed',
+        executionStatus: result.success ? 'completed' : 'failed',
         executedAt: new Date(),
+        executionError: result.success ? null : result.message,
       });
 
-      console.log(`[AccessReview] Revocation completed for ${item.userName} - ${item.appName}`);
+      console.log(`[AccessReview] Revocation ${result.success ? 'completed' : 'failed'} for ${item.userName} - ${item.appName}: ${result.message}`);
     } catch (error) {
       console.error(`[AccessReview] Revocation failed:`, error);
+      result = { success: false, message: error instanceof Error ? error.message : 'Unknown error' };
 
       await storage.updateAccessReviewItem(item.id, {
         executionStatus: 'failed',
-        executionError: error instanceof Error ? error.message : 'Unknown error',
+        executionError: result.message,
       });
     }
+
+    try {
+      await new RevocationVerifier(this.tenantId).track(item, result);
+    } catch (error) {
+      console.error(`[AccessReview] Failed to track revocation for verification:`, error);
+    }
   }
 
   /**
@@ -445,21 +792,29 @@ export class AccessReviewCampaignEngine {
   }
 
   /**
-   * Generate completion report for compliance
+   * Build the compliance report for a campaign, stating for each revocation whether an IdP sync
+   * has verified the access is gone
    */
-  private async generateCompletionReport(campaignId: string): Promise<string> {
+  async buildCompletionReport(campaignId: string) {
     const campaign = await storage.getAccessReviewCampaign(campaignId, this.tenantId);
+    if (!campaign) {
+      throw new AccessReviewError('Campaign not found', 404);
+    }
     const items = await storage.getAccessReviewItems(campaignId);
     const decisions = await storage.getAccessReviewDecisions(campaignId);
+    const revocations = await new RevocationVerifier(this.tenantId).getRevocations(campaignId);
 
-    const report = {
+    const revokedItemIds = items.filter(i => i.decision === 'revoked').map(i => i.id);
+    const verification = summarizeVerification(revokedItemIds, revocations);
+
+    return {
       campaign: {
         id: campaign.id,
         name: campaign.name,
         type: campaign.campaignType,
         startDate: campaign.startDate,
         dueDate: campaign.dueDate,
-        completedAt: new Date(),
+        completedAt: campaign.completedAt ?? new Date(),
       },
       summary: {
         totalItems: campaign.totalItems || 0,
@@ -470,6 +825,11 @@ export class AccessReviewCampaignEngine {
         completionRate: campaign.totalItems
           ? Math.round(((campaign.reviewedItems || 0) / campaign.totalItems) * 100)
           : 0,
+        revocationVerification: {
+          revokedAndVerified: verification.revokedAndVerified,
+          pendingVerification: verification.pendingVerification,
+          escalated: verification.escalated,
+        },
       },
       decisions: decisions.map(d => ({
         user: items.find(i => i.id === d.reviewItemId)?.userName,
@@ -477,19 +837,27 @@ export class AccessReviewCampaignEngine {
         decision: d.decision,
         reviewer: d.reviewerName,
         timestamp: d.createdAt,
+        verification: verification.byItem.get(d.reviewItemId) ?? null,
       })),
       auditTrail: {
         totalDecisions: decisions.length,
         uniqueReviewers: new Set(decisions.map(d => d.reviewerId)).size,
         accessRevoked: campaign.revokedItems || 0,
         executionSuccessRate: items.filter(i => i.executionStatus === 'completed').length /
-          Math.max(items.filter(i => i.decision === 'revoked').length, 1) * 100,
+          Math.max(revokedItemIds.length, 1) * 100,
       },
     };
+  }
+
+  /**
+   * Generate completion report for compliance
+   */
+  private async generateCompletionReport(campaignId: string): Promise<string> {
+    const report = await this.buildCompletionReport(campaignId);
 
     // In a real implementation, this would be saved to S3 or similar storage
-    // For now, return a placeholder URL
-    const reportUrl = `/api/access-reviews/campaigns/${campaignId}/report.pdf`;
+    // For now, return the URL the report is served from
+    const reportUrl = `/api/access-reviews/campaigns/${campaignId}/report`;
 
     console.log(`[AccessReview] Generated compliance report:`, report);
 
@@ -526,8 +894,8 @@ export class AccessReviewCampaignEngine {
       if (reviewer?.email) {
         console.log(`[AccessReview] Sending reminder to ${reviewer.name} (${items.length} pending items)`);
 
-        // Calculate days remaining
-        const dueDate = new Date(campaign.dueDate);
+        // Calculate days remaining, to the reviewer's earliest stage due date
+        const dueDate = new Date(Math.min(...items.map((item: AccessReviewItem) => new Date(item.stageDueAt ?? campaign.dueDate).getTime())));
         const now = new Date();
         const daysRemaining = Math.ceil((dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
 
@@ -816,6 +1184,11 @@ This escalation email was sent automatically by the ${orgName} IT Asset Manageme
 
     const items = await storage.getAccessReviewItems(campaignId);
     const decisions = await storage.getAccessReviewDecisions(campaignId);
+    const revocations = await new RevocationVerifier(this.tenantId).getRevocations(campaignId);
+    const verification = summarizeVerification(
+      items.filter(item => item.decision === 'revoked').map(item => item.id),
+      revocations
+    );
 
     // Create CSV header
     const headers = [
@@ -832,11 +1205,14 @@ This escalation email was sent automatically by the ${orgName} IT Asset Manageme
       'Days Since Last Use',
       'Business Justification',
       'Decision',
+      'Stage',
       'Reviewer Name',
       'Decision Date',
       'Decision Notes',
       'Execution Status',
-      'Executed At'
+      'Executed At',
+      'Revocation Verification',
+      'Stage Trail'
     ];
 
     // Create CSV rows
@@ -856,11 +1232,16 @@ This escalation email was sent automatically by the ${orgName} IT Asset Manageme
         item.daysSinceLastUse !== null && item.daysSinceLastUse !== undefined ? item.daysSinceLastUse.toString() : '',
         item.businessJustification || '',
         item.decision || 'pending',
+        item.stageName || '',
         decision?.reviewerName || '',
         decision?.createdAt ? new Date(decision.createdAt).toISOString() : '',
         item.decisionNotes || '',
         item.executionStatus || '',
-        item.executedAt ? new Date(item.executedAt).toISOString() : ''
+        item.executedAt ? new Date(item.executedAt).toISOString() : '',
+        verification.byItem.get(item.id) ?? '',
+        (item.stageTrail ?? [])
+          .map(entry => `${entry.at.slice(0, 10)} ${entry.stageName}: ${entry.action}${entry.reviewerName ? ` (${entry.reviewerName})` : ''}`)
+          .join('; ')
       ].map(field => {
         // Escape quotes and wrap in quotes if contains comma, newline, or quote
         const escaped = field.replace(/"/g, '""');
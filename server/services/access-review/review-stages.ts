@@ -0,0 +1,117 @@
+/**
+ * Access Review Stages
+ *
+ * Storage-free rules behind multi-stage certification:
+ * - Which stages an item passes through (stages can be limited to risk levels)
+ * - Per-stage due dates, capped at the campaign due date
+ * - Reviewer eligibility: active delegations are followed, nobody reviews their own access, and
+ *   nobody decides more than one stage of the same item
+ */
+
+import type { AccessReviewDelegation, ReviewStage, ReviewStageTrailEntry } from '@shared/schema';
+
+// Campaigns without configured stages keep the original single manager review
+export const DEFAULT_REVIEW_STAGES: ReviewStage[] = [
+  { name: 'Manager review', reviewerType: 'manager' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DECISION_ACTIONS = new Set(['approved', 'revoked', 'deferred']);
+
+export function campaignStages(stages: ReviewStage[] | null | undefined): ReviewStage[] {
+  return stages && stages.length > 0 ? stages : DEFAULT_REVIEW_STAGES;
+}
+
+export function stageApplies(stage: ReviewStage, riskLevel: string | null | undefined): boolean {
+  if (!stage.riskLevels || stage.riskLevels.length === 0) return true;
+  return !!riskLevel && (stage.riskLevels as string[]).includes(riskLevel);
+}
+
+/**
+ * The first stage after `afterIndex` that applies to an item of this risk level, or null when the
+ * item has passed its last stage. Pass -1 to find the item's first stage.
+ */
+export function nextStageIndex(
+  stages: ReviewStage[],
+  afterIndex: number,
+  riskLevel: string | null | undefined
+): number | null {
+  for (let index = afterIndex + 1; index < stages.length; index++) {
+    if (stageApplies(stages[index], riskLevel)) return index;
+  }
+  return null;
+}
+
+export function stageDueAt(stage: ReviewStage, enteredAt: Date, campaignDueDate: Date): Date {
+  if (!stage.dueInDays) return campaignDueDate;
+  const due = new Date(enteredAt.getTime() + stage.dueInDays * DAY_MS);
+  return due < campaignDueDate ? due : campaignDueDate;
+}
+
+/**
+ * Who actually reviews for `reviewerId` at `at`, following delegation chains (A to B while B is
+ * delegating to C gives C). Loops end at the last reviewer before the loop closes.
+ */
+export function resolveDelegate(
+  reviewerId: string,
+  delegations: AccessReviewDelegation[],
+  at: Date
+): { reviewerId: string; delegatedFrom: string[] } {
+  const delegatedFrom: string[] = [];
+  let current = reviewerId;
+  const visited = new Set([current]);
+
+  for (;;) {
+    const delegation = delegations.find(candidate =>
+      candidate.delegatorId === current &&
+      !candidate.revokedAt &&
+      candidate.startsAt <= at &&
+      candidate.endsAt > at
+    );
+    if (!delegation || visited.has(delegation.delegateId)) break;
+    delegatedFrom.push(current);
+    current = delegation.delegateId;
+    visited.add(current);
+  }
+
+  return { reviewerId: current, delegatedFrom };
+}
+
+export interface ReviewerPick {
+  reviewerId: string;
+  delegatedFrom: string[];
+}
+
+/**
+ * The first candidate who can review the subject's access once delegations are applied.
+ * Candidates that resolve to the subject themselves (conflict of interest) or to someone in
+ * `excluded` are skipped.
+ */
+export function pickReviewer(
+  candidates: Array<string | null | undefined>,
+  subjectUserId: string,
+  delegations: AccessReviewDelegation[],
+  at: Date,
+  excluded: string[] = []
+): ReviewerPick | null {
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const resolved = resolveDelegate(candidate, delegations, at);
+    if (resolved.reviewerId !== subjectUserId && !excluded.includes(resolved.reviewerId)) return resolved;
+  }
+  return null;
+}
+
+/**
+ * Everyone who decided a stage of the item other than `stage`, from its trail
+ */
+export function stageDeciders(trail: ReviewStageTrailEntry[], stage?: number): string[] {
+  return Array.from(new Set(trail
+    .filter(entry => entry.stage !== stage && DECISION_ACTIONS.has(entry.action) && entry.actorId)
+    .map(entry => entry.actorId!)));
+}
+
+export function trailEntry(entry: Omit<ReviewStageTrailEntry, 'at'>, at: Date = new Date()): ReviewStageTrailEntry {
+  return { ...entry, at: at.toISOString() };
+}
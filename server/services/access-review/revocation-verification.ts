@@ -0,0 +1,113 @@
+/**
+ * Access Review Revocation Verification
+ *
+ * Storage-free rules for closing the loop on "revoke" decisions:
+ * - Which discovered IdP apps correspond to a SaaS app
+ * - Whether a sync still reports the revoked access
+ * - Whether to re-attempt the revocation or escalate it to a ticket
+ * - Verified vs pending counts for campaign reports
+ */
+
+import type { DiscoveredApp, DiscoveredUserAccess } from '../idp/connector.interface';
+
+// remediation_executions.type of a revocation awaiting verification
+export const REVOCATION_REMEDIATION_TYPE = 'access_review_revocation';
+
+// Attempts (the original revocation included) before a still-present grant is escalated
+export const MAX_REVOCATION_ATTEMPTS = 3;
+
+export type RevocationStatus = 'pending_verification' | 'verified' | 'escalated';
+
+export interface RevocationAttempt {
+  at: string;
+  success: boolean;
+  message: string;
+}
+
+export interface RevocationMetadata {
+  campaignId: string;
+  reviewItemId: string;
+  userId: string;
+  userEmail: string | null;
+  appId: string;
+  attempts: RevocationAttempt[];
+  lastCheckedAt?: string;
+  lastCheckedIdpId?: string;
+  verifiedAt?: string;
+  verifiedByIdpId?: string;
+  ticketId?: string;
+  ticketNumber?: string;
+}
+
+export type VerificationOutcome = 'removed' | 'still_present' | 'not_covered';
+
+/**
+ * External ids of the discovered apps that are this SaaS app: the id it was created from during
+ * discovery, or the same name
+ */
+export function matchDiscoveredApps(
+  app: { name: string; metadata?: unknown },
+  discovered: Pick<DiscoveredApp, 'externalId' | 'name'>[]
+): string[] {
+  const externalId = (app.metadata as { externalId?: string } | null | undefined)?.externalId;
+  const name = app.name.trim().toLowerCase();
+  return discovered
+    .filter(candidate => candidate.externalId === externalId || candidate.name.trim().toLowerCase() === name)
+    .map(candidate => candidate.externalId);
+}
+
+const accessKey = (subject: string, appExternalId: string) => `${subject.trim().toLowerCase()}|${appExternalId}`;
+
+export function indexDiscoveredAccess(userAccess: Pick<DiscoveredUserAccess, 'userId' | 'appExternalId'>[]): Set<string> {
+  return new Set(userAccess.map(access => accessKey(access.userId, access.appExternalId)));
+}
+
+/**
+ * Whether a sync shows the revoked access gone. A sync only speaks for apps it discovered, and
+ * only when it reported access grants at all (some connectors cannot list them).
+ */
+export function verifyRemoval(
+  subjects: Array<string | null | undefined>,
+  appExternalIds: string[],
+  discoveredAccess: Set<string>
+): VerificationOutcome {
+  if (appExternalIds.length === 0 || discoveredAccess.size === 0) return 'not_covered';
+  const present = appExternalIds.some(externalId =>
+    subjects.some(subject => !!subject && discoveredAccess.has(accessKey(subject, externalId)))
+  );
+  return present ? 'still_present' : 'removed';
+}
+
+export function nextStep(attemptCount: number, maxAttempts: number = MAX_REVOCATION_ATTEMPTS): 'retry' | 'escalate' {
+  return attemptCount < maxAttempts ? 'retry' : 'escalate';
+}
+
+export interface VerificationSummary {
+  revokedAndVerified: number;
+  pendingVerification: number;
+  escalated: number;
+  byItem: Map<string, RevocationStatus>;
+}
+
+/**
+ * Verification status of each revoked item. Revocations made before verification tracking
+ * existed count as pending: nothing has confirmed them.
+ */
+export function summarizeVerification(
+  revokedItemIds: string[],
+  revocations: Array<{ sourceId: string | null; status: string }>
+): VerificationSummary {
+  const bySource = new Map(revocations.map(revocation => [revocation.sourceId, revocation.status as RevocationStatus]));
+  const byItem = new Map<string, RevocationStatus>();
+  for (const itemId of revokedItemIds) {
+    byItem.set(itemId, bySource.get(itemId) ?? 'pending_verification');
+  }
+
+  const statuses = Array.from(byItem.values());
+  return {
+    revokedAndVerified: statuses.filter(status => status === 'verified').length,
+    pendingVerification: statuses.filter(status => status === 'pending_verification').length,
+    escalated: statuses.filter(status => status === 'escalated').length,
+    byItem,
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Access Review Revocation Verifier
+ *
+ * Tracks every access review revocation as a remediation item until an IdP sync confirms the
+ * access is gone:
+ * - Each "revoke" decision opens a remediation_executions row (pending_verification)
+ * - After each IdP full sync, grants the IdP no longer reports are marked verified
+ * - Grants still reported are revoked again, and escalated to a ticket after MAX_REVOCATION_ATTEMPTS
+ */
+
+import { storage } from '../../storage';
+import type { AccessReviewItem, RemediationExecution } from '@shared/schema';
+import type { DiscoveredApp, DiscoveredUserAccess } from '../idp/connector.interface';
+import { SSORevocationService, type RevocationResult } from '../offboarding/sso-revocation';
+import { ticketSlaService } from '../tickets/sla-service';
+import {
+  REVOCATION_REMEDIATION_TYPE,
+  indexDiscoveredAccess,
+  matchDiscoveredApps,
+  nextStep,
+  verifyRemoval,
+  type RevocationMetadata,
+} from './revocation-verification';
+
+export interface RevocationVerificationStats {
+  checked: number;
+  verified: number;
+  retried: number;
+  escalated: number;
+}
+
+const HIGH_RISK_LEVELS = ['high', 'critical'];
+
+export class RevocationVerifier {
+  constructor(private tenantId: string) {}
+
+  /**
+   * Open a remediation item for a revocation that was just attempted
+   */
+  async track(item: AccessReviewItem, result: RevocationResult): Promise<RemediationExecution> {
+    const metadata: RevocationMetadata = {
+      campaignId: item.campaignId,
+      reviewItemId: item.id,
+      userId: item.userId,
+      userEmail: item.userEmail,
+      appId: item.appId,
+      attempts: [{ at: new Date().toISOString(), success: result.success, message: result.message }],
+    };
+
+    return storage.createRemediationExecution({
+      tenantId: this.tenantId,
+      type: REVOCATION_REMEDIATION_TYPE,
+      sourceType: 'access_review_item',
+      sourceId: item.id,
+      appName: item.appName,
+      status: 'pending_verification',
+      priority: HIGH_RISK_LEVELS.includes(item.riskLevel ?? '') ? 'high' : 'medium',
+      description: `Revoke ${item.userName}'s access to ${item.appName} (access review)`,
+      executedAt: new Date(),
+      result: result.message,
+      metadata,
+    });
+  }
+
+  async getRevocations(campaignId?: string): Promise<RemediationExecution[]> {
+    const revocations = await storage.getRemediationExecutions(this.tenantId, { type: REVOCATION_REMEDIATION_TYPE });
+    return campaignId
+      ? revocations.filter(revocation => (revocation.metadata as RevocationMetadata | null)?.campaignId === campaignId)
+      : revocations;
+  }
+
+  /**
+   * Check pending revocations against what an IdP full sync discovered
+   */
+  async verifyAgainstSync(
+    idpId: string,
+    apps: DiscoveredApp[],
+    userAccess: DiscoveredUserAccess[]
+  ): Promise<RevocationVerificationStats> {
+    const stats: RevocationVerificationStats = { checked: 0, verified: 0, retried: 0, escalated: 0 };
+    const pending = await storage.getRemediationExecutions(this.tenantId, {
+      type: REVOCATION_REMEDIATION_TYPE,
+      status: 'pending_verification',
+    });
+    if (pending.length === 0) return stats;
+
+    const discoveredAccess = indexDiscoveredAccess(userAccess);
+    const now = new Date();
+
+    for (const revocation of pending) {
+      const metadata = revocation.metadata as RevocationMetadata;
+      const app = await storage.getSaasApp(metadata.appId, this.tenantId);
+      const outcome = app
+        ? verifyRemoval([metadata.userEmail, metadata.userId], matchDiscoveredApps(app, apps), discoveredAccess)
+        : 'removed'; // The app itself is gone
+      if (outcome === 'not_covered') continue;
+
+      stats.checked++;
+      const checked: RevocationMetadata = { ...metadata, lastCheckedAt: now.toISOString(), lastCheckedIdpId: idpId };
+
+      if (outcome === 'removed') {
+        await storage.updateRemediationExecution(revocation.id, this.tenantId, {
+          status: 'verified',
+          completedAt: now,
+          metadata: { ...checked, verifiedAt: now.toISOString(), verifiedByIdpId: idpId },
+        });
+        stats.verified++;
+        continue;
+      }
+
+      if (nextStep(metadata.attempts.length) === 'retry') {
+        const result = await new SSORevocationService(this.tenantId).revokeAccess(metadata.userId, metadata.appId, { force: true });
+        await storage.updateRemediationExecution(revocation.id, this.tenantId, {
+          executedAt: now,
+          result: result.message,
+          metadata: {
+            ...checked,
+            attempts: [...metadata.attempts, { at: now.toISOString(), success: result.success, message: result.message }],
+          },
+        });
+        console.log(`[RevocationVerifier] Access still present for ${revocation.description}; re-attempted (${metadata.attempts.length + 1})`);
+        stats.retried++;
+        continue;
+      }
+
+      const ticket = await this.escalate(revocation, metadata);
+      await storage.updateRemediationExecution(revocation.id, this.tenantId, {
+        status: 'escalated',
+        notes: ticket ? `Escalated to ticket ${ticket.ticketNumber}` : 'Escalated; no requestor available for a ticket',
+        metadata: { ...checked, ticketId: ticket?.id, ticketNumber: ticket?.ticketNumber },
+      });
+      stats.escalated++;
+    }
+
+    console.log(`[RevocationVerifier] Sync ${idpId}: ${stats.checked} checked, ${stats.verified} verified, ${stats.retried} retried, ${stats.escalated} escalated`);
+    return stats;
+  }
+
+  /**
+   * Hand a revocation that keeps failing to the service desk, raised on behalf of the reviewer
+   * who revoked it (or the campaign owner)
+   */
+  private async escalate(revocation: RemediationExecution, metadata: RevocationMetadata) {
+    const item = await storage.getAccessReviewItem(metadata.reviewItemId);
+    const campaign = await storage.getAccessReviewCampaign(metadata.campaignId, this.tenantId);
+    const requestor = (item?.reviewerId && await storage.getUser(item.reviewerId)) ||
+      (campaign && await storage.getUser(campaign.createdBy));
+    if (!requestor) return null;
+
+    const attempts = metadata.attempts
+      .map(attempt => `- ${attempt.at}: ${attempt.success ? 'succeeded' : 'failed'} (${attempt.message})`)
+      .join('\n');
+    const ticket = await storage.createTicket({
+      tenantId: this.tenantId,
+      title: `Access still present after revocation: ${item?.userName ?? metadata.userEmail} / ${revocation.appName}`,
+      description: `Access review "${campaign?.name ?? metadata.campaignId}" revoked this access, but identity provider syncs still report it after ${metadata.attempts.length} attempt(s). Remove it manually in the app or IdP.`
+        + `\n\nUser: ${item?.userName ?? metadata.userId}${metadata.userEmail ? ` <${metadata.userEmail}>` : ''}`
+        + `\nApplication: ${revocation.appName}`
+        + `\n\nRevocation attempts:\n${attempts}`,
+      category: 'account',
+      priority: revocation.priority === 'high' ? 'high' : 'medium',
+      requestorId: requestor.id,
+      requestorName: `${requestor.firstName} ${requestor.lastName}`.trim() || requestor.email,
+      requestorEmail: requestor.email,
+      tags: ['access-review', 'revocation'],
+    });
+    await ticketSlaService.applyPolicy(ticket);
+
+    console.log(`[RevocationVerifier] Escalated revocation ${revocation.id} to ticket ${ticket.ticketNumber}`);
+    return ticket;
+  }
+}
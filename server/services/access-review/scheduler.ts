@@ -6,12 +6,16 @@
  * - Daily privilege drift scans
  * - Weekly overprivileged account scans
  * - SLA reminder emails
+ * - Expiry of time-bound access request grants
+ * - Expiry of break-glass sessions
  */
 
 import { storage } from '../../storage';
 import { AccessReviewCampaignEngine } from './campaign-engine';
 import { PrivilegeDriftDetector } from './privilege-drift';
 import { OverprivilegedAccountDetector } from './overprivileged-detector';
+import { AccessRequestService } from '../advanced/access-request';
+import { BreakGlassService } from '../advanced/break-glass';
 import type { CampaignConfig } from './campaign-engine';
 
 export class AccessReviewScheduler {
@@ -152,6 +156,51 @@ export class AccessReviewScheduler {
     }
   }
 
+  /**
+   * Revoke time-bound access request grants that have run out, for all tenants
+   * Runs hourly
+   */
+  static async expireAccessRequestGrants(): Promise<void> {
+    try {
+      const tenants = await storage.getTenants();
+
+      for (const tenant of tenants) {
+        try {
+          const result = await new AccessRequestService(tenant.id).expireGrants();
+          if (result.expired > 0 || result.failed > 0) {
+            console.log(
+              `[AccessReviewScheduler] Access request expiry for tenant ${tenant.id}: ${result.expired} expired, ${result.failed} failed`
+            );
+          }
+        } catch (error) {
+          console.error(`[AccessReviewScheduler] Error expiring access request grants for tenant ${tenant.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('[AccessReviewScheduler] Error expiring access request grants:', error);
+    }
+  }
+
+  /**
+   * End break-glass sessions past their time and requests past the unseal window
+   * Runs every 5 minutes
+   */
+  static async expireBreakGlassSessions(): Promise<void> {
+    try {
+      const tenants = await storage.getTenants();
+
+      for (const tenant of tenants) {
+        try {
+          await new BreakGlassService(tenant.id).expireSessions();
+        } catch (error) {
+          console.error(`[AccessReviewScheduler] Error expiring break-glass sessions for tenant ${tenant.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('[AccessReviewScheduler] Error expiring break-glass sessions:', error);
+    }
+  }
+
   /**
    * Send reminder emails for pending access reviews
    * Runs daily
@@ -277,10 +326,28 @@ export class AccessReviewScheduler {
       24 * 60 * 60 * 1000
     ); // Daily
 
+    // Time-bound access request grants - hourly
+    setInterval(
+      () => {
+        AccessReviewScheduler.expireAccessRequestGrants();
+      },
+      60 * 60 * 1000
+    ); // Hourly
+
+    // Break-glass sessions last minutes to hours - every 5 minutes
+    setInterval(
+      () => {
+        AccessReviewScheduler.expireBreakGlassSessions();
+      },
+      5 * 60 * 1000
+    );
+
     console.log('[AccessReviewScheduler] Scheduled tasks initialized');
     console.log('  - Quarterly campaigns: 1st of Jan/Apr/Jul/Oct');
     console.log('  - Privilege drift scan: Daily');
     console.log('  - Overprivileged account scan: Weekly (Mondays)');
     console.log('  - Access review reminders: Daily');
+    console.log('  - Access request grant expiry: Hourly');
+    console.log('  - Break-glass session expiry: Every 5 minutes');
   }
 }
@@ -0,0 +1,113 @@
+/**
+ * Access Request Approval Chains
+ *
+ * Storage-free rules for catalog access requests:
+ * - Which approval steps a request needs (risk-gated steps such as security review)
+ * - Who may decide the current step (a different person for each step)
+ * - How long a time-bound grant lasts
+ * - How each grant is provisioned
+ */
+
+import type {
+  AccessApprovalStep,
+  AccessApprovalStepState,
+  AccessCatalogItem,
+  AccessCatalogProvisioning,
+} from '@shared/schema';
+
+// Manager, then app owner, then security for risky requests
+export const DEFAULT_APPROVAL_CHAIN: AccessApprovalStep[] = [
+  { name: 'Manager approval', approverType: 'manager' },
+  { name: 'App owner approval', approverType: 'app_owner' },
+  { name: 'Security review', approverType: 'security', minRiskScore: 50 },
+];
+
+export function approvalChainFor(item: Pick<AccessCatalogItem, 'approvalChain'>): AccessApprovalStep[] {
+  return item.approvalChain?.length ? item.approvalChain : DEFAULT_APPROVAL_CHAIN;
+}
+
+/**
+ * Approval steps for a request. Risk-gated steps below their threshold are recorded as skipped,
+ * except security review, which SoD conflicts always require. The requester is never their own
+ * approver; a step left without approvers can be decided by any IT manager.
+ */
+export function buildApprovalSteps(
+  chain: AccessApprovalStep[],
+  approverIds: string[][],
+  context: { requesterId: string; riskScore: number; hasSodConflicts: boolean }
+): AccessApprovalStepState[] {
+  return chain.map((step, index) => {
+    const required = step.minRiskScore === undefined
+      || context.riskScore >= step.minRiskScore
+      || (step.approverType === 'security' && context.hasSodConflicts);
+
+    return {
+      name: step.name,
+      approverType: step.approverType,
+      approverIds: Array.from(new Set(approverIds[index] ?? [])).filter(id => id !== context.requesterId),
+      status: required ? 'pending' : 'skipped',
+      notes: required ? undefined : `Risk score ${context.riskScore} below ${step.minRiskScore}`,
+    };
+  });
+}
+
+export function currentStepIndex(steps: AccessApprovalStepState[]): number | null {
+  const index = steps.findIndex(step => step.status === 'pending');
+  return index === -1 ? null : index;
+}
+
+export type ApprovalCheck = 'allowed' | 'override' | 'conflict_of_interest' | 'already_decided' | 'not_an_approver';
+
+/**
+ * Whether someone may decide a step: its named approvers, or any IT manager when it names none.
+ * An IT manager may override another step's approvers only when asking to, and never security
+ * review. No one decides two steps of the same request.
+ */
+export function canDecideStep(
+  steps: AccessApprovalStepState[],
+  stepIndex: number,
+  approver: { id: string; isItManager: boolean },
+  requesterId: string,
+  override = false
+): ApprovalCheck {
+  const step = steps[stepIndex];
+  if (approver.id === requesterId) return 'conflict_of_interest';
+  if (steps.some((other, index) => index !== stepIndex && other.decidedBy === approver.id)) return 'already_decided';
+  if (step.approverIds.includes(approver.id)) return 'allowed';
+  if (!approver.isItManager) return 'not_an_approver';
+  if (step.approverIds.length === 0) return 'allowed';
+  return override && step.approverType !== 'security' ? 'override' : 'not_an_approver';
+}
+
+/**
+ * Grant duration in hours, or null for a permanent grant. Items with a maximum are always
+ * time-bound.
+ */
+export function grantDurationHours(
+  item: Pick<AccessCatalogItem, 'maxDurationHours' | 'defaultDurationHours'>,
+  requestedHours?: number
+): { durationHours: number | null; error?: string } {
+  const durationHours = requestedHours ?? item.defaultDurationHours ?? item.maxDurationHours ?? null;
+  if (item.maxDurationHours && durationHours !== null && durationHours > item.maxDurationHours) {
+    return { durationHours, error: `Access can be requested for at most ${item.maxDurationHours} hours` };
+  }
+  return { durationHours };
+}
+
+/**
+ * How a grant is provisioned: its configured target, else a plain app assignment. A role cannot be
+ * granted by a plain assignment, so unconfigured roles go to a fulfilment ticket (null).
+ */
+export function provisioningFor(grant: {
+  provisioning?: AccessCatalogProvisioning | null;
+  roleName?: string | null;
+}): AccessCatalogProvisioning | null {
+  if (grant.provisioning) return grant.provisioning;
+  return grant.roleName ? null : { method: 'app_assignment' };
+}
+
+// Identity providers whose connectors can perform each provisioning method
+export const PROVISIONING_SUPPORT: Record<AccessCatalogProvisioning['method'], string[]> = {
+  group: ['azuread', 'google', 'okta'],
+  app_assignment: ['azuread', 'okta'], // Google Workspace assigns apps through groups only
+};
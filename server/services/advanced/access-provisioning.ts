@@ -0,0 +1,104 @@
+/**
+ * Access Request Provisioning
+ *
+ * Grants approved catalog access in the identity provider:
+ * - Group membership (Azure AD, Google Workspace, Okta)
+ * - Direct app assignment (Azure AD app roles, Okta app assignments)
+ * The caller falls back to a fulfilment ticket when no connector succeeds.
+ */
+
+import { storage } from '../../storage';
+import type { AccessCatalogProvisioning, IdentityProvider } from '@shared/schema';
+import { AzureADConnector } from '../idp/azuread-connector';
+import { GoogleWorkspaceConnector } from '../idp/google-connector';
+import { OktaConnector } from '../idp/okta-connector';
+import { decrypt } from '../encryption';
+import { PROVISIONING_SUPPORT } from './access-approval';
+
+export interface ProvisioningResult {
+  success: boolean;
+  idpId?: string;
+  idpType?: string;
+  message: string;
+}
+
+type ProvisioningConnector = AzureADConnector | GoogleWorkspaceConnector | OktaConnector;
+
+export class AccessProvisioningService {
+  constructor(private tenantId: string) {}
+
+  /**
+   * Grant access through the first capable identity provider that succeeds
+   */
+  async provision(userEmail: string, appName: string, provisioning: AccessCatalogProvisioning): Promise<ProvisioningResult> {
+    const idps = await this.capableIdps(provisioning);
+    if (idps.length === 0) {
+      return { success: false, message: `No active identity provider can provision by ${provisioning.method.replace('_', ' ')}` };
+    }
+
+    const failures: string[] = [];
+    for (const idp of idps) {
+      try {
+        const connector = this.connectorFor(idp);
+        if (provisioning.method === 'group') {
+          await connector.addUserToGroup(userEmail, provisioning.groupId!);
+        } else if (connector instanceof AzureADConnector) {
+          await connector.assignAppRole(userEmail, appName, provisioning.appRoleId);
+        } else if (connector instanceof OktaConnector) {
+          await connector.assignApp(userEmail, appName);
+        }
+
+        console.log(`[AccessProvisioning] Provisioned ${userEmail} to ${appName} via ${idp.type} (${provisioning.method})`);
+        return { success: true, idpId: idp.id, idpType: idp.type, message: `Provisioned via ${idp.name}` };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`[AccessProvisioning] ${idp.type} could not provision ${userEmail} to ${appName}:`, message);
+        failures.push(`${idp.name}: ${message}`);
+      }
+    }
+
+    return { success: false, message: failures.join('; ') };
+  }
+
+  /**
+   * Remove a group membership granted by provision(). App assignments are removed through
+   * SSORevocationService, which also clears OAuth grants.
+   */
+  async removeGroupMembership(userEmail: string, provisioning: AccessCatalogProvisioning, idpId: string): Promise<void> {
+    const idp = (await storage.getIdentityProviders(this.tenantId)).find(candidate => candidate.id === idpId);
+    if (!idp) {
+      throw new Error('Identity provider that provisioned the grant no longer exists');
+    }
+    await this.connectorFor(idp).removeUserFromGroup(userEmail, provisioning.groupId!);
+  }
+
+  private async capableIdps(provisioning: AccessCatalogProvisioning): Promise<IdentityProvider[]> {
+    const idps = await storage.getIdentityProviders(this.tenantId);
+    return idps.filter(idp =>
+      idp.status === 'active'
+      && PROVISIONING_SUPPORT[provisioning.method].includes(idp.type)
+      && (!provisioning.idpId || idp.id === provisioning.idpId)
+    );
+  }
+
+  private connectorFor(idp: IdentityProvider): ProvisioningConnector {
+    const config = {
+      clientId: idp.clientId || '',
+      clientSecret: idp.clientSecret ? decrypt(idp.clientSecret) : '',
+      tenantDomain: idp.tenantDomain || '',
+      scopes: [],
+      customConfig: idp.config || {},
+    };
+
+    switch (idp.type) {
+      case 'azuread':
+        return new AzureADConnector(config, this.tenantId, idp.id);
+      case 'google':
+        return new GoogleWorkspaceConnector(config, this.tenantId, idp.id);
+      case 'okta':
+        return new OktaConnector(config, this.tenantId, idp.id);
+      default:
+        throw new Error(`Provisioning is not supported for ${idp.type}`);
+    }
+  }
+}
@@ -2,19 +2,54 @@
  * Self-Service Access Request Service (Phase 6.1)
  *
  * Enables users to request access to applications through a self-service portal:
- * - Submit requests with business justification
- * - Auto-route to manager for approval
- * - Risk assessment and SoD conflict detection
+ * - Submit requests with business justification, by bare app or from the access catalog
+ * - Catalog items (apps, app roles, bundles) carry their own approval chain:
+ *   manager -> app owner -> security above a risk threshold
+ * - Risk assessment and SoD pre-checks (critical conflicts block the request)
  * - SLA tracking (24/48 hour response time)
- * - Auto-provisioning on approval
- * - Email/Slack notifications
+ * - Provisioning on approval through IdP connectors, else a fulfilment ticket
+ * - Time-bound grants removed when they expire
+ * - Email notifications to each step's approvers and to the requester once decided
  *
  * Target: 70% reduction in access request processing time
  */
 
 import { storage } from '../../storage';
-import type { InsertAccessRequest } from '@shared/schema';
+import {
+  catalogAccessRequestSchema,
+  createAccessCatalogItemSchema,
+  type AccessApprovalStep,
+  type AccessApprovalStepState,
+  type AccessCatalogItem,
+  type AccessRequest,
+  type AccessRequestGrant,
+  type CreateAccessCatalogItem,
+  type InsertAccessRequest,
+  type User,
+} from '@shared/schema';
 import { policyEngine } from '../policy/engine';
+import { NotificationService } from '../alerting/notification-service';
+import { SSORevocationService } from '../offboarding/sso-revocation';
+import { ticketSlaService } from '../tickets/sla-service';
+import { SodService } from './sod';
+import { AccessProvisioningService } from './access-provisioning';
+import {
+  approvalChainFor,
+  buildApprovalSteps,
+  canDecideStep,
+  currentStepIndex,
+  grantDurationHours,
+  provisioningFor,
+} from './access-approval';
+
+export class AccessRequestError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'AccessRequestError';
+  }
+}
+
+const displayName = (user: User) => `${user.firstName} ${user.lastName}`.trim() || user.email;
 
 export interface AccessRequestSubmission {
   requesterId: string;
@@ -29,6 +64,8 @@ export interface AccessRequestDecision {
   requestId: string;
   decision: 'approved' | 'denied';
   approverId: string;
+  approverIsItManager?: boolean;
+  override?: boolean; // An IT manager deciding in place of the step's named approvers (never security review)
   notes?: string;
 }
 
@@ -41,6 +78,15 @@ export interface AccessRequestResult {
   slaDueAt: Date;
 }
 
+export interface CatalogRequestResult extends AccessRequestResult {
+  approvalSteps: AccessApprovalStepState[];
+}
+
+export interface GrantExpiryResult {
+  expired: number;
+  failed: number;
+}
+
 /**
  * Access Request Service
  */
@@ -56,13 +102,13 @@ export class AccessRequestService {
     // Get user details
     const user = await storage.getUser(submission.requesterId);
     if (!user) {
-      throw new Error('User not found');
+      throw new AccessRequestError('User not found', 404);
     }
 
     // Get app details
     const app = await storage.getSaasApp(submission.appId, this.tenantId);
     if (!app) {
-      throw new Error('Application not found');
+      throw new AccessRequestError('Application not found', 404);
     }
 
     // Check for SoD conflicts
@@ -93,7 +139,7 @@ export class AccessRequestService {
     const request: InsertAccessRequest = {
       tenantId: this.tenantId,
       requesterId: submission.requesterId,
-      requesterName: user.name,
+      requesterName: displayName(user),
       requesterEmail: user.email,
       requesterDepartment: user.department,
       appId: submission.appId,
@@ -105,7 +151,7 @@ export class AccessRequestService {
       expiresAt: expiresAt || undefined,
       status: 'pending',
       approverId: approverId || undefined,
-      approverName: approver?.name || undefined,
+      approverName: approver ? displayName(approver) : undefined,
       riskScore: score,
       riskLevel: level,
       riskFactors: factors,
@@ -116,10 +162,8 @@ export class AccessRequestService {
 
     const created = await storage.createAccessRequest(request);
 
-    // Send notification to approver
-    if (approver?.email) {
-      // TODO: Send email notification
-      console.log(`[AccessRequest] Would send email to ${approver.email} about request ${created.id}`);
+    if (approver) {
+      await this.notifyApprovers(created, [approver.id]);
     }
 
     // Emit policy event for high/critical risk requests
@@ -128,7 +172,7 @@ export class AccessRequestService {
       eventSystem.emit('access_request.high_risk', {
         tenantId: this.tenantId,
         requestId: created.id,
-        requesterName: user.name,
+        requesterName: displayName(user),
         appName: app.name,
         riskLevel: level,
         riskScore: score,
@@ -147,88 +191,497 @@ export class AccessRequestService {
     };
   }
 
+  // ============================================
+  // Access catalog
+  // ============================================
+
+  async getCatalog(options: { itemType?: string; includeInactive?: boolean } = {}): Promise<AccessCatalogItem[]> {
+    return storage.getAccessCatalogItems(this.tenantId, {
+      itemType: options.itemType,
+      isActive: options.includeInactive ? undefined : true,
+    });
+  }
+
+  async createCatalogItem(input: unknown, createdBy: string): Promise<AccessCatalogItem> {
+    const data = await this.parseCatalogItem(input);
+    return storage.createAccessCatalogItem({
+      ...this.catalogRecord(data),
+      tenantId: this.tenantId,
+      createdBy,
+    });
+  }
+
+  async updateCatalogItem(id: string, input: unknown): Promise<AccessCatalogItem> {
+    const existing = await storage.getAccessCatalogItem(id, this.tenantId);
+    if (!existing) {
+      throw new AccessRequestError('Catalog item not found', 404);
+    }
+    const data = await this.parseCatalogItem(input, id);
+    const updated = await storage.updateAccessCatalogItem(id, this.tenantId, this.catalogRecord(data));
+    return updated!;
+  }
+
+  /**
+   * Retire or restore a catalog item. Requests already made from it are unaffected.
+   */
+  async setCatalogItemActive(id: string, isActive: boolean): Promise<AccessCatalogItem> {
+    const updated = await storage.updateAccessCatalogItem(id, this.tenantId, { isActive });
+    if (!updated) {
+      throw new AccessRequestError('Catalog item not found', 404);
+    }
+    return updated;
+  }
+
+  private async parseCatalogItem(input: unknown, id?: string): Promise<CreateAccessCatalogItem> {
+    const parsed = createAccessCatalogItemSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new AccessRequestError(parsed.error.errors[0]?.message ?? 'Invalid catalog item');
+    }
+    const data = parsed.data;
+
+    if (data.appId && data.itemType !== 'bundle' && !(await storage.getSaasApp(data.appId, this.tenantId))) {
+      throw new AccessRequestError('Application not found', 404);
+    }
+
+    for (const componentId of data.itemType === 'bundle' ? data.bundleItemIds ?? [] : []) {
+      const component = await storage.getAccessCatalogItem(componentId, this.tenantId);
+      if (!component || component.id === id) {
+        throw new AccessRequestError(`Bundle item ${componentId} not found`, 404);
+      }
+      if (component.itemType === 'bundle') {
+        throw new AccessRequestError('Bundles cannot contain other bundles');
+      }
+    }
+
+    return data;
+  }
+
+  private catalogRecord(data: CreateAccessCatalogItem) {
+    const isBundle = data.itemType === 'bundle';
+    return {
+      itemType: data.itemType,
+      name: data.name,
+      description: data.description ?? null,
+      appId: isBundle ? null : data.appId!,
+      accessType: data.accessType,
+      roleName: data.itemType === 'role' ? data.roleName! : null,
+      bundleItemIds: isBundle ? Array.from(new Set(data.bundleItemIds)) : null,
+      approvalChain: data.approvalChain ?? null,
+      provisioning: data.provisioning ?? null,
+      maxDurationHours: data.maxDurationHours ?? null,
+      defaultDurationHours: data.defaultDurationHours ?? null,
+    };
+  }
+
+  /**
+   * The app and role grants a catalog item stands for (a bundle's active components)
+   */
+  private async expandGrants(item: AccessCatalogItem): Promise<AccessRequestGrant[]> {
+    const components: AccessCatalogItem[] = [];
+    if (item.itemType === 'bundle') {
+      for (const componentId of item.bundleItemIds ?? []) {
+        const component = await storage.getAccessCatalogItem(componentId, this.tenantId);
+        if (component && component.isActive !== false && component.itemType !== 'bundle') {
+          components.push(component);
+        }
+      }
+    } else {
+      components.push(item);
+    }
+
+    const grants: AccessRequestGrant[] = [];
+    for (const component of components) {
+      const app = component.appId ? await storage.getSaasApp(component.appId, this.tenantId) : undefined;
+      if (!app) continue;
+      grants.push({
+        catalogItemId: component.id,
+        name: component.name,
+        appId: app.id,
+        appName: app.name,
+        accessType: component.accessType,
+        roleName: component.roleName,
+        provisioning: component.provisioning,
+        status: 'pending',
+      });
+    }
+    return grants;
+  }
+
+  /**
+   * Request an item from the access catalog. SoD rules are checked before anything is created:
+   * critical conflicts block the request, others send it to security review.
+   */
+  async submitCatalogRequest(requesterId: string, input: unknown): Promise<CatalogRequestResult> {
+    const parsed = catalogAccessRequestSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new AccessRequestError(parsed.error.errors[0]?.message ?? 'Invalid access request');
+    }
+    const { catalogItemId, justification } = parsed.data;
+
+    const user = await storage.getUser(requesterId);
+    if (!user || user.tenantId !== this.tenantId) {
+      throw new AccessRequestError('User not found', 404);
+    }
+
+    const item = await storage.getAccessCatalogItem(catalogItemId, this.tenantId);
+    if (!item || item.isActive === false) {
+      throw new AccessRequestError('Catalog item not found', 404);
+    }
+    console.log(`[AccessRequest] Submitting catalog request for user ${requesterId}: ${item.name}`);
+
+    const grants = await this.expandGrants(item);
+    if (grants.length === 0) {
+      throw new AccessRequestError('This catalog item does not grant any available application');
+    }
+
+    const { durationHours, error } = grantDurationHours(item, parsed.data.durationHours);
+    if (error) {
+      throw new AccessRequestError(error);
+    }
+
+    // SoD pre-check against everything the user already holds
+    const sodConflicts = await this.checkCatalogSoDConflicts(requesterId, grants);
+    const blocking = sodConflicts.filter(conflict => conflict.severity === 'critical');
+    if (blocking.length > 0) {
+      throw new AccessRequestError(
+        `Request blocked by critical Segregation of Duties rule(s): ${blocking.map(conflict => conflict.ruleName).join(', ')}`,
+        409
+      );
+    }
+
+    // The riskiest grant sets the request's risk
+    let risk = { score: 0, level: 'low', factors: [] as string[] };
+    for (const grant of grants) {
+      const grantRisk = await this.calculateRiskScore(requesterId, grant.appId, grant.accessType, sodConflicts);
+      if (grantRisk.score >= risk.score) {
+        risk = { ...grantRisk, factors: Array.from(new Set([...risk.factors, ...grantRisk.factors])) };
+      }
+    }
+
+    const chain = approvalChainFor(item);
+    const approverIds = await Promise.all(chain.map(step => this.resolveStepApprovers(step, user, grants)));
+    const approvalSteps = buildApprovalSteps(chain, approverIds, {
+      requesterId,
+      riskScore: risk.score,
+      hasSodConflicts: sodConflicts.length > 0,
+    });
+    const stepIndex = currentStepIndex(approvalSteps);
+    const approver = stepIndex === null ? undefined : await this.firstApprover(approvalSteps[stepIndex]);
+
+    const slaDueAt = new Date();
+    slaDueAt.setHours(slaDueAt.getHours() + (risk.level === 'high' || risk.level === 'critical' ? 48 : 24));
+
+    const created = await storage.createAccessRequest({
+      tenantId: this.tenantId,
+      requesterId,
+      requesterName: displayName(user),
+      requesterEmail: user.email,
+      requesterDepartment: user.department,
+      appId: grants[0].appId,
+      appName: item.itemType === 'bundle' ? item.name : grants[0].appName,
+      accessType: item.itemType === 'bundle' ? 'bundle' : item.roleName ?? item.accessType,
+      justification,
+      durationType: durationHours ? 'temporary' : 'permanent',
+      durationHours,
+      status: 'pending',
+      approverId: approver?.id ?? null,
+      approverName: approver ? displayName(approver) : null,
+      riskScore: risk.score,
+      riskLevel: risk.level,
+      riskFactors: risk.factors,
+      sodConflicts,
+      slaDueAt,
+      isOverdue: false,
+      catalogItemId: item.id,
+      grants,
+      approvalSteps,
+      currentStep: stepIndex ?? approvalSteps.length,
+    });
+
+    if (stepIndex !== null) {
+      await this.notifyApprovers(created, approvalSteps[stepIndex].approverIds, approvalSteps[stepIndex].name);
+    }
+
+    if (risk.level === 'high' || risk.level === 'critical') {
+      policyEngine.getEventSystem().emit('access_request.high_risk', {
+        tenantId: this.tenantId,
+        requestId: created.id,
+        requesterName: displayName(user),
+        appName: created.appName,
+        riskLevel: risk.level,
+        riskScore: risk.score,
+      });
+    }
+
+    // Every step was risk-gated and skipped: nothing left to approve
+    let status = created.status;
+    if (stepIndex === null) {
+      const approved = await storage.updateAccessRequest(created.id, this.tenantId, { status: 'approved', reviewedAt: new Date() });
+      await this.provisionAccess(approved!);
+      await this.notifyRequester(approved!);
+      status = 'approved';
+    }
+
+    console.log(`[AccessRequest] Created catalog request ${created.id} with risk level ${risk.level}`);
+
+    return {
+      requestId: created.id,
+      status,
+      riskScore: risk.score,
+      riskLevel: risk.level,
+      sodConflicts,
+      slaDueAt,
+      approvalSteps,
+    };
+  }
+
+  private async resolveStepApprovers(step: AccessApprovalStep, requester: User, grants: AccessRequestGrant[]): Promise<string[]> {
+    switch (step.approverType) {
+      case 'manager': {
+        const manager = await this.resolveManager(requester);
+        return manager ? [manager.id] : [];
+      }
+      case 'app_owner': {
+        const owners: string[] = [];
+        for (const grant of grants) {
+          const app = await storage.getSaasApp(grant.appId, this.tenantId);
+          if (app?.ownerId) owners.push(app.ownerId);
+        }
+        return owners;
+      }
+      default:
+        return step.approverIds ?? [];
+    }
+  }
+
+  /**
+   * users.manager holds the manager's user id, or their email for directory-synced users
+   */
+  private async resolveManager(user: User): Promise<User | undefined> {
+    if (!user.manager) return undefined;
+    const manager = (await storage.getUser(user.manager)) ?? (await storage.getUserByEmail(user.manager, this.tenantId));
+    return manager?.tenantId === this.tenantId ? manager : undefined;
+  }
+
+  private async firstApprover(step: AccessApprovalStepState): Promise<User | undefined> {
+    return step.approverIds[0] ? storage.getUser(step.approverIds[0]) : undefined;
+  }
+
+  /**
+   * Email the approvers a request is waiting on. Delivery failures are logged rather than thrown:
+   * the request stays in their pending queue either way.
+   */
+  private async notifyApprovers(request: AccessRequest, approverIds: string[], stepName?: string): Promise<void> {
+    const approvers = await Promise.all(approverIds.map(id => storage.getUser(id)));
+    const emails = approvers.flatMap(approver => approver?.email ? [approver.email] : []);
+    if (emails.length === 0) {
+      console.warn(`[AccessRequest] No approver email to notify for request ${request.id}`);
+      return;
+    }
+
+    const step = stepName ? ` (${stepName} approval)` : '';
+    await this.notify(emails, request, 'access_request.approval_needed',
+      `Access request awaiting your approval${step}`,
+      `${request.requesterName} requested ${request.accessType} access to ${request.appName}: ${request.justification}`);
+  }
+
+  private async notifyRequester(request: AccessRequest): Promise<void> {
+    if (!request.requesterEmail) return;
+
+    const notes = request.approvalNotes ? ` Notes: ${request.approvalNotes}` : '';
+    await this.notify([request.requesterEmail], request, 'access_request.decided',
+      `Access request ${request.status}`,
+      `Your request for ${request.appName} was ${request.status} by ${request.approverName ?? 'an approver'}.${notes}`);
+  }
+
+  private async notify(emails: string[], request: AccessRequest, triggerEvent: string, title: string, description: string): Promise<void> {
+    const delivered = await new NotificationService(this.tenantId).sendToRecipients(emails, {
+      id: request.id,
+      title,
+      description,
+      severity: request.riskLevel ?? 'low',
+      triggerEvent,
+      triggerData: {
+        requestId: request.id,
+        requesterName: request.requesterName,
+        appName: request.appName,
+        status: request.status,
+        riskScore: request.riskScore,
+      },
+      createdAt: new Date(),
+    });
+
+    if (!delivered) {
+      console.error(`[AccessRequest] ${triggerEvent} notification for request ${request.id} was not delivered`);
+    }
+  }
+
   /**
-   * Approve or deny an access request
+   * Approve or deny an access request. Catalog requests advance one approval step at a time and
+   * are provisioned once the last step approves.
    */
-  async reviewRequest(decision: AccessRequestDecision): Promise<void> {
+  async reviewRequest(decision: AccessRequestDecision): Promise<AccessRequest> {
     console.log(`[AccessRequest] Reviewing request ${decision.requestId}: ${decision.decision}`);
 
     const request = await storage.getAccessRequest(decision.requestId, this.tenantId);
     if (!request) {
-      throw new Error('Access request not found');
+      throw new AccessRequestError('Access request not found', 404);
     }
 
     if (request.status !== 'pending') {
-      throw new Error(`Request already ${request.status}`);
+      throw new AccessRequestError(`Request already ${request.status}`, 409);
     }
 
     const approver = await storage.getUser(decision.approverId);
     if (!approver) {
-      throw new Error('Approver not found');
+      throw new AccessRequestError('Approver not found', 404);
     }
 
-    // Update request status
-    await storage.updateAccessRequest(decision.requestId, this.tenantId, {
+    if (approver.id === request.requesterId) {
+      throw new AccessRequestError('You cannot approve your own access request', 403);
+    }
+
+    const now = new Date();
+    let updates: Partial<InsertAccessRequest> = {
       status: decision.decision,
-      approverId: decision.approverId,
-      approverName: approver.name,
+      approverId: approver.id,
+      approverName: displayName(approver),
       approvalNotes: decision.notes,
-      reviewedAt: new Date(),
-    });
+      reviewedAt: now,
+    };
+
+    const steps = request.approvalSteps;
+    const stepIndex = steps ? currentStepIndex(steps) : null;
+    if (steps && stepIndex !== null) {
+      const step = steps[stepIndex];
+      const check = canDecideStep(
+        steps,
+        stepIndex,
+        { id: approver.id, isItManager: !!decision.approverIsItManager },
+        request.requesterId,
+        decision.override
+      );
+      if (check === 'already_decided') {
+        throw new AccessRequestError(`You already decided an earlier step of this request; ${step.name} needs a different approver`, 403);
+      }
+      if (check !== 'allowed' && check !== 'override') {
+        throw new AccessRequestError(
+          decision.override && step.approverType === 'security'
+            ? 'Security review cannot be overridden'
+            : `Only the ${step.name} approvers can decide this step`,
+          403
+        );
+      }
+
+      const decided: AccessApprovalStepState[] = steps.map((candidate, index) => index !== stepIndex ? candidate : {
+        ...candidate,
+        status: decision.decision,
+        decidedBy: approver.id,
+        decidedByName: displayName(approver),
+        decidedAt: now.toISOString(),
+        overridden: check === 'override' || undefined,
+        notes: decision.notes,
+      });
+      const nextIndex = decision.decision === 'approved' ? currentStepIndex(decided) : null;
+
+      if (nextIndex !== null) {
+        // More approvals to go: hand the request to the next step
+        const nextApprover = await this.firstApprover(decided[nextIndex]);
+        updates = {
+          approvalSteps: decided,
+          currentStep: nextIndex,
+          approverId: nextApprover?.id ?? null,
+          approverName: nextApprover ? displayName(nextApprover) : null,
+        };
+        console.log(`[AccessRequest] Request ${request.id} approved at ${step.name}; now at ${decided[nextIndex].name}`);
+      } else {
+        updates = { ...updates, approvalSteps: decided, currentStep: decision.decision === 'approved' ? decided.length : stepIndex };
+      }
+    }
+
+    const updated = (await storage.updateAccessRequest(decision.requestId, this.tenantId, updates))!;
 
     // If approved, provision access
-    if (decision.decision === 'approved') {
-      await this.provisionAccess(request);
+    if (updated.status === 'approved') {
+      await this.provisionAccess(updated);
     }
 
-    // Send notification to requester
-    if (request.requesterEmail) {
-      console.log(`[AccessRequest] Would send ${decision.decision} notification to ${request.requesterEmail}`);
+    const nextStep = updated.status === 'pending' && updated.approvalSteps ? currentStepIndex(updated.approvalSteps) : null;
+    if (nextStep !== null) {
+      await this.notifyApprovers(updated, updated.approvalSteps![nextStep].approverIds, updated.approvalSteps![nextStep].name);
+    } else if (updated.status !== 'pending') {
+      await this.notifyRequester(updated);
     }
 
-    console.log(`[AccessRequest] Request ${decision.requestId} ${decision.decision}`);
+    console.log(`[AccessRequest] Request ${decision.requestId} ${updated.status}`);
+    return (await storage.getAccessRequest(decision.requestId, this.tenantId)) ?? updated;
   }
 
   /**
-   * Provision access after approval
+   * Provision access after approval: through an IdP connector where one can, else a fulfilment
+   * ticket for the service desk. Time-bound grants start counting down now.
    */
-  private async provisionAccess(request: any): Promise<void> {
+  private async provisionAccess(request: AccessRequest): Promise<void> {
     console.log(`[AccessRequest] Provisioning access for request ${request.id}`);
 
     try {
-      // Check if user already has access
-      const existingAccess = await storage.getUserAppAccess(request.requesterId, request.appId, this.tenantId);
-
-      if (existingAccess) {
-        // Update existing access level if needed
-        if (existingAccess.accessType !== request.accessType) {
-          await storage.updateUserAppAccessType(
-            request.requesterId,
-            request.appId,
-            this.tenantId,
-            request.accessType
-          );
+      const user = await storage.getUser(request.requesterId);
+      const grants: AccessRequestGrant[] = request.grants?.length ? request.grants : [{
+        catalogItemId: null,
+        name: request.appName,
+        appId: request.appId,
+        appName: request.appName,
+        accessType: request.accessType,
+        status: 'pending',
+      }];
+
+      const provisioner = new AccessProvisioningService(this.tenantId);
+      const results: AccessRequestGrant[] = [];
+      for (const grant of grants) {
+        const provisioning = provisioningFor(grant);
+        if (!provisioning || !user?.email) {
+          results.push({
+            ...grant,
+            status: 'ticket',
+            error: provisioning ? 'Requester has no email address' : 'No connector provisioning configured for this role',
+          });
+          continue;
         }
-      } else {
-        // Grant new access
-        await storage.grantUserAppAccess({
-          userId: request.requesterId,
-          appId: request.appId,
-          tenantId: this.tenantId,
-          accessType: request.accessType,
-          grantedAt: new Date(),
-          businessJustification: request.justification,
-          expiresAt: request.expiresAt || undefined,
+
+        const result = await provisioner.provision(user.email, grant.appName, provisioning);
+        if (result.success) {
+          await this.recordLocalGrant(request, grant);
+        }
+        results.push({
+          ...grant,
+          provisioning,
+          status: result.success ? 'provisioned' : 'ticket',
+          provisionedVia: result.idpType ?? null,
+          idpId: result.idpId ?? null,
+          error: result.success ? null : result.message,
         });
       }
 
-      // Update provisioning status
+      const unfulfilled = results.filter(grant => grant.status === 'ticket');
+      const ticket = unfulfilled.length > 0 ? await this.raiseFulfilmentTicket(request, unfulfilled) : null;
+      const expiresAt = request.durationType === 'temporary' && request.durationHours
+        ? new Date(Date.now() + request.durationHours * 60 * 60 * 1000)
+        : request.expiresAt;
+
       await storage.updateAccessRequest(request.id, this.tenantId, {
-        provisioningStatus: 'completed',
-        provisionedAt: new Date(),
+        grants: results,
+        provisioningStatus: unfulfilled.length === 0 ? 'completed' : 'pending_fulfilment',
+        provisionedAt: unfulfilled.length === 0 ? new Date() : undefined,
+        provisioningError: unfulfilled.map(grant => `${grant.name}: ${grant.error}`).join('; ') || null,
+        fulfilmentTicketId: ticket?.id,
+        fulfilmentTicketNumber: ticket?.ticketNumber,
+        expiresAt,
       });
 
-      console.log(`[AccessRequest] Access provisioned successfully for request ${request.id}`);
+      console.log(
+        `[AccessRequest] Request ${request.id}: ${results.length - unfulfilled.length} grant(s) provisioned` +
+        (ticket ? `, ${unfulfilled.length} sent to ticket ${ticket.ticketNumber}` : '')
+      );
     } catch (error) {
       console.error(`[AccessRequest] Provisioning failed for request ${request.id}:`, error);
 
@@ -240,43 +693,157 @@ export class AccessRequestService {
   }
 
   /**
-   * Check for Segregation of Duties conflicts
+   * Mirror a connector-provisioned grant locally so it shows up before the next IdP sync
    */
-  private async checkSoDConflicts(userId: string, newAppId: string): Promise<any[]> {
-    // Get user's current app access
-    const userAccess = await storage.getUserAppAccessList(userId, this.tenantId);
-    const userAppIds = userAccess.map(a => a.appId);
-
-    // Get all active SoD rules
-    const sodRules = await storage.getSodRules(this.tenantId, { isActive: true });
-
-    const conflicts = [];
-
-    for (const rule of sodRules) {
-      // Check if user has app1 and is requesting app2
-      if (userAppIds.includes(rule.appId1) && newAppId === rule.appId2) {
-        conflicts.push({
-          ruleId: rule.id,
-          ruleName: rule.name,
-          severity: rule.severity,
-          conflictingApp: rule.appName1,
-          rationale: rule.rationale,
+  private async recordLocalGrant(request: AccessRequest, grant: AccessRequestGrant): Promise<void> {
+    const existing = await storage.getUserAppAccessByUserAndApp(request.requesterId, grant.appId, this.tenantId);
+    if (existing) {
+      await storage.updateUserAppAccess(existing.id, this.tenantId, {
+        accessType: grant.accessType,
+        roles: grant.roleName ? Array.from(new Set([...(existing.roles ?? []), grant.roleName])) : existing.roles,
+      });
+      return;
+    }
+
+    await storage.grantUserAppAccess({
+      tenantId: this.tenantId,
+      userId: request.requesterId,
+      appId: grant.appId,
+      accessType: grant.accessType,
+      roles: grant.roleName ? [grant.roleName] : undefined,
+      status: 'active',
+      businessJustification: request.justification,
+      assignedBy: request.approverId,
+      assignmentMethod: 'manual',
+    });
+  }
+
+  private async raiseFulfilmentTicket(request: AccessRequest, grants: AccessRequestGrant[], removal = false) {
+    const requester = await storage.getUser(request.requesterId);
+    if (!requester) {
+      throw new Error('Requester not found; cannot raise a fulfilment ticket');
+    }
+
+    const lines = grants.map(grant =>
+      `- ${grant.appName}${grant.roleName ? ` (role: ${grant.roleName})` : ` (${grant.accessType})`}` +
+      (grant.error ? `: ${grant.error}` : '')
+    );
+    const ticket = await storage.createTicket({
+      tenantId: this.tenantId,
+      title: removal
+        ? `Remove expired access: ${request.requesterName} / ${request.appName}`
+        : `Provision approved access: ${request.requesterName} / ${request.appName}`,
+      description: (removal
+        ? `The time-bound access granted by request ${request.id} expired. Remove it manually:`
+        : `Access request ${request.id} was approved but could not be provisioned automatically. Grant it manually:`)
+        + `\n\n${lines.join('\n')}`
+        + `\n\nJustification: ${request.justification}`
+        + (request.expiresAt && !removal ? `\nExpires: ${new Date(request.expiresAt).toISOString()}` : ''),
+      category: 'account',
+      priority: request.riskLevel === 'high' || request.riskLevel === 'critical' ? 'high' : 'medium',
+      requestorId: requester.id,
+      requestorName: displayName(requester),
+      requestorEmail: requester.email,
+      tags: ['access-request'],
+    });
+    await ticketSlaService.applyPolicy(ticket);
+    return ticket;
+  }
+
+  /**
+   * Remove time-bound grants whose duration has run out
+   */
+  async expireGrants(): Promise<GrantExpiryResult> {
+    const now = new Date();
+    const approved = await storage.getAccessRequests(this.tenantId, { status: 'approved' });
+    const due = approved.filter(request => request.expiresAt && new Date(request.expiresAt) <= now && !request.revokedAt);
+    const result: GrantExpiryResult = { expired: 0, failed: 0 };
+
+    for (const request of due) {
+      try {
+        const user = await storage.getUser(request.requesterId);
+        const grants = request.grants ?? [];
+        const manual: AccessRequestGrant[] = [];
+
+        for (const grant of grants) {
+          if (grant.status === 'ticket') {
+            manual.push(grant);
+            continue;
+          }
+          if (grant.status !== 'provisioned') continue;
+
+          const viaGroup = grant.provisioning?.method === 'group' && !!grant.idpId && !!user?.email;
+          if (viaGroup) {
+            await new AccessProvisioningService(this.tenantId).removeGroupMembership(user!.email, grant.provisioning!, grant.idpId!);
+          }
+          if (viaGroup && grant.roleName) {
+            // The group carried only the role; the user may hold the app through other means
+            await this.removeLocalRole(request.requesterId, grant);
+          } else {
+            await new SSORevocationService(this.tenantId).revokeAccess(request.requesterId, grant.appId);
+          }
+        }
+        if (grants.length === 0) {
+          // Requests from before catalog provisioning only have the local grant
+          await new SSORevocationService(this.tenantId).revokeAccess(request.requesterId, request.appId);
+        }
+
+        const ticket = manual.length > 0 ? await this.raiseFulfilmentTicket(request, manual, true) : null;
+        await storage.updateAccessRequest(request.id, this.tenantId, {
+          status: 'expired',
+          revokedAt: now,
+          grants: grants.map(grant => ({ ...grant, status: 'revoked' as const })),
+          provisioningError: ticket ? `Removal of manually provisioned access sent to ticket ${ticket.ticketNumber}` : undefined,
         });
-      }
 
-      // Check if user has app2 and is requesting app1
-      if (userAppIds.includes(rule.appId2) && newAppId === rule.appId1) {
-        conflicts.push({
-          ruleId: rule.id,
-          ruleName: rule.name,
-          severity: rule.severity,
-          conflictingApp: rule.appName2,
-          rationale: rule.rationale,
+        policyEngine.getEventSystem().emit('access_request.expired', {
+          tenantId: this.tenantId,
+          requestId: request.id,
+          requesterName: request.requesterName,
+          appName: request.appName,
         });
+        result.expired++;
+      } catch (error) {
+        console.error(`[AccessRequest] Failed to expire request ${request.id}:`, error);
+        result.failed++;
       }
     }
 
-    return conflicts;
+    if (result.expired > 0) {
+      console.log(`[AccessRequest] Expired ${result.expired} time-bound grant(s)`);
+    }
+    return result;
+  }
+
+  private async removeLocalRole(userId: string, grant: AccessRequestGrant): Promise<void> {
+    const existing = await storage.getUserAppAccessByUserAndApp(userId, grant.appId, this.tenantId);
+    if (existing?.roles?.includes(grant.roleName!)) {
+      await storage.updateUserAppAccess(existing.id, this.tenantId, {
+        roles: existing.roles.filter(role => role !== grant.roleName),
+      });
+    }
+  }
+
+  /**
+   * SoD conflicts for every grant in a catalog request, one entry per rule
+   */
+  private async checkCatalogSoDConflicts(userId: string, grants: AccessRequestGrant[]): Promise<any[]> {
+    const sod = new SodService(this.tenantId);
+    const conflicts = new Map<string, any>();
+    for (const grant of grants) {
+      const violations = await sod.checkViolation(userId, grant.appId, { roles: grant.roleName ? [grant.roleName] : [] });
+      for (const violation of violations) {
+        if (!conflicts.has(violation.ruleId)) conflicts.set(violation.ruleId, violation);
+      }
+    }
+    return Array.from(conflicts.values());
+  }
+
+  /**
+   * Check for Segregation of Duties conflicts (app pairs and entitlement sets)
+   */
+  private async checkSoDConflicts(userId: string, newAppId: string): Promise<any[]> {
+    return new SodService(this.tenantId).checkViolation(userId, newAppId);
   }
 
   /**
@@ -399,16 +966,16 @@ export class AccessRequestService {
 
     const request = await storage.getAccessRequest(requestId, this.tenantId);
     if (!request) {
-      throw new Error('Access request not found');
+      throw new AccessRequestError('Access request not found', 404);
     }
 
     // Only requester can cancel
     if (request.requesterId !== userId) {
-      throw new Error('Only the requester can cancel this request');
+      throw new AccessRequestError('Only the requester can cancel this request', 403);
     }
 
     if (request.status !== 'pending') {
-      throw new Error(`Cannot cancel ${request.status} request`);
+      throw new AccessRequestError(`Cannot cancel ${request.status} request`, 409);
     }
 
     await storage.updateAccessRequest(requestId, this.tenantId, {
@@ -255,6 +255,8 @@ export class AnomalyDetectionService {
         anomalyId: created.id,
         userId: event.userId,
         userName: event.userName,
+        appId: event.appId,
+        appName: event.appName,
         anomalyType: rule.type,
         severity: rule.severity,
         confidence,
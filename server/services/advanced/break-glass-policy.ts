@@ -0,0 +1,87 @@
+/**
+ * Break-glass Access Policy
+ *
+ * Storage-free rules for break-glass sessions:
+ * - What blocks a new break-glass use (open sessions, outstanding post-incident reviews)
+ * - Two-person unseal: who may release the credential, and until when
+ * - Who may view the credential of an unsealed session
+ * - When a post-incident review can be completed
+ */
+
+import type { BreakGlassAccount, BreakGlassSession } from '@shared/schema';
+
+// A request nobody unseals within this window lapses
+export const UNSEAL_WINDOW_MINUTES = 30;
+
+type SessionState = Pick<BreakGlassSession, 'id' | 'accountName' | 'status' | 'reviewStatus'>;
+
+/**
+ * Reasons a new break-glass session cannot be requested. Each unsealed session must have its
+ * post-incident review completed before break-glass is used again.
+ */
+export function useBlockers(sessions: SessionState[]): string[] {
+  return sessions.flatMap(session => {
+    if (session.status === 'pending_unseal') {
+      return [`Session ${session.id} for ${session.accountName} is awaiting unseal`];
+    }
+    if (session.status === 'active') {
+      return [`Session ${session.id} for ${session.accountName} is still active`];
+    }
+    if (session.reviewStatus === 'pending') {
+      return [`Post-incident review for session ${session.id} (${session.accountName}) is not completed`];
+    }
+    return [];
+  });
+}
+
+export type UnsealCheck = 'allowed' | 'same_person' | 'not_pending' | 'window_passed';
+
+/**
+ * Whether someone may unseal a session: a second person, while the unseal window is open
+ */
+export function canUnseal(
+  session: Pick<BreakGlassSession, 'status' | 'requestedBy' | 'expiresAt'>,
+  unsealerId: string,
+  now: Date = new Date()
+): UnsealCheck {
+  if (session.status !== 'pending_unseal') return 'not_pending';
+  if (session.requestedBy === unsealerId) return 'same_person';
+  if (new Date(session.expiresAt) <= now) return 'window_passed';
+  return 'allowed';
+}
+
+/**
+ * Only the requester sees the credential, and only while the unsealed session lasts
+ */
+export function canViewCredential(
+  session: Pick<BreakGlassSession, 'status' | 'requestedBy' | 'expiresAt'>,
+  userId: string,
+  now: Date = new Date()
+): string | null {
+  if (session.requestedBy !== userId) return 'Only the requester can view the credential';
+  if (session.status !== 'active') return `Session is ${session.status.replace('_', ' ')}`;
+  if (new Date(session.expiresAt) <= now) return 'Session has expired';
+  return null;
+}
+
+/**
+ * Why a post-incident review cannot be completed yet, or null. A revealed credential must be
+ * rotated before the review closes, and requesters do not review their own use.
+ */
+export function reviewBlocker(
+  session: Pick<BreakGlassSession, 'status' | 'reviewStatus' | 'requestedBy' | 'unsealedAt' | 'credentialViewCount'>,
+  account: Pick<BreakGlassAccount, 'credentialRotatedAt'> | undefined,
+  reviewerId: string
+): string | null {
+  if (session.reviewStatus !== 'pending') return 'Session has no pending review';
+  if (session.status === 'active') return 'End the session before reviewing it';
+  if (session.requestedBy === reviewerId) return 'The requester cannot review their own break-glass use';
+
+  const viewed = (session.credentialViewCount ?? 0) > 0;
+  const rotatedAfterUse = account?.credentialRotatedAt && session.unsealedAt
+    && new Date(account.credentialRotatedAt) > new Date(session.unsealedAt);
+  if (viewed && account && !rotatedAfterUse) {
+    return 'Rotate the break-glass credential before completing the review';
+  }
+  return null;
+}
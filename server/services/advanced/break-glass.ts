@@ -0,0 +1,401 @@
+/**
+ * Break-glass Access Service (Phase 6.2)
+ *
+ * Emergency access for incidents where JIT approvers are unavailable:
+ * - Emergency accounts with credentials encrypted at rest
+ * - Two-person unseal: a second IT manager releases the credential to the requester
+ * - Every use pages the account's notification channels and recipients
+ * - Sessions auto-expire; unclaimed requests lapse after the unseal window
+ * - Each use opens a post-incident review that blocks further break-glass use until completed
+ */
+
+import { storage } from '../../storage';
+import type { BreakGlassAccount, BreakGlassSession, User } from '@shared/schema';
+import {
+  breakGlassReviewSchema,
+  breakGlassSessionRequestSchema,
+  createBreakGlassAccountSchema,
+} from '@shared/schema';
+import { encrypt, decrypt } from '../encryption';
+import { policyEngine } from '../policy/engine';
+import { NotificationService, toNotificationChannel } from '../alerting/notification-service';
+import {
+  UNSEAL_WINDOW_MINUTES,
+  canUnseal,
+  canViewCredential,
+  reviewBlocker,
+  useBlockers,
+} from './break-glass-policy';
+
+export class BreakGlassError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'BreakGlassError';
+  }
+}
+
+export type BreakGlassAccountResponse = Omit<BreakGlassAccount, 'credentialEncrypted'>;
+
+export interface BreakGlassCredential {
+  sessionId: string;
+  system: string;
+  username: string;
+  credential: string;
+  expiresAt: Date;
+}
+
+export interface BreakGlassStatus {
+  blocked: boolean;
+  blockers: string[];
+  pendingReviews: BreakGlassSession[];
+}
+
+const displayName = (user: User) => `${user.firstName} ${user.lastName}`.trim() || user.email;
+
+/**
+ * Account as returned by the API: the encrypted credential never leaves the service
+ */
+export function toAccountResponse(account: BreakGlassAccount): BreakGlassAccountResponse {
+  const { credentialEncrypted: _credential, ...rest } = account;
+  return rest;
+}
+
+/**
+ * Break-glass Access Service
+ */
+export class BreakGlassService {
+  constructor(private tenantId: string) {}
+
+  async getAccounts(): Promise<BreakGlassAccountResponse[]> {
+    const accounts = await storage.getBreakGlassAccounts(this.tenantId);
+    return accounts.map(toAccountResponse);
+  }
+
+  async createAccount(input: unknown, createdBy: string): Promise<BreakGlassAccountResponse> {
+    const parsed = createBreakGlassAccountSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new BreakGlassError(parsed.error.errors.map(e => e.message).join('; '));
+    }
+
+    const { credential, ...data } = parsed.data;
+    const account = await storage.createBreakGlassAccount({
+      ...data,
+      tenantId: this.tenantId,
+      credentialEncrypted: encrypt(credential),
+      credentialRotatedAt: new Date(),
+      createdBy,
+    });
+
+    console.log(`[BreakGlass] Created break-glass account ${account.id} (${account.name})`);
+    return toAccountResponse(account);
+  }
+
+  /**
+   * Replace the stored credential, typically after a use revealed it
+   */
+  async rotateCredential(accountId: string, credential: unknown): Promise<BreakGlassAccountResponse> {
+    if (typeof credential !== 'string' || credential.length === 0) {
+      throw new BreakGlassError('credential is required');
+    }
+    await this.getAccount(accountId);
+
+    const updated = await storage.updateBreakGlassAccount(accountId, this.tenantId, {
+      credentialEncrypted: encrypt(credential),
+      credentialRotatedAt: new Date(),
+    });
+
+    console.log(`[BreakGlass] Rotated credential for break-glass account ${accountId}`);
+    return toAccountResponse(updated!);
+  }
+
+  async setAccountActive(accountId: string, isActive: boolean): Promise<BreakGlassAccountResponse> {
+    await this.getAccount(accountId);
+    const updated = await storage.updateBreakGlassAccount(accountId, this.tenantId, { isActive });
+    return toAccountResponse(updated!);
+  }
+
+  async getSessions(filters?: { accountId?: string; status?: string; reviewStatus?: string }): Promise<BreakGlassSession[]> {
+    return storage.getBreakGlassSessions(this.tenantId, filters);
+  }
+
+  /**
+   * Whether break-glass can be used right now, and the reviews holding it up
+   */
+  async getStatus(): Promise<BreakGlassStatus> {
+    const sessions = await storage.getBreakGlassSessions(this.tenantId);
+    const blockers = useBlockers(sessions);
+
+    return {
+      blocked: blockers.length > 0,
+      blockers,
+      pendingReviews: sessions.filter(session => session.reviewStatus === 'pending'),
+    };
+  }
+
+  /**
+   * Open a break-glass session. The credential stays sealed until a second person unseals it.
+   */
+  async requestSession(requesterId: string, input: unknown): Promise<BreakGlassSession> {
+    const parsed = breakGlassSessionRequestSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new BreakGlassError(parsed.error.errors.map(e => e.message).join('; '));
+    }
+
+    const requester = await storage.getUser(requesterId);
+    if (!requester) {
+      throw new BreakGlassError('User not found', 404);
+    }
+
+    const account = await this.getAccount(parsed.data.accountId);
+    if (!account.isActive) {
+      throw new BreakGlassError('Break-glass account is disabled');
+    }
+
+    const blockers = useBlockers(await storage.getBreakGlassSessions(this.tenantId));
+    if (blockers.length > 0) {
+      throw new BreakGlassError(`Break-glass is blocked: ${blockers.join('; ')}`, 409);
+    }
+
+    const session = await storage.createBreakGlassSession({
+      tenantId: this.tenantId,
+      accountId: account.id,
+      accountName: account.name,
+      requestedBy: requesterId,
+      requestedByName: displayName(requester),
+      justification: parsed.data.justification,
+      incidentReference: parsed.data.incidentReference,
+      status: 'pending_unseal',
+      expiresAt: new Date(Date.now() + UNSEAL_WINDOW_MINUTES * 60 * 1000),
+    });
+
+    await this.page(account, session, 'break_glass.requested',
+      `Break-glass requested: ${account.name}`,
+      `${session.requestedByName} requested the ${account.system} break-glass account: ${session.justification}. ` +
+      `A second IT manager must unseal it within ${UNSEAL_WINDOW_MINUTES} minutes.`);
+
+    console.log(`[BreakGlass] Session ${session.id} requested by ${requesterId} for account ${account.id}`);
+    return session;
+  }
+
+  /**
+   * Second-person unseal: starts the session clock and opens its post-incident review
+   */
+  async unseal(sessionId: string, unsealerId: string): Promise<BreakGlassSession> {
+    const session = await this.getSession(sessionId);
+
+    const check = canUnseal(session, unsealerId);
+    if (check === 'same_person') {
+      throw new BreakGlassError('A second person must unseal break-glass access', 403);
+    }
+    if (check === 'not_pending') {
+      throw new BreakGlassError(`Session is not awaiting unseal (status: ${session.status})`, 409);
+    }
+    if (check === 'window_passed') {
+      throw new BreakGlassError(`The ${UNSEAL_WINDOW_MINUTES} minute unseal window has passed`, 409);
+    }
+
+    const unsealer = await storage.getUser(unsealerId);
+    if (!unsealer) {
+      throw new BreakGlassError('User not found', 404);
+    }
+
+    const account = await this.getAccount(session.accountId);
+    const now = new Date();
+    const updated = await storage.updateBreakGlassSession(sessionId, this.tenantId, {
+      status: 'active',
+      unsealedBy: unsealerId,
+      unsealedByName: displayName(unsealer),
+      unsealedAt: now,
+      expiresAt: new Date(now.getTime() + account.sessionMinutes * 60 * 1000),
+      reviewStatus: 'pending',
+    });
+    await storage.updateBreakGlassAccount(account.id, this.tenantId, { lastUsedAt: now });
+
+    await this.page(account, updated!, 'break_glass.unsealed',
+      `Break-glass in use: ${account.name}`,
+      `${updated!.unsealedByName} unsealed the ${account.system} break-glass account for ${updated!.requestedByName} ` +
+      `until ${updated!.expiresAt.toISOString()}. A post-incident review is now required.`);
+
+    policyEngine.getEventSystem().emit('break_glass.unsealed', {
+      tenantId: this.tenantId,
+      sessionId,
+      accountName: account.name,
+      requestedBy: session.requestedBy,
+      unsealedBy: unsealerId,
+      incidentReference: session.incidentReference,
+    });
+
+    console.log(`[BreakGlass] Session ${sessionId} unsealed by ${unsealerId}`);
+    return updated!;
+  }
+
+  /**
+   * Decrypt the credential for the requester of an unsealed session. Every view is counted so the
+   * review can insist on rotation.
+   */
+  async revealCredential(sessionId: string, userId: string): Promise<BreakGlassCredential> {
+    const session = await this.getSession(sessionId);
+
+    const denied = canViewCredential(session, userId);
+    if (denied) {
+      throw new BreakGlassError(denied, session.requestedBy === userId ? 409 : 403);
+    }
+
+    const account = await this.getAccount(session.accountId);
+    await storage.updateBreakGlassSession(sessionId, this.tenantId, {
+      credentialViewCount: (session.credentialViewCount ?? 0) + 1,
+      lastCredentialViewAt: new Date(),
+    });
+
+    console.log(`[BreakGlass] Credential for session ${sessionId} viewed by ${userId}`);
+    return {
+      sessionId,
+      system: account.system,
+      username: account.username,
+      credential: decrypt(account.credentialEncrypted),
+      expiresAt: session.expiresAt,
+    };
+  }
+
+  /**
+   * End a session early: the requester or an IT manager closes an active session or cancels one
+   * still awaiting unseal
+   */
+  async endSession(sessionId: string, user: { id: string; isItManager: boolean }, reason?: string): Promise<BreakGlassSession> {
+    const session = await this.getSession(sessionId);
+
+    if (session.requestedBy !== user.id && !user.isItManager) {
+      throw new BreakGlassError('Only the requester or an IT manager can end this session', 403);
+    }
+    if (session.status !== 'active' && session.status !== 'pending_unseal') {
+      throw new BreakGlassError(`Cannot end ${session.status} session`, 409);
+    }
+
+    const updated = await storage.updateBreakGlassSession(sessionId, this.tenantId, {
+      status: session.status === 'active' ? 'closed' : 'cancelled',
+      endedAt: new Date(),
+      endedBy: user.id,
+      endReason: reason,
+    });
+
+    console.log(`[BreakGlass] Session ${sessionId} ${updated!.status} by ${user.id}`);
+    return updated!;
+  }
+
+  /**
+   * Expire sessions past their end and requests past the unseal window
+   */
+  async expireSessions(): Promise<{ expired: number }> {
+    const sessions = await storage.getExpiredBreakGlassSessions(this.tenantId);
+
+    for (const session of sessions) {
+      await storage.updateBreakGlassSession(session.id, this.tenantId, {
+        status: 'expired',
+        endedAt: new Date(),
+        endReason: session.status === 'active' ? 'Session time elapsed' : 'Not unsealed in time',
+      });
+
+      if (session.status === 'active') {
+        policyEngine.getEventSystem().emit('break_glass.expired', {
+          tenantId: this.tenantId,
+          sessionId: session.id,
+          accountName: session.accountName,
+          requestedBy: session.requestedBy,
+        });
+      }
+    }
+
+    if (sessions.length > 0) {
+      console.log(`[BreakGlass] Expired ${sessions.length} break-glass sessions in tenant ${this.tenantId}`);
+    }
+    return { expired: sessions.length };
+  }
+
+  /**
+   * Complete the post-incident review of a session, lifting its block on break-glass use
+   */
+  async completeReview(sessionId: string, reviewerId: string, input: unknown): Promise<BreakGlassSession> {
+    const parsed = breakGlassReviewSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new BreakGlassError(parsed.error.errors.map(e => e.message).join('; '));
+    }
+
+    const session = await this.getSession(sessionId);
+    const account = await storage.getBreakGlassAccount(session.accountId, this.tenantId);
+
+    const blocker = reviewBlocker(session, account, reviewerId);
+    if (blocker) {
+      throw new BreakGlassError(blocker, session.requestedBy === reviewerId ? 403 : 409);
+    }
+
+    const reviewer = await storage.getUser(reviewerId);
+    if (!reviewer) {
+      throw new BreakGlassError('User not found', 404);
+    }
+
+    const updated = await storage.updateBreakGlassSession(sessionId, this.tenantId, {
+      reviewStatus: 'completed',
+      reviewedBy: reviewerId,
+      reviewedByName: displayName(reviewer),
+      reviewedAt: new Date(),
+      reviewFindings: parsed.data.findings,
+    });
+
+    console.log(`[BreakGlass] Post-incident review for session ${sessionId} completed by ${reviewerId}`);
+    return updated!;
+  }
+
+  private async getAccount(accountId: string): Promise<BreakGlassAccount> {
+    const account = await storage.getBreakGlassAccount(accountId, this.tenantId);
+    if (!account) {
+      throw new BreakGlassError('Break-glass account not found', 404);
+    }
+    return account;
+  }
+
+  private async getSession(sessionId: string): Promise<BreakGlassSession> {
+    const session = await storage.getBreakGlassSession(sessionId, this.tenantId);
+    if (!session) {
+      throw new BreakGlassError('Break-glass session not found', 404);
+    }
+    return session;
+  }
+
+  /**
+   * Page the account's channels and recipients. Paging failures are logged rather than thrown so
+   * a broken channel cannot hold up incident response.
+   */
+  private async page(account: BreakGlassAccount, session: BreakGlassSession, triggerEvent: string, title: string, description: string): Promise<void> {
+    const notificationService = new NotificationService(this.tenantId);
+    const alert = {
+      id: session.id,
+      title,
+      description,
+      severity: 'critical',
+      triggerEvent,
+      triggerData: {
+        sessionId: session.id,
+        accountName: account.name,
+        system: account.system,
+        requestedBy: session.requestedByName,
+        incidentReference: session.incidentReference,
+      },
+      createdAt: new Date(),
+    };
+
+    let delivered = 0;
+    for (const channelId of account.pageChannelIds || []) {
+      const record = await storage.getNotificationChannel(channelId, this.tenantId);
+      if (record?.enabled && await notificationService.sendNotification(toNotificationChannel(record), alert)) {
+        delivered++;
+      }
+    }
+    if (account.pageRecipients?.length && await notificationService.sendToRecipients(account.pageRecipients, alert)) {
+      delivered++;
+    }
+
+    if (delivered === 0) {
+      console.error(`[BreakGlass] Page for session ${session.id} (${triggerEvent}) was not delivered to any channel or recipient`);
+    }
+  }
+}
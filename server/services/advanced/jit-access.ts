@@ -4,7 +4,7 @@
  * Enables temporary privilege elevation with automatic revocation:
  * - Request temporary admin access (4/8/24/72 hours)
  * - Manager approval for sensitive apps
- * - MFA requirement for JIT sessions
+ * - MFA step-up (TOTP or WebAuthn challenge/response) to activate sessions
  * - Auto-revocation after expiry
  * - Session extension requests
  * - Real-time monitoring dashboard
@@ -15,6 +15,7 @@
 import { storage } from '../../storage';
 import type { InsertJitAccessSession } from '@shared/schema';
 import { policyEngine } from '../policy/engine';
+import { MfaService, MfaVerificationError, type MfaChallengeOptions, type MfaResponse, type MfaVerificationResult } from '../mfa/mfa-service';
 
 export interface JitAccessRequest {
   userId: string;
@@ -93,13 +94,19 @@ export class JitAccessService {
       requiresApproval,
       requiresMfa: request.requiresMfa,
       mfaVerified: false,
-      status: requiresApproval ? 'pending_approval' : 'pending_mfa',
+      status: requiresApproval ? 'pending_approval' : (request.requiresMfa ? 'pending_mfa' : 'active'),
+      activatedAt: !requiresApproval && !request.requiresMfa ? startsAt : undefined,
       approverId: requiresApproval ? user.manager : undefined,
       approverName: requiresApproval && user.manager ? (await storage.getUser(user.manager))?.name : undefined,
     };
 
     const created = await storage.createJitAccessSession(session);
 
+    // Neither approval nor MFA stands in the way, so elevate immediately
+    if (created.status === 'active') {
+      await this.grantAccess(created);
+    }
+
     // Send notification to approver if approval required
     if (requiresApproval && user.manager) {
       const approver = await storage.getUser(user.manager);
@@ -179,11 +186,56 @@ export class JitAccessService {
   }
 
   /**
-   * Verify MFA and activate JIT session
+   * Issue a fresh MFA challenge for activating a JIT session
    */
-  async verifyMfaAndActivate(sessionId: string, userId: string): Promise<void> {
+  async createMfaChallenge(sessionId: string, userId: string): Promise<MfaChallengeOptions> {
+    await this.getPendingMfaSession(sessionId, userId);
+
+    const mfa = new MfaService(this.tenantId);
+    return mfa.createChallenge(userId, 'jit_activation', sessionId);
+  }
+
+  /**
+   * Verify the MFA challenge response and activate JIT session
+   */
+  async verifyMfaAndActivate(sessionId: string, userId: string, response: MfaResponse): Promise<MfaVerificationResult> {
     console.log(`[JitAccess] Verifying MFA for session ${sessionId}`);
 
+    const session = await this.getPendingMfaSession(sessionId, userId);
+
+    let verification: MfaVerificationResult;
+    try {
+      const mfa = new MfaService(this.tenantId);
+      verification = await mfa.verifyChallenge(userId, 'jit_activation', sessionId, response);
+    } catch (error) {
+      if (error instanceof MfaVerificationError && error.code === 'invalid_response') {
+        await storage.updateJitAccessSession(sessionId, this.tenantId, {
+          mfaFailedAttempts: (session.mfaFailedAttempts || 0) + 1,
+          mfaLastFailedAt: new Date(),
+        });
+      }
+      throw error;
+    }
+
+    // Update session to active
+    const now = new Date();
+    await storage.updateJitAccessSession(sessionId, this.tenantId, {
+      status: 'active',
+      mfaVerified: true,
+      mfaVerifiedAt: now,
+      mfaMethod: verification.method,
+      mfaFactorId: verification.factorId,
+      activatedAt: now,
+    });
+
+    // Grant elevated access
+    await this.grantAccess(session);
+
+    console.log(`[JitAccess] Session ${sessionId} activated with ${verification.method} MFA`);
+    return verification;
+  }
+
+  private async getPendingMfaSession(sessionId: string, userId: string) {
     const session = await storage.getJitAccessSession(sessionId, this.tenantId);
     if (!session) {
       throw new Error('JIT access session not found');
@@ -197,17 +249,7 @@ export class JitAccessService {
       throw new Error(`Session not pending MFA (status: ${session.status})`);
     }
 
-    // Update session to active
-    await storage.updateJitAccessSession(sessionId, this.tenantId, {
-      status: 'active',
-      mfaVerified: true,
-      activatedAt: new Date(),
-    });
-
-    // Grant elevated access
-    await this.grantAccess(session);
-
-    console.log(`[JitAccess] Session ${sessionId} activated with MFA`);
+    return session;
   }
 
   /**
@@ -0,0 +1,133 @@
+/**
+ * Entitlement-level SoD evaluation
+ *
+ * Storage-free helpers behind entitlement-set SoD rules:
+ * - What a user holds: app access, app roles and permissions, directory groups
+ * - Catalog harvesting from IdP app-role discovery and SCIM groups
+ * - Rule evaluation: a rule fires once a user holds at least minMatch of its entitlements.
+ *   Pairwise app rules are evaluated the same way, as "access to app 1" + "access to app 2"
+ */
+
+import type { InsertAppEntitlement, ScimGroup, SodEntitlementRef, SodRule, UserAppAccess } from '@shared/schema';
+
+// Value of an "access" entitlement: any access to the app, whatever the role
+export const ANY_ACCESS = '*';
+
+/**
+ * Identity of an entitlement; role, permission and group names compare case-insensitively
+ */
+export function entitlementKey(ref: Pick<SodEntitlementRef, 'appId' | 'entitlementType' | 'value'>): string {
+  return `${ref.appId ?? ''}|${ref.entitlementType}|${ref.value.trim().toLowerCase()}`;
+}
+
+export function describeEntitlement(ref: SodEntitlementRef, appNames: Map<string, string>): string {
+  if (ref.entitlementType === 'group') return `Group ${ref.value}`;
+  const app = (ref.appId && appNames.get(ref.appId)) || ref.appId || 'Unknown app';
+  if (ref.entitlementType === 'access') return `${app} (any access)`;
+  return `${app} ${ref.entitlementType} ${ref.value}`;
+}
+
+/**
+ * Everything a user holds through active app grants and directory group memberships
+ */
+export function heldEntitlements(access: UserAppAccess[], groupNames: string[]): SodEntitlementRef[] {
+  const held: SodEntitlementRef[] = [];
+  for (const grant of access) {
+    if (grant.status !== 'active') continue;
+    held.push({ appId: grant.appId, entitlementType: 'access', value: ANY_ACCESS });
+    for (const role of grant.roles ?? []) {
+      held.push({ appId: grant.appId, entitlementType: 'role', value: role });
+    }
+    for (const permission of grant.permissions ?? []) {
+      held.push({ appId: grant.appId, entitlementType: 'permission', value: permission });
+    }
+  }
+  for (const name of groupNames) {
+    held.push({ appId: null, entitlementType: 'group', value: name });
+  }
+  return held;
+}
+
+/**
+ * Catalog entries for every role and permission seen on active grants and every SCIM group
+ */
+export function harvestEntitlements(
+  access: UserAppAccess[],
+  groups: ScimGroup[]
+): Array<Omit<InsertAppEntitlement, 'tenantId'>> {
+  const harvested = new Map<string, Omit<InsertAppEntitlement, 'tenantId'>>();
+  const add = (entry: Omit<InsertAppEntitlement, 'tenantId'>) => {
+    const key = entitlementKey({ appId: entry.appId ?? null, entitlementType: entry.entitlementType as SodEntitlementRef['entitlementType'], value: entry.value });
+    if (entry.value.trim() && !harvested.has(key)) harvested.set(key, entry);
+  };
+
+  for (const grant of access) {
+    if (grant.status !== 'active') continue;
+    for (const role of grant.roles ?? []) {
+      add({ appId: grant.appId, entitlementType: 'role', value: role, source: 'app_role' });
+    }
+    for (const permission of grant.permissions ?? []) {
+      add({ appId: grant.appId, entitlementType: 'permission', value: permission, source: 'app_role' });
+    }
+  }
+  for (const group of groups) {
+    add({ appId: null, entitlementType: 'group', value: group.displayName, source: 'idp_group' });
+  }
+  return Array.from(harvested.values());
+}
+
+/**
+ * The entitlements a rule is made of and how many must be held together for it to fire
+ */
+export function ruleEntitlements(rule: SodRule): { entitlements: SodEntitlementRef[]; minMatch: number } {
+  if (rule.ruleType === 'entitlement_set') {
+    const entitlements = (rule.entitlements ?? []) as SodEntitlementRef[];
+    return { entitlements, minMatch: rule.minMatch ?? entitlements.length };
+  }
+  return {
+    entitlements: [
+      { appId: rule.appId1, entitlementType: 'access', value: ANY_ACCESS, label: `${rule.appName1} (any access)` },
+      { appId: rule.appId2, entitlementType: 'access', value: ANY_ACCESS, label: `${rule.appName2} (any access)` },
+    ],
+    minMatch: 2,
+  };
+}
+
+/**
+ * The rule's entitlements found among the held ones, or null while fewer than minMatch are held
+ */
+export function matchRule(rule: SodRule, held: SodEntitlementRef[]): SodEntitlementRef[] | null {
+  const heldKeys = new Set(held.map(entitlementKey));
+  const { entitlements, minMatch } = ruleEntitlements(rule);
+  const matched = entitlements.filter(ref => heldKeys.has(entitlementKey(ref)));
+  return matched.length >= minMatch ? matched : null;
+}
+
+export interface GrantCollision {
+  matched: SodEntitlementRef[];
+  requested: SodEntitlementRef[]; // Matched entitlements that come from the grant being checked
+  conflicting: SodEntitlementRef[]; // Matched entitlements the user already holds
+}
+
+/**
+ * Whether granting the requested entitlements would make the rule fire, with the grant
+ * contributing at least one of the colliding entitlements
+ */
+export function checkGrant(
+  rule: SodRule,
+  held: SodEntitlementRef[],
+  requested: SodEntitlementRef[]
+): GrantCollision | null {
+  const matched = matchRule(rule, [...held, ...requested]);
+  if (!matched) return null;
+
+  const requestedKeys = new Set(requested.map(entitlementKey));
+  const fromGrant = matched.filter(ref => requestedKeys.has(entitlementKey(ref)));
+  if (fromGrant.length === 0) return null;
+
+  return {
+    matched,
+    requested: fromGrant,
+    conflicting: matched.filter(ref => !requestedKeys.has(entitlementKey(ref))),
+  };
+}
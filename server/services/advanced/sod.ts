@@ -2,7 +2,8 @@
  * Segregation of Duties (SoD) Service (Phase 6.3)
  *
  * Detects and prevents conflicting access combinations:
- * - Define SoD rules (conflicting app pairs)
+ * - Define SoD rules (conflicting app pairs, or sets of entitlements with a minimum-match count)
+ * - Entitlement catalog of app roles, permissions and directory groups from IdP discovery
  * - Scan users for violations
  * - Auto-detect on access grants
  * - Block requests that violate SoD
@@ -13,13 +14,35 @@
  */
 
 import { storage } from '../../storage';
-import type { InsertSodRule, InsertSodViolation } from '@shared/schema';
+import { entitlementSodRuleSchema, createAppEntitlementSchema } from '@shared/schema';
+import type { AppEntitlement, InsertSodRule, InsertSodViolation, SodEntitlementRef, SodRule } from '@shared/schema';
 import { policyEngine } from '../policy/engine';
+import {
+  ANY_ACCESS,
+  checkGrant,
+  describeEntitlement,
+  entitlementKey,
+  harvestEntitlements,
+  heldEntitlements,
+  matchRule,
+} from './sod-entitlements';
+
+export class SodError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'SodError';
+  }
+}
 
 export interface SodRuleDefinition {
   name: string;
-  appId1: string;
-  appId2: string;
+  description?: string;
+  // Pairwise rule: access to both apps conflicts
+  appId1?: string;
+  appId2?: string;
+  // Entitlement-set rule: holding minMatch (default 2) of these entitlements conflicts
+  entitlements?: SodEntitlementRef[];
+  minMatch?: number;
   severity: 'low' | 'medium' | 'high' | 'critical';
   rationale: string;
   complianceFramework?: string; // 'SOX', 'GDPR', 'HIPAA', etc.
@@ -35,6 +58,19 @@ export interface SodScanResult {
   lowViolations: number;
 }
 
+/**
+ * Roles and permissions the grant being checked would add on top of access to the app
+ */
+export interface RequestedEntitlements {
+  roles?: string[];
+  permissions?: string[];
+}
+
+export interface EntitlementCatalogRefreshResult {
+  discovered: number;
+  added: number;
+}
+
 /**
  * Pre-built SoD Rules (from PHASE_6_DESIGN.md)
  */
@@ -78,34 +114,49 @@ export class SodService {
   constructor(private tenantId: string) {}
 
   /**
-   * Create a new SoD rule
+   * Create a new SoD rule, either an app pair or an entitlement set
    */
-  async createRule(ruleDefinition: SodRuleDefinition): Promise<any> {
+  async createRule(ruleDefinition: SodRuleDefinition, createdBy: string): Promise<any> {
     console.log(`[SoD] Creating rule: ${ruleDefinition.name}`);
 
-    // Get app details
-    const app1 = await storage.getSaasApp(ruleDefinition.appId1, this.tenantId);
-    const app2 = await storage.getSaasApp(ruleDefinition.appId2, this.tenantId);
-
-    if (!app1 || !app2) {
-      throw new Error('One or both applications not found');
-    }
-
-    // Create rule
-    const rule: InsertSodRule = {
+    const base = {
       tenantId: this.tenantId,
       name: ruleDefinition.name,
+      description: ruleDefinition.description || ruleDefinition.rationale,
       severity: ruleDefinition.severity,
-      appId1: ruleDefinition.appId1,
-      appName1: app1.name,
-      appId2: ruleDefinition.appId2,
-      appName2: app2.name,
       rationale: ruleDefinition.rationale,
       complianceFramework: ruleDefinition.complianceFramework,
       exemptedUsers: ruleDefinition.exemptedUsers || [],
       isActive: true,
+      createdBy,
     };
 
+    let rule: InsertSodRule;
+    if (ruleDefinition.entitlements) {
+      rule = {
+        ...base,
+        ruleType: 'entitlement_set',
+        ...(await this.resolveEntitlementSet(ruleDefinition.entitlements, ruleDefinition.minMatch)),
+      };
+    } else {
+      // Get app details
+      const app1 = ruleDefinition.appId1 ? await storage.getSaasApp(ruleDefinition.appId1, this.tenantId) : undefined;
+      const app2 = ruleDefinition.appId2 ? await storage.getSaasApp(ruleDefinition.appId2, this.tenantId) : undefined;
+
+      if (!app1 || !app2) {
+        throw new SodError('One or both applications not found', 404);
+      }
+
+      rule = {
+        ...base,
+        ruleType: 'app_pair',
+        appId1: app1.id,
+        appName1: app1.name,
+        appId2: app2.id,
+        appName2: app2.name,
+      };
+    }
+
     const created = await storage.createSodRule(rule);
 
     console.log(`[SoD] Created rule ${created.id}: ${created.name}`);
@@ -116,6 +167,43 @@ export class SodService {
     return created;
   }
 
+  /**
+   * Validate an entitlement set and label each entitlement for violation reports
+   */
+  private async resolveEntitlementSet(
+    entitlements: SodEntitlementRef[],
+    minMatch?: number
+  ): Promise<{ entitlements: SodEntitlementRef[]; minMatch: number }> {
+    const parsed = entitlementSodRuleSchema.safeParse({ entitlements, minMatch });
+    if (!parsed.success) {
+      throw new SodError(parsed.error.errors[0]?.message ?? 'Invalid entitlement set');
+    }
+
+    const refs = parsed.data.entitlements.map(ref => ({
+      ...ref,
+      value: ref.entitlementType === 'access' ? ANY_ACCESS : ref.value,
+    }));
+    if (new Set(refs.map(entitlementKey)).size !== refs.length) {
+      throw new SodError('An entitlement set cannot list the same entitlement twice');
+    }
+
+    const appNames = await this.getAppNames();
+    const unknownApp = refs.find(ref => ref.appId && !appNames.has(ref.appId));
+    if (unknownApp) {
+      throw new SodError(`Application ${unknownApp.appId} not found`, 404);
+    }
+
+    return {
+      entitlements: refs.map(ref => ({ ...ref, label: ref.label || describeEntitlement(ref, appNames) })),
+      minMatch: parsed.data.minMatch,
+    };
+  }
+
+  private async getAppNames(): Promise<Map<string, string>> {
+    const apps = await storage.getSaasApps(this.tenantId);
+    return new Map(apps.map(app => [app.id, app.name]));
+  }
+
   /**
    * Update an existing SoD rule
    */
@@ -136,10 +224,19 @@ export class SodService {
     if (updates.complianceFramework) updateData.complianceFramework = updates.complianceFramework;
     if (updates.exemptedUsers !== undefined) updateData.exemptedUsers = updates.exemptedUsers;
 
+    const entitlementsChanged = rule.ruleType === 'entitlement_set' &&
+      (updates.entitlements !== undefined || updates.minMatch !== undefined);
+    if (entitlementsChanged) {
+      Object.assign(updateData, await this.resolveEntitlementSet(
+        updates.entitlements ?? (rule.entitlements as SodEntitlementRef[]),
+        updates.minMatch ?? rule.minMatch ?? undefined
+      ));
+    }
+
     const updated = await storage.updateSodRule(ruleId, this.tenantId, updateData);
 
-    // Re-scan for violations if exemptions changed
-    if (updates.exemptedUsers !== undefined) {
+    // Re-scan for violations if exemptions or the entitlement set changed
+    if (updates.exemptedUsers !== undefined || entitlementsChanged) {
       await this.scanForViolations(ruleId);
     }
 
@@ -197,17 +294,22 @@ export class SodService {
   }
 
   /**
-   * Check if a user-app combination would violate any SoD rules
+   * Check if granting a user an app (and optionally specific roles/permissions in it) would violate
+   * any SoD rules. Each violation lists the colliding entitlements the user already holds.
    */
-  async checkViolation(userId: string, newAppId: string): Promise<any[]> {
+  async checkViolation(userId: string, newAppId: string, requested: RequestedEntitlements = {}): Promise<any[]> {
     console.log(`[SoD] Checking SoD violations for user ${userId} accessing app ${newAppId}`);
 
-    // Get user's current app access
-    const userAccess = await storage.getUserAppAccessList(userId, this.tenantId);
-    const userAppIds = userAccess.map(a => a.appId);
+    const held = await this.getHeldEntitlements(userId);
+    const requestedRefs: SodEntitlementRef[] = [
+      { appId: newAppId, entitlementType: 'access', value: ANY_ACCESS },
+      ...(requested.roles ?? []).map(value => ({ appId: newAppId, entitlementType: 'role' as const, value })),
+      ...(requested.permissions ?? []).map(value => ({ appId: newAppId, entitlementType: 'permission' as const, value })),
+    ];
 
     // Get all active SoD rules
     const rules = await storage.getSodRules(this.tenantId, { isActive: true });
+    const appNames = await this.getAppNames();
 
     const violations = [];
 
@@ -217,29 +319,24 @@ export class SodService {
         continue;
       }
 
-      // Check if user has app1 and is requesting app2
-      if (userAppIds.includes(rule.appId1) && newAppId === rule.appId2) {
-        violations.push({
-          ruleId: rule.id,
-          ruleName: rule.name,
-          severity: rule.severity,
-          conflictingApp: rule.appName1,
-          rationale: rule.rationale,
-          complianceFramework: rule.complianceFramework,
-        });
-      }
-
-      // Check if user has app2 and is requesting app1
-      if (userAppIds.includes(rule.appId2) && newAppId === rule.appId1) {
-        violations.push({
-          ruleId: rule.id,
-          ruleName: rule.name,
-          severity: rule.severity,
-          conflictingApp: rule.appName2,
-          rationale: rule.rationale,
-          complianceFramework: rule.complianceFramework,
-        });
-      }
+      const collision = checkGrant(rule, held, requestedRefs);
+      if (!collision) continue;
+
+      const labelled = (refs: SodEntitlementRef[]) =>
+        refs.map(ref => ({ ...ref, label: ref.label || describeEntitlement(ref, appNames) }));
+
+      violations.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        ruleType: rule.ruleType,
+        severity: rule.severity,
+        conflictingApp: this.conflictingAppNames(collision.conflicting, appNames),
+        conflictingEntitlements: labelled(collision.conflicting),
+        requestedEntitlements: labelled(collision.requested),
+        minMatch: rule.ruleType === 'entitlement_set' ? rule.minMatch : 2,
+        rationale: rule.rationale,
+        complianceFramework: rule.complianceFramework,
+      });
     }
 
     if (violations.length > 0) {
@@ -260,6 +357,12 @@ export class SodService {
       ? [(await storage.getSodRule(ruleId, this.tenantId))!]
       : await storage.getSodRules(this.tenantId, { isActive: true });
 
+    // Entitlements for the whole tenant, loaded once rather than per user
+    const heldByUser = await this.getHeldEntitlementsByUser();
+    const appNames = await this.getAppNames();
+    const openViolations = await storage.getSodViolations(this.tenantId, { status: 'open' });
+    const openKeys = new Set(openViolations.map(v => `${v.sodRuleId}|${v.userId}`));
+
     let violationsFound = 0;
     let criticalViolations = 0;
     let highViolations = 0;
@@ -267,9 +370,8 @@ export class SodService {
     let lowViolations = 0;
 
     for (const user of users) {
-      // Get user's app access
-      const userAccess = await storage.getUserAppAccessList(user.id, this.tenantId);
-      const userAppIds = userAccess.map(a => a.appId);
+      const held = heldByUser.get(user.id) ?? [];
+      const userName = `${user.firstName} ${user.lastName}`.trim() || user.email;
 
       for (const rule of rules) {
         // Check if user is exempted
@@ -277,71 +379,67 @@ export class SodService {
           continue;
         }
 
-        // Check if user has both apps in the rule
-        if (userAppIds.includes(rule.appId1) && userAppIds.includes(rule.appId2)) {
-          // Check if violation already exists
-          const existingViolations = await storage.getSodViolations(this.tenantId, {
+        const matched = matchRule(rule, held);
+        if (!matched || openKeys.has(`${rule.id}|${user.id}`)) {
+          continue;
+        }
+
+        const matchedEntitlements = matched.map(ref => ({
+          ...ref,
+          label: ref.label || describeEntitlement(ref, appNames),
+        }));
+        const apps = this.violationApps(rule, matched, appNames);
+
+        // Create violation
+        const violation: InsertSodViolation = {
+          tenantId: this.tenantId,
+          sodRuleId: rule.id,
+          ruleName: rule.name,
+          userId: user.id,
+          userName,
+          userEmail: user.email,
+          userDepartment: user.department,
+          ...apps,
+          matchedEntitlements,
+          riskFactors: matchedEntitlements.map(ref => ref.label),
+          recommendedAction: rule.rationale,
+          severity: rule.severity,
+          status: 'open',
+        };
+
+        await storage.createSodViolation(violation);
+        openKeys.add(`${rule.id}|${user.id}`);
+
+        violationsFound++;
+
+        // Count by severity
+        switch (rule.severity) {
+          case 'critical':
+            criticalViolations++;
+            break;
+          case 'high':
+            highViolations++;
+            break;
+          case 'medium':
+            mediumViolations++;
+            break;
+          case 'low':
+            lowViolations++;
+            break;
+        }
+
+        // Emit policy event for critical violations
+        if (rule.severity === 'critical') {
+          const eventSystem = policyEngine.getEventSystem();
+          eventSystem.emit('sod.critical_violation', {
+            tenantId: this.tenantId,
             userId: user.id,
+            userName,
+            ruleName: rule.name,
+            appName1: apps.app1Name,
+            appName2: apps.app2Name,
+            matchedEntitlements: matchedEntitlements.map(ref => ref.label),
           });
-
-          const alreadyExists = existingViolations.some(
-            v => v.sodRuleId === rule.id && v.status === 'open'
-          );
-
-          if (!alreadyExists) {
-            // Create violation
-            const violation: InsertSodViolation = {
-              tenantId: this.tenantId,
-              sodRuleId: rule.id,
-              sodRuleName: rule.name,
-              userId: user.id,
-              userName: user.name,
-              userEmail: user.email,
-              userDepartment: user.department,
-              appId1: rule.appId1,
-              appName1: rule.appName1,
-              appId2: rule.appId2,
-              appName2: rule.appName2,
-              severity: rule.severity,
-              rationale: rule.rationale,
-              complianceFramework: rule.complianceFramework,
-              status: 'open',
-              detectedAt: new Date(),
-            };
-
-            await storage.createSodViolation(violation);
-
-            violationsFound++;
-
-            // Count by severity
-            switch (rule.severity) {
-              case 'critical':
-                criticalViolations++;
-                break;
-              case 'high':
-                highViolations++;
-                break;
-              case 'medium':
-                mediumViolations++;
-                break;
-              case 'low':
-                lowViolations++;
-                break;
-            }
-
-            // Emit policy event for critical violations
-            if (rule.severity === 'critical') {
-              const eventSystem = policyEngine.getEventSystem();
-              eventSystem.emit('sod.critical_violation', {
-                tenantId: this.tenantId,
-                userId: user.id,
-                userName: user.name,
-                ruleName: rule.name,
-                appName1: rule.appName1,
-                appName2: rule.appName2,
-              });
-            }
-          }
         }
       }
     }
@@ -358,6 +456,152 @@ export class SodService {
     };
   }
 
+  private async getHeldEntitlements(userId: string) {
+    const [access, memberships, groups] = await Promise.all([
+      storage.getUserAppAccessList(userId, this.tenantId),
+      storage.getScimGroupMembershipsForUser(userId, this.tenantId),
+      storage.getScimGroups(this.tenantId),
+    ]);
+    const groupNames = new Map(groups.map(group => [group.id, group.displayName]));
+    return heldEntitlements(
+      access,
+      memberships.map(member => groupNames.get(member.groupId)).filter((name): name is string => !!name)
+    );
+  }
+
+  private async getHeldEntitlementsByUser(): Promise<Map<string, SodEntitlementRef[]>> {
+    const [access, members, groups] = await Promise.all([
+      storage.getUserAppAccesses(this.tenantId, { status: 'active' }),
+      storage.getScimGroupMembers(this.tenantId),
+      storage.getScimGroups(this.tenantId),
+    ]);
+    const groupNames = new Map(groups.map(group => [group.id, group.displayName]));
+
+    const userIds = new Set([...access.map(grant => grant.userId), ...members.map(member => member.userId)]);
+    const heldByUser = new Map<string, SodEntitlementRef[]>();
+    for (const userId of Array.from(userIds)) {
+      heldByUser.set(userId, heldEntitlements(
+        access.filter(grant => grant.userId === userId),
+        members
+          .filter(member => member.userId === userId)
+          .map(member => groupNames.get(member.groupId))
+          .filter((name): name is string => !!name)
+      ));
+    }
+    return heldByUser;
+  }
+
+  private conflictingAppNames(conflicting: SodEntitlementRef[], appNames: Map<string, string>): string {
+    const names = conflicting.map(ref =>
+      ref.appId ? appNames.get(ref.appId) ?? ref.appId : describeEntitlement(ref, appNames)
+    );
+    return Array.from(new Set(names)).join(', ');
+  }
+
+  /**
+   * The two apps a violation is filed under: the rule's pair, or the first two distinct apps among
+   * the colliding entitlements (the same app twice for a toxic combination inside one app)
+   */
+  private violationApps(rule: SodRule, matched: SodEntitlementRef[], appNames: Map<string, string>) {
+    if (rule.ruleType !== 'entitlement_set') {
+      return { app1Id: rule.appId1, app1Name: rule.appName1, app2Id: rule.appId2, app2Name: rule.appName2 };
+    }
+    const appIds = Array.from(new Set(matched.map(ref => ref.appId).filter((id): id is string => !!id)));
+    const app1Id = appIds[0] ?? null;
+    const app2Id = appIds[1] ?? app1Id;
+    return {
+      app1Id,
+      app1Name: app1Id ? appNames.get(app1Id) ?? app1Id : null,
+      app2Id,
+      app2Name: app2Id ? appNames.get(app2Id) ?? app2Id : null,
+    };
+  }
+
+  /**
+   * Rebuild the entitlement catalog from IdP app-role discovery (roles and permissions on active
+   * grants) and SCIM groups. Existing entries are kept and marked as seen; nothing is removed.
+   */
+  async refreshEntitlementCatalog(): Promise<EntitlementCatalogRefreshResult> {
+    console.log(`[SoD] Refreshing entitlement catalog for tenant ${this.tenantId}`);
+
+    const [access, groups, existing] = await Promise.all([
+      storage.getUserAppAccesses(this.tenantId, { status: 'active' }),
+      storage.getScimGroups(this.tenantId),
+      storage.getAppEntitlements(this.tenantId),
+    ]);
+
+    const now = new Date();
+    const harvested = harvestEntitlements(access, groups);
+    const existingByKey = new Map(existing.map(entry => [entitlementKey({
+      appId: entry.appId,
+      entitlementType: entry.entitlementType as SodEntitlementRef['entitlementType'],
+      value: entry.value,
+    }), entry]));
+
+    const seenIds: string[] = [];
+    const toAdd = [];
+    for (const entry of harvested) {
+      const key = entitlementKey({
+        appId: entry.appId ?? null,
+        entitlementType: entry.entitlementType as SodEntitlementRef['entitlementType'],
+        value: entry.value,
+      });
+      const current = existingByKey.get(key);
+      if (current) {
+        seenIds.push(current.id);
+      } else {
+        toAdd.push({ ...entry, tenantId: this.tenantId, lastSeenAt: now });
+      }
+    }
+
+    const added = await storage.createAppEntitlements(toAdd);
+    await storage.markAppEntitlementsSeen(this.tenantId, seenIds, now);
+
+    console.log(`[SoD] Entitlement catalog: ${harvested.length} discovered, ${added.length} added`);
+
+    return { discovered: harvested.length, added: added.length };
+  }
+
+  /**
+   * Entitlement catalog, optionally for one app
+   */
+  async getEntitlementCatalog(appId?: string): Promise<AppEntitlement[]> {
+    return storage.getAppEntitlements(this.tenantId, { appId });
+  }
+
+  /**
+   * Add an entitlement the IdP does not report (e.g. an ERP permission managed in-app)
+   */
+  async addEntitlement(input: unknown): Promise<AppEntitlement> {
+    const parsed = createAppEntitlementSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new SodError(parsed.error.errors[0]?.message ?? 'Invalid entitlement');
+    }
+    const { appId, entitlementType } = parsed.data;
+    if ((entitlementType === 'group') !== (appId === null)) {
+      throw new SodError('Groups have no appId; roles and permissions belong to an app');
+    }
+    if (appId && !(await storage.getSaasApp(appId, this.tenantId))) {
+      throw new SodError('Application not found', 404);
+    }
+
+    const [created] = await storage.createAppEntitlements([{ ...parsed.data, tenantId: this.tenantId, source: 'manual' }]);
+    if (!created) {
+      throw new SodError('This entitlement is already in the catalog', 409);
+    }
+    return created;
+  }
+
+  /**
+   * Remove a catalog entry; rules that reference it keep their own copy
+   */
+  async deleteEntitlement(id: string): Promise<void> {
+    const deleted = await storage.deleteAppEntitlement(id, this.tenantId);
+    if (!deleted) {
+      throw new SodError('Entitlement not found', 404);
+    }
+  }
+
   /**
    * Remediate a violation (revoke one of the conflicting accesses)
    */
@@ -374,21 +618,26 @@ export class SodService {
     }
 
     // Validate revokeAppId is one of the conflicting apps
-    if (revokeAppId !== violation.appId1 && revokeAppId !== violation.appId2) {
+    const conflictingAppIds = [
+      violation.app1Id,
+      violation.app2Id,
+      ...(violation.matchedEntitlements ?? []).map(ref => ref.appId),
+    ].filter(Boolean);
+    if (!conflictingAppIds.includes(revokeAppId)) {
       throw new Error('Invalid app ID: must be one of the conflicting apps');
     }
 
     // Revoke access
     await storage.revokeUserAppAccess(violation.userId, revokeAppId, this.tenantId);
 
+    const revokedApp = await storage.getSaasApp(revokeAppId, this.tenantId);
+
     // Update violation status
     await storage.updateSodViolation(violationId, this.tenantId, {
       status: 'remediated',
-      remediatedBy,
-      remediatedAt: new Date(),
-      remediationAction: `Revoked access to ${revokeAppId === violation.appId1 ? violation.appName1 : violation.appName2}`,
-      resolutionNotes: notes,
+      resolvedBy: remediatedBy,
       resolvedAt: new Date(),
+      resolutionNotes: `Revoked access to ${revokedApp?.name ?? revokeAppId}${notes ? `: ${notes}` : ''}`,
     });
 
     console.log(`[SoD] Violation ${violationId} remediated`);
@@ -0,0 +1,67 @@
+import crypto from "crypto";
+import type { AgentDevice } from "@shared/schema";
+import { storage } from "../../storage";
+
+export const AGENT_TOKEN_PREFIX = "itam_agent_";
+export const AGENT_CHECKIN_INTERVAL_SECONDS = Math.max(60, Number(process.env.AGENT_CHECKIN_INTERVAL_SECONDS) || 3600);
+
+export interface IssuedAgentCredential {
+  device: AgentDevice;
+  token: string;
+}
+
+export function hashAgentToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Issue a new agent credential for an enrolled asset. Earlier credentials for
+ * the same asset are revoked so a re-enrolled machine cannot be impersonated
+ * with a leaked old token.
+ */
+export async function issueAgentCredential(params: {
+  tenantId: string;
+  assetId: string;
+  hostname: string;
+  serialNumber: string | null;
+  platform: string | null;
+  agentVersion: string | null;
+  lastIp: string | null;
+  inventoryTaken: boolean;
+}): Promise<IssuedAgentCredential> {
+  await storage.revokeAgentDevicesForAsset(params.assetId, params.tenantId);
+
+  const token = `${AGENT_TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+  const now = new Date();
+  const device = await storage.createAgentDevice({
+    tenantId: params.tenantId,
+    assetId: params.assetId,
+    hostname: params.hostname,
+    serialNumber: params.serialNumber,
+    credentialHash: hashAgentToken(token),
+    credentialPrefix: token.slice(0, AGENT_TOKEN_PREFIX.length + 6),
+    platform: params.platform,
+    agentVersion: params.agentVersion,
+    checkInIntervalSeconds: AGENT_CHECKIN_INTERVAL_SECONDS,
+    lastCheckInAt: now,
+    lastIp: params.lastIp,
+    lastInventoryAt: params.inventoryTaken ? now : null,
+  });
+
+  return { device, token };
+}
+
+/**
+ * Resolve the agent device from its Authorization header
+ */
+export async function authenticateAgent(authHeader: string | undefined): Promise<AgentDevice | null> {
+  if (!authHeader?.startsWith(`Bearer ${AGENT_TOKEN_PREFIX}`)) {
+    return null;
+  }
+
+  const device = await storage.getAgentDeviceByCredentialHash(hashAgentToken(authHeader.substring(7)));
+  if (!device || device.status !== "active") {
+    return null;
+  }
+  return device;
+}
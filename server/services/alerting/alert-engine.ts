@@ -11,6 +11,7 @@
 
 import { storage } from '../../storage';
 import { policyEngine } from '../policy/engine';
+import type { PolicyEvent } from '../policy/event-system';
 import { NotificationService, NotificationChannel } from './notification-service';
 
 export interface AlertConfiguration {
@@ -96,49 +97,6 @@ export class AlertEngine {
     this.tenantId = tenantId;
     this.notificationService = new NotificationService(tenantId);
     this.alertCounts = new Map();
-    this.initializeEventListeners();
-  }
-
-  /**
-   * Initialize event listeners for alert triggers
-   */
-  private initializeEventListeners(): void {
-    const eventSystem = policyEngine.getEventSystem();
-
-    // Shadow IT events
-    eventSystem.on('app.discovered', (data) => {
-      if (data.tenantId === this.tenantId) {
-        this.processEvent('app.discovered', data);
-      }
-    });
-
-    // OAuth risk events
-    eventSystem.on('oauth.risky_permission', (data) => {
-      if (data.tenantId === this.tenantId) {
-        this.processEvent('oauth.risky_permission', data);
-      }
-    });
-
-    // Network anomaly events
-    eventSystem.on('network.anomaly', (data) => {
-      if (data.tenantId === this.tenantId) {
-        this.processEvent('network.anomaly', data);
-      }
-    });
-
-    // User events
-    eventSystem.on('user.suspicious_activity', (data) => {
-      if (data.tenantId === this.tenantId) {
-        this.processEvent('user.suspicious_activity', data);
-      }
-    });
-
-    // Policy violations
-    eventSystem.on('policy.violation', (data) => {
-      if (data.tenantId === this.tenantId) {
-        this.processEvent('policy.violation', data);
-      }
-    });
   }
 
   /**
@@ -173,7 +131,9 @@ export class AlertEngine {
         await this.createAlert(config, eventType, eventData);
       }
     } catch (error) {
+      // Rethrow so the event bus retries the delivery
       console.error(`[AlertEngine] Error processing event:`, error);
+      throw error;
     }
   }
 
@@ -529,3 +489,35 @@ export interface AlertStats {
 }
 
 export const createAlertEngine = (tenantId: string) => new AlertEngine(tenantId);
+
+// Events that can trigger alerts
+const ALERT_TRIGGER_EVENTS: PolicyEvent[] = [
+  'app.discovered',         // Shadow IT events
+  'oauth.risky_permission', // OAuth risk events
+  'network.anomaly',        // Network anomaly events
+  'user.suspicious_activity',
+  'policy.violation',
+];
+
+// One engine per tenant for event processing, so rate limits span events
+const eventEngines = new Map<string, AlertEngine>();
+
+/**
+ * Register the alert engine as a durable event bus consumer (once per process)
+ */
+function registerAlertEventConsumer(): void {
+  const eventSystem = policyEngine.getEventSystem();
+
+  for (const event of ALERT_TRIGGER_EVENTS) {
+    eventSystem.subscribe('alert-engine', event, (data) => {
+      let engine = eventEngines.get(data.tenantId);
+      if (!engine) {
+        engine = new AlertEngine(data.tenantId);
+        eventEngines.set(data.tenantId, engine);
+      }
+      return engine.processEvent(event, data);
+    });
+  }
+}
+
+registerAlertEventConsumer();
@@ -11,6 +11,7 @@
  */
 
 import { storage } from '../../storage';
+import type { NotificationChannel as NotificationChannelRecord } from '@shared/schema';
 
 export interface NotificationChannel {
   id: string;
@@ -44,6 +45,32 @@ export interface NotificationPayload {
   actionUrl?: string;
 }
 
+/**
+ * Map a stored notification_channels row onto the shape used by the senders.
+ * Channel-specific settings (webhook URLs, recipients, routing keys) live in `config`.
+ */
+export function toNotificationChannel(record: NotificationChannelRecord): NotificationChannel {
+  const config = (record.config || {}) as Record<string, any>;
+
+  return {
+    id: record.id,
+    tenantId: record.tenantId,
+    name: record.name,
+    channelType: record.type as ChannelType,
+    configuration: config,
+    webhookUrl: config.webhookUrl,
+    webhookSecret: config.webhookSecret,
+    emailAddresses: config.emailAddresses,
+    slackWebhookUrl: config.slackWebhookUrl,
+    slackChannel: config.slackChannel,
+    teamsWebhookUrl: config.teamsWebhookUrl,
+    pagerdutyRoutingKey: config.pagerdutyRoutingKey,
+    enabled: record.enabled ?? true,
+    verified: config.verified ?? false,
+    failureCount: config.failureCount ?? 0,
+  };
+}
+
 /**
  * Notification Service
  */
@@ -111,6 +138,30 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Send an email notification to ad-hoc recipients that are not backed by a stored channel
+   */
+  async sendToRecipients(recipients: string[], alert: any): Promise<boolean> {
+    const payload = this.buildPayload(alert);
+
+    try {
+      return await this.sendEmail({
+        id: 'adhoc',
+        tenantId: this.tenantId,
+        name: 'Ad-hoc recipients',
+        channelType: 'email',
+        configuration: {},
+        emailAddresses: recipients,
+        enabled: true,
+        verified: false,
+        failureCount: 0,
+      }, payload);
+    } catch (error: any) {
+      console.error('[Notification] Error sending to recipients:', error);
+      return false;
+    }
+  }
+
   /**
    * Build notification payload from alert
    */
@@ -0,0 +1,162 @@
+/**
+ * Asset Label Sheets
+ *
+ * Printable PDF sheets of asset tag labels:
+ * - QR labels encode the scan-page URL, so a phone camera opens the asset directly
+ * - Code128 labels encode the bare tag for handheld scanners
+ * - Standard sticker layouts (US Letter 30-up, A4 24-up), starting at any position
+ *   so partly used sheets can be reused
+ */
+
+import PDFDocument from 'pdfkit';
+import bwipjs from 'bwip-js/node';
+import { ASSET_SCAN_PATH } from '@shared/utils';
+
+export type LabelSymbology = 'qr' | 'code128';
+export type LabelLayoutName = 'letter-30' | 'a4-24';
+
+interface LabelLayout {
+  pageSize: [number, number]; // points (1/72 in)
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginLeft: number;
+  marginTop: number;
+  pitchX: number; // Distance between label origins
+  pitchY: number;
+}
+
+const MM = 72 / 25.4;
+
+export const LABEL_LAYOUTS: Record<LabelLayoutName, LabelLayout> = {
+  // Avery 5160 / 8160: 2.625" x 1", 3 x 10
+  'letter-30': {
+    pageSize: [612, 792],
+    columns: 3,
+    rows: 10,
+    labelWidth: 189,
+    labelHeight: 72,
+    marginLeft: 13.5,
+    marginTop: 36,
+    pitchX: 198,
+    pitchY: 72,
+  },
+  // 70 x 37 mm, 3 x 8
+  'a4-24': {
+    pageSize: [210 * MM, 297 * MM],
+    columns: 3,
+    rows: 8,
+    labelWidth: 70 * MM,
+    labelHeight: 37 * MM,
+    marginLeft: 0,
+    marginTop: 0.5 * MM,
+    pitchX: 70 * MM,
+    pitchY: 37 * MM,
+  },
+};
+
+export interface AssetLabel {
+  assetTag: string;
+  name: string;
+  serialNumber?: string | null;
+}
+
+export interface LabelSheetOptions {
+  symbology: LabelSymbology;
+  layout: LabelLayoutName;
+  startPosition?: number; // 1-based position of the first free label on the first sheet
+  scanBaseUrl: string; // App origin for QR scan URLs
+  organization?: string;
+}
+
+const PADDING = 5;
+
+function scanUrl(baseUrl: string, assetTag: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}${ASSET_SCAN_PATH}/${encodeURIComponent(assetTag)}`;
+}
+
+async function renderBarcode(label: AssetLabel, options: LabelSheetOptions): Promise<Buffer> {
+  if (options.symbology === 'qr') {
+    return bwipjs.toBuffer({
+      bcid: 'qrcode',
+      text: scanUrl(options.scanBaseUrl, label.assetTag),
+      scale: 4,
+    });
+  }
+  return bwipjs.toBuffer({
+    bcid: 'code128',
+    text: label.assetTag,
+    scale: 3,
+    height: 8,
+    includetext: false,
+  });
+}
+
+function drawText(
+  doc: PDFKit.PDFDocument,
+  label: AssetLabel,
+  options: LabelSheetOptions,
+  x: number,
+  y: number,
+  width: number
+): void {
+  doc.font('Helvetica-Bold').fontSize(10).text(label.assetTag, x, y, { width, lineBreak: false, ellipsis: true });
+  doc.font('Helvetica').fontSize(7).text(label.name, x, doc.y + 1, { width, height: 18, ellipsis: true });
+  if (label.serialNumber) {
+    doc.fontSize(6).text(`S/N ${label.serialNumber}`, x, doc.y + 1, { width, lineBreak: false, ellipsis: true });
+  }
+  if (options.organization) {
+    doc.fontSize(6).fillColor('#555555')
+      .text(options.organization, x, doc.y + 1, { width, lineBreak: false, ellipsis: true })
+      .fillColor('#000000');
+  }
+}
+
+/**
+ * Render a PDF sheet (or sheets) of labels
+ */
+export async function generateLabelSheet(labels: AssetLabel[], options: LabelSheetOptions): Promise<Buffer> {
+  const layout = LABEL_LAYOUTS[options.layout];
+  const perPage = layout.columns * layout.rows;
+  const skip = Math.min(Math.max((options.startPosition ?? 1) - 1, 0), perPage - 1);
+
+  const barcodes = await Promise.all(labels.map(label => renderBarcode(label, options)));
+
+  const doc = new PDFDocument({ size: layout.pageSize, margin: 0, autoFirstPage: false });
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  labels.forEach((label, index) => {
+    const position = index + skip;
+    const slot = position % perPage;
+    if (index === 0 || slot === 0) {
+      doc.addPage({ size: layout.pageSize, margin: 0 });
+    }
+
+    const x = layout.marginLeft + (slot % layout.columns) * layout.pitchX;
+    const y = layout.marginTop + Math.floor(slot / layout.columns) * layout.pitchY;
+    const innerWidth = layout.labelWidth - PADDING * 2;
+    const innerHeight = layout.labelHeight - PADDING * 2;
+
+    if (options.symbology === 'qr') {
+      const size = innerHeight;
+      doc.image(barcodes[index], x + PADDING, y + PADDING, { fit: [size, size] });
+      drawText(doc, label, options, x + PADDING * 2 + size, y + PADDING + 2, innerWidth - size - PADDING);
+    } else {
+      const barcodeHeight = innerHeight * 0.45;
+      doc.image(barcodes[index], x + PADDING, y + PADDING, { fit: [innerWidth, barcodeHeight], align: 'center' });
+      drawText(doc, label, options, x + PADDING, y + PADDING + barcodeHeight + 2, innerWidth);
+    }
+  });
+
+  if (labels.length === 0) {
+    doc.addPage({ size: layout.pageSize, margin: 0 });
+  }
+  doc.end();
+  return finished;
+}
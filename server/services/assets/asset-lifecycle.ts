@@ -0,0 +1,513 @@
+/**
+ * Asset Lifecycle Service
+ *
+ * Enforces the hardware lifecycle and keeps custody history:
+ * - Validates status transitions (ordered → received → in-stock → deployed → in-repair → retired → disposed)
+ * - Check-out/check-in with expected-return dates, one open custody period per asset
+ * - Records plain asset edits (status or assignee changes) and site moves in the same history
+ * - Sends reminders for overdue returns
+ *
+ * Every transition and custody change is written to the asset's lifecycle timeline.
+ */
+
+import cron from 'node-cron';
+import { storage } from '../../storage';
+import { sendEmail } from '../email';
+import { ASSET_STATUS_TRANSITIONS, isAssetTransitionAllowed } from '@shared/utils';
+import type {
+  Asset,
+  AssetCustodyRecord,
+  AssetStatus,
+  AssetLifecycleEvent,
+  CheckInAsset,
+  CheckOutAsset,
+  InsertAsset,
+  Site,
+  User,
+} from '@shared/schema';
+
+const REMINDER_CRON = '0 * * * *';
+const REMINDER_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/** Statuses an asset may not enter while a custodian still holds it */
+const REQUIRES_CHECK_IN = ['in-stock', 'retired', 'disposed'];
+
+const RETURN_STATUS: Record<CheckInAsset['condition'], AssetStatus> = {
+  good: 'in-stock',
+  damaged: 'in-repair',
+  lost: 'retired',
+};
+
+export interface LifecycleActor {
+  userId: string | null; // null for system changes
+  name: string;
+}
+
+export interface AssetTimeline {
+  currentCustody: AssetCustodyRecord | null;
+  isOverdue: boolean;
+  allowedTransitions: string[];
+  custody: AssetCustodyRecord[];
+  events: AssetLifecycleEvent[];
+}
+
+export class AssetLifecycleError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'AssetLifecycleError';
+  }
+}
+
+function displayName(user: User): string {
+  return `${user.firstName} ${user.lastName}`.trim() || user.email;
+}
+
+/**
+ * Identity of an asset's assignee; the asset form assigns by name/email without a user id
+ */
+function custodianKey(asset: Asset): string | null {
+  return asset.assignedUserId || asset.assignedUserEmail?.toLowerCase() || asset.assignedUserName || null;
+}
+
+function isOverdue(record: AssetCustodyRecord | null | undefined, now: Date = new Date()): boolean {
+  return !!record && !record.checkedInAt && !!record.expectedReturnAt && record.expectedReturnAt < now;
+}
+
+/**
+ * Asset Lifecycle Service
+ */
+export class AssetLifecycleService {
+  private task: ReturnType<typeof cron.schedule> | null = null;
+  private running = false;
+
+  /**
+   * Throw unless the lifecycle allows moving from one status to another
+   */
+  assertTransition(from: string, to: string): void {
+    if (!isAssetTransitionAllowed(from, to)) {
+      const allowed = ASSET_STATUS_TRANSITIONS[from] ?? [];
+      throw new AssetLifecycleError(
+        `Cannot move an asset from ${from} to ${to}` +
+          (allowed.length ? `; allowed: ${allowed.join(', ')}` : '; it is at the end of its lifecycle'),
+        409
+      );
+    }
+  }
+
+  private async getAssetOrThrow(assetId: string, tenantId: string): Promise<Asset> {
+    const asset = await storage.getAsset(assetId, tenantId);
+    if (!asset) {
+      throw new AssetLifecycleError('Asset not found', 404);
+    }
+    return asset;
+  }
+
+  private async logEvent(
+    asset: Asset,
+    actor: LifecycleActor | null,
+    event: {
+      eventType: string;
+      description: string;
+      fromStatus?: string | null;
+      toStatus?: string | null;
+      custodyRecordId?: string | null;
+      metadata?: Record<string, any>;
+    }
+  ): Promise<void> {
+    await storage.createAssetLifecycleEvent({
+      tenantId: asset.tenantId,
+      assetId: asset.id,
+      ...event,
+      actorId: actor?.userId ?? null,
+      actorName: actor?.name ?? 'System',
+    });
+  }
+
+  /**
+   * Move an asset to a new lifecycle status
+   */
+  async transition(tenantId: string, assetId: string, toStatus: AssetStatus, actor: LifecycleActor, notes?: string): Promise<Asset> {
+    const asset = await this.getAssetOrThrow(assetId, tenantId);
+    if (asset.status === toStatus) {
+      throw new AssetLifecycleError(`Asset is already ${toStatus}`);
+    }
+    this.assertTransition(asset.status, toStatus);
+
+    if (REQUIRES_CHECK_IN.includes(toStatus)) {
+      const custody = await storage.getOpenAssetCustodyRecord(asset.id, tenantId);
+      if (custody) {
+        throw new AssetLifecycleError(
+          `Asset is checked out to ${custody.userName ?? 'a user'}; check it in before moving it to ${toStatus}`,
+          409
+        );
+      }
+    }
+
+    const updated = await storage.updateAsset(asset.id, tenantId, { status: toStatus });
+    if (!updated) {
+      throw new AssetLifecycleError('Asset not found', 404);
+    }
+
+    await this.logEvent(updated, actor, {
+      eventType: 'status_changed',
+      fromStatus: asset.status,
+      toStatus,
+      description: `Status changed from ${asset.status} to ${toStatus}`,
+      metadata: notes ? { notes } : undefined,
+    });
+    return updated;
+  }
+
+  /**
+   * Hand an asset to a user, optionally until an expected return date
+   */
+  async checkOut(
+    tenantId: string,
+    assetId: string,
+    data: CheckOutAsset,
+    actor: LifecycleActor
+  ): Promise<{ asset: Asset; custody: AssetCustodyRecord }> {
+    const asset = await this.getAssetOrThrow(assetId, tenantId);
+    if (asset.type === 'Software') {
+      throw new AssetLifecycleError('Software assets are assigned through licenses, not checked out');
+    }
+
+    const open = await storage.getOpenAssetCustodyRecord(asset.id, tenantId);
+    if (open) {
+      throw new AssetLifecycleError(`Asset is already checked out to ${open.userName ?? 'a user'}`, 409);
+    }
+    if (asset.status !== 'deployed') {
+      this.assertTransition(asset.status, 'deployed');
+    }
+
+    const now = new Date();
+    if (data.expectedReturnAt && data.expectedReturnAt <= now) {
+      throw new AssetLifecycleError('Expected return date must be in the future');
+    }
+
+    const custodian = await storage.getUser(data.userId);
+    if (!custodian || custodian.tenantId !== tenantId) {
+      throw new AssetLifecycleError('Custodian not found', 404);
+    }
+    if (!custodian.isActive) {
+      throw new AssetLifecycleError('Cannot check an asset out to an inactive user');
+    }
+
+    const custodianName = displayName(custodian);
+    const custody = await storage.createAssetCustodyRecord({
+      tenantId,
+      assetId: asset.id,
+      userId: custodian.id,
+      userName: custodianName,
+      userEmail: custodian.email,
+      userEmployeeId: custodian.userID != null ? String(custodian.userID) : null,
+      checkedOutAt: now,
+      checkedOutBy: actor.userId,
+      expectedReturnAt: data.expectedReturnAt ?? null,
+      checkOutNotes: data.notes ?? null,
+    });
+
+    const updated = await storage.updateAsset(asset.id, tenantId, {
+      status: 'deployed',
+      assignedUserId: custodian.id,
+      assignedUserName: custodianName,
+      assignedUserEmail: custodian.email,
+      assignedUserEmployeeId: custody.userEmployeeId,
+    });
+
+    await this.logEvent(updated ?? asset, actor, {
+      eventType: 'checked_out',
+      fromStatus: asset.status,
+      toStatus: 'deployed',
+      custodyRecordId: custody.id,
+      description: `Checked out to ${custodianName}` +
+        (custody.expectedReturnAt ? ` until ${custody.expectedReturnAt.toISOString().slice(0, 10)}` : ''),
+      metadata: data.notes ? { notes: data.notes } : undefined,
+    });
+
+    return { asset: updated ?? asset, custody };
+  }
+
+  /**
+   * Take an asset back from its custodian; the return condition decides the next status
+   */
+  async checkIn(
+    tenantId: string,
+    assetId: string,
+    data: CheckInAsset,
+    actor: LifecycleActor
+  ): Promise<{ asset: Asset; custody: AssetCustodyRecord }> {
+    const asset = await this.getAssetOrThrow(assetId, tenantId);
+    const open = await storage.getOpenAssetCustodyRecord(asset.id, tenantId);
+    if (!open) {
+      throw new AssetLifecycleError('Asset is not checked out', 409);
+    }
+
+    const toStatus = RETURN_STATUS[data.condition];
+    if (asset.status !== toStatus) {
+      this.assertTransition(asset.status, toStatus);
+    }
+
+    const now = new Date();
+    const wasOverdue = isOverdue(open, now);
+    const custody = await storage.updateAssetCustodyRecord(open.id, tenantId, {
+      checkedInAt: now,
+      checkedInBy: actor.userId,
+      returnCondition: data.condition,
+      checkInNotes: data.notes ?? null,
+    });
+
+    const updated = await storage.updateAsset(asset.id, tenantId, {
+      status: toStatus,
+      assignedUserId: null,
+      assignedUserName: null,
+      assignedUserEmail: null,
+      assignedUserEmployeeId: null,
+    });
+
+    await this.logEvent(updated ?? asset, actor, {
+      eventType: 'checked_in',
+      fromStatus: asset.status,
+      toStatus,
+      custodyRecordId: open.id,
+      description: `Checked in from ${open.userName ?? 'custodian'} (${data.condition})` + (wasOverdue ? ', returned late' : ''),
+      metadata: { condition: data.condition, overdue: wasOverdue, ...(data.notes ? { notes: data.notes } : {}) },
+    });
+
+    return { asset: updated ?? asset, custody: custody ?? open };
+  }
+
+  /**
+   * Move an asset to one of the tenant's sites; the site's address becomes the asset's location
+   */
+  async moveToSite(tenantId: string, assetId: string, site: Site, actor: LifecycleActor, notes?: string): Promise<Asset> {
+    const asset = await this.getAssetOrThrow(assetId, tenantId);
+    return this.relocate(asset, {
+      location: site.name,
+      city: site.city ?? '',
+      state: site.state ?? '',
+      country: site.country ?? '',
+    }, actor, { siteId: site.id, ...(notes ? { notes } : {}) });
+  }
+
+  /**
+   * Move an asset to a free-text location, keeping its city/state/country
+   */
+  async moveToLocation(tenantId: string, assetId: string, location: string, actor: LifecycleActor, notes?: string): Promise<Asset> {
+    const asset = await this.getAssetOrThrow(assetId, tenantId);
+    return this.relocate(asset, { location }, actor, notes ? { notes } : {});
+  }
+
+  private async relocate(
+    asset: Asset,
+    location: Partial<Pick<InsertAsset, 'location' | 'city' | 'state' | 'country'>>,
+    actor: LifecycleActor,
+    metadata: Record<string, any>
+  ): Promise<Asset> {
+    const updated = await storage.updateAsset(asset.id, asset.tenantId, location);
+
+    await this.logEvent(updated ?? asset, actor, {
+      eventType: 'moved',
+      description: `Moved ${asset.location ? `from ${asset.location} ` : ''}to ${location.location}`,
+      metadata: {
+        ...metadata,
+        from: { location: asset.location, city: asset.city, state: asset.state, country: asset.country },
+      },
+    });
+
+    return updated ?? asset;
+  }
+
+  /**
+   * Record a newly created asset (and its initial assignee) on the timeline
+   */
+  async recordCreated(asset: Asset, actor: LifecycleActor | null): Promise<void> {
+    await this.logEvent(asset, actor, {
+      eventType: 'created',
+      toStatus: asset.status,
+      description: `Asset created as ${asset.status}`,
+    });
+    if (custodianKey(asset)) {
+      await this.openCustody(asset, actor, 'Assigned at creation');
+    }
+  }
+
+  /**
+   * Record status and assignee changes made through a plain asset update.
+   * Callers validate the transition with assertTransition before saving.
+   */
+  async recordUpdate(before: Asset, after: Asset, actor: LifecycleActor | null): Promise<void> {
+    if (before.status !== after.status) {
+      await this.logEvent(after, actor, {
+        eventType: 'status_changed',
+        fromStatus: before.status,
+        toStatus: after.status,
+        description: `Status changed from ${before.status} to ${after.status}`,
+      });
+    }
+
+    if (custodianKey(before) === custodianKey(after)) {
+      return;
+    }
+
+    const open = await storage.getOpenAssetCustodyRecord(after.id, after.tenantId);
+    if (open) {
+      await storage.updateAssetCustodyRecord(open.id, after.tenantId, {
+        checkedInAt: new Date(),
+        checkedInBy: actor?.userId ?? null,
+        checkInNotes: custodianKey(after) ? 'Reassigned' : 'Unassigned',
+      });
+    }
+
+    if (custodianKey(after)) {
+      await this.openCustody(after, actor, custodianKey(before) ? 'Reassigned' : 'Assigned');
+    } else {
+      await this.logEvent(after, actor, {
+        eventType: 'reassigned',
+        custodyRecordId: open?.id ?? null,
+        description: `Unassigned from ${before.assignedUserName ?? 'previous user'}`,
+      });
+    }
+  }
+
+  private async openCustody(asset: Asset, actor: LifecycleActor | null, reason: string): Promise<void> {
+    const custody = await storage.createAssetCustodyRecord({
+      tenantId: asset.tenantId,
+      assetId: asset.id,
+      userId: asset.assignedUserId,
+      userName: asset.assignedUserName,
+      userEmail: asset.assignedUserEmail,
+      userEmployeeId: asset.assignedUserEmployeeId,
+      checkedOutBy: actor?.userId ?? null,
+      checkOutNotes: reason,
+    });
+    await this.logEvent(asset, actor, {
+      eventType: 'reassigned',
+      custodyRecordId: custody.id,
+      description: `${reason} to ${asset.assignedUserName ?? asset.assignedUserEmail ?? 'user'}`,
+    });
+  }
+
+  /**
+   * Validate the status part of a plain asset update before it is saved
+   */
+  validateUpdate(before: Asset, changes: Partial<InsertAsset>): void {
+    if (changes.status && changes.status !== before.status) {
+      this.assertTransition(before.status, changes.status);
+    }
+  }
+
+  /**
+   * Current custodian, custody periods and lifecycle events for an asset (newest first)
+   */
+  async getTimeline(tenantId: string, assetId: string): Promise<AssetTimeline> {
+    const asset = await this.getAssetOrThrow(assetId, tenantId);
+    const [custody, events] = await Promise.all([
+      storage.getAssetCustodyRecords(asset.id, tenantId),
+      storage.getAssetLifecycleEvents(asset.id, tenantId),
+    ]);
+    const currentCustody = custody.find(record => !record.checkedInAt) ?? null;
+
+    return {
+      currentCustody,
+      isOverdue: isOverdue(currentCustody),
+      allowedTransitions: ASSET_STATUS_TRANSITIONS[asset.status] ?? [],
+      custody,
+      events,
+    };
+  }
+
+  /**
+   * Email custodians (and whoever checked the asset out) about overdue returns, at most once a day each
+   */
+  async sendOverdueReminders(now: Date = new Date()): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    let sent = 0;
+    try {
+      const overdue = await storage.getOverdueAssetCustodyRecords(now);
+      for (const record of overdue) {
+        if (record.lastReminderAt && now.getTime() - record.lastReminderAt.getTime() < REMINDER_INTERVAL_MS) {
+          continue;
+        }
+        try {
+          await this.remind(record, now);
+          sent++;
+        } catch (error) {
+          console.error(`[Asset Lifecycle] Failed to send reminder for custody ${record.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('[Asset Lifecycle] Overdue reminder run failed:', error);
+    } finally {
+      this.running = false;
+    }
+
+    if (sent > 0) {
+      console.log(`[Asset Lifecycle] Sent ${sent} overdue return reminder(s)`);
+    }
+    return sent;
+  }
+
+  private async remind(record: AssetCustodyRecord, now: Date): Promise<void> {
+    const asset = await storage.getAsset(record.assetId, record.tenantId);
+    if (!asset) return;
+
+    const dueDate = record.expectedReturnAt!.toISOString().slice(0, 10);
+    const daysOverdue = Math.max(1, Math.floor((now.getTime() - record.expectedReturnAt!.getTime()) / REMINDER_INTERVAL_MS));
+    const from = process.env.SENDGRID_FROM_EMAIL || 'noreply@assetvault.com';
+
+    if (record.userEmail) {
+      await sendEmail({
+        to: record.userEmail,
+        from,
+        subject: `Overdue return: ${asset.name}`,
+        text: `${asset.name}${asset.serialNumber ? ` (serial ${asset.serialNumber})` : ''} was due back on ${dueDate} ` +
+          `and is ${daysOverdue} day(s) overdue. Please return it to IT.`,
+      });
+    }
+
+    if (record.checkedOutBy) {
+      const issuer = await storage.getUser(record.checkedOutBy);
+      if (issuer?.email && issuer.email !== record.userEmail) {
+        await sendEmail({
+          to: issuer.email,
+          from,
+          subject: `Overdue return: ${asset.name} (${record.userName ?? record.userEmail ?? 'custodian'})`,
+          text: `${asset.name} checked out to ${record.userName ?? record.userEmail ?? 'a user'} was due back on ${dueDate} ` +
+            `and is ${daysOverdue} day(s) overdue.`,
+        });
+      }
+    }
+
+    await storage.updateAssetCustodyRecord(record.id, record.tenantId, {
+      lastReminderAt: now,
+      reminderCount: record.reminderCount + 1,
+    });
+    await this.logEvent(asset, null, {
+      eventType: 'overdue_reminder',
+      custodyRecordId: record.id,
+      description: `Overdue return reminder sent to ${record.userName ?? record.userEmail ?? 'custodian'} (${daysOverdue} day(s) late)`,
+      metadata: { reminderCount: record.reminderCount + 1 },
+    });
+  }
+
+  /**
+   * Start the hourly overdue-return scan
+   */
+  start(): void {
+    if (this.task) return;
+    this.task = cron.schedule(REMINDER_CRON, () => {
+      this.sendOverdueReminders().catch(error => console.error('[Asset Lifecycle] Scheduled reminder run failed:', error));
+    });
+    console.log('[Asset Lifecycle] Overdue return reminders scheduled hourly');
+  }
+
+  stop(): void {
+    this.task?.stop();
+    this.task = null;
+  }
+}
+
+export const assetLifecycleService = new AssetLifecycleService();
@@ -0,0 +1,102 @@
+/**
+ * Asset Tag Service
+ *
+ * Tenant-configurable asset tag numbering and scan lookups:
+ * - Issues sequential tags (prefix + zero-padded number) from a per-tenant counter
+ * - Back-fills tags for assets created before numbering existed, e.g. when printing labels
+ * - Resolves scanned labels (QR scan URLs, Code128 tags) and serial numbers to assets
+ */
+
+import { storage } from '../../storage';
+import { formatAssetTag, parseScannedCode } from '@shared/utils';
+import type { Asset } from '@shared/schema';
+
+/** Attempts to find a free number when hand-entered tags collide with the sequence */
+const MAX_ALLOCATION_ATTEMPTS = 5;
+
+export type ScanMatch = 'tag' | 'serial' | 'id';
+
+export class AssetTagError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'AssetTagError';
+  }
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string })?.code === '23505';
+}
+
+export class AssetTagService {
+  /**
+   * Reject a hand-entered tag already used by another asset of the tenant
+   */
+  async assertTagAvailable(tenantId: string, assetTag: string, assetId?: string): Promise<void> {
+    const existing = await storage.getAssetByTag(assetTag, tenantId);
+    if (existing && existing.id !== assetId) {
+      throw new AssetTagError(`Asset tag ${assetTag} is already assigned to ${existing.name}`, 409);
+    }
+  }
+
+  /**
+   * Give every asset without a tag the next number in the tenant's sequence.
+   * Returns the assets in the same order, with tags filled in.
+   */
+  async assignMissingTags(tenantId: string, assets: Asset[]): Promise<Asset[]> {
+    const untagged = assets.filter(asset => !asset.assetTag);
+    if (untagged.length === 0) return assets;
+
+    const tagged = new Map<string, Asset>();
+    let pending = untagged;
+
+    for (let attempt = 0; attempt < MAX_ALLOCATION_ATTEMPTS && pending.length > 0; attempt++) {
+      const block = await storage.allocateAssetTagNumbers(tenantId, pending.length);
+      const collided: Asset[] = [];
+
+      for (let i = 0; i < pending.length; i++) {
+        const asset = pending[i];
+        const assetTag = formatAssetTag(block.prefix, block.padding, block.first + i);
+        try {
+          const updated = await storage.updateAsset(asset.id, tenantId, { assetTag });
+          tagged.set(asset.id, updated ?? { ...asset, assetTag });
+        } catch (error) {
+          // Number already taken by a hand-entered tag; retry with a fresh number
+          if (!isUniqueViolation(error)) throw error;
+          collided.push(asset);
+        }
+      }
+      pending = collided;
+    }
+
+    if (pending.length > 0) {
+      throw new AssetTagError(`Could not allocate asset tags for ${pending.length} asset(s); check the tag sequence settings`, 409);
+    }
+
+    console.log(`[Asset Tags] Assigned ${tagged.size} asset tags for tenant ${tenantId}`);
+    return assets.map(asset => tagged.get(asset.id) ?? asset);
+  }
+
+  /**
+   * Asset for a scanned label or typed identifier: tag first, then a unique serial number, then asset id
+   */
+  async resolveScan(tenantId: string, code: string): Promise<{ asset: Asset; matchedBy: ScanMatch } | null> {
+    const value = parseScannedCode(code);
+    if (!value) return null;
+
+    const byTag = await storage.getAssetByTag(value, tenantId);
+    if (byTag) return { asset: byTag, matchedBy: 'tag' };
+
+    const bySerial = await storage.getAssetsBySerialNumber(value, tenantId);
+    if (bySerial.length > 1) {
+      throw new AssetTagError(`Serial number ${value} matches ${bySerial.length} assets; scan the asset tag instead`, 409);
+    }
+    if (bySerial.length === 1) return { asset: bySerial[0], matchedBy: 'serial' };
+
+    const byId = await storage.getAsset(value, tenantId);
+    if (byId) return { asset: byId, matchedBy: 'id' };
+
+    return null;
+  }
+}
+
+export const assetTagService = new AssetTagService();
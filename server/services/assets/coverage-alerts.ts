@@ -0,0 +1,469 @@
+/**
+ * Coverage Alerts Service
+ *
+ * Tracks hardware warranty and AMC (annual maintenance contract) expiry:
+ * - Daily scan raises one alert per asset and coverage each time a configured lead time is reached,
+ *   and once more when coverage lapses; IT managers get one email per run, grouped by vendor
+ * - Expiring coverage grouped by vendor for bulk renewal quotes
+ * - Recording a renewal moves the assets to the new end date and closes their open alerts
+ * - Coverage lookup by manufacturer and serial through the pluggable warranty lookup providers
+ */
+
+import cron from 'node-cron';
+import { storage } from '../../storage';
+import { sendEmail } from '../email';
+import { policyEngine } from '../policy/engine';
+import type {
+  Asset,
+  CoverageAlert,
+  CoverageAlertSettings,
+  CoverageType,
+  InsertAsset,
+  InsertCoverageAlert,
+  RenewCoverage,
+  Tenant,
+} from '@shared/schema';
+import type { ReportSection, GeneratedReport } from '../reports/audit-report-generator';
+import {
+  DEFAULT_COVERAGE_ALERT_DAYS,
+  LAPSED_LOOKBACK_DAYS,
+  UNKNOWN_VENDOR,
+  bucketCoverage,
+  collectCoverage,
+  groupByVendor,
+  reachedLeadTime,
+  type CoverageBucket,
+  type CoverageItem,
+  type VendorCoverageGroup,
+} from './coverage-expiry';
+import { warrantyLookupRegistry, type WarrantyLookupResult } from './warranty-lookup';
+
+const ALERT_CRON = '0 6 * * *';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOTIFY_ROLES = new Set(['admin', 'it-manager']);
+
+const COVERAGE_LABELS: Record<CoverageType, string> = { warranty: 'Warranty', amc: 'AMC' };
+
+export class CoverageAlertError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'CoverageAlertError';
+  }
+}
+
+export interface ExpiringCoverage {
+  horizonDays: number;
+  leadDays: number[];
+  total: number;
+  buckets: CoverageBucket[];
+  vendors: VendorCoverageGroup[];
+}
+
+export interface CoverageAlertWithAsset extends CoverageAlert {
+  assetName: string | null;
+  serialNumber: string | null;
+}
+
+export interface WarrantyLookupOutcome {
+  assetId: string;
+  assetName: string;
+  status: 'found' | 'not_found' | 'skipped' | 'error';
+  result?: WarrantyLookupResult;
+  applied: boolean;
+  message?: string;
+}
+
+const day = (date: Date | null | undefined) => (date ? date.toISOString().slice(0, 10) : null);
+
+function describeExpiry(item: CoverageItem): string {
+  return item.daysRemaining <= 0
+    ? `lapsed ${day(item.expiresAt)}`
+    : `ends ${day(item.expiresAt)} (${item.daysRemaining} day(s))`;
+}
+
+/**
+ * Coverage Alerts Service
+ */
+export class CoverageAlertsService {
+  private task: ReturnType<typeof cron.schedule> | null = null;
+  private running = false;
+
+  getSettings(tenant: Tenant): CoverageAlertSettings {
+    return {
+      enabled: tenant.coverageAlertsEnabled,
+      leadDays: tenant.coverageAlertDays?.length
+        ? [...tenant.coverageAlertDays].sort((a, b) => b - a)
+        : DEFAULT_COVERAGE_ALERT_DAYS,
+    };
+  }
+
+  async getSettingsForTenant(tenantId: string): Promise<CoverageAlertSettings> {
+    return this.getSettings(await this.getTenantOrThrow(tenantId));
+  }
+
+  async updateSettings(tenantId: string, settings: CoverageAlertSettings): Promise<CoverageAlertSettings> {
+    const tenant = await storage.updateCoverageAlertSettings(tenantId, settings);
+    if (!tenant) {
+      throw new CoverageAlertError('Tenant not found', 404);
+    }
+    return this.getSettings(tenant);
+  }
+
+  private async getTenantOrThrow(tenantId: string): Promise<Tenant> {
+    const tenant = await storage.getTenant(tenantId);
+    if (!tenant) {
+      throw new CoverageAlertError('Tenant not found', 404);
+    }
+    return tenant;
+  }
+
+  private async loadCoverage(tenantId: string, horizonDays: number, now: Date, coverageType?: CoverageType): Promise<CoverageItem[]> {
+    const assets = await storage.getAssetsWithCoverageEnding(
+      tenantId,
+      new Date(now.getTime() - LAPSED_LOOKBACK_DAYS * DAY_MS),
+      new Date(now.getTime() + horizonDays * DAY_MS)
+    );
+    return collectCoverage(assets, now, horizonDays, coverageType);
+  }
+
+  /**
+   * Coverage ending within the horizon (default: the longest lead time) and recently lapsed, by vendor
+   */
+  async getExpiringCoverage(
+    tenantId: string,
+    options: { days?: number; coverageType?: CoverageType } = {},
+    now: Date = new Date()
+  ): Promise<ExpiringCoverage> {
+    const { leadDays } = await this.getSettingsForTenant(tenantId);
+    const horizonDays = options.days ?? Math.max(...leadDays);
+    const items = await this.loadCoverage(tenantId, horizonDays, now, options.coverageType);
+
+    return {
+      horizonDays,
+      leadDays,
+      total: items.length,
+      buckets: bucketCoverage(items, leadDays.filter(days => days <= horizonDays)),
+      vendors: groupByVendor(items),
+    };
+  }
+
+  async listAlerts(tenantId: string, status?: string): Promise<CoverageAlertWithAsset[]> {
+    const alerts = await storage.getCoverageAlerts(tenantId, { status });
+    const assetIds = Array.from(new Set(alerts.map(alert => alert.assetId)));
+    const assets = new Map<string, Asset>();
+    for (const asset of await Promise.all(assetIds.map(id => storage.getAsset(id, tenantId)))) {
+      if (asset) assets.set(asset.id, asset);
+    }
+    return alerts.map(alert => ({
+      ...alert,
+      assetName: assets.get(alert.assetId)?.name ?? null,
+      serialNumber: assets.get(alert.assetId)?.serialNumber ?? null,
+    }));
+  }
+
+  async acknowledgeAlert(tenantId: string, alertId: string, userId: string): Promise<CoverageAlert> {
+    const alert = await storage.getCoverageAlert(alertId, tenantId);
+    if (!alert) {
+      throw new CoverageAlertError('Coverage alert not found', 404);
+    }
+    if (alert.status !== 'open') {
+      throw new CoverageAlertError(`Alert is already ${alert.status}`, 409);
+    }
+    const updated = await storage.updateCoverageAlert(alertId, tenantId, {
+      status: 'acknowledged',
+      acknowledgedBy: userId,
+      acknowledgedAt: new Date(),
+    });
+    return updated!;
+  }
+
+  /**
+   * Record renewed coverage for a batch of assets (typically one vendor quote) and close their alerts
+   */
+  async renew(tenantId: string, data: RenewCoverage): Promise<{ before: Asset[]; assets: Asset[]; resolvedAlerts: number }> {
+    const assetIds = Array.from(new Set(data.assetIds));
+    const before = await Promise.all(assetIds.map(id => storage.getAsset(id, tenantId)));
+    const missing = assetIds.filter((_, index) => !before[index]);
+    if (missing.length > 0) {
+      throw new CoverageAlertError(`Assets not found: ${missing.join(', ')}`, 404);
+    }
+
+    const field = data.coverageType === 'warranty' ? 'warrantyExpiry' : 'amcExpiry';
+    const assets: Asset[] = [];
+    for (const id of assetIds) {
+      const updated = await storage.updateAsset(id, tenantId, {
+        [field]: data.expiresAt,
+        ...(data.vendorName && { vendorName: data.vendorName }),
+      });
+      if (updated) assets.push(updated);
+    }
+    const resolvedAlerts = await storage.resolveCoverageAlerts(tenantId, assetIds, data.coverageType, new Date());
+
+    console.log(`[Coverage Alerts] Renewed ${data.coverageType} for ${assets.length} asset(s) in tenant ${tenantId}`);
+    return { before: before as Asset[], assets, resolvedAlerts };
+  }
+
+  /**
+   * Look up coverage for each asset by manufacturer and serial; with apply, write changed dates back
+   */
+  async lookupCoverage(tenantId: string, assetIds: string[], apply: boolean): Promise<WarrantyLookupOutcome[]> {
+    if (warrantyLookupRegistry.listProviders().length === 0) {
+      throw new CoverageAlertError('No warranty lookup provider is configured', 501);
+    }
+
+    const outcomes: WarrantyLookupOutcome[] = [];
+    for (const id of Array.from(new Set(assetIds))) {
+      const asset = await storage.getAsset(id, tenantId);
+      if (!asset) {
+        outcomes.push({ assetId: id, assetName: id, status: 'error', applied: false, message: 'Asset not found' });
+        continue;
+      }
+      if (!asset.manufacturer || !asset.serialNumber) {
+        outcomes.push({
+          assetId: id,
+          assetName: asset.name,
+          status: 'skipped',
+          applied: false,
+          message: 'Manufacturer and serial number are required for a lookup',
+        });
+        continue;
+      }
+
+      try {
+        const result = await warrantyLookupRegistry.lookup(asset.manufacturer, asset.serialNumber);
+        if (!result) {
+          outcomes.push({ assetId: id, assetName: asset.name, status: 'not_found', applied: false });
+          continue;
+        }
+
+        const updates: Partial<InsertAsset> = {};
+        if (result.warrantyExpiry && result.warrantyExpiry.getTime() !== asset.warrantyExpiry?.getTime()) {
+          updates.warrantyExpiry = result.warrantyExpiry;
+        }
+        if (result.amcExpiry && result.amcExpiry.getTime() !== asset.amcExpiry?.getTime()) {
+          updates.amcExpiry = result.amcExpiry;
+        }
+        const applied = apply && Object.keys(updates).length > 0;
+        if (applied) {
+          await storage.updateAsset(id, tenantId, updates);
+        }
+        outcomes.push({ assetId: id, assetName: asset.name, status: 'found', result, applied });
+      } catch (error) {
+        outcomes.push({
+          assetId: id,
+          assetName: asset.name,
+          status: 'error',
+          applied: false,
+          message: error instanceof Error ? error.message : 'Lookup failed',
+        });
+      }
+    }
+    return outcomes;
+  }
+
+  /**
+   * Raise alerts for every lead time reached since the last run; returns the new alerts
+   */
+  async checkTenant(tenant: Tenant, now: Date = new Date()): Promise<CoverageAlert[]> {
+    const { enabled, leadDays } = this.getSettings(tenant);
+    if (!enabled) return [];
+
+    const items = await this.loadCoverage(tenant.id, Math.max(...leadDays), now);
+    const due: InsertCoverageAlert[] = [];
+    for (const item of items) {
+      const reached = reachedLeadTime(item.daysRemaining, leadDays);
+      if (reached === null) continue;
+      due.push({
+        tenantId: tenant.id,
+        assetId: item.assetId,
+        coverageType: item.coverageType,
+        expiresAt: item.expiresAt,
+        leadDays: reached,
+        vendor: item.vendor,
+      });
+    }
+
+    const created = await storage.createCoverageAlerts(due);
+    if (created.length === 0) return created;
+
+    const raised = new Set(created.map(alert => `${alert.assetId}|${alert.coverageType}`));
+    const alertedItems = items.filter(item => raised.has(`${item.assetId}|${item.coverageType}`));
+    await this.notify(tenant, alertedItems);
+
+    for (const item of alertedItems) {
+      policyEngine.getEventSystem().emit('asset.coverage_expiring', {
+        tenantId: tenant.id,
+        assetId: item.assetId,
+        coverageType: item.coverageType,
+        daysUntilExpiry: item.daysRemaining,
+        expiresAt: item.expiresAt,
+        vendor: item.vendor,
+      });
+    }
+    return created;
+  }
+
+  private async notify(tenant: Tenant, items: CoverageItem[]): Promise<void> {
+    const recipients = (await storage.getUsers(tenant.id))
+      .filter(user => user.isActive !== false && NOTIFY_ROLES.has(user.role) && user.email)
+      .map(user => user.email);
+    if (recipients.length === 0) return;
+
+    const lapsed = items.filter(item => item.daysRemaining <= 0).length;
+    const lines: string[] = [
+      `${items.length} warranty/AMC coverage item(s) reached an alert lead time${lapsed ? `, ${lapsed} already lapsed` : ''}.`,
+      '',
+    ];
+    for (const group of groupByVendor(items)) {
+      lines.push(`${group.vendor}${group.vendorEmail ? ` <${group.vendorEmail}>` : ''}`);
+      for (const item of group.items) {
+        lines.push(`  - ${item.assetName}${item.serialNumber ? ` (serial ${item.serialNumber})` : ''}: ` +
+          `${COVERAGE_LABELS[item.coverageType]} ${describeExpiry(item)}`);
+      }
+      lines.push('');
+    }
+    lines.push('Request renewal quotes per vendor from the Expiring Coverage panel on the dashboard.');
+
+    const from = process.env.SENDGRID_FROM_EMAIL || 'noreply@assetvault.com';
+    for (const to of recipients) {
+      try {
+        await sendEmail({
+          to,
+          from,
+          subject: `Hardware coverage expiring: ${items.length} item(s)${lapsed ? `, ${lapsed} lapsed` : ''}`,
+          text: lines.join('\n'),
+        });
+      } catch (error) {
+        console.error(`[Coverage Alerts] Failed to email ${to}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Scan every tenant; returns the number of alerts raised
+   */
+  async runChecks(now: Date = new Date()): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    let raised = 0;
+    try {
+      for (const tenant of await storage.getTenants()) {
+        try {
+          raised += (await this.checkTenant(tenant, now)).length;
+        } catch (error) {
+          console.error(`[Coverage Alerts] Check failed for tenant ${tenant.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('[Coverage Alerts] Coverage check run failed:', error);
+    } finally {
+      this.running = false;
+    }
+
+    if (raised > 0) {
+      console.log(`[Coverage Alerts] Raised ${raised} warranty/AMC alert(s)`);
+    }
+    return raised;
+  }
+
+  /**
+   * Expiring coverage report as of asOf, over the tenant's longest lead time
+   */
+  async generateCoverageReport(tenantId: string, asOf: Date): Promise<{
+    sections: ReportSection[];
+    summary: GeneratedReport['summary'];
+    rawData: ExpiringCoverage & { items: CoverageItem[] };
+  }> {
+    const expiring = await this.getExpiringCoverage(tenantId, {}, asOf);
+    const items = expiring.vendors.flatMap(group => group.items)
+      .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime());
+    const lapsed = items.filter(item => item.daysRemaining <= 0);
+    const unknownVendor = expiring.vendors.find(group => group.vendor === UNKNOWN_VENDOR);
+
+    const sections: ReportSection[] = [
+      {
+        title: 'Coverage by Lead Time',
+        description: `Warranty and AMC end dates up to ${expiring.horizonDays} days after ${day(asOf)}, and lapsed in the prior ${LAPSED_LOOKBACK_DAYS} days`,
+        data: expiring.buckets.map(({ label, warranty, amc }) => ({ window: label, warranty, amc })),
+        chartType: 'bar',
+      },
+      {
+        title: 'Renewals by Vendor',
+        data: expiring.vendors.map(group => ({
+          vendor: group.vendor,
+          contact: group.vendorEmail || group.vendorPhone,
+          warranty: group.warranty,
+          amc: group.amc,
+          earliestExpiry: day(group.earliestExpiry),
+        })),
+        chartType: 'table',
+      },
+      {
+        title: 'Expiring Coverage',
+        data: items.map(item => ({
+          asset: item.assetName,
+          assetTag: item.assetTag,
+          serialNumber: item.serialNumber,
+          model: [item.manufacturer, item.model].filter(Boolean).join(' ') || null,
+          status: item.status,
+          coverage: COVERAGE_LABELS[item.coverageType],
+          expiresAt: day(item.expiresAt),
+          daysRemaining: item.daysRemaining,
+          vendor: item.vendor,
+        })),
+        chartType: 'table',
+        maxRows: items.length,
+      },
+    ];
+
+    const keyFindings = [
+      `${items.length} warranty/AMC coverage item(s) across ${expiring.vendors.length} vendor(s) need renewal`,
+    ];
+    if (lapsed.length > 0) {
+      keyFindings.push(`${lapsed.length} item(s) on assets still in service have already lapsed`);
+    }
+    const recommendations: string[] = [];
+    if (expiring.vendors.length > 0) {
+      recommendations.push(`Request bulk renewal quotes from ${expiring.vendors.slice(0, 3).map(group => group.vendor).join(', ')}`);
+    }
+    if (unknownVendor) {
+      recommendations.push(`Record a vendor or manufacturer for ${unknownVendor.items.length} item(s) so they can be quoted`);
+    }
+
+    return {
+      sections,
+      summary: {
+        keyFindings,
+        recommendations,
+        riskAreas: lapsed.length > 0 ? ['Devices in service without warranty or maintenance coverage'] : [],
+        metrics: {
+          expiring: items.length - lapsed.length,
+          lapsed: lapsed.length,
+          warranty: items.filter(item => item.coverageType === 'warranty').length,
+          amc: items.filter(item => item.coverageType === 'amc').length,
+          vendors: expiring.vendors.length,
+        },
+      },
+      rawData: { ...expiring, items },
+    };
+  }
+
+  /**
+   * Start the daily coverage scan
+   */
+  start(): void {
+    if (this.task) return;
+    this.task = cron.schedule(ALERT_CRON, () => {
+      this.runChecks().catch(error => console.error('[Coverage Alerts] Scheduled check failed:', error));
+    });
+    console.log('[Coverage Alerts] Warranty/AMC expiry checks scheduled daily');
+  }
+
+  stop(): void {
+    this.task?.stop();
+    this.task = null;
+  }
+}
+
+export const coverageAlertsService = new CoverageAlertsService();
@@ -0,0 +1,162 @@
+/**
+ * Coverage Expiry
+ *
+ * Pure warranty / AMC expiry calculations shared by the alert scheduler, the API and reports:
+ * - Lists each asset's warranty and AMC end dates within a horizon, plus recently lapsed coverage
+ * - Picks the lead time an expiry has reached (the smallest configured lead time still ahead of it)
+ * - Buckets expiries by lead time and groups them by vendor for bulk renewal quotes
+ */
+
+import type { Asset, CoverageType } from '@shared/schema';
+
+export const DEFAULT_COVERAGE_ALERT_DAYS = [90, 60, 30, 7];
+
+// Lapsed coverage stays on the list (and alerts once) for this long after it ends
+export const LAPSED_LOOKBACK_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Assets that have left service no longer need coverage
+const UNTRACKED_STATUSES = new Set(['retired', 'disposed']);
+
+export const UNKNOWN_VENDOR = 'Unknown vendor';
+
+export interface CoverageItem {
+  assetId: string;
+  assetName: string;
+  assetTag: string | null;
+  serialNumber: string | null;
+  manufacturer: string | null;
+  model: string | null;
+  category: string | null;
+  status: string;
+  coverageType: CoverageType;
+  expiresAt: Date;
+  daysRemaining: number; // Negative once lapsed
+  vendor: string;
+  vendorEmail: string | null;
+  vendorPhone: string | null;
+}
+
+export interface CoverageBucket {
+  leadDays: number; // 0 = lapsed
+  label: string;
+  warranty: number;
+  amc: number;
+}
+
+export interface VendorCoverageGroup {
+  vendor: string;
+  vendorEmail: string | null;
+  vendorPhone: string | null;
+  earliestExpiry: Date;
+  warranty: number;
+  amc: number;
+  items: CoverageItem[];
+}
+
+export function daysUntil(date: Date, now: Date): number {
+  return Math.ceil((date.getTime() - now.getTime()) / DAY_MS);
+}
+
+/**
+ * Renewal quotes go to the selling vendor, or the manufacturer when the asset has no vendor
+ */
+export function coverageVendor(asset: Pick<Asset, 'vendorName' | 'manufacturer'>): string {
+  return asset.vendorName?.trim() || asset.manufacturer?.trim() || UNKNOWN_VENDOR;
+}
+
+/**
+ * Warranty and AMC end dates from LAPSED_LOOKBACK_DAYS ago up to horizonDays ahead, soonest first
+ */
+export function collectCoverage(
+  assets: Asset[],
+  now: Date,
+  horizonDays: number,
+  coverageType?: CoverageType
+): CoverageItem[] {
+  const items: CoverageItem[] = [];
+  for (const asset of assets) {
+    if (UNTRACKED_STATUSES.has(asset.status)) continue;
+    const coverage: Array<[CoverageType, Date | null]> = [
+      ['warranty', asset.warrantyExpiry],
+      ['amc', asset.amcExpiry],
+    ];
+    for (const [type, expiresAt] of coverage) {
+      if (!expiresAt || (coverageType && type !== coverageType)) continue;
+      const daysRemaining = daysUntil(expiresAt, now);
+      if (daysRemaining > horizonDays || daysRemaining < -LAPSED_LOOKBACK_DAYS) continue;
+      items.push({
+        assetId: asset.id,
+        assetName: asset.name,
+        assetTag: asset.assetTag,
+        serialNumber: asset.serialNumber,
+        manufacturer: asset.manufacturer,
+        model: asset.model,
+        category: asset.category,
+        status: asset.status,
+        coverageType: type,
+        expiresAt,
+        daysRemaining,
+        vendor: coverageVendor(asset),
+        vendorEmail: asset.vendorEmail,
+        vendorPhone: asset.vendorPhone,
+      });
+    }
+  }
+  return items.sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime() || a.assetName.localeCompare(b.assetName));
+}
+
+/**
+ * The lead time an expiry has reached: 0 once lapsed, otherwise the smallest lead time that is
+ * still at least daysRemaining away. null while the expiry is further out than every lead time.
+ */
+export function reachedLeadTime(daysRemaining: number, leadDays: number[]): number | null {
+  if (daysRemaining <= 0) return 0;
+  const reached = leadDays.filter(days => days >= daysRemaining);
+  return reached.length > 0 ? Math.min(...reached) : null;
+}
+
+/**
+ * Counts per lead-time window: lapsed, then 0–smallest lead time, up to the largest
+ */
+export function bucketCoverage(items: CoverageItem[], leadDays: number[]): CoverageBucket[] {
+  const ascending = Array.from(new Set(leadDays)).sort((a, b) => a - b);
+  const buckets: CoverageBucket[] = [
+    { leadDays: 0, label: 'Lapsed', warranty: 0, amc: 0 },
+    ...ascending.map(days => ({ leadDays: days, label: `≤ ${days} days`, warranty: 0, amc: 0 })),
+  ];
+  for (const item of items) {
+    const reached = reachedLeadTime(item.daysRemaining, ascending);
+    const bucket = buckets.find(entry => entry.leadDays === reached);
+    if (bucket) bucket[item.coverageType]++;
+  }
+  return buckets;
+}
+
+/**
+ * One group per vendor for a bulk renewal quote, vendors with the earliest expiry first
+ */
+export function groupByVendor(items: CoverageItem[]): VendorCoverageGroup[] {
+  const groups = new Map<string, VendorCoverageGroup>();
+  for (const item of items) {
+    const key = item.vendor.toLowerCase();
+    const group = groups.get(key) ?? {
+      vendor: item.vendor,
+      vendorEmail: null,
+      vendorPhone: null,
+      earliestExpiry: item.expiresAt,
+      warranty: 0,
+      amc: 0,
+      items: [],
+    };
+    group.vendorEmail = group.vendorEmail ?? item.vendorEmail;
+    group.vendorPhone = group.vendorPhone ?? item.vendorPhone;
+    if (item.expiresAt < group.earliestExpiry) group.earliestExpiry = item.expiresAt;
+    group[item.coverageType]++;
+    group.items.push(item);
+    groups.set(key, group);
+  }
+  return Array.from(groups.values())
+    .sort((a, b) => a.earliestExpiry.getTime() - b.earliestExpiry.getTime() || a.vendor.localeCompare(b.vendor));
+}
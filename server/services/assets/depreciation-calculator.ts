@@ -0,0 +1,92 @@
+/**
+ * Depreciation Calculator
+ *
+ * Book-value arithmetic for a single asset:
+ * - Straight-line: (cost - salvage) spread evenly over the useful life
+ * - Declining balance: a fixed monthly rate (multiple of the straight-line rate) applied
+ *   to the remaining book value, never below salvage and fully written down at end of life
+ * - Disposal stops depreciation and writes off the remaining book value
+ *
+ * Depreciation is charged per whole month in service.
+ */
+
+import type { DepreciationMethod } from '@shared/schema';
+
+export interface DepreciationPolicy {
+  method: DepreciationMethod;
+  usefulLifeMonths: number;
+  salvagePercent: number;
+  decliningRate?: number | null; // Multiple of the straight-line rate; defaults to 2 (double-declining)
+}
+
+export interface DepreciationResult {
+  cost: number;
+  salvageValue: number;
+  monthsInService: number;
+  accumulatedDepreciation: number;
+  bookValue: number;
+  fullyDepreciated: boolean;
+  disposedAt: Date | null;
+  writeOff: number; // Book value written off on disposal (0 unless disposed by the as-of date)
+}
+
+const DEFAULT_DECLINING_RATE = 2;
+
+export function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Whole months between two dates (0 if `to` is before `from`)
+ */
+export function monthsBetween(from: Date, to: Date): number {
+  let months = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+  if (to.getUTCDate() < from.getUTCDate()) months--;
+  return Math.max(0, months);
+}
+
+/**
+ * Book value after a number of months in service, never below salvage value
+ */
+function bookValueAfter(cost: number, months: number, policy: DepreciationPolicy): number {
+  const salvage = cost * (policy.salvagePercent / 100);
+  if (months <= 0) return cost;
+  if (months >= policy.usefulLifeMonths) return salvage;
+
+  if (policy.method === 'declining_balance') {
+    const monthlyRate = (policy.decliningRate ?? DEFAULT_DECLINING_RATE) / policy.usefulLifeMonths;
+    return Math.max(salvage, cost * Math.pow(1 - Math.min(monthlyRate, 1), months));
+  }
+
+  const monthly = (cost - salvage) / policy.usefulLifeMonths;
+  return cost - monthly * months;
+}
+
+/**
+ * Depreciation of one asset as of a date; depreciation stops at disposal and the
+ * remaining book value is written off
+ */
+export function calculateDepreciation(
+  cost: number,
+  inServiceDate: Date,
+  asOf: Date,
+  policy: DepreciationPolicy,
+  disposedAt: Date | null = null
+): DepreciationResult {
+  const disposed = !!disposedAt && disposedAt <= asOf;
+  const effectiveDate = disposed ? disposedAt! : asOf;
+  const months = monthsBetween(inServiceDate, effectiveDate);
+  const salvageValue = cost * (policy.salvagePercent / 100);
+  const bookAtDate = bookValueAfter(cost, months, policy);
+
+  return {
+    cost: round2(cost),
+    salvageValue: round2(salvageValue),
+    monthsInService: months,
+    accumulatedDepreciation: round2(cost - bookAtDate),
+    bookValue: disposed ? 0 : round2(bookAtDate),
+    fullyDepreciated: months >= policy.usefulLifeMonths,
+    disposedAt: disposed ? disposedAt : null,
+    writeOff: disposed ? round2(bookAtDate) : 0,
+  };
+}
@@ -0,0 +1,300 @@
+/**
+ * Asset Depreciation Service
+ *
+ * Derives finance values from purchase cost and date:
+ * - Matches each asset to its category's depreciation schedule, or the tenant default
+ * - Book value, accumulated depreciation and disposal write-off per asset at any date
+ * - The fixed-asset depreciation register for a period (opening, additions, charge, disposals, closing)
+ *
+ * Disposal dates come from the asset lifecycle history.
+ */
+
+import { storage } from '../../storage';
+import type { Asset, DepreciationMethod, DepreciationSchedule } from '@shared/schema';
+import type { ReportSection, GeneratedReport } from '../reports/audit-report-generator';
+import {
+  calculateDepreciation,
+  round2,
+  type DepreciationPolicy,
+  type DepreciationResult,
+} from './depreciation-calculator';
+
+export interface DepreciationRegisterRow {
+  assetId: string;
+  name: string;
+  serialNumber: string | null;
+  category: string | null;
+  status: string;
+  purchaseDate: Date;
+  cost: number;
+  schedule: string;
+  method: DepreciationMethod;
+  usefulLifeMonths: number;
+  openingBookValue: number;
+  additions: number;
+  depreciationCharge: number;
+  disposalWriteOff: number;
+  accumulatedDepreciation: number;
+  closingBookValue: number;
+  disposedAt: Date | null;
+}
+
+export interface DepreciationRegister {
+  periodStart: Date;
+  periodEnd: Date;
+  rows: DepreciationRegisterRow[];
+  totals: {
+    cost: number;
+    openingBookValue: number;
+    additions: number;
+    depreciationCharge: number;
+    disposalWriteOff: number;
+    accumulatedDepreciation: number;
+    closingBookValue: number;
+  };
+  excluded: Array<{ assetId: string; name: string; reason: string }>;
+}
+
+export function toDepreciationPolicy(schedule: DepreciationSchedule): DepreciationPolicy {
+  return {
+    method: schedule.method as DepreciationMethod,
+    usefulLifeMonths: schedule.usefulLifeMonths,
+    salvagePercent: Number(schedule.salvagePercent ?? 0),
+    decliningRate: schedule.decliningRate != null ? Number(schedule.decliningRate) : null,
+  };
+}
+
+/**
+ * Schedule for an asset: its category's active schedule, else the tenant default
+ */
+export function findSchedule(asset: Asset, schedules: DepreciationSchedule[]): DepreciationSchedule | undefined {
+  const active = schedules.filter(schedule => schedule.isActive);
+  const category = asset.category?.trim().toLowerCase();
+  return (category && active.find(schedule => schedule.category?.trim().toLowerCase() === category))
+    || active.find(schedule => !schedule.category);
+}
+
+/**
+ * Asset Depreciation Service
+ */
+export class DepreciationService {
+  private async getDisposalDates(tenantId: string): Promise<Map<string, Date>> {
+    const rows = await storage.getAssetDisposalDates(tenantId);
+    return new Map(rows.map(row => [row.assetId, row.disposedAt] as [string, Date]));
+  }
+
+  /**
+   * Disposal date for an asset: the lifecycle event that disposed it, or its last update
+   * for assets disposed before lifecycle history was recorded
+   */
+  private disposalDate(asset: Asset, disposalDates: Map<string, Date>): Date | null {
+    if (asset.status !== 'disposed') return null;
+    return disposalDates.get(asset.id) ?? asset.updatedAt ?? asset.createdAt ?? null;
+  }
+
+  /**
+   * Book value of one asset as of a date, with the schedule that applied
+   */
+  async getAssetDepreciation(
+    tenantId: string,
+    assetId: string,
+    asOf: Date = new Date()
+  ): Promise<{ asset: Asset; schedule: DepreciationSchedule | null; result: DepreciationResult | null; reason?: string } | undefined> {
+    const asset = await storage.getAsset(assetId, tenantId);
+    if (!asset) return undefined;
+
+    const schedules = await storage.getDepreciationSchedules(tenantId);
+    const schedule = findSchedule(asset, schedules) ?? null;
+    const cost = asset.purchaseCost != null ? Number(asset.purchaseCost) : NaN;
+
+    if (!schedule) return { asset, schedule, result: null, reason: 'No depreciation schedule for this category' };
+    if (!asset.purchaseDate || !(cost > 0)) {
+      return { asset, schedule, result: null, reason: 'Purchase cost and date are required' };
+    }
+
+    const disposedAt = this.disposalDate(asset, await this.getDisposalDates(tenantId));
+    return {
+      asset,
+      schedule,
+      result: calculateDepreciation(cost, asset.purchaseDate, asOf, toDepreciationPolicy(schedule), disposedAt),
+    };
+  }
+
+  /**
+   * Fixed-asset register for a period. Assets purchased after the period end, or
+   * disposed before it started, are left out.
+   */
+  async buildRegister(tenantId: string, periodStart: Date, periodEnd: Date): Promise<DepreciationRegister> {
+    const [assets, schedules, disposalDates] = await Promise.all([
+      storage.getAllAssets(tenantId),
+      storage.getDepreciationSchedules(tenantId),
+      this.getDisposalDates(tenantId),
+    ]);
+
+    const rows: DepreciationRegisterRow[] = [];
+    const excluded: DepreciationRegister['excluded'] = [];
+
+    assets.forEach(asset => {
+      if (asset.type === 'Software') return;
+
+      const schedule = findSchedule(asset, schedules);
+      const cost = asset.purchaseCost != null ? Number(asset.purchaseCost) : NaN;
+      if (!schedule) {
+        excluded.push({ assetId: asset.id, name: asset.name, reason: 'No depreciation schedule' });
+        return;
+      }
+      if (!asset.purchaseDate || !(cost > 0)) {
+        excluded.push({ assetId: asset.id, name: asset.name, reason: 'Missing purchase cost or date' });
+        return;
+      }
+      if (asset.purchaseDate > periodEnd) return;
+
+      const disposedAt = this.disposalDate(asset, disposalDates);
+      if (disposedAt && disposedAt < periodStart) return;
+
+      const policy = toDepreciationPolicy(schedule);
+      const acquiredInPeriod = asset.purchaseDate >= periodStart;
+      const opening = acquiredInPeriod
+        ? null
+        : calculateDepreciation(cost, asset.purchaseDate, periodStart, policy, disposedAt);
+      const closing = calculateDepreciation(cost, asset.purchaseDate, periodEnd, policy, disposedAt);
+
+      rows.push({
+        assetId: asset.id,
+        name: asset.name,
+        serialNumber: asset.serialNumber,
+        category: asset.category,
+        status: asset.status,
+        purchaseDate: asset.purchaseDate,
+        cost: closing.cost,
+        schedule: schedule.name,
+        method: policy.method,
+        usefulLifeMonths: policy.usefulLifeMonths,
+        openingBookValue: opening ? opening.bookValue : 0,
+        additions: acquiredInPeriod ? closing.cost : 0,
+        depreciationCharge: round2(closing.accumulatedDepreciation - (opening?.accumulatedDepreciation ?? 0)),
+        disposalWriteOff: closing.writeOff,
+        accumulatedDepreciation: closing.disposedAt ? 0 : closing.accumulatedDepreciation,
+        closingBookValue: closing.bookValue,
+        disposedAt: closing.disposedAt,
+      });
+    });
+
+    rows.sort((a, b) => (a.category ?? '').localeCompare(b.category ?? '') || a.name.localeCompare(b.name));
+
+    const sum = (field: keyof DepreciationRegister['totals']) =>
+      round2(rows.reduce((total, row) => total + row[field], 0));
+
+    return {
+      periodStart,
+      periodEnd,
+      rows,
+      totals: {
+        cost: sum('cost'),
+        openingBookValue: sum('openingBookValue'),
+        additions: sum('additions'),
+        depreciationCharge: sum('depreciationCharge'),
+        disposalWriteOff: sum('disposalWriteOff'),
+        accumulatedDepreciation: sum('accumulatedDepreciation'),
+        closingBookValue: sum('closingBookValue'),
+      },
+      excluded,
+    };
+  }
+
+  /**
+   * Register as report sections for AuditReportGenerator / ReportExporter
+   */
+  async generateRegisterReport(tenantId: string, periodStart: Date, periodEnd: Date): Promise<{
+    sections: ReportSection[];
+    summary: GeneratedReport['summary'];
+    rawData: DepreciationRegister;
+  }> {
+    const register = await this.buildRegister(tenantId, periodStart, periodEnd);
+    const day = (date: Date | null) => (date ? date.toISOString().slice(0, 10) : null);
+
+    const byCategory = new Map<string, { category: string; assets: number; cost: number; depreciationCharge: number; closingBookValue: number }>();
+    register.rows.forEach(row => {
+      const key = row.category || 'Uncategorised';
+      const entry = byCategory.get(key) ?? { category: key, assets: 0, cost: 0, depreciationCharge: 0, closingBookValue: 0 };
+      entry.assets++;
+      entry.cost = round2(entry.cost + row.cost);
+      entry.depreciationCharge = round2(entry.depreciationCharge + row.depreciationCharge);
+      entry.closingBookValue = round2(entry.closingBookValue + row.closingBookValue);
+      byCategory.set(key, entry);
+    });
+
+    const registerRows = register.rows.map(row => ({
+      asset: row.name,
+      serialNumber: row.serialNumber,
+      category: row.category,
+      status: row.status,
+      purchaseDate: day(row.purchaseDate),
+      cost: row.cost,
+      schedule: row.schedule,
+      usefulLifeMonths: row.usefulLifeMonths,
+      openingBookValue: row.openingBookValue,
+      additions: row.additions,
+      depreciationCharge: row.depreciationCharge,
+      disposalWriteOff: row.disposalWriteOff,
+      accumulatedDepreciation: row.accumulatedDepreciation,
+      closingBookValue: row.closingBookValue,
+      disposedAt: day(row.disposedAt),
+    }));
+
+    const sections: ReportSection[] = [
+      {
+        title: 'Summary by Category',
+        data: Array.from(byCategory.values()),
+        chartType: 'table',
+      },
+      {
+        title: 'Depreciation Register',
+        description: `Fixed assets from ${day(periodStart)} to ${day(periodEnd)}`,
+        data: registerRows,
+        chartType: 'table',
+        maxRows: registerRows.length,
+      },
+    ];
+    if (register.excluded.length > 0) {
+      sections.push({
+        title: 'Excluded Assets',
+        description: 'Assets that could not be depreciated',
+        data: register.excluded.map(({ name, reason }) => ({ asset: name, reason })),
+        chartType: 'table',
+      });
+    }
+
+    const disposals = register.rows.filter(row => row.disposalWriteOff > 0).length;
+    const keyFindings = [
+      `${register.rows.length} assets on the register with a closing book value of ${register.totals.closingBookValue.toFixed(2)}`,
+      `Depreciation charge for the period: ${register.totals.depreciationCharge.toFixed(2)}`,
+    ];
+    if (disposals > 0) {
+      keyFindings.push(`${disposals} disposals wrote off ${register.totals.disposalWriteOff.toFixed(2)} of book value`);
+    }
+
+    return {
+      sections,
+      summary: {
+        keyFindings,
+        recommendations: register.excluded.length > 0
+          ? [`Add purchase cost/date or a depreciation schedule for ${register.excluded.length} excluded assets`]
+          : [],
+        riskAreas: [],
+        metrics: {
+          assets: register.rows.length,
+          totalCost: register.totals.cost,
+          openingBookValue: register.totals.openingBookValue,
+          additions: register.totals.additions,
+          depreciationCharge: register.totals.depreciationCharge,
+          disposalWriteOff: register.totals.disposalWriteOff,
+          closingBookValue: register.totals.closingBookValue,
+        },
+      },
+      rawData: register,
+    };
+  }
+}
+
+export const depreciationService = new DepreciationService();
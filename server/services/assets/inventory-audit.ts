@@ -0,0 +1,354 @@
+/**
+ * Inventory Audit Service
+ *
+ * Physical inventory audit campaigns for a site or location:
+ * - Snapshots the assets the register expects at the location when the audit starts
+ * - Records scans (asset tags, QR label URLs, serial numbers) and manual confirmations
+ * - Closes with a variance report: found, missing, wrong-location and unexpected
+ * - Optional bulk actions at close: relocate wrong-location assets, set a status on missing
+ *   assets and open tickets for them. Each change is returned so callers can audit it.
+ */
+
+import { storage } from '../../storage';
+import { assetTagService } from './asset-tags';
+import { assetLifecycleService, AssetLifecycleError, type LifecycleActor } from './asset-lifecycle';
+import { ticketSlaService } from '../tickets/sla-service';
+import { buildVarianceReport, classifyScan, isExpectedAt, type VarianceReport } from './inventory-variance';
+import type {
+  Asset,
+  CloseInventoryAudit,
+  CreateInventoryAudit,
+  InventoryAudit,
+  InventoryAuditItem,
+  InventoryAuditScan,
+  UpdateInventoryAuditItem,
+} from '@shared/schema';
+
+export interface InventoryAuditActor extends LifecycleActor {
+  email: string;
+}
+
+export interface InventoryAuditProgress extends InventoryAudit {
+  counts: Record<string, number>; // Items per result
+}
+
+export interface InventoryAuditChange {
+  itemId: string;
+  assetId: string;
+  assetName: string | null;
+  change: 'status' | 'location' | 'ticket';
+  from?: string | null;
+  to?: string | null;
+  ticketId?: string;
+  ticketNumber?: string;
+}
+
+export interface InventoryAuditCloseResult {
+  audit: InventoryAudit;
+  report: VarianceReport;
+  changes: InventoryAuditChange[];
+  errors: Array<{ assetId: string; assetName: string | null; message: string }>;
+}
+
+export class InventoryAuditError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'InventoryAuditError';
+  }
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string })?.code === '23505';
+}
+
+export class InventoryAuditService {
+  async listAudits(tenantId: string, status?: string): Promise<InventoryAuditProgress[]> {
+    const [audits, counts] = await Promise.all([
+      storage.getInventoryAudits(tenantId, status),
+      storage.getInventoryAuditItemCounts(tenantId),
+    ]);
+
+    return audits.map(audit => ({
+      ...audit,
+      counts: counts
+        .filter(row => row.auditId === audit.id)
+        .reduce<Record<string, number>>((acc, row) => ({ ...acc, [row.result]: row.count }), {}),
+    }));
+  }
+
+  async getAuditOrThrow(auditId: string, tenantId: string): Promise<InventoryAudit> {
+    const audit = await storage.getInventoryAudit(auditId, tenantId);
+    if (!audit) {
+      throw new InventoryAuditError('Inventory audit not found', 404);
+    }
+    return audit;
+  }
+
+  private assertOpen(audit: InventoryAudit): void {
+    if (audit.status !== 'open') {
+      throw new InventoryAuditError(`Inventory audit is ${audit.status}`, 409);
+    }
+  }
+
+  /**
+   * Start an audit and snapshot the assets expected at its site or location
+   */
+  async createAudit(tenantId: string, data: CreateInventoryAudit, actor: InventoryAuditActor): Promise<InventoryAudit> {
+    let location = data.location!;
+    if (data.siteId) {
+      const site = await storage.getSite(data.siteId, tenantId);
+      if (!site) {
+        throw new InventoryAuditError('Site not found', 404);
+      }
+      location = site.name;
+    }
+
+    const assets = await storage.getAllAssets(tenantId);
+    const expected = assets.filter(asset => isExpectedAt(asset, location));
+
+    const audit = await storage.createInventoryAudit(
+      {
+        tenantId,
+        name: data.name,
+        siteId: data.siteId ?? null,
+        location,
+        notes: data.notes ?? null,
+        createdBy: actor.userId,
+        createdByName: actor.name,
+      },
+      expected.map(asset => ({
+        tenantId,
+        assetId: asset.id,
+        assetName: asset.name,
+        assetTag: asset.assetTag,
+        serialNumber: asset.serialNumber,
+        expected: true,
+        registeredLocation: asset.location,
+        result: 'pending',
+      }))
+    );
+
+    console.log(`[Inventory Audit] Started "${audit.name}" at ${location} for tenant ${tenantId}: ${expected.length} assets expected`);
+    return audit;
+  }
+
+  async getAudit(tenantId: string, auditId: string): Promise<{ audit: InventoryAudit; items: InventoryAuditItem[]; report: VarianceReport }> {
+    const audit = await this.getAuditOrThrow(auditId, tenantId);
+    const items = await storage.getInventoryAuditItems(audit.id, tenantId);
+    return { audit, items, report: buildVarianceReport(items) };
+  }
+
+  /**
+   * Record a scanned code. Scanning the same asset or unknown code again only refreshes the scan.
+   */
+  async recordScan(
+    tenantId: string,
+    auditId: string,
+    scan: InventoryAuditScan,
+    actor: InventoryAuditActor
+  ): Promise<{ item: InventoryAuditItem; duplicate: boolean }> {
+    const audit = await this.getAuditOrThrow(auditId, tenantId);
+    this.assertOpen(audit);
+
+    const match = await assetTagService.resolveScan(tenantId, scan.code);
+    const items = await storage.getInventoryAuditItems(audit.id, tenantId);
+    const scanned = {
+      scannedCode: scan.code,
+      scannedAt: new Date(),
+      scannedBy: actor.userId,
+      scannedByName: actor.name,
+      ...(scan.notes ? { notes: scan.notes } : {}),
+    };
+
+    const existing = match
+      ? items.find(item => item.assetId === match.asset.id)
+      : items.find(item => !item.assetId && item.scannedCode?.toLowerCase() === scan.code.toLowerCase());
+
+    if (existing) {
+      const duplicate = existing.result !== 'pending' && existing.result !== 'missing';
+      const updated = await storage.updateInventoryAuditItem(existing.id, tenantId, {
+        ...scanned,
+        // Expected assets count as found once scanned, wherever the register now says they are
+        ...(existing.expected ? { result: 'found' } : {}),
+      });
+      return { item: updated ?? existing, duplicate };
+    }
+
+    const asset: Asset | null = match?.asset ?? null;
+    try {
+      const item = await storage.createInventoryAuditItem({
+        tenantId,
+        auditId: audit.id,
+        assetId: asset?.id ?? null,
+        assetName: asset?.name ?? null,
+        assetTag: asset?.assetTag ?? null,
+        serialNumber: asset?.serialNumber ?? null,
+        expected: false,
+        registeredLocation: asset?.location ?? null,
+        result: classifyScan(asset, audit.location),
+        ...scanned,
+      });
+      return { item, duplicate: false };
+    } catch (error) {
+      // The same asset scanned concurrently by another technician
+      if (!isUniqueViolation(error)) throw error;
+      const items = await storage.getInventoryAuditItems(audit.id, tenantId);
+      return { item: items.find(item => item.assetId === asset?.id)!, duplicate: true };
+    }
+  }
+
+  /**
+   * Confirm or mark an expected asset by hand, e.g. when its label is unreadable
+   */
+  async updateItem(
+    tenantId: string,
+    auditId: string,
+    itemId: string,
+    data: UpdateInventoryAuditItem,
+    actor: InventoryAuditActor
+  ): Promise<InventoryAuditItem> {
+    const audit = await this.getAuditOrThrow(auditId, tenantId);
+    this.assertOpen(audit);
+
+    const item = await storage.getInventoryAuditItem(itemId, tenantId);
+    if (!item || item.auditId !== audit.id) {
+      throw new InventoryAuditError('Audit item not found', 404);
+    }
+    if (!item.expected) {
+      throw new InventoryAuditError('Only expected assets can be confirmed by hand; scanned items keep their scan result');
+    }
+
+    const updated = await storage.updateInventoryAuditItem(item.id, tenantId, {
+      result: data.result,
+      notes: data.notes ?? item.notes,
+      ...(data.result === 'pending'
+        ? { scannedAt: null, scannedBy: null, scannedByName: null }
+        : { scannedAt: new Date(), scannedBy: actor.userId, scannedByName: actor.name }),
+    });
+    return updated ?? item;
+  }
+
+  /**
+   * Close the audit: unconfirmed expected assets become missing, the chosen bulk actions
+   * are applied and the variance summary is frozen on the audit
+   */
+  async closeAudit(
+    tenantId: string,
+    auditId: string,
+    options: CloseInventoryAudit,
+    actor: InventoryAuditActor
+  ): Promise<InventoryAuditCloseResult> {
+    const audit = await this.getAuditOrThrow(auditId, tenantId);
+    this.assertOpen(audit);
+
+    let items = await storage.getInventoryAuditItems(audit.id, tenantId);
+    for (const item of items.filter(item => item.result === 'pending')) {
+      await storage.updateInventoryAuditItem(item.id, tenantId, { result: 'missing' });
+    }
+    items = items.map(item => item.result === 'pending' ? { ...item, result: 'missing' } : item);
+
+    const changes: InventoryAuditChange[] = [];
+    const errors: InventoryAuditCloseResult['errors'] = [];
+    const record = async (item: InventoryAuditItem, apply: () => Promise<InventoryAuditChange | null>) => {
+      try {
+        const change = await apply();
+        if (change) changes.push(change);
+      } catch (error) {
+        if (!(error instanceof AssetLifecycleError)) throw error;
+        errors.push({ assetId: item.assetId!, assetName: item.assetName, message: error.message });
+      }
+    };
+
+    const site = audit.siteId ? await storage.getSite(audit.siteId, tenantId) : undefined;
+    const reason = `Inventory audit "${audit.name}" at ${audit.location}`;
+
+    for (const item of items.filter(item => item.assetId)) {
+      const assetId = item.assetId!;
+
+      if (item.result === 'wrong_location' && options.relocateWrongLocation) {
+        await record(item, async () => {
+          const moved = site
+            ? await assetLifecycleService.moveToSite(tenantId, assetId, site, actor, reason)
+            : await assetLifecycleService.moveToLocation(tenantId, assetId, audit.location, actor, reason);
+          return { itemId: item.id, assetId, assetName: item.assetName, change: 'location', from: item.registeredLocation, to: moved.location };
+        });
+      }
+
+      if (item.result !== 'missing') continue;
+
+      const missingStatus = options.missingStatus;
+      if (missingStatus) {
+        await record(item, async () => {
+          const asset = await storage.getAsset(assetId, tenantId);
+          if (!asset || asset.status === missingStatus) return null;
+          await assetLifecycleService.transition(tenantId, assetId, missingStatus, actor, `Missing in ${reason}`);
+          return { itemId: item.id, assetId, assetName: item.assetName, change: 'status', from: asset.status, to: missingStatus };
+        });
+      }
+
+      if (options.createTicketsForMissing) {
+        await record(item, async () => {
+          const label = item.assetTag ? `${item.assetName} (${item.assetTag})` : item.assetName ?? assetId;
+          const ticket = await storage.createTicket({
+            tenantId,
+            title: `Missing asset: ${label}`,
+            description: `${label} was not found during inventory audit "${audit.name}" at ${audit.location}.`
+              + (item.serialNumber ? `\n\nSerial number: ${item.serialNumber}` : '')
+              + (item.notes ? `\nAuditor notes: ${item.notes}` : ''),
+            category: 'hardware',
+            priority: 'medium',
+            requestorId: actor.userId!,
+            requestorName: actor.name,
+            requestorEmail: actor.email,
+            assetId,
+            assetName: item.assetName,
+            siteId: audit.siteId,
+            tags: ['inventory-audit'],
+          });
+          await ticketSlaService.applyPolicy(ticket);
+          return { itemId: item.id, assetId, assetName: item.assetName, change: 'ticket', ticketId: ticket.id, ticketNumber: ticket.ticketNumber };
+        });
+      }
+    }
+
+    // Keep what was done to each asset on its audit item
+    const resolutions = new Map<string, InventoryAuditChange[]>();
+    changes.forEach(change => resolutions.set(change.itemId, [...(resolutions.get(change.itemId) ?? []), change]));
+    for (const [itemId, itemChanges] of Array.from(resolutions.entries())) {
+      await storage.updateInventoryAuditItem(itemId, tenantId, {
+        resolution: itemChanges.map(({ itemId: _, ...change }) => change),
+      });
+    }
+    items = items.map(item => resolutions.has(item.id)
+      ? { ...item, resolution: resolutions.get(item.id)!.map(({ itemId: _, ...change }) => change) }
+      : item);
+
+    const report = buildVarianceReport(items);
+    const closed = await storage.updateInventoryAudit(audit.id, tenantId, {
+      status: 'closed',
+      closedAt: new Date(),
+      closedBy: actor.userId,
+      closedByName: actor.name,
+      closeOptions: options,
+      summary: { ...report.totals, accuracy: report.accuracy, changes: changes.length, errors: errors.length },
+    });
+
+    console.log(`[Inventory Audit] Closed "${audit.name}" for tenant ${tenantId}: ${report.totals.missing} missing, ${report.totals.wrongLocation} wrong location, ${report.totals.unexpected} unexpected, ${changes.length} changes`);
+    return { audit: closed ?? audit, report, changes, errors };
+  }
+
+  async cancelAudit(tenantId: string, auditId: string, actor: InventoryAuditActor): Promise<InventoryAudit> {
+    const audit = await this.getAuditOrThrow(auditId, tenantId);
+    this.assertOpen(audit);
+
+    const cancelled = await storage.updateInventoryAudit(audit.id, tenantId, {
+      status: 'cancelled',
+      closedAt: new Date(),
+      closedBy: actor.userId,
+      closedByName: actor.name,
+    });
+    return cancelled ?? audit;
+  }
+}
+
+export const inventoryAuditService = new InventoryAuditService();
@@ -0,0 +1,111 @@
+/**
+ * Inventory Audit Variance
+ *
+ * Scan classification and the variance report for physical inventory audits:
+ * - Expected assets are the active hardware assets registered at the audited location
+ * - A scan is found (registered here), wrong-location (registered elsewhere) or unexpected
+ *   (a code matching no asset, or an asset the register says is retired or disposed)
+ * - Expected assets nobody scanned or confirmed are missing when the audit closes
+ */
+
+import type { Asset, InventoryAuditItem, InventoryAuditResult } from '@shared/schema';
+
+const INACTIVE_STATUSES = new Set(['retired', 'disposed']);
+
+export type ScanResult = Extract<InventoryAuditResult, 'found' | 'wrong_location' | 'unexpected'>;
+
+export interface VarianceLine {
+  itemId: string;
+  assetId: string | null;
+  assetName: string | null;
+  assetTag: string | null;
+  serialNumber: string | null;
+  registeredLocation: string | null;
+  scannedCode: string | null;
+  scannedAt: Date | null;
+  scannedByName: string | null;
+  notes: string | null;
+  resolution: unknown;
+}
+
+export interface VarianceReport {
+  generatedAt: Date;
+  totals: {
+    expected: number;
+    found: number; // Expected assets found plus assets registered here since the audit started
+    missing: number;
+    wrongLocation: number;
+    unexpected: number;
+    pending: number;
+  };
+  accuracy: number; // % of expected assets found
+  found: VarianceLine[];
+  missing: VarianceLine[];
+  wrongLocation: VarianceLine[];
+  unexpected: VarianceLine[];
+  pending: VarianceLine[];
+}
+
+function normalizeLocation(value: string | null | undefined): string {
+  return (value ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function isAtLocation(asset: Pick<Asset, 'location'>, location: string): boolean {
+  const normalized = normalizeLocation(location);
+  return normalized !== '' && normalizeLocation(asset.location) === normalized;
+}
+
+/**
+ * Whether the register says the asset should be on hand at the location
+ */
+export function isExpectedAt(asset: Pick<Asset, 'type' | 'status' | 'location'>, location: string): boolean {
+  return asset.type !== 'Software' && !INACTIVE_STATUSES.has(asset.status) && isAtLocation(asset, location);
+}
+
+/**
+ * Result for a scanned code; `asset` is null when the code matched nothing
+ */
+export function classifyScan(asset: Pick<Asset, 'status' | 'location'> | null, location: string): ScanResult {
+  if (!asset || INACTIVE_STATUSES.has(asset.status)) return 'unexpected';
+  return isAtLocation(asset, location) ? 'found' : 'wrong_location';
+}
+
+function toLine(item: InventoryAuditItem): VarianceLine {
+  return {
+    itemId: item.id,
+    assetId: item.assetId,
+    assetName: item.assetName,
+    assetTag: item.assetTag,
+    serialNumber: item.serialNumber,
+    registeredLocation: item.registeredLocation,
+    scannedCode: item.scannedCode,
+    scannedAt: item.scannedAt,
+    scannedByName: item.scannedByName,
+    notes: item.notes,
+    resolution: item.resolution,
+  };
+}
+
+export function buildVarianceReport(items: InventoryAuditItem[]): VarianceReport {
+  const byResult = (result: InventoryAuditResult) => items.filter(item => item.result === result).map(toLine);
+
+  const expected = items.filter(item => item.expected);
+  const expectedFound = expected.filter(item => item.result === 'found').length;
+
+  const report: VarianceReport = {
+    generatedAt: new Date(),
+    totals: { expected: expected.length, found: 0, missing: 0, wrongLocation: 0, unexpected: 0, pending: 0 },
+    accuracy: expected.length > 0 ? Math.round((expectedFound / expected.length) * 1000) / 10 : 100,
+    found: byResult('found'),
+    missing: byResult('missing'),
+    wrongLocation: byResult('wrong_location'),
+    unexpected: byResult('unexpected'),
+    pending: byResult('pending'),
+  };
+  report.totals.found = report.found.length;
+  report.totals.missing = report.missing.length;
+  report.totals.wrongLocation = report.wrongLocation.length;
+  report.totals.unexpected = report.unexpected.length;
+  report.totals.pending = report.pending.length;
+  return report;
+}
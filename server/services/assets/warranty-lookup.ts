@@ -0,0 +1,127 @@
+/**
+ * Warranty Lookup
+ *
+ * Pluggable lookup of a device's warranty/AMC coverage by manufacturer and serial number:
+ * - Providers implement WarrantyLookupProvider and are registered with warrantyLookupRegistry
+ * - The first registered provider that supports a manufacturer answers for it
+ * - FileWarrantyLookupProvider serves coverage from a JSON file (set WARRANTY_LOOKUP_FILE);
+ *   it stands in for vendor APIs in development and tests
+ */
+
+import fs from 'fs/promises';
+
+export interface WarrantyLookupResult {
+  provider: string;
+  warrantyExpiry: Date | null;
+  amcExpiry: Date | null;
+  coverageLevel?: string; // e.g. "Next Business Day", "ProSupport"
+  shipDate?: Date | null;
+}
+
+export interface WarrantyLookupProvider {
+  readonly name: string;
+  supports(manufacturer: string): boolean;
+  /**
+   * Coverage for one device, or null when the provider has no record of the serial
+   */
+  lookup(manufacturer: string, serialNumber: string): Promise<WarrantyLookupResult | null>;
+}
+
+export class WarrantyLookupError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'WarrantyLookupError';
+  }
+}
+
+interface WarrantyFileEntry {
+  manufacturer: string;
+  serialNumber: string;
+  warrantyExpiry?: string | null;
+  amcExpiry?: string | null;
+  coverageLevel?: string;
+  shipDate?: string | null;
+}
+
+function toDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+const normalise = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Serves coverage from a JSON array of { manufacturer, serialNumber, warrantyExpiry, amcExpiry,
+ * coverageLevel, shipDate } entries; the file is re-read when it changes on disk
+ */
+export class FileWarrantyLookupProvider implements WarrantyLookupProvider {
+  readonly name = 'file';
+  private entries = new Map<string, WarrantyFileEntry>();
+  private loadedMtime = 0;
+
+  constructor(private filePath: string) {}
+
+  supports(_manufacturer: string): boolean {
+    return true;
+  }
+
+  async lookup(manufacturer: string, serialNumber: string): Promise<WarrantyLookupResult | null> {
+    await this.load();
+    const entry = this.entries.get(`${normalise(manufacturer)}|${normalise(serialNumber)}`);
+    if (!entry) return null;
+    return {
+      provider: this.name,
+      warrantyExpiry: toDate(entry.warrantyExpiry),
+      amcExpiry: toDate(entry.amcExpiry),
+      coverageLevel: entry.coverageLevel,
+      shipDate: toDate(entry.shipDate),
+    };
+  }
+
+  private async load(): Promise<void> {
+    const stat = await fs.stat(this.filePath);
+    if (stat.mtimeMs === this.loadedMtime) return;
+
+    const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    if (!Array.isArray(parsed)) {
+      throw new WarrantyLookupError(`Warranty lookup file ${this.filePath} must contain a JSON array`, 500);
+    }
+    this.entries = new Map(
+      (parsed as WarrantyFileEntry[])
+        .filter(entry => entry?.manufacturer && entry?.serialNumber)
+        .map(entry => [`${normalise(entry.manufacturer)}|${normalise(entry.serialNumber)}`, entry])
+    );
+    this.loadedMtime = stat.mtimeMs;
+  }
+}
+
+export class WarrantyLookupRegistry {
+  private providers: WarrantyLookupProvider[] = [];
+
+  register(provider: WarrantyLookupProvider): void {
+    this.providers = [...this.providers.filter(existing => existing.name !== provider.name), provider];
+  }
+
+  unregister(name: string): void {
+    this.providers = this.providers.filter(provider => provider.name !== name);
+  }
+
+  listProviders(): string[] {
+    return this.providers.map(provider => provider.name);
+  }
+
+  async lookup(manufacturer: string, serialNumber: string): Promise<WarrantyLookupResult | null> {
+    const provider = this.providers.find(candidate => candidate.supports(manufacturer));
+    if (!provider) {
+      throw new WarrantyLookupError(`No warranty lookup provider is configured for ${manufacturer}`, 501);
+    }
+    return await provider.lookup(manufacturer, serialNumber);
+  }
+}
+
+export const warrantyLookupRegistry = new WarrantyLookupRegistry();
+
+if (process.env.WARRANTY_LOOKUP_FILE) {
+  warrantyLookupRegistry.register(new FileWarrantyLookupProvider(process.env.WARRANTY_LOOKUP_FILE));
+}
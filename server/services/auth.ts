@@ -43,6 +43,42 @@ export function verifyToken(token: string): JWTPayload | null {
   }
 }
 
+export type MfaPendingPurpose = "mfa_login" | "mfa_enrollment";
+
+export interface MfaPendingPayload {
+  userId: string;
+  tenantId: string;
+  purpose: MfaPendingPurpose;
+  challengeId?: string;
+}
+
+// Signed with a derived key so a pending token can never pass verifyToken()
+const MFA_PENDING_SECRET = crypto.createHmac('sha256', JWT_SECRET).update('mfa-pending').digest('hex');
+
+/**
+ * Short-lived token proving the password step of login succeeded;
+ * exchanged for a session token once the second factor is verified or enrolled
+ */
+export function generateMfaPendingToken(user: User, purpose: MfaPendingPurpose, challengeId?: string): string {
+  const payload: MfaPendingPayload = {
+    userId: user.id,
+    tenantId: user.tenantId,
+    purpose,
+    challengeId,
+  };
+
+  return jwt.sign(payload, MFA_PENDING_SECRET, { expiresIn: "10m" });
+}
+
+export function verifyMfaPendingToken(token: string, purpose: MfaPendingPurpose): MfaPendingPayload | null {
+  try {
+    const payload = jwt.verify(token, MFA_PENDING_SECRET) as MfaPendingPayload;
+    return payload.purpose === purpose ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
 export async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, 10);
 }
@@ -0,0 +1,140 @@
+/**
+ * Configuration Item Graph
+ *
+ * Impact traversal over typed CMDB relationships (source <relationship> target):
+ * - runs_on, depends_on and owned_by mean the source needs the target, so losing the target
+ *   impacts the source and everything that in turn needs it (downstream impact)
+ * - Upstream impact is the reverse: everything the configuration item needs to work
+ * - connected_to and backs_up are reported as direct neighbours only; a failed switch port or
+ *   backup target does not take down what sits behind it
+ */
+
+import type { CiNodeType, CiRelationshipType } from '@shared/schema';
+
+export const DEPENDENCY_RELATIONSHIPS: ReadonlySet<string> = new Set<CiRelationshipType>(['runs_on', 'depends_on', 'owned_by']);
+
+export const DEFAULT_IMPACT_DEPTH = 5;
+export const MAX_IMPACT_DEPTH = 10;
+
+export interface CiNodeRef {
+  type: CiNodeType;
+  id: string;
+}
+
+export interface CiEdge {
+  id: string;
+  sourceType: string;
+  sourceId: string;
+  targetType: string;
+  targetId: string;
+  relationshipType: string;
+  derived?: boolean; // Implied by other data (device ↔ software links) rather than recorded
+}
+
+export interface ImpactEntry extends CiNodeRef {
+  depth: number; // 1 = directly related
+  relationshipType: string;
+  edgeId: string;
+  via: CiNodeRef; // Neighbour one step closer to the root
+}
+
+export interface NeighbourEntry extends CiNodeRef {
+  relationshipType: string;
+  direction: 'outgoing' | 'incoming'; // outgoing: root <relationship> neighbour
+  edgeId: string;
+}
+
+export interface ImpactTraversal {
+  upstream: ImpactEntry[];
+  downstream: ImpactEntry[];
+  related: NeighbourEntry[];
+}
+
+export function nodeKey(node: { type: string; id: string }): string {
+  return `${node.type}:${node.id}`;
+}
+
+function sourceOf(edge: CiEdge): CiNodeRef {
+  return { type: edge.sourceType as CiNodeType, id: edge.sourceId };
+}
+
+function targetOf(edge: CiEdge): CiNodeRef {
+  return { type: edge.targetType as CiNodeType, id: edge.targetId };
+}
+
+/**
+ * Breadth-first walk along dependency edges; each node is reported once, at its shortest depth
+ */
+function walk(edges: CiEdge[], root: CiNodeRef, direction: 'upstream' | 'downstream', maxDepth: number): ImpactEntry[] {
+  // downstream follows edges into the current node (who needs it), upstream follows edges out of it
+  const adjacency = new Map<string, Array<{ edge: CiEdge; next: CiNodeRef }>>();
+  for (const edge of edges) {
+    if (!DEPENDENCY_RELATIONSHIPS.has(edge.relationshipType)) continue;
+    const from = direction === 'downstream' ? targetOf(edge) : sourceOf(edge);
+    const next = direction === 'downstream' ? sourceOf(edge) : targetOf(edge);
+    const key = nodeKey(from);
+    adjacency.set(key, [...(adjacency.get(key) ?? []), { edge, next }]);
+  }
+
+  const visited = new Set<string>([nodeKey(root)]);
+  const entries: ImpactEntry[] = [];
+  let frontier: CiNodeRef[] = [root];
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const nextFrontier: CiNodeRef[] = [];
+    for (const node of frontier) {
+      for (const { edge, next } of adjacency.get(nodeKey(node)) ?? []) {
+        const key = nodeKey(next);
+        if (visited.has(key)) continue;
+        visited.add(key);
+        entries.push({ ...next, depth, relationshipType: edge.relationshipType, edgeId: edge.id, via: node });
+        nextFrontier.push(next);
+      }
+    }
+    frontier = nextFrontier;
+  }
+
+  return entries;
+}
+
+export function traverseImpact(edges: CiEdge[], root: CiNodeRef, maxDepth: number = DEFAULT_IMPACT_DEPTH): ImpactTraversal {
+  const depth = Math.min(Math.max(1, maxDepth), MAX_IMPACT_DEPTH);
+  const rootKey = nodeKey(root);
+
+  const related: NeighbourEntry[] = [];
+  for (const edge of edges) {
+    if (DEPENDENCY_RELATIONSHIPS.has(edge.relationshipType)) continue;
+    if (nodeKey(sourceOf(edge)) === rootKey) {
+      related.push({ ...targetOf(edge), relationshipType: edge.relationshipType, direction: 'outgoing', edgeId: edge.id });
+    } else if (nodeKey(targetOf(edge)) === rootKey) {
+      related.push({ ...sourceOf(edge), relationshipType: edge.relationshipType, direction: 'incoming', edgeId: edge.id });
+    }
+  }
+
+  return {
+    upstream: walk(edges, root, 'upstream', depth),
+    downstream: walk(edges, root, 'downstream', depth),
+    related,
+  };
+}
+
+/**
+ * Services impacted if any of the roots goes away, at their shortest depth from any root.
+ * A root that is itself a service is reported at depth 0.
+ */
+export function affectedServices(edges: CiEdge[], roots: CiNodeRef[], maxDepth: number = DEFAULT_IMPACT_DEPTH): Array<ImpactEntry | (CiNodeRef & { depth: 0 })> {
+  const best = new Map<string, ImpactEntry | (CiNodeRef & { depth: 0 })>();
+  for (const root of roots) {
+    if (root.type === 'service') {
+      best.set(root.id, { ...root, depth: 0 });
+    }
+    for (const entry of traverseImpact(edges, root, maxDepth).downstream) {
+      if (entry.type !== 'service') continue;
+      const existing = best.get(entry.id);
+      if (!existing || entry.depth < existing.depth) {
+        best.set(entry.id, entry);
+      }
+    }
+  }
+  return Array.from(best.values()).sort((a, b) => a.depth - b.depth);
+}
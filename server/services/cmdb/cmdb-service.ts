@@ -0,0 +1,330 @@
+/**
+ * CMDB Service
+ *
+ * Business services and typed relationships between configuration items
+ * (assets, SaaS apps, sites, users and business services):
+ * - Validates that both ends of a relationship exist in the tenant
+ * - Adds implied edges: software assets run on the devices they are linked to, and
+ *   services are owned by their owner
+ * - Resolves upstream/downstream impact for any node and the business services
+ *   affected when devices or people go away (used by tickets and offboarding)
+ */
+
+import { storage } from '../../storage';
+import {
+  affectedServices,
+  nodeKey,
+  traverseImpact,
+  DEFAULT_IMPACT_DEPTH,
+  type CiEdge,
+  type CiNodeRef,
+  type ImpactEntry,
+  type NeighbourEntry,
+} from './ci-graph';
+import type {
+  BusinessService,
+  CiNodeType,
+  CiRelationship,
+  CreateBusinessService,
+  CreateCiRelationship,
+} from '@shared/schema';
+
+export interface CiNodeSummary extends CiNodeRef {
+  name: string;
+  status?: string | null; // Asset status, SaaS approval status or service criticality
+  missing?: boolean; // The relationship points at something that has since been deleted
+}
+
+export interface CiRelationshipView extends CiRelationship {
+  source: CiNodeSummary;
+  target: CiNodeSummary;
+}
+
+export interface CiImpact {
+  node: CiNodeSummary;
+  upstream: Array<ImpactEntry & { name: string; status?: string | null; viaName: string }>;
+  downstream: Array<ImpactEntry & { name: string; status?: string | null; viaName: string }>;
+  related: Array<NeighbourEntry & { name: string; status?: string | null }>;
+  affectedServices: ImpactedService[];
+}
+
+// Snapshot stored on tickets and returned by offboarding previews
+export interface ImpactedService {
+  id: string;
+  name: string;
+  criticality: string;
+  depth: number;
+  via?: string; // Name of the node through which the service is affected
+}
+
+export class CmdbError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'CmdbError';
+  }
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string })?.code === '23505';
+}
+
+const CRITICALITY_ORDER: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+export class CmdbService {
+  async listServices(tenantId: string): Promise<BusinessService[]> {
+    return storage.getBusinessServices(tenantId);
+  }
+
+  async getServiceOrThrow(id: string, tenantId: string): Promise<BusinessService> {
+    const service = await storage.getBusinessService(id, tenantId);
+    if (!service) {
+      throw new CmdbError('Business service not found', 404);
+    }
+    return service;
+  }
+
+  async createService(tenantId: string, data: CreateBusinessService): Promise<BusinessService> {
+    await this.assertOwner(tenantId, data.ownerId);
+    try {
+      return await storage.createBusinessService({ ...data, tenantId });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new CmdbError(`A business service named "${data.name}" already exists`, 409);
+      }
+      throw error;
+    }
+  }
+
+  async updateService(tenantId: string, id: string, data: Partial<CreateBusinessService>): Promise<BusinessService> {
+    await this.getServiceOrThrow(id, tenantId);
+    await this.assertOwner(tenantId, data.ownerId);
+    try {
+      return (await storage.updateBusinessService(id, tenantId, data))!;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new CmdbError(`A business service named "${data.name}" already exists`, 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a service together with every relationship that references it
+   */
+  async deleteService(tenantId: string, id: string): Promise<BusinessService> {
+    const service = await this.getServiceOrThrow(id, tenantId);
+    const removed = await storage.deleteCiRelationshipsForNode(tenantId, 'service', id);
+    await storage.deleteBusinessService(id, tenantId);
+    console.log(`[CMDB] Deleted service "${service.name}" and ${removed} relationships for tenant ${tenantId}`);
+    return service;
+  }
+
+  async listRelationships(tenantId: string, node?: CiNodeRef): Promise<CiRelationshipView[]> {
+    const relationships = await storage.getCiRelationships(tenantId, node);
+    const summaries = await this.describeNodes(tenantId, relationships.flatMap(rel => [
+      { type: rel.sourceType as CiNodeType, id: rel.sourceId },
+      { type: rel.targetType as CiNodeType, id: rel.targetId },
+    ]));
+    return relationships.map(rel => ({
+      ...rel,
+      source: summaries.get(nodeKey({ type: rel.sourceType, id: rel.sourceId }))!,
+      target: summaries.get(nodeKey({ type: rel.targetType, id: rel.targetId }))!,
+    }));
+  }
+
+  async createRelationship(tenantId: string, data: CreateCiRelationship, userId: string): Promise<CiRelationshipView> {
+    const source = { type: data.sourceType, id: data.sourceId };
+    const target = { type: data.targetType, id: data.targetId };
+    const summaries = await this.describeNodes(tenantId, [source, target]);
+    for (const node of [source, target]) {
+      if (summaries.get(nodeKey(node))!.missing) {
+        throw new CmdbError(`${node.type.replace('_', ' ')} ${node.id} not found`, 404);
+      }
+    }
+
+    // connected_to has no direction, so the reverse edge is the same relationship
+    if (data.relationshipType === 'connected_to') {
+      const existing = await storage.getCiRelationships(tenantId, source);
+      if (existing.some(rel => rel.relationshipType === 'connected_to' && rel.sourceType === target.type && rel.sourceId === target.id)) {
+        throw new CmdbError('These configuration items are already connected', 409);
+      }
+    }
+
+    try {
+      const relationship = await storage.createCiRelationship({
+        tenantId,
+        ...data,
+        notes: data.notes ?? null,
+        createdBy: userId,
+      });
+      return {
+        ...relationship,
+        source: summaries.get(nodeKey(source))!,
+        target: summaries.get(nodeKey(target))!,
+      };
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new CmdbError('This relationship already exists', 409);
+      }
+      throw error;
+    }
+  }
+
+  async deleteRelationship(tenantId: string, id: string): Promise<CiRelationship> {
+    const relationship = await storage.getCiRelationship(id, tenantId);
+    if (!relationship) {
+      throw new CmdbError('Relationship not found', 404);
+    }
+    await storage.deleteCiRelationship(id, tenantId);
+    return relationship;
+  }
+
+  /**
+   * Upstream and downstream impact for a configuration item
+   */
+  async getImpact(tenantId: string, node: CiNodeRef, maxDepth: number = DEFAULT_IMPACT_DEPTH): Promise<CiImpact> {
+    const root = (await this.describeNodes(tenantId, [node])).get(nodeKey(node))!;
+    if (root.missing) {
+      throw new CmdbError(`${node.type.replace('_', ' ')} ${node.id} not found`, 404);
+    }
+
+    const edges = await this.loadEdges(tenantId);
+    const traversal = traverseImpact(edges, node, maxDepth);
+    const summaries = await this.describeNodes(tenantId, [
+      node,
+      ...traversal.upstream,
+      ...traversal.downstream,
+      ...traversal.related,
+    ]);
+    const describe = <T extends CiNodeRef>(entry: T) => {
+      const summary = summaries.get(nodeKey(entry))!;
+      return { ...entry, name: summary.name, status: summary.status };
+    };
+    const withVia = (entry: ImpactEntry) => ({ ...describe(entry), viaName: summaries.get(nodeKey(entry.via))!.name });
+
+    return {
+      node: root,
+      upstream: traversal.upstream.map(withVia),
+      downstream: traversal.downstream.map(withVia),
+      related: traversal.related.map(describe),
+      affectedServices: await this.toImpactedServices(tenantId, edges, [node], maxDepth),
+    };
+  }
+
+  /**
+   * Business services affected if any of the given items goes away, most critical first
+   */
+  async getAffectedServices(tenantId: string, roots: CiNodeRef[], maxDepth: number = DEFAULT_IMPACT_DEPTH): Promise<ImpactedService[]> {
+    if (roots.length === 0) return [];
+    return this.toImpactedServices(tenantId, await this.loadEdges(tenantId), roots, maxDepth);
+  }
+
+  private async toImpactedServices(tenantId: string, edges: CiEdge[], roots: CiNodeRef[], maxDepth: number): Promise<ImpactedService[]> {
+    const entries = affectedServices(edges, roots, maxDepth);
+    if (entries.length === 0) return [];
+
+    const services = new Map((await storage.getBusinessServices(tenantId)).map(service => [service.id, service]));
+    const vias = await this.describeNodes(tenantId, entries.flatMap(entry => 'via' in entry ? [entry.via] : []));
+
+    return entries
+      .filter(entry => services.get(entry.id)?.isActive)
+      .map(entry => {
+        const service = services.get(entry.id)!;
+        return {
+          id: service.id,
+          name: service.name,
+          criticality: service.criticality,
+          depth: entry.depth,
+          ...('via' in entry ? { via: vias.get(nodeKey(entry.via))!.name } : {}),
+        };
+      })
+      .sort((a, b) => (CRITICALITY_ORDER[a.criticality] ?? 9) - (CRITICALITY_ORDER[b.criticality] ?? 9) || a.depth - b.depth);
+  }
+
+  /**
+   * Recorded relationships plus the edges implied by software links and service owners
+   */
+  private async loadEdges(tenantId: string): Promise<CiEdge[]> {
+    const [relationships, softwareLinks, services] = await Promise.all([
+      storage.getCiRelationships(tenantId),
+      storage.getTenantAssetSoftwareLinks(tenantId),
+      storage.getBusinessServices(tenantId),
+    ]);
+
+    return [
+      ...relationships,
+      ...softwareLinks.map(link => ({
+        id: `software-link:${link.id}`,
+        sourceType: 'asset',
+        sourceId: link.softwareAssetId,
+        targetType: 'asset',
+        targetId: link.assetId,
+        relationshipType: 'runs_on',
+        derived: true,
+      })),
+      ...services.filter(service => service.ownerId).map(service => ({
+        id: `service-owner:${service.id}`,
+        sourceType: 'service',
+        sourceId: service.id,
+        targetType: 'user',
+        targetId: service.ownerId!,
+        relationshipType: 'owned_by',
+        derived: true,
+      })),
+    ];
+  }
+
+  /**
+   * Names for configuration items, loading only the collections that are referenced
+   */
+  private async describeNodes(tenantId: string, nodes: CiNodeRef[]): Promise<Map<string, CiNodeSummary>> {
+    const types = new Set(nodes.map(node => node.type));
+    const known = new Map<string, Omit<CiNodeSummary, 'type' | 'id'>>();
+
+    if (types.has('asset')) {
+      for (const asset of await storage.getAllAssets(tenantId)) {
+        known.set(nodeKey({ type: 'asset', id: asset.id }), { name: asset.name, status: asset.status });
+      }
+    }
+    if (types.has('saas_app')) {
+      for (const app of await storage.getSaasApps(tenantId)) {
+        known.set(nodeKey({ type: 'saas_app', id: app.id }), { name: app.name, status: app.approvalStatus });
+      }
+    }
+    if (types.has('site')) {
+      for (const site of await storage.getSites(tenantId)) {
+        known.set(nodeKey({ type: 'site', id: site.id }), { name: site.name });
+      }
+    }
+    if (types.has('user')) {
+      for (const user of await storage.getTenantUsers(tenantId)) {
+        known.set(nodeKey({ type: 'user', id: user.id }), { name: `${user.firstName} ${user.lastName}`.trim() || user.email });
+      }
+    }
+    if (types.has('service')) {
+      for (const service of await storage.getBusinessServices(tenantId)) {
+        known.set(nodeKey({ type: 'service', id: service.id }), { name: service.name, status: service.criticality });
+      }
+    }
+
+    const summaries = new Map<string, CiNodeSummary>();
+    for (const node of nodes) {
+      const key = nodeKey(node);
+      const found = known.get(key);
+      summaries.set(key, found
+        ? { type: node.type, id: node.id, ...found }
+        : { type: node.type, id: node.id, name: `Deleted ${node.type.replace('_', ' ')}`, missing: true });
+    }
+    return summaries;
+  }
+
+  private async assertOwner(tenantId: string, ownerId: string | null | undefined): Promise<void> {
+    if (!ownerId) return;
+    const owner = await storage.getUser(ownerId);
+    if (!owner || owner.tenantId !== tenantId) {
+      throw new CmdbError('Service owner not found', 404);
+    }
+  }
+}
+
+export const cmdbService = new CmdbService();
@@ -578,7 +578,7 @@ function calculateConfidence(device: EnrichedDevice): number {
 /**
  * Helper: Check if TCP port is open
  */
-function checkPort(host: string, port: number, timeout: number): Promise<boolean> {
+export function checkPort(host: string, port: number, timeout: number): Promise<boolean> {
   return new Promise((resolve) => {
     const socket = new net.Socket();
     
@@ -647,7 +647,7 @@ function generateUuid(): string {
 /**
  * Helper: Local OUI database subset (common vendors)
  */
-function getVendorFromOuiLocal(oui: string): string | null {
+export function getVendorFromOuiLocal(oui: string): string | null {
   const ouiDb: Record<string, string> = {
     '000C29': 'VMware',
     '005056': 'VMware',
@@ -0,0 +1,454 @@
+/**
+ * Network Scan Service
+ *
+ * Runs discovery jobs from the server instead of a downloaded scanner:
+ * - Expands a site's networkRanges (or explicit ranges) into hosts
+ * - Tries stored SNMP credential profiles in priority order, then port fingerprinting
+ * - Writes each responding host to discoveredDevices, flagged against existing assets
+ *   by serial, MAC or IP
+ * - Reports live progress on the job (scannedHosts, progressPercent, progressMessage)
+ * - Imports reviewed devices into assets, optionally merging into matched duplicates
+ *
+ * Credential secrets are stored encrypted and only decrypted for the duration of a scan.
+ */
+
+import crypto from 'crypto';
+import { storage } from '../../storage';
+import { decrypt } from '../encryption';
+import type {
+  Asset,
+  CreateNetworkScanJob,
+  CredentialProfile,
+  DiscoveredDevice,
+  DiscoveryJob,
+  ImportDiscoveredDevices,
+  InsertAsset,
+} from '@shared/schema';
+import {
+  DEFAULT_SCAN_PORTS,
+  expandNetworkRanges,
+  fingerprintPorts,
+  probeSnmp,
+  readArpCache,
+  scanPorts,
+  vendorFromMac,
+  type SnmpCredential,
+  type SnmpProbeResult,
+} from './network-scanner';
+
+export class NetworkScanError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'NetworkScanError';
+  }
+}
+
+export interface NetworkScanOptions {
+  snmpPort: number;
+  ports: number[];
+  timeoutMs: number;
+  concurrency: number;
+}
+
+export interface DiscoveryImportResult {
+  imported: Array<{ deviceId: string; assetId: string }>;
+  merged: Array<{ deviceId: string; assetId: string }>;
+  skipped: Array<{ deviceId: string; reason: string }>;
+}
+
+type HostOutcome = 'snmp' | 'partial' | 'unreachable';
+
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const PROGRESS_INTERVAL_MS = 2000;
+
+// Port fingerprint -> asset category
+const FINGERPRINT_CATEGORIES: Record<string, string> = {
+  'printer': 'printer',
+  'camera': 'camera',
+  'windows-host': 'computer',
+  'linux-host': 'server',
+  'network-device': 'network',
+  'web-device': 'network',
+};
+
+/**
+ * Decrypt a stored credential profile for use by the scanner
+ */
+export function toSnmpCredential(profile: CredentialProfile): SnmpCredential {
+  const reveal = (value: string | null) => (value ? decrypt(value) : null);
+  return {
+    profileId: profile.id,
+    snmpVersion: profile.snmpVersion === 'v3' ? 'v3' : 'v2c',
+    communityString: reveal(profile.communityString),
+    snmpV3Username: profile.snmpV3Username,
+    snmpV3AuthProtocol: profile.snmpV3AuthProtocol,
+    snmpV3AuthPassword: reveal(profile.snmpV3AuthPassword),
+    snmpV3PrivProtocol: profile.snmpV3PrivProtocol,
+    snmpV3PrivPassword: reveal(profile.snmpV3PrivPassword),
+    snmpV3SecurityLevel: profile.snmpV3SecurityLevel,
+  };
+}
+
+export class NetworkScanService {
+  private cancelled = new Set<string>();
+  private running = new Set<string>();
+
+  /**
+   * Create a server-side discovery job and start scanning in the background
+   */
+  async startScan(
+    tenantId: string,
+    initiatedBy: { userId: string; name: string },
+    request: CreateNetworkScanJob
+  ): Promise<DiscoveryJob> {
+    const site = request.siteId ? await storage.getSite(request.siteId, tenantId) : undefined;
+    if (request.siteId && !site) {
+      throw new NetworkScanError('Site not found', 404);
+    }
+
+    const siteRanges = Array.isArray(site?.networkRanges)
+      ? (site!.networkRanges as unknown[]).map(String).filter(Boolean)
+      : [];
+    const ranges = request.networkRanges ?? siteRanges;
+    if (ranges.length === 0) {
+      throw new NetworkScanError('The site has no network ranges configured');
+    }
+
+    let hosts: string[];
+    try {
+      hosts = expandNetworkRanges(ranges);
+    } catch (error: any) {
+      throw new NetworkScanError(error.message);
+    }
+
+    const profiles = await this.resolveProfiles(tenantId, request.credentialProfileIds);
+    const options: NetworkScanOptions = {
+      snmpPort: request.snmpPort,
+      ports: request.ports ?? DEFAULT_SCAN_PORTS,
+      timeoutMs: request.timeoutMs,
+      concurrency: request.concurrency,
+    };
+
+    const now = new Date();
+    const job = await storage.createDiscoveryJob({
+      jobId: crypto.randomBytes(4).toString('hex').toUpperCase(),
+      status: 'running',
+      initiatedBy: initiatedBy.userId,
+      initiatedByName: initiatedBy.name,
+      osType: 'server',
+      scanMode: 'server',
+      siteId: site?.id ?? null,
+      siteName: site?.name ?? null,
+      networkRange: ranges.join(', '),
+      credentialProfileIds: profiles.map(profile => profile.id),
+      scanOptions: options,
+      totalHosts: hosts.length,
+      scannedHosts: 0,
+      progressMessage: `Queued ${hosts.length} hosts`,
+      progressPercent: 0,
+      startedAt: now,
+      expiresAt: new Date(now.getTime() + JOB_RETENTION_MS),
+      tenantId,
+    });
+
+    console.log(`[Network Scan] Job ${job.jobId}: ${hosts.length} hosts, ${profiles.length} credential profiles`);
+
+    this.running.add(job.id);
+    this.runScan(job, hosts, profiles.map(toSnmpCredential), options)
+      .catch(async (error) => {
+        console.error(`[Network Scan] Job ${job.jobId} failed:`, error);
+        await storage.updateDiscoveryJob(job.id, tenantId, {
+          status: 'failed',
+          errorLog: error?.message ?? String(error),
+          completedAt: new Date(),
+        });
+      })
+      .finally(() => {
+        this.running.delete(job.id);
+        this.cancelled.delete(job.id);
+      });
+
+    return job;
+  }
+
+  /**
+   * Ask a running scan to stop after the hosts already in flight
+   */
+  cancelScan(jobId: string): boolean {
+    if (!this.running.has(jobId)) return false;
+    this.cancelled.add(jobId);
+    return true;
+  }
+
+  isRunning(jobId: string): boolean {
+    return this.running.has(jobId);
+  }
+
+  private async resolveProfiles(tenantId: string, profileIds?: string[]): Promise<CredentialProfile[]> {
+    const all = await storage.getCredentialProfiles(tenantId);
+    if (!profileIds) {
+      return all.filter(profile => profile.isActive !== false);
+    }
+
+    return profileIds.map(id => {
+      const profile = all.find(candidate => candidate.id === id);
+      if (!profile) {
+        throw new NetworkScanError(`Credential profile not found: ${id}`);
+      }
+      return profile;
+    });
+  }
+
+  private async runScan(
+    job: DiscoveryJob,
+    hosts: string[],
+    credentials: SnmpCredential[],
+    options: NetworkScanOptions
+  ): Promise<void> {
+    const counts = { scanned: 0, snmp: 0, partial: 0, unreachable: 0, duplicates: 0 };
+    let nextHost = 0;
+    let lastReport = 0;
+
+    const report = async (message: string, force = false) => {
+      if (!force && Date.now() - lastReport < PROGRESS_INTERVAL_MS) return;
+      lastReport = Date.now();
+      await storage.updateDiscoveryJob(job.id, job.tenantId, {
+        scannedHosts: counts.scanned,
+        successfulHosts: counts.snmp,
+        partialHosts: counts.partial,
+        unreachableHosts: counts.unreachable,
+        progressPercent: hosts.length === 0 ? 100 : Math.floor((counts.scanned / hosts.length) * 100),
+        progressMessage: message,
+      });
+    };
+
+    const worker = async () => {
+      while (nextHost < hosts.length && !this.cancelled.has(job.id)) {
+        const ip = hosts[nextHost++];
+        let outcome: HostOutcome = 'unreachable';
+        try {
+          const device = await this.scanHost(job, ip, credentials, options);
+          if (device) {
+            outcome = device.status === 'discovered' ? 'snmp' : 'partial';
+            if (device.isDuplicate) counts.duplicates++;
+          }
+        } catch (error) {
+          console.warn(`[Network Scan] Job ${job.jobId}: error scanning ${ip}:`, error);
+        }
+        counts.scanned++;
+        counts[outcome]++;
+        await report(`Scanned ${ip}`);
+      }
+    };
+
+    const workerCount = Math.min(options.concurrency, Math.max(hosts.length, 1));
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+    const wasCancelled = this.cancelled.has(job.id);
+    await report(wasCancelled ? 'Scan cancelled' : 'Scan complete', true);
+    await storage.updateDiscoveryJob(job.id, job.tenantId, {
+      status: wasCancelled ? 'cancelled' : 'completed',
+      progressPercent: wasCancelled ? undefined : 100,
+      completedAt: new Date(),
+      results: {
+        devicesFound: counts.snmp + counts.partial,
+        snmpDevices: counts.snmp,
+        fingerprintedDevices: counts.partial,
+        duplicates: counts.duplicates,
+      },
+    });
+
+    console.log(
+      `[Network Scan] Job ${job.jobId} ${wasCancelled ? 'cancelled' : 'completed'}: ` +
+      `${counts.snmp} SNMP, ${counts.partial} fingerprinted, ${counts.unreachable} unreachable`
+    );
+  }
+
+  /**
+   * Probe one host and record it. Returns null when nothing answered.
+   */
+  private async scanHost(
+    job: DiscoveryJob,
+    ip: string,
+    credentials: SnmpCredential[],
+    options: NetworkScanOptions
+  ): Promise<DiscoveredDevice | null> {
+    let snmpResult: SnmpProbeResult | null = null;
+    let credential: SnmpCredential | null = null;
+
+    for (const candidate of credentials) {
+      snmpResult = await probeSnmp(ip, candidate, { port: options.snmpPort, timeoutMs: options.timeoutMs });
+      if (snmpResult) {
+        credential = candidate;
+        break;
+      }
+    }
+
+    const openPorts = await scanPorts(ip, options.ports, options.timeoutMs);
+    if (!snmpResult && openPorts.length === 0) {
+      return null;
+    }
+
+    const arpCache = await readArpCache();
+    const macAddress = snmpResult?.macAddress ?? arpCache.get(ip) ?? null;
+    const oui = vendorFromMac(macAddress);
+    const portFingerprint = fingerprintPorts(openPorts);
+
+    const match = await storage.findAssetMatchForDevice(job.tenantId, {
+      serialNumber: snmpResult?.serialNumber,
+      macAddress,
+      ipAddress: ip,
+    });
+
+    return await storage.createDiscoveredDevice({
+      jobId: job.id,
+      tenantId: job.tenantId,
+      ipAddress: ip,
+      macAddress,
+      hostname: snmpResult?.sysName ?? null,
+      sysName: snmpResult?.sysName ?? null,
+      sysDescr: snmpResult?.sysDescr ?? null,
+      sysObjectID: snmpResult?.sysObjectID ?? null,
+      serialNumber: snmpResult?.serialNumber ?? null,
+      manufacturer: snmpResult?.manufacturer ?? oui?.vendor ?? null,
+      model: snmpResult?.model ?? null,
+      interfaces: snmpResult?.interfaces ?? null,
+      discoveryMethod: snmpResult ? (credential!.snmpVersion === 'v3' ? 'snmpv3' : 'snmpv2c') : 'port-fingerprint',
+      status: snmpResult ? 'discovered' : 'partial',
+      credentialProfileId: credential?.profileId ?? null,
+      openPorts,
+      portFingerprint,
+      macOui: oui?.oui ?? null,
+      isDuplicate: !!match,
+      duplicateAssetId: match?.asset.id ?? null,
+      duplicateMatchField: match?.field ?? null,
+      siteId: job.siteId,
+      siteName: job.siteName,
+      rawData: snmpResult ? { snmp: snmpResult } : null,
+    });
+  }
+
+  /**
+   * Import reviewed devices into assets. Devices matching an existing asset are
+   * skipped unless mergeDuplicates is set, in which case the asset is updated.
+   */
+  async importDevices(
+    tenantId: string,
+    request: ImportDiscoveredDevices
+  ): Promise<DiscoveryImportResult> {
+    const job = await storage.getDiscoveryJob(request.jobId, tenantId);
+    if (!job) {
+      throw new NetworkScanError('Discovery job not found', 404);
+    }
+
+    const site = request.siteId ? await storage.getSite(request.siteId, tenantId) : undefined;
+    const location = site?.name ?? request.siteName ?? job.siteName ?? null;
+    const devices = (await storage.getDiscoveredDevicesByIds(request.deviceIds, tenantId))
+      .filter(device => device.jobId === job.id);
+
+    const result: DiscoveryImportResult = { imported: [], merged: [], skipped: [] };
+    const found = new Set(devices.map(device => device.id));
+    request.deviceIds
+      .filter(id => !found.has(id))
+      .forEach(id => result.skipped.push({ deviceId: id, reason: 'Not part of this job' }));
+
+    for (const device of devices) {
+      if (device.isImported) {
+        result.skipped.push({ deviceId: device.id, reason: 'Already imported' });
+        continue;
+      }
+
+      try {
+        // Re-check at import time; assets may have changed since the scan
+        const match = await storage.findAssetMatchForDevice(tenantId, {
+          serialNumber: device.serialNumber,
+          macAddress: device.macAddress,
+          ipAddress: device.ipAddress,
+        });
+
+        let asset: Asset | undefined;
+        if (match) {
+          if (!request.mergeDuplicates) {
+            await storage.updateDiscoveredDevice(device.id, tenantId, {
+              isDuplicate: true,
+              duplicateAssetId: match.asset.id,
+              duplicateMatchField: match.field,
+            });
+            result.skipped.push({ deviceId: device.id, reason: `Matches existing asset by ${match.field}` });
+            continue;
+          }
+          asset = await storage.updateAsset(match.asset.id, tenantId, this.mergeIntoAsset(match.asset, device, job));
+          result.merged.push({ deviceId: device.id, assetId: match.asset.id });
+        } else {
+          asset = await storage.createAsset(this.toAsset(device, job, tenantId, location, request.tags));
+          result.imported.push({ deviceId: device.id, assetId: asset.id });
+        }
+
+        await storage.updateDiscoveredDevice(device.id, tenantId, {
+          isImported: true,
+          importedAt: new Date(),
+          importedAssetId: asset?.id ?? null,
+        });
+      } catch (error: any) {
+        console.warn(`[Network Scan] Failed to import device ${device.ipAddress}:`, error?.message);
+        result.skipped.push({ deviceId: device.id, reason: error?.message ?? 'Import failed' });
+      }
+    }
+
+    return result;
+  }
+
+  private discoverySpecs(device: DiscoveredDevice, job: DiscoveryJob) {
+    return {
+      network: {
+        ipAddress: device.ipAddress,
+        macAddress: device.macAddress,
+        macOui: device.macOui,
+      },
+      discovery: {
+        jobId: job.jobId,
+        method: device.discoveryMethod,
+        sysDescr: device.sysDescr,
+        sysObjectID: device.sysObjectID,
+        openPorts: device.openPorts,
+        portFingerprint: device.portFingerprint,
+        discoveredAt: device.createdAt,
+      },
+    };
+  }
+
+  private toAsset(
+    device: DiscoveredDevice,
+    job: DiscoveryJob,
+    tenantId: string,
+    location: string | null,
+    tags?: string[]
+  ): InsertAsset {
+    const tagNote = tags && tags.length > 0 ? ` Tags: ${tags.join(', ')}` : '';
+    return {
+      tenantId,
+      name: device.hostname || device.sysName || device.ipAddress,
+      type: 'Hardware',
+      category: (device.portFingerprint && FINGERPRINT_CATEGORIES[device.portFingerprint]) || 'network',
+      manufacturer: device.manufacturer,
+      model: device.model,
+      serialNumber: device.serialNumber,
+      status: 'in-stock',
+      location,
+      specifications: this.discoverySpecs(device, job),
+      notes: `Imported from network discovery job ${job.jobId}.${tagNote}`,
+    };
+  }
+
+  private mergeIntoAsset(asset: Asset, device: DiscoveredDevice, job: DiscoveryJob): Partial<InsertAsset> {
+    return {
+      // Only fill gaps; never overwrite values entered by hand
+      manufacturer: asset.manufacturer || device.manufacturer,
+      model: asset.model || device.model,
+      serialNumber: asset.serialNumber || device.serialNumber,
+      specifications: { ...((asset.specifications as Record<string, unknown> | null) ?? {}), ...this.discoverySpecs(device, job) },
+    };
+  }
+}
+
+export const networkScanService = new NetworkScanService();
@@ -0,0 +1,365 @@
+/**
+ * Network Scanner
+ *
+ * Low-level probes used by server-side discovery jobs:
+ * - Expands CIDR / range notation into host addresses
+ * - Queries SNMP v2c/v3 system, entity and interface data
+ * - Falls back to TCP port fingerprinting when SNMP does not answer
+ * - Resolves MAC addresses from the local ARP cache and vendors from the OUI
+ *
+ * Probes never throw for an unreachable host; they return null / empty results.
+ */
+
+import { promises as fs } from 'fs';
+import * as snmp from 'net-snmp';
+import { checkPort, getVendorFromOuiLocal } from '../deviceEnrichment';
+
+export const MAX_HOSTS_PER_JOB = 4096;
+
+export const DEFAULT_SCAN_PORTS = [22, 23, 80, 135, 139, 443, 445, 515, 554, 631, 3389, 8080, 9100];
+
+export interface SnmpCredential {
+  profileId?: string;
+  snmpVersion: 'v2c' | 'v3';
+  communityString?: string | null;
+  snmpV3Username?: string | null;
+  snmpV3AuthProtocol?: string | null;
+  snmpV3AuthPassword?: string | null;
+  snmpV3PrivProtocol?: string | null;
+  snmpV3PrivPassword?: string | null;
+  snmpV3SecurityLevel?: string | null;
+}
+
+export interface SnmpProbeOptions {
+  port?: number;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export interface SnmpInterface {
+  index: string;
+  description: string | null;
+  macAddress: string | null;
+}
+
+export interface SnmpProbeResult {
+  sysDescr: string | null;
+  sysObjectID: string | null;
+  sysName: string | null;
+  serialNumber: string | null;
+  manufacturer: string | null;
+  model: string | null;
+  macAddress: string | null;
+  interfaces: SnmpInterface[];
+}
+
+const OID = {
+  sysDescr: '1.3.6.1.2.1.1.1.0',
+  sysObjectID: '1.3.6.1.2.1.1.2.0',
+  sysName: '1.3.6.1.2.1.1.5.0',
+  entPhysicalSerialNum: '1.3.6.1.2.1.47.1.1.1.1.11.1',
+  entPhysicalMfgName: '1.3.6.1.2.1.47.1.1.1.1.12.1',
+  entPhysicalModelName: '1.3.6.1.2.1.47.1.1.1.1.13.1',
+  ifDescr: '1.3.6.1.2.1.2.2.1.2',
+  ifPhysAddress: '1.3.6.1.2.1.2.2.1.6',
+};
+
+const MAX_INTERFACES = 64;
+
+// IANA private enterprise numbers of common network/printer vendors
+const ENTERPRISE_VENDORS: Record<string, string> = {
+  '9': 'Cisco',
+  '11': 'HP',
+  '43': '3Com',
+  '253': 'Xerox',
+  '311': 'Microsoft',
+  '367': 'Ricoh',
+  '641': 'Lexmark',
+  '674': 'Dell',
+  '1248': 'Epson',
+  '1588': 'Brocade',
+  '1602': 'Canon',
+  '2011': 'Huawei',
+  '2435': 'Brother',
+  '2636': 'Juniper',
+  '4526': 'Netgear',
+  '6574': 'Synology',
+  '6876': 'VMware',
+  '8072': 'Net-SNMP',
+  '11863': 'TP-Link',
+  '12356': 'Fortinet',
+  '14823': 'Aruba',
+  '14988': 'MikroTik',
+  '24681': 'QNAP',
+  '25461': 'Palo Alto Networks',
+  '25506': 'H3C',
+  '41112': 'Ubiquiti',
+};
+
+function ipToInt(ip: string): number {
+  const parts = ip.split('.').map(Number);
+  if (parts.length !== 4 || parts.some(part => !Number.isInteger(part) || part < 0 || part > 255)) {
+    throw new Error(`Invalid IPv4 address: ${ip}`);
+  }
+  return ((parts[0] << 24) >>> 0) + (parts[1] << 16) + (parts[2] << 8) + parts[3];
+}
+
+function intToIp(value: number): string {
+  return [value >>> 24, (value >>> 16) & 255, (value >>> 8) & 255, value & 255].join('.');
+}
+
+/**
+ * Expand "10.0.0.0/24", "10.0.0.5" or "10.0.0.10-20" into host addresses.
+ * Network and broadcast addresses are skipped for prefixes shorter than /31.
+ */
+export function expandNetworkRange(range: string, limit: number = MAX_HOSTS_PER_JOB): string[] {
+  const value = range.trim();
+  let first: number;
+  let last: number;
+
+  if (value.includes('/')) {
+    const [base, prefixText] = value.split('/');
+    const prefix = Number(prefixText);
+    if (!Number.isInteger(prefix) || prefix < 0 || prefix > 32) {
+      throw new Error(`Invalid CIDR prefix: ${value}`);
+    }
+    const mask = prefix === 0 ? 0 : (0xffffffff << (32 - prefix)) >>> 0;
+    const network = (ipToInt(base) & mask) >>> 0;
+    const broadcast = (network | (~mask >>> 0)) >>> 0;
+    first = prefix < 31 ? network + 1 : network;
+    last = prefix < 31 ? broadcast - 1 : broadcast;
+  } else if (value.includes('-')) {
+    const [start, end] = value.split('-');
+    first = ipToInt(start.trim());
+    const endText = end.trim();
+    last = endText.includes('.')
+      ? ipToInt(endText)
+      : ((first & 0xffffff00) >>> 0) + Number(endText);
+    if (!Number.isInteger(last) || last < first || last - first > 0xffff) {
+      throw new Error(`Invalid address range: ${value}`);
+    }
+  } else {
+    first = last = ipToInt(value);
+  }
+
+  if (last - first + 1 > limit) {
+    throw new Error(`Range ${value} has ${last - first + 1} hosts; the limit per job is ${limit}`);
+  }
+
+  const hosts: string[] = [];
+  for (let address = first; address <= last; address++) {
+    hosts.push(intToIp(address));
+  }
+  return hosts;
+}
+
+/**
+ * Expand several ranges into a de-duplicated host list, enforcing the job limit
+ */
+export function expandNetworkRanges(ranges: string[], limit: number = MAX_HOSTS_PER_JOB): string[] {
+  const seen = new Set<string>();
+  const hosts: string[] = [];
+  ranges.forEach(range => {
+    expandNetworkRange(range, limit).forEach(host => {
+      if (!seen.has(host)) {
+        seen.add(host);
+        hosts.push(host);
+      }
+    });
+    if (hosts.length > limit) {
+      throw new Error(`Scan covers more than ${limit} hosts; narrow the network ranges`);
+    }
+  });
+  return hosts;
+}
+
+export function formatMacAddress(value: unknown): string | null {
+  let bytes: number[] | null = null;
+  if (Buffer.isBuffer(value)) {
+    bytes = Array.from(value.values());
+  } else if (typeof value === 'string') {
+    const hex = value.replace(/[^0-9a-f]/gi, '');
+    if (hex.length === 12) {
+      bytes = hex.match(/../g)!.map(pair => parseInt(pair, 16));
+    }
+  }
+  if (!bytes || bytes.length !== 6 || bytes.every(b => b === 0)) return null;
+  return bytes.map(b => b.toString(16).padStart(2, '0')).join(':');
+}
+
+export function vendorFromSysObjectId(sysObjectID: string | null): string | null {
+  const match = sysObjectID?.match(/^1\.3\.6\.1\.4\.1\.(\d+)/);
+  return match ? ENTERPRISE_VENDORS[match[1]] ?? null : null;
+}
+
+export function vendorFromMac(macAddress: string | null): { oui: string; vendor: string | null } | null {
+  if (!macAddress) return null;
+  const oui = macAddress.replace(/[:-]/g, '').substring(0, 6).toUpperCase();
+  return { oui, vendor: getVendorFromOuiLocal(oui) };
+}
+
+function varbindText(varbind: snmp.Varbind | undefined): string | null {
+  if (!varbind || snmp.isVarbindError(varbind) || varbind.value === null || varbind.value === undefined) {
+    return null;
+  }
+  const text = Buffer.isBuffer(varbind.value) ? varbind.value.toString('utf8') : String(varbind.value);
+  const trimmed = text.replace(/\0/g, '').trim();
+  return trimmed || null;
+}
+
+function createSnmpSession(ip: string, credential: SnmpCredential, options: SnmpProbeOptions): snmp.Session {
+  const sessionOptions = {
+    port: options.port ?? 161,
+    timeout: options.timeoutMs ?? 1500,
+    retries: options.retries ?? 1,
+  };
+
+  if (credential.snmpVersion === 'v3') {
+    const level = credential.snmpV3SecurityLevel === 'authPriv'
+      ? snmp.SecurityLevel.authPriv
+      : credential.snmpV3SecurityLevel === 'authNoPriv'
+        ? snmp.SecurityLevel.authNoPriv
+        : snmp.SecurityLevel.noAuthNoPriv;
+
+    const user: snmp.User = { name: credential.snmpV3Username || '', level };
+    if (level !== snmp.SecurityLevel.noAuthNoPriv) {
+      user.authProtocol = credential.snmpV3AuthProtocol === 'MD5' ? snmp.AuthProtocols.md5 : snmp.AuthProtocols.sha;
+      user.authKey = credential.snmpV3AuthPassword || '';
+    }
+    if (level === snmp.SecurityLevel.authPriv) {
+      user.privProtocol = credential.snmpV3PrivProtocol === 'DES' ? snmp.PrivProtocols.des : snmp.PrivProtocols.aes;
+      user.privKey = credential.snmpV3PrivPassword || '';
+    }
+    return snmp.createV3Session(ip, user, { ...sessionOptions, version: snmp.Version3 });
+  }
+
+  return snmp.createSession(ip, credential.communityString || 'public', { ...sessionOptions, version: snmp.Version2c });
+}
+
+function snmpGet(session: snmp.Session, oids: string[]): Promise<snmp.Varbind[] | null> {
+  return new Promise(resolve => {
+    session.get(oids, (error, varbinds) => resolve(error ? null : varbinds ?? []));
+  });
+}
+
+function snmpWalk(session: snmp.Session, oid: string, limit: number): Promise<snmp.Varbind[]> {
+  return new Promise(resolve => {
+    const collected: snmp.Varbind[] = [];
+    session.subtree(
+      oid,
+      20,
+      (varbinds: snmp.Varbind[]) => {
+        // Some agents answer GETBULK past the end of a table with error varbinds
+        // that repeat the requested OID; stop there rather than re-requesting it
+        const end = varbinds.findIndex(varbind => snmp.isVarbindError(varbind));
+        (end === -1 ? varbinds : varbinds.slice(0, end)).forEach(varbind => {
+          if (collected.length < limit) collected.push(varbind);
+        });
+        if (end !== -1 || collected.length >= limit) return true; // stop walking
+      },
+      () => resolve(collected)
+    );
+  });
+}
+
+/**
+ * Query a host over SNMP with one credential. Returns null when the agent does
+ * not answer or rejects the credential.
+ */
+export async function probeSnmp(
+  ip: string,
+  credential: SnmpCredential,
+  options: SnmpProbeOptions = {}
+): Promise<SnmpProbeResult | null> {
+  let session: snmp.Session;
+  try {
+    session = createSnmpSession(ip, credential, options);
+  } catch (error) {
+    console.warn(`[Network Scanner] Could not open SNMP session to ${ip}:`, error);
+    return null;
+  }
+  // Session is an EventEmitter at runtime (not in its typings); socket errors
+  // are emitted rather than passed to request callbacks
+  (session as unknown as NodeJS.EventEmitter).on('error', () => undefined);
+
+  try {
+    const system = await snmpGet(session, [OID.sysDescr, OID.sysObjectID, OID.sysName]);
+    if (!system || system.every(varbind => snmp.isVarbindError(varbind))) {
+      return null;
+    }
+
+    const entity = await snmpGet(session, [OID.entPhysicalSerialNum, OID.entPhysicalMfgName, OID.entPhysicalModelName]);
+    const descriptions = await snmpWalk(session, OID.ifDescr, MAX_INTERFACES);
+    const addresses = await snmpWalk(session, OID.ifPhysAddress, MAX_INTERFACES);
+
+    const interfaces = new Map<string, SnmpInterface>();
+    descriptions.forEach(varbind => {
+      const index = varbind.oid.substring(OID.ifDescr.length + 1);
+      interfaces.set(index, { index, description: varbindText(varbind), macAddress: null });
+    });
+    addresses.forEach(varbind => {
+      const index = varbind.oid.substring(OID.ifPhysAddress.length + 1);
+      const entry = interfaces.get(index) ?? { index, description: null, macAddress: null };
+      entry.macAddress = formatMacAddress(varbind.value);
+      interfaces.set(index, entry);
+    });
+    const interfaceList = Array.from(interfaces.values());
+
+    const sysObjectID = varbindText(system[1]);
+    return {
+      sysDescr: varbindText(system[0]),
+      sysObjectID,
+      sysName: varbindText(system[2]),
+      serialNumber: varbindText(entity?.[0]),
+      manufacturer: varbindText(entity?.[1]) ?? vendorFromSysObjectId(sysObjectID),
+      model: varbindText(entity?.[2]),
+      macAddress: interfaceList.find(entry => entry.macAddress)?.macAddress ?? null,
+      interfaces: interfaceList,
+    };
+  } finally {
+    session.close();
+  }
+}
+
+/**
+ * TCP connect scan of a host; returns the open ports in ascending order
+ */
+export async function scanPorts(ip: string, ports: number[], timeoutMs: number): Promise<number[]> {
+  const results = await Promise.all(ports.map(port => checkPort(ip, port, timeoutMs)));
+  return ports.filter((_, index) => results[index]).sort((a, b) => a - b);
+}
+
+/**
+ * Classify a host from its open ports
+ */
+export function fingerprintPorts(openPorts: number[]): string | null {
+  if (openPorts.length === 0) return null;
+  const open = new Set(openPorts);
+
+  if (open.has(9100) || open.has(515) || open.has(631)) return 'printer';
+  if (open.has(554)) return 'camera';
+  if (open.has(3389) || open.has(135) || open.has(445)) return 'windows-host';
+  if (open.has(23)) return 'network-device';
+  if (open.has(22)) return open.has(80) || open.has(443) ? 'network-device' : 'linux-host';
+  if (open.has(80) || open.has(443) || open.has(8080)) return 'web-device';
+  return 'unknown';
+}
+
+/**
+ * IP -> MAC map from the server's ARP cache (Linux only; empty elsewhere).
+ * Only useful when the scanned range is on a directly attached segment.
+ */
+export async function readArpCache(): Promise<Map<string, string>> {
+  const entries = new Map<string, string>();
+  try {
+    const table = await fs.readFile('/proc/net/arp', 'utf8');
+    table.split('\n').slice(1).forEach(line => {
+      const [ip, , flags, mac] = line.trim().split(/\s+/);
+      const formatted = formatMacAddress(mac);
+      if (ip && formatted && flags !== '0x0') entries.set(ip, formatted);
+    });
+  } catch {
+    // Not available on this platform
+  }
+  return entries;
+}
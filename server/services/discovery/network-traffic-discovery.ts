@@ -525,7 +525,7 @@ export class NetworkTrafficDiscoveryService {
 
     eventSystem.emit('app.discovered', {
       tenantId: this.tenantId,
-      appName: classification.appName,
+      appName: classification.appName || domain,
       appDomain: domain,
       discoveryMethod: 'network',
       approvalStatus: 'pending',
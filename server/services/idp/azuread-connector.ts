@@ -22,6 +22,7 @@ const TOKEN_TIMEOUT_MS = 10000;  // 10 seconds for token acquisition
 const API_TIMEOUT_MS = 30000;   // 30 seconds for API calls
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 1000;
+const DEFAULT_ACCESS_APP_ROLE_ID = '00000000-0000-0000-0000-000000000000'; // Apps that declare no app roles
 
 interface AzureADServicePrincipal {
   id: string;
@@ -697,4 +698,94 @@ export class AzureADConnector extends IdPConnector {
       throw new Error(`Failed to remove app role assignments: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
+
+  /**
+   * Add user to a group
+   */
+  async addUserToGroup(userEmail: string, groupId: string): Promise<void> {
+    try {
+      const token = await this.getAccessToken();
+
+      // Get user ID from email
+      const userResponse = await axios.get(
+        `${this.graphBaseUrl}/users/${encodeURIComponent(userEmail)}`,
+        {
+          headers: { Authorization: `Bearer ${token}` },
+          timeout: API_TIMEOUT_MS,
+        }
+      );
+      const userId = userResponse.data.id;
+
+      try {
+        await axios.post(
+          `${this.graphBaseUrl}/groups/${encodeURIComponent(groupId)}/members/$ref`,
+          { '@odata.id': `${this.graphBaseUrl}/directoryObjects/${userId}` },
+          {
+            headers: { Authorization: `Bearer ${token}` },
+            timeout: API_TIMEOUT_MS,
+          }
+        );
+      } catch (error) {
+        // Graph rejects adding an existing member with 400 "One or more added object references already exist"
+        const message = axios.isAxiosError(error) ? JSON.stringify(error.response?.data ?? '') : '';
+        if (!message.includes('already exist')) throw error;
+      }
+
+      console.log(`[AzureAD] Added user ${userEmail} to group ${groupId}`);
+    } catch (error) {
+      console.error(`[AzureAD] Error adding user to group:`, error);
+      throw new Error(`Failed to add user to group: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Assign user to an enterprise app, with a specific app role or the app's default access
+   */
+  async assignAppRole(userEmail: string, appName: string, appRoleId?: string): Promise<{ assignmentsCreated: number }> {
+    try {
+      const token = await this.getAccessToken();
+
+      // Get user ID from email
+      const userResponse = await axios.get(
+        `${this.graphBaseUrl}/users/${encodeURIComponent(userEmail)}`,
+        {
+          headers: { Authorization: `Bearer ${token}` },
+          timeout: API_TIMEOUT_MS,
+        }
+      );
+      const userId = userResponse.data.id;
+
+      // Find the app's service principal
+      const appResponse = await axios.get(
+        `${this.graphBaseUrl}/servicePrincipals?$filter=displayName eq '${encodeURIComponent(appName)}'`,
+        {
+          headers: { Authorization: `Bearer ${token}` },
+          timeout: API_TIMEOUT_MS,
+        }
+      );
+      const servicePrincipal = appResponse.data.value?.[0];
+      if (!servicePrincipal) {
+        throw new Error(`Enterprise app not found: ${appName}`);
+      }
+
+      await axios.post(
+        `${this.graphBaseUrl}/users/${userId}/appRoleAssignments`,
+        {
+          principalId: userId,
+          resourceId: servicePrincipal.id,
+          appRoleId: appRoleId || DEFAULT_ACCESS_APP_ROLE_ID,
+        },
+        {
+          headers: { Authorization: `Bearer ${token}` },
+          timeout: API_TIMEOUT_MS,
+        }
+      );
+
+      console.log(`[AzureAD] Assigned user ${userEmail} to app ${appName}`);
+      return { assignmentsCreated: 1 };
+    } catch (error) {
+      console.error(`[AzureAD] Error assigning app role:`, error);
+      throw new Error(`Failed to assign app role: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 }
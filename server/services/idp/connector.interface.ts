@@ -2,9 +2,14 @@
  * IdP Connector Framework
  *
  * Common interface for all identity provider integrations.
- * Supports Azure AD, Google Workspace, Okta, and other IdPs.
+ * Supports Azure AD, Google Workspace, Okta, Keycloak, JumpCloud,
+ * OneLogin and LDAP/Active Directory.
  */
 
+import crypto from 'crypto';
+import { storage } from '../../storage';
+import { hashPassword } from '../auth';
+
 export interface IdPConnectorConfig {
   clientId: string;
   clientSecret: string;
@@ -41,6 +46,14 @@ export interface DiscoveredOAuthToken {
   tokenHash?: string;          // Hashed token if available (never plaintext)
 }
 
+export interface DirectoryUserProfile {
+  email: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  department?: string | null;
+  jobTitle?: string | null;
+}
+
 export interface SyncResult {
   success: boolean;
   appsDiscovered: number;
@@ -90,6 +103,55 @@ export abstract class IdPConnector {
    */
   abstract syncUsers(): Promise<{ usersAdded: number; usersUpdated: number }>;
 
+  /**
+   * Remove a user from every group the connector can manage (offboarding)
+   */
+  abstract removeUserFromAllGroups(userEmail: string): Promise<number>;
+
+  /**
+   * Create or update a local user from a directory profile.
+   * Users whose email already belongs to another tenant are skipped.
+   */
+  protected async upsertDirectoryUser(profile: DirectoryUserProfile): Promise<'added' | 'updated' | 'skipped'> {
+    const email = profile.email.toLowerCase();
+    const existingUser = await storage.getUserByEmail(email, this.tenantId);
+
+    if (existingUser) {
+      await storage.updateUser(existingUser.id, {
+        firstName: profile.firstName || existingUser.firstName,
+        lastName: profile.lastName || existingUser.lastName,
+        department: profile.department || existingUser.department,
+        jobTitle: profile.jobTitle || existingUser.jobTitle,
+      });
+      return 'updated';
+    }
+
+    if (await storage.getUserByEmail(email)) {
+      return 'skipped';
+    }
+
+    const base = email.split('@')[0].replace(/[^a-z0-9._-]/g, '') || 'user';
+    let username = base;
+    for (let suffix = 1; await storage.getUserByUsername(username); suffix++) {
+      username = `${base}${suffix}`;
+    }
+
+    await storage.createUser({
+      tenantId: this.tenantId,
+      username,
+      email,
+      // Directory users sign in through SSO; store an unguessable hash
+      password: await hashPassword(crypto.randomBytes(32).toString('hex')),
+      firstName: profile.firstName || email.split('@')[0],
+      lastName: profile.lastName || '',
+      department: profile.department || null,
+      jobTitle: profile.jobTitle || null,
+      role: 'technician',
+      isActive: true,
+    });
+    return 'added';
+  }
+
   /**
    * Perform full synchronization
    */
@@ -137,6 +199,16 @@ export abstract class IdPConnector {
         errors.push(`User sync warning: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
 
+      // 6. Verify access review revocations against what this sync still reports (optional)
+      let revocationVerification;
+      try {
+        const { RevocationVerifier } = await import('../access-review/revocation-verifier');
+        revocationVerification = await new RevocationVerifier(this.tenantId).verifyAgainstSync(this.idpId, apps, userAccess);
+      } catch (error) {
+        console.warn(`[${this.constructor.name}] Revocation verification failed (non-critical):`, error);
+        errors.push(`Revocation verification warning: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
       const syncDuration = Date.now() - startTime;
 
       return {
@@ -149,7 +221,8 @@ export abstract class IdPConnector {
         metadata: {
           apps,
           userAccess,
-          tokens
+          tokens,
+          revocationVerification
         }
       };
     } catch (error) {
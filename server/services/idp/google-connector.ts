@@ -414,6 +414,31 @@ export class GoogleWorkspaceConnector extends IdPConnector {
     }
   }
 
+  /**
+   * Add user to a group. Google Workspace has no per-user app assignment API, so SAML and
+   * OAuth app access is granted through group membership.
+   */
+  async addUserToGroup(userEmail: string, groupId: string): Promise<void> {
+    try {
+      const auth = await this.getAuth();
+      const admin = google.admin({ version: 'directory_v1', auth });
+
+      try {
+        await admin.members.insert({
+          groupKey: groupId,
+          requestBody: { email: userEmail, role: 'MEMBER' },
+        });
+      } catch (error: any) {
+        if (error?.code !== 409) throw error; // Already a member
+      }
+
+      console.log(`[Google] Added user ${userEmail} to group ${groupId}`);
+    } catch (error) {
+      console.error(`[Google] Error adding user to group:`, error);
+      throw new Error(`Failed to add user to group: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Remove user from all groups
    */
@@ -0,0 +1,79 @@
+/**
+ * IdP HTTP Client
+ *
+ * Shared fetch wrapper for REST-based directory connectors:
+ * - Per-request timeout
+ * - Exponential backoff on 5xx, 429 and timeouts
+ * - Parsed JSON bodies (null for empty responses)
+ */
+
+const API_TIMEOUT_MS = 30000;   // 30 seconds for API calls
+const MAX_RETRIES = 3;
+const RETRY_DELAY_MS = 1000;
+
+export class IdPApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'IdPApiError';
+  }
+}
+
+export interface IdPResponse<T> {
+  data: T;
+  headers: Headers;
+}
+
+/**
+ * Perform an API request with timeout and retry logic
+ */
+export async function idpRequest<T = any>(
+  label: string,
+  url: string,
+  options: RequestInit = {}
+): Promise<IdPResponse<T>> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), API_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(url, {
+        ...options,
+        headers: {
+          'Accept': 'application/json',
+          ...options.headers,
+        },
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        throw new IdPApiError(`${label} API error: ${response.status} ${response.statusText}`, response.status);
+      }
+
+      const text = response.status === 204 ? '' : await response.text();
+      return { data: (text ? JSON.parse(text) : null) as T, headers: response.headers };
+    } catch (error: any) {
+      clearTimeout(timeoutId);
+
+      if (error.name === 'AbortError') {
+        console.warn(`[${label}] Request timeout (attempt ${attempt + 1}/${MAX_RETRIES + 1}): ${url}`);
+        lastError = new Error(`${label} API timeout after ${API_TIMEOUT_MS}ms`);
+      } else if (error instanceof IdPApiError && (error.status >= 500 || error.status === 429)) {
+        console.warn(`[${label}] Server error (attempt ${attempt + 1}/${MAX_RETRIES + 1}): ${error.message}`);
+        lastError = error;
+      } else {
+        // Don't retry on 4xx errors or network failures
+        throw error;
+      }
+
+      if (attempt < MAX_RETRIES) {
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * Math.pow(2, attempt)));
+      }
+    }
+  }
+
+  throw lastError || new Error(`${label} API call failed after retries`);
+}
@@ -0,0 +1,335 @@
+/**
+ * JumpCloud Connector
+ *
+ * Connects to the JumpCloud Directory API to discover:
+ * - SSO applications and the users bound to them (directly or via groups)
+ * - User directory
+ *
+ * And to remove users from user groups during offboarding.
+ */
+
+import {
+  IdPConnector,
+  IdPConnectorConfig,
+  DiscoveredApp,
+  DiscoveredUserAccess,
+  DiscoveredOAuthToken
+} from './connector.interface';
+import { idpRequest, IdPApiError } from './http-client';
+
+const JUMPCLOUD_API_URL = 'https://console.jumpcloud.com/api';
+const PAGE_SIZE = 100;
+const MAX_PAGES = 100;
+
+interface JumpCloudUser {
+  _id: string;
+  username: string;
+  email: string;
+  firstname?: string;
+  lastname?: string;
+  department?: string;
+  jobTitle?: string;
+  activated?: boolean;
+  suspended?: boolean;
+  state?: string;
+  created?: string;
+}
+
+interface JumpCloudApplication {
+  _id: string;
+  name: string;
+  displayName?: string;
+  displayLabel?: string;
+  ssoUrl?: string;
+  active?: boolean;
+  logo?: { url?: string };
+  created?: string;
+}
+
+interface JumpCloudGraphNode {
+  id: string;
+  type: string;
+  paths?: Array<Array<{ to: { id: string; type: string } }>>;
+}
+
+/**
+ * JumpCloud Connector
+ *
+ * The API key is stored as the provider's client secret. For multi-tenant
+ * (MTP) admin keys the organization ID goes in the client ID field.
+ */
+export class JumpCloudConnector extends IdPConnector {
+  constructor(config: IdPConnectorConfig, tenantId: string, idpId: string) {
+    super(config, tenantId, idpId);
+
+    if (!config.clientSecret) {
+      throw new Error('JumpCloud configuration requires an API key');
+    }
+  }
+
+  private async apiCall<T = any>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const { data } = await idpRequest<T>('JumpCloud', `${JUMPCLOUD_API_URL}${endpoint}`, {
+      ...options,
+      headers: {
+        'x-api-key': this.config.clientSecret,
+        'Content-Type': 'application/json',
+        ...(this.config.clientId ? { 'x-org-id': this.config.clientId } : {}),
+        ...options.headers,
+      },
+    });
+    return data;
+  }
+
+  /**
+   * Page through a v1 list endpoint ({ totalCount, results })
+   */
+  private async listV1<T = any>(endpoint: string): Promise<T[]> {
+    const results: T[] = [];
+    const separator = endpoint.includes('?') ? '&' : '?';
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const batch = await this.apiCall<{ totalCount: number; results: T[] }>(
+        `${endpoint}${separator}limit=${PAGE_SIZE}&skip=${page * PAGE_SIZE}`
+      );
+      results.push(...(batch?.results || []));
+      if (!batch || results.length >= batch.totalCount || batch.results.length < PAGE_SIZE) {
+        return results;
+      }
+    }
+
+    console.warn(`[JumpCloud] Pagination limit reached (${MAX_PAGES} pages) for endpoint: ${endpoint}`);
+    return results;
+  }
+
+  /**
+   * Page through a v2 graph endpoint (plain arrays)
+   */
+  private async listV2<T = any>(endpoint: string): Promise<T[]> {
+    const results: T[] = [];
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const batch = await this.apiCall<T[]>(`${endpoint}?limit=${PAGE_SIZE}&skip=${page * PAGE_SIZE}`);
+      results.push(...(batch || []));
+      if (!batch || batch.length < PAGE_SIZE) {
+        return results;
+      }
+    }
+
+    console.warn(`[JumpCloud] Pagination limit reached (${MAX_PAGES} pages) for endpoint: ${endpoint}`);
+    return results;
+  }
+
+  /**
+   * Test connection to JumpCloud
+   */
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.apiCall('/systemusers?limit=1');
+      console.log('[JumpCloud] Connection test successful');
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private async getActiveUsers(): Promise<JumpCloudUser[]> {
+    const users = await this.listV1<JumpCloudUser>('/systemusers');
+    return users.filter(user => !user.suspended && user.state !== 'SUSPENDED' && user.activated !== false);
+  }
+
+  private async getActiveApplications(): Promise<JumpCloudApplication[]> {
+    const applications = await this.listV1<JumpCloudApplication>('/applications');
+    return applications.filter(app => app.active !== false);
+  }
+
+  /**
+   * Discover SSO applications
+   */
+  async discoverApps(): Promise<DiscoveredApp[]> {
+    try {
+      console.log('[JumpCloud] Starting app discovery...');
+
+      const applications = await this.getActiveApplications();
+      const discoveredApps: DiscoveredApp[] = applications.map(app => ({
+        externalId: app._id,
+        name: app.displayLabel || app.displayName || app.name,
+        logoUrl: app.logo?.url,
+        websiteUrl: app.ssoUrl,
+        permissions: [],
+        metadata: {
+          connector: app.name,
+        }
+      }));
+
+      console.log(`[JumpCloud] Discovered ${discoveredApps.length} apps`);
+      return discoveredApps;
+    } catch (error) {
+      console.error('[JumpCloud] Error discovering apps:', error);
+      throw new Error(`Failed to discover JumpCloud apps: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Discover users bound to each application
+   */
+  async discoverUserAccess(): Promise<DiscoveredUserAccess[]> {
+    try {
+      console.log('[JumpCloud] Starting user access discovery...');
+
+      const users = await this.getActiveUsers();
+      const userById = new Map(users.map(user => [user._id, user]));
+      const userAccessList: DiscoveredUserAccess[] = [];
+
+      for (const app of await this.getActiveApplications()) {
+        const bound = await this.listV2<JumpCloudGraphNode>(`/v2/applications/${app._id}/users`);
+
+        for (const node of bound) {
+          const user = userById.get(node.id);
+          if (!user?.email) continue;
+
+          // A single-hop path is a direct binding; longer paths come through user groups
+          const direct = (node.paths || []).some(path => path.length === 1);
+          userAccessList.push({
+            userId: user.email,
+            appExternalId: app._id,
+            permissions: direct ? ['direct'] : ['group'],
+            grantedDate: new Date(user.created || app.created || Date.now()),
+          });
+        }
+      }
+
+      console.log(`[JumpCloud] Discovered ${userAccessList.length} user access grants`);
+      return userAccessList;
+    } catch (error) {
+      console.error('[JumpCloud] Error discovering user access:', error);
+      throw new Error(`Failed to discover user access: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * JumpCloud does not expose end-user OAuth grants
+   */
+  async discoverOAuthTokens(): Promise<DiscoveredOAuthToken[]> {
+    console.log('[JumpCloud] OAuth grant discovery not supported by the Directory API');
+    return [];
+  }
+
+  /**
+   * Sync users from JumpCloud
+   */
+  async syncUsers(): Promise<{ usersAdded: number; usersUpdated: number }> {
+    try {
+      console.log('[JumpCloud] Starting user sync...');
+      let usersAdded = 0;
+      let usersUpdated = 0;
+
+      const jumpCloudUsers = await this.getActiveUsers();
+      console.log(`[JumpCloud] Found ${jumpCloudUsers.length} active users`);
+
+      for (const jumpCloudUser of jumpCloudUsers) {
+        try {
+          if (!jumpCloudUser.email) {
+            console.log(`[JumpCloud] Skipping user without email: ${jumpCloudUser.username}`);
+            continue;
+          }
+
+          const outcome = await this.upsertDirectoryUser({
+            email: jumpCloudUser.email,
+            firstName: jumpCloudUser.firstname,
+            lastName: jumpCloudUser.lastname,
+            department: jumpCloudUser.department,
+            jobTitle: jumpCloudUser.jobTitle,
+          });
+          if (outcome === 'added') usersAdded++;
+          if (outcome === 'updated') usersUpdated++;
+        } catch (userError) {
+          console.error(`[JumpCloud] Error syncing user ${jumpCloudUser.email}:`, userError);
+        }
+      }
+
+      console.log(`[JumpCloud] User sync complete: ${usersAdded} added, ${usersUpdated} updated`);
+      return { usersAdded, usersUpdated };
+    } catch (error) {
+      console.error('[JumpCloud] Error syncing users:', error);
+      throw new Error(`Failed to sync JumpCloud users: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async findUser(userEmail: string): Promise<JumpCloudUser> {
+    const matches = await this.apiCall<{ results: JumpCloudUser[] }>(
+      `/systemusers?filter=${encodeURIComponent(`email:$eq:${userEmail}`)}&limit=1`
+    );
+    const user = matches?.results?.[0];
+    if (!user) {
+      throw new Error(`User not found: ${userEmail}`);
+    }
+    return user;
+  }
+
+  /**
+   * Get user groups the user is a direct member of
+   */
+  async getUserGroups(userEmail: string): Promise<Array<{ id: string; displayName: string }>> {
+    try {
+      const user = await this.findUser(userEmail);
+      const memberships = await this.listV2<JumpCloudGraphNode>(`/v2/users/${user._id}/memberof`);
+
+      // Nested memberships are removed by leaving the direct parent group
+      const groups = memberships
+        .filter(node => node.type === 'user_group' && (node.paths || []).some(path => path.length === 1))
+        .map(node => ({ id: node.id, displayName: node.id }));
+
+      console.log(`[JumpCloud] Found ${groups.length} groups for user ${userEmail}`);
+      return groups;
+    } catch (error) {
+      console.error(`[JumpCloud] Error getting user groups:`, error);
+      throw new Error(`Failed to get user groups: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Remove user from a user group
+   */
+  async removeUserFromGroup(userEmail: string, groupId: string): Promise<void> {
+    try {
+      const user = await this.findUser(userEmail);
+      await this.apiCall(`/v2/usergroups/${encodeURIComponent(groupId)}/members`, {
+        method: 'POST',
+        body: JSON.stringify({ op: 'remove', type: 'user', id: user._id }),
+      });
+      console.log(`[JumpCloud] Removed user ${userEmail} from group ${groupId}`);
+    } catch (error) {
+      if (error instanceof IdPApiError && error.status === 404) return; // Already removed
+      console.error(`[JumpCloud] Error removing user from group:`, error);
+      throw new Error(`Failed to remove user from group: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Remove user from all user groups
+   */
+  async removeUserFromAllGroups(userEmail: string): Promise<number> {
+    try {
+      const groups = await this.getUserGroups(userEmail);
+
+      let removedCount = 0;
+      for (const group of groups) {
+        try {
+          await this.removeUserFromGroup(userEmail, group.id);
+          removedCount++;
+        } catch (error) {
+          console.warn(`[JumpCloud] Failed to remove user from group ${group.displayName}:`, error);
+        }
+      }
+
+      console.log(`[JumpCloud] Removed user ${userEmail} from ${removedCount} groups`);
+      return removedCount;
+    } catch (error) {
+      console.error(`[JumpCloud] Error removing user from all groups:`, error);
+      throw new Error(`Failed to remove user from all groups: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,401 @@
+/**
+ * Keycloak Connector
+ *
+ * Connects to the Keycloak Admin REST API to discover:
+ * - Realm clients (applications) and client role holders
+ * - User consents granted to clients
+ * - User directory
+ *
+ * Uses a confidential client with a service account holding the
+ * realm-management roles view-users, view-clients and manage-users.
+ */
+
+import {
+  IdPConnector,
+  IdPConnectorConfig,
+  DiscoveredApp,
+  DiscoveredUserAccess,
+  DiscoveredOAuthToken
+} from './connector.interface';
+import { idpRequest, IdPApiError } from './http-client';
+
+const PAGE_SIZE = 100;
+const MAX_PAGES = 100;
+
+// Clients every realm ships with; not applications users sign in to
+const BUILT_IN_CLIENTS = new Set([
+  'account',
+  'account-console',
+  'admin-cli',
+  'broker',
+  'realm-management',
+  'security-admin-console',
+]);
+
+interface KeycloakClient {
+  id: string;
+  clientId: string;
+  name?: string;
+  description?: string;
+  rootUrl?: string;
+  baseUrl?: string;
+  enabled: boolean;
+  protocol?: string;
+  publicClient?: boolean;
+}
+
+interface KeycloakUser {
+  id: string;
+  username: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  enabled: boolean;
+  createdTimestamp?: number;
+  attributes?: Record<string, string[]>;
+}
+
+interface KeycloakConsent {
+  clientId: string;
+  grantedClientScopes?: Array<{ name: string }>;
+  createdDate: number;
+  lastUpdatedDate?: number;
+}
+
+/**
+ * Keycloak Connector
+ *
+ * tenantDomain holds the realm URL, e.g. https://sso.example.com/realms/acme
+ * (the realm may instead be supplied as customConfig.realm).
+ */
+export class KeycloakConnector extends IdPConnector {
+  private readonly serverUrl: string;
+  private readonly realm: string;
+  private accessToken: string | null = null;
+  private tokenExpiry: Date | null = null;
+
+  constructor(config: IdPConnectorConfig, tenantId: string, idpId: string) {
+    super(config, tenantId, idpId);
+
+    if (!config.tenantDomain || !config.clientId || !config.clientSecret) {
+      throw new Error('Keycloak configuration requires realm URL, client ID and client secret');
+    }
+
+    let url: URL;
+    try {
+      url = new URL(config.tenantDomain);
+    } catch {
+      throw new Error('Invalid Keycloak realm URL');
+    }
+    if (url.protocol !== 'https:' && url.hostname !== 'localhost') {
+      throw new Error('Keycloak realm URL must use HTTPS');
+    }
+
+    const match = url.pathname.match(/^(.*?)\/realms\/([^/]+)\/?$/);
+    const realm = match ? decodeURIComponent(match[2]) : config.customConfig?.realm;
+    if (!realm) {
+      throw new Error('Keycloak realm is required (https://host/realms/<realm>)');
+    }
+
+    this.serverUrl = `${url.origin}${match ? match[1] : url.pathname.replace(/\/+$/, '')}`;
+    this.realm = realm;
+  }
+
+  /**
+   * Obtain an admin API token via client credentials
+   */
+  private async authenticate(): Promise<string> {
+    if (this.accessToken && this.tokenExpiry && this.tokenExpiry > new Date()) {
+      return this.accessToken;
+    }
+
+    const { data } = await idpRequest<{ access_token: string; expires_in: number }>(
+      'Keycloak',
+      `${this.serverUrl}/realms/${encodeURIComponent(this.realm)}/protocol/openid-connect/token`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'client_credentials',
+          client_id: this.config.clientId,
+          client_secret: this.config.clientSecret,
+        }).toString(),
+      }
+    );
+
+    this.accessToken = data.access_token;
+    // Refresh a little before Keycloak expires the token
+    this.tokenExpiry = new Date(Date.now() + Math.max(data.expires_in - 30, 10) * 1000);
+    return this.accessToken;
+  }
+
+  private async apiCall<T = any>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const token = await this.authenticate();
+    const { data } = await idpRequest<T>(
+      'Keycloak',
+      `${this.serverUrl}/admin/realms/${encodeURIComponent(this.realm)}${endpoint}`,
+      {
+        ...options,
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+          ...options.headers,
+        },
+      }
+    );
+    return data;
+  }
+
+  /**
+   * Page through a list endpoint using first/max parameters
+   */
+  private async apiCallPaginated<T = any>(endpoint: string): Promise<T[]> {
+    const results: T[] = [];
+    const separator = endpoint.includes('?') ? '&' : '?';
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const batch = await this.apiCall<T[]>(`${endpoint}${separator}first=${page * PAGE_SIZE}&max=${PAGE_SIZE}`);
+      results.push(...(batch || []));
+      if (!batch || batch.length < PAGE_SIZE) {
+        return results;
+      }
+    }
+
+    console.warn(`[Keycloak] Pagination limit reached (${MAX_PAGES} pages) for endpoint: ${endpoint}`);
+    return results;
+  }
+
+  /**
+   * Test connection to Keycloak
+   */
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.apiCall<number>('/users/count');
+      console.log(`[Keycloak] Connection test successful: realm ${this.realm}`);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private async getApplicationClients(): Promise<KeycloakClient[]> {
+    const clients = await this.apiCallPaginated<KeycloakClient>('/clients');
+    return clients.filter(client => client.enabled && !BUILT_IN_CLIENTS.has(client.clientId));
+  }
+
+  private async getEnabledUsers(): Promise<KeycloakUser[]> {
+    const users = await this.apiCallPaginated<KeycloakUser>('/users?briefRepresentation=false');
+    return users.filter(user => user.enabled);
+  }
+
+  /**
+   * Discover realm clients
+   */
+  async discoverApps(): Promise<DiscoveredApp[]> {
+    try {
+      console.log('[Keycloak] Starting app discovery...');
+
+      const clients = await this.getApplicationClients();
+      const discoveredApps: DiscoveredApp[] = clients.map(client => ({
+        externalId: client.clientId,
+        name: client.name || client.clientId,
+        websiteUrl: client.baseUrl?.startsWith('http') ? client.baseUrl : client.rootUrl || undefined,
+        permissions: [],
+        metadata: {
+          id: client.id,
+          description: client.description,
+          protocol: client.protocol,
+          publicClient: client.publicClient,
+        }
+      }));
+
+      console.log(`[Keycloak] Discovered ${discoveredApps.length} apps`);
+      return discoveredApps;
+    } catch (error) {
+      console.error('[Keycloak] Error discovering apps:', error);
+      throw new Error(`Failed to discover Keycloak apps: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Discover client role holders; each role becomes a permission
+   */
+  async discoverUserAccess(): Promise<DiscoveredUserAccess[]> {
+    try {
+      console.log('[Keycloak] Starting user access discovery...');
+
+      const accessByKey = new Map<string, DiscoveredUserAccess>();
+
+      for (const client of await this.getApplicationClients()) {
+        const roles = await this.apiCall<Array<{ name: string }>>(`/clients/${client.id}/roles`);
+
+        for (const role of roles || []) {
+          const holders = await this.apiCallPaginated<KeycloakUser>(
+            `/clients/${client.id}/roles/${encodeURIComponent(role.name)}/users`
+          );
+
+          for (const holder of holders.filter(user => user.enabled && user.email)) {
+            const key = `${holder.id}:${client.clientId}`;
+            const access = accessByKey.get(key) || {
+              userId: holder.email!,
+              appExternalId: client.clientId,
+              permissions: [],
+              grantedDate: new Date(holder.createdTimestamp || Date.now()),
+            };
+            access.permissions.push(role.name);
+            accessByKey.set(key, access);
+          }
+        }
+      }
+
+      const userAccessList = Array.from(accessByKey.values());
+      console.log(`[Keycloak] Discovered ${userAccessList.length} user access grants`);
+      return userAccessList;
+    } catch (error) {
+      console.error('[Keycloak] Error discovering user access:', error);
+      throw new Error(`Failed to discover user access: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Discover consents users have granted to clients
+   */
+  async discoverOAuthTokens(): Promise<DiscoveredOAuthToken[]> {
+    try {
+      console.log('[Keycloak] Discovering OAuth consents...');
+      const tokens: DiscoveredOAuthToken[] = [];
+
+      for (const user of await this.getEnabledUsers()) {
+        if (!user.email) continue;
+
+        try {
+          const consents = await this.apiCall<KeycloakConsent[]>(`/users/${user.id}/consents`);
+          for (const consent of consents || []) {
+            tokens.push({
+              userId: user.email,
+              appExternalId: consent.clientId,
+              scopes: (consent.grantedClientScopes || []).map(scope => scope.name),
+              grantedAt: new Date(consent.createdDate),
+              tokenHash: consent.clientId
+            });
+          }
+        } catch (error) {
+          console.warn(`[Keycloak] Could not fetch consents for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown error');
+        }
+      }
+
+      console.log(`[Keycloak] Discovered ${tokens.length} OAuth consents`);
+      return tokens;
+    } catch (error) {
+      console.error('[Keycloak] Error discovering OAuth consents:', error);
+      throw new Error(`Failed to discover OAuth tokens: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Sync users from Keycloak
+   */
+  async syncUsers(): Promise<{ usersAdded: number; usersUpdated: number }> {
+    try {
+      console.log('[Keycloak] Starting user sync...');
+      let usersAdded = 0;
+      let usersUpdated = 0;
+
+      const keycloakUsers = await this.getEnabledUsers();
+      console.log(`[Keycloak] Found ${keycloakUsers.length} enabled users`);
+
+      for (const keycloakUser of keycloakUsers) {
+        try {
+          if (!keycloakUser.email) {
+            console.log(`[Keycloak] Skipping user without email: ${keycloakUser.username}`);
+            continue;
+          }
+
+          const outcome = await this.upsertDirectoryUser({
+            email: keycloakUser.email,
+            firstName: keycloakUser.firstName,
+            lastName: keycloakUser.lastName,
+            department: keycloakUser.attributes?.department?.[0],
+            jobTitle: keycloakUser.attributes?.title?.[0] || keycloakUser.attributes?.jobTitle?.[0],
+          });
+          if (outcome === 'added') usersAdded++;
+          if (outcome === 'updated') usersUpdated++;
+        } catch (userError) {
+          console.error(`[Keycloak] Error syncing user ${keycloakUser.email}:`, userError);
+        }
+      }
+
+      console.log(`[Keycloak] User sync complete: ${usersAdded} added, ${usersUpdated} updated`);
+      return { usersAdded, usersUpdated };
+    } catch (error) {
+      console.error('[Keycloak] Error syncing users:', error);
+      throw new Error(`Failed to sync Keycloak users: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async findUser(userEmail: string): Promise<KeycloakUser> {
+    const matches = await this.apiCall<KeycloakUser[]>(`/users?email=${encodeURIComponent(userEmail)}&exact=true`);
+    const user = (matches || []).find(match => match.email?.toLowerCase() === userEmail.toLowerCase());
+    if (!user) {
+      throw new Error(`User not found: ${userEmail}`);
+    }
+    return user;
+  }
+
+  /**
+   * Get user's group memberships
+   */
+  async getUserGroups(userEmail: string): Promise<Array<{ id: string; displayName: string }>> {
+    try {
+      const user = await this.findUser(userEmail);
+      const groups = await this.apiCallPaginated<{ id: string; name: string; path: string }>(`/users/${user.id}/groups`);
+      return groups.map(group => ({ id: group.id, displayName: group.path || group.name }));
+    } catch (error) {
+      console.error(`[Keycloak] Error getting user groups:`, error);
+      throw new Error(`Failed to get user groups: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Remove user from a group
+   */
+  async removeUserFromGroup(userEmail: string, groupId: string): Promise<void> {
+    try {
+      const user = await this.findUser(userEmail);
+      await this.apiCall(`/users/${user.id}/groups/${encodeURIComponent(groupId)}`, { method: 'DELETE' });
+      console.log(`[Keycloak] Removed user ${userEmail} from group ${groupId}`);
+    } catch (error) {
+      if (error instanceof IdPApiError && error.status === 404) return; // Already removed
+      console.error(`[Keycloak] Error removing user from group:`, error);
+      throw new Error(`Failed to remove user from group: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Remove user from all groups
+   */
+  async removeUserFromAllGroups(userEmail: string): Promise<number> {
+    try {
+      const groups = await this.getUserGroups(userEmail);
+
+      let removedCount = 0;
+      for (const group of groups) {
+        try {
+          await this.removeUserFromGroup(userEmail, group.id);
+          removedCount++;
+        } catch (error) {
+          console.warn(`[Keycloak] Failed to remove user from group ${group.displayName}:`, error);
+        }
+      }
+
+      console.log(`[Keycloak] Removed user ${userEmail} from ${removedCount} groups`);
+      return removedCount;
+    } catch (error) {
+      console.error(`[Keycloak] Error removing user from all groups:`, error);
+      throw new Error(`Failed to remove user from all groups: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
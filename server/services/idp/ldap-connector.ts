@@ -0,0 +1,432 @@
+/**
+ * LDAP / Active Directory Connector
+ *
+ * Connects to an on-prem directory (Active Directory or OpenLDAP) to:
+ * - Sync the user directory
+ * - Discover application access modelled as directory groups
+ * - Remove users from groups during offboarding
+ *
+ * Directories have no OAuth grants, so token discovery returns nothing.
+ */
+
+import { Attribute, Change, Client, type Entry, escapeFilter, FilterParser } from 'ldapts';
+import {
+  IdPConnector,
+  IdPConnectorConfig,
+  DiscoveredApp,
+  DiscoveredUserAccess,
+  DiscoveredOAuthToken
+} from './connector.interface';
+
+// Timeout configuration
+const CONNECT_TIMEOUT_MS = 10000;
+const OPERATION_TIMEOUT_MS = 30000;
+const PAGE_SIZE = 500;
+
+// AD userAccountControl ACCOUNTDISABLE flag
+const UAC_ACCOUNT_DISABLED = 0x2;
+
+type DirectoryType = 'activedirectory' | 'openldap';
+
+const DEFAULT_FILTERS: Record<DirectoryType, { user: string; group: string }> = {
+  activedirectory: {
+    user: '(&(objectCategory=person)(objectClass=user))',
+    group: '(objectClass=group)',
+  },
+  openldap: {
+    user: '(objectClass=inetOrgPerson)',
+    group: '(|(objectClass=groupOfNames)(objectClass=groupOfUniqueNames))',
+  },
+};
+
+const USER_ATTRIBUTES = [
+  'mail', 'userPrincipalName', 'uid', 'sAMAccountName', 'givenName', 'sn',
+  'department', 'departmentNumber', 'title', 'userAccountControl', 'whenCreated', 'createTimestamp',
+];
+
+interface DirectoryUser {
+  dn: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  department?: string;
+  jobTitle?: string;
+  enabled: boolean;
+  createdAt?: Date;
+}
+
+function firstValue(entry: Entry, name: string): string | undefined {
+  const value = entry[name];
+  if (value === undefined) return undefined;
+  const first = Array.isArray(value) ? value[0] : value;
+  return first === undefined ? undefined : first.toString();
+}
+
+function allValues(entry: Entry, name: string): string[] {
+  const value = entry[name];
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).map(item => item.toString());
+}
+
+/**
+ * Parse a configured filter and re-serialize it, so it is a single escaped
+ * filter that cannot close the (&...) it is combined into
+ */
+function normalizeFilter(name: string, filter: string): string {
+  try {
+    return FilterParser.parseString(filter).toString();
+  } catch (error) {
+    throw new Error(`Invalid LDAP ${name}: ${error instanceof Error ? error.message : 'unparseable filter'}`);
+  }
+}
+
+/**
+ * Parse LDAP GeneralizedTime (20240115103000Z / 20240115103000.0Z)
+ */
+function parseGeneralizedTime(value?: string): Date | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})/);
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+}
+
+/**
+ * LDAP / Active Directory Connector
+ *
+ * Configuration:
+ * - tenantDomain: ldap:// or ldaps:// URL of the directory server
+ * - clientId / clientSecret: bind DN and password of a service account
+ * - customConfig.baseDN (required), customConfig.directoryType
+ *   ('activedirectory' | 'openldap'), optional userSearchBase,
+ *   groupSearchBase, userFilter, appGroupFilter, startTls and
+ *   tlsRejectUnauthorized
+ *
+ * Groups matching appGroupFilter (e.g. "(cn=app-*)") are reported as
+ * applications and their members as user access.
+ */
+export class LdapConnector extends IdPConnector {
+  private readonly url: string;
+  private readonly baseDN: string;
+  private readonly directoryType: DirectoryType;
+  private readonly userFilter: string;
+  private readonly appGroupFilter?: string;
+
+  constructor(config: IdPConnectorConfig, tenantId: string, idpId: string) {
+    super(config, tenantId, idpId);
+
+    const custom = config.customConfig || {};
+    if (!config.tenantDomain || !custom.baseDN) {
+      throw new Error('LDAP configuration requires server URL and base DN');
+    }
+    if (!/^ldaps?:\/\/[a-zA-Z0-9.-]+(:\d+)?\/?$/.test(config.tenantDomain)) {
+      throw new Error('Invalid LDAP URL: must be ldap://host[:port] or ldaps://host[:port]');
+    }
+
+    this.url = config.tenantDomain.replace(/\/$/, '');
+    this.baseDN = custom.baseDN;
+    this.directoryType = custom.directoryType === 'activedirectory' ? 'activedirectory' : 'openldap';
+    this.userFilter = custom.userFilter ? normalizeFilter('userFilter', custom.userFilter) : DEFAULT_FILTERS[this.directoryType].user;
+    this.appGroupFilter = custom.appGroupFilter ? normalizeFilter('appGroupFilter', custom.appGroupFilter) : undefined;
+  }
+
+  private get groupFilter(): string {
+    return DEFAULT_FILTERS[this.directoryType].group;
+  }
+
+  private get userSearchBase(): string {
+    return this.config.customConfig?.userSearchBase || this.baseDN;
+  }
+
+  private get groupSearchBase(): string {
+    return this.config.customConfig?.groupSearchBase || this.baseDN;
+  }
+
+  /**
+   * Run operations on a bound client, always unbinding afterwards
+   */
+  private async withClient<T>(operation: (client: Client) => Promise<T>): Promise<T> {
+    const rejectUnauthorized = this.config.customConfig?.tlsRejectUnauthorized !== false;
+    const client = new Client({
+      url: this.url,
+      timeout: OPERATION_TIMEOUT_MS,
+      connectTimeout: CONNECT_TIMEOUT_MS,
+      tlsOptions: { rejectUnauthorized },
+    });
+
+    try {
+      if (this.config.customConfig?.startTls && this.url.startsWith('ldap://')) {
+        await client.startTLS({ rejectUnauthorized });
+      }
+      await client.bind(this.config.clientId, this.config.clientSecret);
+      return await operation(client);
+    } finally {
+      await client.unbind().catch(() => undefined);
+    }
+  }
+
+  private toDirectoryUser(entry: Entry): DirectoryUser {
+    const uac = parseInt(firstValue(entry, 'userAccountControl') || '0', 10);
+    return {
+      dn: entry.dn,
+      email: (firstValue(entry, 'mail') || firstValue(entry, 'userPrincipalName'))?.toLowerCase(),
+      firstName: firstValue(entry, 'givenName'),
+      lastName: firstValue(entry, 'sn'),
+      department: firstValue(entry, 'department') || firstValue(entry, 'departmentNumber'),
+      jobTitle: firstValue(entry, 'title'),
+      enabled: (uac & UAC_ACCOUNT_DISABLED) === 0,
+      createdAt: parseGeneralizedTime(firstValue(entry, 'whenCreated') || firstValue(entry, 'createTimestamp')),
+    };
+  }
+
+  private async searchUsers(client: Client, filter?: string): Promise<DirectoryUser[]> {
+    const { searchEntries } = await client.search(this.userSearchBase, {
+      scope: 'sub',
+      filter: filter ? `(&${this.userFilter}${filter})` : this.userFilter,
+      attributes: USER_ATTRIBUTES,
+      paged: { pageSize: PAGE_SIZE },
+    });
+    return searchEntries.map(entry => this.toDirectoryUser(entry));
+  }
+
+  private async findUser(client: Client, userEmail: string): Promise<DirectoryUser> {
+    const [user] = await this.searchUsers(client, escapeFilter`(|(mail=${userEmail})(userPrincipalName=${userEmail}))`);
+    if (!user) {
+      throw new Error(`User not found: ${userEmail}`);
+    }
+    return user;
+  }
+
+  /**
+   * Test connection (bind and read the base entry)
+   */
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.withClient(client => client.search(this.baseDN, { scope: 'base', attributes: ['dn'] }));
+      console.log(`[LDAP] Connection test successful: ${this.url}`);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private async searchAppGroups(client: Client): Promise<Entry[]> {
+    if (!this.appGroupFilter) {
+      return [];
+    }
+
+    const { searchEntries } = await client.search(this.groupSearchBase, {
+      scope: 'sub',
+      filter: `(&${this.groupFilter}${this.appGroupFilter})`,
+      attributes: ['cn', 'description', 'member', 'uniqueMember', 'whenCreated', 'createTimestamp'],
+      paged: { pageSize: PAGE_SIZE },
+    });
+    return searchEntries;
+  }
+
+  /**
+   * Discover application groups
+   */
+  async discoverApps(): Promise<DiscoveredApp[]> {
+    try {
+      console.log('[LDAP] Starting app discovery...');
+
+      if (!this.appGroupFilter) {
+        console.log('[LDAP] No appGroupFilter configured, skipping app discovery');
+        return [];
+      }
+
+      const groups = await this.withClient(client => this.searchAppGroups(client));
+      const discoveredApps: DiscoveredApp[] = groups.map(group => ({
+        externalId: group.dn,
+        name: firstValue(group, 'cn') || group.dn,
+        permissions: [],
+        metadata: {
+          description: firstValue(group, 'description'),
+          directoryType: this.directoryType,
+        }
+      }));
+
+      console.log(`[LDAP] Discovered ${discoveredApps.length} apps`);
+      return discoveredApps;
+    } catch (error) {
+      console.error('[LDAP] Error discovering apps:', error);
+      throw new Error(`Failed to discover LDAP apps: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Discover direct members of application groups
+   */
+  async discoverUserAccess(): Promise<DiscoveredUserAccess[]> {
+    try {
+      console.log('[LDAP] Starting user access discovery...');
+
+      const userAccessList = await this.withClient(async (client) => {
+        const groups = await this.searchAppGroups(client);
+        if (groups.length === 0) return [];
+
+        const usersByDn = new Map(
+          (await this.searchUsers(client))
+            .filter(user => user.enabled && user.email)
+            .map(user => [user.dn.toLowerCase(), user])
+        );
+
+        const access: DiscoveredUserAccess[] = [];
+        for (const group of groups) {
+          const groupCreated = parseGeneralizedTime(firstValue(group, 'whenCreated') || firstValue(group, 'createTimestamp'));
+          const memberDns = [...allValues(group, 'member'), ...allValues(group, 'uniqueMember')];
+
+          for (const memberDn of memberDns) {
+            const user = usersByDn.get(memberDn.toLowerCase());
+            if (!user) continue; // Nested groups or disabled accounts
+
+            access.push({
+              userId: user.email!,
+              appExternalId: group.dn,
+              permissions: [],
+              grantedDate: groupCreated || user.createdAt || new Date(),
+            });
+          }
+        }
+        return access;
+      });
+
+      console.log(`[LDAP] Discovered ${userAccessList.length} user access grants`);
+      return userAccessList;
+    } catch (error) {
+      console.error('[LDAP] Error discovering user access:', error);
+      throw new Error(`Failed to discover user access: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Directories do not issue OAuth grants
+   */
+  async discoverOAuthTokens(): Promise<DiscoveredOAuthToken[]> {
+    return [];
+  }
+
+  /**
+   * Sync users from the directory
+   */
+  async syncUsers(): Promise<{ usersAdded: number; usersUpdated: number }> {
+    try {
+      console.log('[LDAP] Starting user sync...');
+      let usersAdded = 0;
+      let usersUpdated = 0;
+
+      const directoryUsers = (await this.withClient(client => this.searchUsers(client)))
+        .filter(user => user.enabled);
+      console.log(`[LDAP] Found ${directoryUsers.length} enabled users`);
+
+      for (const directoryUser of directoryUsers) {
+        try {
+          if (!directoryUser.email) {
+            console.log(`[LDAP] Skipping user without email: ${directoryUser.dn}`);
+            continue;
+          }
+
+          const outcome = await this.upsertDirectoryUser({
+            email: directoryUser.email,
+            firstName: directoryUser.firstName,
+            lastName: directoryUser.lastName,
+            department: directoryUser.department,
+            jobTitle: directoryUser.jobTitle,
+          });
+          if (outcome === 'added') usersAdded++;
+          if (outcome === 'updated') usersUpdated++;
+        } catch (userError) {
+          console.error(`[LDAP] Error syncing user ${directoryUser.email}:`, userError);
+        }
+      }
+
+      console.log(`[LDAP] User sync complete: ${usersAdded} added, ${usersUpdated} updated`);
+      return { usersAdded, usersUpdated };
+    } catch (error) {
+      console.error('[LDAP] Error syncing users:', error);
+      throw new Error(`Failed to sync LDAP users: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get groups the user is a direct member of
+   */
+  async getUserGroups(userEmail: string): Promise<Array<{ id: string; displayName: string }>> {
+    try {
+      return await this.withClient(async (client) => {
+        const user = await this.findUser(client, userEmail);
+        const { searchEntries } = await client.search(this.groupSearchBase, {
+          scope: 'sub',
+          filter: `(&${this.groupFilter}${escapeFilter`(|(member=${user.dn})(uniqueMember=${user.dn}))`})`,
+          attributes: ['cn'],
+          paged: { pageSize: PAGE_SIZE },
+        });
+        return searchEntries.map(group => ({ id: group.dn, displayName: firstValue(group, 'cn') || group.dn }));
+      });
+    } catch (error) {
+      console.error(`[LDAP] Error getting user groups:`, error);
+      throw new Error(`Failed to get user groups: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Remove user from a group (groupId is the group DN)
+   */
+  async removeUserFromGroup(userEmail: string, groupId: string): Promise<void> {
+    try {
+      await this.withClient(async (client) => {
+        const user = await this.findUser(client, userEmail);
+        const { searchEntries } = await client.search(groupId, {
+          scope: 'base',
+          attributes: ['member', 'uniqueMember'],
+        });
+        const group = searchEntries[0];
+        if (!group) {
+          throw new Error(`Group not found: ${groupId}`);
+        }
+
+        // groupOfUniqueNames stores members in uniqueMember; everything else uses member
+        const memberAttribute = allValues(group, 'uniqueMember')
+          .some(value => value.toLowerCase() === user.dn.toLowerCase()) ? 'uniqueMember' : 'member';
+
+        await client.modify(groupId, new Change({
+          operation: 'delete',
+          modification: new Attribute({ type: memberAttribute, values: [user.dn] }),
+        }));
+      });
+      console.log(`[LDAP] Removed user ${userEmail} from group ${groupId}`);
+    } catch (error) {
+      console.error(`[LDAP] Error removing user from group:`, error);
+      throw new Error(`Failed to remove user from group: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Remove user from all groups
+   */
+  async removeUserFromAllGroups(userEmail: string): Promise<number> {
+    try {
+      const groups = await this.getUserGroups(userEmail);
+
+      let removedCount = 0;
+      for (const group of groups) {
+        try {
+          await this.removeUserFromGroup(userEmail, group.id);
+          removedCount++;
+        } catch (error) {
+          // e.g. the user is the last member of a groupOfNames (member is mandatory)
+          console.warn(`[LDAP] Failed to remove user from group ${group.displayName}:`, error);
+        }
+      }
+
+      console.log(`[LDAP] Removed user ${userEmail} from ${removedCount} groups`);
+      return removedCount;
+    } catch (error) {
+      console.error(`[LDAP] Error removing user from all groups:`, error);
+      throw new Error(`Failed to remove user from all groups: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -1,112 +1,187 @@
-import { storage } from '../../storage';
-import type { IdPConfig, DiscoveredApp } from './types';
+/**
+ * Okta Connector
+ *
+ * Connects to the Okta Management API to discover:
+ * - Applications and their user assignments
+ * - OAuth consent grants (user-level)
+ * - User directory
+ *
+ * And to revoke access during offboarding and access reviews:
+ * - Group membership and app assignment removal
+ * - Session clearing and OAuth grant/token revocation
+ */
 
-// Default timeout for API calls (30 seconds)
-const DEFAULT_TIMEOUT_MS = 30000;
+import {
+  IdPConnector,
+  IdPConnectorConfig,
+  DiscoveredApp,
+  DiscoveredUserAccess,
+  DiscoveredOAuthToken
+} from './connector.interface';
 
-// Maximum retries for transient errors
+// Timeout configuration
+const API_TIMEOUT_MS = 30000;   // 30 seconds for API calls
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 1000;
+const PAGE_SIZE = 200;
+const MAX_PAGES = 100;
+
+export const VALID_OKTA_DOMAINS = ['.okta.com', '.okta-emea.com', '.oktapreview.com', '.okta.eu'];
+
+interface OktaApp {
+  id: string;
+  name: string;
+  label: string;
+  status: string;
+  signOnMode: string;
+  created?: string;
+  settings?: { app?: { url?: string } };
+  credentials?: { oauthClient?: { client_id?: string } };
+  _links?: { logo?: Array<{ href: string }> };
+}
+
+interface OktaUser {
+  id: string;
+  status: string;
+  profile: {
+    login: string;
+    email?: string;
+    firstName?: string;
+    lastName?: string;
+    department?: string;
+    title?: string;
+    mobilePhone?: string;
+  };
+}
+
+interface OktaAppUser {
+  id: string;
+  scope: 'USER' | 'GROUP';
+  created: string;
+  lastUpdated?: string;
+  credentials?: { userName?: string };
+}
+
+interface OktaGroup {
+  id: string;
+  type: 'OKTA_GROUP' | 'APP_GROUP' | 'BUILT_IN';
+  profile: { name: string };
+}
+
+interface OktaGrant {
+  id: string;
+  clientId: string;
+  scopeId: string;
+  status: string;
+  created: string;
+  _embedded?: { scope?: { name?: string } };
+}
+
+class OktaApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'OktaApiError';
+  }
+}
 
 /**
- * Okta Identity Provider Connector
- * Integrates with Okta API to discover SaaS applications and user access
+ * Okta Connector
+ *
+ * Required Okta API token permissions (a Super Admin or custom admin role with):
+ * - okta.apps.read / okta.apps.manage (discover apps, remove assignments)
+ * - okta.users.read / okta.users.manage (directory sync, sessions, grants)
+ * - okta.groups.manage (remove group memberships)
+ *
+ * The API token is stored as the provider's client secret; the Okta org
+ * domain comes from tenantDomain or customConfig.oktaDomain.
  */
-export class OktaConnector {
-  private config: IdPConfig;
-  private tenantId: string;
-  private providerId: string;
-  private storage: typeof storage;
-  private baseUrl: string;
-  private apiToken: string;
-
-  constructor(config: IdPConfig, tenantId: string, providerId: string) {
-    this.config = config;
-    this.tenantId = tenantId;
-    this.providerId = providerId;
-    this.storage = storage;
-
-    // Extract Okta-specific configuration
-    const oktaDomain = config.oktaDomain || config.domain;
-    const oktaApiToken = config.oktaApiToken || config.apiKey;
-
-    if (!oktaDomain || !oktaApiToken) {
+export class OktaConnector extends IdPConnector {
+  private readonly baseUrl: string;
+  private readonly apiToken: string;
+
+  constructor(config: IdPConnectorConfig, tenantId: string, idpId: string) {
+    super(config, tenantId, idpId);
+
+    const oktaDomain = (config.tenantDomain || config.customConfig?.oktaDomain || config.customConfig?.domain || '')
+      .replace(/^https?:\/\//, '')
+      .replace(/\/+$/, '');
+    const apiToken = config.customConfig?.apiToken || config.clientSecret;
+
+    if (!oktaDomain || !apiToken) {
       throw new Error('Okta configuration requires domain and API token');
     }
 
     // Validate Okta domain format (must be *.okta.com, *.okta-emea.com, *.oktapreview.com)
-    const validOktaDomains = ['.okta.com', '.okta-emea.com', '.oktapreview.com', '.okta.eu'];
-    const isValidOktaDomain = validOktaDomains.some(suffix =>
-      oktaDomain.toLowerCase().endsWith(suffix)
-    );
+    const isValidOktaDomain = /^[a-zA-Z0-9.-]+$/.test(oktaDomain) &&
+      VALID_OKTA_DOMAINS.some(suffix => oktaDomain.toLowerCase().endsWith(suffix));
 
     if (!isValidOktaDomain) {
       throw new Error('Invalid Okta domain: must be a valid Okta tenant domain');
     }
 
     this.baseUrl = `https://${oktaDomain}`;
-    this.apiToken = oktaApiToken;
+    this.apiToken = apiToken;
   }
 
   /**
-   * Make authenticated API call to Okta with timeout and retry logic
+   * Make authenticated request to the Okta API with timeout and retry logic.
+   * Returns the parsed body (null for 204) and the next page link, if any.
    */
-  private async oktaApiCall(
+  private async oktaRequest<T = any>(
     endpoint: string,
-    options: RequestInit = {},
-    timeout: number = DEFAULT_TIMEOUT_MS,
-    retries: number = MAX_RETRIES
-  ): Promise<any> {
-    const url = `${this.baseUrl}/api/v1${endpoint}`;
-    const headers = {
-      'Authorization': `SSWS ${this.apiToken}`,
-      'Accept': 'application/json',
-      'Content-Type': 'application/json',
-      ...options.headers,
-    };
+    options: RequestInit = {}
+  ): Promise<{ data: T; nextLink: string | null }> {
+    const url = endpoint.startsWith('http') ? endpoint : `${this.baseUrl}/api/v1${endpoint}`;
+
+    // Validate URL to prevent SSRF (pagination links must stay on the Okta org)
+    if (new URL(url).origin !== this.baseUrl) {
+      throw new Error(`Invalid Okta API URL: ${new URL(url).hostname} is not the configured Okta org`);
+    }
 
     let lastError: Error | null = null;
 
-    for (let attempt = 0; attempt <= retries; attempt++) {
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
       const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      const timeoutId = setTimeout(() => controller.abort(), API_TIMEOUT_MS);
 
       try {
         const response = await fetch(url, {
           ...options,
-          headers,
+          headers: {
+            'Authorization': `SSWS ${this.apiToken}`,
+            'Accept': 'application/json',
+            'Content-Type': 'application/json',
+            ...options.headers,
+          },
           signal: controller.signal
         });
 
         clearTimeout(timeoutId);
 
         if (!response.ok) {
-          // Don't retry on client errors (4xx), only on server errors (5xx)
-          if (response.status >= 400 && response.status < 500) {
-            throw new Error(`Okta API error: ${response.status} ${response.statusText}`);
-          }
-          throw new Error(`Okta API error: ${response.status} ${response.statusText}`);
+          throw new OktaApiError(`Okta API error: ${response.status} ${response.statusText}`, response.status);
         }
 
-        return response.json();
+        const nextLink = response.headers.get('link')?.match(/<([^>]+)>;\s*rel="next"/)?.[1] || null;
+        const text = response.status === 204 ? '' : await response.text();
+        return { data: (text ? JSON.parse(text) : null) as T, nextLink };
       } catch (error: any) {
         clearTimeout(timeoutId);
-        lastError = error;
 
-        // Handle timeout specifically
         if (error.name === 'AbortError') {
-          console.warn(`[Okta] Request timeout (attempt ${attempt + 1}/${retries + 1}): ${endpoint}`);
-          lastError = new Error(`Okta API timeout after ${timeout}ms`);
-        } else if (error.message?.includes('5')) {
-          // Retry on 5xx errors
-          console.warn(`[Okta] Server error (attempt ${attempt + 1}/${retries + 1}): ${error.message}`);
+          console.warn(`[Okta] Request timeout (attempt ${attempt + 1}/${MAX_RETRIES + 1}): ${endpoint}`);
+          lastError = new Error(`Okta API timeout after ${API_TIMEOUT_MS}ms`);
+        } else if (error instanceof OktaApiError && (error.status >= 500 || error.status === 429)) {
+          // Retry on 5xx errors and rate limiting
+          console.warn(`[Okta] Server error (attempt ${attempt + 1}/${MAX_RETRIES + 1}): ${error.message}`);
+          lastError = error;
         } else {
-          // Don't retry on other errors
+          // Don't retry on 4xx errors
           throw error;
         }
 
         // Wait before retry (exponential backoff)
-        if (attempt < retries) {
+        if (attempt < MAX_RETRIES) {
           await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * Math.pow(2, attempt)));
         }
       }
@@ -115,35 +190,75 @@ export class OktaConnector {
     throw lastError || new Error('Okta API call failed after retries');
   }
 
+  private async oktaApiCall<T = any>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    return (await this.oktaRequest<T>(endpoint, options)).data;
+  }
+
   /**
-   * Discover applications from Okta
+   * Follow Okta's Link headers to collect every page of a list endpoint
+   */
+  private async oktaApiCallPaginated<T = any>(endpoint: string): Promise<T[]> {
+    const results: T[] = [];
+    let nextLink: string | null = endpoint;
+    let pageCount = 0;
+
+    while (nextLink && pageCount < MAX_PAGES) {
+      const page: { data: T[]; nextLink: string | null } = await this.oktaRequest<T[]>(nextLink);
+      results.push(...(page.data || []));
+      nextLink = page.nextLink;
+      pageCount++;
+
+      // Rate limiting: wait 100ms between requests
+      if (nextLink) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    }
+
+    if (pageCount >= MAX_PAGES) {
+      console.warn(`[Okta] Pagination limit reached (${MAX_PAGES} pages) for endpoint: ${endpoint}`);
+    }
+
+    return results;
+  }
+
+  /**
+   * Test connection to Okta
+   */
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.oktaApiCall<OktaUser[]>('/users?limit=1');
+      console.log(`[Okta] Connection test successful: ${this.baseUrl}`);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Discover active applications
    */
   async discoverApps(): Promise<DiscoveredApp[]> {
     try {
       console.log('[Okta] Starting app discovery...');
 
-      // Get all apps from Okta
-      const apps = await this.oktaApiCall('/apps');
-      const discoveredApps: DiscoveredApp[] = [];
-
-      for (const app of apps) {
-        // Skip inactive apps
-        if (app.status !== 'ACTIVE') {
-          continue;
-        }
-
-        discoveredApps.push({
-          externalId: app.id,
-          name: app.label || app.name,
-          vendor: 'Unknown', // Okta doesn't provide vendor info directly
+      const apps = await this.getActiveApps();
+
+      const discoveredApps: DiscoveredApp[] = apps.map((app) => ({
+        externalId: app.id,
+        name: app.label || app.name,
+        logoUrl: app._links?.logo?.[0]?.href,
+        websiteUrl: app.settings?.app?.url,
+        permissions: [],
+        metadata: {
+          appName: app.name,
+          signOnMode: app.signOnMode,
           category: this.mapOktaCategory(app.signOnMode),
-          website: app.settings?.app?.url || null,
-          description: app.description || null,
-          logoUrl: app._links?.logo?.[0]?.href || null,
-          users: [], // Will be populated separately
-          lastSync: new Date().toISOString(),
-        });
-      }
+          oauthClientId: app.credentials?.oauthClient?.client_id,
+        }
+      }));
 
       console.log(`[Okta] Discovered ${discoveredApps.length} apps`);
       return discoveredApps;
@@ -169,6 +284,102 @@ export class OktaConnector {
     return categoryMap[signOnMode] || 'Other';
   }
 
+  private async getActiveApps(): Promise<OktaApp[]> {
+    return this.oktaApiCallPaginated<OktaApp>(
+      `/apps?filter=${encodeURIComponent('status eq "ACTIVE"')}&limit=${PAGE_SIZE}`
+    );
+  }
+
+  private async getActiveUsers(): Promise<OktaUser[]> {
+    return this.oktaApiCallPaginated<OktaUser>(
+      `/users?filter=${encodeURIComponent('status eq "ACTIVE"')}&limit=${PAGE_SIZE}`
+    );
+  }
+
+  /**
+   * Discover user assignments to applications
+   */
+  async discoverUserAccess(): Promise<DiscoveredUserAccess[]> {
+    try {
+      console.log('[Okta] Starting user access discovery...');
+
+      const users = await this.getActiveUsers();
+      const emailById = new Map(users.map(user => [user.id, user.profile.email || user.profile.login]));
+      const userAccessList: DiscoveredUserAccess[] = [];
+
+      for (const app of await this.getActiveApps()) {
+        const assignments = await this.oktaApiCallPaginated<OktaAppUser>(`/apps/${app.id}/users?limit=${PAGE_SIZE}`);
+
+        for (const assignment of assignments) {
+          const email = emailById.get(assignment.id);
+          if (!email) continue; // Deactivated or suspended users
+
+          userAccessList.push({
+            userId: email,
+            appExternalId: app.id,
+            permissions: [],
+            grantedDate: new Date(assignment.created),
+            lastAccessDate: assignment.lastUpdated ? new Date(assignment.lastUpdated) : undefined
+          });
+        }
+      }
+
+      console.log(`[Okta] Discovered ${userAccessList.length} user access grants`);
+      return userAccessList;
+    } catch (error) {
+      console.error('[Okta] Error discovering user access:', error);
+      throw new Error(`Failed to discover user access: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Discover OAuth consent grants, one token per user and client
+   */
+  async discoverOAuthTokens(): Promise<DiscoveredOAuthToken[]> {
+    try {
+      console.log('[Okta] Discovering OAuth grants...');
+
+      // Map OAuth client IDs back to the app IDs reported by discoverApps
+      const appIdByClientId = new Map<string, string>();
+      for (const app of await this.getActiveApps()) {
+        appIdByClientId.set(app.credentials?.oauthClient?.client_id || app.id, app.id);
+      }
+
+      const tokens: DiscoveredOAuthToken[] = [];
+
+      for (const user of await this.getActiveUsers()) {
+        try {
+          const grants = await this.oktaApiCallPaginated<OktaGrant>(`/users/${user.id}/grants?expand=scope&limit=${PAGE_SIZE}`);
+          const grantsByClient = new Map<string, OktaGrant[]>();
+          for (const grant of grants.filter(g => g.status === 'ACTIVE')) {
+            grantsByClient.set(grant.clientId, [...(grantsByClient.get(grant.clientId) || []), grant]);
+          }
+
+          for (const [clientId, clientGrants] of Array.from(grantsByClient)) {
+            tokens.push({
+              userId: user.profile.email || user.profile.login,
+              appExternalId: appIdByClientId.get(clientId) || clientId,
+              scopes: clientGrants.map(grant => grant._embedded?.scope?.name || grant.scopeId),
+              grantedAt: new Date(Math.min(...clientGrants.map(grant => new Date(grant.created).getTime()))),
+              tokenHash: clientId // Client ID identifies the grants to revoke for this user
+            });
+          }
+        } catch (error) {
+          console.warn(`[Okta] Could not fetch grants for user ${user.id}:`, error instanceof Error ? error.message : 'Unknown error');
+        }
+
+        // Rate limiting
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+
+      console.log(`[Okta] Discovered ${tokens.length} OAuth tokens`);
+      return tokens;
+    } catch (error) {
+      console.error('[Okta] Error discovering OAuth tokens:', error);
+      throw new Error(`Failed to discover OAuth tokens: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Sync users from Okta
    */
@@ -178,12 +389,10 @@ export class OktaConnector {
       let usersAdded = 0;
       let usersUpdated = 0;
 
-      // Fetch all active users from Okta
-      const users = await this.oktaApiCall('/users?filter=status eq "ACTIVE"');
+      const oktaUsers = await this.getActiveUsers();
+      console.log(`[Okta] Found ${oktaUsers.length} active users`);
 
-      console.log(`[Okta] Found ${users.length} active users`);
-
-      for (const oktaUser of users) {
+      for (const oktaUser of oktaUsers) {
         try {
           const email = oktaUser.profile.email;
           if (!email) {
@@ -191,36 +400,15 @@ export class OktaConnector {
             continue;
           }
 
-          // Check if user already exists
-          const existingUser = await this.storage.getUserByEmail(email, this.tenantId);
-
-          if (existingUser) {
-            // Update existing user
-            await this.storage.updateUser(existingUser.id, {
-              name: `${oktaUser.profile.firstName || ''} ${oktaUser.profile.lastName || ''}`.trim() || existingUser.name,
-              firstName: oktaUser.profile.firstName || existingUser.firstName,
-              lastName: oktaUser.profile.lastName || existingUser.lastName,
-              department: oktaUser.profile.department || existingUser.department,
-              jobTitle: oktaUser.profile.title || existingUser.jobTitle,
-              updatedAt: new Date(),
-            });
-            usersUpdated++;
-          } else {
-            // Create new user
-            await this.storage.createUser({
-              tenantId: this.tenantId,
-              email,
-              name: `${oktaUser.profile.firstName || ''} ${oktaUser.profile.lastName || ''}`.trim() || email,
-              firstName: oktaUser.profile.firstName || '',
-              lastName: oktaUser.profile.lastName || '',
-              department: oktaUser.profile.department || null,
-              jobTitle: oktaUser.profile.title || null,
-              role: 'user',
-              status: oktaUser.status === 'ACTIVE' ? 'active' : 'inactive',
-              password: '', // No password for SSO users
-            });
-            usersAdded++;
-          }
+          const outcome = await this.upsertDirectoryUser({
+            email,
+            firstName: oktaUser.profile.firstName,
+            lastName: oktaUser.profile.lastName,
+            department: oktaUser.profile.department,
+            jobTitle: oktaUser.profile.title,
+          });
+          if (outcome === 'added') usersAdded++;
+          if (outcome === 'updated') usersUpdated++;
         } catch (userError) {
           console.error(`[Okta] Error syncing user ${oktaUser.profile.email}:`, userError);
         }
@@ -235,49 +423,246 @@ export class OktaConnector {
   }
 
   /**
-   * Discover user access to applications
+   * Look up an Okta user by login, falling back to a primary email search
    */
-  async discoverUserAccess(): Promise<any[]> {
+  private async findUser(userEmail: string): Promise<OktaUser> {
     try {
-      console.log('[Okta] Starting user access discovery...');
-      const userAccessList: any[] = [];
+      return await this.oktaApiCall<OktaUser>(`/users/${encodeURIComponent(userEmail)}`);
+    } catch (error) {
+      if (!(error instanceof OktaApiError) || error.status !== 404) throw error;
+    }
+
+    const matches = await this.oktaApiCall<OktaUser[]>(
+      `/users?search=${encodeURIComponent(`profile.email eq "${userEmail.replace(/"/g, '')}"`)}&limit=1`
+    );
+    if (!matches?.length) {
+      throw new Error(`User not found: ${userEmail}`);
+    }
+    return matches[0];
+  }
+
+  /**
+   * Find active apps whose label matches a SaaS app name
+   */
+  private async findAppsByName(appName: string): Promise<OktaApp[]> {
+    const candidates = await this.oktaApiCallPaginated<OktaApp>(`/apps?q=${encodeURIComponent(appName)}&limit=${PAGE_SIZE}`);
+    const name = appName.toLowerCase();
+    return candidates.filter(app => (app.label || app.name).toLowerCase().includes(name));
+  }
+
+  /**
+   * Get user's group memberships that can be managed (Okta-mastered groups)
+   */
+  async getUserGroups(userEmail: string): Promise<Array<{ id: string; displayName: string }>> {
+    try {
+      const user = await this.findUser(userEmail);
+      const groups = await this.oktaApiCallPaginated<OktaGroup>(`/users/${user.id}/groups`);
 
-      // Get all applications
-      const apps = await this.oktaApiCall('/apps');
+      // Everyone (BUILT_IN) and app-mastered groups can't be edited through the API
+      const managed = groups
+        .filter(group => group.type === 'OKTA_GROUP')
+        .map(group => ({ id: group.id, displayName: group.profile.name }));
+
+      console.log(`[Okta] Found ${managed.length} groups for user ${userEmail}`);
+      return managed;
+    } catch (error) {
+      console.error(`[Okta] Error getting user groups:`, error);
+      throw new Error(`Failed to get user groups: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Remove user from a group
+   */
+  async removeUserFromGroup(userEmail: string, groupId: string): Promise<void> {
+    try {
+      const user = await this.findUser(userEmail);
+      await this.oktaApiCall(`/groups/${encodeURIComponent(groupId)}/users/${user.id}`, { method: 'DELETE' });
+      console.log(`[Okta] Removed user ${userEmail} from group ${groupId}`);
+    } catch (error) {
+      console.error(`[Okta] Error removing user from group:`, error);
+      throw new Error(`Failed to remove user from group: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Add user to a group (Okta-mastered groups only)
+   */
+  async addUserToGroup(userEmail: string, groupId: string): Promise<void> {
+    try {
+      const user = await this.findUser(userEmail);
+      await this.oktaApiCall(`/groups/${encodeURIComponent(groupId)}/users/${user.id}`, { method: 'PUT' });
+      console.log(`[Okta] Added user ${userEmail} to group ${groupId}`);
+    } catch (error) {
+      console.error(`[Okta] Error adding user to group:`, error);
+      throw new Error(`Failed to add user to group: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Remove user from all groups
+   */
+  async removeUserFromAllGroups(userEmail: string): Promise<number> {
+    try {
+      const groups = await this.getUserGroups(userEmail);
+
+      let removedCount = 0;
+      for (const group of groups) {
+        try {
+          await this.removeUserFromGroup(userEmail, group.id);
+          removedCount++;
+        } catch (error) {
+          console.warn(`[Okta] Failed to remove user from group ${group.displayName}:`, error);
+        }
+      }
+
+      console.log(`[Okta] Removed user ${userEmail} from ${removedCount} groups`);
+      return removedCount;
+    } catch (error) {
+      console.error(`[Okta] Error removing user from all groups:`, error);
+      throw new Error(`Failed to remove user from all groups: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Revoke user's OAuth grants and refresh tokens for a specific app
+   */
+  async revokeAppAccess(userEmail: string, appName: string): Promise<{ grantsRevoked: number }> {
+    try {
+      const user = await this.findUser(userEmail);
+      const apps = await this.findAppsByName(appName);
+      let revokedCount = 0;
 
       for (const app of apps) {
-        if (app.status !== 'ACTIVE') continue;
+        const clientId = app.credentials?.oauthClient?.client_id || app.id;
+        try {
+          const grants = await this.oktaApiCallPaginated<OktaGrant>(`/users/${user.id}/clients/${encodeURIComponent(clientId)}/grants`);
+          if (grants.length > 0) {
+            await this.oktaApiCall(`/users/${user.id}/clients/${encodeURIComponent(clientId)}/grants`, { method: 'DELETE' });
+            revokedCount += grants.length;
+          }
+          await this.oktaApiCall(`/users/${user.id}/clients/${encodeURIComponent(clientId)}/tokens`, { method: 'DELETE' });
+          console.log(`[Okta] Revoked grants and tokens for client ${clientId} for user ${userEmail}`);
+        } catch (error) {
+          console.warn(`[Okta] Failed to revoke grants for client ${clientId}:`, error);
+        }
+      }
 
-        // Get app assignments (users assigned to this app)
-        const assignments = await this.oktaApiCall(`/apps/${app.id}/users`);
+      console.log(`[Okta] Revoked ${revokedCount} OAuth grants for user ${userEmail} from app ${appName}`);
+      return { grantsRevoked: revokedCount };
+    } catch (error) {
+      console.error(`[Okta] Error revoking app access:`, error);
+      throw new Error(`Failed to revoke app access: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-        for (const assignment of assignments) {
-          const user = await this.oktaApiCall(`/users/${assignment.id}`);
+  /**
+   * Remove user's direct app assignment. Assignments inherited from a group
+   * (scope GROUP) are left alone; group removal covers those.
+   */
+  async removeAppAssignment(userEmail: string, appName: string): Promise<{ assignmentsRemoved: number }> {
+    try {
+      const user = await this.findUser(userEmail);
+      const apps = await this.findAppsByName(appName);
+      let removedCount = 0;
 
-          userAccessList.push({
-            externalId: app.id,
-            userEmail: user.profile.email,
-            grantedDate: assignment.created,
-            lastAccessDate: assignment.lastUpdated,
-            permissions: [],
-            roles: assignment.scope ? [assignment.scope] : [],
-          });
+      for (const app of apps) {
+        try {
+          const assignment = await this.oktaApiCall<OktaAppUser>(`/apps/${app.id}/users/${user.id}`);
+          if (assignment.scope !== 'USER') {
+            console.log(`[Okta] Assignment of ${userEmail} to ${app.label} is group-based, skipping`);
+            continue;
+          }
+          await this.oktaApiCall(`/apps/${app.id}/users/${user.id}`, { method: 'DELETE' });
+          removedCount++;
+          console.log(`[Okta] Removed app assignment ${app.id} for user ${userEmail}`);
+        } catch (error) {
+          if (error instanceof OktaApiError && error.status === 404) continue; // Not assigned
+          console.warn(`[Okta] Failed to remove assignment ${app.id}:`, error);
         }
       }
 
-      console.log(`[Okta] Discovered ${userAccessList.length} user access grants`);
-      return userAccessList;
+      console.log(`[Okta] Removed ${removedCount} app assignments for user ${userEmail} from app ${appName}`);
+      return { assignmentsRemoved: removedCount };
     } catch (error) {
-      console.error('[Okta] Error discovering user access:', error);
-      throw new Error(`Failed to discover user access: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`[Okta] Error removing app assignments:`, error);
+      throw new Error(`Failed to remove app assignments: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Discover OAuth tokens (Okta doesn't expose this directly)
+   * Assign user directly to the apps with this name
    */
-  async discoverOAuthTokens(): Promise<any[]> {
-    console.log('[Okta] OAuth token discovery not supported by Okta API');
-    return [];
+  async assignApp(userEmail: string, appName: string): Promise<{ assignmentsCreated: number }> {
+    try {
+      const user = await this.findUser(userEmail);
+      const apps = await this.findAppsByName(appName);
+      if (apps.length === 0) {
+        throw new Error(`App not found: ${appName}`);
+      }
+
+      let createdCount = 0;
+      for (const app of apps) {
+        await this.oktaApiCall(`/apps/${app.id}/users`, {
+          method: 'POST',
+          body: JSON.stringify({ id: user.id, scope: 'USER' }),
+        });
+        createdCount++;
+        console.log(`[Okta] Assigned app ${app.id} to user ${userEmail}`);
+      }
+
+      return { assignmentsCreated: createdCount };
+    } catch (error) {
+      console.error(`[Okta] Error assigning app:`, error);
+      throw new Error(`Failed to assign app: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Revoke a single OAuth client's grants and tokens, as recorded by discoverOAuthTokens
+   */
+  async revokeClientGrants(userEmail: string, clientId: string): Promise<void> {
+    try {
+      const user = await this.findUser(userEmail);
+      await this.oktaApiCall(`/users/${user.id}/clients/${encodeURIComponent(clientId)}/grants`, { method: 'DELETE' });
+      await this.oktaApiCall(`/users/${user.id}/clients/${encodeURIComponent(clientId)}/tokens`, { method: 'DELETE' });
+      console.log(`[Okta] Revoked grants and tokens for client ${clientId} for user ${userEmail}`);
+    } catch (error) {
+      console.error(`[Okta] Error revoking client grants:`, error);
+      throw new Error(`Failed to revoke client grants: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Revoke every OAuth consent grant the user has given
+   */
+  async revokeAllGrants(userEmail: string): Promise<{ grantsRevoked: number }> {
+    try {
+      const user = await this.findUser(userEmail);
+      const grants = await this.oktaApiCallPaginated<OktaGrant>(`/users/${user.id}/grants?limit=${PAGE_SIZE}`);
+      if (grants.length > 0) {
+        await this.oktaApiCall(`/users/${user.id}/grants`, { method: 'DELETE' });
+      }
+
+      console.log(`[Okta] Revoked ${grants.length} OAuth grants for user ${userEmail}`);
+      return { grantsRevoked: grants.length };
+    } catch (error) {
+      console.error(`[Okta] Error revoking OAuth grants:`, error);
+      throw new Error(`Failed to revoke OAuth grants: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Clear all Okta sessions for the user, including OAuth access and refresh tokens Okta issued
+   */
+  async clearUserSessions(userEmail: string): Promise<void> {
+    try {
+      const user = await this.findUser(userEmail);
+      await this.oktaApiCall(`/users/${user.id}/sessions?oauthTokens=true`, { method: 'DELETE' });
+      console.log(`[Okta] Cleared sessions and OAuth tokens for user ${userEmail}`);
+    } catch (error) {
+      console.error(`[Okta] Error clearing user sessions:`, error);
+      throw new Error(`Failed to clear user sessions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 }
@@ -0,0 +1,344 @@
+/**
+ * OneLogin Connector
+ *
+ * Connects to the OneLogin API (v2) to discover:
+ * - Applications and their assigned users
+ * - User directory
+ *
+ * And to remove users from roles (OneLogin's group equivalent, which
+ * drives app access) during offboarding.
+ */
+
+import {
+  IdPConnector,
+  IdPConnectorConfig,
+  DiscoveredApp,
+  DiscoveredUserAccess,
+  DiscoveredOAuthToken
+} from './connector.interface';
+import { idpRequest, IdPApiError } from './http-client';
+
+const MAX_PAGES = 100;
+const USER_STATUS_ACTIVE = 1;
+
+interface OneLoginUser {
+  id: number;
+  email: string;
+  username?: string;
+  firstname?: string;
+  lastname?: string;
+  department?: string;
+  title?: string;
+  status: number;
+  created_at?: string;
+}
+
+interface OneLoginApp {
+  id: number;
+  name: string;
+  description?: string;
+  connector_id?: number;
+  visible?: boolean;
+  auth_method?: number;
+  icon_url?: string;
+  created_at?: string;
+}
+
+/**
+ * OneLogin Connector
+ *
+ * tenantDomain holds the OneLogin subdomain (acme or acme.onelogin.com);
+ * client ID/secret are API credentials with "Manage users" scope.
+ */
+export class OneLoginConnector extends IdPConnector {
+  private readonly baseUrl: string;
+  private accessToken: string | null = null;
+  private tokenExpiry: Date | null = null;
+
+  constructor(config: IdPConnectorConfig, tenantId: string, idpId: string) {
+    super(config, tenantId, idpId);
+
+    const domain = (config.tenantDomain || '')
+      .replace(/^https?:\/\//, '')
+      .replace(/\/+$/, '')
+      .toLowerCase();
+
+    if (!domain || !config.clientId || !config.clientSecret) {
+      throw new Error('OneLogin configuration requires subdomain, client ID and client secret');
+    }
+
+    const host = domain.includes('.') ? domain : `${domain}.onelogin.com`;
+    if (!/^[a-z0-9-]+\.onelogin\.com$/.test(host)) {
+      throw new Error('Invalid OneLogin domain: must be a valid OneLogin subdomain');
+    }
+
+    this.baseUrl = `https://${host}`;
+  }
+
+  /**
+   * Obtain an API access token via client credentials
+   */
+  private async authenticate(): Promise<string> {
+    if (this.accessToken && this.tokenExpiry && this.tokenExpiry > new Date()) {
+      return this.accessToken;
+    }
+
+    const { data } = await idpRequest<{ access_token: string; expires_in: number }>(
+      'OneLogin',
+      `${this.baseUrl}/auth/oauth2/v2/token`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `client_id:${this.config.clientId}, client_secret:${this.config.clientSecret}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ grant_type: 'client_credentials' }),
+      }
+    );
+
+    this.accessToken = data.access_token;
+    this.tokenExpiry = new Date(Date.now() + Math.max(data.expires_in - 60, 10) * 1000);
+    return this.accessToken;
+  }
+
+  private async apiRequest<T = any>(endpoint: string, options: RequestInit = {}) {
+    const token = await this.authenticate();
+    return idpRequest<T>('OneLogin', `${this.baseUrl}/api/2${endpoint}`, {
+      ...options,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    });
+  }
+
+  private async apiCall<T = any>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    return (await this.apiRequest<T>(endpoint, options)).data;
+  }
+
+  /**
+   * Follow the After-Cursor header through every page of a list endpoint
+   */
+  private async apiCallPaginated<T = any>(endpoint: string): Promise<T[]> {
+    const results: T[] = [];
+    const separator = endpoint.includes('?') ? '&' : '?';
+    let cursor: string | null = null;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const response: { data: T[]; headers: Headers } = await this.apiRequest<T[]>(
+        cursor ? `${endpoint}${separator}cursor=${encodeURIComponent(cursor)}` : endpoint
+      );
+      results.push(...(response.data || []));
+      cursor = response.headers.get('after-cursor');
+      if (!cursor) {
+        return results;
+      }
+    }
+
+    console.warn(`[OneLogin] Pagination limit reached (${MAX_PAGES} pages) for endpoint: ${endpoint}`);
+    return results;
+  }
+
+  /**
+   * Test connection to OneLogin
+   */
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.apiCall('/users?limit=1');
+      console.log(`[OneLogin] Connection test successful: ${this.baseUrl}`);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private async getActiveUsers(): Promise<OneLoginUser[]> {
+    const users = await this.apiCallPaginated<OneLoginUser>('/users');
+    return users.filter(user => user.status === USER_STATUS_ACTIVE);
+  }
+
+  /**
+   * Discover applications
+   */
+  async discoverApps(): Promise<DiscoveredApp[]> {
+    try {
+      console.log('[OneLogin] Starting app discovery...');
+
+      const apps = await this.apiCallPaginated<OneLoginApp>('/apps');
+      const discoveredApps: DiscoveredApp[] = apps.map(app => ({
+        externalId: String(app.id),
+        name: app.name,
+        logoUrl: app.icon_url,
+        permissions: [],
+        metadata: {
+          description: app.description,
+          connectorId: app.connector_id,
+          authMethod: app.auth_method,
+          visible: app.visible,
+        }
+      }));
+
+      console.log(`[OneLogin] Discovered ${discoveredApps.length} apps`);
+      return discoveredApps;
+    } catch (error) {
+      console.error('[OneLogin] Error discovering apps:', error);
+      throw new Error(`Failed to discover OneLogin apps: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Discover users assigned to each application
+   */
+  async discoverUserAccess(): Promise<DiscoveredUserAccess[]> {
+    try {
+      console.log('[OneLogin] Starting user access discovery...');
+
+      const activeUsers = new Map((await this.getActiveUsers()).map(user => [user.id, user]));
+      const userAccessList: DiscoveredUserAccess[] = [];
+
+      for (const app of await this.apiCallPaginated<OneLoginApp>('/apps')) {
+        const assigned = await this.apiCallPaginated<{ id: number }>(`/apps/${app.id}/users`);
+
+        for (const assignment of assigned) {
+          const user = activeUsers.get(assignment.id);
+          if (!user?.email) continue;
+
+          userAccessList.push({
+            userId: user.email,
+            appExternalId: String(app.id),
+            permissions: [],
+            grantedDate: new Date(user.created_at || app.created_at || Date.now()),
+          });
+        }
+      }
+
+      console.log(`[OneLogin] Discovered ${userAccessList.length} user access grants`);
+      return userAccessList;
+    } catch (error) {
+      console.error('[OneLogin] Error discovering user access:', error);
+      throw new Error(`Failed to discover user access: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * OneLogin does not expose end-user OAuth grants
+   */
+  async discoverOAuthTokens(): Promise<DiscoveredOAuthToken[]> {
+    console.log('[OneLogin] OAuth grant discovery not supported by the OneLogin API');
+    return [];
+  }
+
+  /**
+   * Sync users from OneLogin
+   */
+  async syncUsers(): Promise<{ usersAdded: number; usersUpdated: number }> {
+    try {
+      console.log('[OneLogin] Starting user sync...');
+      let usersAdded = 0;
+      let usersUpdated = 0;
+
+      const oneLoginUsers = await this.getActiveUsers();
+      console.log(`[OneLogin] Found ${oneLoginUsers.length} active users`);
+
+      for (const oneLoginUser of oneLoginUsers) {
+        try {
+          if (!oneLoginUser.email) {
+            console.log(`[OneLogin] Skipping user without email: ${oneLoginUser.username || oneLoginUser.id}`);
+            continue;
+          }
+
+          const outcome = await this.upsertDirectoryUser({
+            email: oneLoginUser.email,
+            firstName: oneLoginUser.firstname,
+            lastName: oneLoginUser.lastname,
+            department: oneLoginUser.department,
+            jobTitle: oneLoginUser.title,
+          });
+          if (outcome === 'added') usersAdded++;
+          if (outcome === 'updated') usersUpdated++;
+        } catch (userError) {
+          console.error(`[OneLogin] Error syncing user ${oneLoginUser.email}:`, userError);
+        }
+      }
+
+      console.log(`[OneLogin] User sync complete: ${usersAdded} added, ${usersUpdated} updated`);
+      return { usersAdded, usersUpdated };
+    } catch (error) {
+      console.error('[OneLogin] Error syncing users:', error);
+      throw new Error(`Failed to sync OneLogin users: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async findUser(userEmail: string): Promise<OneLoginUser> {
+    const matches = await this.apiCall<OneLoginUser[]>(`/users?email=${encodeURIComponent(userEmail)}`);
+    const user = (matches || []).find(match => match.email?.toLowerCase() === userEmail.toLowerCase());
+    if (!user) {
+      throw new Error(`User not found: ${userEmail}`);
+    }
+    return user;
+  }
+
+  /**
+   * Get the roles assigned to a user
+   */
+  async getUserGroups(userEmail: string): Promise<Array<{ id: string; displayName: string }>> {
+    try {
+      const user = await this.findUser(userEmail);
+      const roleIds = await this.apiCall<number[]>(`/users/${user.id}/roles`);
+
+      const roles = (roleIds || []).map(id => ({ id: String(id), displayName: String(id) }));
+      console.log(`[OneLogin] Found ${roles.length} roles for user ${userEmail}`);
+      return roles;
+    } catch (error) {
+      console.error(`[OneLogin] Error getting user roles:`, error);
+      throw new Error(`Failed to get user roles: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Remove user from a role
+   */
+  async removeUserFromGroup(userEmail: string, roleId: string): Promise<void> {
+    try {
+      const user = await this.findUser(userEmail);
+      await this.apiCall(`/roles/${encodeURIComponent(roleId)}/users`, {
+        method: 'DELETE',
+        body: JSON.stringify([user.id]),
+      });
+      console.log(`[OneLogin] Removed user ${userEmail} from role ${roleId}`);
+    } catch (error) {
+      if (error instanceof IdPApiError && error.status === 404) return; // Already removed
+      console.error(`[OneLogin] Error removing user from role:`, error);
+      throw new Error(`Failed to remove user from role: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Remove user from all roles
+   */
+  async removeUserFromAllGroups(userEmail: string): Promise<number> {
+    try {
+      const roles = await this.getUserGroups(userEmail);
+
+      let removedCount = 0;
+      for (const role of roles) {
+        try {
+          await this.removeUserFromGroup(userEmail, role.id);
+          removedCount++;
+        } catch (error) {
+          console.warn(`[OneLogin] Failed to remove user from role ${role.displayName}:`, error);
+        }
+      }
+
+      console.log(`[OneLogin] Removed user ${userEmail} from ${removedCount} roles`);
+      return removedCount;
+    } catch (error) {
+      console.error(`[OneLogin] Error removing user from all roles:`, error);
+      throw new Error(`Failed to remove user from all roles: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
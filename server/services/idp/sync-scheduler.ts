@@ -10,7 +10,12 @@ import { storage } from '../../storage';
 import { AzureADConnector } from './azuread-connector';
 import { GoogleWorkspaceConnector } from './google-connector';
 import { OktaConnector } from './okta-connector';
+import { KeycloakConnector } from './keycloak-connector';
+import { JumpCloudConnector } from './jumpcloud-connector';
+import { OneLoginConnector } from './onelogin-connector';
+import { LdapConnector } from './ldap-connector';
 import { ShadowITDetector } from '../shadowit-detector';
+import { SodService } from '../advanced/sod';
 import { decrypt } from '../encryption';
 import type { IdPConnector } from './connector.interface';
 
@@ -117,12 +122,12 @@ export class IdPSyncScheduler {
   /**
    * Create IdP connector instance
    */
-  private async createConnector(provider: any, tenantId: string): Promise<IdPConnector> {
+  async createConnector(provider: any, tenantId: string): Promise<IdPConnector> {
     // Decrypt client secret
-    const decryptedSecret = decrypt(provider.clientSecret);
+    const decryptedSecret = provider.clientSecret ? decrypt(provider.clientSecret) : '';
 
     const config = {
-      clientId: provider.clientId,
+      clientId: provider.clientId || '',
       clientSecret: decryptedSecret,
       tenantDomain: provider.tenantDomain || undefined,
       scopes: provider.scopes || [],
@@ -140,6 +145,18 @@ export class IdPSyncScheduler {
       case 'okta':
         return new OktaConnector(config, tenantId, provider.id);
 
+      case 'keycloak':
+        return new KeycloakConnector(config, tenantId, provider.id);
+
+      case 'jumpcloud':
+        return new JumpCloudConnector(config, tenantId, provider.id);
+
+      case 'onelogin':
+        return new OneLoginConnector(config, tenantId, provider.id);
+
+      case 'ldap':
+        return new LdapConnector(config, tenantId, provider.id);
+
       default:
         throw new Error(`Unsupported provider type: ${provider.type}`);
     }
@@ -209,6 +226,13 @@ export class IdPSyncScheduler {
         console.log(`  - Shadow IT detected: ${processingStats.shadowITDetected}`);
         console.log(`  - High risk apps: ${processingStats.highRiskApps}`);
 
+        // Discovered app roles and groups feed the entitlement catalog behind SoD rules
+        try {
+          await new SodService(tenantId).refreshEntitlementCatalog();
+        } catch (catalogError) {
+          console.error(`[Scheduler] Entitlement catalog refresh failed for ${provider.name}:`, catalogError);
+        }
+
         // Update provider stats
         await storage.updateIdentityProvider(providerId, tenantId, {
           totalApps: syncResult.appsDiscovered,
@@ -20,6 +20,7 @@
 
 import { storage } from '../../storage';
 import { policyEngine } from '../policy/engine';
+import type { EventData, PolicyEvent } from '../policy/event-system';
 import { validateUrl } from '../../utils/url-validator';
 
 // Allowed SIEM provider hosts for validation
@@ -155,6 +156,7 @@ export interface SIEMEvent {
   app?: string;
   device?: string;
   ip?: string;
+  deliveryId?: string;  // Outbox event ID; logged per integration so retries skip integrations already sent to
 }
 
 /**
@@ -168,7 +170,6 @@ export class SIEMIntegrationService {
 
   constructor(tenantId: string) {
     this.tenantId = tenantId;
-    this.initializeEventListeners();
   }
 
   /**
@@ -196,115 +197,6 @@ export class SIEMIntegrationService {
     }
   }
 
-  /**
-   * Initialize event listeners for security events
-   */
-  private initializeEventListeners(): void {
-    const eventSystem = policyEngine.getEventSystem();
-
-    // Shadow IT detection
-    eventSystem.on('app.discovered', (data) => {
-      if (data.tenantId === this.tenantId && data.approvalStatus === 'pending') {
-        this.queueEvent({
-          eventType: 'shadow_it',
-          timestamp: new Date(),
-          severity: data.riskLevel || 'medium',
-          source: 'shadow_it_detector',
-          sourceId: data.appId || '',
-          message: `Shadow IT detected: ${data.appName}`,
-          details: data,
-          app: data.appName,
-        });
-      }
-    });
-
-    // OAuth events
-    eventSystem.on('oauth.risky_permission', (data) => {
-      if (data.tenantId === this.tenantId) {
-        this.queueEvent({
-          eventType: 'oauth_grant',
-          timestamp: new Date(),
-          severity: data.riskLevel || 'high',
-          source: 'oauth_analyzer',
-          sourceId: data.appId || '',
-          message: `Risky OAuth permissions granted to ${data.appName}`,
-          details: data,
-          app: data.appName,
-          user: data.userEmail,
-        });
-      }
-    });
-
-    // Policy violations
-    eventSystem.on('policy.violation', (data) => {
-      if (data.tenantId === this.tenantId) {
-        this.queueEvent({
-          eventType: 'policy_violation',
-          timestamp: new Date(),
-          severity: 'high',
-          source: 'policy_engine',
-          sourceId: data.policyId || '',
-          message: `Policy violation: ${data.policyName}`,
-          details: data,
-        });
-      }
-    });
-
-    // Remediation events
-    eventSystem.on('remediation.executed', (data) => {
-      if (data.tenantId === this.tenantId) {
-        this.queueEvent({
-          eventType: 'remediation',
-          timestamp: new Date(),
-          severity: 'medium',
-          source: 'remediation_engine',
-          sourceId: data.executionId || '',
-          message: `Remediation executed: ${data.actionType}`,
-          details: data,
-        });
-      }
-    });
-
-    // Alert events
-    eventSystem.on('alert.created', (data) => {
-      if (data.tenantId === this.tenantId) {
-        this.queueEvent({
-          eventType: 'alert',
-          timestamp: new Date(),
-          severity: data.severity || 'medium',
-          source: 'alert_engine',
-          sourceId: data.alertId || '',
-          message: data.title || 'Security alert',
-          details: data,
-        });
-      }
-    });
-
-    // DLP violations
-    eventSystem.on('dlp.violation', (data) => {
-      if (data.tenantId === this.tenantId) {
-        this.queueEvent({
-          eventType: 'dlp_violation',
-          timestamp: new Date(),
-          severity: data.severity || 'high',
-          source: 'casb',
-          sourceId: data.eventId || '',
-          message: `DLP violation: ${data.policyName}`,
-          details: data,
-          user: data.userEmail,
-          app: data.appName,
-        });
-      }
-    });
-  }
-
-  /**
-   * Queue event for sending
-   */
-  private queueEvent(event: SIEMEvent): void {
-    this.eventBuffer.push(event);
-  }
-
   /**
    * Start flush timer for an integration
    */
@@ -350,6 +242,40 @@ export class SIEMIntegrationService {
     }
   }
 
+  /**
+   * Send a single event to every matching active integration immediately.
+   * Throws if any integration rejects it so the event bus retries the delivery;
+   * a retry only sends to the integrations that have not logged the event as sent.
+   */
+  async deliverEvent(event: SIEMEvent): Promise<void> {
+    const integrations = await storage.getSIEMIntegrations(this.tenantId);
+    const alreadySent = new Set(
+      event.deliveryId ? await storage.getSIEMIntegrationIdsSentEvent(this.tenantId, event.deliveryId) : []
+    );
+    const failures: string[] = [];
+
+    for (const integration of integrations) {
+      if (integration.status !== 'active') continue;
+      if (alreadySent.has(integration.id)) continue;
+      if (!integration.eventTypesEnabled.includes(event.eventType)) continue;
+      if (!this.checkSeverity(event.severity, integration.severityFilter)) continue;
+
+      try {
+        await this.sendEvents(integration, [event]);
+      } catch (error: any) {
+        console.error(`[SIEM] Failed to send event to ${integration.name}:`, error);
+        await storage.updateSIEMIntegration(integration.id, this.tenantId, {
+          errorsCount: integration.errorsCount + 1,
+        });
+        failures.push(`${integration.name}: ${error.message}`);
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new Error(`SIEM delivery failed for ${failures.join('; ')}`);
+    }
+  }
+
   /**
    * Check if event severity meets filter
    */
@@ -382,7 +308,7 @@ export class SIEMIntegrationService {
         tenantId: this.tenantId,
         integrationId: integration.id,
         eventType: event.eventType,
-        eventId: event.sourceId,
+        eventId: event.deliveryId || event.sourceId,
         severity: event.severity,
         eventData: event.details,
         formattedEvent: this.formatEvent(event, integration),
@@ -920,3 +846,118 @@ export interface SIEMStats {
 }
 
 export const createSIEMIntegrationService = (tenantId: string) => new SIEMIntegrationService(tenantId);
+
+/**
+ * Map an event bus event to the SIEM event format (null when it should not be exported)
+ */
+function toSIEMEvent(event: PolicyEvent, data: EventData): SIEMEvent | null {
+  switch (event) {
+    // Shadow IT detection
+    case 'app.discovered':
+      if (data.approvalStatus !== 'pending') return null;
+      return {
+        eventType: 'shadow_it',
+        timestamp: new Date(),
+        severity: data.riskLevel || 'medium',
+        source: 'shadow_it_detector',
+        sourceId: data.appId || '',
+        message: `Shadow IT detected: ${data.appName}`,
+        details: data,
+        app: data.appName,
+      };
+
+    // OAuth events
+    case 'oauth.risky_permission':
+      return {
+        eventType: 'oauth_grant',
+        timestamp: new Date(),
+        severity: data.riskLevel || 'high',
+        source: 'oauth_analyzer',
+        sourceId: data.appId || '',
+        message: `Risky OAuth permissions granted to ${data.appName}`,
+        details: data,
+        app: data.appName,
+        user: data.userEmail,
+      };
+
+    // Policy violations
+    case 'policy.violation':
+      return {
+        eventType: 'policy_violation',
+        timestamp: new Date(),
+        severity: 'high',
+        source: 'policy_engine',
+        sourceId: data.policyId || '',
+        message: `Policy violation: ${data.policyName}`,
+        details: data,
+      };
+
+    // Remediation events
+    case 'remediation.executed':
+      return {
+        eventType: 'remediation',
+        timestamp: new Date(),
+        severity: 'medium',
+        source: 'remediation_engine',
+        sourceId: data.executionId || '',
+        message: `Remediation executed: ${data.actionType}`,
+        details: data,
+      };
+
+    // Alert events
+    case 'alert.created':
+      return {
+        eventType: 'alert',
+        timestamp: new Date(),
+        severity: data.severity || 'medium',
+        source: 'alert_engine',
+        sourceId: data.alertId || '',
+        message: data.title || 'Security alert',
+        details: data,
+      };
+
+    // DLP violations
+    case 'dlp.violation':
+      return {
+        eventType: 'dlp_violation',
+        timestamp: new Date(),
+        severity: data.severity || 'high',
+        source: 'casb',
+        sourceId: data.eventId || '',
+        message: `DLP violation: ${data.policyName}`,
+        details: data,
+        user: data.userEmail,
+        app: data.appName,
+      };
+
+    default:
+      return null;
+  }
+}
+
+const SIEM_EXPORTED_EVENTS: PolicyEvent[] = [
+  'app.discovered',
+  'oauth.risky_permission',
+  'policy.violation',
+  'remediation.executed',
+  'alert.created',
+  'dlp.violation',
+];
+
+/**
+ * Register SIEM export as a durable event bus consumer (once per process)
+ */
+function registerSIEMEventConsumer(): void {
+  const eventSystem = policyEngine.getEventSystem();
+
+  for (const event of SIEM_EXPORTED_EVENTS) {
+    eventSystem.subscribe('siem', event, async (data, context) => {
+      const siemEvent = toSIEMEvent(event, data);
+      if (!siemEvent) return;
+
+      await new SIEMIntegrationService(data.tenantId).deliverEvent({ ...siemEvent, deliveryId: context?.eventId });
+    });
+  }
+}
+
+registerSIEMEventConsumer();
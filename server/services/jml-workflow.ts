@@ -61,7 +61,7 @@ export interface MoverMetadata {
 export interface LeaverMetadata {
   department: string;
   lastWorkingDay: Date;
-  terminationType: 'voluntary' | 'involuntary' | 'retirement' | 'contract_end';
+  terminationType: 'voluntary' | 'involuntary' | 'retirement' | 'contract_end' | 'unspecified';
   transferTo?: string;
   appsToRevoke: string[];
   immediateRevocation: boolean;
@@ -0,0 +1,526 @@
+/**
+ * MFA Service (Phase 6.2)
+ *
+ * Second-factor enrollment and step-up verification:
+ * - TOTP enrollment (RFC 6238) confirmed with a first valid code
+ * - Login MFA with one-time recovery codes, enforceable per tenant for admins
+ * - WebAuthn security key / platform authenticator registration
+ * - Single-use, short-lived challenges bound to a purpose and resource
+ * - Per-challenge attempt limits and a per-user lockout window
+ * - TOTP replay protection and WebAuthn signature counter tracking
+ */
+
+import { storage } from '../../storage';
+import { encrypt, decrypt } from '../encryption';
+import type { Tenant, UserMfaFactor } from '@shared/schema';
+import { ROLES, migrateRole } from '../auth';
+import { generateTotpSecret, buildOtpAuthUri, verifyTotp } from './totp';
+import { generateRecoveryCodes, hashRecoveryCode } from './recovery-codes';
+import {
+  generateChallenge,
+  getRelyingParty,
+  verifyRegistrationResponse,
+  verifyAuthenticationResponse,
+  SUPPORTED_ALGORITHMS,
+  WebAuthnVerificationError,
+  type RegistrationResponse,
+  type AuthenticationResponse,
+} from './webauthn';
+
+export type MfaFactorType = 'totp' | 'webauthn';
+export type MfaMethod = MfaFactorType | 'recovery_code';
+export type MfaChallengePurpose = 'login' | 'jit_activation' | 'webauthn_registration';
+
+export type MfaErrorCode = 'not_enrolled' | 'challenge_invalid' | 'invalid_response' | 'rate_limited' | 'factor_not_found' | 'mfa_required';
+
+export class MfaVerificationError extends Error {
+  constructor(
+    message: string,
+    public code: MfaErrorCode,
+    public statusCode: number,
+    public details: { attemptsRemaining?: number; retryAfterSeconds?: number } = {}
+  ) {
+    super(message);
+    this.name = 'MfaVerificationError';
+  }
+}
+
+export type MfaResponse =
+  | { challengeId: string; type: 'totp'; code: string }
+  | { challengeId: string; type: 'webauthn'; credential: AuthenticationResponse }
+  | { challengeId: string; type: 'recovery_code'; code: string };
+
+export interface MfaFactorSummary {
+  id: string;
+  type: string;
+  name: string;
+  status: string;
+  verifiedAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date | null;
+}
+
+export interface MfaChallengeOptions {
+  challengeId: string;
+  expiresAt: Date;
+  methods: MfaMethod[];
+  webauthn?: {
+    challenge: string;
+    rpId: string;
+    timeout: number;
+    userVerification: 'preferred';
+    allowCredentials: Array<{ type: 'public-key'; id: string; transports?: string[] }>;
+  };
+}
+
+export interface MfaVerificationResult {
+  factorId: string;
+  method: MfaMethod;
+}
+
+export interface LoginMfaStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// Roles that must use login MFA when the tenant's requireMFA setting is on
+export const MFA_ENFORCED_ROLES: string[] = [ROLES.ADMIN, ROLES.SUPER_ADMIN];
+
+export function isLoginMfaRequired(tenant: Pick<Tenant, 'requireMFA'> | undefined, role: string): boolean {
+  return !!tenant?.requireMFA && MFA_ENFORCED_ROLES.includes(migrateRole(role));
+}
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS_PER_CHALLENGE = 5;
+const USER_FAILURE_LIMIT = 10;
+const LOCKOUT_WINDOW_MS = 15 * 60 * 1000;
+
+function toSummary(factor: UserMfaFactor): MfaFactorSummary {
+  return {
+    id: factor.id,
+    type: factor.type,
+    name: factor.name,
+    status: factor.status,
+    verifiedAt: factor.verifiedAt,
+    lastUsedAt: factor.lastUsedAt,
+    createdAt: factor.createdAt,
+  };
+}
+
+/**
+ * MFA Service
+ */
+export class MfaService {
+  constructor(private tenantId: string) {}
+
+  /**
+   * List a user's factors without secrets or key material
+   */
+  async getFactors(userId: string): Promise<MfaFactorSummary[]> {
+    const factors = await storage.getUserMfaFactors(this.tenantId, userId);
+    return factors.map(toSummary);
+  }
+
+  async hasActiveFactor(userId: string): Promise<boolean> {
+    const factors = await storage.getUserMfaFactors(this.tenantId, userId, { status: 'active' });
+    return factors.length > 0;
+  }
+
+  /**
+   * Login MFA is on for a user once they have an active authenticator app
+   */
+  async hasLoginMfa(userId: string): Promise<boolean> {
+    const factors = await storage.getUserMfaFactors(this.tenantId, userId, { type: 'totp', status: 'active' });
+    return factors.length > 0;
+  }
+
+  async isLoginMfaRequired(userId: string): Promise<boolean> {
+    const [tenant, user] = await Promise.all([storage.getTenant(this.tenantId), storage.getUser(userId)]);
+    return !!user && isLoginMfaRequired(tenant, user.role);
+  }
+
+  async getLoginMfaStatus(userId: string): Promise<LoginMfaStatus> {
+    const [enabled, required, recoveryCodesRemaining] = await Promise.all([
+      this.hasLoginMfa(userId),
+      this.isLoginMfaRequired(userId),
+      storage.countUnusedMfaRecoveryCodes(this.tenantId, userId),
+    ]);
+    return { enabled, required, recoveryCodesRemaining };
+  }
+
+  /**
+   * Replace the user's recovery codes; the plaintext codes are only returned here
+   */
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    if (!(await this.hasLoginMfa(userId))) {
+      throw new MfaVerificationError('Enroll an authenticator app before generating recovery codes', 'not_enrolled', 409);
+    }
+
+    const codes = generateRecoveryCodes();
+    await storage.replaceMfaRecoveryCodes(this.tenantId, userId, codes.map(hashRecoveryCode));
+
+    console.log(`[MFA] Generated ${codes.length} recovery codes for user ${userId}`);
+    return codes;
+  }
+
+  /**
+   * Issue recovery codes after the first authenticator app is enrolled
+   */
+  async ensureRecoveryCodes(userId: string): Promise<string[] | undefined> {
+    const remaining = await storage.countUnusedMfaRecoveryCodes(this.tenantId, userId);
+    return remaining > 0 ? undefined : this.regenerateRecoveryCodes(userId);
+  }
+
+  /**
+   * Remove every authenticator app and recovery code (lost device reset by an admin)
+   */
+  async resetLoginMfa(userId: string): Promise<number> {
+    const factors = await storage.getUserMfaFactors(this.tenantId, userId, { type: 'totp' });
+    for (const factor of factors) {
+      await storage.deleteUserMfaFactor(factor.id, this.tenantId);
+    }
+    await storage.deleteMfaRecoveryCodes(this.tenantId, userId);
+
+    console.log(`[MFA] Reset login MFA for user ${userId} (${factors.length} authenticator apps removed)`);
+    return factors.length;
+  }
+
+  /**
+   * Start TOTP enrollment; the factor stays pending until confirmed with a valid code
+   */
+  async startTotpEnrollment(
+    user: { id: string; email: string },
+    name?: string
+  ): Promise<{ factorId: string; secret: string; otpauthUri: string }> {
+    const secret = generateTotpSecret();
+    const issuer = getRelyingParty().name;
+
+    const factor = await storage.createUserMfaFactor({
+      tenantId: this.tenantId,
+      userId: user.id,
+      type: 'totp',
+      name: name || 'Authenticator app',
+      status: 'pending',
+      secretEncrypted: encrypt(secret),
+    });
+
+    console.log(`[MFA] Started TOTP enrollment ${factor.id} for user ${user.id}`);
+
+    return {
+      factorId: factor.id,
+      secret,
+      otpauthUri: buildOtpAuthUri(secret, user.email, issuer),
+    };
+  }
+
+  /**
+   * Confirm TOTP enrollment with the first code from the authenticator app
+   */
+  async confirmTotpEnrollment(userId: string, factorId: string, code: string): Promise<MfaFactorSummary> {
+    const factor = await storage.getUserMfaFactor(factorId, this.tenantId);
+    if (!factor || factor.userId !== userId || factor.type !== 'totp') {
+      throw new MfaVerificationError('MFA factor not found', 'factor_not_found', 404);
+    }
+    if (factor.status !== 'pending') {
+      throw new MfaVerificationError('Factor is already verified', 'challenge_invalid', 400);
+    }
+
+    const step = verifyTotp(decrypt(factor.secretEncrypted || ''), code);
+    if (step === null) {
+      throw new MfaVerificationError('Invalid verification code', 'invalid_response', 400);
+    }
+
+    const updated = await storage.updateUserMfaFactor(factorId, this.tenantId, {
+      status: 'active',
+      verifiedAt: new Date(),
+      lastUsedStep: step,
+    });
+
+    console.log(`[MFA] TOTP factor ${factorId} activated for user ${userId}`);
+    return toSummary(updated!);
+  }
+
+  /**
+   * Start WebAuthn registration and return PublicKeyCredentialCreationOptions
+   */
+  async startWebAuthnRegistration(user: { id: string; email: string; name: string }): Promise<{ challengeId: string; options: Record<string, any> }> {
+    const rp = getRelyingParty();
+    const challenge = await this.issueChallenge(user.id, 'webauthn_registration', null);
+    const existing = await storage.getUserMfaFactors(this.tenantId, user.id, { type: 'webauthn' });
+
+    return {
+      challengeId: challenge.id,
+      options: {
+        challenge: challenge.challenge,
+        rp: { id: rp.id, name: rp.name },
+        user: {
+          id: Buffer.from(user.id).toString('base64url'),
+          name: user.email,
+          displayName: user.name,
+        },
+        pubKeyCredParams: SUPPORTED_ALGORITHMS.map(alg => ({ type: 'public-key', alg })),
+        timeout: CHALLENGE_TTL_MS,
+        attestation: 'none',
+        authenticatorSelection: { userVerification: 'preferred', residentKey: 'discouraged' },
+        excludeCredentials: existing
+          .filter(f => f.credentialId)
+          .map(f => ({ type: 'public-key', id: f.credentialId, transports: f.transports || undefined })),
+      },
+    };
+  }
+
+  /**
+   * Verify the authenticator's attestation and store the credential
+   */
+  async finishWebAuthnRegistration(
+    userId: string,
+    challengeId: string,
+    credential: RegistrationResponse,
+    name?: string
+  ): Promise<MfaFactorSummary> {
+    const challenge = await this.loadChallenge(userId, challengeId, 'webauthn_registration', null);
+
+    let verified;
+    try {
+      verified = verifyRegistrationResponse(credential, challenge.challenge);
+    } catch (error) {
+      await storage.recordMfaChallengeFailure(challenge.id, this.tenantId);
+      throw new MfaVerificationError(
+        error instanceof WebAuthnVerificationError ? error.message : 'Invalid registration response',
+        'invalid_response',
+        400
+      );
+    }
+
+    if (await storage.getMfaFactorByCredentialId(verified.credentialId)) {
+      throw new MfaVerificationError('This authenticator is already registered', 'invalid_response', 400);
+    }
+
+    await this.consumeChallenge(challenge.id);
+
+    const factor = await storage.createUserMfaFactor({
+      tenantId: this.tenantId,
+      userId,
+      type: 'webauthn',
+      name: name || 'Security key',
+      status: 'active',
+      credentialId: verified.credentialId,
+      publicKey: verified.publicKey,
+      signCount: verified.signCount,
+      transports: verified.transports,
+      verifiedAt: new Date(),
+    });
+
+    console.log(`[MFA] WebAuthn factor ${factor.id} registered for user ${userId}`);
+    return toSummary(factor);
+  }
+
+  async removeFactor(userId: string, factorId: string): Promise<void> {
+    const factor = await storage.getUserMfaFactor(factorId, this.tenantId);
+    if (!factor || factor.userId !== userId) {
+      throw new MfaVerificationError('MFA factor not found', 'factor_not_found', 404);
+    }
+
+    const isLastAuthenticator = factor.type === 'totp' && factor.status === 'active' &&
+      (await storage.getUserMfaFactors(this.tenantId, userId, { type: 'totp', status: 'active' })).length === 1;
+
+    if (isLastAuthenticator && await this.isLoginMfaRequired(userId)) {
+      throw new MfaVerificationError(
+        'Your organization requires MFA for your role. Enroll another authenticator app before removing this one.',
+        'mfa_required',
+        409
+      );
+    }
+
+    await storage.deleteUserMfaFactor(factorId, this.tenantId);
+    if (isLastAuthenticator) {
+      // Recovery codes only stand in for an authenticator app, so they go with the last one
+      await storage.deleteMfaRecoveryCodes(this.tenantId, userId);
+    }
+    console.log(`[MFA] Removed ${factor.type} factor ${factorId} for user ${userId}`);
+  }
+
+  /**
+   * Issue a step-up challenge for an action on a resource
+   */
+  async createChallenge(userId: string, purpose: MfaChallengePurpose, resourceId: string): Promise<MfaChallengeOptions> {
+    await this.assertNotLockedOut(userId);
+
+    // Login MFA is authenticator app + recovery codes; security keys are for step-up only
+    const factors = (await storage.getUserMfaFactors(this.tenantId, userId, { status: 'active' }))
+      .filter(f => purpose !== 'login' || f.type === 'totp');
+    if (factors.length === 0) {
+      throw new MfaVerificationError('No MFA factor enrolled. Enroll an authenticator app or security key first.', 'not_enrolled', 409);
+    }
+
+    const challenge = await this.issueChallenge(userId, purpose, resourceId);
+    const webauthnFactors = factors.filter(f => f.type === 'webauthn' && f.credentialId);
+    const methods: MfaMethod[] = Array.from(new Set(factors.map(f => f.type as MfaFactorType)));
+    if (purpose === 'login' && await storage.countUnusedMfaRecoveryCodes(this.tenantId, userId) > 0) {
+      methods.push('recovery_code');
+    }
+
+    return {
+      challengeId: challenge.id,
+      expiresAt: challenge.expiresAt,
+      methods,
+      webauthn: webauthnFactors.length > 0
+        ? {
+            challenge: challenge.challenge,
+            rpId: getRelyingParty().id,
+            timeout: CHALLENGE_TTL_MS,
+            userVerification: 'preferred',
+            allowCredentials: webauthnFactors.map(f => ({
+              type: 'public-key' as const,
+              id: f.credentialId!,
+              transports: f.transports || undefined,
+            })),
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Verify a response to a step-up challenge; the challenge is consumed on success
+   */
+  async verifyChallenge(
+    userId: string,
+    purpose: MfaChallengePurpose,
+    resourceId: string,
+    response: MfaResponse
+  ): Promise<MfaVerificationResult> {
+    await this.assertNotLockedOut(userId);
+
+    const challenge = await this.loadChallenge(userId, response?.challengeId, purpose, resourceId);
+
+    const result = response.type === 'webauthn'
+      ? await this.verifyWebAuthn(userId, challenge.challenge, response.credential)
+      : response.type === 'totp'
+        ? await this.verifyTotpCode(userId, response.code)
+        : response.type === 'recovery_code' && purpose === 'login'
+          ? await this.useRecoveryCode(userId, response.code)
+          : null;
+
+    if (!result) {
+      const updated = await storage.recordMfaChallengeFailure(challenge.id, this.tenantId);
+      const attemptsRemaining = Math.max(0, MAX_ATTEMPTS_PER_CHALLENGE - (updated?.failedAttempts || 0));
+      console.warn(`[MFA] Failed ${response?.type} verification for user ${userId} (${attemptsRemaining} attempts left on challenge)`);
+      throw new MfaVerificationError('MFA verification failed', 'invalid_response', 400, { attemptsRemaining });
+    }
+
+    await this.consumeChallenge(challenge.id);
+    return result;
+  }
+
+  private async verifyTotpCode(userId: string, code: string): Promise<MfaVerificationResult | null> {
+    const factors = await storage.getUserMfaFactors(this.tenantId, userId, { type: 'totp', status: 'active' });
+
+    for (const factor of factors) {
+      const step = verifyTotp(decrypt(factor.secretEncrypted || ''), code, { lastUsedStep: factor.lastUsedStep });
+      if (step === null) continue;
+
+      // Loses the race if the same code was accepted concurrently
+      const advanced = await storage.advanceMfaFactorTotpStep(factor.id, this.tenantId, step);
+      if (advanced) {
+        return { factorId: factor.id, method: 'totp' };
+      }
+    }
+
+    return null;
+  }
+
+  private async useRecoveryCode(userId: string, code: string): Promise<MfaVerificationResult | null> {
+    const used = await storage.useMfaRecoveryCode(this.tenantId, userId, hashRecoveryCode(code));
+    if (!used) {
+      return null;
+    }
+
+    console.log(`[MFA] Recovery code used by user ${userId}`);
+    return { factorId: used.id, method: 'recovery_code' };
+  }
+
+  private async verifyWebAuthn(
+    userId: string,
+    expectedChallenge: string,
+    credential: AuthenticationResponse
+  ): Promise<MfaVerificationResult | null> {
+    const factor = credential?.id ? await storage.getMfaFactorByCredentialId(credential.id) : undefined;
+    if (!factor || factor.tenantId !== this.tenantId || factor.userId !== userId || factor.status !== 'active' || !factor.publicKey) {
+      return null;
+    }
+
+    try {
+      const verified = verifyAuthenticationResponse(credential, expectedChallenge, {
+        publicKey: factor.publicKey,
+        signCount: factor.signCount || 0,
+      });
+
+      await storage.updateUserMfaFactor(factor.id, this.tenantId, {
+        signCount: verified.signCount,
+        lastUsedAt: new Date(),
+      });
+
+      return { factorId: factor.id, method: 'webauthn' };
+    } catch (error) {
+      if (error instanceof WebAuthnVerificationError) {
+        console.warn(`[MFA] WebAuthn assertion rejected for factor ${factor.id}: ${error.message}`);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async assertNotLockedOut(userId: string): Promise<void> {
+    const failures = await storage.countRecentMfaFailures(
+      this.tenantId,
+      userId,
+      new Date(Date.now() - LOCKOUT_WINDOW_MS)
+    );
+
+    if (failures >= USER_FAILURE_LIMIT) {
+      throw new MfaVerificationError(
+        'Too many failed MFA attempts. Try again later.',
+        'rate_limited',
+        429,
+        { retryAfterSeconds: LOCKOUT_WINDOW_MS / 1000 }
+      );
+    }
+  }
+
+  private async issueChallenge(userId: string, purpose: MfaChallengePurpose, resourceId: string | null) {
+    return storage.createMfaChallenge({
+      tenantId: this.tenantId,
+      userId,
+      purpose,
+      resourceId,
+      challenge: generateChallenge(),
+      expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS),
+    });
+  }
+
+  private async loadChallenge(userId: string, challengeId: string, purpose: MfaChallengePurpose, resourceId: string | null) {
+    const challenge = challengeId ? await storage.getMfaChallenge(challengeId, this.tenantId) : undefined;
+
+    if (
+      !challenge ||
+      challenge.userId !== userId ||
+      challenge.purpose !== purpose ||
+      (challenge.resourceId ?? null) !== resourceId ||
+      challenge.consumedAt ||
+      challenge.expiresAt < new Date() ||
+      (challenge.failedAttempts || 0) >= MAX_ATTEMPTS_PER_CHALLENGE
+    ) {
+      throw new MfaVerificationError('MFA challenge is invalid or expired. Request a new challenge.', 'challenge_invalid', 400);
+    }
+
+    return challenge;
+  }
+
+  private async consumeChallenge(challengeId: string): Promise<void> {
+    const consumed = await storage.consumeMfaChallenge(challengeId, this.tenantId);
+    if (!consumed) {
+      throw new MfaVerificationError('MFA challenge has already been used', 'challenge_invalid', 400);
+    }
+  }
+}
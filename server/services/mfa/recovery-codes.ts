@@ -0,0 +1,36 @@
+/**
+ * MFA Recovery Codes
+ *
+ * One-time backup codes that stand in for the authenticator app at login:
+ * - 10 codes per user, shown once and stored only as SHA-256 hashes
+ * - 10 characters from an unambiguous alphabet, displayed as XXXXX-XXXXX
+ * - Input is normalized so case, spaces and dashes don't matter
+ */
+
+import crypto from 'crypto';
+
+// No 0/O, 1/I/L to keep codes readable when copied by hand
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const RECOVERY_CODE_LENGTH = 10;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+export function generateRecoveryCode(): string {
+  let code = '';
+  for (let i = 0; i < RECOVERY_CODE_LENGTH; i++) {
+    code += RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)];
+  }
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => generateRecoveryCode());
+}
+
+export function normalizeRecoveryCode(code: string): string {
+  return (code || '').toUpperCase().replace(/[\s-]+/g, '');
+}
+
+export function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
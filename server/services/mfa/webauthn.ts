@@ -0,0 +1,326 @@
+/**
+ * WebAuthn (Level 2) Relying Party Verification
+ *
+ * Minimal server-side ceremony checks for security keys and platform authenticators:
+ * - Registration: client data, RP ID hash, user presence and credential public key
+ *   extraction (attestation is requested as 'none'; the statement is not verified)
+ * - Authentication: client data, RP ID hash, user presence, signature over
+ *   authenticatorData || SHA-256(clientDataJSON) and signature counter regression
+ * - ES256, RS256 and EdDSA credential keys, stored as SPKI DER
+ */
+
+import crypto from 'crypto';
+
+export interface WebAuthnRelyingParty {
+  id: string;
+  name: string;
+  origins: string[];
+}
+
+export interface RegistrationResponse {
+  id: string;
+  rawId?: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface AuthenticationResponse {
+  id: string;
+  rawId?: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+export interface VerifiedRegistration {
+  credentialId: string;
+  publicKey: string;
+  signCount: number;
+  transports: string[];
+  userVerified: boolean;
+}
+
+export interface VerifiedAuthentication {
+  signCount: number;
+  userVerified: boolean;
+}
+
+export class WebAuthnVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebAuthnVerificationError';
+  }
+}
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+// COSE algorithm identifiers we accept, in order of preference
+export const SUPPORTED_ALGORITHMS = [-7, -8, -257];
+
+export function getRelyingParty(): WebAuthnRelyingParty {
+  const appUrl = process.env.APP_URL || 'http://localhost:5000';
+  const origins = (process.env.WEBAUTHN_ORIGINS || appUrl)
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+
+  return {
+    id: process.env.WEBAUTHN_RP_ID || new URL(appUrl).hostname,
+    name: process.env.WEBAUTHN_RP_NAME || 'AssetInfo',
+    origins,
+  };
+}
+
+export function generateChallenge(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * Decode the subset of CBOR (RFC 8949) used by WebAuthn: integers, byte/text
+ * strings, arrays, maps and simple values
+ */
+function decodeCbor(buffer: Buffer, start = 0): { value: any; offset: number } {
+  let offset = start;
+
+  const readLength = (info: number): number => {
+    if (info < 24) return info;
+    if (info === 24) return buffer.readUInt8(offset++);
+    if (info === 25) { const v = buffer.readUInt16BE(offset); offset += 2; return v; }
+    if (info === 26) { const v = buffer.readUInt32BE(offset); offset += 4; return v; }
+    if (info === 27) { const v = Number(buffer.readBigUInt64BE(offset)); offset += 8; return v; }
+    throw new WebAuthnVerificationError('Unsupported CBOR length encoding');
+  };
+
+  const decodeItem = (): any => {
+    if (offset >= buffer.length) {
+      throw new WebAuthnVerificationError('Truncated CBOR data');
+    }
+    const initial = buffer.readUInt8(offset++);
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return readLength(info);
+      case 1:
+        return -1 - readLength(info);
+      case 2: {
+        const length = readLength(info);
+        const bytes = buffer.subarray(offset, offset + length);
+        offset += length;
+        return Buffer.from(bytes);
+      }
+      case 3: {
+        const length = readLength(info);
+        const text = buffer.toString('utf8', offset, offset + length);
+        offset += length;
+        return text;
+      }
+      case 4: {
+        const length = readLength(info);
+        const items: any[] = [];
+        for (let i = 0; i < length; i++) items.push(decodeItem());
+        return items;
+      }
+      case 5: {
+        const length = readLength(info);
+        const map = new Map<any, any>();
+        for (let i = 0; i < length; i++) {
+          const key = decodeItem();
+          map.set(key, decodeItem());
+        }
+        return map;
+      }
+      case 7:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22 || info === 23) return null;
+        throw new WebAuthnVerificationError('Unsupported CBOR simple value');
+      default:
+        throw new WebAuthnVerificationError(`Unsupported CBOR major type ${major}`);
+    }
+  };
+
+  const value = decodeItem();
+  return { value, offset };
+}
+
+/**
+ * Convert a COSE_Key to a Node public key
+ */
+function coseToPublicKey(cose: Map<number, any>): crypto.KeyObject {
+  const kty = cose.get(1);
+  const alg = cose.get(3);
+
+  if (!SUPPORTED_ALGORITHMS.includes(alg)) {
+    throw new WebAuthnVerificationError(`Unsupported credential algorithm ${alg}`);
+  }
+
+  let jwk: crypto.JsonWebKey;
+  if (kty === 2 && cose.get(-1) === 1) {
+    jwk = { kty: 'EC', crv: 'P-256', x: cose.get(-2).toString('base64url'), y: cose.get(-3).toString('base64url') };
+  } else if (kty === 3) {
+    jwk = { kty: 'RSA', n: cose.get(-1).toString('base64url'), e: cose.get(-2).toString('base64url') };
+  } else if (kty === 1 && cose.get(-1) === 6) {
+    jwk = { kty: 'OKP', crv: 'Ed25519', x: cose.get(-2).toString('base64url') };
+  } else {
+    throw new WebAuthnVerificationError(`Unsupported credential key type ${kty}`);
+  }
+
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+interface ParsedAuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  credentialId?: Buffer;
+  credentialPublicKey?: Map<number, any>;
+}
+
+function parseAuthenticatorData(authData: Buffer): ParsedAuthenticatorData {
+  if (authData.length < 37) {
+    throw new WebAuthnVerificationError('Authenticator data is too short');
+  }
+
+  const parsed: ParsedAuthenticatorData = {
+    rpIdHash: authData.subarray(0, 32),
+    flags: authData.readUInt8(32),
+    signCount: authData.readUInt32BE(33),
+  };
+
+  if (parsed.flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    // aaguid (16 bytes) precedes the credential ID length
+    const idLength = authData.readUInt16BE(53);
+    parsed.credentialId = authData.subarray(55, 55 + idLength);
+    parsed.credentialPublicKey = decodeCbor(authData, 55 + idLength).value;
+  }
+
+  return parsed;
+}
+
+function verifyClientData(
+  clientDataJSON: string,
+  expectedType: 'webauthn.create' | 'webauthn.get',
+  expectedChallenge: string,
+  rp: WebAuthnRelyingParty
+): Buffer {
+  const raw = Buffer.from(clientDataJSON, 'base64url');
+
+  let clientData: { type?: string; challenge?: string; origin?: string };
+  try {
+    clientData = JSON.parse(raw.toString('utf8'));
+  } catch {
+    throw new WebAuthnVerificationError('Client data is not valid JSON');
+  }
+
+  if (clientData.type !== expectedType) {
+    throw new WebAuthnVerificationError(`Unexpected ceremony type ${clientData.type}`);
+  }
+  if (clientData.challenge !== expectedChallenge) {
+    throw new WebAuthnVerificationError('Challenge mismatch');
+  }
+  if (!clientData.origin || !rp.origins.includes(clientData.origin)) {
+    throw new WebAuthnVerificationError(`Unexpected origin ${clientData.origin}`);
+  }
+
+  return raw;
+}
+
+function verifyRpIdAndPresence(authData: ParsedAuthenticatorData, rp: WebAuthnRelyingParty): void {
+  const expectedHash = crypto.createHash('sha256').update(rp.id).digest();
+  if (!crypto.timingSafeEqual(authData.rpIdHash, expectedHash)) {
+    throw new WebAuthnVerificationError('RP ID mismatch');
+  }
+  if (!(authData.flags & FLAG_USER_PRESENT)) {
+    throw new WebAuthnVerificationError('User presence was not asserted');
+  }
+}
+
+/**
+ * Verify a navigator.credentials.create() response
+ */
+export function verifyRegistrationResponse(
+  credential: RegistrationResponse,
+  expectedChallenge: string,
+  rp: WebAuthnRelyingParty = getRelyingParty()
+): VerifiedRegistration {
+  if (credential?.type !== 'public-key' || !credential.response?.attestationObject) {
+    throw new WebAuthnVerificationError('Malformed registration response');
+  }
+
+  verifyClientData(credential.response.clientDataJSON, 'webauthn.create', expectedChallenge, rp);
+
+  const attestation = decodeCbor(Buffer.from(credential.response.attestationObject, 'base64url')).value;
+  if (!(attestation instanceof Map) || !Buffer.isBuffer(attestation.get('authData'))) {
+    throw new WebAuthnVerificationError('Malformed attestation object');
+  }
+
+  const authData = parseAuthenticatorData(attestation.get('authData'));
+  verifyRpIdAndPresence(authData, rp);
+
+  if (!authData.credentialId || !authData.credentialPublicKey) {
+    throw new WebAuthnVerificationError('Attestation does not include credential data');
+  }
+
+  const publicKey = coseToPublicKey(authData.credentialPublicKey);
+
+  return {
+    credentialId: authData.credentialId.toString('base64url'),
+    publicKey: publicKey.export({ format: 'der', type: 'spki' }).toString('base64url'),
+    signCount: authData.signCount,
+    transports: credential.response.transports || [],
+    userVerified: !!(authData.flags & FLAG_USER_VERIFIED),
+  };
+}
+
+/**
+ * Verify a navigator.credentials.get() response against a stored credential
+ */
+export function verifyAuthenticationResponse(
+  credential: AuthenticationResponse,
+  expectedChallenge: string,
+  stored: { publicKey: string; signCount: number },
+  rp: WebAuthnRelyingParty = getRelyingParty()
+): VerifiedAuthentication {
+  if (credential?.type !== 'public-key' || !credential.response?.authenticatorData || !credential.response?.signature) {
+    throw new WebAuthnVerificationError('Malformed authentication response');
+  }
+
+  const clientDataRaw = verifyClientData(credential.response.clientDataJSON, 'webauthn.get', expectedChallenge, rp);
+
+  const authDataRaw = Buffer.from(credential.response.authenticatorData, 'base64url');
+  const authData = parseAuthenticatorData(authDataRaw);
+  verifyRpIdAndPresence(authData, rp);
+
+  const key = crypto.createPublicKey({ key: Buffer.from(stored.publicKey, 'base64url'), format: 'der', type: 'spki' });
+  const signedData = Buffer.concat([authDataRaw, crypto.createHash('sha256').update(clientDataRaw).digest()]);
+  const signature = Buffer.from(credential.response.signature, 'base64url');
+
+  const valid = key.asymmetricKeyType === 'ed25519'
+    ? crypto.verify(null, signedData, key, signature)
+    : crypto.verify('sha256', signedData, key, signature);
+  if (!valid) {
+    throw new WebAuthnVerificationError('Invalid signature');
+  }
+
+  // A counter that fails to increase indicates a cloned authenticator
+  if ((authData.signCount > 0 || stored.signCount > 0) && authData.signCount <= stored.signCount) {
+    throw new WebAuthnVerificationError('Signature counter did not increase');
+  }
+
+  return {
+    signCount: authData.signCount,
+    userVerified: !!(authData.flags & FLAG_USER_VERIFIED),
+  };
+}
@@ -5,11 +5,13 @@
  * - Revoke all OAuth tokens for a user
  * - Invalidate refresh tokens
  * - Remove API keys
+ * - Clear Okta sessions and consent grants
  * - Log all revocations for audit
  */
 
 import { storage } from '../../storage';
 import { decrypt } from '../encryption';
+import { OktaConnector, VALID_OKTA_DOMAINS } from '../idp/okta-connector';
 
 // Timeout and retry configuration
 const REVOCATION_TIMEOUT_MS = 15000;  // 15 seconds
@@ -23,8 +25,6 @@ const ALLOWED_REVOCATION_HOSTS: Record<string, string[]> = {
   okta: [], // Dynamically validated as *.okta.com, *.oktapreview.com, etc.
 };
 
-const VALID_OKTA_DOMAINS = ['.okta.com', '.okta-emea.com', '.oktapreview.com', '.okta.eu'];
-
 /**
  * Validate revocation URL to prevent SSRF
  */
@@ -163,6 +163,10 @@ export class OAuthRevocationService {
         }
       }
 
+      // Okta issues tokens we never discover individually; clear them at the source
+      const oktaErrors = await this.revokeOktaSessions(userId);
+      errors.push(...oktaErrors);
+
       return {
         success: errors.length === 0,
         tokensRevoked: tokens.length,
@@ -180,6 +184,46 @@ export class OAuthRevocationService {
     }
   }
 
+  /**
+   * Clear sessions and revoke all consent grants for the user in every active Okta IdP
+   */
+  private async revokeOktaSessions(userId: string): Promise<string[]> {
+    const errors: string[] = [];
+    const idps = await storage.getIdentityProviders(this.tenantId);
+    const oktaIdps = idps.filter(idp => idp.type === 'okta' && idp.status === 'active');
+    if (oktaIdps.length === 0) {
+      return errors;
+    }
+
+    const user = await storage.getUser(userId);
+    if (!user?.email) {
+      return errors;
+    }
+
+    for (const idp of oktaIdps) {
+      try {
+        const connector = this.createOktaConnector(idp);
+        await connector.clearUserSessions(user.email);
+        await connector.revokeAllGrants(user.email);
+      } catch (error: any) {
+        console.error(`[OAuth Revocation] Failed to clear Okta sessions via ${idp.name}:`, error);
+        errors.push(`Failed to clear Okta sessions (${idp.name}): ${error.message}`);
+      }
+    }
+
+    return errors;
+  }
+
+  private createOktaConnector(idp: any): OktaConnector {
+    return new OktaConnector({
+      clientId: idp.clientId || '',
+      clientSecret: idp.clientSecret ? decrypt(idp.clientSecret) : '',
+      tenantDomain: idp.tenantDomain || '',
+      scopes: [],
+      customConfig: idp.config || {}
+    }, this.tenantId, idp.id);
+  }
+
   /**
    * Revoke a single OAuth token
    */
@@ -209,7 +253,7 @@ export class OAuthRevocationService {
               break;
 
             case 'okta':
-              await this.revokeOktaToken(idp, idpTokenId);
+              await this.revokeOktaToken(idp, token.userId, idpTokenId);
               break;
 
             default:
@@ -314,51 +358,22 @@ export class OAuthRevocationService {
   }
 
   /**
-   * Revoke Okta OAuth token
+   * Revoke Okta OAuth token. Okta tokens are discovered per user and client,
+   * so the token ID is the OAuth client ID whose grants and tokens are revoked.
    */
-  private async revokeOktaToken(idp: any, tokenId?: string): Promise<void> {
-    if (!tokenId || !idp.tenantDomain) {
-      console.log(`[OAuth Revocation] Missing token ID or domain for Okta revocation`);
+  private async revokeOktaToken(idp: any, userId: string, tokenId?: string): Promise<void> {
+    if (!tokenId) {
+      console.log(`[OAuth Revocation] No token ID available for Okta revocation`);
       return;
     }
 
-    // Sanitize and validate Okta domain
-    const oktaDomain = (idp.tenantDomain || '').replace(/[^a-zA-Z0-9.-]/g, '');
-    const isValidDomain = VALID_OKTA_DOMAINS.some(suffix =>
-      oktaDomain.toLowerCase().endsWith(suffix)
-    );
-
-    if (!isValidDomain) {
-      throw new Error(`Invalid Okta domain: ${oktaDomain}`);
+    const user = await storage.getUser(userId);
+    if (!user?.email) {
+      throw new Error('User not found or has no email');
     }
 
-    const url = `https://${oktaDomain}/oauth2/v1/revoke`;
-
-    // Validate URL
-    if (!validateRevocationUrl(url, 'okta', oktaDomain)) {
-      throw new Error('Invalid Okta revocation URL');
-    }
-
-    // Decrypt client secret if needed for authentication
-    const apiToken = idp.clientSecret ? decrypt(idp.clientSecret) : '';
-
     try {
-      const response = await performRevocation(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'Authorization': `SSWS ${apiToken}`,
-        },
-        body: new URLSearchParams({
-          token: tokenId,
-          token_type_hint: 'access_token',
-        }).toString(),
-      });
-
-      if (!response.ok && response.status !== 400) {
-        throw new Error(`Okta revocation failed: ${response.status} ${response.statusText}`);
-      }
-
+      await this.createOktaConnector(idp).revokeClientGrants(user.email, tokenId);
       console.log(`[OAuth Revocation] Successfully revoked Okta token`);
     } catch (error: any) {
       console.error(`[OAuth Revocation] Okta revocation error:`, error);
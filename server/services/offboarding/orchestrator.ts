@@ -4,6 +4,7 @@
  * Main service that coordinates the entire offboarding process:
  * - Creates offboarding requests
  * - Discovers user's app access
+ * - Shows the business services affected when the user and their devices go away
  * - Executes playbook steps
  * - Generates audit reports
  *
@@ -17,6 +18,7 @@ import { OwnershipTransferService } from './ownership-transfer';
 import { PlaybookEngine } from './playbook-engine';
 import { AuditReportGenerator } from './audit-report';
 import { policyEngine } from '../policy/engine';
+import { cmdbService, type ImpactedService } from '../cmdb/cmdb-service';
 
 export interface OffboardingPreview {
   userId: string;
@@ -34,6 +36,11 @@ export interface OffboardingPreview {
     resourceType: string;
     count: number;
   }>;
+  devices: Array<{
+    assetId: string;
+    assetName: string;
+  }>;
+  affectedServices: ImpactedService[]; // From the CMDB graph: owned by the user or running on their devices
   estimatedTimeMinutes: number;
 }
 
@@ -106,6 +113,13 @@ export class OffboardingOrchestrator {
       { platform: 'Notion', resourceType: 'pages', count: 0 }
     ];
 
+    // Services that need the user (as owner) or one of the devices assigned to them
+    const devices = await storage.getAssetsByUserId(userId, this.tenantId);
+    const affectedServices = await cmdbService.getAffectedServices(this.tenantId, [
+      { type: 'user', id: userId },
+      ...devices.map(device => ({ type: 'asset' as const, id: device.id }))
+    ]);
+
     // Estimate time (1 minute per app + 2 minutes overhead)
     const estimatedTimeMinutes = Math.ceil(apps.length * 1 + 2);
 
@@ -116,6 +130,8 @@ export class OffboardingOrchestrator {
       apps,
       oauthTokens: oauthTokens.length,
       ownedResources,
+      devices: devices.map(device => ({ assetId: device.id, assetName: device.name })),
+      affectedServices,
       estimatedTimeMinutes
     };
   }
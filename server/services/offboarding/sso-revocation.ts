@@ -4,15 +4,21 @@
  * Handles revocation of SSO access from applications via IdP:
  * - Azure AD app assignment removal
  * - Google Workspace app access revocation
- * - Group membership removal
+ * - Okta app assignment removal and OAuth grant revocation
+ * - Group membership removal (all supported IdPs, including LDAP/AD)
  * - License reclamation
  */
 
 import { storage } from '../../storage';
 import { AzureADConnector } from '../idp/azuread-connector';
 import { GoogleWorkspaceConnector } from '../idp/google-connector';
+import { OktaConnector } from '../idp/okta-connector';
+import { idpSyncScheduler } from '../idp/sync-scheduler';
 import { decrypt } from '../encryption';
 
+// Providers whose only revocation lever is group membership
+const DIRECTORY_PROVIDER_TYPES = ['keycloak', 'jumpcloud', 'onelogin', 'ldap'];
+
 export interface RevocationResult {
   success: boolean;
   message: string;
@@ -26,9 +32,10 @@ export class SSORevocationService {
   constructor(private tenantId: string) {}
 
   /**
-   * Revoke user's SSO access to a specific app
+   * Revoke user's SSO access to a specific app. With `force`, the IdPs are asked to remove the
+   * assignment even when no local grant remains (re-attempts after an IdP sync still reports it).
    */
-  async revokeAccess(userId: string, appId: string): Promise<RevocationResult> {
+  async revokeAccess(userId: string, appId: string, options: { force?: boolean } = {}): Promise<RevocationResult> {
     console.log(`[SSO Revocation] Revoking access for user ${userId} to app ${appId}`);
 
     try {
@@ -42,8 +49,8 @@ export class SSORevocationService {
       }
 
       // Get the app's SSO configuration (via identity provider)
-      const userAccess = await storage.getUserAppAccess(userId, appId, this.tenantId);
-      if (!userAccess) {
+      const userAccess = await storage.getUserAppAccessByUserAndApp(userId, appId, this.tenantId);
+      if (!userAccess && !options.force) {
         return {
           success: true,
           message: 'User does not have access to this app'
@@ -70,6 +77,12 @@ export class SSORevocationService {
               revoked = true;
               details.google = result.details;
             }
+          } else if (idp.type === 'okta' && idp.status === 'active') {
+            const result = await this.revokeViaOkta(userId, app, idp);
+            if (result.success) {
+              revoked = true;
+              details.okta = result.details;
+            }
           }
         } catch (error: any) {
           console.warn(`[SSO Revocation] Failed to revoke via ${idp.type}:`, error.message);
@@ -78,7 +91,9 @@ export class SSORevocationService {
       }
 
       // Remove from local database
-      await storage.deleteUserAppAccess(userId, appId, this.tenantId);
+      if (userAccess) {
+        await storage.deleteUserAppAccess(userAccess.id, this.tenantId);
+      }
 
       return {
         success: true,
@@ -215,6 +230,70 @@ export class SSORevocationService {
     }
   }
 
+  /**
+   * Revoke via Okta
+   */
+  private async revokeViaOkta(
+    userId: string,
+    app: any,
+    idp: any
+  ): Promise<RevocationResult> {
+    // Build config from IdP settings (Okta domain may live in the provider config)
+    const config = {
+      clientId: idp.clientId || '',
+      clientSecret: idp.clientSecret ? decrypt(idp.clientSecret) : '',
+      tenantDomain: idp.tenantDomain || '',
+      scopes: [],
+      customConfig: idp.config || {}
+    };
+
+    const connector = new OktaConnector(config, this.tenantId, idp.id);
+
+    // Get user details
+    const user = await storage.getUser(userId);
+    if (!user || !user.email) {
+      throw new Error('User not found or has no email');
+    }
+
+    try {
+      let grantsRevoked = 0;
+      let assignmentsRemoved = 0;
+
+      // Revoke OAuth consent grants and refresh tokens
+      try {
+        const grantResult = await connector.revokeAppAccess(user.email, app.name);
+        grantsRevoked = grantResult.grantsRevoked;
+      } catch (error: any) {
+        console.warn(`[SSO Revocation] Could not revoke Okta OAuth grants:`, error.message);
+      }
+
+      // Remove direct app assignments
+      try {
+        const assignmentResult = await connector.removeAppAssignment(user.email, app.name);
+        assignmentsRemoved = assignmentResult.assignmentsRemoved;
+      } catch (error: any) {
+        console.warn(`[SSO Revocation] Could not remove Okta app assignments:`, error.message);
+      }
+
+      console.log(
+        `[SSO Revocation] Okta: Revoked ${grantsRevoked} grants, removed ${assignmentsRemoved} assignments for ${user.email} from ${app.name}`
+      );
+
+      return {
+        success: true,
+        message: 'Okta app access revoked',
+        details: {
+          userEmail: user.email,
+          appName: app.name,
+          grantsRevoked,
+          assignmentsRemoved
+        }
+      };
+    } catch (error: any) {
+      throw new Error(`Okta revocation failed: ${error.message}`);
+    }
+  }
+
   /**
    * Remove user from all security groups
    */
@@ -269,6 +348,30 @@ export class SSORevocationService {
             const groupsRemoved = await connector.removeUserFromAllGroups(user.email);
 
             results.google = { groupsRemoved, message: 'Successfully removed from groups' };
+          } else if (idp.type === 'okta') {
+            // Remove from Okta groups
+            console.log(`[SSO Revocation] Removing from Okta groups: ${user.email}`);
+
+            const config = {
+              clientId: idp.clientId || '',
+              clientSecret: idp.clientSecret ? decrypt(idp.clientSecret) : '',
+              tenantDomain: idp.tenantDomain || '',
+              scopes: [],
+              customConfig: idp.config || {}
+            };
+
+            const connector = new OktaConnector(config, this.tenantId, idp.id);
+            const groupsRemoved = await connector.removeUserFromAllGroups(user.email);
+
+            results.okta = { groupsRemoved, message: 'Successfully removed from groups' };
+          } else if (DIRECTORY_PROVIDER_TYPES.includes(idp.type)) {
+            // Remove from Keycloak, JumpCloud, OneLogin or LDAP/AD groups
+            console.log(`[SSO Revocation] Removing from ${idp.type} groups: ${user.email}`);
+
+            const connector = await idpSyncScheduler.createConnector(idp, this.tenantId);
+            const groupsRemoved = await connector.removeUserFromAllGroups(user.email);
+
+            results[idp.type] = { groupsRemoved, message: 'Successfully removed from groups' };
           }
         } catch (error: any) {
           console.warn(`[SSO Revocation] Failed to remove from ${idp.type} groups:`, error.message);
@@ -311,7 +414,7 @@ export class SSORevocationService {
 
       // Remove all access (licenses will be automatically reclaimed)
       for (const access of userAccess) {
-        await storage.deleteUserAppAccess(userId, access.appId, this.tenantId);
+        await storage.deleteUserAppAccess(access.id, this.tenantId);
       }
 
       return {
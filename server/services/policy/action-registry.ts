@@ -5,6 +5,7 @@
  * - Register action handlers
  * - Get action handlers
  * - Validate action configurations
+ * - Roll back reversible side effects of an execution
  *
  * Supported actions:
  * 1. send_alert - Send notifications
@@ -13,20 +14,71 @@
  * 4. revoke_access - Revoke user access
  * 5. reclaim_license - Reclaim unused license
  * 6. notify_department_head - Notify department head
+ *
+ * Every handler reports the records it touched so an execution can be
+ * audited from policy_executions.result and rolled back where possible.
  */
 
-import { PolicyContext } from './engine';
+import { storage } from '../../storage';
+import { SSORevocationService } from '../offboarding/sso-revocation';
+import { OAuthRevocationService } from '../offboarding/oauth-revocation';
+import { NotificationService, toNotificationChannel } from '../alerting/notification-service';
+import type { PolicyContext } from './engine';
+
+export type TouchedResourceType =
+  | 'ticket'
+  | 'saas_app'
+  | 'user_app_access'
+  | 'oauth_token'
+  | 'alert_instance'
+  | 'notification_channel'
+  | 'user';
+
+export interface TouchedResource {
+  resourceType: TouchedResourceType;
+  resourceId: string;
+  operation: 'created' | 'updated' | 'revoked' | 'deleted' | 'notified';
+  previousState?: Record<string, any>;
+  reversible: boolean;
+}
 
 export interface ActionResult {
   success: boolean;
   data?: any;
   error?: string;
+  touched?: TouchedResource[];
 }
 
 export interface ActionHandler {
   type: string;
-  validate(config: any): boolean;
+  validate(config: any, context?: PolicyContext): boolean;
   execute(config: any, context: PolicyContext): Promise<ActionResult>;
+  rollback?(touched: TouchedResource[], context: PolicyContext): Promise<ActionResult>;
+}
+
+// Job titles treated as the head of a department when no explicit head is configured
+const DEPARTMENT_HEAD_TITLE_PATTERN = /\b(head|director|vp|vice president|chief|manager)\b/i;
+
+/**
+ * Replace {{field}} placeholders with values from the trigger data
+ */
+function renderTemplate(template: string, data: Record<string, any>): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, path: string) => {
+    const value = path.split('.').reduce<any>((acc, key) => (acc == null ? undefined : acc[key]), data);
+    return value == null ? '' : String(value);
+  });
+}
+
+function resolveUserId(config: any, context?: PolicyContext): string | undefined {
+  return config?.userId || context?.triggerData?.userId;
+}
+
+function resolveAppId(config: any, context?: PolicyContext): string | undefined {
+  return config?.appId || context?.triggerData?.appId;
+}
+
+function actorLabel(context: PolicyContext): string {
+  return context.policyId ? `policy:${context.policyId}` : 'policy-engine';
 }
 
 /**
@@ -78,9 +130,73 @@ export class ActionRegistry {
       type: 'send_alert',
       validate: (config) => !!config.recipients || !!config.channels,
       execute: async (config, context) => {
-        console.log(`[Action] Sending alert to ${config.recipients?.join(', ') || 'channels'}`);
-        // In real implementation: send via email, Slack, etc.
-        return { success: true, data: { sent: true } };
+        const title = renderTemplate(config.title || `Policy alert: ${context.policyName || context.triggerEvent}`, context.triggerData);
+        const description = config.message ? renderTemplate(config.message, context.triggerData) : undefined;
+
+        const alert = await storage.createAlertInstance({
+          tenantId: context.tenantId,
+          alertType: config.alertType || 'policy_violation',
+          severity: config.severity || 'medium',
+          title,
+          description,
+          sourceEntity: 'automated_policy',
+          sourceEntityId: context.policyId,
+          status: 'open',
+          metadata: {
+            triggerEvent: context.triggerEvent,
+            triggerData: context.triggerData,
+            executionId: context.executionId,
+          },
+        });
+
+        const notification = {
+          ...alert,
+          triggerEvent: context.triggerEvent,
+          triggerData: context.triggerData,
+          createdAt: alert.createdAt || new Date(),
+        };
+
+        const touched: TouchedResource[] = [
+          { resourceType: 'alert_instance', resourceId: alert.id, operation: 'created', reversible: true },
+        ];
+        const notificationService = new NotificationService(context.tenantId);
+        const delivered: string[] = [];
+        const failed: string[] = [];
+
+        for (const channelId of config.channels || []) {
+          const record = await storage.getNotificationChannel(channelId, context.tenantId);
+          if (!record || !record.enabled) {
+            failed.push(channelId);
+            continue;
+          }
+
+          const sent = await notificationService.sendNotification(toNotificationChannel(record), notification);
+          (sent ? delivered : failed).push(channelId);
+          touched.push({ resourceType: 'notification_channel', resourceId: channelId, operation: 'notified', reversible: false });
+        }
+
+        if (config.recipients?.length) {
+          const sent = await notificationService.sendToRecipients(config.recipients, notification);
+          (sent ? delivered : failed).push(...config.recipients);
+        }
+
+        console.log(`[Action] Alert ${alert.id} delivered to ${delivered.length} target(s), ${failed.length} failed`);
+
+        return {
+          success: delivered.length > 0,
+          data: { alertId: alert.id, delivered, failed },
+          error: delivered.length === 0 ? 'Alert was not delivered to any channel or recipient' : undefined,
+          touched,
+        };
+      },
+      rollback: async (touched, context) => {
+        for (const resource of touched.filter(t => t.resourceType === 'alert_instance')) {
+          await storage.updateAlertInstance(resource.resourceId, context.tenantId, {
+            status: 'dismissed',
+            resolutionNotes: 'Dismissed by policy execution rollback',
+          });
+        }
+        return { success: true };
       }
     });
 
@@ -89,59 +205,273 @@ export class ActionRegistry {
       type: 'create_ticket',
       validate: (config) => !!config.title || !!config.template,
       execute: async (config, context) => {
-        console.log(`[Action] Creating ticket: ${config.title || 'from template'}`);
-        // In real implementation: create ticket in ticketing system
-        return { success: true, data: { ticketId: 'ticket-' + Date.now() } };
+        // Tickets are raised on behalf of the policy owner so they show up in their queue
+        const requestorId = context.policyOwnerId || context.userId || resolveUserId(config, context);
+        const requestor = requestorId ? await storage.getUser(requestorId) : undefined;
+        if (!requestor || requestor.tenantId !== context.tenantId) {
+          return { success: false, error: 'No requestor available for policy ticket' };
+        }
+
+        const title = renderTemplate(config.title || config.template, context.triggerData);
+        const description = renderTemplate(
+          config.description || `Automatically created by policy "${context.policyName || context.policyId}" on ${context.triggerEvent}.`,
+          context.triggerData
+        );
+
+        const ticket = await storage.createTicket({
+          tenantId: context.tenantId,
+          title,
+          description,
+          category: config.category || 'software',
+          priority: config.priority || 'medium',
+          status: 'open',
+          requestorId: requestor.id,
+          requestorName: `${requestor.firstName} ${requestor.lastName}`,
+          requestorEmail: requestor.email,
+          assetId: config.assetId || context.triggerData.assetId,
+          tags: ['automated-policy', ...(config.tags || [])],
+        });
+
+        if (config.assignToId) {
+          const assignee = await storage.getUser(config.assignToId);
+          if (assignee && assignee.tenantId === context.tenantId) {
+            await storage.assignTicket(
+              ticket.id,
+              context.tenantId,
+              assignee.id,
+              `${assignee.firstName} ${assignee.lastName}`,
+              requestor.id,
+              `${requestor.firstName} ${requestor.lastName}`
+            );
+          }
+        }
+
+        console.log(`[Action] Created ticket ${ticket.ticketNumber}`);
+
+        return {
+          success: true,
+          data: { ticketId: ticket.id, ticketNumber: ticket.ticketNumber },
+          touched: [{ resourceType: 'ticket', resourceId: ticket.id, operation: 'created', reversible: true }],
+        };
+      },
+      rollback: async (touched, context) => {
+        for (const resource of touched.filter(t => t.resourceType === 'ticket')) {
+          await storage.updateTicketStatus(resource.resourceId, context.tenantId, 'cancelled');
+        }
+        return { success: true };
       }
     });
 
     // Block App Handler
     this.register({
       type: 'block_app',
-      validate: (config) => !!config.appId || !!context.triggerData?.appId,
+      validate: (config, context) => !!resolveAppId(config, context),
       execute: async (config, context) => {
-        const appId = config.appId || context.triggerData?.appId;
-        console.log(`[Action] Blocking app: ${appId}`);
-        // In real implementation: update app status to blocked
-        return { success: true, data: { appId, blocked: true } };
+        const appId = resolveAppId(config, context);
+        if (!appId) {
+          return { success: false, error: 'No appId in action config or trigger data' };
+        }
+
+        const app = await storage.getSaasApp(appId, context.tenantId);
+        if (!app) {
+          return { success: false, error: `App ${appId} not found` };
+        }
+
+        const status = config.status || 'denied';
+        if (app.approvalStatus === status) {
+          return { success: true, data: { appId, approvalStatus: status, unchanged: true }, touched: [] };
+        }
+
+        await storage.updateSaasAppApprovalStatus(appId, context.tenantId, status);
+        console.log(`[Action] Blocked app ${app.name}: ${app.approvalStatus} -> ${status}`);
+
+        return {
+          success: true,
+          data: { appId, previousStatus: app.approvalStatus, approvalStatus: status },
+          touched: [{
+            resourceType: 'saas_app',
+            resourceId: appId,
+            operation: 'updated',
+            previousState: { approvalStatus: app.approvalStatus },
+            reversible: true,
+          }],
+        };
+      },
+      rollback: async (touched, context) => {
+        for (const resource of touched.filter(t => t.resourceType === 'saas_app')) {
+          await storage.updateSaasAppApprovalStatus(
+            resource.resourceId,
+            context.tenantId,
+            resource.previousState?.approvalStatus || 'pending'
+          );
+        }
+        return { success: true };
       }
     });
 
     // Revoke Access Handler
     this.register({
       type: 'revoke_access',
-      validate: (config) => (!!config.userId || !!context.triggerData?.userId) && (!!config.appId || !!context.triggerData?.appId),
+      validate: (config, context) => !!resolveUserId(config, context) && !!resolveAppId(config, context),
       execute: async (config, context) => {
-        const userId = config.userId || context.triggerData?.userId;
-        const appId = config.appId || context.triggerData?.appId;
-        console.log(`[Action] Revoking access for user ${userId} from app ${appId}`);
-        // In real implementation: revoke SSO and OAuth access
-        return { success: true, data: { userId, appId, revoked: true } };
+        const userId = resolveUserId(config, context);
+        const appId = resolveAppId(config, context);
+        if (!userId || !appId) {
+          return { success: false, error: 'revoke_access requires userId and appId' };
+        }
+
+        // Snapshot what exists before revocation so the execution records exactly what was removed
+        const access = await storage.getUserAppAccessByUserAndApp(userId, appId, context.tenantId);
+        const tokens = await storage.getOauthTokens(context.tenantId, { userId, appId });
+
+        const sso = await new SSORevocationService(context.tenantId).revokeAccess(userId, appId);
+        const oauth = config.revokeTokens === false
+          ? { success: true, tokensRevoked: 0, apps: [], errors: [] }
+          : await new OAuthRevocationService(context.tenantId).revokeTokensForApp(userId, appId);
+
+        const touched: TouchedResource[] = [];
+        if (access && sso.success) {
+          touched.push({
+            resourceType: 'user_app_access',
+            resourceId: access.id,
+            operation: 'deleted',
+            previousState: access,
+            reversible: false,
+          });
+        }
+        if (config.revokeTokens !== false) {
+          for (const token of tokens) {
+            touched.push({ resourceType: 'oauth_token', resourceId: token.id, operation: 'revoked', reversible: false });
+          }
+        }
+
+        console.log(`[Action] Revoked access for user ${userId} from app ${appId}: ${sso.message}`);
+
+        return {
+          success: sso.success && oauth.success,
+          data: { userId, appId, sso: sso.details, tokensRevoked: oauth.tokensRevoked },
+          error: !sso.success ? sso.message : oauth.errors.join('; ') || undefined,
+          touched,
+        };
       }
     });
 
     // Reclaim License Handler
     this.register({
       type: 'reclaim_license',
-      validate: (config) => (!!config.userId || !!context.triggerData?.userId) && (!!config.appId || !!context.triggerData?.appId),
+      validate: (config, context) => !!resolveUserId(config, context) && !!resolveAppId(config, context),
       execute: async (config, context) => {
-        const userId = config.userId || context.triggerData?.userId;
-        const appId = config.appId || context.triggerData?.appId;
-        console.log(`[Action] Reclaiming license for user ${userId} from app ${appId}`);
-        // In real implementation: remove user access and reclaim license
-        return { success: true, data: { userId, appId, reclaimed: true } };
+        const userId = resolveUserId(config, context);
+        const appId = resolveAppId(config, context);
+        if (!userId || !appId) {
+          return { success: false, error: 'reclaim_license requires userId and appId' };
+        }
+
+        const access = await storage.getUserAppAccessByUserAndApp(userId, appId, context.tenantId);
+        if (!access || access.status === 'revoked') {
+          return { success: true, data: { userId, appId, reclaimed: false, reason: 'No active license' }, touched: [] };
+        }
+
+        await storage.revokeUserAppAccess(access.id, context.tenantId, actorLabel(context));
+
+        const touched: TouchedResource[] = [{
+          resourceType: 'user_app_access',
+          resourceId: access.id,
+          operation: 'revoked',
+          previousState: { status: access.status, accessRevokedDate: access.accessRevokedDate, assignedBy: access.assignedBy },
+          reversible: true,
+        }];
+
+        const app = await storage.getSaasApp(appId, context.tenantId);
+        if (app && (app.userCount || 0) > 0) {
+          await storage.updateSaasApp(appId, context.tenantId, { userCount: (app.userCount || 0) - 1 });
+          touched.push({
+            resourceType: 'saas_app',
+            resourceId: appId,
+            operation: 'updated',
+            previousState: { userCount: app.userCount },
+            reversible: true,
+          });
+        }
+
+        console.log(`[Action] Reclaimed license for user ${userId} from app ${appId}`);
+
+        return { success: true, data: { userId, appId, accessId: access.id, reclaimed: true }, touched };
+      },
+      rollback: async (touched, context) => {
+        for (const resource of touched) {
+          if (resource.resourceType === 'user_app_access') {
+            await storage.updateUserAppAccess(resource.resourceId, context.tenantId, {
+              status: resource.previousState?.status || 'active',
+              accessRevokedDate: resource.previousState?.accessRevokedDate || null,
+              assignedBy: resource.previousState?.assignedBy || null,
+            });
+          } else if (resource.resourceType === 'saas_app') {
+            await storage.updateSaasApp(resource.resourceId, context.tenantId, {
+              userCount: resource.previousState?.userCount,
+            });
+          }
+        }
+        return { success: true };
       }
     });
 
     // Notify Department Head Handler
     this.register({
       type: 'notify_department_head',
-      validate: (config) => !!config.department || !!context.triggerData?.department,
+      validate: (config, context) => !!config.department || !!context?.triggerData?.department,
       execute: async (config, context) => {
         const department = config.department || context.triggerData?.department;
-        console.log(`[Action] Notifying department head of ${department}`);
-        // In real implementation: lookup department head and send notification
-        return { success: true, data: { department, notified: true } };
+        if (!department) {
+          return { success: false, error: 'No department in action config or trigger data' };
+        }
+
+        const users = await storage.getTenantUsers(context.tenantId);
+        const heads = config.headUserId
+          ? users.filter(u => u.id === config.headUserId)
+          : users.filter(u =>
+              u.isActive !== false &&
+              u.department?.toLowerCase() === String(department).toLowerCase() &&
+              DEPARTMENT_HEAD_TITLE_PATTERN.test(u.jobTitle || '')
+            );
+
+        if (heads.length === 0) {
+          return { success: false, error: `No department head found for ${department}` };
+        }
+
+        const notificationService = new NotificationService(context.tenantId);
+        const notification = {
+          id: context.executionId || `policy-${Date.now()}`,
+          title: renderTemplate(config.title || `Action required for ${department}`, context.triggerData),
+          description: config.message ? renderTemplate(config.message, context.triggerData) : undefined,
+          severity: config.severity || 'medium',
+          triggerEvent: context.triggerEvent,
+          triggerData: context.triggerData,
+          createdAt: new Date(),
+        };
+
+        const sent = await notificationService.sendToRecipients(heads.map(h => h.email), notification);
+
+        for (const channelId of config.channels || []) {
+          const record = await storage.getNotificationChannel(channelId, context.tenantId);
+          if (record?.enabled) {
+            await notificationService.sendNotification(toNotificationChannel(record), notification);
+          }
+        }
+
+        console.log(`[Action] Notified ${heads.length} head(s) of ${department}`);
+
+        return {
+          success: sent,
+          data: { department, recipients: heads.map(h => h.email) },
+          error: sent ? undefined : 'Notification delivery failed',
+          touched: heads.map(h => ({
+            resourceType: 'user' as const,
+            resourceId: h.id,
+            operation: 'notified' as const,
+            reversible: false,
+          })),
+        };
       }
     });
   }
@@ -0,0 +1,458 @@
+/**
+ * Policy Condition Language
+ *
+ * Parses and evaluates the `conditions` document stored on automated policies:
+ * - Boolean groups: $and, $or, $not
+ * - Comparisons: $eq, $ne, $gt, $gte, $lt, $lte
+ * - Membership: $in, $nin, $contains
+ * - Pattern and presence: $regex (+ $options), $exists
+ * - Relative dates: $before, $after, $withinNext, $withinLast
+ * - Dotted field paths into triggerData (e.g. "contract.owner.department")
+ *
+ * Example:
+ *   {
+ *     "$and": [
+ *       { "riskLevel": { "$in": ["high", "critical"] } },
+ *       { "$or": [
+ *         { "renewalDate": { "$withinNext": "30d" } },
+ *         { "contract.autoRenew": true }
+ *       ] },
+ *       { "$not": { "department": "Security" } }
+ *     ]
+ *   }
+ *
+ * The legacy flat format (implicit AND of field -> value / array / operator
+ * object) is a subset of this language and keeps working unchanged. An object
+ * value is only read as operators when every key starts with "$"; otherwise it
+ * is matched as a literal.
+ */
+
+import { ValidationError } from '../../utils/input-validation';
+
+export type ComparisonOperator =
+  | '$eq'
+  | '$ne'
+  | '$gt'
+  | '$gte'
+  | '$lt'
+  | '$lte'
+  | '$in'
+  | '$nin'
+  | '$contains'
+  | '$regex'
+  | '$exists'
+  | '$before'
+  | '$after'
+  | '$withinNext'
+  | '$withinLast';
+
+export type ConditionNode =
+  | { kind: 'and'; children: ConditionNode[] }
+  | { kind: 'or'; children: ConditionNode[] }
+  | { kind: 'not'; child: ConditionNode }
+  | { kind: 'compare'; path: string; operator: ComparisonOperator; value: any; options?: string };
+
+export interface ConditionIssue {
+  path: string;
+  message: string;
+}
+
+export class ConditionValidationError extends ValidationError {
+  constructor(public readonly issues: ConditionIssue[]) {
+    super(`Invalid policy conditions: ${issues.map(i => `${i.path}: ${i.message}`).join('; ')}`);
+    this.name = 'ConditionValidationError';
+  }
+}
+
+const COMPARISON_OPERATORS: ReadonlySet<string> = new Set<ComparisonOperator>([
+  '$eq', '$ne', '$gt', '$gte', '$lt', '$lte', '$in', '$nin', '$contains',
+  '$regex', '$exists', '$before', '$after', '$withinNext', '$withinLast',
+]);
+
+const FIELD_PATH_PATTERN = /^[A-Za-z_][\w-]*(\.[\w-]+)*$/;
+const DURATION_PATTERN = /^(\d+)\s*([mhdw])$/;
+const RELATIVE_DATE_PATTERN = /^now(?:\s*([+-])\s*(\d+)\s*([mhdw]))?$/;
+
+// Policy authors supply $regex patterns, so keep them short and free of catastrophic backtracking
+const MAX_REGEX_LENGTH = 200;
+
+const DURATION_UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function isEqual(left: any, right: any): boolean {
+  if (left === right) return true;
+  if (left instanceof Date && right instanceof Date) return left.getTime() === right.getTime();
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, index) => isEqual(item, right[index]));
+  }
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const keys = Object.keys(left);
+    return keys.length === Object.keys(right).length
+      && keys.every(key => Object.prototype.hasOwnProperty.call(right, key) && isEqual(left[key], right[key]));
+  }
+  return false;
+}
+
+/**
+ * Whether a pattern repeats a group that itself contains a quantifier or an alternation,
+ * e.g. (a+)+, (\w*)* or (a|ab)*, the shapes behind exponential backtracking
+ */
+function hasRepeatedAmbiguousGroup(pattern: string): boolean {
+  // One entry per open group: whether a quantifier or alternation appears inside it
+  const groups: boolean[] = [];
+  let closedGroupAmbiguous = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const afterGroup = closedGroupAmbiguous;
+    closedGroupAmbiguous = false;
+
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Skip the character class; quantifier characters are literal inside it
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const ambiguous = groups.pop() ?? false;
+      if (ambiguous && groups.length > 0) groups[groups.length - 1] = true;
+      closedGroupAmbiguous = ambiguous;
+    } else if (char === '|') {
+      if (groups.length > 0) groups[groups.length - 1] = true;
+    } else if (char === '*' || char === '+' || (char === '{' && /^\{\d+(,\d*)?\}/.test(pattern.slice(i)))) {
+      if (afterGroup) return true;
+      if (groups.length > 0) groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Parse a duration such as "30d", "12h", "2w" or a bare number of days
+ */
+export function parseDuration(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+    return value * DURATION_UNIT_MS.d;
+  }
+  if (typeof value !== 'string') return null;
+
+  const match = value.trim().match(DURATION_PATTERN);
+  if (!match) return null;
+  return parseInt(match[1], 10) * DURATION_UNIT_MS[match[2]];
+}
+
+/**
+ * Resolve an absolute (ISO) or relative ("now", "now+30d", "now-1w") date
+ */
+export function resolveDate(value: unknown, now: Date = new Date()): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+
+  if (typeof value === 'string') {
+    const relative = value.trim().match(RELATIVE_DATE_PATTERN);
+    if (relative) {
+      if (!relative[1]) return new Date(now.getTime());
+      const offset = parseInt(relative[2], 10) * DURATION_UNIT_MS[relative[3]];
+      return new Date(now.getTime() + (relative[1] === '+' ? offset : -offset));
+    }
+  }
+
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  return null;
+}
+
+/**
+ * Read a dotted path ("owner.department") from the trigger data
+ */
+export function getFieldValue(data: Record<string, any>, path: string): any {
+  return path.split('.').reduce<any>((acc, key) => (acc == null ? undefined : acc[key]), data);
+}
+
+function validateOperand(operator: ComparisonOperator, value: any, options: unknown, path: string, issues: ConditionIssue[]): void {
+  switch (operator) {
+    case '$gt':
+    case '$gte':
+    case '$lt':
+    case '$lte':
+      if (typeof value !== 'number' && typeof value !== 'string') {
+        issues.push({ path, message: `${operator} expects a number or string` });
+      }
+      break;
+    case '$in':
+    case '$nin':
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `${operator} expects an array` });
+      }
+      break;
+    case '$exists':
+      if (typeof value !== 'boolean') {
+        issues.push({ path, message: '$exists expects true or false' });
+      }
+      break;
+    case '$regex':
+      if (typeof value !== 'string') {
+        issues.push({ path, message: '$regex expects a string pattern' });
+        break;
+      }
+      if (options !== undefined && (typeof options !== 'string' || !/^[imsu]*$/.test(options))) {
+        issues.push({ path: path.replace(/\$regex$/, '$options'), message: '$options may only contain i, m, s, u' });
+        break;
+      }
+      if (value.length > MAX_REGEX_LENGTH) {
+        issues.push({ path, message: `$regex must be at most ${MAX_REGEX_LENGTH} characters` });
+        break;
+      }
+      try {
+        new RegExp(value, typeof options === 'string' ? options : undefined);
+      } catch (error: any) {
+        issues.push({ path, message: `invalid regular expression: ${error.message}` });
+        break;
+      }
+      if (hasRepeatedAmbiguousGroup(value)) {
+        issues.push({ path, message: '$regex must not repeat a group that contains a quantifier or alternation, e.g. (a+)+ or (a|ab)*' });
+      }
+      break;
+    case '$before':
+    case '$after':
+      if (resolveDate(value) === null) {
+        issues.push({ path, message: `${operator} expects an ISO date or a relative date such as "now+30d"` });
+      }
+      break;
+    case '$withinNext':
+    case '$withinLast':
+      if (parseDuration(value) === null) {
+        issues.push({ path, message: `${operator} expects a duration such as "30d", "12h" or "2w"` });
+      }
+      break;
+    default:
+      break;
+  }
+}
+
+function parseFieldCondition(field: string, spec: any, path: string, issues: ConditionIssue[]): ConditionNode[] {
+  if (!FIELD_PATH_PATTERN.test(field)) {
+    issues.push({ path, message: `invalid field path "${field}"` });
+    return [];
+  }
+
+  // Legacy shorthand: array means "value must be one of"
+  if (Array.isArray(spec)) {
+    return [{ kind: 'compare', path: field, operator: '$in', value: spec }];
+  }
+
+  const keys = isPlainObject(spec) ? Object.keys(spec) : [];
+
+  // Only an object made entirely of $-keys is an operator object; anything else is a literal to match
+  if (!isPlainObject(spec) || keys.some(key => !key.startsWith('$'))) {
+    return [{ kind: 'compare', path: field, operator: '$eq', value: spec }];
+  }
+
+  if (keys.length === 0) {
+    issues.push({ path, message: 'operator object must not be empty' });
+    return [];
+  }
+
+  const nodes: ConditionNode[] = [];
+  for (const key of keys) {
+    if (key === '$options') {
+      if (!('$regex' in spec)) {
+        issues.push({ path: `${path}.$options`, message: '$options is only valid alongside $regex' });
+      }
+      continue;
+    }
+    if (!COMPARISON_OPERATORS.has(key)) {
+      issues.push({ path: `${path}.${key}`, message: `unknown operator "${key}"` });
+      continue;
+    }
+
+    const operator = key as ComparisonOperator;
+    validateOperand(operator, spec[key], spec.$options, `${path}.${key}`, issues);
+    nodes.push({
+      kind: 'compare',
+      path: field,
+      operator,
+      value: spec[key],
+      options: operator === '$regex' ? spec.$options : undefined,
+    });
+  }
+
+  return nodes;
+}
+
+function parseNode(raw: any, path: string, issues: ConditionIssue[]): ConditionNode {
+  if (!isPlainObject(raw)) {
+    issues.push({ path, message: 'condition must be an object' });
+    return { kind: 'and', children: [] };
+  }
+
+  const children: ConditionNode[] = [];
+
+  for (const [key, value] of Object.entries(raw)) {
+    const childPath = `${path}.${key}`;
+
+    if (key === '$and' || key === '$or') {
+      if (!Array.isArray(value) || value.length === 0) {
+        issues.push({ path: childPath, message: `${key} expects a non-empty array of conditions` });
+        continue;
+      }
+      const group = value.map((item, index) => parseNode(item, `${childPath}[${index}]`, issues));
+      children.push({ kind: key === '$and' ? 'and' : 'or', children: group });
+    } else if (key === '$not') {
+      children.push({ kind: 'not', child: parseNode(value, childPath, issues) });
+    } else if (key.startsWith('$')) {
+      issues.push({ path: childPath, message: `unknown operator "${key}" at group level` });
+    } else {
+      children.push(...parseFieldCondition(key, value, childPath, issues));
+    }
+  }
+
+  return children.length === 1 ? children[0] : { kind: 'and', children };
+}
+
+/**
+ * Compile a raw conditions document into an AST, collecting every problem found
+ */
+export function parseConditions(raw: unknown): { ast: ConditionNode | null; issues: ConditionIssue[] } {
+  if (raw === null || raw === undefined) {
+    return { ast: null, issues: [] };
+  }
+
+  const issues: ConditionIssue[] = [];
+  const ast = parseNode(raw, 'conditions', issues);
+  return { ast: issues.length === 0 ? ast : null, issues };
+}
+
+/**
+ * Compile a conditions document, throwing a ConditionValidationError when malformed
+ */
+export function compileConditions(raw: unknown): ConditionNode | null {
+  const { ast, issues } = parseConditions(raw);
+  if (issues.length > 0) {
+    throw new ConditionValidationError(issues);
+  }
+  return ast;
+}
+
+function includesEqual(list: any[], value: any): boolean {
+  return list.some(item => isEqual(item, value));
+}
+
+function compareOrdered(left: any, right: any): number | null {
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+
+  if (typeof left === 'string' && typeof right === 'string') {
+    // Dates are compared chronologically, everything else lexically
+    const leftDate = Date.parse(left);
+    const rightDate = Date.parse(right);
+    if (!isNaN(leftDate) && !isNaN(rightDate) && /\d{4}-\d{2}-\d{2}/.test(left) && /\d{4}-\d{2}-\d{2}/.test(right)) {
+      return leftDate - rightDate;
+    }
+    return left.localeCompare(right);
+  }
+
+  if (left instanceof Date && (typeof right === 'string' || typeof right === 'number')) {
+    const rightDate = resolveDate(right);
+    return rightDate ? left.getTime() - rightDate.getTime() : null;
+  }
+
+  if (typeof left === 'string' && typeof right === 'number') {
+    const numeric = Number(left);
+    return isNaN(numeric) ? null : numeric - right;
+  }
+
+  return null;
+}
+
+function evaluateCompare(node: Extract<ConditionNode, { kind: 'compare' }>, data: Record<string, any>, now: Date): boolean {
+  const actual = getFieldValue(data, node.path);
+  const expected = node.value;
+
+  switch (node.operator) {
+    case '$eq':
+      return isEqual(actual, expected);
+    case '$ne':
+      return !isEqual(actual, expected);
+    case '$gt':
+    case '$gte':
+    case '$lt':
+    case '$lte': {
+      if (actual === undefined || actual === null) return false;
+      const diff = compareOrdered(actual, expected);
+      if (diff === null) return false;
+      if (node.operator === '$gt') return diff > 0;
+      if (node.operator === '$gte') return diff >= 0;
+      if (node.operator === '$lt') return diff < 0;
+      return diff <= 0;
+    }
+    case '$in':
+      return Array.isArray(actual)
+        ? actual.some(item => includesEqual(expected, item))
+        : includesEqual(expected, actual);
+    case '$nin':
+      return Array.isArray(actual)
+        ? !actual.some(item => includesEqual(expected, item))
+        : !includesEqual(expected, actual);
+    case '$contains':
+      if (Array.isArray(actual)) return includesEqual(actual, expected);
+      if (typeof actual === 'string') return actual.toLowerCase().includes(String(expected).toLowerCase());
+      return false;
+    case '$regex':
+      return typeof actual === 'string' && new RegExp(expected, node.options).test(actual);
+    case '$exists':
+      return expected ? actual !== undefined && actual !== null : actual === undefined || actual === null;
+    case '$before':
+    case '$after': {
+      const actualDate = resolveDate(actual, now);
+      const boundary = resolveDate(expected, now);
+      if (!actualDate || !boundary) return false;
+      return node.operator === '$before'
+        ? actualDate.getTime() < boundary.getTime()
+        : actualDate.getTime() > boundary.getTime();
+    }
+    case '$withinNext':
+    case '$withinLast': {
+      const actualDate = resolveDate(actual, now);
+      const window = parseDuration(expected);
+      if (!actualDate || window === null) return false;
+      const delta = actualDate.getTime() - now.getTime();
+      return node.operator === '$withinNext'
+        ? delta >= 0 && delta <= window
+        : delta <= 0 && -delta <= window;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate a compiled condition tree against trigger data
+ */
+export function evaluateCondition(node: ConditionNode | null, data: Record<string, any>, now: Date = new Date()): boolean {
+  if (!node) return true;
+
+  switch (node.kind) {
+    case 'and':
+      return node.children.every(child => evaluateCondition(child, data, now));
+    case 'or':
+      return node.children.some(child => evaluateCondition(child, data, now));
+    case 'not':
+      return !evaluateCondition(node.child, data, now);
+    case 'compare':
+      return evaluateCompare(node, data, now);
+  }
+}
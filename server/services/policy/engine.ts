@@ -13,13 +13,18 @@
 
 import { storage } from '../../storage';
 import { EventSystem } from './event-system';
-import { ActionRegistry } from './action-registry';
+import { ActionRegistry, TouchedResource } from './action-registry';
+import { parseConditions, evaluateCondition } from './conditions';
 
 export interface PolicyContext {
   tenantId: string;
   triggerEvent: string;
   triggerData: Record<string, any>;
   userId?: string;
+  policyId?: string;
+  policyName?: string;
+  policyOwnerId?: string;
+  executionId?: string;
 }
 
 export interface PolicyExecutionResult {
@@ -33,9 +38,57 @@ export interface PolicyExecutionResult {
     success: boolean;
     result?: any;
     error?: string;
+    touched?: TouchedResource[];
   }>;
 }
 
+export interface PlannedAction {
+  actionType: string;
+  wouldExecute: boolean;
+  config: Record<string, any>;
+  reason?: string;
+}
+
+export interface PolicyDryRunResult {
+  conditionsMatched: boolean;
+  actions: PlannedAction[];
+}
+
+export type ThrottleReason = 'cooldown' | 'max_executions_per_day';
+
+export interface PolicyRollbackResult {
+  executionId: string;
+  rolledBack: number;
+  skipped: Array<{ actionType: string; resourceType: string; resourceId: string; reason: string }>;
+  errors: Array<{ actionType: string; error: string }>;
+}
+
+/**
+ * Decide whether cooldown or the daily execution limit blocks a policy run.
+ * Shared by live execution and simulation so both throttle identically.
+ */
+export function getThrottleReason(
+  policy: { cooldownMinutes?: number | null; maxExecutionsPerDay?: number | null },
+  lastExecutedAt: Date | string | null | undefined,
+  executionsToday: number,
+  now: Date = new Date()
+): ThrottleReason | null {
+  if (policy.cooldownMinutes && lastExecutedAt) {
+    const cooldownMs = policy.cooldownMinutes * 60 * 1000;
+    const timeSinceLastExecution = now.getTime() - new Date(lastExecutedAt).getTime();
+
+    if (timeSinceLastExecution < cooldownMs) {
+      return 'cooldown';
+    }
+  }
+
+  if (policy.maxExecutionsPerDay && executionsToday >= policy.maxExecutionsPerDay) {
+    return 'max_executions_per_day';
+  }
+
+  return null;
+}
+
 /**
  * Policy Execution Engine
  */
@@ -53,19 +106,20 @@ export class PolicyEngine {
    * Initialize event handlers for all trigger types
    */
   private initializeEventHandlers(): void {
-    // Subscribe to all event types
-    this.eventSystem.on('app.discovered', (data) => this.handleEvent('app_discovered', data));
-    this.eventSystem.on('license.unused', (data) => this.handleEvent('license_unused', data));
-    this.eventSystem.on('oauth.risky_permission', (data) => this.handleEvent('oauth_risky_permission', data));
-    this.eventSystem.on('user.offboarded', (data) => this.handleEvent('user_offboarded', data));
-    this.eventSystem.on('contract.renewal_approaching', (data) => this.handleEvent('renewal_approaching', data));
-    this.eventSystem.on('budget.exceeded', (data) => this.handleEvent('budget_exceeded', data));
+    // Subscribe to all event types as a durable consumer (at-least-once, retried)
+    this.eventSystem.subscribe('policy-engine', 'app.discovered', (data) => this.handleEvent('app_discovered', data));
+    this.eventSystem.subscribe('policy-engine', 'license.unused', (data) => this.handleEvent('license_unused', data));
+    this.eventSystem.subscribe('policy-engine', 'oauth.risky_permission', (data) => this.handleEvent('oauth_risky_permission', data));
+    this.eventSystem.subscribe('policy-engine', 'user.offboarded', (data) => this.handleEvent('user_offboarded', data));
+    this.eventSystem.subscribe('policy-engine', 'contract.renewal_approaching', (data) => this.handleEvent('renewal_approaching', data));
+    this.eventSystem.subscribe('policy-engine', 'budget.exceeded', (data) => this.handleEvent('budget_exceeded', data));
+    this.eventSystem.subscribe('policy-engine', 'anomaly.detected', (data) => this.handleEvent('anomaly_detected', data));
 
     // Phase 5: Identity Governance & Access Reviews
-    this.eventSystem.on('privilege_drift.detected', (data) => this.handleEvent('privilege_drift_detected', data));
-    this.eventSystem.on('overprivileged_account.detected', (data) => this.handleEvent('overprivileged_detected', data));
-    this.eventSystem.on('access_review.completed', (data) => this.handleEvent('access_review_completed', data));
-    this.eventSystem.on('access_review.overdue', (data) => this.handleEvent('access_review_overdue', data));
+    this.eventSystem.subscribe('policy-engine', 'privilege_drift.detected', (data) => this.handleEvent('privilege_drift_detected', data));
+    this.eventSystem.subscribe('policy-engine', 'overprivileged_account.detected', (data) => this.handleEvent('overprivileged_detected', data));
+    this.eventSystem.subscribe('policy-engine', 'access_review.completed', (data) => this.handleEvent('access_review_completed', data));
+    this.eventSystem.subscribe('policy-engine', 'access_review.overdue', (data) => this.handleEvent('access_review_overdue', data));
   }
 
   /**
@@ -89,8 +143,15 @@ export class PolicyEngine {
       // Execute each matching policy
       for (const policy of policies) {
         try {
+          const context: PolicyContext = { tenantId, triggerEvent: triggerType, triggerData };
+
+          if (!this.evaluateConditions(policy, context)) {
+            console.log(`[Policy Engine] Policy ${policy.id} conditions not met`);
+            continue;
+          }
+
           if (await this.canExecutePolicy(policy)) {
-            await this.executePolicy(policy, { tenantId, triggerEvent: triggerType, triggerData });
+            await this.executePolicy(policy, context);
           } else {
             console.log(`[Policy Engine] Policy ${policy.id} cannot execute (cooldown or limit)`);
           }
@@ -99,7 +160,9 @@ export class PolicyEngine {
         }
       }
     } catch (error) {
+      // Rethrow so the event bus retries the delivery
       console.error(`[Policy Engine] Error handling event ${triggerType}:`, error);
+      throw error;
     }
   }
 
@@ -114,91 +177,71 @@ export class PolicyEngine {
    * Check if policy can execute (cooldown, limits)
    */
   private async canExecutePolicy(policy: any): Promise<boolean> {
-    // Check cooldown
-    if (policy.cooldownMinutes && policy.lastExecutedAt) {
-      const cooldownMs = policy.cooldownMinutes * 60 * 1000;
-      const timeSinceLastExecution = Date.now() - new Date(policy.lastExecutedAt).getTime();
-
-      if (timeSinceLastExecution < cooldownMs) {
-        return false;
-      }
-    }
+    let executionsToday = 0;
 
-    // Check daily execution limit
     if (policy.maxExecutionsPerDay) {
       // Get executions today
       const today = new Date();
       today.setHours(0, 0, 0, 0);
 
       const executions = await storage.getPolicyExecutions(policy.tenantId, { policyId: policy.id });
-      const executionsToday = executions.filter(e =>
+      executionsToday = executions.filter(e =>
         e.createdAt && new Date(e.createdAt) >= today
-      );
-
-      if (executionsToday.length >= policy.maxExecutionsPerDay) {
-        return false;
-      }
+      ).length;
     }
 
-    return true;
+    return getThrottleReason(policy, policy.lastExecutedAt, executionsToday) === null;
   }
 
   /**
    * Evaluate policy conditions
    */
-  private evaluateConditions(policy: any, context: PolicyContext): boolean {
+  private evaluateConditions(policy: any, context: PolicyContext, now: Date = new Date()): boolean {
     if (!policy.conditions) {
       return true; // No conditions = always match
     }
 
-    // Simple condition evaluation
-    // In a real implementation, this would support complex boolean logic
-    const conditions = policy.conditions;
-    const triggerData = context.triggerData;
+    const { ast, issues } = parseConditions(policy.conditions);
+    if (issues.length > 0) {
+      // Policies saved before validation existed may still be malformed; never match them
+      console.warn(`[Policy Engine] Policy ${policy.id} has invalid conditions:`, issues);
+      return false;
+    }
 
-    for (const [key, value] of Object.entries(conditions)) {
-      if (Array.isArray(value)) {
-        // Array condition: triggerData[key] must be in array
-        if (!value.includes(triggerData[key])) {
-          return false;
-        }
-      } else if (typeof value === 'object' && value !== null) {
-        // Object condition: supports operators like $gt, $lt, $gte, $lte
-        const operators = value as Record<string, any>;
-        for (const [op, opValue] of Object.entries(operators)) {
-          const dataValue = triggerData[key];
-          switch (op) {
-            case '$gt':
-              if (!(dataValue > opValue)) return false;
-              break;
-            case '$gte':
-              if (!(dataValue >= opValue)) return false;
-              break;
-            case '$lt':
-              if (!(dataValue < opValue)) return false;
-              break;
-            case '$lte':
-              if (!(dataValue <= opValue)) return false;
-              break;
-            case '$eq':
-              if (dataValue !== opValue) return false;
-              break;
-            case '$ne':
-              if (dataValue === opValue) return false;
-              break;
-            default:
-              console.warn(`[Policy Engine] Unknown operator: ${op}`);
-          }
-        }
-      } else {
-        // Simple equality
-        if (triggerData[key] !== value) {
-          return false;
-        }
-      }
+    return evaluateCondition(ast, context.triggerData, now);
+  }
+
+  /**
+   * Evaluate a policy against an event with every action handler in no-op mode.
+   * Handlers are only validated, never executed, so no side effects occur and
+   * no execution record is written.
+   */
+  dryRunPolicy(policy: any, context: PolicyContext, now: Date = new Date()): PolicyDryRunResult {
+    if (!this.evaluateConditions(policy, context, now)) {
+      return { conditionsMatched: false, actions: [] };
     }
 
-    return true;
+    const actionContext: PolicyContext = {
+      ...context,
+      policyId: policy.id,
+      policyName: policy.name,
+      policyOwnerId: policy.createdBy,
+    };
+
+    const actions = (policy.actions || []).map((action: any): PlannedAction => {
+      const config = action.config || {};
+      const handler = this.actionRegistry.getHandler(action.type);
+
+      if (!handler) {
+        return { actionType: action.type, wouldExecute: false, config, reason: 'No handler found' };
+      }
+      if (!handler.validate(config, actionContext)) {
+        return { actionType: action.type, wouldExecute: false, config, reason: 'Invalid action configuration for trigger data' };
+      }
+      return { actionType: action.type, wouldExecute: true, config };
+    });
+
+    return { conditionsMatched: true, actions };
   }
 
   /**
@@ -217,6 +260,13 @@ export class PolicyEngine {
     });
 
     const executionId = executionRecord.id;
+    const actionContext: PolicyContext = {
+      ...context,
+      policyId: policy.id,
+      policyName: policy.name,
+      policyOwnerId: policy.createdBy,
+      executionId,
+    };
     let actionsExecuted = 0;
     let actionsSucceeded = 0;
     let actionsFailed = 0;
@@ -240,13 +290,24 @@ export class PolicyEngine {
           continue;
         }
 
-        const result = await handler.execute(action.config, context);
+        if (!handler.validate(action.config || {}, actionContext)) {
+          results.push({
+            actionType: action.type,
+            success: false,
+            error: 'Invalid action configuration for trigger data'
+          });
+          actionsFailed++;
+          continue;
+        }
+
+        const result = await handler.execute(action.config || {}, actionContext);
 
         results.push({
           actionType: action.type,
           success: result.success,
           result: result.data,
-          error: result.error
+          error: result.error,
+          touched: result.touched || []
         });
 
         if (result.success) {
@@ -298,6 +359,78 @@ export class PolicyEngine {
     };
   }
 
+  /**
+   * Roll back the reversible side effects recorded on a policy execution.
+   * Actions are undone in reverse order; irreversible effects (IdP revocations,
+   * sent notifications) are reported as skipped.
+   */
+  async rollbackExecution(executionId: string, tenantId: string, userId: string): Promise<PolicyRollbackResult> {
+    const execution = await storage.getPolicyExecution(executionId, tenantId);
+    if (!execution) {
+      throw new Error('Execution not found');
+    }
+    if (execution.status === 'rolled_back') {
+      throw new Error('Execution has already been rolled back');
+    }
+
+    const storedResult: Record<string, any> = execution.result || {};
+    const actions: PolicyExecutionResult['results'] = storedResult.actions || [];
+    const context: PolicyContext = {
+      tenantId,
+      triggerEvent: execution.triggerEvent,
+      triggerData: execution.triggerData,
+      userId,
+      policyId: execution.policyId,
+      executionId,
+    };
+
+    const rollback: PolicyRollbackResult = { executionId, rolledBack: 0, skipped: [], errors: [] };
+
+    for (const action of [...actions].reverse()) {
+      const touched = action.touched || [];
+      const reversible = touched.filter(t => t.reversible);
+
+      for (const resource of touched.filter(t => !t.reversible)) {
+        rollback.skipped.push({
+          actionType: action.actionType,
+          resourceType: resource.resourceType,
+          resourceId: resource.resourceId,
+          reason: 'Side effect cannot be reversed automatically'
+        });
+      }
+
+      if (reversible.length === 0) continue;
+
+      const handler = this.actionRegistry.getHandler(action.actionType);
+      if (!handler?.rollback) {
+        rollback.errors.push({ actionType: action.actionType, error: 'Handler does not support rollback' });
+        continue;
+      }
+
+      try {
+        const result = await handler.rollback(reversible, context);
+        if (result.success) {
+          rollback.rolledBack += reversible.length;
+        } else {
+          rollback.errors.push({ actionType: action.actionType, error: result.error || 'Rollback failed' });
+        }
+      } catch (error: any) {
+        console.error(`[Policy Engine] Error rolling back action ${action.actionType}:`, error);
+        rollback.errors.push({ actionType: action.actionType, error: error.message });
+      }
+    }
+
+    await storage.updatePolicyExecution(executionId, tenantId, {
+      status: rollback.errors.length === 0 ? 'rolled_back' : execution.status,
+      result: {
+        ...storedResult,
+        rollback: { ...rollback, rolledBackBy: userId, rolledBackAt: new Date().toISOString() }
+      } as Record<string, any>
+    });
+
+    return rollback;
+  }
+
   /**
    * Manually trigger a policy (for testing)
    */
@@ -0,0 +1,170 @@
+/**
+ * Event Schemas
+ *
+ * Typed registry of every event that flows through the EventSystem:
+ * - One zod schema per event name, validated before the event is persisted
+ * - Fields that every emitter provides are required; the rest are optional
+ * - Schemas pass unknown fields through so emitters can add context freely
+ */
+
+import { z } from 'zod';
+
+const baseEvent = z.object({
+  tenantId: z.string().min(1),
+}).passthrough();
+
+const riskLevel = z.string().nullish();
+
+export const eventSchemas = {
+  // Discovery & Shadow IT
+  'app.discovered': baseEvent.extend({
+    appName: z.string(),
+    appId: z.string().nullish(),
+    approvalStatus: z.string().nullish(),
+    riskLevel,
+    riskScore: z.number().nullish(),
+    discoveryMethod: z.string().nullish(),
+  }),
+  'app.high_risk': baseEvent,
+  'oauth.risky_permission': baseEvent.extend({
+    appId: z.string(),
+    riskLevel: z.string(),
+    userId: z.string().nullish(),
+    scopes: z.array(z.string()).nullish(),
+  }),
+  'network.anomaly': baseEvent.extend({
+    anomalyType: z.string(),
+    severity: z.string(),
+  }),
+  'casb.anomaly': baseEvent,
+  'dlp.violation': baseEvent.extend({
+    eventId: z.string(),
+    severity: z.string().nullish(),
+  }),
+
+  // Licenses, spend & contracts
+  'license.unused': baseEvent.extend({
+    userId: z.string(),
+    appId: z.string(),
+    unusedDays: z.number(),
+    cost: z.number().nullish(),
+  }),
+  'license.auto_reclaim': baseEvent,
+  'budget.exceeded': baseEvent.extend({
+    threshold: z.number(),
+    currentSpend: z.number(),
+    budgetAmount: z.number(),
+    department: z.string().nullish(),
+  }),
+  'contract.renewal_approaching': baseEvent.extend({
+    contractId: z.string(),
+    daysUntilRenewal: z.number(),
+    appId: z.string().nullish(),
+    autoRenew: z.boolean().nullish(),
+  }),
+  'asset.coverage_expiring': baseEvent.extend({
+    assetId: z.string(),
+    coverageType: z.string(),
+    daysUntilExpiry: z.number(),
+    vendor: z.string().nullish(),
+  }),
+  'contract.pdf_uploaded': baseEvent,
+  'renewal.alert_acknowledged': baseEvent,
+  'vendor.breach_detected': baseEvent,
+
+  // Offboarding & lifecycle
+  'user.offboarded': baseEvent.extend({
+    userId: z.string(),
+    offboardingStatus: z.string(),
+    offboardingRequestId: z.string(),
+  }),
+  'user.suspicious_activity': baseEvent,
+  'jml.joiner_completed': baseEvent,
+  'jml.mover_completed': baseEvent,
+  'jml.leaver_completed': baseEvent,
+
+  // Identity governance & access reviews
+  'privilege_drift.detected': baseEvent.extend({
+    userId: z.string(),
+    riskLevel,
+    riskScore: z.number().nullish(),
+  }),
+  'overprivileged_account.detected': baseEvent.extend({
+    userId: z.string(),
+    riskLevel,
+    riskScore: z.number().nullish(),
+  }),
+  'access_review.completed': baseEvent.extend({
+    campaignId: z.string(),
+  }),
+  'access_review.overdue': baseEvent.extend({
+    campaignId: z.string(),
+    daysOverdue: z.number(),
+  }),
+  'access_request.high_risk': baseEvent,
+  'access_request.overdue': baseEvent,
+  'access_request.expired': baseEvent,
+  'jit_access.high_risk_request': baseEvent,
+  'jit_access.auto_revoked': baseEvent,
+  'break_glass.unsealed': baseEvent,
+  'break_glass.expired': baseEvent,
+  'sod.critical_violation': baseEvent,
+  'anomaly.detected': baseEvent.extend({
+    anomalyId: z.string(),
+    anomalyType: z.string(),
+    severity: z.string(),
+  }),
+  'geo.high_risk_access': baseEvent,
+  'department.high_risk': baseEvent,
+
+  // Access revocation
+  'access.unapproved_detected': baseEvent,
+  'access.revocation_approval_requested': baseEvent,
+  'access.revocation_approved': baseEvent,
+  'access.revocation_exempted': baseEvent,
+  'access.manually_revoked': baseEvent,
+  'access.auto_revoked': baseEvent,
+  'access.user_notified': baseEvent,
+  'access.manager_notified': baseEvent,
+  'access.security_team_notified': baseEvent,
+  'access.dormant_detected': baseEvent,
+  'access.dormant_approval_requested': baseEvent,
+  'access.dormant_user_notified': baseEvent,
+  'access.dormant_revoked': baseEvent,
+  'access.dormant_exempted': baseEvent,
+
+  // Automation, alerting & reporting
+  'policy.violation': baseEvent,
+  'remediation.approval_required': baseEvent,
+  'remediation.executed': baseEvent,
+  'alert.created': baseEvent,
+  'compliance.check_completed': baseEvent,
+  'report.generated': baseEvent,
+} as const;
+
+export type PolicyEvent = keyof typeof eventSchemas;
+
+export type EventPayload<E extends PolicyEvent> = z.input<(typeof eventSchemas)[E]>;
+
+export const POLICY_EVENTS = Object.keys(eventSchemas) as PolicyEvent[];
+
+export function isPolicyEvent(name: string): name is PolicyEvent {
+  return Object.prototype.hasOwnProperty.call(eventSchemas, name);
+}
+
+/**
+ * Validate an event payload against its schema
+ */
+export function validateEventPayload<E extends PolicyEvent>(
+  event: E,
+  data: unknown
+): { success: true; data: EventPayload<E> } | { success: false; error: string } {
+  const result = eventSchemas[event].safeParse(data);
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error.issues.map(i => `${i.path.join('.') || 'payload'}: ${i.message}`).join('; '),
+    };
+  }
+  return { success: true, data: result.data as EventPayload<E> };
+}
@@ -2,60 +2,127 @@
  * Event System
  *
  * Event-driven trigger system for policy automation:
- * - Emit events from various parts of the system
- * - Subscribe to events
- * - Process events asynchronously
- * - Event buffering and throttling
- *
- * Future: Can be replaced with Redis Pub/Sub or Kafka for scalability
+ * - Emit typed, schema-validated events from various parts of the system;
+ *   invalid payloads are dead-lettered rather than thrown back at the emitter
+ * - Persist every event to a Postgres outbox before delivery
+ * - At-least-once delivery to durable consumers (policy, alert, remediation, SIEM)
+ * - Exponential retry with a dead-letter queue and replay
+ * - In-process listeners for best-effort, non-durable subscribers
  */
 
 import { EventEmitter } from 'events';
+import { storage } from '../../storage';
+import type { EventDelivery, EventOutboxRecord } from '@shared/schema';
+import { isPolicyEvent, validateEventPayload, type PolicyEvent, type EventPayload } from './event-schemas';
 
-export type PolicyEvent =
-  | 'app.discovered'
-  | 'license.unused'
-  | 'oauth.risky_permission'
-  | 'user.offboarded'
-  | 'contract.renewal_approaching'
-  | 'budget.exceeded';
+export type { PolicyEvent, EventPayload } from './event-schemas';
 
 export interface EventData {
   tenantId: string;
   [key: string]: any;
 }
 
+/**
+ * Durable consumers - each gets its own delivery record, retries and dead-letter state
+ */
+export type EventConsumer = 'policy-engine' | 'alert-engine' | 'remediation-engine' | 'siem';
+
+export const EVENT_CONSUMERS: EventConsumer[] = ['policy-engine', 'alert-engine', 'remediation-engine', 'siem'];
+
+/**
+ * Passed to durable consumers; eventId is the outbox event ID, stable across retries
+ */
+export interface EventDeliveryContext {
+  eventId: string;
+}
+
+export type EventHandler = (data: EventData, context?: EventDeliveryContext) => void | Promise<void>;
+
+export interface EventSystemOptions {
+  maxAttempts: number;
+  baseRetryDelayMs: number;
+  maxRetryDelayMs: number;
+  pollIntervalMs: number;
+  batchSize: number;
+  staleLockMs: number;
+}
+
+const DEFAULT_OPTIONS: EventSystemOptions = {
+  maxAttempts: 8,
+  baseRetryDelayMs: 30 * 1000,
+  maxRetryDelayMs: 60 * 60 * 1000,
+  pollIntervalMs: 15 * 1000,
+  batchSize: 50,
+  staleLockMs: 5 * 60 * 1000,
+};
+
+/**
+ * Delay before the next attempt: base * 2^(attempt - 1), capped at max
+ */
+export function computeRetryDelay(attempts: number, options: Pick<EventSystemOptions, 'baseRetryDelayMs' | 'maxRetryDelayMs'> = DEFAULT_OPTIONS): number {
+  const delay = options.baseRetryDelayMs * Math.pow(2, Math.max(0, attempts - 1));
+  return Math.min(delay, options.maxRetryDelayMs);
+}
+
 /**
  * Event System
  */
 export class EventSystem {
   private emitter: EventEmitter;
   private eventCounts: Map<string, number>;
+  private consumers: Map<string, Map<EventConsumer, EventHandler[]>>;
+  private options: EventSystemOptions;
+  private dispatchTimer: NodeJS.Timeout | null = null;
+  private dispatching = false;
 
-  constructor() {
+  constructor(options: Partial<EventSystemOptions> = {}) {
     this.emitter = new EventEmitter();
     this.emitter.setMaxListeners(100); // Allow many listeners
     this.eventCounts = new Map();
+    this.consumers = new Map();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
   }
 
   /**
    * Emit an event
+   *
+   * The payload is validated against its schema, handed to in-process listeners,
+   * and persisted to the outbox with one delivery per subscribed durable consumer.
+   * Emitting never throws: an invalid payload is logged and its deliveries are
+   * dead-lettered without reaching any handler.
    */
-  emit(event: PolicyEvent, data: EventData): void {
-    console.log(`[Event System] Emitting event: ${event}`, data);
+  emit<E extends PolicyEvent>(event: E, data: EventPayload<E>): void {
+    const validation = validateEventPayload(event, data);
+    if (!validation.success) {
+      console.error(`[Event System] Invalid payload for event ${event}, dead-lettering: ${validation.error}`);
+      this.deadLetterInvalid(event, data, validation.error).catch(error => {
+        console.error(`[Event System] Failed to dead-letter invalid ${event}:`, error);
+      });
+      return;
+    }
+    const payload = validation.data as EventData;
+
+    console.log(`[Event System] Emitting event: ${event}`, payload);
 
     // Track event counts
     const count = this.eventCounts.get(event) || 0;
     this.eventCounts.set(event, count + 1);
 
-    // Emit event
-    this.emitter.emit(event, data);
+    // Best-effort listeners
+    this.emitter.emit(event, payload);
+
+    const consumers = Array.from(this.consumers.get(event)?.keys() || []);
+    if (consumers.length > 0) {
+      this.persistAndDeliver(event, payload, consumers).catch(error => {
+        console.error(`[Event System] Failed to deliver ${event}:`, error);
+      });
+    }
   }
 
   /**
-   * Subscribe to an event
+   * Subscribe to an event (in-process, best effort)
    */
-  on(event: PolicyEvent, handler: (data: EventData) => void | Promise<void>): void {
+  on(event: PolicyEvent, handler: EventHandler): void {
     this.emitter.on(event, async (data: EventData) => {
       try {
         await handler(data);
@@ -65,10 +132,22 @@ export class EventSystem {
     });
   }
 
+  /**
+   * Subscribe a durable consumer to an event
+   *
+   * Delivery is at-least-once: a handler that throws is retried with exponential
+   * backoff, so handlers must tolerate seeing the same event more than once.
+   */
+  subscribe(consumer: EventConsumer, event: PolicyEvent, handler: EventHandler): void {
+    const byConsumer = this.consumers.get(event) || new Map<EventConsumer, EventHandler[]>();
+    byConsumer.set(consumer, [...(byConsumer.get(consumer) || []), handler]);
+    this.consumers.set(event, byConsumer);
+  }
+
   /**
    * Subscribe to an event (one-time)
    */
-  once(event: PolicyEvent, handler: (data: EventData) => void | Promise<void>): void {
+  once(event: PolicyEvent, handler: EventHandler): void {
     this.emitter.once(event, async (data: EventData) => {
       try {
         await handler(data);
@@ -97,8 +176,203 @@ export class EventSystem {
    */
   removeAllListeners(): void {
     this.emitter.removeAllListeners();
+    this.consumers.clear();
     this.eventCounts.clear();
   }
+
+  /**
+   * Start polling the outbox for due retries and deliveries orphaned by a restart
+   */
+  startDispatcher(): void {
+    if (this.dispatchTimer) return;
+
+    this.dispatchTimer = setInterval(() => {
+      this.processDueDeliveries().catch(error => {
+        console.error('[Event System] Dispatcher run failed:', error);
+      });
+    }, this.options.pollIntervalMs);
+
+    console.log(`[Event System] Outbox dispatcher started (every ${this.options.pollIntervalMs / 1000}s)`);
+  }
+
+  /**
+   * Stop the outbox dispatcher
+   */
+  stopDispatcher(): void {
+    if (this.dispatchTimer) {
+      clearInterval(this.dispatchTimer);
+      this.dispatchTimer = null;
+    }
+  }
+
+  /**
+   * Claim and attempt every delivery that is due. Returns the number attempted.
+   */
+  async processDueDeliveries(): Promise<number> {
+    if (this.dispatching) return 0;
+    this.dispatching = true;
+
+    try {
+      const staleBefore = new Date(Date.now() - this.options.staleLockMs);
+      const deliveries = await storage.claimDueEventDeliveries(this.options.batchSize, staleBefore);
+      if (deliveries.length === 0) return 0;
+
+      const events = await storage.getOutboxEventsByIds(Array.from(new Set(deliveries.map(d => d.eventId))));
+      const eventsById = new Map(events.map(e => [e.id, e]));
+
+      for (const delivery of deliveries) {
+        const event = eventsById.get(delivery.eventId);
+        if (!event) {
+          await this.deadLetter(delivery, delivery.attempts, 'Outbox event no longer exists');
+          continue;
+        }
+        await this.attemptDelivery(delivery, event);
+      }
+
+      return deliveries.length;
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  /**
+   * Move dead-lettered deliveries back to pending and dispatch them
+   */
+  async replayDeadLetters(tenantId: string, filters: { ids?: string[]; consumer?: string; eventName?: string } = {}): Promise<EventDelivery[]> {
+    const replayed = await storage.replayEventDeliveries(tenantId, filters);
+
+    if (replayed.length > 0) {
+      this.processDueDeliveries().catch(error => {
+        console.error('[Event System] Replay dispatch failed:', error);
+      });
+    }
+
+    return replayed;
+  }
+
+  /**
+   * Record an invalid event in the outbox with every consumer's delivery dead-lettered, so it
+   * shows up in the dead-letter queue instead of disappearing into the logs
+   */
+  private async deadLetterInvalid(event: PolicyEvent, data: unknown, error: string): Promise<void> {
+    const consumers = Array.from(this.consumers.get(event)?.keys() || []);
+    const tenantId = (data as Partial<EventData> | null)?.tenantId;
+    if (consumers.length === 0 || typeof tenantId !== 'string' || !tenantId) return;
+
+    const record = await storage.createOutboxEvent(
+      { tenantId, eventName: event, payload: data as EventData },
+      consumers,
+      this.options.maxAttempts
+    );
+    for (const delivery of record.deliveries) {
+      await this.deadLetter(delivery, delivery.attempts, `Invalid payload: ${error}`);
+    }
+  }
+
+  private async deadLetter(delivery: EventDelivery, attempts: number, lastError: string): Promise<void> {
+    await storage.updateEventDelivery(delivery.id, delivery.tenantId, {
+      status: 'dead_letter',
+      attempts,
+      lockedAt: null,
+      lastError,
+      deadLetteredAt: new Date(),
+    });
+  }
+
+  /**
+   * Persist the event, then attempt the first delivery to each consumer in-line
+   */
+  private async persistAndDeliver(event: PolicyEvent, payload: EventData, consumers: EventConsumer[]): Promise<void> {
+    let record: { event: EventOutboxRecord; deliveries: EventDelivery[] };
+
+    try {
+      record = await storage.createOutboxEvent(
+        { tenantId: payload.tenantId, eventName: event, payload },
+        consumers,
+        this.options.maxAttempts
+      );
+    } catch (error) {
+      // Without the outbox we can still deliver once, we just lose retry/durability
+      console.error(`[Event System] Failed to persist ${event} to outbox, delivering without retry:`, error);
+      for (const consumer of consumers) {
+        try {
+          await this.invokeConsumer(consumer, event, payload);
+        } catch (consumerError) {
+          console.error(`[Event System] ${consumer} failed to handle ${event}:`, consumerError);
+        }
+      }
+      return;
+    }
+
+    for (const delivery of record.deliveries) {
+      await this.attemptDelivery(delivery, record.event);
+    }
+  }
+
+  /**
+   * Run a consumer's handlers for an event, throwing if any handler fails
+   */
+  private async invokeConsumer(
+    consumer: EventConsumer,
+    event: string,
+    payload: EventData,
+    context?: EventDeliveryContext
+  ): Promise<void> {
+    const handlers = this.consumers.get(event)?.get(consumer) || [];
+    if (handlers.length === 0) {
+      throw new Error(`No ${consumer} handler registered for ${event}`);
+    }
+
+    for (const handler of handlers) {
+      await handler(payload, context);
+    }
+  }
+
+  /**
+   * Attempt one delivery and record the outcome (delivered, retry scheduled or dead-lettered)
+   */
+  private async attemptDelivery(delivery: EventDelivery, event: EventOutboxRecord): Promise<void> {
+    // Replayed dead letters are checked again: a payload that was invalid when emitted still is
+    const validation = isPolicyEvent(event.eventName)
+      ? validateEventPayload(event.eventName, event.payload)
+      : { success: false as const, error: `Unknown event ${event.eventName}` };
+    if (!validation.success) {
+      await this.deadLetter(delivery, delivery.attempts, `Invalid payload: ${validation.error}`);
+      return;
+    }
+
+    const attempts = delivery.attempts + 1;
+
+    try {
+      await this.invokeConsumer(delivery.consumer as EventConsumer, event.eventName, event.payload as EventData, { eventId: event.id });
+
+      await storage.updateEventDelivery(delivery.id, delivery.tenantId, {
+        status: 'delivered',
+        attempts,
+        lockedAt: null,
+        lastError: null,
+        deliveredAt: new Date(),
+      });
+    } catch (error: any) {
+      const lastError = error?.message || String(error);
+
+      if (attempts >= delivery.maxAttempts) {
+        console.error(`[Event System] ${delivery.consumer} exhausted ${attempts} attempts for ${event.eventName} (${event.id}), dead-lettering:`, lastError);
+        await this.deadLetter(delivery, attempts, lastError);
+        return;
+      }
+
+      const delay = computeRetryDelay(attempts, this.options);
+      console.warn(`[Event System] ${delivery.consumer} failed ${event.eventName} (${event.id}) attempt ${attempts}/${delivery.maxAttempts}, retrying in ${Math.round(delay / 1000)}s:`, lastError);
+      await storage.updateEventDelivery(delivery.id, delivery.tenantId, {
+        status: 'failed',
+        attempts,
+        lockedAt: null,
+        lastError,
+        nextAttemptAt: new Date(Date.now() + delay),
+      });
+    }
+  }
 }
 
 /**
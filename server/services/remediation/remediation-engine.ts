@@ -11,6 +11,7 @@
 
 import { storage } from '../../storage';
 import { policyEngine } from '../policy/engine';
+import type { PolicyEvent } from '../policy/event-system';
 import { AlertEngine } from '../alerting/alert-engine';
 
 export interface RemediationAction {
@@ -131,49 +132,6 @@ export class RemediationEngine {
   constructor(tenantId: string) {
     this.tenantId = tenantId;
     this.executionCounts = new Map();
-    this.initializeEventListeners();
-  }
-
-  /**
-   * Initialize event listeners for remediation triggers
-   */
-  private initializeEventListeners(): void {
-    const eventSystem = policyEngine.getEventSystem();
-
-    // Shadow IT events
-    eventSystem.on('app.discovered', (data) => {
-      if (data.tenantId === this.tenantId) {
-        this.processEvent('app.discovered', data);
-      }
-    });
-
-    // OAuth risk events
-    eventSystem.on('oauth.risky_permission', (data) => {
-      if (data.tenantId === this.tenantId) {
-        this.processEvent('oauth.risky_permission', data);
-      }
-    });
-
-    // Network anomaly events
-    eventSystem.on('network.anomaly', (data) => {
-      if (data.tenantId === this.tenantId) {
-        this.processEvent('network.anomaly', data);
-      }
-    });
-
-    // Policy violations
-    eventSystem.on('policy.violation', (data) => {
-      if (data.tenantId === this.tenantId) {
-        this.processEvent('policy.violation', data);
-      }
-    });
-
-    // High risk app detected
-    eventSystem.on('app.high_risk', (data) => {
-      if (data.tenantId === this.tenantId) {
-        this.processEvent('app.high_risk', data);
-      }
-    });
   }
 
   /**
@@ -208,7 +166,9 @@ export class RemediationEngine {
         await this.createExecution(action, eventType, eventData);
       }
     } catch (error) {
+      // Rethrow so the event bus retries the delivery
       console.error(`[Remediation] Error processing event:`, error);
+      throw error;
     }
   }
 
@@ -856,3 +816,35 @@ export interface RemediationStats {
 }
 
 export const createRemediationEngine = (tenantId: string) => new RemediationEngine(tenantId);
+
+// Events that can trigger remediation
+const REMEDIATION_TRIGGER_EVENTS: PolicyEvent[] = [
+  'app.discovered',         // Shadow IT events
+  'oauth.risky_permission', // OAuth risk events
+  'network.anomaly',        // Network anomaly events
+  'policy.violation',
+  'app.high_risk',
+];
+
+// One engine per tenant for event processing, so rate limits span events
+const eventEngines = new Map<string, RemediationEngine>();
+
+/**
+ * Register the remediation engine as a durable event bus consumer (once per process)
+ */
+function registerRemediationEventConsumer(): void {
+  const eventSystem = policyEngine.getEventSystem();
+
+  for (const event of REMEDIATION_TRIGGER_EVENTS) {
+    eventSystem.subscribe('remediation-engine', event, (data) => {
+      let engine = eventEngines.get(data.tenantId);
+      if (!engine) {
+        engine = new RemediationEngine(data.tenantId);
+        eventEngines.set(data.tenantId, engine);
+      }
+      return engine.processEvent(event, data);
+    });
+  }
+}
+
+registerRemediationEventConsumer();
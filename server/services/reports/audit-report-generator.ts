@@ -8,10 +8,14 @@
  * - License usage
  * - Cost optimization
  * - Vendor risk assessments
+ * - Fixed-asset depreciation register
+ * - Hardware warranty/AMC coverage expiring, by vendor
  */
 
 import { storage } from '../../storage';
 import { policyEngine } from '../policy/engine';
+import { depreciationService } from '../assets/depreciation';
+import { coverageAlertsService } from '../assets/coverage-alerts';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -26,7 +30,9 @@ export type ReportType =
   | 'vendor_risk'
   | 'user_activity'
   | 'shadow_it'
-  | 'executive_summary';
+  | 'executive_summary'
+  | 'depreciation_register'
+  | 'coverage_expiry';
 
 export interface ReportConfig {
   type: ReportType;
@@ -52,6 +58,7 @@ export interface ReportSection {
   data: any;
   chartType?: 'bar' | 'pie' | 'line' | 'table';
   metrics?: Record<string, number | string>;
+  maxRows?: number; // Rows rendered in HTML/PDF tables (default 50)
 }
 
 export interface GeneratedReport {
@@ -126,6 +133,19 @@ export class AuditReportGenerator {
       case 'executive_summary':
         ({ sections, summary, rawData } = await this.generateExecutiveSummary(config));
         break;
+      case 'depreciation_register':
+        ({ sections, summary, rawData } = await depreciationService.generateRegisterReport(
+          this.tenantId,
+          config.dateRange.start,
+          config.dateRange.end
+        ));
+        break;
+      case 'coverage_expiry':
+        ({ sections, summary, rawData } = await coverageAlertsService.generateCoverageReport(
+          this.tenantId,
+          config.dateRange.end
+        ));
+        break;
       default:
         throw new Error(`Unknown report type: ${config.type}`);
     }
@@ -192,7 +192,7 @@ export class ReportExporter {
     let dataHTML = '';
 
     if (section.chartType === 'table' && Array.isArray(section.data)) {
-      dataHTML = this.renderTableHTML(section.data);
+      dataHTML = this.renderTableHTML(section.data, section.maxRows);
     } else if (typeof section.data === 'object') {
       if (Array.isArray(section.data)) {
         dataHTML = this.renderTableHTML(section.data);
@@ -209,7 +209,7 @@ export class ReportExporter {
   </div>`;
   }
 
-  private renderTableHTML(data: any[]): string {
+  private renderTableHTML(data: any[], maxRows = 50): string {
     if (!data || data.length === 0) {
       return '<p>No data available</p>';
     }
@@ -224,14 +224,14 @@ export class ReportExporter {
         </tr>
       </thead>
       <tbody>
-        ${data.slice(0, 50).map(row => `
+        ${data.slice(0, maxRows).map(row => `
           <tr>
             ${headers.map(h => `<td>${this.formatValue(row[h])}</td>`).join('')}
           </tr>
         `).join('')}
       </tbody>
     </table>
-    ${data.length > 50 ? `<p><em>Showing 50 of ${data.length} rows</em></p>` : ''}`;
+    ${data.length > maxRows ? `<p><em>Showing ${maxRows} of ${data.length} rows</em></p>` : ''}`;
   }
 
   private renderKeyValueHTML(data: Record<string, any>): string {
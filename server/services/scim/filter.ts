@@ -0,0 +1,292 @@
+/**
+ * SCIM Filter
+ *
+ * Parser and in-memory evaluator for the SCIM 2.0 filter grammar (RFC 7644 section 3.4.2.2):
+ * - Operators eq, ne, co, sw, ew, gt, ge, lt, le and pr
+ * - Logical and / or / not with parentheses (not > and > or)
+ * - Value paths on multi-valued attributes, e.g. emails[type eq "work" and value co "@example.com"]
+ * - Attribute names and string comparisons are case-insensitive
+ */
+
+import { ScimError, SCIM_SCHEMAS, getAttribute, type ScimResource } from './resources';
+
+export type ScimCompareOperator = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le';
+
+export type ScimFilter =
+  | { type: 'compare'; path: string; op: ScimCompareOperator; value: string | number | boolean | null }
+  | { type: 'present'; path: string }
+  | { type: 'and' | 'or'; left: ScimFilter; right: ScimFilter }
+  | { type: 'not'; filter: ScimFilter }
+  | { type: 'valuePath'; path: string; filter: ScimFilter };
+
+const COMPARE_OPERATORS = new Set<string>(['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le']);
+
+type Token =
+  | { kind: 'punct'; value: '(' | ')' | '[' | ']' }
+  | { kind: 'string'; value: string }
+  | { kind: 'word'; value: string };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')' || char === '[' || char === ']') {
+      tokens.push({ kind: 'punct', value: char });
+      i++;
+    } else if (char === '"') {
+      let end = i + 1;
+      while (end < input.length && input[end] !== '"') {
+        end += input[end] === '\\' ? 2 : 1;
+      }
+      if (end >= input.length) {
+        throw new ScimError(400, 'Unterminated string in filter', 'invalidFilter');
+      }
+      try {
+        tokens.push({ kind: 'string', value: JSON.parse(input.slice(i, end + 1)) });
+      } catch {
+        throw new ScimError(400, 'Invalid string literal in filter', 'invalidFilter');
+      }
+      i = end + 1;
+    } else {
+      const match = /^[^\s()[\]"]+/.exec(input.slice(i))!;
+      tokens.push({ kind: 'word', value: match[0] });
+      i += match[0].length;
+    }
+  }
+
+  return tokens;
+}
+
+class FilterParser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ScimFilter {
+    const filter = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new ScimError(400, `Unexpected token "${this.tokens[this.position].value}" in filter`, 'invalidFilter');
+    }
+    return filter;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new ScimError(400, 'Unexpected end of filter', 'invalidFilter');
+    }
+    return token;
+  }
+
+  private expectPunct(value: ')' | ']') {
+    const token = this.next();
+    if (token.kind !== 'punct' || token.value !== value) {
+      throw new ScimError(400, `Expected "${value}" in filter`, 'invalidFilter');
+    }
+  }
+
+  private isKeyword(token: Token | undefined, keyword: string): boolean {
+    return token?.kind === 'word' && token.value.toLowerCase() === keyword;
+  }
+
+  private parseOr(): ScimFilter {
+    let left = this.parseAnd();
+    while (this.isKeyword(this.peek(), 'or')) {
+      this.position++;
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ScimFilter {
+    let left = this.parseUnary();
+    while (this.isKeyword(this.peek(), 'and')) {
+      this.position++;
+      left = { type: 'and', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ScimFilter {
+    const token = this.next();
+
+    if (token.kind === 'punct' && token.value === '(') {
+      const filter = this.parseOr();
+      this.expectPunct(')');
+      return filter;
+    }
+
+    if (this.isKeyword(token, 'not')) {
+      const open = this.next();
+      if (open.kind !== 'punct' || open.value !== '(') {
+        throw new ScimError(400, 'Expected "(" after not', 'invalidFilter');
+      }
+      const filter = this.parseOr();
+      this.expectPunct(')');
+      return { type: 'not', filter };
+    }
+
+    if (token.kind !== 'word') {
+      throw new ScimError(400, 'Expected an attribute name in filter', 'invalidFilter');
+    }
+    const path = token.value;
+
+    const following = this.peek();
+    if (following?.kind === 'punct' && following.value === '[') {
+      this.position++;
+      const filter = this.parseOr();
+      this.expectPunct(']');
+      return { type: 'valuePath', path, filter };
+    }
+
+    const operator = this.next();
+    const op = operator.kind === 'word' ? operator.value.toLowerCase() : '';
+    if (op === 'pr') {
+      return { type: 'present', path };
+    }
+    if (!COMPARE_OPERATORS.has(op)) {
+      throw new ScimError(400, `Unsupported filter operator "${operator.value}"`, 'invalidFilter');
+    }
+
+    return { type: 'compare', path, op: op as ScimCompareOperator, value: this.parseValue() };
+  }
+
+  private parseValue(): string | number | boolean | null {
+    const token = this.next();
+    if (token.kind === 'string') return token.value;
+    if (token.kind === 'word') {
+      const lower = token.value.toLowerCase();
+      if (lower === 'true') return true;
+      if (lower === 'false') return false;
+      if (lower === 'null') return null;
+      if (/^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(token.value)) return Number(token.value);
+    }
+    throw new ScimError(400, `Invalid comparison value "${token.value}" in filter`, 'invalidFilter');
+  }
+}
+
+export function parseFilter(input: string): ScimFilter {
+  if (!input || !input.trim()) {
+    throw new ScimError(400, 'Filter is empty', 'invalidFilter');
+  }
+  return new FilterParser(tokenize(input)).parse();
+}
+
+/**
+ * Split an attribute path into its segments, resolving URN-qualified paths
+ * (e.g. urn:...:enterprise:2.0:User:manager.value) against the extension key
+ */
+export function splitAttributePath(path: string): string[] {
+  if (path.toLowerCase() === SCIM_SCHEMAS.ENTERPRISE_USER.toLowerCase()) {
+    return [path];
+  }
+  if (path.toLowerCase().startsWith('urn:')) {
+    const separator = path.lastIndexOf(':');
+    return [path.slice(0, separator), ...path.slice(separator + 1).split('.')];
+  }
+  return path.split('.');
+}
+
+/**
+ * Collect every value at a path, flattening multi-valued attributes along the way
+ */
+export function resolveValues(resource: ScimResource, path: string): unknown[] {
+  let current: unknown[] = [resource];
+
+  for (const segment of splitAttributePath(path)) {
+    const nextValues: unknown[] = [];
+    for (const value of current) {
+      const candidates = Array.isArray(value) ? value : [value];
+      for (const candidate of candidates) {
+        const child = getAttribute(candidate as ScimResource, segment);
+        if (child !== undefined && child !== null) nextValues.push(child);
+      }
+    }
+    current = nextValues;
+  }
+
+  return current.flatMap((value) => (Array.isArray(value) ? value : [value]));
+}
+
+function compare(actual: unknown, op: ScimCompareOperator, expected: string | number | boolean | null): boolean {
+  if (expected === null) {
+    return op === 'eq' ? actual === null || actual === undefined : op === 'ne' ? actual !== null && actual !== undefined : false;
+  }
+  if (typeof expected === 'boolean') {
+    const value = typeof actual === 'string' ? actual.toLowerCase() === 'true' : actual;
+    return op === 'eq' ? value === expected : op === 'ne' ? value !== expected : false;
+  }
+  if (typeof expected === 'number') {
+    const value = Number(actual);
+    if (Number.isNaN(value)) return op === 'ne';
+    switch (op) {
+      case 'eq': return value === expected;
+      case 'ne': return value !== expected;
+      case 'gt': return value > expected;
+      case 'ge': return value >= expected;
+      case 'lt': return value < expected;
+      case 'le': return value <= expected;
+      default: return false;
+    }
+  }
+
+  if (actual === null || actual === undefined || typeof actual === 'object') return op === 'ne';
+  const value = String(actual).toLowerCase();
+  const target = expected.toLowerCase();
+  switch (op) {
+    case 'eq': return value === target;
+    case 'ne': return value !== target;
+    case 'co': return value.includes(target);
+    case 'sw': return value.startsWith(target);
+    case 'ew': return value.endsWith(target);
+    case 'gt': return value > target;
+    case 'ge': return value >= target;
+    case 'lt': return value < target;
+    case 'le': return value <= target;
+  }
+}
+
+function isPresent(value: unknown): boolean {
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'string') return value.length > 0;
+  if (typeof value === 'object') return Object.keys(value).length > 0;
+  return true;
+}
+
+/**
+ * Evaluate a parsed filter against a SCIM resource
+ */
+export function matchesFilter(resource: ScimResource, filter: ScimFilter): boolean {
+  switch (filter.type) {
+    case 'and':
+      return matchesFilter(resource, filter.left) && matchesFilter(resource, filter.right);
+    case 'or':
+      return matchesFilter(resource, filter.left) || matchesFilter(resource, filter.right);
+    case 'not':
+      return !matchesFilter(resource, filter.filter);
+    case 'present':
+      return resolveValues(resource, filter.path).some(isPresent);
+    case 'valuePath':
+      return resolveValues(resource, filter.path).some(
+        (element) => typeof element === 'object' && element !== null && matchesFilter(element as ScimResource, filter.filter)
+      );
+    case 'compare': {
+      const values = resolveValues(resource, filter.path);
+      if (values.length === 0) {
+        return compare(undefined, filter.op, filter.value);
+      }
+      // ne must hold for every value; every other operator matches if any value does
+      return filter.op === 'ne'
+        ? values.every((value) => compare(value, filter.op, filter.value))
+        : values.some((value) => compare(value, filter.op, filter.value));
+    }
+  }
+}
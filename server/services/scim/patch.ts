@@ -0,0 +1,206 @@
+/**
+ * SCIM PATCH
+ *
+ * Applies RFC 7644 section 3.5.2 PatchOp operations to a SCIM resource:
+ * - add / replace / remove, operation names matched case-insensitively (Azure AD sends "Replace")
+ * - Paths: attr, attr.sub, URN-qualified extension attributes, attr[filter] and attr[filter].sub
+ * - add/replace without a path merge the value object, whose keys may themselves be paths
+ * - Complex attributes are merged; multi-valued attributes are appended to on add
+ *
+ * The caller maps the patched resource back to platform records, so this module
+ * stays independent of storage.
+ */
+
+import { ScimError, getAttribute, type ScimResource } from './resources';
+import { parseFilter, matchesFilter, splitAttributePath, type ScimFilter } from './filter';
+
+export type ScimPatchOpName = 'add' | 'replace' | 'remove';
+
+export interface ScimPatchOperation {
+  op: string;
+  path?: string;
+  value?: any;
+}
+
+interface PatchPath {
+  segments: string[];
+  filter?: ScimFilter;
+  subAttribute?: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function findKey(container: Record<string, any>, name: string): string {
+  return Object.keys(container).find((key) => key.toLowerCase() === name.toLowerCase()) ?? name;
+}
+
+export function parsePatchPath(path: string): PatchPath {
+  const bracket = path.indexOf('[');
+  if (bracket === -1) {
+    return { segments: splitAttributePath(path) };
+  }
+
+  const closing = path.lastIndexOf(']');
+  if (closing < bracket) {
+    throw new ScimError(400, `Invalid path "${path}"`, 'invalidPath');
+  }
+
+  const rest = path.slice(closing + 1);
+  if (rest && !rest.startsWith('.')) {
+    throw new ScimError(400, `Invalid path "${path}"`, 'invalidPath');
+  }
+
+  return {
+    segments: splitAttributePath(path.slice(0, bracket)),
+    filter: parseFilter(path.slice(bracket + 1, closing)),
+    subAttribute: rest ? rest.slice(1) : undefined,
+  };
+}
+
+function sameElement(a: unknown, b: unknown): boolean {
+  if (isPlainObject(a) && isPlainObject(b) && getAttribute(a, 'value') !== undefined) {
+    return String(getAttribute(a, 'value')) === String(getAttribute(b, 'value'));
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function setValue(container: Record<string, any>, name: string, value: any, op: ScimPatchOpName) {
+  const key = findKey(container, name);
+  const existing = container[key];
+
+  if (op === 'add' && Array.isArray(existing)) {
+    const additions = Array.isArray(value) ? value : [value];
+    for (const addition of additions) {
+      if (!existing.some((element) => sameElement(element, addition))) {
+        existing.push(addition);
+      }
+    }
+    return;
+  }
+
+  if (isPlainObject(existing) && isPlainObject(value)) {
+    for (const [subName, subValue] of Object.entries(value)) {
+      existing[findKey(existing, subName)] = subValue;
+    }
+    return;
+  }
+
+  container[key] = value;
+}
+
+/**
+ * The element an add/replace creates when a value filter matches nothing,
+ * e.g. emails[type eq "work"].value on a user without a work email
+ */
+function elementForFilter(filter: ScimFilter): Record<string, any> | undefined {
+  if (filter.type === 'compare' && filter.op === 'eq' && !filter.path.includes('.')) {
+    return { [filter.path]: filter.value };
+  }
+  if (filter.type === 'and') {
+    const left = elementForFilter(filter.left);
+    const right = elementForFilter(filter.right);
+    return left && right ? { ...left, ...right } : undefined;
+  }
+  return undefined;
+}
+
+function applyAtPath(resource: ScimResource, path: string, op: ScimPatchOpName, value: any) {
+  const { segments, filter, subAttribute } = parsePatchPath(path);
+
+  let parent: Record<string, any> = resource;
+  for (const segment of segments.slice(0, -1)) {
+    const key = findKey(parent, segment);
+    if (parent[key] === undefined || parent[key] === null) {
+      if (op === 'remove') return;
+      parent[key] = {};
+    }
+    if (!isPlainObject(parent[key])) {
+      throw new ScimError(400, `Invalid path "${path}"`, 'invalidPath');
+    }
+    parent = parent[key];
+  }
+
+  const attribute = findKey(parent, segments[segments.length - 1]);
+
+  if (!filter) {
+    if (op !== 'remove') {
+      setValue(parent, attribute, value, op);
+    } else if (Array.isArray(parent[attribute]) && Array.isArray(value)) {
+      // Azure AD removes group members by listing them in the value
+      parent[attribute] = parent[attribute].filter(
+        (element: unknown) => !value.some((removal) => sameElement(element, removal))
+      );
+    } else {
+      delete parent[attribute];
+    }
+    return;
+  }
+
+  const elements: any[] = Array.isArray(parent[attribute]) ? parent[attribute] : [];
+  let matches = elements.filter((element) => isPlainObject(element) && matchesFilter(element, filter));
+
+  if (op === 'remove') {
+    if (subAttribute) {
+      for (const match of matches) delete match[findKey(match, subAttribute)];
+    } else {
+      parent[attribute] = elements.filter((element) => !matches.includes(element));
+    }
+    return;
+  }
+
+  if (matches.length === 0) {
+    const created = elementForFilter(filter);
+    if (!created) {
+      throw new ScimError(400, `No values match path "${path}"`, 'noTarget');
+    }
+    parent[attribute] = [...elements, created];
+    matches = [created];
+  }
+
+  for (const match of matches) {
+    if (subAttribute) {
+      setValue(match, subAttribute, value, op);
+    } else if (isPlainObject(value)) {
+      Object.assign(match, value);
+    } else {
+      throw new ScimError(400, `A complex value is required for path "${path}"`, 'invalidValue');
+    }
+  }
+}
+
+/**
+ * Apply PatchOp operations to a copy of the resource
+ */
+export function applyPatch(resource: ScimResource, operations: ScimPatchOperation[]): ScimResource {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    throw new ScimError(400, 'Operations must be a non-empty array', 'invalidSyntax');
+  }
+
+  const patched = structuredClone(resource);
+
+  for (const operation of operations) {
+    const op = String(operation?.op || '').toLowerCase();
+    if (op !== 'add' && op !== 'replace' && op !== 'remove') {
+      throw new ScimError(400, `Unsupported patch operation "${operation?.op}"`, 'invalidSyntax');
+    }
+
+    if (operation.path) {
+      applyAtPath(patched, operation.path, op, operation.value);
+      continue;
+    }
+
+    if (op === 'remove') {
+      throw new ScimError(400, 'A path is required for remove operations', 'noTarget');
+    }
+    if (!isPlainObject(operation.value)) {
+      throw new ScimError(400, 'A value object is required when no path is given', 'invalidValue');
+    }
+    for (const [path, value] of Object.entries(operation.value)) {
+      applyAtPath(patched, path, op, value);
+    }
+  }
+
+  return patched;
+}
@@ -0,0 +1,243 @@
+/**
+ * SCIM Resources
+ *
+ * Schema URNs, the SCIM error type and the mapping between platform
+ * records and SCIM 2.0 (RFC 7643) User / Group resources:
+ * - userName is the login email; id is the platform user ID
+ * - Department and manager travel in the enterprise User extension
+ * - Group membership is read-only on the User resource
+ */
+
+import type { User, ScimGroup, ScimGroupMember } from '@shared/schema';
+
+export const SCIM_SCHEMAS = {
+  USER: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  ENTERPRISE_USER: 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User',
+  GROUP: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  LIST_RESPONSE: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  PATCH_OP: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  BULK_REQUEST: 'urn:ietf:params:scim:api:messages:2.0:BulkRequest',
+  BULK_RESPONSE: 'urn:ietf:params:scim:api:messages:2.0:BulkResponse',
+  ERROR: 'urn:ietf:params:scim:api:messages:2.0:Error',
+  SERVICE_PROVIDER_CONFIG: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+  RESOURCE_TYPE: 'urn:ietf:params:scim:schemas:core:2.0:ResourceType',
+  SCHEMA: 'urn:ietf:params:scim:schemas:core:2.0:Schema',
+} as const;
+
+export type ScimErrorType =
+  | 'invalidFilter'
+  | 'tooMany'
+  | 'uniqueness'
+  | 'mutability'
+  | 'invalidSyntax'
+  | 'invalidPath'
+  | 'noTarget'
+  | 'invalidValue'
+  | 'invalidVers'
+  | 'sensitive';
+
+/**
+ * Error rendered as a SCIM Error message (RFC 7644 section 3.12)
+ */
+export class ScimError extends Error {
+  constructor(public status: number, message: string, public scimType?: ScimErrorType) {
+    super(message);
+    this.name = 'ScimError';
+  }
+
+  toResponse() {
+    return {
+      schemas: [SCIM_SCHEMAS.ERROR],
+      status: String(this.status),
+      ...(this.scimType ? { scimType: this.scimType } : {}),
+      detail: this.message,
+    };
+  }
+}
+
+export type ScimResource = Record<string, any>;
+
+/**
+ * Attributes of a user that can be set through SCIM
+ */
+export interface ScimUserAttributes {
+  email: string;
+  firstName: string;
+  lastName: string;
+  jobTitle: string | null;
+  phone: string | null;
+  department: string | null;
+  manager: string | null;
+  externalId: string | null;
+  isActive: boolean;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Case-insensitive attribute lookup; SCIM attribute names are not case sensitive
+ */
+export function getAttribute(resource: ScimResource | undefined, name: string): any {
+  if (!resource || typeof resource !== 'object') return undefined;
+  const key = Object.keys(resource).find((k) => k.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : resource[key];
+}
+
+/**
+ * Azure AD sends booleans as the strings "True" / "False"
+ */
+export function toBoolean(value: unknown, fallback: boolean): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    if (value.toLowerCase() === 'true') return true;
+    if (value.toLowerCase() === 'false') return false;
+  }
+  return fallback;
+}
+
+function optionalString(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  const text = String(value).trim();
+  return text ? text : null;
+}
+
+function pickPrimary(values: unknown): ScimResource | undefined {
+  if (!Array.isArray(values) || values.length === 0) return undefined;
+  return values.find((v) => toBoolean(getAttribute(v, 'primary'), false))
+    || values.find((v) => String(getAttribute(v, 'type') || '').toLowerCase() === 'work')
+    || values[0];
+}
+
+export function resourceLocation(baseUrl: string, type: 'Users' | 'Groups', id: string): string {
+  return `${baseUrl}/${type}/${id}`;
+}
+
+/**
+ * Render a platform user as a SCIM User resource
+ */
+export function toScimUser(
+  user: User,
+  groups: Array<Pick<ScimGroup, 'id' | 'displayName'>>,
+  baseUrl: string
+): ScimResource {
+  const created = user.createdAt ? new Date(user.createdAt).toISOString() : undefined;
+  const lastModified = user.updatedAt ? new Date(user.updatedAt).toISOString() : created;
+
+  return {
+    schemas: [SCIM_SCHEMAS.USER, SCIM_SCHEMAS.ENTERPRISE_USER],
+    id: user.id,
+    ...(user.externalId ? { externalId: user.externalId } : {}),
+    userName: user.email,
+    name: {
+      givenName: user.firstName,
+      familyName: user.lastName,
+      formatted: `${user.firstName} ${user.lastName}`.trim(),
+    },
+    displayName: `${user.firstName} ${user.lastName}`.trim(),
+    ...(user.jobTitle ? { title: user.jobTitle } : {}),
+    active: user.isActive !== false,
+    emails: [{ value: user.email, type: 'work', primary: true }],
+    ...(user.phone ? { phoneNumbers: [{ value: user.phone, type: 'work' }] } : {}),
+    groups: groups.map((group) => ({
+      value: group.id,
+      display: group.displayName,
+      $ref: resourceLocation(baseUrl, 'Groups', group.id),
+    })),
+    [SCIM_SCHEMAS.ENTERPRISE_USER]: {
+      ...(user.department ? { department: user.department } : {}),
+      ...(user.manager ? { manager: { value: user.manager } } : {}),
+    },
+    meta: {
+      resourceType: 'User',
+      created,
+      lastModified,
+      location: resourceLocation(baseUrl, 'Users', user.id),
+    },
+  };
+}
+
+/**
+ * Read the platform attributes from a SCIM User resource (POST/PUT body or patched resource)
+ */
+export function fromScimUser(resource: ScimResource): ScimUserAttributes {
+  const userName = optionalString(getAttribute(resource, 'userName'));
+  const primaryEmail = optionalString(getAttribute(pickPrimary(getAttribute(resource, 'emails')), 'value'));
+  const email = (userName && EMAIL_PATTERN.test(userName) ? userName : primaryEmail)?.toLowerCase();
+
+  if (!userName) {
+    throw new ScimError(400, 'userName is required', 'invalidValue');
+  }
+  if (!email || !EMAIL_PATTERN.test(email)) {
+    throw new ScimError(400, 'userName or a primary email must be a valid email address', 'invalidValue');
+  }
+
+  const name = getAttribute(resource, 'name') || {};
+  const displayName = optionalString(getAttribute(resource, 'displayName'));
+  const [displayFirst, ...displayRest] = (displayName || '').split(/\s+/);
+  const enterprise = getAttribute(resource, SCIM_SCHEMAS.ENTERPRISE_USER) || {};
+  const manager = getAttribute(enterprise, 'manager');
+
+  return {
+    email,
+    firstName: optionalString(getAttribute(name, 'givenName')) || displayFirst || email.split('@')[0],
+    lastName: optionalString(getAttribute(name, 'familyName')) || displayRest.join(' '),
+    jobTitle: optionalString(getAttribute(resource, 'title')),
+    phone: optionalString(getAttribute(pickPrimary(getAttribute(resource, 'phoneNumbers')), 'value')),
+    department: optionalString(getAttribute(enterprise, 'department')),
+    manager: optionalString(
+      manager && typeof manager === 'object'
+        ? getAttribute(manager, 'displayName') || getAttribute(manager, 'value')
+        : manager
+    ),
+    externalId: optionalString(getAttribute(resource, 'externalId')),
+    isActive: toBoolean(getAttribute(resource, 'active'), true),
+  };
+}
+
+/**
+ * Render a group and its members as a SCIM Group resource
+ */
+export function toScimGroup(
+  group: ScimGroup,
+  members: Array<Pick<ScimGroupMember, 'userId'> & { display?: string }>,
+  baseUrl: string
+): ScimResource {
+  return {
+    schemas: [SCIM_SCHEMAS.GROUP],
+    id: group.id,
+    ...(group.externalId ? { externalId: group.externalId } : {}),
+    displayName: group.displayName,
+    members: members.map((member) => ({
+      value: member.userId,
+      ...(member.display ? { display: member.display } : {}),
+      $ref: resourceLocation(baseUrl, 'Users', member.userId),
+    })),
+    meta: {
+      resourceType: 'Group',
+      created: group.createdAt ? new Date(group.createdAt).toISOString() : undefined,
+      lastModified: group.updatedAt ? new Date(group.updatedAt).toISOString() : undefined,
+      location: resourceLocation(baseUrl, 'Groups', group.id),
+    },
+  };
+}
+
+/**
+ * Read display name, external ID and member user IDs from a SCIM Group resource
+ */
+export function fromScimGroup(resource: ScimResource): { displayName: string; externalId: string | null; memberIds: string[] } {
+  const displayName = optionalString(getAttribute(resource, 'displayName'));
+  if (!displayName) {
+    throw new ScimError(400, 'displayName is required', 'invalidValue');
+  }
+
+  const members = getAttribute(resource, 'members');
+  const memberIds = Array.isArray(members)
+    ? members.map((member) => optionalString(getAttribute(member, 'value'))).filter((id): id is string => !!id)
+    : [];
+
+  return {
+    displayName,
+    externalId: optionalString(getAttribute(resource, 'externalId')),
+    memberIds,
+  };
+}
@@ -0,0 +1,530 @@
+/**
+ * SCIM Service
+ *
+ * Inbound SCIM 2.0 provisioning so an IdP (Okta, Azure AD) can push
+ * joiner/mover/leaver changes instead of waiting for the IdP sync poll:
+ * - Users and Groups with filtering, pagination, PUT, PATCH and DELETE
+ * - Bulk requests with bulkId cross-references
+ * - New active users run the JML joiner flow; department, title or manager changes run the mover flow
+ * - Deactivation (active=false or DELETE) runs the JML leaver flow and starts an offboarding request
+ * - DELETE deactivates rather than erasing the user, so asset and audit history stay intact
+ */
+
+import crypto from 'crypto';
+import { storage } from '../../storage';
+import { auditLogger, AuditActions, ResourceTypes } from '../../audit-logger';
+import { hashPassword } from '../auth';
+import { JMLWorkflowService } from '../jml-workflow';
+import { OffboardingOrchestrator } from '../offboarding/orchestrator';
+import type { User, ScimGroup, ScimToken } from '@shared/schema';
+import { parseFilter, matchesFilter } from './filter';
+import { applyPatch, type ScimPatchOperation } from './patch';
+import {
+  SCIM_SCHEMAS,
+  ScimError,
+  getAttribute,
+  toScimUser,
+  fromScimUser,
+  toScimGroup,
+  fromScimGroup,
+  type ScimResource,
+  type ScimUserAttributes,
+} from './resources';
+
+export interface ScimListOptions {
+  filter?: string;
+  startIndex?: number;
+  count?: number;
+  excludedAttributes?: string;
+}
+
+export interface ScimBulkOperation {
+  method: string;
+  bulkId?: string;
+  path: string;
+  data?: any;
+}
+
+export const SCIM_MAX_BULK_OPERATIONS = 100;
+export const SCIM_MAX_PAYLOAD_SIZE = 1024 * 1024;
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 200;
+
+export function hashScimToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function removeAttributes(resource: ScimResource, excludedAttributes?: string): ScimResource {
+  if (!excludedAttributes) return resource;
+  const excluded = excludedAttributes.split(',').map((name) => name.trim().toLowerCase());
+  return Object.fromEntries(
+    Object.entries(resource).filter(([key]) => !excluded.includes(key.toLowerCase()) || key === 'id' || key === 'schemas')
+  );
+}
+
+export class ScimService {
+  private jml: JMLWorkflowService;
+
+  constructor(
+    private tenantId: string,
+    private baseUrl: string,
+    private token: Pick<ScimToken, 'id' | 'name' | 'createdBy'>
+  ) {
+    this.jml = new JMLWorkflowService(tenantId);
+  }
+
+  private get triggeredBy(): string {
+    return `scim:${this.token.name}`;
+  }
+
+  // ============================================================================
+  // USERS
+  // ============================================================================
+
+  async listUsers(options: ScimListOptions) {
+    const users = await storage.getUsers(this.tenantId);
+    const groupsByUser = await this.getGroupsByUser();
+    const resources = users.map((user) => toScimUser(user, groupsByUser.get(user.id) || [], this.baseUrl));
+    return this.listResponse(resources, options);
+  }
+
+  async getUser(id: string, excludedAttributes?: string): Promise<ScimResource> {
+    const user = await this.findUser(id);
+    return removeAttributes(await this.renderUser(user), excludedAttributes);
+  }
+
+  async createUser(resource: ScimResource): Promise<ScimResource> {
+    const attributes = fromScimUser(resource);
+
+    const existing = await storage.getUserByEmail(attributes.email);
+    if (existing) {
+      // Email addresses are unique across tenants, so never reveal which tenant holds it
+      throw new ScimError(409, `User ${attributes.email} already exists`, 'uniqueness');
+    }
+
+    const user = await storage.createUser({
+      username: await this.generateUsername(attributes.email),
+      email: attributes.email,
+      // Provisioned users sign in through SSO; store an unguessable hash
+      password: await hashPassword(crypto.randomBytes(32).toString('hex')),
+      firstName: attributes.firstName,
+      lastName: attributes.lastName,
+      role: 'technician',
+      tenantId: this.tenantId,
+      jobTitle: attributes.jobTitle,
+      phone: attributes.phone,
+      department: attributes.department,
+      manager: attributes.manager,
+      externalId: attributes.externalId,
+      isActive: attributes.isActive,
+      mustChangePassword: false,
+    });
+    console.log(`[SCIM] Provisioned user ${user.email} in tenant ${this.tenantId}`);
+    await this.audit(AuditActions.USER_CREATE, ResourceTypes.USER, user.id, `Provisioned user ${user.email}`, undefined, user);
+
+    if (user.isActive !== false) {
+      this.runJoiner(user);
+    }
+
+    return this.renderUser(user);
+  }
+
+  async replaceUser(id: string, resource: ScimResource): Promise<ScimResource> {
+    const user = await this.findUser(id);
+    const updated = await this.applyUserAttributes(user, fromScimUser(resource));
+    return this.renderUser(updated);
+  }
+
+  async patchUser(id: string, operations: ScimPatchOperation[]): Promise<ScimResource> {
+    const user = await this.findUser(id);
+    const patched = applyPatch(await this.renderUser(user), operations);
+    const updated = await this.applyUserAttributes(user, fromScimUser(patched));
+    return this.renderUser(updated);
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    const user = await this.findUser(id);
+    if (user.isActive !== false) {
+      await this.applyUserAttributes(user, { ...this.currentAttributes(user), isActive: false });
+    }
+  }
+
+  private async findUser(id: string): Promise<User> {
+    const user = await storage.getUser(id);
+    if (!user || user.tenantId !== this.tenantId) {
+      throw new ScimError(404, `User ${id} not found`);
+    }
+    return user;
+  }
+
+  private async renderUser(user: User): Promise<ScimResource> {
+    const memberships = await storage.getScimGroupMembershipsForUser(user.id, this.tenantId);
+    const groupIds = new Set(memberships.map((membership) => membership.groupId));
+    const groups = groupIds.size > 0
+      ? (await storage.getScimGroups(this.tenantId)).filter((group) => groupIds.has(group.id))
+      : [];
+    return toScimUser(user, groups, this.baseUrl);
+  }
+
+  private async getGroupsByUser(): Promise<Map<string, ScimGroup[]>> {
+    const groups = await storage.getScimGroups(this.tenantId);
+    const groupsById = new Map(groups.map((group) => [group.id, group]));
+    const byUser = new Map<string, ScimGroup[]>();
+
+    for (const member of await storage.getScimGroupMembers(this.tenantId)) {
+      const group = groupsById.get(member.groupId);
+      if (group) {
+        byUser.set(member.userId, [...(byUser.get(member.userId) || []), group]);
+      }
+    }
+    return byUser;
+  }
+
+  private currentAttributes(user: User): ScimUserAttributes {
+    return {
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      jobTitle: user.jobTitle,
+      phone: user.phone,
+      department: user.department,
+      manager: user.manager,
+      externalId: user.externalId,
+      isActive: user.isActive !== false,
+    };
+  }
+
+  private async applyUserAttributes(user: User, attributes: ScimUserAttributes): Promise<User> {
+    if (attributes.email !== user.email) {
+      const existing = await storage.getUserByEmail(attributes.email);
+      if (existing && existing.id !== user.id) {
+        throw new ScimError(409, `User ${attributes.email} already exists`, 'uniqueness');
+      }
+    }
+
+    const updated = await storage.updateUser(user.id, attributes);
+    if (!updated) {
+      throw new ScimError(404, `User ${user.id} not found`);
+    }
+
+    await this.audit(AuditActions.USER_UPDATE, ResourceTypes.USER, user.id, `Updated user ${updated.email}`, user, updated);
+    this.runLifecycle(user, updated);
+    return updated;
+  }
+
+  private async generateUsername(email: string): Promise<string> {
+    const base = email.split('@')[0].toLowerCase().replace(/[^a-z0-9._-]/g, '') || 'user';
+    let candidate = base;
+    for (let suffix = 1; await storage.getUserByUsername(candidate); suffix++) {
+      candidate = `${base}${suffix}`;
+    }
+    return candidate;
+  }
+
+  private async audit(action: string, resourceType: string, resourceId: string, description: string, beforeState?: any, afterState?: any) {
+    await auditLogger.logSystemActivity(this.tenantId, {
+      action,
+      resourceType,
+      resourceId,
+      description: `${description} via SCIM token "${this.token.name}"`,
+      beforeState,
+      afterState,
+    });
+  }
+
+  // ============================================================================
+  // JOINER / MOVER / LEAVER HAND-OFF
+  // ============================================================================
+
+  /**
+   * Start the JML flow matching a provisioning change. Runs in the background
+   * so the IdP gets its SCIM response without waiting on downstream revocation.
+   */
+  private runLifecycle(previous: User, updated: User) {
+    const wasActive = previous.isActive !== false;
+    const isActive = updated.isActive !== false;
+
+    if (wasActive && !isActive) {
+      this.runLeaver(updated);
+    } else if (!wasActive && isActive) {
+      this.runJoiner(updated);
+    } else if (
+      isActive &&
+      (previous.department !== updated.department ||
+        previous.jobTitle !== updated.jobTitle ||
+        previous.manager !== updated.manager)
+    ) {
+      this.jml.processMover(updated.id, {
+        previousDepartment: previous.department || '',
+        newDepartment: updated.department || '',
+        previousJobTitle: previous.jobTitle || '',
+        newJobTitle: updated.jobTitle || '',
+        previousManager: previous.manager || '',
+        newManager: updated.manager || '',
+        appsToAdd: [],
+        appsToRemove: [],
+        effectiveDate: new Date(),
+      }, this.triggeredBy).catch((error) => {
+        console.error(`[SCIM] Mover processing failed for ${updated.id}:`, error);
+      });
+    }
+  }
+
+  private runJoiner(user: User) {
+    this.jml.processJoiner(user.id, {
+      department: user.department || '',
+      jobTitle: user.jobTitle || '',
+      manager: user.manager || '',
+      appsToProvision: [],
+      startDate: new Date(),
+      employeeType: 'full_time',
+    }, this.triggeredBy).catch((error) => {
+      console.error(`[SCIM] Joiner processing failed for ${user.id}:`, error);
+    });
+  }
+
+  private runLeaver(user: User) {
+    console.log(`[SCIM] Deprovisioning ${user.email} in tenant ${this.tenantId}`);
+
+    (async () => {
+      await this.jml.processLeaver(user.id, {
+        department: user.department || '',
+        lastWorkingDay: new Date(),
+        // SCIM only says the account was deactivated, not why
+        terminationType: 'unspecified',
+        appsToRevoke: [],
+        immediateRevocation: true,
+      }, this.triggeredBy);
+
+      const orchestrator = new OffboardingOrchestrator(this.tenantId);
+      const requestId = await orchestrator.createRequest({
+        userId: user.id,
+        reason: 'Deprovisioned by identity provider (SCIM)',
+        initiatedBy: this.token.createdBy,
+        notes: `Deactivated through SCIM token "${this.token.name}"`,
+      });
+      await orchestrator.executeOffboarding(requestId);
+    })().catch((error) => {
+      console.error(`[SCIM] Leaver processing failed for ${user.id}:`, error);
+    });
+  }
+
+  // ============================================================================
+  // GROUPS
+  // ============================================================================
+
+  async listGroups(options: ScimListOptions) {
+    const groups = await storage.getScimGroups(this.tenantId);
+    const resources = await this.renderGroups(groups);
+    return this.listResponse(resources, options);
+  }
+
+  async getGroup(id: string, excludedAttributes?: string): Promise<ScimResource> {
+    const group = await this.findGroup(id);
+    const [resource] = await this.renderGroups([group]);
+    return removeAttributes(resource, excludedAttributes);
+  }
+
+  async createGroup(resource: ScimResource): Promise<ScimResource> {
+    const { displayName, externalId, memberIds } = fromScimGroup(resource);
+    await this.assertUniqueGroupName(displayName);
+    await this.assertMembersInTenant(memberIds);
+
+    const group = await storage.createScimGroup({ tenantId: this.tenantId, displayName, externalId });
+    await storage.replaceScimGroupMembers(group.id, this.tenantId, memberIds);
+    console.log(`[SCIM] Created group ${displayName} in tenant ${this.tenantId}`);
+    await this.audit(AuditActions.CREATE, ResourceTypes.SCIM_GROUP, group.id, `Created group ${displayName}`, undefined, { displayName, memberIds });
+
+    const [created] = await this.renderGroups([group]);
+    return created;
+  }
+
+  async replaceGroup(id: string, resource: ScimResource): Promise<ScimResource> {
+    const group = await this.findGroup(id);
+    return this.saveGroup(group, resource);
+  }
+
+  async patchGroup(id: string, operations: ScimPatchOperation[]): Promise<ScimResource> {
+    const group = await this.findGroup(id);
+    const [current] = await this.renderGroups([group]);
+    return this.saveGroup(group, applyPatch(current, operations));
+  }
+
+  async deleteGroup(id: string): Promise<void> {
+    const group = await this.findGroup(id);
+    await storage.deleteScimGroup(id, this.tenantId);
+    await this.audit(AuditActions.DELETE, ResourceTypes.SCIM_GROUP, id, `Deleted group ${group.displayName}`, group);
+  }
+
+  private async findGroup(id: string): Promise<ScimGroup> {
+    const group = await storage.getScimGroup(id, this.tenantId);
+    if (!group) {
+      throw new ScimError(404, `Group ${id} not found`);
+    }
+    return group;
+  }
+
+  private async saveGroup(group: ScimGroup, resource: ScimResource): Promise<ScimResource> {
+    const { displayName, externalId, memberIds } = fromScimGroup(resource);
+    if (displayName.toLowerCase() !== group.displayName.toLowerCase()) {
+      await this.assertUniqueGroupName(displayName);
+    }
+    await this.assertMembersInTenant(memberIds);
+
+    const updated = await storage.updateScimGroup(group.id, this.tenantId, { displayName, externalId });
+    await storage.replaceScimGroupMembers(group.id, this.tenantId, memberIds);
+    await this.audit(AuditActions.UPDATE, ResourceTypes.SCIM_GROUP, group.id, `Updated group ${displayName}`, group, { displayName, memberIds });
+
+    const [rendered] = await this.renderGroups([updated || group]);
+    return rendered;
+  }
+
+  private async renderGroups(groups: ScimGroup[]): Promise<ScimResource[]> {
+    const members = await storage.getScimGroupMembers(this.tenantId, groups.map((group) => group.id));
+    const users = members.length > 0 ? await storage.getUsers(this.tenantId) : [];
+    const names = new Map(users.map((user) => [user.id, `${user.firstName} ${user.lastName}`.trim()]));
+
+    return groups.map((group) => toScimGroup(
+      group,
+      members
+        .filter((member) => member.groupId === group.id)
+        .map((member) => ({ userId: member.userId, display: names.get(member.userId) })),
+      this.baseUrl
+    ));
+  }
+
+  private async assertUniqueGroupName(displayName: string) {
+    const groups = await storage.getScimGroups(this.tenantId);
+    if (groups.some((group) => group.displayName.toLowerCase() === displayName.toLowerCase())) {
+      throw new ScimError(409, `Group ${displayName} already exists`, 'uniqueness');
+    }
+  }
+
+  private async assertMembersInTenant(memberIds: string[]) {
+    if (memberIds.length === 0) return;
+    const tenantUserIds = new Set((await storage.getUsers(this.tenantId)).map((user) => user.id));
+    const unknown = memberIds.filter((id) => !tenantUserIds.has(id));
+    if (unknown.length > 0) {
+      throw new ScimError(400, `Unknown group members: ${unknown.join(', ')}`, 'invalidValue');
+    }
+  }
+
+  // ============================================================================
+  // LISTING AND BULK
+  // ============================================================================
+
+  private listResponse(resources: ScimResource[], options: ScimListOptions) {
+    const filter = options.filter ? parseFilter(options.filter) : undefined;
+    const filtered = filter ? resources.filter((resource) => matchesFilter(resource, filter)) : resources;
+
+    const startIndex = Math.max(1, Math.floor(options.startIndex || 1));
+    const count = Math.min(MAX_PAGE_SIZE, Math.max(0, Math.floor(options.count ?? DEFAULT_PAGE_SIZE)));
+    const page = filtered.slice(startIndex - 1, startIndex - 1 + count);
+
+    return {
+      schemas: [SCIM_SCHEMAS.LIST_RESPONSE],
+      totalResults: filtered.length,
+      startIndex,
+      itemsPerPage: page.length,
+      Resources: page.map((resource) => removeAttributes(resource, options.excludedAttributes)),
+    };
+  }
+
+  /**
+   * Process a BulkRequest (RFC 7644 section 3.7). Operations run in order;
+   * "bulkId:<id>" references resolve to resources created earlier in the request.
+   */
+  async processBulk(body: ScimResource) {
+    const operations: ScimBulkOperation[] = getAttribute(body, 'Operations');
+    if (!Array.isArray(operations)) {
+      throw new ScimError(400, 'Operations must be an array', 'invalidSyntax');
+    }
+    if (operations.length > SCIM_MAX_BULK_OPERATIONS) {
+      throw new ScimError(413, `A bulk request may contain at most ${SCIM_MAX_BULK_OPERATIONS} operations`, 'tooMany');
+    }
+
+    const failOnErrors = Number(getAttribute(body, 'failOnErrors')) || 0;
+    const createdIds = new Map<string, string>();
+    const results: ScimResource[] = [];
+    let errors = 0;
+
+    for (const operation of operations) {
+      if (failOnErrors && errors >= failOnErrors) break;
+
+      const method = String(operation.method || '').toUpperCase();
+      try {
+        const path = this.resolveBulkIds(String(operation.path || ''), createdIds);
+        const data = operation.data === undefined ? undefined : JSON.parse(this.resolveBulkIds(JSON.stringify(operation.data), createdIds));
+        const { status, resource } = await this.runBulkOperation(method, path, data);
+
+        if (operation.bulkId && resource?.id) {
+          createdIds.set(operation.bulkId, resource.id);
+        }
+        results.push({
+          method,
+          ...(operation.bulkId ? { bulkId: operation.bulkId } : {}),
+          ...(resource?.meta?.location ? { location: resource.meta.location } : {}),
+          status: String(status),
+        });
+      } catch (error) {
+        errors++;
+        const scimError = error instanceof ScimError ? error : new ScimError(500, 'Operation failed');
+        if (!(error instanceof ScimError)) {
+          console.error('[SCIM] Bulk operation failed:', error);
+        }
+        results.push({
+          method,
+          ...(operation.bulkId ? { bulkId: operation.bulkId } : {}),
+          status: String(scimError.status),
+          response: scimError.toResponse(),
+        });
+      }
+    }
+
+    return { schemas: [SCIM_SCHEMAS.BULK_RESPONSE], Operations: results };
+  }
+
+  private resolveBulkIds(text: string, createdIds: Map<string, string>): string {
+    return text.replace(/bulkId:([A-Za-z0-9._~-]+)/g, (_match, bulkId: string) => {
+      const id = createdIds.get(bulkId);
+      if (!id) {
+        throw new ScimError(409, `Unresolved bulkId reference "${bulkId}"`, 'invalidValue');
+      }
+      return id;
+    });
+  }
+
+  private async runBulkOperation(method: string, path: string, data: any): Promise<{ status: number; resource?: ScimResource }> {
+    const match = /^\/(Users|Groups)(?:\/([^/]+))?$/i.exec(path);
+    if (!match) {
+      throw new ScimError(400, `Invalid bulk operation path "${path}"`, 'invalidPath');
+    }
+    const isUser = match[1].toLowerCase() === 'users';
+    const id = match[2];
+
+    if (method === 'POST' && !id) {
+      return { status: 201, resource: isUser ? await this.createUser(data) : await this.createGroup(data) };
+    }
+    if (!id) {
+      throw new ScimError(400, `${method} requires a resource ID in the path`, 'invalidPath');
+    }
+
+    switch (method) {
+      case 'PUT':
+        return { status: 200, resource: isUser ? await this.replaceUser(id, data) : await this.replaceGroup(id, data) };
+      case 'PATCH': {
+        const operations = getAttribute(data, 'Operations');
+        return { status: 200, resource: isUser ? await this.patchUser(id, operations) : await this.patchGroup(id, operations) };
+      }
+      case 'DELETE':
+        if (isUser) {
+          await this.deleteUser(id);
+        } else {
+          await this.deleteGroup(id);
+        }
+        return { status: 204 };
+      default:
+        throw new ScimError(400, `Unsupported bulk method "${method}"`, 'invalidSyntax');
+    }
+  }
+}
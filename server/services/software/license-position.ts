@@ -0,0 +1,239 @@
+/**
+ * Effective License Position
+ *
+ * Compares deployed software against entitlements per catalog product:
+ * - Consumption from installs (asset software links) on active devices, counted once per
+ *   device however many versions are installed
+ * - Per-device, per-user (distinct assigned users) and per-core (device cores, with an
+ *   optional per-device minimum) metrics
+ * - Entitlements from software licenses and active SaaS contracts of the product's app
+ * - Over-deployment (shortfall) and under-deployment (unused entitlements) with cost estimates
+ */
+
+import type { Asset, LicenseMetric, SaasContract, SoftwareLicense, SoftwareProduct } from '@shared/schema';
+
+export type LicensePositionStatus = 'over_deployed' | 'under_deployed' | 'compliant';
+
+export interface LicensePositionInput {
+  products: SoftwareProduct[];
+  softwareAssets: Array<Pick<Asset, 'id' | 'name' | 'softwareProductId'>>;
+  devices: Array<Pick<Asset, 'id' | 'status' | 'assignedUserId' | 'assignedUserEmail' | 'specifications'>>;
+  installations: Array<{ deviceAssetId: string; softwareAssetId: string }>;
+  licenses: SoftwareLicense[];
+  contracts: SaasContract[];
+  asOf?: Date;
+}
+
+export interface EntitlementSource {
+  source: 'license' | 'contract';
+  id: string;
+  name: string;
+  quantity: number;
+  unitCost: number | null;
+}
+
+export interface ProductLicensePosition {
+  productId: string;
+  product: string;
+  publisher: string | null;
+  edition: string | null;
+  metric: LicenseMetric;
+  installedDevices: number;
+  consumed: number;
+  entitled: number;
+  balance: number; // entitled - consumed
+  status: LicensePositionStatus;
+  shortfall: number;
+  surplus: number;
+  estimatedShortfallCost: number;
+  unusedEntitlementCost: number;
+  unassignedDevices: number; // per_user: devices without a user, each counted as one user
+  devicesWithoutCoreCount: number; // per_core: devices counted at the minimum (or 0 cores)
+  entitlements: EntitlementSource[];
+}
+
+export interface LicensePositionReport {
+  generatedAt: Date;
+  positions: ProductLicensePosition[];
+  summary: {
+    products: number;
+    overDeployed: number;
+    underDeployed: number;
+    compliant: number;
+    estimatedShortfallCost: number;
+    unusedEntitlementCost: number;
+  };
+  unnormalized: Array<{ softwareAssetId: string; name: string; installs: number }>;
+}
+
+const INACTIVE_DEVICE_STATUSES = new Set(['retired', 'disposed']);
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function deviceCores(device: LicensePositionInput['devices'][number]): number | null {
+  const cores = (device.specifications as any)?.agent?.hardware?.cpuCores;
+  return typeof cores === 'number' && cores > 0 ? cores : null;
+}
+
+function consumption(
+  metric: LicenseMetric,
+  devices: LicensePositionInput['devices'],
+  minCoresPerDevice: number | null
+): { consumed: number; unassignedDevices: number; devicesWithoutCoreCount: number } {
+  if (metric === 'per_user') {
+    const users = new Set<string>();
+    let unassignedDevices = 0;
+    devices.forEach(device => {
+      const user = device.assignedUserId || device.assignedUserEmail?.toLowerCase();
+      if (user) users.add(user);
+      else unassignedDevices++;
+    });
+    return { consumed: users.size + unassignedDevices, unassignedDevices, devicesWithoutCoreCount: 0 };
+  }
+
+  if (metric === 'per_core') {
+    let cores = 0;
+    let devicesWithoutCoreCount = 0;
+    devices.forEach(device => {
+      const count = deviceCores(device);
+      if (count === null) devicesWithoutCoreCount++;
+      cores += Math.max(count ?? 0, minCoresPerDevice ?? 0);
+    });
+    return { consumed: cores, unassignedDevices: 0, devicesWithoutCoreCount };
+  }
+
+  return { consumed: devices.length, unassignedDevices: 0, devicesWithoutCoreCount: 0 };
+}
+
+function averageUnitCost(entitlements: EntitlementSource[]): number | null {
+  const priced = entitlements.filter(entitlement => entitlement.unitCost !== null && entitlement.quantity > 0);
+  const quantity = priced.reduce((total, entitlement) => total + entitlement.quantity, 0);
+  if (quantity === 0) return null;
+  return priced.reduce((total, entitlement) => total + entitlement.unitCost! * entitlement.quantity, 0) / quantity;
+}
+
+/**
+ * License position per product and metric. A product with entitlements under several
+ * metrics gets one position per metric; one without entitlements is measured by its own metric.
+ */
+export function calculateLicensePosition(input: LicensePositionInput): LicensePositionReport {
+  const asOf = input.asOf ?? new Date();
+
+  const activeDevices = new Map(
+    input.devices
+      .filter(device => !INACTIVE_DEVICE_STATUSES.has(device.status))
+      .map(device => [device.id, device] as [string, LicensePositionInput['devices'][number]])
+  );
+  const softwareById = new Map(
+    input.softwareAssets.map(software => [software.id, software] as [string, LicensePositionInput['softwareAssets'][number]])
+  );
+
+  // Devices per product, and install counts for software no rule has matched
+  const devicesByProduct = new Map<string, Set<string>>();
+  const unnormalized = new Map<string, { softwareAssetId: string; name: string; installs: number }>();
+  input.installations.forEach(({ deviceAssetId, softwareAssetId }) => {
+    const software = softwareById.get(softwareAssetId);
+    if (!software || !activeDevices.has(deviceAssetId)) return;
+
+    if (software.softwareProductId) {
+      const devices = devicesByProduct.get(software.softwareProductId) ?? new Set<string>();
+      devices.add(deviceAssetId);
+      devicesByProduct.set(software.softwareProductId, devices);
+    } else {
+      const entry = unnormalized.get(software.id) ?? { softwareAssetId: software.id, name: software.name, installs: 0 };
+      entry.installs++;
+      unnormalized.set(software.id, entry);
+    }
+  });
+
+  const positions: ProductLicensePosition[] = [];
+
+  input.products.filter(product => product.isActive).forEach(product => {
+    const productMetric = product.licenseMetric as LicenseMetric;
+    const entitlementsByMetric = new Map<LicenseMetric, EntitlementSource[]>();
+    const addEntitlement = (metric: LicenseMetric, entitlement: EntitlementSource) => {
+      entitlementsByMetric.set(metric, [...(entitlementsByMetric.get(metric) ?? []), entitlement]);
+    };
+
+    input.licenses
+      .filter(license => license.productId === product.id)
+      .forEach(license => addEntitlement((license.licenseMetric as LicenseMetric | null) ?? productMetric, {
+        source: 'license',
+        id: license.id,
+        name: license.name,
+        quantity: license.totalLicenses,
+        unitCost: license.costPerLicense != null ? Number(license.costPerLicense) : null,
+      }));
+
+    if (product.saasAppId) {
+      input.contracts
+        .filter(contract =>
+          contract.appId === product.saasAppId
+          && contract.status === 'active'
+          && (!contract.endDate || contract.endDate >= asOf)
+          && (contract.totalLicenses ?? 0) > 0
+        )
+        .forEach(contract => addEntitlement(productMetric, {
+          source: 'contract',
+          id: contract.id,
+          name: contract.contractNumber || contract.vendor,
+          quantity: contract.totalLicenses!,
+          unitCost: contract.annualValue != null ? Number(contract.annualValue) / contract.totalLicenses! : null,
+        }));
+    }
+
+    if (entitlementsByMetric.size === 0) {
+      entitlementsByMetric.set(productMetric, []);
+    }
+
+    const devices = Array.from(devicesByProduct.get(product.id) ?? [])
+      .map(id => activeDevices.get(id)!)
+      .filter(Boolean);
+
+    entitlementsByMetric.forEach((entitlements, metric) => {
+      const usage = consumption(metric, devices, product.minCoresPerDevice);
+      const entitled = entitlements.reduce((total, entitlement) => total + entitlement.quantity, 0);
+      const balance = entitled - usage.consumed;
+      const unitCost = averageUnitCost(entitlements);
+
+      positions.push({
+        productId: product.id,
+        product: product.name,
+        publisher: product.publisher,
+        edition: product.edition,
+        metric,
+        installedDevices: devices.length,
+        consumed: usage.consumed,
+        entitled,
+        balance,
+        status: balance < 0 ? 'over_deployed' : balance > 0 ? 'under_deployed' : 'compliant',
+        shortfall: Math.max(0, -balance),
+        surplus: Math.max(0, balance),
+        estimatedShortfallCost: unitCost !== null ? round2(Math.max(0, -balance) * unitCost) : 0,
+        unusedEntitlementCost: unitCost !== null ? round2(Math.max(0, balance) * unitCost) : 0,
+        unassignedDevices: usage.unassignedDevices,
+        devicesWithoutCoreCount: usage.devicesWithoutCoreCount,
+        entitlements,
+      });
+    });
+  });
+
+  // Biggest compliance exposure first
+  positions.sort((a, b) => a.balance - b.balance || a.product.localeCompare(b.product));
+
+  return {
+    generatedAt: new Date(),
+    positions,
+    summary: {
+      products: new Set(positions.map(position => position.productId)).size,
+      overDeployed: positions.filter(position => position.status === 'over_deployed').length,
+      underDeployed: positions.filter(position => position.status === 'under_deployed').length,
+      compliant: positions.filter(position => position.status === 'compliant').length,
+      estimatedShortfallCost: round2(positions.reduce((total, position) => total + position.estimatedShortfallCost, 0)),
+      unusedEntitlementCost: round2(positions.reduce((total, position) => total + position.unusedEntitlementCost, 0)),
+    },
+    unnormalized: Array.from(unnormalized.values()).sort((a, b) => b.installs - a.installs),
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Software Normalization
+ *
+ * Maps raw install strings to canonical catalog products:
+ * - Strips versions, architectures and build noise from install names
+ * - Matches tenant rules (exact, prefix, contains, regex) with an optional publisher filter
+ * - Picks the highest-priority, most specific rule when several match
+ *
+ * "Google Chrome 120.0.6099.130" and "Google Chrome (x64) 121.0" both clean to
+ * "google chrome", so one prefix rule covers every version of a product.
+ */
+
+import type { NormalizationMatchType, SoftwareNormalizationRule } from '@shared/schema';
+
+const MATCH_SPECIFICITY: Record<NormalizationMatchType, number> = {
+  exact: 3,
+  prefix: 2,
+  contains: 1,
+  regex: 0,
+};
+
+const NOISE_PATTERNS: RegExp[] = [
+  /\((?:x64|x86|64-bit|32-bit|amd64|arm64)\)/gi,
+  /\b(?:x64|x86|64-bit|32-bit|amd64|arm64)\b/gi,
+  /\bv?\d+(?:\.\d+)+(?:[-+][\w.]+)?\b/gi, // 120.0.6099.130, v2.1, 3.4.1-beta
+  /\b(?:version|build)\s+\S+/gi,
+  /\(\s*\)/g,
+  /\s+-\s*$/g,
+];
+
+/**
+ * Install name without version, architecture or build suffixes, lower-cased
+ */
+export function cleanSoftwareName(rawName: string): string {
+  let name = rawName;
+  NOISE_PATTERNS.forEach(pattern => {
+    name = name.replace(pattern, ' ');
+  });
+  return name.replace(/[\s_]+/g, ' ').replace(/[\s\-–,]+$/, '').trim().toLowerCase();
+}
+
+function ruleMatches(rule: SoftwareNormalizationRule, rawName: string, cleanName: string, publisher: string): boolean {
+  if (rule.publisherPattern && !publisher.includes(rule.publisherPattern.trim().toLowerCase())) {
+    return false;
+  }
+
+  const pattern = rule.pattern.trim().toLowerCase();
+  switch (rule.matchType as NormalizationMatchType) {
+    case 'exact':
+      return cleanName === cleanSoftwareName(pattern);
+    case 'prefix':
+      return cleanName.startsWith(cleanSoftwareName(pattern));
+    case 'contains':
+      return cleanName.includes(cleanSoftwareName(pattern));
+    case 'regex':
+      try {
+        return new RegExp(rule.pattern, 'i').test(rawName);
+      } catch {
+        return false;
+      }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Best matching active rule for an install string, if any
+ */
+export function matchNormalizationRule(
+  rawName: string,
+  publisher: string | null | undefined,
+  rules: SoftwareNormalizationRule[]
+): SoftwareNormalizationRule | undefined {
+  const cleanName = cleanSoftwareName(rawName);
+  const normalizedPublisher = (publisher ?? '').trim().toLowerCase();
+  if (!cleanName) return undefined;
+
+  const matches = rules.filter(rule =>
+    rule.isActive && ruleMatches(rule, rawName, cleanName, normalizedPublisher)
+  );
+
+  matches.sort((a, b) =>
+    b.priority - a.priority
+    || MATCH_SPECIFICITY[b.matchType as NormalizationMatchType] - MATCH_SPECIFICITY[a.matchType as NormalizationMatchType]
+    || (b.publisherPattern ? 1 : 0) - (a.publisherPattern ? 1 : 0)
+    || b.pattern.length - a.pattern.length
+  );
+  return matches[0];
+}
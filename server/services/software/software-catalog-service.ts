@@ -0,0 +1,125 @@
+/**
+ * Software Catalog Service
+ *
+ * Software asset management on top of the normalization catalog:
+ * - Resolves discovered install strings to catalog products during import
+ * - Re-applies normalization rules to existing software assets
+ * - Builds the effective license position for a tenant
+ * - Writes measured consumption back to software licenses (usedLicenses)
+ */
+
+import { storage } from '../../storage';
+import type { LicenseMetric, SoftwareNormalizationRule } from '@shared/schema';
+import { matchNormalizationRule } from './normalization';
+import { calculateLicensePosition, type LicensePositionReport } from './license-position';
+
+export class SoftwareCatalogService {
+  /**
+   * Normalization rules whose product is active in the catalog
+   */
+  async getActiveRules(tenantId: string): Promise<SoftwareNormalizationRule[]> {
+    const [rules, products] = await Promise.all([
+      storage.getSoftwareNormalizationRules(tenantId),
+      storage.getSoftwareProducts(tenantId),
+    ]);
+    const activeProductIds = new Set(products.filter(product => product.isActive).map(product => product.id));
+    return rules.filter(rule => activeProductIds.has(rule.productId));
+  }
+
+  /**
+   * Catalog product for an install string, given the tenant's rules
+   */
+  resolveProductId(
+    rules: SoftwareNormalizationRule[],
+    name: string,
+    publisher?: string | null
+  ): string | null {
+    return matchNormalizationRule(name, publisher, rules)?.productId ?? null;
+  }
+
+  /**
+   * Re-apply normalization rules to every software asset, e.g. after rules change
+   */
+  async normalizeSoftwareAssets(tenantId: string): Promise<{ total: number; matched: number; changed: number }> {
+    const [activeRules, assets] = await Promise.all([
+      this.getActiveRules(tenantId),
+      storage.getAllAssets(tenantId),
+    ]);
+
+    let matched = 0;
+    let changed = 0;
+    const software = assets.filter(asset => asset.type === 'Software');
+
+    for (const asset of software) {
+      const productId = this.resolveProductId(activeRules, asset.softwareName || asset.name, asset.manufacturer);
+      if (productId) matched++;
+      if (productId !== (asset.softwareProductId ?? null)) {
+        await storage.setSoftwareAssetProduct(asset.id, tenantId, productId);
+        changed++;
+      }
+    }
+
+    console.log(`[Software Catalog] Normalized ${software.length} software assets for tenant ${tenantId}: ${matched} matched, ${changed} changed`);
+    return { total: software.length, matched, changed };
+  }
+
+  async getLicensePosition(tenantId: string): Promise<LicensePositionReport> {
+    const [products, assets, installations, licenses, contracts] = await Promise.all([
+      storage.getSoftwareProducts(tenantId),
+      storage.getAllAssets(tenantId),
+      storage.getSoftwareInstallations(tenantId),
+      storage.getAllSoftwareLicenses(tenantId),
+      storage.getSaasContracts(tenantId),
+    ]);
+
+    return calculateLicensePosition({
+      products,
+      softwareAssets: assets.filter(asset => asset.type === 'Software'),
+      devices: assets.filter(asset => asset.type !== 'Software'),
+      installations,
+      licenses,
+      contracts,
+    });
+  }
+
+  /**
+   * Replace hand-entered usedLicenses with measured consumption. Consumption is allocated
+   * across a product's licenses of the same metric in order, filling each before the next;
+   * any excess lands on the last one so the over-deployment stays visible.
+   */
+  async syncUsedLicenses(tenantId: string): Promise<{ updated: number }> {
+    const [report, licenses, products] = await Promise.all([
+      this.getLicensePosition(tenantId),
+      storage.getAllSoftwareLicenses(tenantId),
+      storage.getSoftwareProducts(tenantId),
+    ]);
+    const metricByProduct = new Map(products.map(product => [product.id, product.licenseMetric as LicenseMetric] as [string, LicenseMetric]));
+
+    let updated = 0;
+    for (const position of report.positions) {
+      const covered = licenses
+        .filter(license =>
+          license.productId === position.productId
+          && ((license.licenseMetric as LicenseMetric | null) ?? metricByProduct.get(position.productId)) === position.metric
+        )
+        .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+
+      let remaining = position.consumed;
+      for (let i = 0; i < covered.length; i++) {
+        const license = covered[i];
+        const used = i === covered.length - 1 ? remaining : Math.min(remaining, license.totalLicenses);
+        remaining -= used;
+
+        if (license.usedLicenses !== used) {
+          await storage.updateSoftwareLicense(license.id, tenantId, { usedLicenses: used });
+          updated++;
+        }
+      }
+    }
+
+    console.log(`[Software Catalog] Synced used licenses for tenant ${tenantId}: ${updated} updated`);
+    return { updated };
+  }
+}
+
+export const softwareCatalogService = new SoftwareCatalogService();
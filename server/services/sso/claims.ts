@@ -0,0 +1,117 @@
+/**
+ * SSO claim handling
+ *
+ * Protocol-neutral helpers shared by the SAML and OIDC login flows:
+ * - Attribute / claim mapping with per-connection overrides
+ * - Group to role mapping (highest mapped role wins, never super-admin)
+ * - Email domain checks against the connection's domains
+ * - Post-login redirect sanitizing
+ */
+
+import { ROLES, ROLE_HIERARCHY, migrateRole } from '../auth';
+import type { SsoConnection, SsoRoleMapping } from '@shared/schema';
+
+export interface SsoClaims {
+  subject: string;
+  email: string;
+  emailVerified?: boolean; // OIDC email_verified; undefined when the IdP does not say
+  firstName?: string;
+  lastName?: string;
+  groups: string[];
+}
+
+/**
+ * Only same-origin paths are accepted as post-login destinations
+ */
+export function sanitizeReturnTo(returnTo: unknown): string | null {
+  if (typeof returnTo !== 'string' || !returnTo.startsWith('/') || returnTo.startsWith('//') || returnTo.includes('\\')) {
+    return null;
+  }
+  return returnTo;
+}
+
+/**
+ * Highest role granted by any of the user's groups; group names match case-insensitively
+ */
+export function resolveRoleFromGroups(
+  groups: string[],
+  mappings: Array<Pick<SsoRoleMapping, 'group'> & { role: string }> | null | undefined,
+  defaultRole: string
+): string {
+  const memberOf = new Set(groups.map((group) => group.toLowerCase()));
+  let resolved = migrateRole(defaultRole);
+
+  for (const mapping of mappings || []) {
+    if (!memberOf.has(mapping.group.toLowerCase())) continue;
+    const role = migrateRole(mapping.role);
+    if (ROLE_HIERARCHY.indexOf(role as any) > ROLE_HIERARCHY.indexOf(resolved as any)) {
+      resolved = role;
+    }
+  }
+
+  // An IdP can never grant platform-level access
+  return resolved === ROLES.SUPER_ADMIN ? ROLES.ADMIN : resolved;
+}
+
+function firstValue(value: unknown): string | undefined {
+  if (Array.isArray(value)) return firstValue(value[0]);
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim();
+  return text || undefined;
+}
+
+function booleanValue(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === 'false') return value === 'true';
+  return undefined;
+}
+
+function listValue(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values.map((item) => String(item).trim()).filter(Boolean);
+}
+
+/**
+ * Normalize SAML attributes / OIDC claims using the connection's attribute mapping
+ */
+export function extractClaims(
+  connection: Pick<SsoConnection, 'protocol' | 'emailAttribute' | 'firstNameAttribute' | 'lastNameAttribute' | 'groupsAttribute'>,
+  subject: string,
+  attributes: Record<string, unknown>
+): SsoClaims {
+  const isSaml = connection.protocol === 'saml';
+  const pick = (configured: string | null, fallbacks: string[]) => {
+    for (const name of configured ? [configured] : fallbacks) {
+      if (attributes[name] !== undefined) return attributes[name];
+    }
+    return undefined;
+  };
+
+  const email = firstValue(pick(connection.emailAttribute, isSaml
+    ? ['email', 'mail', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress', 'nameID']
+    : ['email']));
+
+  return {
+    subject,
+    email: (email || '').toLowerCase(),
+    emailVerified: isSaml ? undefined : booleanValue(attributes.email_verified),
+    firstName: firstValue(pick(connection.firstNameAttribute, isSaml
+      ? ['firstName', 'givenName', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname']
+      : ['given_name'])),
+    lastName: firstValue(pick(connection.lastNameAttribute, isSaml
+      ? ['lastName', 'sn', 'surname', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname']
+      : ['family_name'])),
+    groups: listValue(pick(connection.groupsAttribute, isSaml
+      ? ['groups', 'memberOf', 'http://schemas.microsoft.com/ws/2008/06/identity/claims/groups']
+      : ['groups'])),
+  };
+}
+
+/**
+ * Whether an email address belongs to one of the given domains (exact match, no subdomains)
+ */
+export function isEmailInDomains(email: string, domains: string[] | null | undefined): boolean {
+  const domain = email.trim().toLowerCase().split('@')[1];
+  return !!domain && (domains || []).some((candidate) => candidate.toLowerCase() === domain);
+}
@@ -0,0 +1,72 @@
+/**
+ * SSO domain verification
+ *
+ * A tenant proves it controls an email domain by publishing a DNS TXT record:
+ *   _assetinfo-sso.<domain>  TXT  "assetinfo-sso-verification=<token>"
+ * Only verified domains route SSO discovery and logins to the tenant's connections, so
+ * claiming a domain (or a shared mail provider) without owning it captures nothing.
+ */
+
+import crypto from 'crypto';
+import { promises as dns } from 'dns';
+
+export interface DomainVerificationRecord {
+  name: string;
+  type: 'TXT';
+  value: string;
+}
+
+type TxtResolver = (hostname: string) => Promise<string[][]>;
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+// Shared mailbox providers: no organization can prove it speaks for every user on them
+const PUBLIC_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'msn.com',
+  'yahoo.com', 'icloud.com', 'me.com', 'aol.com', 'proton.me', 'protonmail.com', 'gmx.com', 'zoho.com',
+]);
+
+export function generateVerificationToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+export function getVerificationRecord(domain: string, token: string): DomainVerificationRecord {
+  return {
+    name: `_assetinfo-sso.${domain}`,
+    type: 'TXT',
+    value: `assetinfo-sso-verification=${token}`,
+  };
+}
+
+/**
+ * Why a domain cannot be claimed for SSO, or null
+ */
+export function validateSsoDomain(domain: string): string | null {
+  if (!DOMAIN_PATTERN.test(domain)) return `${domain} is not a valid domain name`;
+  if (PUBLIC_EMAIL_DOMAINS.has(domain)) return `${domain} is a public email provider and cannot be used for SSO`;
+  return null;
+}
+
+/**
+ * Whether the domain publishes the TXT record for this token. Missing records are a plain "no";
+ * other DNS failures are thrown so the caller can tell the admin to retry.
+ */
+export async function hasVerificationRecord(
+  domain: string,
+  token: string,
+  resolveTxt: TxtResolver = dns.resolveTxt
+): Promise<boolean> {
+  const record = getVerificationRecord(domain, token);
+
+  let answers: string[][];
+  try {
+    answers = await resolveTxt(record.name);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENOTFOUND' || code === 'ENODATA') return false;
+    throw error;
+  }
+
+  // Long TXT values arrive split into 255-byte chunks
+  return answers.some((chunks) => chunks.join('').trim() === record.value);
+}
@@ -0,0 +1,214 @@
+/**
+ * OpenID Connect Relying Party
+ *
+ * Authorization code flow for SP-initiated login:
+ * - Issuer discovery (.well-known/openid-configuration), cached per issuer
+ * - PKCE (S256), state and nonce on every authorization request
+ * - Code exchange with client_secret_post
+ * - ID token signature verification against the issuer's JWKS, plus
+ *   issuer, audience, expiry and nonce checks
+ */
+
+import crypto from 'crypto';
+import axios from 'axios';
+import jwt from 'jsonwebtoken';
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+export interface OidcClientConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scopes?: string[] | null;
+}
+
+export interface OidcAuthorizationRequest {
+  url: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+const DEFAULT_SCOPES = ['openid', 'email', 'profile'];
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const HTTP_TIMEOUT_MS = 10000;
+const ALLOWED_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'];
+
+const metadataCache = new Map<string, { metadata: OidcProviderMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: crypto.JsonWebKey[]; fetchedAt: number }>();
+
+function randomToken(bytes: number = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+export async function discoverProvider(issuer: string): Promise<OidcProviderMetadata> {
+  const normalizedIssuer = issuer.replace(/\/+$/, '');
+  const cached = metadataCache.get(normalizedIssuer);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS) {
+    return cached.metadata;
+  }
+
+  const response = await axios.get<OidcProviderMetadata>(
+    `${normalizedIssuer}/.well-known/openid-configuration`,
+    { timeout: HTTP_TIMEOUT_MS }
+  );
+  const metadata = response.data;
+
+  if (!metadata?.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+    throw new OidcError('Issuer discovery document is missing required endpoints');
+  }
+  if (metadata.issuer.replace(/\/+$/, '') !== normalizedIssuer) {
+    throw new OidcError(`Discovered issuer ${metadata.issuer} does not match configured issuer`);
+  }
+
+  metadataCache.set(normalizedIssuer, { metadata, fetchedAt: Date.now() });
+  return metadata;
+}
+
+/**
+ * Build the authorization URL; the caller persists state, nonce and the PKCE verifier
+ */
+export async function createAuthorizationRequest(config: OidcClientConfig): Promise<OidcAuthorizationRequest> {
+  const metadata = await discoverProvider(config.issuer);
+  const state = randomToken();
+  const nonce = randomToken();
+  const codeVerifier = randomToken(48);
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', config.redirectUri);
+  url.searchParams.set('scope', (config.scopes?.length ? config.scopes : DEFAULT_SCOPES).join(' '));
+  url.searchParams.set('state', state);
+  url.searchParams.set('nonce', nonce);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  return { url: url.toString(), state, nonce, codeVerifier };
+}
+
+async function getSigningKey(jwksUri: string, kid: string | undefined, forceRefresh = false): Promise<crypto.KeyObject> {
+  let cached = jwksCache.get(jwksUri);
+  if (!cached || forceRefresh || Date.now() - cached.fetchedAt > METADATA_TTL_MS) {
+    const response = await axios.get<{ keys: crypto.JsonWebKey[] }>(jwksUri, { timeout: HTTP_TIMEOUT_MS });
+    cached = { keys: response.data?.keys || [], fetchedAt: Date.now() };
+    jwksCache.set(jwksUri, cached);
+  }
+
+  const candidates = cached.keys.filter((key) => (!kid || key.kid === kid) && (!key.use || key.use === 'sig'));
+  if (candidates.length === 0) {
+    if (!forceRefresh) {
+      // Key rotation: the IdP may have published a new key since the last fetch
+      return getSigningKey(jwksUri, kid, true);
+    }
+    throw new OidcError(`No signing key found for kid ${kid || '(none)'}`);
+  }
+
+  return crypto.createPublicKey({ key: candidates[0], format: 'jwk' });
+}
+
+/**
+ * Verify an ID token and return its claims
+ */
+export async function verifyIdToken(
+  idToken: string,
+  options: { issuer: string; clientId: string; nonce: string; jwksUri: string }
+): Promise<Record<string, any>> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new OidcError('ID token is not a valid JWT');
+  }
+
+  const key = await getSigningKey(options.jwksUri, decoded.header.kid);
+  let claims: Record<string, any>;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ALLOWED_ALGORITHMS,
+      audience: options.clientId,
+      issuer: [options.issuer, options.issuer.replace(/\/+$/, '')],
+      clockTolerance: 60,
+    }) as Record<string, any>;
+  } catch (error) {
+    throw new OidcError(`ID token verification failed: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (claims.nonce !== options.nonce) {
+    throw new OidcError('ID token nonce does not match the login request');
+  }
+  if (!claims.sub) {
+    throw new OidcError('ID token has no subject');
+  }
+
+  return claims;
+}
+
+/**
+ * Exchange the authorization code and return verified ID token claims,
+ * merged with the userinfo response when the token lacks an email
+ */
+export async function exchangeCode(
+  config: OidcClientConfig,
+  code: string,
+  request: { nonce: string; codeVerifier: string }
+): Promise<Record<string, any>> {
+  const metadata = await discoverProvider(config.issuer);
+
+  let tokens: { id_token?: string; access_token?: string };
+  try {
+    const response = await axios.post(
+      metadata.token_endpoint,
+      new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: config.redirectUri,
+        client_id: config.clientId,
+        client_secret: config.clientSecret,
+        code_verifier: request.codeVerifier,
+      }).toString(),
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' }, timeout: HTTP_TIMEOUT_MS }
+    );
+    tokens = response.data;
+  } catch (error: any) {
+    const detail = error?.response?.data?.error_description || error?.response?.data?.error || error?.message;
+    throw new OidcError(`Token exchange failed: ${detail}`);
+  }
+
+  if (!tokens?.id_token) {
+    throw new OidcError('Token response did not include an ID token');
+  }
+
+  const claims = await verifyIdToken(tokens.id_token, {
+    issuer: metadata.issuer,
+    clientId: config.clientId,
+    nonce: request.nonce,
+    jwksUri: metadata.jwks_uri,
+  });
+
+  if (!claims.email && metadata.userinfo_endpoint && tokens.access_token) {
+    const userInfo = await axios.get(metadata.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+      timeout: HTTP_TIMEOUT_MS,
+    });
+    // The userinfo subject must match the verified token before its claims are trusted
+    if (userInfo.data?.sub === claims.sub) {
+      return { ...userInfo.data, ...claims };
+    }
+  }
+
+  return claims;
+}
@@ -0,0 +1,120 @@
+/**
+ * SAML 2.0 Service Provider
+ *
+ * SP-initiated Web SSO on top of node-saml:
+ * - AuthnRequests over HTTP-Redirect with a request ID we persist, so the
+ *   response's (and the signed assertion's) InResponseTo is checked against
+ *   our own login request (IdP-initiated responses are rejected)
+ * - Responses over HTTP-POST; the signature is verified against the
+ *   configured IdP certificate and audience is restricted to our entity ID
+ * - SP metadata for the IdP administrator
+ */
+
+import crypto from 'crypto';
+import {
+  SAML,
+  generateServiceProviderMetadata,
+  ValidateInResponseTo,
+  type CacheProvider,
+  type Profile,
+} from '@node-saml/node-saml';
+
+export interface SamlServiceProviderConfig {
+  entityId: string;
+  acsUrl: string;
+  entryPoint: string;
+  idpIssuer?: string | null;
+  idpCertificate: string;
+}
+
+export class SamlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SamlError';
+  }
+}
+
+const EMAIL_FORMAT = 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress';
+
+/**
+ * Accept a PEM certificate or bare base64 body as pasted from IdP metadata
+ */
+export function normalizeCertificate(certificate: string): string {
+  return certificate
+    .replace(/-----BEGIN CERTIFICATE-----/g, '')
+    .replace(/-----END CERTIFICATE-----/g, '')
+    .replace(/\s+/g, '');
+}
+
+/**
+ * Request ID "cache" that only recognizes the login request being completed;
+ * the persisted login request is the source of truth, not node-saml's memory
+ */
+function expectedRequestCache(expectedRequestId?: string): CacheProvider {
+  return {
+    saveAsync: async (_key, value) => ({ value, createdAt: Date.now() }),
+    getAsync: async (key) => (expectedRequestId && key === expectedRequestId ? new Date().toISOString() : null),
+    removeAsync: async (key) => key,
+  };
+}
+
+function createSaml(config: SamlServiceProviderConfig, requestId: string): SAML {
+  return new SAML({
+    issuer: config.entityId,
+    callbackUrl: config.acsUrl,
+    entryPoint: config.entryPoint,
+    idpIssuer: config.idpIssuer || undefined,
+    idpCert: normalizeCertificate(config.idpCertificate),
+    audience: config.entityId,
+    identifierFormat: EMAIL_FORMAT,
+    wantAssertionsSigned: true,
+    wantAuthnResponseSigned: false,
+    acceptedClockSkewMs: 60 * 1000,
+    validateInResponseTo: ValidateInResponseTo.always,
+    cacheProvider: expectedRequestCache(requestId),
+    generateUniqueId: () => requestId,
+  });
+}
+
+/**
+ * Build the IdP redirect URL; the caller persists the returned request ID
+ */
+export async function createAuthnRequest(
+  config: SamlServiceProviderConfig,
+  relayState: string
+): Promise<{ url: string; requestId: string }> {
+  const requestId = `_${crypto.randomBytes(20).toString('hex')}`;
+  const url = await createSaml(config, requestId).getAuthorizeUrlAsync(relayState, undefined, {});
+  return { url, requestId };
+}
+
+/**
+ * Validate a posted SAMLResponse and return the asserted profile
+ */
+export async function validateResponse(
+  config: SamlServiceProviderConfig,
+  samlResponse: string,
+  expectedRequestId: string
+): Promise<Profile> {
+  let profile: Profile | null;
+  try {
+    ({ profile } = await createSaml(config, expectedRequestId).validatePostResponseAsync({ SAMLResponse: samlResponse }));
+  } catch (error) {
+    throw new SamlError(`SAML response rejected: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!profile) {
+    throw new SamlError('SAML response did not contain an assertion');
+  }
+
+  return profile;
+}
+
+export function getServiceProviderMetadata(config: Pick<SamlServiceProviderConfig, 'entityId' | 'acsUrl'>): string {
+  return generateServiceProviderMetadata({
+    issuer: config.entityId,
+    callbackUrl: config.acsUrl,
+    identifierFormat: EMAIL_FORMAT,
+    wantAssertionsSigned: true,
+  });
+}
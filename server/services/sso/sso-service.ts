@@ -0,0 +1,403 @@
+/**
+ * SSO Service
+ *
+ * SP-initiated SAML 2.0 / OIDC login to the platform:
+ * - Per-tenant connections routed by DNS-verified email domain from the login page
+ * - Pending login requests persisted with a 10 minute lifetime, completed once
+ * - JIT provisioning into users within the connection's email domains
+ * - Existing accounts are only bound to an IdP identity through an explicit, signed-in link step
+ * - Role mapping from IdP groups (highest mapped role wins, never super-admin)
+ * - One-time login codes the SPA exchanges for a normal session token
+ */
+
+import crypto from 'crypto';
+import { storage } from '../../storage';
+import { decrypt } from '../encryption';
+import { hashPassword, ROLES, migrateRole } from '../auth';
+import type { SsoConnection, SsoLoginRequest, User } from '@shared/schema';
+import { extractClaims, isEmailInDomains, resolveRoleFromGroups, sanitizeReturnTo, type SsoClaims } from './claims';
+import { createAuthorizationRequest, exchangeCode, type OidcClientConfig } from './oidc';
+import { createAuthnRequest, validateResponse, getServiceProviderMetadata, type SamlServiceProviderConfig } from './saml';
+
+export type SsoErrorCode =
+  | 'connection_not_found'
+  | 'connection_misconfigured'
+  | 'request_invalid'
+  | 'response_invalid'
+  | 'email_missing'
+  | 'email_unverified'
+  | 'domain_not_allowed'
+  | 'link_required'
+  | 'link_refused'
+  | 'user_not_provisioned'
+  | 'user_inactive'
+  | 'tenant_mismatch'
+  | 'code_invalid';
+
+export class SsoError extends Error {
+  constructor(message: string, public code: SsoErrorCode, public statusCode: number = 400) {
+    super(message);
+    this.name = 'SsoError';
+  }
+}
+
+export interface SsoServiceProviderInfo {
+  entityId: string;
+  acsUrl: string;
+  metadataUrl: string;
+  redirectUri: string;
+}
+
+export interface SsoLoginResult {
+  user: User;
+  loginCode: string;
+  returnTo: string | null;
+  provisioned: boolean;
+}
+
+const LOGIN_REQUEST_TTL_MS = 10 * 60 * 1000;
+
+export function hashLoginCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+/**
+ * SP endpoints the IdP administrator registers for a connection
+ */
+export function getServiceProviderInfo(connectionId: string, baseUrl: string): SsoServiceProviderInfo {
+  const base = `${baseUrl.replace(/\/+$/, '')}/api/auth/sso/${connectionId}`;
+  return {
+    entityId: `${base}/saml/metadata`,
+    acsUrl: `${base}/saml/acs`,
+    metadataUrl: `${base}/saml/metadata`,
+    redirectUri: `${base}/oidc/callback`,
+  };
+}
+
+function toSamlConfig(connection: SsoConnection, sp: SsoServiceProviderInfo): SamlServiceProviderConfig {
+  if (!connection.samlEntryPoint || !connection.samlIdpCertificate) {
+    throw new SsoError('SAML connection is missing its IdP SSO URL or certificate', 'connection_misconfigured', 500);
+  }
+  return {
+    entityId: sp.entityId,
+    acsUrl: sp.acsUrl,
+    entryPoint: connection.samlEntryPoint,
+    idpIssuer: connection.samlIdpIssuer,
+    idpCertificate: connection.samlIdpCertificate,
+  };
+}
+
+function toOidcConfig(connection: SsoConnection, sp: SsoServiceProviderInfo): OidcClientConfig {
+  if (!connection.oidcIssuer || !connection.oidcClientId || !connection.oidcClientSecret) {
+    throw new SsoError('OIDC connection is missing its issuer or client credentials', 'connection_misconfigured', 500);
+  }
+  return {
+    issuer: connection.oidcIssuer,
+    clientId: connection.oidcClientId,
+    clientSecret: decrypt(connection.oidcClientSecret),
+    redirectUri: sp.redirectUri,
+    scopes: connection.oidcScopes,
+  };
+}
+
+/**
+ * SSO Service
+ */
+export class SsoService {
+  constructor(private baseUrl: string) {}
+
+  private async getConnection(connectionId: string): Promise<SsoConnection> {
+    const connection = await storage.getSsoConnectionForLogin(connectionId);
+    if (!connection) {
+      throw new SsoError('SSO connection not found or disabled', 'connection_not_found', 404);
+    }
+    return connection;
+  }
+
+  /**
+   * Enabled connections for the email's domain, from the tenant that verified the domain
+   */
+  async discover(email: string): Promise<SsoConnection[]> {
+    const domain = email.trim().toLowerCase().split('@')[1];
+    if (!domain) return [];
+
+    const verified = await storage.getVerifiedSsoDomain(domain);
+    if (!verified) return [];
+
+    const connections = await storage.getSsoConnectionsByDomain(domain, { enabled: true });
+    return connections.filter((connection) => connection.tenantId === verified.tenantId);
+  }
+
+  /**
+   * A connection only speaks for its own domains, and only once its tenant has verified them
+   */
+  private async servesEmail(connection: SsoConnection, email: string): Promise<boolean> {
+    if (!isEmailInDomains(email, connection.emailDomains)) return false;
+    const verified = await storage.getVerifiedSsoDomain(email.trim().toLowerCase().split('@')[1]);
+    return verified?.tenantId === connection.tenantId;
+  }
+
+  async getMetadata(connectionId: string): Promise<string> {
+    const connection = await this.getConnection(connectionId);
+    if (connection.protocol !== 'saml') {
+      throw new SsoError('Connection does not use SAML', 'connection_not_found', 404);
+    }
+    return getServiceProviderMetadata(getServiceProviderInfo(connection.id, this.baseUrl));
+  }
+
+  /**
+   * Persist a pending login request and return the IdP redirect URL
+   */
+  async startLogin(connectionId: string, returnTo?: unknown, linkUserId?: string): Promise<string> {
+    const connection = await this.getConnection(connectionId);
+    const sp = getServiceProviderInfo(connection.id, this.baseUrl);
+    const expiresAt = new Date(Date.now() + LOGIN_REQUEST_TTL_MS);
+    const base = {
+      tenantId: connection.tenantId,
+      connectionId: connection.id,
+      protocol: connection.protocol,
+      returnTo: sanitizeReturnTo(returnTo),
+      linkUserId,
+      expiresAt,
+    };
+
+    if (connection.protocol === 'saml') {
+      const samlConfig = toSamlConfig(connection, sp);
+      // RelayState carries our login request ID back to the ACS
+      const request = await storage.createSsoLoginRequest(base);
+      const { url, requestId } = await createAuthnRequest(samlConfig, request.id);
+      await storage.updateSsoLoginRequest(request.id, { samlRequestId: requestId });
+      return url;
+    }
+
+    const authorization = await createAuthorizationRequest(toOidcConfig(connection, sp));
+    await storage.createSsoLoginRequest({
+      ...base,
+      state: authorization.state,
+      nonce: authorization.nonce,
+      codeVerifier: authorization.codeVerifier,
+    });
+    return authorization.url;
+  }
+
+  /**
+   * Start a login that binds the IdP identity to the signed-in user's existing account
+   */
+  async startLink(connectionId: string, userId: string, returnTo?: unknown): Promise<string> {
+    const connection = await this.getConnection(connectionId);
+    const user = await storage.getUser(userId);
+    if (!user || user.tenantId !== connection.tenantId) {
+      throw new SsoError('SSO connection not found or disabled', 'connection_not_found', 404);
+    }
+    if (migrateRole(user.role) === ROLES.SUPER_ADMIN) {
+      throw new SsoError('Super-admin accounts sign in with a password and cannot be linked to single sign-on', 'link_refused', 403);
+    }
+    if (!await this.servesEmail(connection, user.email)) {
+      throw new SsoError('Your email address is not in a verified domain this connection serves', 'domain_not_allowed', 403);
+    }
+    return this.startLogin(connectionId, returnTo, user.id);
+  }
+
+  private getPendingRequest(request: SsoLoginRequest | undefined, connectionId: string): SsoLoginRequest {
+    if (!request || request.connectionId !== connectionId || request.completedAt || request.expiresAt < new Date()) {
+      throw new SsoError('Login request is invalid or has expired; please sign in again', 'request_invalid');
+    }
+    return request;
+  }
+
+  async completeSamlLogin(connectionId: string, samlResponse: string, relayState: string): Promise<SsoLoginResult> {
+    const connection = await this.getConnection(connectionId);
+    const request = this.getPendingRequest(await storage.getSsoLoginRequest(relayState), connection.id);
+    if (!request.samlRequestId) {
+      throw new SsoError('Login request is invalid or has expired; please sign in again', 'request_invalid');
+    }
+
+    let profile;
+    try {
+      profile = await validateResponse(
+        toSamlConfig(connection, getServiceProviderInfo(connection.id, this.baseUrl)),
+        samlResponse,
+        request.samlRequestId
+      );
+    } catch (error) {
+      throw new SsoError(error instanceof Error ? error.message : 'SAML response rejected', 'response_invalid', 401);
+    }
+
+    // node-saml exposes assertion attributes both on the profile and under profile.attributes
+    const claims = extractClaims(connection, profile.nameID, { ...(profile.attributes as Record<string, unknown>), ...profile });
+    return this.completeLogin(connection, request, claims);
+  }
+
+  async completeOidcLogin(connectionId: string, code: string, state: string): Promise<SsoLoginResult> {
+    const connection = await this.getConnection(connectionId);
+    const request = this.getPendingRequest(await storage.getSsoLoginRequestByState(state), connection.id);
+    if (!request.nonce || !request.codeVerifier) {
+      throw new SsoError('Login request is invalid or has expired; please sign in again', 'request_invalid');
+    }
+
+    let tokenClaims: Record<string, any>;
+    try {
+      tokenClaims = await exchangeCode(
+        toOidcConfig(connection, getServiceProviderInfo(connection.id, this.baseUrl)),
+        code,
+        { nonce: request.nonce, codeVerifier: request.codeVerifier }
+      );
+    } catch (error) {
+      throw new SsoError(error instanceof Error ? error.message : 'OIDC login failed', 'response_invalid', 401);
+    }
+
+    const claims = extractClaims(connection, String(tokenClaims.sub), tokenClaims);
+    return this.completeLogin(connection, request, claims);
+  }
+
+  private async completeLogin(
+    connection: SsoConnection,
+    request: SsoLoginRequest,
+    claims: SsoClaims
+  ): Promise<SsoLoginResult> {
+    if (!claims.email || !claims.email.includes('@')) {
+      throw new SsoError('Identity provider did not return an email address', 'email_missing');
+    }
+    if (claims.emailVerified === false) {
+      throw new SsoError('Identity provider has not verified this email address', 'email_unverified', 403);
+    }
+    // Anything outside the connection's verified domains could claim another tenant's users
+    if (!await this.servesEmail(connection, claims.email)) {
+      throw new SsoError('This email address is not in a verified domain this connection serves', 'domain_not_allowed', 403);
+    }
+
+    const { user, provisioned } = await this.provisionUser(connection, claims, request.linkUserId);
+
+    const loginCode = crypto.randomBytes(32).toString('base64url');
+    const completed = await storage.completeSsoLoginRequest(request.id, user.id, hashLoginCode(loginCode));
+    if (!completed) {
+      // Another response already completed this request (replay) or it just expired
+      throw new SsoError('Login request is invalid or has expired; please sign in again', 'request_invalid');
+    }
+
+    await storage.updateSsoConnection(connection.id, connection.tenantId, { lastLoginAt: new Date() });
+    console.log(`[SSO] ${connection.protocol.toUpperCase()} login for ${user.email} via connection ${connection.id}`);
+
+    return { user, loginCode, returnTo: request.returnTo, provisioned };
+  }
+
+  /**
+   * Find or create the platform user for an IdP identity and apply role mapping. An existing account
+   * without an identity for this connection is only used when the login is that user's own link step.
+   */
+  async provisionUser(
+    connection: SsoConnection,
+    claims: SsoClaims,
+    linkUserId?: string | null
+  ): Promise<{ user: User; provisioned: boolean }> {
+    let provisioned = false;
+    let user: User | undefined;
+
+    const identity = await storage.getUserSsoIdentity(connection.id, claims.subject);
+    if (identity) {
+      if (linkUserId && identity.userId !== linkUserId) {
+        throw new SsoError('This identity is already linked to another account', 'link_refused', 409);
+      }
+      user = await storage.getUser(identity.userId);
+    }
+
+    if (!user) {
+      const existing = await storage.getUserByEmail(claims.email);
+      if (existing && existing.tenantId !== connection.tenantId) {
+        throw new SsoError('This email address belongs to a different organization', 'tenant_mismatch', 403);
+      }
+      if (existing && existing.id !== linkUserId) {
+        throw new SsoError(
+          'An account already exists for this email. Sign in with your password and link single sign-on under Settings > Security.',
+          'link_required',
+          403
+        );
+      }
+      if (!existing && linkUserId) {
+        throw new SsoError('The identity provider returned a different email address than your account', 'link_refused', 403);
+      }
+      user = existing;
+    }
+
+    if (user && migrateRole(user.role) === ROLES.SUPER_ADMIN) {
+      throw new SsoError('Super-admin accounts sign in with a password and cannot use single sign-on', 'link_refused', 403);
+    }
+
+    if (!user) {
+      if (!connection.jitProvisioning) {
+        throw new SsoError('No account exists for this user and JIT provisioning is disabled', 'user_not_provisioned', 403);
+      }
+      user = await storage.createUser({
+        username: await this.generateUsername(claims.email),
+        email: claims.email,
+        // SSO users never sign in with a password; store an unguessable hash
+        password: await hashPassword(crypto.randomBytes(32).toString('hex')),
+        firstName: claims.firstName || claims.email.split('@')[0],
+        lastName: claims.lastName || '',
+        role: resolveRoleFromGroups(claims.groups, connection.roleMappings, connection.defaultRole),
+        tenantId: connection.tenantId,
+        isActive: true,
+        mustChangePassword: false,
+      });
+      provisioned = true;
+      console.log(`[SSO] JIT provisioned user ${user.email} (${user.role}) in tenant ${connection.tenantId}`);
+    }
+
+    if (user.isActive === false) {
+      throw new SsoError('Your account has been deactivated', 'user_inactive', 403);
+    }
+
+    if (!provisioned && connection.roleMappings?.length && migrateRole(user.role) !== ROLES.SUPER_ADMIN) {
+      const role = resolveRoleFromGroups(claims.groups, connection.roleMappings, connection.defaultRole);
+      if (role !== migrateRole(user.role)) {
+        user = (await storage.updateUser(user.id, { role })) || user;
+        console.log(`[SSO] Updated role for ${user.email} to ${role} from IdP groups`);
+      }
+    }
+
+    if (identity) {
+      await storage.updateUserSsoIdentity(identity.id, { email: claims.email, groups: claims.groups, lastLoginAt: new Date() });
+    } else {
+      await storage.createUserSsoIdentity({
+        tenantId: connection.tenantId,
+        userId: user.id,
+        connectionId: connection.id,
+        subject: claims.subject,
+        email: claims.email,
+        groups: claims.groups,
+        lastLoginAt: new Date(),
+      });
+    }
+
+    return { user, provisioned };
+  }
+
+  private async generateUsername(email: string): Promise<string> {
+    const base = email.split('@')[0].toLowerCase().replace(/[^a-z0-9._-]/g, '') || 'user';
+    let candidate = base;
+    for (let suffix = 1; await storage.getUserByUsername(candidate); suffix++) {
+      candidate = `${base}${suffix}`;
+    }
+    return candidate;
+  }
+
+  /**
+   * Redeem a one-time login code issued by a completed SSO login
+   */
+  async exchangeLoginCode(code: string): Promise<{ user: User; connectionId: string; returnTo: string | null }> {
+    const request = code ? await storage.consumeSsoLoginCode(hashLoginCode(code)) : undefined;
+    if (!request?.userId) {
+      throw new SsoError('Login code is invalid or has expired', 'code_invalid', 401);
+    }
+
+    const user = await storage.getUser(request.userId);
+    if (!user || user.tenantId !== request.tenantId) {
+      throw new SsoError('Login code is invalid or has expired', 'code_invalid', 401);
+    }
+    if (user.isActive === false) {
+      throw new SsoError('Your account has been deactivated', 'user_inactive', 403);
+    }
+
+    return { user, connectionId: request.connectionId, returnTo: request.returnTo };
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Business Hours Calendar
+ *
+ * Timezone-aware working-time arithmetic for ticket SLA clocks:
+ * - Add N business minutes to an instant
+ * - Count business minutes between two instants
+ *
+ * A calendar is a set of weekdays (0 = Sunday) with one daily window in an
+ * IANA timezone. A null window means the clock runs 24x7.
+ */
+
+export interface BusinessHoursWindow {
+  days: number[];   // 0 = Sunday ... 6 = Saturday
+  start: string;    // "HH:MM" local time
+  end: string;      // "HH:MM" local time, after start
+}
+
+export interface BusinessCalendar {
+  timezone: string;
+  hours: BusinessHoursWindow | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+const MAX_DAYS_SCANNED = 366 * 2;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether the runtime recognises an IANA timezone name
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseTime(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Local calendar date (in the calendar's timezone) of an instant
+ */
+function getLocalDate(instant: number, timezone: string): { year: number; month: number; day: number } {
+  const parts = getFormatter(timezone).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day') };
+}
+
+/**
+ * Offset of the timezone from UTC at an instant, in milliseconds
+ */
+function getOffset(instant: number, timezone: string): number {
+  const parts = getFormatter(timezone).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * UTC instant of a local wall-clock time; day overflow rolls into the next month
+ */
+function zonedTimeToUtc(year: number, month: number, day: number, minutesOfDay: number, timezone: string): number {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutesOfDay);
+  const firstGuess = wallClock - getOffset(wallClock, timezone);
+  // Re-check across a DST transition
+  return wallClock - getOffset(firstGuess, timezone);
+}
+
+/**
+ * Visit the business windows that end after `from`, in order, until the visitor returns false
+ */
+function forEachBusinessWindow(
+  from: number,
+  calendar: BusinessCalendar,
+  visit: (open: number, close: number) => boolean
+): void {
+  const hours = calendar.hours!;
+  const openMinute = parseTime(hours.start);
+  const closeMinute = parseTime(hours.end);
+  let { year, month, day } = getLocalDate(from, calendar.timezone);
+
+  for (let scanned = 0; scanned < MAX_DAYS_SCANNED; scanned++) {
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    if (hours.days.includes(weekday)) {
+      const open = zonedTimeToUtc(year, month, day, openMinute, calendar.timezone);
+      const close = zonedTimeToUtc(year, month, day, closeMinute, calendar.timezone);
+      if (close > from && !visit(Math.max(open, from), close)) {
+        return;
+      }
+    }
+
+    const next = new Date(Date.UTC(year, month - 1, day + 1));
+    year = next.getUTCFullYear();
+    month = next.getUTCMonth() + 1;
+    day = next.getUTCDate();
+  }
+}
+
+function isAlwaysOpen(calendar: BusinessCalendar): boolean {
+  return !calendar.hours;
+}
+
+/**
+ * Instant at which `minutes` business minutes have elapsed after `start`
+ */
+export function addBusinessMinutes(start: Date, minutes: number, calendar: BusinessCalendar): Date {
+  if (minutes <= 0) return new Date(start);
+  if (isAlwaysOpen(calendar)) {
+    return new Date(start.getTime() + minutes * MINUTE_MS);
+  }
+
+  let remaining = minutes * MINUTE_MS;
+  let due: Date | null = null;
+  forEachBusinessWindow(start.getTime(), calendar, (open, close) => {
+    if (remaining <= close - open) {
+      due = new Date(open + remaining);
+      return false;
+    }
+    remaining -= close - open;
+    return true;
+  });
+
+  if (!due) {
+    throw new Error('Business hours calendar has no working time within two years');
+  }
+  return due;
+}
+
+/**
+ * Business minutes elapsed between two instants (0 if `to` is not after `from`)
+ */
+export function businessMinutesBetween(from: Date, to: Date, calendar: BusinessCalendar): number {
+  const end = to.getTime();
+  if (end <= from.getTime()) return 0;
+  if (isAlwaysOpen(calendar)) {
+    return Math.floor((end - from.getTime()) / MINUTE_MS);
+  }
+
+  let elapsed = 0;
+  forEachBusinessWindow(from.getTime(), calendar, (open, close) => {
+    if (open >= end) return false;
+    elapsed += Math.min(close, end) - open;
+    return true;
+  });
+  return Math.floor(elapsed / MINUTE_MS);
+}
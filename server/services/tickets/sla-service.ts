@@ -0,0 +1,531 @@
+/**
+ * Ticket SLA Service
+ *
+ * Applies tenant SLA policies to service desk tickets:
+ * - Picks the most specific active policy for a ticket's category and priority
+ * - Computes response/resolution targets on the site's business-hours calendar
+ * - Pauses the clock while a ticket is awaiting the requestor
+ * - Sends pre-breach warnings and escalates on breach (reassign or manager)
+ *
+ * Every SLA transition is recorded in the ticket's activity trail.
+ */
+
+import cron from 'node-cron';
+import { storage } from '../../storage';
+import { auditLogger, AuditActions, ResourceTypes } from '../../audit-logger';
+import { sendEmail } from '../email';
+import {
+  addBusinessMinutes,
+  businessMinutesBetween,
+  isValidTimezone,
+  type BusinessCalendar,
+  type BusinessHoursWindow
+} from './business-hours';
+import type { Ticket, TicketSlaPolicy, User } from '@shared/schema';
+
+export type SlaStatus = 'on_track' | 'at_risk' | 'breached' | 'paused' | 'met';
+type SlaTarget = 'response' | 'resolution';
+
+const CHECK_CRON = '*/5 * * * *';
+const PAUSED_STATUS = 'awaiting-requestor';
+const STOPPED_STATUSES = ['resolved', 'closed', 'cancelled'];
+
+const SYSTEM_ACTOR = {
+  actorId: 'system',
+  actorName: 'SLA Engine',
+  actorRole: 'system',
+};
+
+const TARGET_FIELDS = {
+  response: {
+    label: 'Response',
+    dueAt: 'responseDueAt',
+    warningAt: 'responseWarningAt',
+    breachedAt: 'responseBreachedAt',
+    minutes: 'responseMinutes',
+  },
+  resolution: {
+    label: 'Resolution',
+    dueAt: 'resolutionDueAt',
+    warningAt: 'resolutionWarningAt',
+    breachedAt: 'resolutionBreachedAt',
+    minutes: 'resolutionMinutes',
+  },
+} as const;
+
+function displayName(user: User): string {
+  return `${user.firstName} ${user.lastName}`.trim() || user.email;
+}
+
+/**
+ * Ticket SLA Service
+ */
+export class TicketSlaService {
+  private task: ReturnType<typeof cron.schedule> | null = null;
+  private running = false;
+
+  /**
+   * Most specific active policy: priority match outranks category match,
+   * and null fields act as wildcards
+   */
+  async findPolicy(tenantId: string, category: string, priority: string): Promise<TicketSlaPolicy | undefined> {
+    const policies = await storage.getTicketSlaPolicies(tenantId);
+
+    let best: TicketSlaPolicy | undefined;
+    let bestScore = -1;
+    for (const policy of policies) {
+      if (!policy.isActive) continue;
+      if (policy.category && policy.category !== category) continue;
+      if (policy.priority && policy.priority !== priority) continue;
+
+      const score = (policy.priority ? 2 : 0) + (policy.category ? 1 : 0);
+      if (score > bestScore) {
+        best = policy;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Business-hours calendar for a ticket: the site's timezone wins over the policy default
+   */
+  async getCalendar(ticket: Ticket, policy: TicketSlaPolicy): Promise<BusinessCalendar> {
+    let timezone = policy.timezone || 'UTC';
+    if (ticket.siteId) {
+      const site = await storage.getSite(ticket.siteId, ticket.tenantId);
+      if (site?.timezone && isValidTimezone(site.timezone)) {
+        timezone = site.timezone;
+      }
+    }
+    if (!isValidTimezone(timezone)) {
+      timezone = 'UTC';
+    }
+    return { timezone, hours: (policy.businessHours as BusinessHoursWindow | null) ?? null };
+  }
+
+  /**
+   * Status a running (not stopped) clock should show
+   */
+  private deriveStatus(ticket: Ticket): SlaStatus {
+    if (ticket.slaPausedAt) return 'paused';
+    if (ticket.responseBreachedAt || ticket.resolutionBreachedAt) return 'breached';
+    if ((!ticket.firstResponseAt && ticket.responseWarningAt) || ticket.resolutionWarningAt) return 'at_risk';
+    return 'on_track';
+  }
+
+  private async logActivity(ticket: Ticket, activityType: string, description: string, metadata?: Record<string, any>) {
+    await storage.logTicketActivity({
+      ticketId: ticket.id,
+      tenantId: ticket.tenantId,
+      activityType,
+      description,
+      metadata,
+      ...SYSTEM_ACTOR,
+    });
+  }
+
+  /**
+   * Attach the matching policy and (re)compute targets from the ticket's creation time.
+   * Called on creation and whenever category, priority or site change.
+   */
+  async applyPolicy(ticket: Ticket): Promise<Ticket> {
+    try {
+      if (STOPPED_STATUSES.includes(ticket.status)) {
+        return ticket;
+      }
+
+      const policy = await this.findPolicy(ticket.tenantId, ticket.category, ticket.priority);
+      if (!policy) {
+        if (!ticket.slaPolicyId) return ticket;
+
+        const cleared = await storage.updateTicketSla(ticket.id, ticket.tenantId, {
+          slaPolicyId: null,
+          slaStatus: null,
+          responseDueAt: null,
+          resolutionDueAt: null,
+        });
+        await this.logActivity(ticket, 'sla_removed', 'No SLA policy matches this ticket any more');
+        return cleared || ticket;
+      }
+
+      const now = new Date();
+      const calendar = await this.getCalendar(ticket, policy);
+      const openedAt = ticket.createdAt ? new Date(ticket.createdAt) : now;
+      const pausedMinutes = ticket.slaPausedMinutes || 0;
+      const responseDueAt = addBusinessMinutes(openedAt, policy.responseMinutes + pausedMinutes, calendar);
+      const resolutionDueAt = addBusinessMinutes(openedAt, policy.resolutionMinutes + pausedMinutes, calendar);
+
+      // Breaches stand only if the new target has also passed; warnings are re-evaluated
+      const candidate: Ticket = {
+        ...ticket,
+        slaPolicyId: policy.id,
+        responseDueAt,
+        resolutionDueAt,
+        dueDate: resolutionDueAt,
+        responseWarningAt: null,
+        resolutionWarningAt: null,
+        responseBreachedAt: ticket.responseBreachedAt && responseDueAt <= now ? ticket.responseBreachedAt : null,
+        resolutionBreachedAt: ticket.resolutionBreachedAt && resolutionDueAt <= now ? ticket.resolutionBreachedAt : null,
+      };
+
+      const updated = await storage.updateTicketSla(ticket.id, ticket.tenantId, {
+        slaPolicyId: candidate.slaPolicyId,
+        slaStatus: this.deriveStatus(candidate),
+        responseDueAt,
+        resolutionDueAt,
+        dueDate: resolutionDueAt,
+        responseWarningAt: null,
+        resolutionWarningAt: null,
+        responseBreachedAt: candidate.responseBreachedAt,
+        resolutionBreachedAt: candidate.resolutionBreachedAt,
+      });
+
+      await this.logActivity(
+        ticket,
+        'sla_applied',
+        `SLA policy "${policy.name}" applied: response due ${responseDueAt.toISOString()}, resolution due ${resolutionDueAt.toISOString()}`,
+        { policyId: policy.id, timezone: calendar.timezone, responseDueAt, resolutionDueAt }
+      );
+
+      return updated || ticket;
+    } catch (error) {
+      console.error(`[SLA] Failed to apply SLA policy to ticket ${ticket.id}:`, error);
+      return ticket;
+    }
+  }
+
+  /**
+   * Stop the response clock on the first reply from someone other than the requestor
+   */
+  async recordFirstResponse(ticket: Ticket): Promise<Ticket> {
+    if (!ticket.slaPolicyId || ticket.firstResponseAt) {
+      return ticket;
+    }
+
+    try {
+      const now = new Date();
+      const met = !ticket.responseDueAt || now <= new Date(ticket.responseDueAt);
+      const updated = await storage.updateTicketSla(ticket.id, ticket.tenantId, {
+        firstResponseAt: now,
+        slaStatus: STOPPED_STATUSES.includes(ticket.status)
+          ? ticket.slaStatus
+          : this.deriveStatus({ ...ticket, firstResponseAt: now }),
+      });
+
+      await this.logActivity(
+        ticket,
+        met ? 'sla_response_met' : 'sla_response_missed',
+        met ? 'First response SLA met' : 'First response sent after the SLA target',
+        { respondedAt: now, responseDueAt: ticket.responseDueAt }
+      );
+
+      return updated || ticket;
+    } catch (error) {
+      console.error(`[SLA] Failed to record first response for ticket ${ticket.id}:`, error);
+      return ticket;
+    }
+  }
+
+  /**
+   * Pause, resume or stop the clock after a status change
+   */
+  async handleStatusChange(previous: Ticket, ticket: Ticket): Promise<Ticket> {
+    if (!ticket.slaPolicyId || previous.status === ticket.status) {
+      return ticket;
+    }
+
+    try {
+      const policy = await storage.getTicketSlaPolicy(ticket.slaPolicyId, ticket.tenantId);
+      if (!policy) return ticket;
+
+      const now = new Date();
+      let current = ticket;
+
+      // Waiting on the requestor: freeze both clocks
+      if (ticket.status === PAUSED_STATUS) {
+        if (ticket.slaPausedAt) return ticket;
+        const updated = await storage.updateTicketSla(ticket.id, ticket.tenantId, {
+          slaPausedAt: now,
+          slaStatus: 'paused',
+        });
+        await this.logActivity(ticket, 'sla_paused', 'SLA clock paused while awaiting requestor');
+        return updated || ticket;
+      }
+
+      // Leaving the paused state: push the targets out by the paused business time
+      if (ticket.slaPausedAt) {
+        const calendar = await this.getCalendar(ticket, policy);
+        const pausedFor = businessMinutesBetween(new Date(ticket.slaPausedAt), now, calendar);
+        const shifted: Partial<Ticket> = {
+          slaPausedAt: null,
+          slaPausedMinutes: (ticket.slaPausedMinutes || 0) + pausedFor,
+        };
+        if (ticket.responseDueAt && !ticket.firstResponseAt && !ticket.responseBreachedAt) {
+          shifted.responseDueAt = addBusinessMinutes(new Date(ticket.responseDueAt), pausedFor, calendar);
+        }
+        if (ticket.resolutionDueAt && !ticket.resolutionBreachedAt) {
+          shifted.resolutionDueAt = addBusinessMinutes(new Date(ticket.resolutionDueAt), pausedFor, calendar);
+          shifted.dueDate = shifted.resolutionDueAt;
+        }
+        current = { ...ticket, ...shifted };
+        current = (await storage.updateTicketSla(ticket.id, ticket.tenantId, {
+          ...shifted,
+          slaStatus: this.deriveStatus(current),
+        })) || current;
+
+        await this.logActivity(
+          ticket,
+          'sla_resumed',
+          `SLA clock resumed after ${pausedFor} business minutes awaiting requestor`,
+          { pausedMinutes: pausedFor, responseDueAt: current.responseDueAt, resolutionDueAt: current.resolutionDueAt }
+        );
+      }
+
+      if (current.status === 'resolved' || current.status === 'closed') {
+        // resolved -> closed keeps the outcome recorded at resolution
+        if (STOPPED_STATUSES.includes(previous.status)) return current;
+        return await this.stopClock(current);
+      }
+
+      // Reopened after resolution: the clock runs again against the existing targets
+      if (STOPPED_STATUSES.includes(previous.status)) {
+        return (await storage.updateTicketSla(current.id, current.tenantId, {
+          slaStatus: this.deriveStatus(current),
+        })) || current;
+      }
+
+      return current;
+    } catch (error) {
+      console.error(`[SLA] Failed to update SLA clock for ticket ${ticket.id}:`, error);
+      return ticket;
+    }
+  }
+
+  private async stopClock(ticket: Ticket): Promise<Ticket> {
+    const now = new Date();
+    const resolvedAt = ticket.resolvedAt ? new Date(ticket.resolvedAt) : now;
+    const lateResolution = !!ticket.resolutionDueAt && resolvedAt > new Date(ticket.resolutionDueAt);
+    const breached = lateResolution || !!ticket.responseBreachedAt || !!ticket.resolutionBreachedAt;
+
+    const updated = await storage.updateTicketSla(ticket.id, ticket.tenantId, {
+      slaStatus: breached ? 'breached' : 'met',
+      resolutionBreachedAt: ticket.resolutionBreachedAt || (lateResolution ? resolvedAt : null),
+    });
+
+    if (breached) {
+      if (lateResolution && !ticket.resolutionBreachedAt) {
+        await this.logActivity(ticket, 'sla_breached', 'Resolution SLA breached', {
+          target: 'resolution',
+          dueAt: ticket.resolutionDueAt,
+        });
+      }
+    } else {
+      await this.logActivity(ticket, 'sla_met', 'Ticket resolved within SLA', {
+        resolvedAt,
+        resolutionDueAt: ticket.resolutionDueAt,
+      });
+    }
+
+    return updated || ticket;
+  }
+
+  /**
+   * Evaluate one running ticket for warnings and breaches
+   */
+  async checkTicket(ticket: Ticket, now: Date = new Date()): Promise<void> {
+    if (!ticket.slaPolicyId || ticket.slaPausedAt || STOPPED_STATUSES.includes(ticket.status)) {
+      return;
+    }
+
+    const policy = await storage.getTicketSlaPolicy(ticket.slaPolicyId, ticket.tenantId);
+    if (!policy) return;
+
+    const calendar = await this.getCalendar(ticket, policy);
+    const targets: SlaTarget[] = ticket.firstResponseAt ? ['resolution'] : ['response', 'resolution'];
+    const updates: Partial<Ticket> = {};
+    const breached: SlaTarget[] = [];
+
+    for (const target of targets) {
+      const fields = TARGET_FIELDS[target];
+      const dueAt = ticket[fields.dueAt] ? new Date(ticket[fields.dueAt]!) : null;
+      if (!dueAt || ticket[fields.breachedAt]) continue;
+
+      if (now >= dueAt) {
+        updates[fields.breachedAt] = now;
+        breached.push(target);
+        await this.logActivity(ticket, 'sla_breached', `${fields.label} SLA breached`, {
+          target,
+          dueAt,
+          policyId: policy.id,
+        });
+        continue;
+      }
+
+      if (ticket[fields.warningAt]) continue;
+
+      const total = policy[fields.minutes];
+      const remaining = businessMinutesBetween(now, dueAt, calendar);
+      const consumedPercent = total > 0 ? ((total - remaining) / total) * 100 : 100;
+      if (consumedPercent >= policy.warningThresholdPercent) {
+        updates[fields.warningAt] = now;
+        await this.logActivity(
+          ticket,
+          'sla_warning',
+          `${fields.label} SLA at risk: ${remaining} business minutes remaining`,
+          { target, dueAt, remainingMinutes: remaining, thresholdPercent: policy.warningThresholdPercent }
+        );
+        await this.notifyAssignee(ticket, target, dueAt);
+      }
+    }
+
+    if (Object.keys(updates).length === 0) return;
+
+    const next = { ...ticket, ...updates } as Ticket;
+    await storage.updateTicketSla(ticket.id, ticket.tenantId, {
+      ...updates,
+      slaStatus: this.deriveStatus(next),
+    });
+
+    if (breached.length > 0 && !ticket.escalatedAt) {
+      await this.escalate(next, policy, breached);
+    }
+  }
+
+  /**
+   * Find who a breached ticket goes to: the policy's named user, or the
+   * assignee's manager with any IT manager as fallback
+   */
+  private async resolveEscalationTarget(ticket: Ticket, policy: TicketSlaPolicy): Promise<User | undefined> {
+    const isEligible = (user: User | undefined): user is User =>
+      !!user && user.tenantId === ticket.tenantId && user.isActive !== false && user.id !== ticket.assignedToId;
+
+    if (policy.escalationAction === 'reassign') {
+      const target = policy.escalateToId ? await storage.getUser(policy.escalateToId) : undefined;
+      return isEligible(target) ? target : undefined;
+    }
+
+    if (ticket.assignedToId) {
+      const assignee = await storage.getUser(ticket.assignedToId);
+      if (assignee?.manager) {
+        const manager = await storage.getUserByUsername(assignee.manager);
+        if (isEligible(manager)) return manager;
+      }
+    }
+
+    const users = await storage.getTenantUsers(ticket.tenantId);
+    return users.find(user => user.role === 'it-manager' && isEligible(user))
+      || users.find(user => user.role === 'admin' && isEligible(user));
+  }
+
+  private async escalate(ticket: Ticket, policy: TicketSlaPolicy, breached: SlaTarget[]): Promise<void> {
+    if (policy.escalationAction === 'none') return;
+
+    const now = new Date();
+    const target = await this.resolveEscalationTarget(ticket, policy);
+    if (!target) {
+      await storage.updateTicketSla(ticket.id, ticket.tenantId, { escalatedAt: now });
+      await this.logActivity(ticket, 'escalation_failed', 'SLA breached but no escalation target was found', {
+        action: policy.escalationAction,
+        targets: breached,
+      });
+      console.warn(`[SLA] No escalation target for ticket ${ticket.ticketNumber}`);
+      return;
+    }
+
+    const targetName = displayName(target);
+    await storage.updateTicketSla(ticket.id, ticket.tenantId, {
+      assignedToId: target.id,
+      assignedToName: targetName,
+      assignedById: SYSTEM_ACTOR.actorId,
+      assignedByName: SYSTEM_ACTOR.actorName,
+      assignedAt: now,
+      escalatedAt: now,
+    });
+
+    await this.logActivity(
+      ticket,
+      'escalated',
+      `Ticket escalated to ${targetName} after ${breached.join(' and ')} SLA breach`,
+      {
+        action: policy.escalationAction,
+        previousAssigneeId: ticket.assignedToId,
+        previousAssigneeName: ticket.assignedToName,
+        escalatedToId: target.id,
+        targets: breached,
+      }
+    );
+
+    await auditLogger.logSystemActivity(ticket.tenantId, {
+      action: AuditActions.UPDATE,
+      resourceType: ResourceTypes.TICKET,
+      resourceId: ticket.id,
+      description: `SLA breach escalated ticket ${ticket.ticketNumber} to ${targetName}`,
+      metadata: { policyId: policy.id, targets: breached },
+    });
+
+    await sendEmail({
+      to: target.email,
+      from: process.env.SENDGRID_FROM_EMAIL || 'noreply@assetvault.com',
+      subject: `SLA breached: ${ticket.ticketNumber} escalated to you`,
+      text: `Ticket ${ticket.ticketNumber} "${ticket.title}" breached its ${breached.join(' and ')} SLA and has been assigned to you.`,
+    });
+
+    console.log(`[SLA] Escalated ticket ${ticket.ticketNumber} to ${target.email}`);
+  }
+
+  private async notifyAssignee(ticket: Ticket, target: SlaTarget, dueAt: Date): Promise<void> {
+    if (!ticket.assignedToId) return;
+    const assignee = await storage.getUser(ticket.assignedToId);
+    if (!assignee?.email) return;
+
+    await sendEmail({
+      to: assignee.email,
+      from: process.env.SENDGRID_FROM_EMAIL || 'noreply@assetvault.com',
+      subject: `SLA warning: ${ticket.ticketNumber}`,
+      text: `The ${target} target for ticket ${ticket.ticketNumber} "${ticket.title}" is due at ${dueAt.toISOString()}.`,
+    });
+  }
+
+  /**
+   * Evaluate every running SLA clock across tenants
+   */
+  async runChecks(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const tickets = await storage.getSlaTrackedTickets();
+      const now = new Date();
+      for (const ticket of tickets) {
+        try {
+          await this.checkTicket(ticket, now);
+        } catch (error) {
+          console.error(`[SLA] Failed to check ticket ${ticket.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('[SLA] SLA check run failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Start the periodic warning/breach scan
+   */
+  start(): void {
+    if (this.task) return;
+    this.task = cron.schedule(CHECK_CRON, () => {
+      this.runChecks().catch(error => console.error('[SLA] Scheduled check failed:', error));
+    });
+    console.log('[SLA] Ticket SLA checks scheduled every 5 minutes');
+  }
+
+  stop(): void {
+    this.task?.stop();
+    this.task = null;
+  }
+}
+
+export const ticketSlaService = new TicketSlaService();
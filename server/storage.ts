@@ -11,6 +11,28 @@ import {
   type InsertAssetUtilization,
   type AssetSoftwareLink,
   type InsertAssetSoftwareLink,
+  type AssetCustodyRecord,
+  type InsertAssetCustodyRecord,
+  type AssetLifecycleEvent,
+  type InsertAssetLifecycleEvent,
+  type DepreciationSchedule,
+  type InsertDepreciationSchedule,
+  type InventoryAudit,
+  type InsertInventoryAudit,
+  type InventoryAuditItem,
+  type InsertInventoryAuditItem,
+  type BusinessService,
+  type InsertBusinessService,
+  type CiRelationship,
+  type CoverageAlert,
+  type InsertCoverageAlert,
+  type CoverageAlertSettings,
+  type InsertCiRelationship,
+  type AssetTagSettings,
+  type SoftwareProduct,
+  type InsertSoftwareProduct,
+  type SoftwareNormalizationRule,
+  type InsertSoftwareNormalizationRule,
   type Recommendation,
   type InsertRecommendation,
   type AIResponse,
@@ -33,11 +55,23 @@ import {
   type InsertTicketComment,
   type TicketActivity,
   type InsertTicketActivity,
+  type TicketSlaPolicy,
+  type InsertTicketSlaPolicy,
   type CreateTicket,
   type UpdateTicket,
   type EnrollmentToken,
   type InsertEnrollmentToken,
   type CreateEnrollmentToken,
+  type AgentDevice,
+  type InsertAgentDevice,
+  type AgentCommand,
+  type InsertAgentCommand,
+  type DiscoveryJob,
+  type InsertDiscoveryJob,
+  type CredentialProfile,
+  type InsertCredentialProfile,
+  type DiscoveredDevice,
+  type InsertDiscoveredDevice,
   // SaaS Governance types (Phase 0)
   type SaasApp,
   type InsertSaasApp,
@@ -64,15 +98,45 @@ import {
   type InsertPolicyExecution,
   type PolicyTemplate,
   type InsertPolicyTemplate,
+  type EventOutboxRecord,
+  type InsertEventOutboxRecord,
+  type EventDelivery,
+  type InsertEventDelivery,
   // Phase 6 types
   type AccessRequest,
   type InsertAccessRequest,
+  type AccessCatalogItem,
+  type InsertAccessCatalogItem,
   type JitAccessSession,
   type InsertJitAccessSession,
+  type BreakGlassAccount,
+  type InsertBreakGlassAccount,
+  type BreakGlassSession,
+  type InsertBreakGlassSession,
+  type UserMfaFactor,
+  type InsertUserMfaFactor,
+  type MfaChallenge,
+  type InsertMfaChallenge,
+  type MfaRecoveryCode,
+  type SsoConnection,
+  type InsertSsoConnection,
+  type UserSsoIdentity,
+  type InsertUserSsoIdentity,
+  type SsoLoginRequest,
+  type InsertSsoLoginRequest,
+  type SsoDomain,
+  type InsertSsoDomain,
+  type ScimToken,
+  type InsertScimToken,
+  type ScimGroup,
+  type InsertScimGroup,
+  type ScimGroupMember,
   type SodRule,
   type InsertSodRule,
   type SodViolation,
   type InsertSodViolation,
+  type AppEntitlement,
+  type InsertAppEntitlement,
   type ReviewSuggestion,
   type InsertReviewSuggestion,
   type AnomalyDetection,
@@ -91,6 +155,16 @@ import {
   tenants,
   assets,
   assetSoftwareLinks,
+  assetCustodyRecords,
+  assetLifecycleEvents,
+  depreciationSchedules,
+  inventoryAudits,
+  inventoryAuditItems,
+  businessServices,
+  ciRelationships,
+  coverageAlerts,
+  softwareProducts,
+  softwareNormalizationRules,
   softwareLicenses,
   assetUtilization,
   recommendations,
@@ -103,7 +177,13 @@ import {
   tickets,
   ticketComments,
   ticketActivities,
+  ticketSlaPolicies,
   enrollmentTokens,
+  agentDevices,
+  agentCommands,
+  discoveryJobs,
+  credentialProfiles,
+  discoveredDevices,
   enrollmentSessions,
   sites,
   type Site,
@@ -132,6 +212,8 @@ import {
   automatedPolicies,
   policyExecutions,
   policyTemplates,
+  eventOutbox,
+  eventDeliveries,
   // Phase 5 tables
   type AccessReviewCampaign,
   type InsertAccessReviewCampaign,
@@ -139,6 +221,8 @@ import {
   type InsertAccessReviewItem,
   type AccessReviewDecision,
   type InsertAccessReviewDecision,
+  type AccessReviewDelegation,
+  type InsertAccessReviewDelegation,
   type RoleTemplate,
   type InsertRoleTemplate,
   type UserRoleAssignment,
@@ -150,15 +234,30 @@ import {
   accessReviewCampaigns,
   accessReviewItems,
   accessReviewDecisions,
+  accessReviewDelegations,
   roleTemplates,
   userRoleAssignments,
   privilegeDriftAlerts,
   overprivilegedAccounts,
   // Phase 6 tables
   accessRequests,
+  accessCatalogItems,
   jitAccessSessions,
+  breakGlassAccounts,
+  breakGlassSessions,
+  userMfaFactors,
+  mfaChallenges,
+  mfaRecoveryCodes,
+  ssoConnections,
+  userSsoIdentities,
+  ssoDomains,
+  ssoLoginRequests,
+  scimTokens,
+  scimGroups,
+  scimGroupMembers,
   sodRules,
   sodViolations,
+  appEntitlements,
   reviewSuggestions,
   anomalyDetections,
   peerGroupBaselines,
@@ -168,6 +267,8 @@ import {
   integrationEvents,
   casbIntegrations,
   casbEvents,
+  siemIntegrations,
+  siemEventLog,
   // Alerting, Notification, Network Traffic, Remediation tables
   alertConfigurations,
   alertInstances,
@@ -191,7 +292,7 @@ import {
 import { randomUUID } from "crypto";
 import { hashPassword } from "./services/auth";
 import { db } from "./db";
-import { eq, and, or, desc, sql, ilike, isNotNull, ne, gt, gte, inArray } from "drizzle-orm";
+import { eq, and, or, desc, sql, ilike, isNotNull, isNull, ne, gt, gte, lt, lte, inArray } from "drizzle-orm";
 import { alias } from "drizzle-orm/pg-core";
 import { normalizeEmail, normalizeName, generateNextUserID } from "@shared/utils";
 
@@ -262,6 +363,75 @@ export interface IStorage {
   createAssetSoftwareLink(link: InsertAssetSoftwareLink): Promise<AssetSoftwareLink>;
   getSoftwareLinkedDevices(softwareAssetId: string, tenantId: string): Promise<Array<Asset & { linkedAt?: Date | null }>>;
   deleteAssetSoftwareLink(id: string, tenantId: string): Promise<boolean>;
+  getAssetByTag(assetTag: string, tenantId: string): Promise<Asset | undefined>;
+  getSoftwareAssetByName(name: string, tenantId: string): Promise<Asset | undefined>;
+  getAssetsBySerialNumber(serialNumber: string, tenantId: string): Promise<Asset[]>;
+  allocateAssetTagNumbers(tenantId: string, count: number): Promise<{ prefix: string; padding: number; first: number }>;
+  updateAssetTagSettings(tenantId: string, settings: AssetTagSettings): Promise<Tenant | undefined>;
+  updateCoverageAlertSettings(tenantId: string, settings: CoverageAlertSettings): Promise<Tenant | undefined>;
+  getSoftwareInstallations(tenantId: string): Promise<Array<{ deviceAssetId: string; softwareAssetId: string }>>;
+  setSoftwareAssetProduct(assetId: string, tenantId: string, productId: string | null): Promise<void>;
+
+  // Asset Lifecycle & Custody
+  getAssetCustodyRecords(assetId: string, tenantId: string, range?: { from?: Date; to?: Date }): Promise<AssetCustodyRecord[]>;
+  getOpenAssetCustodyRecord(assetId: string, tenantId: string): Promise<AssetCustodyRecord | undefined>;
+  getOverdueAssetCustodyRecords(now: Date, tenantId?: string): Promise<AssetCustodyRecord[]>;
+  createAssetCustodyRecord(record: InsertAssetCustodyRecord): Promise<AssetCustodyRecord>;
+  updateAssetCustodyRecord(id: string, tenantId: string, updates: Partial<InsertAssetCustodyRecord>): Promise<AssetCustodyRecord | undefined>;
+  getAssetLifecycleEvents(assetId: string, tenantId: string): Promise<AssetLifecycleEvent[]>;
+  createAssetLifecycleEvent(event: InsertAssetLifecycleEvent): Promise<AssetLifecycleEvent>;
+  getAssetDisposalDates(tenantId: string): Promise<Array<{ assetId: string; disposedAt: Date }>>;
+
+  // Software Catalog & Normalization
+  getSoftwareProducts(tenantId: string): Promise<SoftwareProduct[]>;
+  getSoftwareProduct(id: string, tenantId: string): Promise<SoftwareProduct | undefined>;
+  createSoftwareProduct(product: InsertSoftwareProduct): Promise<SoftwareProduct>;
+  updateSoftwareProduct(id: string, tenantId: string, updates: Partial<InsertSoftwareProduct>): Promise<SoftwareProduct | undefined>;
+  deleteSoftwareProduct(id: string, tenantId: string): Promise<boolean>;
+  getSoftwareNormalizationRules(tenantId: string): Promise<SoftwareNormalizationRule[]>;
+  getSoftwareNormalizationRule(id: string, tenantId: string): Promise<SoftwareNormalizationRule | undefined>;
+  createSoftwareNormalizationRule(rule: InsertSoftwareNormalizationRule): Promise<SoftwareNormalizationRule>;
+  updateSoftwareNormalizationRule(id: string, tenantId: string, updates: Partial<InsertSoftwareNormalizationRule>): Promise<SoftwareNormalizationRule | undefined>;
+  deleteSoftwareNormalizationRule(id: string, tenantId: string): Promise<boolean>;
+
+  // Depreciation Schedules
+  getDepreciationSchedules(tenantId: string): Promise<DepreciationSchedule[]>;
+  getDepreciationSchedule(id: string, tenantId: string): Promise<DepreciationSchedule | undefined>;
+  createDepreciationSchedule(schedule: InsertDepreciationSchedule): Promise<DepreciationSchedule>;
+  updateDepreciationSchedule(id: string, tenantId: string, updates: Partial<InsertDepreciationSchedule>): Promise<DepreciationSchedule | undefined>;
+  deleteDepreciationSchedule(id: string, tenantId: string): Promise<boolean>;
+
+  // Inventory Audits
+  getInventoryAudits(tenantId: string, status?: string): Promise<InventoryAudit[]>;
+  getInventoryAudit(id: string, tenantId: string): Promise<InventoryAudit | undefined>;
+  createInventoryAudit(audit: InsertInventoryAudit, expectedItems: Omit<InsertInventoryAuditItem, 'auditId'>[]): Promise<InventoryAudit>;
+  updateInventoryAudit(id: string, tenantId: string, updates: Partial<InsertInventoryAudit>): Promise<InventoryAudit | undefined>;
+  getInventoryAuditItems(auditId: string, tenantId: string): Promise<InventoryAuditItem[]>;
+  getInventoryAuditItem(id: string, tenantId: string): Promise<InventoryAuditItem | undefined>;
+  createInventoryAuditItem(item: InsertInventoryAuditItem): Promise<InventoryAuditItem>;
+  updateInventoryAuditItem(id: string, tenantId: string, updates: Partial<InsertInventoryAuditItem>): Promise<InventoryAuditItem | undefined>;
+  getInventoryAuditItemCounts(tenantId: string): Promise<Array<{ auditId: string; result: string; count: number }>>;
+
+  // CMDB - Business Services & Configuration Item Relationships
+  getBusinessServices(tenantId: string): Promise<BusinessService[]>;
+  getBusinessService(id: string, tenantId: string): Promise<BusinessService | undefined>;
+  createBusinessService(service: InsertBusinessService): Promise<BusinessService>;
+  updateBusinessService(id: string, tenantId: string, updates: Partial<InsertBusinessService>): Promise<BusinessService | undefined>;
+  deleteBusinessService(id: string, tenantId: string): Promise<boolean>;
+  getCiRelationships(tenantId: string, node?: { type: string; id: string }): Promise<CiRelationship[]>;
+  getCiRelationship(id: string, tenantId: string): Promise<CiRelationship | undefined>;
+  createCiRelationship(relationship: InsertCiRelationship): Promise<CiRelationship>;
+  deleteCiRelationship(id: string, tenantId: string): Promise<boolean>;
+  deleteCiRelationshipsForNode(tenantId: string, type: string, id: string): Promise<number>;
+  getTenantAssetSoftwareLinks(tenantId: string): Promise<AssetSoftwareLink[]>;
+
+  // Warranty & AMC Coverage Alerts
+  getAssetsWithCoverageEnding(tenantId: string, from: Date, to: Date): Promise<Asset[]>;
+  getCoverageAlerts(tenantId: string, filters?: { status?: string; assetId?: string }): Promise<CoverageAlert[]>;
+  getCoverageAlert(id: string, tenantId: string): Promise<CoverageAlert | undefined>;
+  createCoverageAlerts(alerts: InsertCoverageAlert[]): Promise<CoverageAlert[]>;
+  updateCoverageAlert(id: string, tenantId: string, updates: Partial<InsertCoverageAlert>): Promise<CoverageAlert | undefined>;
+  resolveCoverageAlerts(tenantId: string, assetIds: string[], coverageType: string, resolvedAt: Date): Promise<number>;
 
   // Software Licenses
   getAllSoftwareLicenses(tenantId: string): Promise<SoftwareLicense[]>;
@@ -318,6 +488,15 @@ export interface IStorage {
   logTicketActivity(activity: InsertTicketActivity): Promise<TicketActivity>;
   getTicketActivities(ticketId: string, tenantId: string): Promise<TicketActivity[]>;
 
+  // Ticket SLA Policies
+  getTicketSlaPolicies(tenantId: string): Promise<TicketSlaPolicy[]>;
+  getTicketSlaPolicy(id: string, tenantId: string): Promise<TicketSlaPolicy | undefined>;
+  createTicketSlaPolicy(policy: InsertTicketSlaPolicy): Promise<TicketSlaPolicy>;
+  updateTicketSlaPolicy(id: string, tenantId: string, updates: Partial<InsertTicketSlaPolicy>): Promise<TicketSlaPolicy | undefined>;
+  deleteTicketSlaPolicy(id: string, tenantId: string): Promise<boolean>;
+  updateTicketSla(id: string, tenantId: string, updates: Partial<Ticket>): Promise<Ticket | undefined>;
+  getSlaTrackedTickets(): Promise<Ticket[]>;
+
   // Sites
   getSites(tenantId: string): Promise<Site[]>;
   getSite(id: string, tenantId: string): Promise<Site | undefined>;
@@ -333,6 +512,36 @@ export interface IStorage {
   updateEnrollmentToken(id: string, tenantId: string, updates: Partial<InsertEnrollmentToken>): Promise<EnrollmentToken | undefined>;
   deleteEnrollmentToken(id: string, tenantId: string): Promise<boolean>;
   incrementEnrollmentTokenUsage(token: string): Promise<void>;
+
+  // Agent Devices & Commands
+  createAgentDevice(device: InsertAgentDevice): Promise<AgentDevice>;
+  getAgentDevice(id: string, tenantId: string): Promise<AgentDevice | undefined>;
+  getAgentDeviceByCredentialHash(credentialHash: string): Promise<AgentDevice | undefined>;
+  getAgentDevices(tenantId: string): Promise<AgentDevice[]>;
+  updateAgentDevice(id: string, tenantId: string, updates: Partial<InsertAgentDevice>): Promise<AgentDevice | undefined>;
+  revokeAgentDevicesForAsset(assetId: string, tenantId: string): Promise<number>;
+  revokeAgentDevice(id: string, tenantId: string): Promise<AgentDevice | undefined>;
+  createAgentCommand(command: InsertAgentCommand): Promise<AgentCommand>;
+  getAgentCommand(id: string, tenantId: string): Promise<AgentCommand | undefined>;
+  getAgentCommands(agentDeviceId: string, tenantId: string): Promise<AgentCommand[]>;
+  claimPendingAgentCommands(agentDeviceId: string, tenantId: string, redeliverBefore: Date, maxDeliveries: number): Promise<AgentCommand[]>;
+  updateAgentCommand(id: string, tenantId: string, updates: Partial<AgentCommand>): Promise<AgentCommand | undefined>;
+
+  // Network Discovery
+  getCredentialProfiles(tenantId: string): Promise<CredentialProfile[]>;
+  getCredentialProfile(id: string, tenantId: string): Promise<CredentialProfile | undefined>;
+  createCredentialProfile(profile: InsertCredentialProfile): Promise<CredentialProfile>;
+  updateCredentialProfile(id: string, tenantId: string, updates: Partial<InsertCredentialProfile>): Promise<CredentialProfile | undefined>;
+  deleteCredentialProfile(id: string, tenantId: string): Promise<boolean>;
+  getDiscoveryJobs(tenantId: string, limit?: number): Promise<DiscoveryJob[]>;
+  getDiscoveryJob(idOrJobId: string, tenantId: string): Promise<DiscoveryJob | undefined>;
+  createDiscoveryJob(job: InsertDiscoveryJob): Promise<DiscoveryJob>;
+  updateDiscoveryJob(id: string, tenantId: string, updates: Partial<InsertDiscoveryJob>): Promise<DiscoveryJob | undefined>;
+  getDiscoveredDevices(jobId: string, tenantId: string): Promise<DiscoveredDevice[]>;
+  getDiscoveredDevicesByIds(ids: string[], tenantId: string): Promise<DiscoveredDevice[]>;
+  createDiscoveredDevice(device: InsertDiscoveredDevice): Promise<DiscoveredDevice>;
+  updateDiscoveredDevice(id: string, tenantId: string, updates: Partial<InsertDiscoveredDevice>): Promise<DiscoveredDevice | undefined>;
+  findAssetMatchForDevice(tenantId: string, match: { serialNumber?: string | null; macAddress?: string | null; ipAddress?: string | null }): Promise<{ asset: Asset; field: "serial" | "mac" | "ip" } | undefined>;
   
   // Dashboard Metrics
   getDashboardMetrics(tenantId: string): Promise<any>;
@@ -423,6 +632,7 @@ export interface IStorage {
   // Policy Executions (Phase 4)
   getPolicyExecutions(tenantId: string, filters?: {policyId?: string; status?: string}): Promise<PolicyExecution[]>;
   getPolicyExecution(id: string, tenantId: string): Promise<PolicyExecution | undefined>;
+  getPolicyExecutionsSince(tenantId: string, since: Date): Promise<PolicyExecution[]>;
   createPolicyExecution(execution: InsertPolicyExecution): Promise<PolicyExecution>;
   updatePolicyExecution(id: string, tenantId: string, updates: Partial<InsertPolicyExecution>): Promise<PolicyExecution | undefined>;
 
@@ -431,6 +641,17 @@ export interface IStorage {
   getPolicyTemplate(id: string): Promise<PolicyTemplate | undefined>;
   incrementTemplatePopularity(id: string): Promise<void>;
 
+  // Event Outbox (durable EventSystem delivery)
+  createOutboxEvent(event: InsertEventOutboxRecord, consumers: string[], maxAttempts: number): Promise<{ event: EventOutboxRecord; deliveries: EventDelivery[] }>;
+  getOutboxEvent(id: string, tenantId: string): Promise<EventOutboxRecord | undefined>;
+  getOutboxEventsByIds(ids: string[]): Promise<EventOutboxRecord[]>;
+  claimDueEventDeliveries(limit: number, staleBefore: Date): Promise<EventDelivery[]>;
+  getEventDeliveries(tenantId: string, filters?: {status?: string; consumer?: string; eventName?: string; eventId?: string; limit?: number}): Promise<EventDelivery[]>;
+  getEventDelivery(id: string, tenantId: string): Promise<EventDelivery | undefined>;
+  updateEventDelivery(id: string, tenantId: string, updates: Partial<InsertEventDelivery>): Promise<EventDelivery | undefined>;
+  replayEventDeliveries(tenantId: string, filters: {ids?: string[]; consumer?: string; eventName?: string}): Promise<EventDelivery[]>;
+  getEventDeliveryStats(tenantId: string): Promise<Array<{ consumer: string; status: string; count: number }>>;
+
   // Access Review Campaigns (Phase 5)
   getAccessReviewCampaigns(tenantId: string, filters?: {status?: string}): Promise<AccessReviewCampaign[]>;
   getAccessReviewCampaign(id: string, tenantId: string): Promise<AccessReviewCampaign | undefined>;
@@ -449,6 +670,12 @@ export interface IStorage {
   getAccessReviewDecisions(campaignId: string): Promise<AccessReviewDecision[]>;
   createAccessReviewDecision(decision: InsertAccessReviewDecision): Promise<AccessReviewDecision>;
 
+  // Access Review Delegations
+  getAccessReviewDelegations(tenantId: string, filters?: {delegatorId?: string; activeAt?: Date}): Promise<AccessReviewDelegation[]>;
+  getAccessReviewDelegation(id: string, tenantId: string): Promise<AccessReviewDelegation | undefined>;
+  createAccessReviewDelegation(delegation: InsertAccessReviewDelegation): Promise<AccessReviewDelegation>;
+  updateAccessReviewDelegation(id: string, tenantId: string, updates: Partial<InsertAccessReviewDelegation>): Promise<AccessReviewDelegation | undefined>;
+
   // Role Templates (Phase 5)
   getRoleTemplates(tenantId: string, filters?: {department?: string}): Promise<RoleTemplate[]>;
   getRoleTemplate(id: string, tenantId: string): Promise<RoleTemplate | undefined>;
@@ -492,6 +719,10 @@ export interface IStorage {
   createAccessRequest(request: InsertAccessRequest): Promise<AccessRequest>;
   updateAccessRequest(id: string, tenantId: string, updates: Partial<InsertAccessRequest>): Promise<AccessRequest | undefined>;
   deleteAccessRequest(id: string, tenantId: string): Promise<boolean>;
+  getAccessCatalogItems(tenantId: string, filters?: {itemType?: string; isActive?: boolean}): Promise<AccessCatalogItem[]>;
+  getAccessCatalogItem(id: string, tenantId: string): Promise<AccessCatalogItem | undefined>;
+  createAccessCatalogItem(item: InsertAccessCatalogItem): Promise<AccessCatalogItem>;
+  updateAccessCatalogItem(id: string, tenantId: string, updates: Partial<InsertAccessCatalogItem>): Promise<AccessCatalogItem | undefined>;
 
   // JIT Access Sessions (Phase 6.2)
   getJitAccessSessions(tenantId: string, filters?: {userId?: string; appId?: string; status?: string}): Promise<JitAccessSession[]>;
@@ -502,6 +733,74 @@ export interface IStorage {
   updateJitAccessSession(id: string, tenantId: string, updates: Partial<InsertJitAccessSession>): Promise<JitAccessSession | undefined>;
   deleteJitAccessSession(id: string, tenantId: string): Promise<boolean>;
 
+  // Break-glass Access (Phase 6.2)
+  getBreakGlassAccounts(tenantId: string, filters?: {isActive?: boolean}): Promise<BreakGlassAccount[]>;
+  getBreakGlassAccount(id: string, tenantId: string): Promise<BreakGlassAccount | undefined>;
+  createBreakGlassAccount(account: InsertBreakGlassAccount): Promise<BreakGlassAccount>;
+  updateBreakGlassAccount(id: string, tenantId: string, updates: Partial<InsertBreakGlassAccount>): Promise<BreakGlassAccount | undefined>;
+  getBreakGlassSessions(tenantId: string, filters?: {accountId?: string; status?: string; reviewStatus?: string}): Promise<BreakGlassSession[]>;
+  getBreakGlassSession(id: string, tenantId: string): Promise<BreakGlassSession | undefined>;
+  getExpiredBreakGlassSessions(tenantId: string): Promise<BreakGlassSession[]>;
+  createBreakGlassSession(session: InsertBreakGlassSession): Promise<BreakGlassSession>;
+  updateBreakGlassSession(id: string, tenantId: string, updates: Partial<InsertBreakGlassSession>): Promise<BreakGlassSession | undefined>;
+
+  // MFA Factors & Challenges (Phase 6.2)
+  getUserMfaFactors(tenantId: string, userId: string, filters?: {type?: string; status?: string}): Promise<UserMfaFactor[]>;
+  getUserMfaFactor(id: string, tenantId: string): Promise<UserMfaFactor | undefined>;
+  getMfaFactorByCredentialId(credentialId: string): Promise<UserMfaFactor | undefined>;
+  createUserMfaFactor(factor: InsertUserMfaFactor): Promise<UserMfaFactor>;
+  updateUserMfaFactor(id: string, tenantId: string, updates: Partial<InsertUserMfaFactor>): Promise<UserMfaFactor | undefined>;
+  advanceMfaFactorTotpStep(id: string, tenantId: string, step: number): Promise<UserMfaFactor | undefined>;
+  deleteUserMfaFactor(id: string, tenantId: string): Promise<boolean>;
+  createMfaChallenge(challenge: InsertMfaChallenge): Promise<MfaChallenge>;
+  getMfaChallenge(id: string, tenantId: string): Promise<MfaChallenge | undefined>;
+  consumeMfaChallenge(id: string, tenantId: string): Promise<MfaChallenge | undefined>;
+  recordMfaChallengeFailure(id: string, tenantId: string): Promise<MfaChallenge | undefined>;
+  countRecentMfaFailures(tenantId: string, userId: string, since: Date): Promise<number>;
+  replaceMfaRecoveryCodes(tenantId: string, userId: string, codeHashes: string[]): Promise<void>;
+  countUnusedMfaRecoveryCodes(tenantId: string, userId: string): Promise<number>;
+  useMfaRecoveryCode(tenantId: string, userId: string, codeHash: string): Promise<MfaRecoveryCode | undefined>;
+  deleteMfaRecoveryCodes(tenantId: string, userId: string): Promise<void>;
+
+  // SSO Connections
+  getSsoConnections(tenantId: string): Promise<SsoConnection[]>;
+  getSsoConnection(id: string, tenantId: string): Promise<SsoConnection | undefined>;
+  getSsoConnectionForLogin(id: string): Promise<SsoConnection | undefined>;
+  getSsoConnectionsByDomain(domain: string, filters?: {enabled?: boolean}): Promise<SsoConnection[]>;
+  createSsoConnection(connection: InsertSsoConnection): Promise<SsoConnection>;
+  updateSsoConnection(id: string, tenantId: string, updates: Partial<InsertSsoConnection> & { lastLoginAt?: Date }): Promise<SsoConnection | undefined>;
+  deleteSsoConnection(id: string, tenantId: string): Promise<boolean>;
+  getUserSsoIdentity(connectionId: string, subject: string): Promise<UserSsoIdentity | undefined>;
+  createUserSsoIdentity(identity: InsertUserSsoIdentity): Promise<UserSsoIdentity>;
+  updateUserSsoIdentity(id: string, updates: Partial<InsertUserSsoIdentity>): Promise<UserSsoIdentity | undefined>;
+  createSsoLoginRequest(request: InsertSsoLoginRequest): Promise<SsoLoginRequest>;
+  getSsoLoginRequest(id: string): Promise<SsoLoginRequest | undefined>;
+  updateSsoLoginRequest(id: string, updates: Partial<InsertSsoLoginRequest>): Promise<SsoLoginRequest | undefined>;
+  getSsoLoginRequestByState(state: string): Promise<SsoLoginRequest | undefined>;
+  completeSsoLoginRequest(id: string, userId: string, loginCodeHash: string): Promise<SsoLoginRequest | undefined>;
+  consumeSsoLoginCode(loginCodeHash: string): Promise<SsoLoginRequest | undefined>;
+  getSsoDomains(tenantId: string): Promise<SsoDomain[]>;
+  getSsoDomain(id: string, tenantId: string): Promise<SsoDomain | undefined>;
+  getVerifiedSsoDomain(domain: string): Promise<SsoDomain | undefined>;
+  createSsoDomain(domain: InsertSsoDomain): Promise<SsoDomain>;
+  updateSsoDomain(id: string, tenantId: string, updates: Partial<InsertSsoDomain>): Promise<SsoDomain | undefined>;
+  deleteSsoDomain(id: string, tenantId: string): Promise<boolean>;
+
+  // SCIM Provisioning
+  getScimTokens(tenantId: string): Promise<ScimToken[]>;
+  getScimTokenByHash(tokenHash: string): Promise<ScimToken | undefined>;
+  createScimToken(token: InsertScimToken): Promise<ScimToken>;
+  revokeScimToken(id: string, tenantId: string): Promise<ScimToken | undefined>;
+  touchScimToken(id: string): Promise<void>;
+  getScimGroups(tenantId: string): Promise<ScimGroup[]>;
+  getScimGroup(id: string, tenantId: string): Promise<ScimGroup | undefined>;
+  createScimGroup(group: InsertScimGroup): Promise<ScimGroup>;
+  updateScimGroup(id: string, tenantId: string, updates: Partial<InsertScimGroup>): Promise<ScimGroup | undefined>;
+  deleteScimGroup(id: string, tenantId: string): Promise<boolean>;
+  getScimGroupMembers(tenantId: string, groupIds?: string[]): Promise<ScimGroupMember[]>;
+  getScimGroupMembershipsForUser(userId: string, tenantId: string): Promise<ScimGroupMember[]>;
+  replaceScimGroupMembers(groupId: string, tenantId: string, userIds: string[]): Promise<void>;
+
   // Segregation of Duties Rules (Phase 6.3)
   getSodRules(tenantId: string, filters?: {isActive?: boolean; severity?: string}): Promise<SodRule[]>;
   getSodRule(id: string, tenantId: string): Promise<SodRule | undefined>;
@@ -517,6 +816,13 @@ export interface IStorage {
   updateSodViolation(id: string, tenantId: string, updates: Partial<InsertSodViolation>): Promise<SodViolation | undefined>;
   deleteSodViolation(id: string, tenantId: string): Promise<boolean>;
 
+  // Entitlement Catalog (SoD)
+  getAppEntitlements(tenantId: string, filters?: {appId?: string; entitlementType?: string}): Promise<AppEntitlement[]>;
+  getAppEntitlement(id: string, tenantId: string): Promise<AppEntitlement | undefined>;
+  createAppEntitlements(entitlements: InsertAppEntitlement[]): Promise<AppEntitlement[]>;
+  markAppEntitlementsSeen(tenantId: string, ids: string[], seenAt: Date): Promise<void>;
+  deleteAppEntitlement(id: string, tenantId: string): Promise<boolean>;
+
   // Review Suggestions (Phase 6.4)
   getReviewSuggestions(campaignId: string): Promise<ReviewSuggestion[]>;
   getReviewSuggestion(id: string): Promise<ReviewSuggestion | undefined>;
@@ -621,6 +927,15 @@ export interface IStorage {
   getCASBEvents(tenantId: string, filters?: any): Promise<any[]>;
   createCASBEvent(data: any): Promise<any>;
   updateCASBEvent(id: string, tenantId: string, updates: any): Promise<any>;
+
+  // SIEM Integration Methods
+  getSIEMIntegrations(tenantId: string): Promise<any[]>;
+  createSIEMIntegration(data: any): Promise<any>;
+  updateSIEMIntegration(id: string, tenantId: string, updates: any): Promise<any>;
+  deleteSIEMIntegration(id: string, tenantId: string): Promise<boolean>;
+  getSIEMEventLogs(tenantId: string, filters?: {daysBack?: number}): Promise<any[]>;
+  createSIEMEventLog(data: any): Promise<any>;
+  getSIEMIntegrationIdsSentEvent(tenantId: string, eventId: string): Promise<string[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -863,6 +1178,15 @@ export class DatabaseStorage implements IStorage {
         })
         .where(and(eq(assets.tenantId, tenantId), eq(assets.assignedUserId, userId)));
 
+      await tx
+        .update(assetCustodyRecords)
+        .set({ checkedInAt: new Date(), checkInNotes: "Custodian removed from the organization" })
+        .where(and(
+          eq(assetCustodyRecords.tenantId, tenantId),
+          eq(assetCustodyRecords.userId, userId),
+          isNull(assetCustodyRecords.checkedInAt)
+        ));
+
       await tx
         .update(tickets)
         .set({
@@ -1078,6 +1402,7 @@ export class DatabaseStorage implements IStorage {
         dateFormat: settings.dateFormat,
         autoRecommendations: settings.autoRecommendations,
         dataRetentionDays: settings.dataRetentionDays,
+        requireMFA: settings.requireMFA,
         updatedAt: new Date()
       })
       .where(eq(tenants.id, tenantId))
@@ -1147,6 +1472,7 @@ export class DatabaseStorage implements IStorage {
       conditions.push(
         sql`(
           ${assets.name} ILIKE ${searchTerm} OR
+          ${assets.assetTag} ILIKE ${searchTerm} OR
           ${assets.serialNumber} ILIKE ${searchTerm} OR
           ${assets.manufacturer} ILIKE ${searchTerm} OR
           ${assets.model} ILIKE ${searchTerm} OR
@@ -1296,6 +1622,492 @@ export class DatabaseStorage implements IStorage {
     return deleted.length > 0;
   }
 
+  async getAssetByTag(assetTag: string, tenantId: string): Promise<Asset | undefined> {
+    const [asset] = await db
+      .select()
+      .from(assets)
+      .where(and(eq(assets.tenantId, tenantId), sql`UPPER(${assets.assetTag}) = UPPER(${assetTag})`))
+      .limit(1);
+    return asset || undefined;
+  }
+
+  async getAssetsBySerialNumber(serialNumber: string, tenantId: string): Promise<Asset[]> {
+    return await db
+      .select()
+      .from(assets)
+      .where(and(eq(assets.tenantId, tenantId), sql`UPPER(${assets.serialNumber}) = UPPER(${serialNumber})`));
+  }
+
+  /**
+   * Reserve a block of tag numbers; the counter moves atomically so concurrent callers never share a number
+   */
+  async allocateAssetTagNumbers(tenantId: string, count: number): Promise<{ prefix: string; padding: number; first: number }> {
+    const [tenant] = await db
+      .update(tenants)
+      .set({ assetTagNextNumber: sql`${tenants.assetTagNextNumber} + ${count}` })
+      .where(eq(tenants.id, tenantId))
+      .returning({
+        prefix: tenants.assetTagPrefix,
+        padding: tenants.assetTagPadding,
+        next: tenants.assetTagNextNumber,
+      });
+    if (!tenant) {
+      throw new Error(`Tenant ${tenantId} not found`);
+    }
+    return { prefix: tenant.prefix, padding: tenant.padding, first: tenant.next - count };
+  }
+
+  async updateAssetTagSettings(tenantId: string, settings: AssetTagSettings): Promise<Tenant | undefined> {
+    const [updatedTenant] = await db
+      .update(tenants)
+      .set({
+        assetTagPrefix: settings.prefix,
+        assetTagPadding: settings.padding,
+        ...(settings.nextNumber !== undefined && { assetTagNextNumber: settings.nextNumber }),
+        updatedAt: new Date(),
+      })
+      .where(eq(tenants.id, tenantId))
+      .returning();
+    return updatedTenant || undefined;
+  }
+
+  async updateCoverageAlertSettings(tenantId: string, settings: CoverageAlertSettings): Promise<Tenant | undefined> {
+    const [updatedTenant] = await db
+      .update(tenants)
+      .set({
+        coverageAlertsEnabled: settings.enabled,
+        coverageAlertDays: settings.leadDays,
+        updatedAt: new Date(),
+      })
+      .where(eq(tenants.id, tenantId))
+      .returning();
+    return updatedTenant || undefined;
+  }
+
+  async getSoftwareInstallations(tenantId: string): Promise<Array<{ deviceAssetId: string; softwareAssetId: string }>> {
+    return await db
+      .select({
+        deviceAssetId: assetSoftwareLinks.assetId,
+        softwareAssetId: assetSoftwareLinks.softwareAssetId,
+      })
+      .from(assetSoftwareLinks)
+      .where(eq(assetSoftwareLinks.tenantId, tenantId));
+  }
+
+  async setSoftwareAssetProduct(assetId: string, tenantId: string, productId: string | null): Promise<void> {
+    await db
+      .update(assets)
+      .set({ softwareProductId: productId })
+      .where(and(eq(assets.id, assetId), eq(assets.tenantId, tenantId)));
+  }
+
+  // Asset Lifecycle & Custody
+  async getAssetCustodyRecords(assetId: string, tenantId: string, range?: { from?: Date; to?: Date }): Promise<AssetCustodyRecord[]> {
+    const conditions = [eq(assetCustodyRecords.assetId, assetId), eq(assetCustodyRecords.tenantId, tenantId)];
+    // Periods overlapping the range: started before it ends, and still open or returned after it starts
+    if (range?.to) {
+      conditions.push(lte(assetCustodyRecords.checkedOutAt, range.to));
+    }
+    if (range?.from) {
+      conditions.push(or(isNull(assetCustodyRecords.checkedInAt), gte(assetCustodyRecords.checkedInAt, range.from))!);
+    }
+    return await db.select().from(assetCustodyRecords)
+      .where(and(...conditions))
+      .orderBy(desc(assetCustodyRecords.checkedOutAt));
+  }
+
+  async getOpenAssetCustodyRecord(assetId: string, tenantId: string): Promise<AssetCustodyRecord | undefined> {
+    const [record] = await db.select().from(assetCustodyRecords)
+      .where(and(
+        eq(assetCustodyRecords.assetId, assetId),
+        eq(assetCustodyRecords.tenantId, tenantId),
+        isNull(assetCustodyRecords.checkedInAt)
+      ))
+      .orderBy(desc(assetCustodyRecords.checkedOutAt))
+      .limit(1);
+    return record;
+  }
+
+  async getOverdueAssetCustodyRecords(now: Date, tenantId?: string): Promise<AssetCustodyRecord[]> {
+    const conditions = [
+      isNull(assetCustodyRecords.checkedInAt),
+      isNotNull(assetCustodyRecords.expectedReturnAt),
+      lt(assetCustodyRecords.expectedReturnAt, now),
+    ];
+    if (tenantId) {
+      conditions.push(eq(assetCustodyRecords.tenantId, tenantId));
+    }
+    return await db.select().from(assetCustodyRecords)
+      .where(and(...conditions))
+      .orderBy(assetCustodyRecords.expectedReturnAt);
+  }
+
+  async createAssetCustodyRecord(record: InsertAssetCustodyRecord): Promise<AssetCustodyRecord> {
+    const [created] = await db.insert(assetCustodyRecords).values(record).returning();
+    return created;
+  }
+
+  async updateAssetCustodyRecord(id: string, tenantId: string, updates: Partial<InsertAssetCustodyRecord>): Promise<AssetCustodyRecord | undefined> {
+    const [updated] = await db.update(assetCustodyRecords)
+      .set(updates)
+      .where(and(eq(assetCustodyRecords.id, id), eq(assetCustodyRecords.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async getAssetLifecycleEvents(assetId: string, tenantId: string): Promise<AssetLifecycleEvent[]> {
+    return await db.select().from(assetLifecycleEvents)
+      .where(and(eq(assetLifecycleEvents.assetId, assetId), eq(assetLifecycleEvents.tenantId, tenantId)))
+      .orderBy(desc(assetLifecycleEvents.createdAt));
+  }
+
+  async createAssetLifecycleEvent(event: InsertAssetLifecycleEvent): Promise<AssetLifecycleEvent> {
+    const [created] = await db.insert(assetLifecycleEvents).values(event).returning();
+    return created;
+  }
+
+  async getAssetDisposalDates(tenantId: string): Promise<Array<{ assetId: string; disposedAt: Date }>> {
+    const rows = await db
+      .select({
+        assetId: assetLifecycleEvents.assetId,
+        disposedAt: sql<string>`max(${assetLifecycleEvents.createdAt})`,
+      })
+      .from(assetLifecycleEvents)
+      .where(and(eq(assetLifecycleEvents.tenantId, tenantId), eq(assetLifecycleEvents.toStatus, "disposed")))
+      .groupBy(assetLifecycleEvents.assetId);
+    return rows.map(row => ({ assetId: row.assetId, disposedAt: new Date(row.disposedAt) }));
+  }
+
+  // Depreciation Schedules
+  async getDepreciationSchedules(tenantId: string): Promise<DepreciationSchedule[]> {
+    return await db.select().from(depreciationSchedules)
+      .where(eq(depreciationSchedules.tenantId, tenantId))
+      .orderBy(depreciationSchedules.category);
+  }
+
+  async getDepreciationSchedule(id: string, tenantId: string): Promise<DepreciationSchedule | undefined> {
+    const [schedule] = await db.select().from(depreciationSchedules)
+      .where(and(eq(depreciationSchedules.id, id), eq(depreciationSchedules.tenantId, tenantId)));
+    return schedule;
+  }
+
+  async createDepreciationSchedule(schedule: InsertDepreciationSchedule): Promise<DepreciationSchedule> {
+    const [created] = await db.insert(depreciationSchedules).values(schedule).returning();
+    return created;
+  }
+
+  async updateDepreciationSchedule(id: string, tenantId: string, updates: Partial<InsertDepreciationSchedule>): Promise<DepreciationSchedule | undefined> {
+    const [updated] = await db.update(depreciationSchedules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(depreciationSchedules.id, id), eq(depreciationSchedules.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteDepreciationSchedule(id: string, tenantId: string): Promise<boolean> {
+    const result = await db.delete(depreciationSchedules)
+      .where(and(eq(depreciationSchedules.id, id), eq(depreciationSchedules.tenantId, tenantId)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Inventory Audits
+  async getInventoryAudits(tenantId: string, status?: string): Promise<InventoryAudit[]> {
+    const conditions = [eq(inventoryAudits.tenantId, tenantId)];
+    if (status) {
+      conditions.push(eq(inventoryAudits.status, status));
+    }
+    return await db.select().from(inventoryAudits)
+      .where(and(...conditions))
+      .orderBy(desc(inventoryAudits.createdAt));
+  }
+
+  async getInventoryAudit(id: string, tenantId: string): Promise<InventoryAudit | undefined> {
+    const [audit] = await db.select().from(inventoryAudits)
+      .where(and(eq(inventoryAudits.id, id), eq(inventoryAudits.tenantId, tenantId)));
+    return audit;
+  }
+
+  /**
+   * Create an audit together with its snapshot of expected assets
+   */
+  async createInventoryAudit(
+    audit: InsertInventoryAudit,
+    expectedItems: Omit<InsertInventoryAuditItem, 'auditId'>[]
+  ): Promise<InventoryAudit> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(inventoryAudits).values(audit).returning();
+      if (expectedItems.length > 0) {
+        await tx.insert(inventoryAuditItems).values(expectedItems.map(item => ({ ...item, auditId: created.id })));
+      }
+      return created;
+    });
+  }
+
+  async updateInventoryAudit(id: string, tenantId: string, updates: Partial<InsertInventoryAudit>): Promise<InventoryAudit | undefined> {
+    const [updated] = await db.update(inventoryAudits)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(inventoryAudits.id, id), eq(inventoryAudits.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async getInventoryAuditItems(auditId: string, tenantId: string): Promise<InventoryAuditItem[]> {
+    return await db.select().from(inventoryAuditItems)
+      .where(and(eq(inventoryAuditItems.auditId, auditId), eq(inventoryAuditItems.tenantId, tenantId)))
+      .orderBy(inventoryAuditItems.assetName);
+  }
+
+  async getInventoryAuditItem(id: string, tenantId: string): Promise<InventoryAuditItem | undefined> {
+    const [item] = await db.select().from(inventoryAuditItems)
+      .where(and(eq(inventoryAuditItems.id, id), eq(inventoryAuditItems.tenantId, tenantId)));
+    return item;
+  }
+
+  async createInventoryAuditItem(item: InsertInventoryAuditItem): Promise<InventoryAuditItem> {
+    const [created] = await db.insert(inventoryAuditItems).values(item).returning();
+    return created;
+  }
+
+  async updateInventoryAuditItem(id: string, tenantId: string, updates: Partial<InsertInventoryAuditItem>): Promise<InventoryAuditItem | undefined> {
+    const [updated] = await db.update(inventoryAuditItems)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(inventoryAuditItems.id, id), eq(inventoryAuditItems.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async getInventoryAuditItemCounts(tenantId: string): Promise<Array<{ auditId: string; result: string; count: number }>> {
+    return await db
+      .select({
+        auditId: inventoryAuditItems.auditId,
+        result: inventoryAuditItems.result,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(inventoryAuditItems)
+      .where(eq(inventoryAuditItems.tenantId, tenantId))
+      .groupBy(inventoryAuditItems.auditId, inventoryAuditItems.result);
+  }
+
+  // CMDB - Business Services & Configuration Item Relationships
+  async getBusinessServices(tenantId: string): Promise<BusinessService[]> {
+    return await db.select().from(businessServices)
+      .where(eq(businessServices.tenantId, tenantId))
+      .orderBy(businessServices.name);
+  }
+
+  async getBusinessService(id: string, tenantId: string): Promise<BusinessService | undefined> {
+    const [service] = await db.select().from(businessServices)
+      .where(and(eq(businessServices.id, id), eq(businessServices.tenantId, tenantId)));
+    return service;
+  }
+
+  async createBusinessService(service: InsertBusinessService): Promise<BusinessService> {
+    const [created] = await db.insert(businessServices).values(service).returning();
+    return created;
+  }
+
+  async updateBusinessService(id: string, tenantId: string, updates: Partial<InsertBusinessService>): Promise<BusinessService | undefined> {
+    const [updated] = await db.update(businessServices)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(businessServices.id, id), eq(businessServices.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteBusinessService(id: string, tenantId: string): Promise<boolean> {
+    const result = await db.delete(businessServices)
+      .where(and(eq(businessServices.id, id), eq(businessServices.tenantId, tenantId)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * All relationships in the tenant, or only those touching one configuration item
+   */
+  async getCiRelationships(tenantId: string, node?: { type: string; id: string }): Promise<CiRelationship[]> {
+    const conditions = [eq(ciRelationships.tenantId, tenantId)];
+    if (node) {
+      conditions.push(or(
+        and(eq(ciRelationships.sourceType, node.type), eq(ciRelationships.sourceId, node.id)),
+        and(eq(ciRelationships.targetType, node.type), eq(ciRelationships.targetId, node.id))
+      )!);
+    }
+    return await db.select().from(ciRelationships)
+      .where(and(...conditions))
+      .orderBy(ciRelationships.createdAt);
+  }
+
+  async getCiRelationship(id: string, tenantId: string): Promise<CiRelationship | undefined> {
+    const [relationship] = await db.select().from(ciRelationships)
+      .where(and(eq(ciRelationships.id, id), eq(ciRelationships.tenantId, tenantId)));
+    return relationship;
+  }
+
+  async createCiRelationship(relationship: InsertCiRelationship): Promise<CiRelationship> {
+    const [created] = await db.insert(ciRelationships).values(relationship).returning();
+    return created;
+  }
+
+  async deleteCiRelationship(id: string, tenantId: string): Promise<boolean> {
+    const result = await db.delete(ciRelationships)
+      .where(and(eq(ciRelationships.id, id), eq(ciRelationships.tenantId, tenantId)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async deleteCiRelationshipsForNode(tenantId: string, type: string, id: string): Promise<number> {
+    const result = await db.delete(ciRelationships)
+      .where(and(
+        eq(ciRelationships.tenantId, tenantId),
+        or(
+          and(eq(ciRelationships.sourceType, type), eq(ciRelationships.sourceId, id)),
+          and(eq(ciRelationships.targetType, type), eq(ciRelationships.targetId, id))
+        )
+      ));
+    return result.rowCount || 0;
+  }
+
+  async getTenantAssetSoftwareLinks(tenantId: string): Promise<AssetSoftwareLink[]> {
+    return await db.select().from(assetSoftwareLinks)
+      .where(eq(assetSoftwareLinks.tenantId, tenantId));
+  }
+
+  // Warranty & AMC Coverage Alerts
+  /**
+   * Assets whose warranty or AMC ends within [from, to]
+   */
+  async getAssetsWithCoverageEnding(tenantId: string, from: Date, to: Date): Promise<Asset[]> {
+    return await db.select().from(assets)
+      .where(and(
+        eq(assets.tenantId, tenantId),
+        or(
+          and(gte(assets.warrantyExpiry, from), lte(assets.warrantyExpiry, to)),
+          and(gte(assets.amcExpiry, from), lte(assets.amcExpiry, to))
+        )
+      ))
+      .orderBy(assets.name);
+  }
+
+  async getCoverageAlerts(tenantId: string, filters: { status?: string; assetId?: string } = {}): Promise<CoverageAlert[]> {
+    const conditions = [eq(coverageAlerts.tenantId, tenantId)];
+    if (filters.status) {
+      conditions.push(eq(coverageAlerts.status, filters.status));
+    }
+    if (filters.assetId) {
+      conditions.push(eq(coverageAlerts.assetId, filters.assetId));
+    }
+    return await db.select().from(coverageAlerts)
+      .where(and(...conditions))
+      .orderBy(coverageAlerts.expiresAt, coverageAlerts.leadDays);
+  }
+
+  async getCoverageAlert(id: string, tenantId: string): Promise<CoverageAlert | undefined> {
+    const [alert] = await db.select().from(coverageAlerts)
+      .where(and(eq(coverageAlerts.id, id), eq(coverageAlerts.tenantId, tenantId)));
+    return alert;
+  }
+
+  /**
+   * Insert alerts, skipping any already raised for the same asset, coverage, expiry and lead time.
+   * Returns only the newly raised alerts.
+   */
+  async createCoverageAlerts(alerts: InsertCoverageAlert[]): Promise<CoverageAlert[]> {
+    if (alerts.length === 0) return [];
+    return await db.insert(coverageAlerts).values(alerts).onConflictDoNothing().returning();
+  }
+
+  async updateCoverageAlert(id: string, tenantId: string, updates: Partial<InsertCoverageAlert>): Promise<CoverageAlert | undefined> {
+    const [updated] = await db.update(coverageAlerts)
+      .set(updates)
+      .where(and(eq(coverageAlerts.id, id), eq(coverageAlerts.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async resolveCoverageAlerts(tenantId: string, assetIds: string[], coverageType: string, resolvedAt: Date): Promise<number> {
+    if (assetIds.length === 0) return 0;
+    const result = await db.update(coverageAlerts)
+      .set({ status: "renewed", resolvedAt })
+      .where(and(
+        eq(coverageAlerts.tenantId, tenantId),
+        inArray(coverageAlerts.assetId, assetIds),
+        eq(coverageAlerts.coverageType, coverageType),
+        ne(coverageAlerts.status, "renewed")
+      ));
+    return result.rowCount || 0;
+  }
+
+  // Software Catalog & Normalization
+  async getSoftwareProducts(tenantId: string): Promise<SoftwareProduct[]> {
+    return await db.select().from(softwareProducts)
+      .where(eq(softwareProducts.tenantId, tenantId))
+      .orderBy(softwareProducts.name, softwareProducts.edition);
+  }
+
+  async getSoftwareProduct(id: string, tenantId: string): Promise<SoftwareProduct | undefined> {
+    const [product] = await db.select().from(softwareProducts)
+      .where(and(eq(softwareProducts.id, id), eq(softwareProducts.tenantId, tenantId)));
+    return product || undefined;
+  }
+
+  async createSoftwareProduct(product: InsertSoftwareProduct): Promise<SoftwareProduct> {
+    const [created] = await db.insert(softwareProducts).values(product).returning();
+    return created;
+  }
+
+  async updateSoftwareProduct(id: string, tenantId: string, updates: Partial<InsertSoftwareProduct>): Promise<SoftwareProduct | undefined> {
+    const [updated] = await db.update(softwareProducts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(softwareProducts.id, id), eq(softwareProducts.tenantId, tenantId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteSoftwareProduct(id: string, tenantId: string): Promise<boolean> {
+    // Detach installs, entitlements and rules that pointed at the product
+    await db.update(assets)
+      .set({ softwareProductId: null })
+      .where(and(eq(assets.softwareProductId, id), eq(assets.tenantId, tenantId)));
+    await db.update(softwareLicenses)
+      .set({ productId: null })
+      .where(and(eq(softwareLicenses.productId, id), eq(softwareLicenses.tenantId, tenantId)));
+    await db.delete(softwareNormalizationRules)
+      .where(and(eq(softwareNormalizationRules.productId, id), eq(softwareNormalizationRules.tenantId, tenantId)));
+
+    const result = await db.delete(softwareProducts)
+      .where(and(eq(softwareProducts.id, id), eq(softwareProducts.tenantId, tenantId)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getSoftwareNormalizationRules(tenantId: string): Promise<SoftwareNormalizationRule[]> {
+    return await db.select().from(softwareNormalizationRules)
+      .where(eq(softwareNormalizationRules.tenantId, tenantId))
+      .orderBy(desc(softwareNormalizationRules.priority), softwareNormalizationRules.createdAt);
+  }
+
+  async getSoftwareNormalizationRule(id: string, tenantId: string): Promise<SoftwareNormalizationRule | undefined> {
+    const [rule] = await db.select().from(softwareNormalizationRules)
+      .where(and(eq(softwareNormalizationRules.id, id), eq(softwareNormalizationRules.tenantId, tenantId)));
+    return rule || undefined;
+  }
+
+  async createSoftwareNormalizationRule(rule: InsertSoftwareNormalizationRule): Promise<SoftwareNormalizationRule> {
+    const [created] = await db.insert(softwareNormalizationRules).values(rule).returning();
+    return created;
+  }
+
+  async updateSoftwareNormalizationRule(id: string, tenantId: string, updates: Partial<InsertSoftwareNormalizationRule>): Promise<SoftwareNormalizationRule | undefined> {
+    const [updated] = await db.update(softwareNormalizationRules)
+      .set(updates)
+      .where(and(eq(softwareNormalizationRules.id, id), eq(softwareNormalizationRules.tenantId, tenantId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteSoftwareNormalizationRule(id: string, tenantId: string): Promise<boolean> {
+    const result = await db.delete(softwareNormalizationRules)
+      .where(and(eq(softwareNormalizationRules.id, id), eq(softwareNormalizationRules.tenantId, tenantId)));
+    return (result.rowCount || 0) > 0;
+  }
+
   // Software Licenses
   async getAllSoftwareLicenses(tenantId: string): Promise<SoftwareLicense[]> {
     return await db.select().from(softwareLicenses).where(eq(softwareLicenses.tenantId, tenantId));
@@ -1865,25 +2677,83 @@ export class DatabaseStorage implements IStorage {
       .orderBy(ticketActivities.createdAt);
   }
 
-  // Helper function to calculate time ago
-  private getTimeAgo(date: Date | null): string {
-    if (!date) return 'Unknown';
-    
-    const now = new Date();
-    const diffInMs = now.getTime() - new Date(date).getTime();
-    const diffInMinutes = Math.floor(diffInMs / (1000 * 60));
-    const diffInHours = Math.floor(diffInMs / (1000 * 60 * 60));
-    const diffInDays = Math.floor(diffInMs / (1000 * 60 * 60 * 24));
-    
-    if (diffInMinutes < 1) return 'Just now';
-    if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
-    if (diffInHours < 24) return `${diffInHours}h ago`;
-    if (diffInDays < 7) return `${diffInDays}d ago`;
-    
-    return new Date(date).toLocaleDateString();
+  // Ticket SLA Policies
+  async getTicketSlaPolicies(tenantId: string): Promise<TicketSlaPolicy[]> {
+    return await db
+      .select()
+      .from(ticketSlaPolicies)
+      .where(eq(ticketSlaPolicies.tenantId, tenantId))
+      .orderBy(ticketSlaPolicies.name);
   }
 
-  // Asset Age Analysis
+  async getTicketSlaPolicy(id: string, tenantId: string): Promise<TicketSlaPolicy | undefined> {
+    const [policy] = await db
+      .select()
+      .from(ticketSlaPolicies)
+      .where(and(eq(ticketSlaPolicies.id, id), eq(ticketSlaPolicies.tenantId, tenantId)));
+    return policy;
+  }
+
+  async createTicketSlaPolicy(policy: InsertTicketSlaPolicy): Promise<TicketSlaPolicy> {
+    const [newPolicy] = await db.insert(ticketSlaPolicies).values(policy).returning();
+    return newPolicy;
+  }
+
+  async updateTicketSlaPolicy(id: string, tenantId: string, updates: Partial<InsertTicketSlaPolicy>): Promise<TicketSlaPolicy | undefined> {
+    const [updated] = await db
+      .update(ticketSlaPolicies)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(ticketSlaPolicies.id, id), eq(ticketSlaPolicies.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteTicketSlaPolicy(id: string, tenantId: string): Promise<boolean> {
+    const result = await db
+      .delete(ticketSlaPolicies)
+      .where(and(eq(ticketSlaPolicies.id, id), eq(ticketSlaPolicies.tenantId, tenantId)));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async updateTicketSla(id: string, tenantId: string, updates: Partial<Ticket>): Promise<Ticket | undefined> {
+    const { id: _id, tenantId: _tenantId, ...safeUpdates } = updates;
+    const [updated] = await db
+      .update(tickets)
+      .set({ ...safeUpdates, updatedAt: new Date() })
+      .where(and(eq(tickets.id, id), eq(tickets.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async getSlaTrackedTickets(): Promise<Ticket[]> {
+    return await db
+      .select()
+      .from(tickets)
+      .where(and(
+        isNotNull(tickets.slaPolicyId),
+        inArray(tickets.status, ["open", "in-progress"])
+      ));
+  }
+
+  // Helper function to calculate time ago
+  private getTimeAgo(date: Date | null): string {
+    if (!date) return 'Unknown';
+    
+    const now = new Date();
+    const diffInMs = now.getTime() - new Date(date).getTime();
+    const diffInMinutes = Math.floor(diffInMs / (1000 * 60));
+    const diffInHours = Math.floor(diffInMs / (1000 * 60 * 60));
+    const diffInDays = Math.floor(diffInMs / (1000 * 60 * 60 * 24));
+    
+    if (diffInMinutes < 1) return 'Just now';
+    if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
+    if (diffInHours < 24) return `${diffInHours}h ago`;
+    if (diffInDays < 7) return `${diffInDays}d ago`;
+    
+    return new Date(date).toLocaleDateString();
+  }
+
+  // Asset Age Analysis
   private async getAssetAgeAnalysis(tenantId: string) {
     try {
       const now = new Date();
@@ -2801,6 +3671,268 @@ export class DatabaseStorage implements IStorage {
       .where(eq(enrollmentTokens.token, token));
   }
 
+  // Agent Devices & Commands
+  async createAgentDevice(device: InsertAgentDevice): Promise<AgentDevice> {
+    const [created] = await db.insert(agentDevices).values(device).returning();
+    return created;
+  }
+
+  async getAgentDevice(id: string, tenantId: string): Promise<AgentDevice | undefined> {
+    const [device] = await db.select().from(agentDevices)
+      .where(and(eq(agentDevices.id, id), eq(agentDevices.tenantId, tenantId)));
+    return device;
+  }
+
+  async getAgentDeviceByCredentialHash(credentialHash: string): Promise<AgentDevice | undefined> {
+    const [device] = await db.select().from(agentDevices)
+      .where(eq(agentDevices.credentialHash, credentialHash));
+    return device;
+  }
+
+  async getAgentDevices(tenantId: string): Promise<AgentDevice[]> {
+    return await db.select().from(agentDevices)
+      .where(eq(agentDevices.tenantId, tenantId))
+      .orderBy(desc(agentDevices.lastCheckInAt));
+  }
+
+  async updateAgentDevice(id: string, tenantId: string, updates: Partial<InsertAgentDevice>): Promise<AgentDevice | undefined> {
+    const [updated] = await db.update(agentDevices)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(agentDevices.id, id), eq(agentDevices.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async revokeAgentDevicesForAsset(assetId: string, tenantId: string): Promise<number> {
+    const revoked = await db.update(agentDevices)
+      .set({ status: "revoked", revokedAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(agentDevices.assetId, assetId),
+        eq(agentDevices.tenantId, tenantId),
+        eq(agentDevices.status, "active")
+      ))
+      .returning({ id: agentDevices.id });
+    return revoked.length;
+  }
+
+  async revokeAgentDevice(id: string, tenantId: string): Promise<AgentDevice | undefined> {
+    return await db.transaction(async (tx) => {
+      const [revoked] = await tx.update(agentDevices)
+        .set({ status: "revoked", revokedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(agentDevices.id, id), eq(agentDevices.tenantId, tenantId)))
+        .returning();
+
+      // Queued work can no longer be delivered, nor results reported
+      await tx.update(agentCommands)
+        .set({ status: "cancelled", completedAt: new Date() })
+        .where(and(
+          eq(agentCommands.agentDeviceId, id),
+          eq(agentCommands.tenantId, tenantId),
+          inArray(agentCommands.status, ["pending", "delivered"])
+        ));
+
+      return revoked;
+    });
+  }
+
+  async createAgentCommand(command: InsertAgentCommand): Promise<AgentCommand> {
+    const [created] = await db.insert(agentCommands).values(command).returning();
+    return created;
+  }
+
+  async getAgentCommand(id: string, tenantId: string): Promise<AgentCommand | undefined> {
+    const [command] = await db.select().from(agentCommands)
+      .where(and(eq(agentCommands.id, id), eq(agentCommands.tenantId, tenantId)));
+    return command;
+  }
+
+  async getAgentCommands(agentDeviceId: string, tenantId: string): Promise<AgentCommand[]> {
+    return await db.select().from(agentCommands)
+      .where(and(eq(agentCommands.agentDeviceId, agentDeviceId), eq(agentCommands.tenantId, tenantId)))
+      .orderBy(desc(agentCommands.createdAt));
+  }
+
+  /**
+   * Hand an agent its pending commands, plus delivered ones it has not reported on since
+   * redeliverBefore (the agent may have crashed before running them). Commands delivered
+   * maxDeliveries times without a result are failed instead.
+   */
+  async claimPendingAgentCommands(
+    agentDeviceId: string,
+    tenantId: string,
+    redeliverBefore: Date,
+    maxDeliveries: number
+  ): Promise<AgentCommand[]> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const forDevice = and(eq(agentCommands.agentDeviceId, agentDeviceId), eq(agentCommands.tenantId, tenantId));
+      const unreported = and(eq(agentCommands.status, "delivered"), lt(agentCommands.deliveredAt, redeliverBefore));
+      const claimable = or(eq(agentCommands.status, "pending"), unreported);
+
+      await tx.update(agentCommands)
+        .set({ status: "expired", completedAt: now })
+        .where(and(forDevice, claimable, sql`${agentCommands.expiresAt} IS NOT NULL AND ${agentCommands.expiresAt} < ${now}`));
+
+      await tx.update(agentCommands)
+        .set({
+          status: "failed",
+          completedAt: now,
+          result: { exitCode: null, output: `No result reported after ${maxDeliveries} deliveries` },
+        })
+        .where(and(forDevice, unreported, gte(agentCommands.deliveryAttempts, maxDeliveries)));
+
+      return await tx.update(agentCommands)
+        .set({ status: "delivered", deliveredAt: now, deliveryAttempts: sql`${agentCommands.deliveryAttempts} + 1` })
+        .where(and(forDevice, claimable))
+        .returning();
+    });
+  }
+
+  async getSoftwareAssetByName(name: string, tenantId: string): Promise<Asset | undefined> {
+    const [asset] = await db
+      .select()
+      .from(assets)
+      .where(and(eq(assets.tenantId, tenantId), eq(assets.name, name), eq(assets.type, "Software")))
+      .limit(1);
+    return asset;
+  }
+
+  async updateAgentCommand(id: string, tenantId: string, updates: Partial<AgentCommand>): Promise<AgentCommand | undefined> {
+    const { id: _id, tenantId: _tenantId, ...safeUpdates } = updates;
+    const [updated] = await db.update(agentCommands)
+      .set(safeUpdates)
+      .where(and(eq(agentCommands.id, id), eq(agentCommands.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  // Network Discovery
+  async getCredentialProfiles(tenantId: string): Promise<CredentialProfile[]> {
+    return await db.select().from(credentialProfiles)
+      .where(eq(credentialProfiles.tenantId, tenantId))
+      .orderBy(desc(credentialProfiles.isDefault), desc(credentialProfiles.priority), credentialProfiles.name);
+  }
+
+  async getCredentialProfile(id: string, tenantId: string): Promise<CredentialProfile | undefined> {
+    const [profile] = await db.select().from(credentialProfiles)
+      .where(and(eq(credentialProfiles.id, id), eq(credentialProfiles.tenantId, tenantId)));
+    return profile;
+  }
+
+  async createCredentialProfile(profile: InsertCredentialProfile): Promise<CredentialProfile> {
+    const [created] = await db.insert(credentialProfiles).values(profile).returning();
+    return created;
+  }
+
+  async updateCredentialProfile(id: string, tenantId: string, updates: Partial<InsertCredentialProfile>): Promise<CredentialProfile | undefined> {
+    const [updated] = await db.update(credentialProfiles)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(credentialProfiles.id, id), eq(credentialProfiles.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteCredentialProfile(id: string, tenantId: string): Promise<boolean> {
+    const result = await db.delete(credentialProfiles)
+      .where(and(eq(credentialProfiles.id, id), eq(credentialProfiles.tenantId, tenantId)));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async getDiscoveryJobs(tenantId: string, limit: number = 50): Promise<DiscoveryJob[]> {
+    return await db.select().from(discoveryJobs)
+      .where(eq(discoveryJobs.tenantId, tenantId))
+      .orderBy(desc(discoveryJobs.createdAt))
+      .limit(limit);
+  }
+
+  async getDiscoveryJob(idOrJobId: string, tenantId: string): Promise<DiscoveryJob | undefined> {
+    const [job] = await db.select().from(discoveryJobs)
+      .where(and(
+        eq(discoveryJobs.tenantId, tenantId),
+        or(eq(discoveryJobs.id, idOrJobId), eq(discoveryJobs.jobId, idOrJobId))
+      ));
+    return job;
+  }
+
+  async createDiscoveryJob(job: InsertDiscoveryJob): Promise<DiscoveryJob> {
+    const [created] = await db.insert(discoveryJobs).values(job).returning();
+    return created;
+  }
+
+  async updateDiscoveryJob(id: string, tenantId: string, updates: Partial<InsertDiscoveryJob>): Promise<DiscoveryJob | undefined> {
+    const [updated] = await db.update(discoveryJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(discoveryJobs.id, id), eq(discoveryJobs.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async getDiscoveredDevices(jobId: string, tenantId: string): Promise<DiscoveredDevice[]> {
+    return await db.select().from(discoveredDevices)
+      .where(and(eq(discoveredDevices.jobId, jobId), eq(discoveredDevices.tenantId, tenantId)))
+      .orderBy(discoveredDevices.ipAddress);
+  }
+
+  async getDiscoveredDevicesByIds(ids: string[], tenantId: string): Promise<DiscoveredDevice[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(discoveredDevices)
+      .where(and(inArray(discoveredDevices.id, ids), eq(discoveredDevices.tenantId, tenantId)));
+  }
+
+  async createDiscoveredDevice(device: InsertDiscoveredDevice): Promise<DiscoveredDevice> {
+    const [created] = await db.insert(discoveredDevices).values(device).returning();
+    return created;
+  }
+
+  async updateDiscoveredDevice(id: string, tenantId: string, updates: Partial<InsertDiscoveredDevice>): Promise<DiscoveredDevice | undefined> {
+    const [updated] = await db.update(discoveredDevices)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(discoveredDevices.id, id), eq(discoveredDevices.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async findAssetMatchForDevice(
+    tenantId: string,
+    match: { serialNumber?: string | null; macAddress?: string | null; ipAddress?: string | null }
+  ): Promise<{ asset: Asset; field: "serial" | "mac" | "ip" } | undefined> {
+    // Strongest identifier first: serial, then MAC, then IP
+    if (match.serialNumber) {
+      const [asset] = await db.select().from(assets)
+        .where(and(eq(assets.tenantId, tenantId), sql`lower(${assets.serialNumber}) = lower(${match.serialNumber})`))
+        .limit(1);
+      if (asset) return { asset, field: "serial" };
+    }
+
+    if (match.macAddress) {
+      const mac = match.macAddress.toLowerCase();
+      const [asset] = await db.select().from(assets)
+        .where(and(
+          eq(assets.tenantId, tenantId),
+          sql`lower(${assets.specifications}->'network'->>'macAddress') = ${mac}`
+        ))
+        .limit(1);
+      if (asset) return { asset, field: "mac" };
+    }
+
+    if (match.ipAddress) {
+      const [asset] = await db.select().from(assets)
+        .where(and(
+          eq(assets.tenantId, tenantId),
+          eq(assets.type, "Hardware"),
+          or(
+            sql`${assets.specifications}->'network'->>'ipAddress' = ${match.ipAddress}`,
+            sql`${assets.specifications}->'openaudit'->>'ip' = ${match.ipAddress}`,
+            sql`coalesce(${assets.specifications}->'agent'->'lastIPs', '[]'::jsonb) ? ${match.ipAddress}`
+          )
+        ))
+        .limit(1);
+      if (asset) return { asset, field: "ip" };
+    }
+
+    return undefined;
+  }
+
   // ============================================================================
   // SaaS Governance (Phase 0)
   // ============================================================================
@@ -3320,6 +4452,15 @@ export class DatabaseStorage implements IStorage {
       .limit(100); // Limit to recent 100 executions
   }
 
+  async getPolicyExecutionsSince(tenantId: string, since: Date): Promise<PolicyExecution[]> {
+    return db.select().from(policyExecutions)
+      .where(and(
+        eq(policyExecutions.tenantId, tenantId),
+        gte(policyExecutions.createdAt, since)
+      ))
+      .orderBy(policyExecutions.createdAt);
+  }
+
   async getPolicyExecution(id: string, tenantId: string): Promise<PolicyExecution | undefined> {
     const [execution] = await db.select().from(policyExecutions)
       .where(and(eq(policyExecutions.id, id), eq(policyExecutions.tenantId, tenantId)));
@@ -3366,6 +4507,148 @@ export class DatabaseStorage implements IStorage {
       .where(eq(policyTemplates.id, id));
   }
 
+  // Event Outbox (durable EventSystem delivery)
+  async createOutboxEvent(event: InsertEventOutboxRecord, consumers: string[], maxAttempts: number): Promise<{ event: EventOutboxRecord; deliveries: EventDelivery[] }> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(eventOutbox).values(event).returning();
+
+      if (consumers.length === 0) {
+        return { event: created, deliveries: [] };
+      }
+
+      // Deliveries start claimed so the dispatcher does not pick them up while
+      // the emitting process attempts the first delivery in-line
+      const now = new Date();
+      const deliveries = await tx.insert(eventDeliveries).values(consumers.map(consumer => ({
+        tenantId: created.tenantId,
+        eventId: created.id,
+        eventName: created.eventName,
+        consumer,
+        status: 'processing',
+        maxAttempts,
+        lockedAt: now,
+      }))).returning();
+
+      return { event: created, deliveries };
+    });
+  }
+
+  async getOutboxEvent(id: string, tenantId: string): Promise<EventOutboxRecord | undefined> {
+    const [event] = await db.select().from(eventOutbox)
+      .where(and(eq(eventOutbox.id, id), eq(eventOutbox.tenantId, tenantId)));
+    return event;
+  }
+
+  async getOutboxEventsByIds(ids: string[]): Promise<EventOutboxRecord[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(eventOutbox).where(inArray(eventOutbox.id, ids));
+  }
+
+  async claimDueEventDeliveries(limit: number, staleBefore: Date): Promise<EventDelivery[]> {
+    const now = new Date();
+
+    // Due retries plus deliveries left "processing" by a process that died mid-delivery
+    const due = db.select({ id: eventDeliveries.id }).from(eventDeliveries)
+      .where(or(
+        and(
+          inArray(eventDeliveries.status, ['pending', 'failed']),
+          sql`${eventDeliveries.nextAttemptAt} <= ${now}`
+        ),
+        and(
+          eq(eventDeliveries.status, 'processing'),
+          sql`${eventDeliveries.lockedAt} < ${staleBefore}`
+        )
+      ))
+      .orderBy(eventDeliveries.nextAttemptAt)
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return db.update(eventDeliveries)
+      .set({ status: 'processing', lockedAt: now, updatedAt: now })
+      .where(inArray(eventDeliveries.id, due))
+      .returning();
+  }
+
+  async getEventDeliveries(tenantId: string, filters?: {status?: string; consumer?: string; eventName?: string; eventId?: string; limit?: number}): Promise<EventDelivery[]> {
+    const conditions = [eq(eventDeliveries.tenantId, tenantId)];
+
+    if (filters?.status) {
+      conditions.push(eq(eventDeliveries.status, filters.status));
+    }
+    if (filters?.consumer) {
+      conditions.push(eq(eventDeliveries.consumer, filters.consumer));
+    }
+    if (filters?.eventName) {
+      conditions.push(eq(eventDeliveries.eventName, filters.eventName));
+    }
+    if (filters?.eventId) {
+      conditions.push(eq(eventDeliveries.eventId, filters.eventId));
+    }
+
+    return db.select().from(eventDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(eventDeliveries.updatedAt))
+      .limit(filters?.limit || 100);
+  }
+
+  async getEventDelivery(id: string, tenantId: string): Promise<EventDelivery | undefined> {
+    const [delivery] = await db.select().from(eventDeliveries)
+      .where(and(eq(eventDeliveries.id, id), eq(eventDeliveries.tenantId, tenantId)));
+    return delivery;
+  }
+
+  async updateEventDelivery(id: string, tenantId: string, updates: Partial<InsertEventDelivery>): Promise<EventDelivery | undefined> {
+    const [updated] = await db.update(eventDeliveries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(eventDeliveries.id, id), eq(eventDeliveries.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async replayEventDeliveries(tenantId: string, filters: {ids?: string[]; consumer?: string; eventName?: string}): Promise<EventDelivery[]> {
+    const conditions = [
+      eq(eventDeliveries.tenantId, tenantId),
+      eq(eventDeliveries.status, 'dead_letter'),
+    ];
+
+    if (filters.ids) {
+      if (filters.ids.length === 0) return [];
+      conditions.push(inArray(eventDeliveries.id, filters.ids));
+    }
+    if (filters.consumer) {
+      conditions.push(eq(eventDeliveries.consumer, filters.consumer));
+    }
+    if (filters.eventName) {
+      conditions.push(eq(eventDeliveries.eventName, filters.eventName));
+    }
+
+    const now = new Date();
+    return db.update(eventDeliveries)
+      .set({
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: now,
+        lockedAt: null,
+        deadLetteredAt: null,
+        updatedAt: now,
+      })
+      .where(and(...conditions))
+      .returning();
+  }
+
+  async getEventDeliveryStats(tenantId: string): Promise<Array<{ consumer: string; status: string; count: number }>> {
+    const rows = await db.select({
+      consumer: eventDeliveries.consumer,
+      status: eventDeliveries.status,
+      count: sql<number>`count(*)`,
+    })
+      .from(eventDeliveries)
+      .where(eq(eventDeliveries.tenantId, tenantId))
+      .groupBy(eventDeliveries.consumer, eventDeliveries.status);
+
+    return rows.map(row => ({ ...row, count: Number(row.count) }));
+  }
+
   // ============================================
   // Phase 5: Identity Governance & Access Reviews
   // ============================================
@@ -3455,6 +4738,45 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  // Access Review Delegations
+  async getAccessReviewDelegations(tenantId: string, filters?: {delegatorId?: string; activeAt?: Date}): Promise<AccessReviewDelegation[]> {
+    const conditions = [eq(accessReviewDelegations.tenantId, tenantId)];
+
+    if (filters?.delegatorId) {
+      conditions.push(eq(accessReviewDelegations.delegatorId, filters.delegatorId));
+    }
+    if (filters?.activeAt) {
+      conditions.push(
+        lte(accessReviewDelegations.startsAt, filters.activeAt),
+        gt(accessReviewDelegations.endsAt, filters.activeAt),
+        isNull(accessReviewDelegations.revokedAt)
+      );
+    }
+
+    return db.select().from(accessReviewDelegations)
+      .where(and(...conditions))
+      .orderBy(desc(accessReviewDelegations.startsAt));
+  }
+
+  async getAccessReviewDelegation(id: string, tenantId: string): Promise<AccessReviewDelegation | undefined> {
+    const [delegation] = await db.select().from(accessReviewDelegations)
+      .where(and(eq(accessReviewDelegations.id, id), eq(accessReviewDelegations.tenantId, tenantId)));
+    return delegation;
+  }
+
+  async createAccessReviewDelegation(delegation: InsertAccessReviewDelegation): Promise<AccessReviewDelegation> {
+    const [created] = await db.insert(accessReviewDelegations).values(delegation).returning();
+    return created;
+  }
+
+  async updateAccessReviewDelegation(id: string, tenantId: string, updates: Partial<InsertAccessReviewDelegation>): Promise<AccessReviewDelegation | undefined> {
+    const [updated] = await db.update(accessReviewDelegations)
+      .set(updates)
+      .where(and(eq(accessReviewDelegations.id, id), eq(accessReviewDelegations.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
   // Role Templates (Phase 5)
   async getRoleTemplates(tenantId: string, filters?: {department?: string}): Promise<RoleTemplate[]> {
     const conditions = [eq(roleTemplates.tenantId, tenantId)];
@@ -3720,26 +5042,60 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount ? result.rowCount > 0 : false;
   }
 
-  // JIT Access Sessions (Phase 6.2)
-  async getJitAccessSessions(tenantId: string, filters?: {userId?: string; appId?: string; status?: string}): Promise<JitAccessSession[]> {
-    const conditions = [eq(jitAccessSessions.tenantId, tenantId)];
+  async getAccessCatalogItems(tenantId: string, filters?: {itemType?: string; isActive?: boolean}): Promise<AccessCatalogItem[]> {
+    const conditions = [eq(accessCatalogItems.tenantId, tenantId)];
 
-    if (filters?.userId) {
-      conditions.push(eq(jitAccessSessions.userId, filters.userId));
-    }
-    if (filters?.appId) {
-      conditions.push(eq(jitAccessSessions.appId, filters.appId));
+    if (filters?.itemType) {
+      conditions.push(eq(accessCatalogItems.itemType, filters.itemType));
     }
-    if (filters?.status) {
-      conditions.push(eq(jitAccessSessions.status, filters.status));
+    if (filters?.isActive !== undefined) {
+      conditions.push(eq(accessCatalogItems.isActive, filters.isActive));
     }
 
-    return db.select().from(jitAccessSessions)
+    return db.select().from(accessCatalogItems)
       .where(and(...conditions))
-      .orderBy(desc(jitAccessSessions.createdAt));
+      .orderBy(accessCatalogItems.name);
   }
 
-  async getJitAccessSession(id: string, tenantId: string): Promise<JitAccessSession | undefined> {
+  async getAccessCatalogItem(id: string, tenantId: string): Promise<AccessCatalogItem | undefined> {
+    const [item] = await db.select().from(accessCatalogItems)
+      .where(and(eq(accessCatalogItems.id, id), eq(accessCatalogItems.tenantId, tenantId)));
+    return item;
+  }
+
+  async createAccessCatalogItem(item: InsertAccessCatalogItem): Promise<AccessCatalogItem> {
+    const [created] = await db.insert(accessCatalogItems).values(item).returning();
+    return created;
+  }
+
+  async updateAccessCatalogItem(id: string, tenantId: string, updates: Partial<InsertAccessCatalogItem>): Promise<AccessCatalogItem | undefined> {
+    const [updated] = await db.update(accessCatalogItems)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(accessCatalogItems.id, id), eq(accessCatalogItems.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  // JIT Access Sessions (Phase 6.2)
+  async getJitAccessSessions(tenantId: string, filters?: {userId?: string; appId?: string; status?: string}): Promise<JitAccessSession[]> {
+    const conditions = [eq(jitAccessSessions.tenantId, tenantId)];
+
+    if (filters?.userId) {
+      conditions.push(eq(jitAccessSessions.userId, filters.userId));
+    }
+    if (filters?.appId) {
+      conditions.push(eq(jitAccessSessions.appId, filters.appId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(jitAccessSessions.status, filters.status));
+    }
+
+    return db.select().from(jitAccessSessions)
+      .where(and(...conditions))
+      .orderBy(desc(jitAccessSessions.createdAt));
+  }
+
+  async getJitAccessSession(id: string, tenantId: string): Promise<JitAccessSession | undefined> {
     const [session] = await db.select().from(jitAccessSessions)
       .where(and(eq(jitAccessSessions.id, id), eq(jitAccessSessions.tenantId, tenantId)));
     return session;
@@ -3786,6 +5142,474 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount ? result.rowCount > 0 : false;
   }
 
+  // Break-glass Access (Phase 6.2)
+  async getBreakGlassAccounts(tenantId: string, filters?: {isActive?: boolean}): Promise<BreakGlassAccount[]> {
+    const conditions = [eq(breakGlassAccounts.tenantId, tenantId)];
+
+    if (filters?.isActive !== undefined) {
+      conditions.push(eq(breakGlassAccounts.isActive, filters.isActive));
+    }
+
+    return db.select().from(breakGlassAccounts)
+      .where(and(...conditions))
+      .orderBy(breakGlassAccounts.name);
+  }
+
+  async getBreakGlassAccount(id: string, tenantId: string): Promise<BreakGlassAccount | undefined> {
+    const [account] = await db.select().from(breakGlassAccounts)
+      .where(and(eq(breakGlassAccounts.id, id), eq(breakGlassAccounts.tenantId, tenantId)));
+    return account;
+  }
+
+  async createBreakGlassAccount(account: InsertBreakGlassAccount): Promise<BreakGlassAccount> {
+    const [created] = await db.insert(breakGlassAccounts).values(account).returning();
+    return created;
+  }
+
+  async updateBreakGlassAccount(id: string, tenantId: string, updates: Partial<InsertBreakGlassAccount>): Promise<BreakGlassAccount | undefined> {
+    const [updated] = await db.update(breakGlassAccounts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(breakGlassAccounts.id, id), eq(breakGlassAccounts.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async getBreakGlassSessions(tenantId: string, filters?: {accountId?: string; status?: string; reviewStatus?: string}): Promise<BreakGlassSession[]> {
+    const conditions = [eq(breakGlassSessions.tenantId, tenantId)];
+
+    if (filters?.accountId) {
+      conditions.push(eq(breakGlassSessions.accountId, filters.accountId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(breakGlassSessions.status, filters.status));
+    }
+    if (filters?.reviewStatus) {
+      conditions.push(eq(breakGlassSessions.reviewStatus, filters.reviewStatus));
+    }
+
+    return db.select().from(breakGlassSessions)
+      .where(and(...conditions))
+      .orderBy(desc(breakGlassSessions.createdAt));
+  }
+
+  async getBreakGlassSession(id: string, tenantId: string): Promise<BreakGlassSession | undefined> {
+    const [session] = await db.select().from(breakGlassSessions)
+      .where(and(eq(breakGlassSessions.id, id), eq(breakGlassSessions.tenantId, tenantId)));
+    return session;
+  }
+
+  async getExpiredBreakGlassSessions(tenantId: string): Promise<BreakGlassSession[]> {
+    const now = new Date();
+    return db.select().from(breakGlassSessions)
+      .where(and(
+        eq(breakGlassSessions.tenantId, tenantId),
+        inArray(breakGlassSessions.status, ['pending_unseal', 'active']),
+        lt(breakGlassSessions.expiresAt, now)
+      ))
+      .orderBy(breakGlassSessions.expiresAt);
+  }
+
+  async createBreakGlassSession(session: InsertBreakGlassSession): Promise<BreakGlassSession> {
+    const [created] = await db.insert(breakGlassSessions).values(session).returning();
+    return created;
+  }
+
+  async updateBreakGlassSession(id: string, tenantId: string, updates: Partial<InsertBreakGlassSession>): Promise<BreakGlassSession | undefined> {
+    const [updated] = await db.update(breakGlassSessions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(breakGlassSessions.id, id), eq(breakGlassSessions.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  // MFA Factors & Challenges (Phase 6.2)
+  async getUserMfaFactors(tenantId: string, userId: string, filters?: {type?: string; status?: string}): Promise<UserMfaFactor[]> {
+    const conditions = [eq(userMfaFactors.tenantId, tenantId), eq(userMfaFactors.userId, userId)];
+
+    if (filters?.type) {
+      conditions.push(eq(userMfaFactors.type, filters.type));
+    }
+    if (filters?.status) {
+      conditions.push(eq(userMfaFactors.status, filters.status));
+    }
+
+    return db.select().from(userMfaFactors)
+      .where(and(...conditions))
+      .orderBy(userMfaFactors.createdAt);
+  }
+
+  async getUserMfaFactor(id: string, tenantId: string): Promise<UserMfaFactor | undefined> {
+    const [factor] = await db.select().from(userMfaFactors)
+      .where(and(eq(userMfaFactors.id, id), eq(userMfaFactors.tenantId, tenantId)));
+    return factor;
+  }
+
+  async getMfaFactorByCredentialId(credentialId: string): Promise<UserMfaFactor | undefined> {
+    const [factor] = await db.select().from(userMfaFactors)
+      .where(eq(userMfaFactors.credentialId, credentialId));
+    return factor;
+  }
+
+  async createUserMfaFactor(factor: InsertUserMfaFactor): Promise<UserMfaFactor> {
+    const [created] = await db.insert(userMfaFactors).values(factor).returning();
+    return created;
+  }
+
+  async updateUserMfaFactor(id: string, tenantId: string, updates: Partial<InsertUserMfaFactor>): Promise<UserMfaFactor | undefined> {
+    const [updated] = await db.update(userMfaFactors)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(userMfaFactors.id, id), eq(userMfaFactors.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async advanceMfaFactorTotpStep(id: string, tenantId: string, step: number): Promise<UserMfaFactor | undefined> {
+    // Only moves forward, so a code can never be accepted twice even under concurrent requests
+    const [updated] = await db.update(userMfaFactors)
+      .set({ lastUsedStep: step, lastUsedAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(userMfaFactors.id, id),
+        eq(userMfaFactors.tenantId, tenantId),
+        or(sql`${userMfaFactors.lastUsedStep} IS NULL`, sql`${userMfaFactors.lastUsedStep} < ${step}`)
+      ))
+      .returning();
+    return updated;
+  }
+
+  async deleteUserMfaFactor(id: string, tenantId: string): Promise<boolean> {
+    const result = await db.delete(userMfaFactors)
+      .where(and(eq(userMfaFactors.id, id), eq(userMfaFactors.tenantId, tenantId)));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  async createMfaChallenge(challenge: InsertMfaChallenge): Promise<MfaChallenge> {
+    const [created] = await db.insert(mfaChallenges).values(challenge).returning();
+    return created;
+  }
+
+  async getMfaChallenge(id: string, tenantId: string): Promise<MfaChallenge | undefined> {
+    const [challenge] = await db.select().from(mfaChallenges)
+      .where(and(eq(mfaChallenges.id, id), eq(mfaChallenges.tenantId, tenantId)));
+    return challenge;
+  }
+
+  async consumeMfaChallenge(id: string, tenantId: string): Promise<MfaChallenge | undefined> {
+    const [consumed] = await db.update(mfaChallenges)
+      .set({ consumedAt: new Date() })
+      .where(and(
+        eq(mfaChallenges.id, id),
+        eq(mfaChallenges.tenantId, tenantId),
+        sql`${mfaChallenges.consumedAt} IS NULL`
+      ))
+      .returning();
+    return consumed;
+  }
+
+  async recordMfaChallengeFailure(id: string, tenantId: string): Promise<MfaChallenge | undefined> {
+    const [updated] = await db.update(mfaChallenges)
+      .set({ failedAttempts: sql`COALESCE(${mfaChallenges.failedAttempts}, 0) + 1` })
+      .where(and(eq(mfaChallenges.id, id), eq(mfaChallenges.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async countRecentMfaFailures(tenantId: string, userId: string, since: Date): Promise<number> {
+    const [result] = await db.select({
+      failures: sql<number>`COALESCE(SUM(${mfaChallenges.failedAttempts}), 0)::int`
+    })
+      .from(mfaChallenges)
+      .where(and(
+        eq(mfaChallenges.tenantId, tenantId),
+        eq(mfaChallenges.userId, userId),
+        gte(mfaChallenges.createdAt, since)
+      ));
+    return result?.failures || 0;
+  }
+
+  async replaceMfaRecoveryCodes(tenantId: string, userId: string, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(mfaRecoveryCodes)
+        .where(and(eq(mfaRecoveryCodes.tenantId, tenantId), eq(mfaRecoveryCodes.userId, userId)));
+      if (codeHashes.length > 0) {
+        await tx.insert(mfaRecoveryCodes).values(codeHashes.map(codeHash => ({ tenantId, userId, codeHash })));
+      }
+    });
+  }
+
+  async countUnusedMfaRecoveryCodes(tenantId: string, userId: string): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(mfaRecoveryCodes)
+      .where(and(
+        eq(mfaRecoveryCodes.tenantId, tenantId),
+        eq(mfaRecoveryCodes.userId, userId),
+        sql`${mfaRecoveryCodes.usedAt} IS NULL`
+      ));
+    return result?.count || 0;
+  }
+
+  async useMfaRecoveryCode(tenantId: string, userId: string, codeHash: string): Promise<MfaRecoveryCode | undefined> {
+    // Marks the code used in the same statement that matches it, so each code works exactly once
+    const [used] = await db.update(mfaRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(mfaRecoveryCodes.tenantId, tenantId),
+        eq(mfaRecoveryCodes.userId, userId),
+        eq(mfaRecoveryCodes.codeHash, codeHash),
+        sql`${mfaRecoveryCodes.usedAt} IS NULL`
+      ))
+      .returning();
+    return used;
+  }
+
+  async deleteMfaRecoveryCodes(tenantId: string, userId: string): Promise<void> {
+    await db.delete(mfaRecoveryCodes)
+      .where(and(eq(mfaRecoveryCodes.tenantId, tenantId), eq(mfaRecoveryCodes.userId, userId)));
+  }
+
+  // SSO Connections
+  async getSsoConnections(tenantId: string): Promise<SsoConnection[]> {
+    return db.select().from(ssoConnections)
+      .where(eq(ssoConnections.tenantId, tenantId))
+      .orderBy(ssoConnections.createdAt);
+  }
+
+  async getSsoConnection(id: string, tenantId: string): Promise<SsoConnection | undefined> {
+    const [connection] = await db.select().from(ssoConnections)
+      .where(and(eq(ssoConnections.id, id), eq(ssoConnections.tenantId, tenantId)));
+    return connection;
+  }
+
+  async getSsoConnectionForLogin(id: string): Promise<SsoConnection | undefined> {
+    // Unauthenticated login entry point: the connection ID identifies the tenant
+    const [connection] = await db.select().from(ssoConnections)
+      .where(and(eq(ssoConnections.id, id), eq(ssoConnections.enabled, true)));
+    return connection;
+  }
+
+  async getSsoConnectionsByDomain(domain: string, filters?: {enabled?: boolean}): Promise<SsoConnection[]> {
+    const conditions = [sql`${ssoConnections.emailDomains} @> ${JSON.stringify([domain.toLowerCase()])}::jsonb`];
+    if (filters?.enabled !== undefined) {
+      conditions.push(eq(ssoConnections.enabled, filters.enabled));
+    }
+    return db.select().from(ssoConnections).where(and(...conditions));
+  }
+
+  async createSsoConnection(connection: InsertSsoConnection): Promise<SsoConnection> {
+    const [created] = await db.insert(ssoConnections).values(connection).returning();
+    return created;
+  }
+
+  async updateSsoConnection(id: string, tenantId: string, updates: Partial<InsertSsoConnection> & { lastLoginAt?: Date }): Promise<SsoConnection | undefined> {
+    const [updated] = await db.update(ssoConnections)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(ssoConnections.id, id), eq(ssoConnections.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteSsoConnection(id: string, tenantId: string): Promise<boolean> {
+    const result = await db.delete(ssoConnections)
+      .where(and(eq(ssoConnections.id, id), eq(ssoConnections.tenantId, tenantId)));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  async getUserSsoIdentity(connectionId: string, subject: string): Promise<UserSsoIdentity | undefined> {
+    const [identity] = await db.select().from(userSsoIdentities)
+      .where(and(eq(userSsoIdentities.connectionId, connectionId), eq(userSsoIdentities.subject, subject)));
+    return identity;
+  }
+
+  async createUserSsoIdentity(identity: InsertUserSsoIdentity): Promise<UserSsoIdentity> {
+    const [created] = await db.insert(userSsoIdentities).values(identity).returning();
+    return created;
+  }
+
+  async updateUserSsoIdentity(id: string, updates: Partial<InsertUserSsoIdentity>): Promise<UserSsoIdentity | undefined> {
+    const [updated] = await db.update(userSsoIdentities)
+      .set(updates)
+      .where(eq(userSsoIdentities.id, id))
+      .returning();
+    return updated;
+  }
+
+  async createSsoLoginRequest(request: InsertSsoLoginRequest): Promise<SsoLoginRequest> {
+    const [created] = await db.insert(ssoLoginRequests).values(request).returning();
+    return created;
+  }
+
+  async getSsoLoginRequest(id: string): Promise<SsoLoginRequest | undefined> {
+    const [request] = await db.select().from(ssoLoginRequests).where(eq(ssoLoginRequests.id, id));
+    return request;
+  }
+
+  async updateSsoLoginRequest(id: string, updates: Partial<InsertSsoLoginRequest>): Promise<SsoLoginRequest | undefined> {
+    const [updated] = await db.update(ssoLoginRequests)
+      .set(updates)
+      .where(eq(ssoLoginRequests.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getSsoLoginRequestByState(state: string): Promise<SsoLoginRequest | undefined> {
+    const [request] = await db.select().from(ssoLoginRequests).where(eq(ssoLoginRequests.state, state));
+    return request;
+  }
+
+  async completeSsoLoginRequest(id: string, userId: string, loginCodeHash: string): Promise<SsoLoginRequest | undefined> {
+    // A pending request can only be completed once, so a replayed IdP response is rejected
+    const [completed] = await db.update(ssoLoginRequests)
+      .set({ userId, loginCodeHash, completedAt: new Date() })
+      .where(and(
+        eq(ssoLoginRequests.id, id),
+        sql`${ssoLoginRequests.completedAt} IS NULL`,
+        gt(ssoLoginRequests.expiresAt, new Date())
+      ))
+      .returning();
+    return completed;
+  }
+
+  async consumeSsoLoginCode(loginCodeHash: string): Promise<SsoLoginRequest | undefined> {
+    const [consumed] = await db.update(ssoLoginRequests)
+      .set({ consumedAt: new Date() })
+      .where(and(
+        eq(ssoLoginRequests.loginCodeHash, loginCodeHash),
+        isNotNull(ssoLoginRequests.completedAt),
+        sql`${ssoLoginRequests.consumedAt} IS NULL`,
+        gt(ssoLoginRequests.expiresAt, new Date())
+      ))
+      .returning();
+    return consumed;
+  }
+
+  async getSsoDomains(tenantId: string): Promise<SsoDomain[]> {
+    return db.select().from(ssoDomains)
+      .where(eq(ssoDomains.tenantId, tenantId))
+      .orderBy(ssoDomains.domain);
+  }
+
+  async getSsoDomain(id: string, tenantId: string): Promise<SsoDomain | undefined> {
+    const [domain] = await db.select().from(ssoDomains)
+      .where(and(eq(ssoDomains.id, id), eq(ssoDomains.tenantId, tenantId)));
+    return domain;
+  }
+
+  async getVerifiedSsoDomain(domain: string): Promise<SsoDomain | undefined> {
+    // At most one tenant can hold a verified claim (unique partial index)
+    const [verified] = await db.select().from(ssoDomains)
+      .where(and(eq(ssoDomains.domain, domain.toLowerCase()), isNotNull(ssoDomains.verifiedAt)));
+    return verified;
+  }
+
+  async createSsoDomain(domain: InsertSsoDomain): Promise<SsoDomain> {
+    const [created] = await db.insert(ssoDomains).values(domain).returning();
+    return created;
+  }
+
+  async updateSsoDomain(id: string, tenantId: string, updates: Partial<InsertSsoDomain>): Promise<SsoDomain | undefined> {
+    const [updated] = await db.update(ssoDomains)
+      .set(updates)
+      .where(and(eq(ssoDomains.id, id), eq(ssoDomains.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteSsoDomain(id: string, tenantId: string): Promise<boolean> {
+    const result = await db.delete(ssoDomains)
+      .where(and(eq(ssoDomains.id, id), eq(ssoDomains.tenantId, tenantId)));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  // SCIM Provisioning
+  async getScimTokens(tenantId: string): Promise<ScimToken[]> {
+    return db.select().from(scimTokens)
+      .where(eq(scimTokens.tenantId, tenantId))
+      .orderBy(desc(scimTokens.createdAt));
+  }
+
+  async getScimTokenByHash(tokenHash: string): Promise<ScimToken | undefined> {
+    // Unauthenticated entry point: the token itself identifies the tenant
+    const [token] = await db.select().from(scimTokens).where(eq(scimTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async createScimToken(token: InsertScimToken): Promise<ScimToken> {
+    const [created] = await db.insert(scimTokens).values(token).returning();
+    return created;
+  }
+
+  async revokeScimToken(id: string, tenantId: string): Promise<ScimToken | undefined> {
+    const [revoked] = await db.update(scimTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(scimTokens.id, id), eq(scimTokens.tenantId, tenantId), sql`${scimTokens.revokedAt} IS NULL`))
+      .returning();
+    return revoked;
+  }
+
+  async touchScimToken(id: string): Promise<void> {
+    await db.update(scimTokens).set({ lastUsedAt: new Date() }).where(eq(scimTokens.id, id));
+  }
+
+  async getScimGroups(tenantId: string): Promise<ScimGroup[]> {
+    return db.select().from(scimGroups)
+      .where(eq(scimGroups.tenantId, tenantId))
+      .orderBy(scimGroups.displayName);
+  }
+
+  async getScimGroup(id: string, tenantId: string): Promise<ScimGroup | undefined> {
+    const [group] = await db.select().from(scimGroups)
+      .where(and(eq(scimGroups.id, id), eq(scimGroups.tenantId, tenantId)));
+    return group;
+  }
+
+  async createScimGroup(group: InsertScimGroup): Promise<ScimGroup> {
+    const [created] = await db.insert(scimGroups).values(group).returning();
+    return created;
+  }
+
+  async updateScimGroup(id: string, tenantId: string, updates: Partial<InsertScimGroup>): Promise<ScimGroup | undefined> {
+    const [updated] = await db.update(scimGroups)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(scimGroups.id, id), eq(scimGroups.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteScimGroup(id: string, tenantId: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx.delete(scimGroupMembers)
+        .where(and(eq(scimGroupMembers.groupId, id), eq(scimGroupMembers.tenantId, tenantId)));
+      const result = await tx.delete(scimGroups)
+        .where(and(eq(scimGroups.id, id), eq(scimGroups.tenantId, tenantId)));
+      return result.rowCount ? result.rowCount > 0 : false;
+    });
+  }
+
+  async getScimGroupMembers(tenantId: string, groupIds?: string[]): Promise<ScimGroupMember[]> {
+    const conditions = [eq(scimGroupMembers.tenantId, tenantId)];
+    if (groupIds) {
+      if (groupIds.length === 0) return [];
+      conditions.push(inArray(scimGroupMembers.groupId, groupIds));
+    }
+    return db.select().from(scimGroupMembers).where(and(...conditions));
+  }
+
+  async getScimGroupMembershipsForUser(userId: string, tenantId: string): Promise<ScimGroupMember[]> {
+    return db.select().from(scimGroupMembers)
+      .where(and(eq(scimGroupMembers.userId, userId), eq(scimGroupMembers.tenantId, tenantId)));
+  }
+
+  async replaceScimGroupMembers(groupId: string, tenantId: string, userIds: string[]): Promise<void> {
+    const uniqueUserIds = Array.from(new Set(userIds));
+    await db.transaction(async (tx) => {
+      await tx.delete(scimGroupMembers)
+        .where(and(eq(scimGroupMembers.groupId, groupId), eq(scimGroupMembers.tenantId, tenantId)));
+      if (uniqueUserIds.length > 0) {
+        await tx.insert(scimGroupMembers)
+          .values(uniqueUserIds.map((userId) => ({ tenantId, groupId, userId })));
+      }
+    });
+  }
+
   // Segregation of Duties Rules (Phase 6.3)
   async getSodRules(tenantId: string, filters?: {isActive?: boolean; severity?: string}): Promise<SodRule[]> {
     const conditions = [eq(sodRules.tenantId, tenantId)];
@@ -3879,6 +5703,47 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount ? result.rowCount > 0 : false;
   }
 
+  // Entitlement Catalog (SoD)
+  async getAppEntitlements(tenantId: string, filters?: {appId?: string; entitlementType?: string}): Promise<AppEntitlement[]> {
+    const conditions = [eq(appEntitlements.tenantId, tenantId)];
+
+    if (filters?.appId) {
+      conditions.push(eq(appEntitlements.appId, filters.appId));
+    }
+    if (filters?.entitlementType) {
+      conditions.push(eq(appEntitlements.entitlementType, filters.entitlementType));
+    }
+
+    return db.select().from(appEntitlements)
+      .where(and(...conditions))
+      .orderBy(appEntitlements.appId, appEntitlements.entitlementType, appEntitlements.value);
+  }
+
+  async getAppEntitlement(id: string, tenantId: string): Promise<AppEntitlement | undefined> {
+    const [entitlement] = await db.select().from(appEntitlements)
+      .where(and(eq(appEntitlements.id, id), eq(appEntitlements.tenantId, tenantId)));
+    return entitlement;
+  }
+
+  async createAppEntitlements(entitlements: InsertAppEntitlement[]): Promise<AppEntitlement[]> {
+    if (entitlements.length === 0) return [];
+    // Entitlements already in the catalog are left as they are
+    return db.insert(appEntitlements).values(entitlements).onConflictDoNothing().returning();
+  }
+
+  async markAppEntitlementsSeen(tenantId: string, ids: string[], seenAt: Date): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(appEntitlements)
+      .set({ lastSeenAt: seenAt, updatedAt: new Date() })
+      .where(and(eq(appEntitlements.tenantId, tenantId), inArray(appEntitlements.id, ids)));
+  }
+
+  async deleteAppEntitlement(id: string, tenantId: string): Promise<boolean> {
+    const result = await db.delete(appEntitlements)
+      .where(and(eq(appEntitlements.id, id), eq(appEntitlements.tenantId, tenantId)));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
   // Review Suggestions (Phase 6.4)
   async getReviewSuggestions(campaignId: string): Promise<ReviewSuggestion[]> {
     return db.select().from(reviewSuggestions)
@@ -5197,6 +7062,126 @@ export class DatabaseStorage implements IStorage {
       throw error;
     }
   }
+
+  async getSIEMIntegrations(tenantId: string): Promise<any[]> {
+    try {
+      const integrations = await db
+        .select()
+        .from(siemIntegrations)
+        .where(eq(siemIntegrations.tenantId, tenantId))
+        .orderBy(siemIntegrations.createdAt);
+      return integrations;
+    } catch (error) {
+      console.error('Error fetching SIEM integrations:', error);
+      throw error;
+    }
+  }
+
+  async createSIEMIntegration(data: any): Promise<any> {
+    try {
+      const result = await db
+        .insert(siemIntegrations)
+        .values({
+          ...data,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        })
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error creating SIEM integration:', error);
+      throw error;
+    }
+  }
+
+  async updateSIEMIntegration(id: string, tenantId: string, updates: any): Promise<any> {
+    try {
+      const result = await db
+        .update(siemIntegrations)
+        .set({
+          ...updates,
+          updatedAt: new Date()
+        })
+        .where(
+          and(
+            eq(siemIntegrations.id, id),
+            eq(siemIntegrations.tenantId, tenantId)
+          )
+        )
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error updating SIEM integration:', error);
+      throw error;
+    }
+  }
+
+  async deleteSIEMIntegration(id: string, tenantId: string): Promise<boolean> {
+    try {
+      const result = await db
+        .delete(siemIntegrations)
+        .where(
+          and(
+            eq(siemIntegrations.id, id),
+            eq(siemIntegrations.tenantId, tenantId)
+          )
+        );
+      return result.rowCount !== null && result.rowCount > 0;
+    } catch (error) {
+      console.error('Error deleting SIEM integration:', error);
+      return false;
+    }
+  }
+
+  async getSIEMEventLogs(tenantId: string, filters?: {daysBack?: number}): Promise<any[]> {
+    try {
+      const conditions = [eq(siemEventLog.tenantId, tenantId)];
+
+      if (filters?.daysBack) {
+        const cutoffDate = new Date(Date.now() - (filters.daysBack * 24 * 60 * 60 * 1000));
+        conditions.push(gte(siemEventLog.createdAt, cutoffDate));
+      }
+
+      return await db
+        .select()
+        .from(siemEventLog)
+        .where(and(...conditions))
+        .orderBy(desc(siemEventLog.createdAt));
+    } catch (error) {
+      console.error('Error fetching SIEM event logs:', error);
+      return [];
+    }
+  }
+
+  async createSIEMEventLog(data: any): Promise<any> {
+    try {
+      const result = await db
+        .insert(siemEventLog)
+        .values({
+          ...data,
+          createdAt: new Date()
+        })
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error('Error creating SIEM event log:', error);
+      throw error;
+    }
+  }
+
+  async getSIEMIntegrationIdsSentEvent(tenantId: string, eventId: string): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ integrationId: siemEventLog.integrationId })
+      .from(siemEventLog)
+      .where(
+        and(
+          eq(siemEventLog.tenantId, tenantId),
+          eq(siemEventLog.eventId, eventId),
+          eq(siemEventLog.status, 'sent')
+        )
+      );
+    return rows.map(row => row.integrationId);
+  }
 }
 
 // Create and seed the database storage
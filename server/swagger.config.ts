@@ -67,7 +67,7 @@ const swaggerOptions: swaggerJsDoc.Options = {
             serialNumber: { type: 'string' },
             status: {
               type: 'string',
-              enum: ['in-stock', 'deployed', 'in-repair', 'disposed'],
+              enum: ['ordered', 'received', 'in-stock', 'deployed', 'in-repair', 'retired', 'disposed'],
             },
             tenantId: { type: 'string', format: 'uuid' },
           },
@@ -121,10 +121,67 @@ const swaggerOptions: swaggerJsDoc.Options = {
             approvedAt: { type: 'string', format: 'date-time', nullable: true },
             approverNotes: { type: 'string', nullable: true },
             slaDueAt: { type: 'string', format: 'date-time' },
+            catalogItemId: { type: 'string', nullable: true },
+            grants: {
+              type: 'array',
+              description: 'App and role grants the request expands to, with how each was provisioned',
+              items: { type: 'object' },
+              nullable: true,
+            },
+            approvalSteps: {
+              type: 'array',
+              description: 'Approval chain with each step\'s approvers and decision',
+              items: { type: 'object' },
+              nullable: true,
+            },
+            currentStep: { type: 'integer', nullable: true },
+            fulfilmentTicketNumber: { type: 'string', nullable: true },
+            expiresAt: { type: 'string', format: 'date-time', nullable: true },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' },
           },
         },
+        AccessCatalogItem: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            itemType: { type: 'string', enum: ['app', 'role', 'bundle'] },
+            name: { type: 'string' },
+            description: { type: 'string', nullable: true },
+            appId: { type: 'string', nullable: true, description: 'App and role items' },
+            accessType: { type: 'string' },
+            roleName: { type: 'string', nullable: true, description: 'Role items: the app role granted' },
+            bundleItemIds: { type: 'array', items: { type: 'string' }, nullable: true },
+            approvalChain: {
+              type: 'array',
+              nullable: true,
+              description: 'Null: manager, app owner, then security review at risk score 50+',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  approverType: { type: 'string', enum: ['manager', 'app_owner', 'security', 'specific_users'] },
+                  approverIds: { type: 'array', items: { type: 'string' } },
+                  minRiskScore: { type: 'integer', minimum: 0, maximum: 100 },
+                },
+              },
+            },
+            provisioning: {
+              type: 'object',
+              nullable: true,
+              description: 'Null: app assignment through any IdP that supports it',
+              properties: {
+                method: { type: 'string', enum: ['group', 'app_assignment'] },
+                idpId: { type: 'string' },
+                groupId: { type: 'string' },
+                appRoleId: { type: 'string' },
+              },
+            },
+            maxDurationHours: { type: 'integer', nullable: true },
+            defaultDurationHours: { type: 'integer', nullable: true },
+            isActive: { type: 'boolean' },
+          },
+        },
         JitAccessSession: {
           type: 'object',
           properties: {
@@ -157,6 +214,49 @@ const swaggerOptions: swaggerJsDoc.Options = {
             updatedAt: { type: 'string', format: 'date-time' },
           },
         },
+        BreakGlassAccount: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            name: { type: 'string' },
+            system: { type: 'string' },
+            username: { type: 'string' },
+            description: { type: 'string', nullable: true },
+            sessionMinutes: { type: 'integer' },
+            pageChannelIds: { type: 'array', items: { type: 'string' } },
+            pageRecipients: { type: 'array', items: { type: 'string', format: 'email' } },
+            credentialRotatedAt: { type: 'string', format: 'date-time', nullable: true },
+            isActive: { type: 'boolean' },
+            lastUsedAt: { type: 'string', format: 'date-time', nullable: true },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        BreakGlassSession: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            accountId: { type: 'string' },
+            accountName: { type: 'string' },
+            requestedBy: { type: 'string' },
+            requestedByName: { type: 'string' },
+            justification: { type: 'string' },
+            incidentReference: { type: 'string', nullable: true },
+            status: {
+              type: 'string',
+              enum: ['pending_unseal', 'active', 'expired', 'closed', 'cancelled'],
+            },
+            unsealedBy: { type: 'string', nullable: true },
+            unsealedAt: { type: 'string', format: 'date-time', nullable: true },
+            expiresAt: { type: 'string', format: 'date-time', description: 'Unseal deadline while pending, then the end of the session' },
+            credentialViewCount: { type: 'integer' },
+            endedAt: { type: 'string', format: 'date-time', nullable: true },
+            reviewStatus: { type: 'string', enum: ['pending', 'completed'], nullable: true },
+            reviewedBy: { type: 'string', nullable: true },
+            reviewedAt: { type: 'string', format: 'date-time', nullable: true },
+            reviewFindings: { type: 'string', nullable: true },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
         SodRule: {
           type: 'object',
           properties: {
@@ -168,10 +268,17 @@ const swaggerOptions: swaggerJsDoc.Options = {
               type: 'string',
               enum: ['low', 'medium', 'high', 'critical'],
             },
-            appId1: { type: 'string', format: 'uuid' },
-            appName1: { type: 'string' },
-            appId2: { type: 'string', format: 'uuid' },
-            appName2: { type: 'string' },
+            ruleType: { type: 'string', enum: ['app_pair', 'entitlement_set'] },
+            appId1: { type: 'string', format: 'uuid', nullable: true },
+            appName1: { type: 'string', nullable: true },
+            appId2: { type: 'string', format: 'uuid', nullable: true },
+            appName2: { type: 'string', nullable: true },
+            entitlements: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/SodEntitlementRef' },
+              nullable: true,
+            },
+            minMatch: { type: 'integer', nullable: true },
             rationale: { type: 'string' },
             complianceFramework: {
               type: 'string',
@@ -188,6 +295,15 @@ const swaggerOptions: swaggerJsDoc.Options = {
             updatedAt: { type: 'string', format: 'date-time' },
           },
         },
+        SodEntitlementRef: {
+          type: 'object',
+          properties: {
+            appId: { type: 'string', nullable: true, description: 'Null for directory groups' },
+            entitlementType: { type: 'string', enum: ['access', 'role', 'permission', 'group'] },
+            value: { type: 'string', description: "Role, permission or group name; '*' for access" },
+            label: { type: 'string' },
+          },
+        },
         SodViolation: {
           type: 'object',
           properties: {
@@ -202,6 +318,12 @@ const swaggerOptions: swaggerJsDoc.Options = {
             appName1: { type: 'string' },
             appId2: { type: 'string', format: 'uuid' },
             appName2: { type: 'string' },
+            matchedEntitlements: {
+              type: 'array',
+              description: 'Exactly which entitlements collided',
+              items: { $ref: '#/components/schemas/SodEntitlementRef' },
+              nullable: true,
+            },
             severity: {
               type: 'string',
               enum: ['low', 'medium', 'high', 'critical'],
@@ -314,6 +436,7 @@ const swaggerOptions: swaggerJsDoc.Options = {
       { name: 'JIT Access', description: 'Just-In-Time temporary privilege elevation with auto-revocation' },
       { name: 'SoD', description: 'Segregation of Duties rules and violation detection' },
       { name: 'Anomaly Detection', description: 'Behavioral anomaly detection and investigation' },
+      { name: 'SCIM', description: 'SCIM 2.0 user and group provisioning from identity providers' },
     ],
   },
   apis: [
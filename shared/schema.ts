@@ -7,6 +7,10 @@ import { z } from "zod";
 export const AssetTypeEnum = z.enum(["Hardware", "Software", "Peripherals", "Others"]);
 export type AssetType = z.infer<typeof AssetTypeEnum>;
 
+// Asset lifecycle statuses, in lifecycle order; allowed transitions live in shared/utils
+export const AssetStatusEnum = z.enum(["ordered", "received", "in-stock", "deployed", "in-repair", "retired", "disposed"]);
+export type AssetStatus = z.infer<typeof AssetStatusEnum>;
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userID: integer("user_id"), // Numeric User ID for human-readable identification (unique constraint will be added after migration)
@@ -21,6 +25,7 @@ export const users = pgTable("users", {
   department: text("department"),
   jobTitle: text("job_title"),
   manager: text("manager"),
+  externalId: text("external_id"), // Identifier assigned by the provisioning client (SCIM externalId)
   lastLoginAt: timestamp("last_login_at"),
   isActive: boolean("is_active").default(true),
   mustChangePassword: boolean("must_change_password").default(false),
@@ -54,6 +59,7 @@ export const tenants = pgTable("tenants", {
   // Security Settings
   enforceSSO: boolean("enforce_sso").default(false),
   requireMFA: boolean("require_mfa").default(false),
+  ssoOnly: boolean("sso_only").default(false), // Disable password login (except super-admins) once SSO is configured
   sessionTimeout: integer("session_timeout").default(480), // minutes
   passwordPolicy: jsonb("password_policy"), // complexity rules
   // OpenAudit Integration (per-tenant)
@@ -64,6 +70,13 @@ export const tenants = pgTable("tenants", {
   openauditSyncEnabled: boolean("openaudit_sync_enabled").default(false),
   openauditSyncCron: text("openaudit_sync_cron").default("*/5 * * * *"), // Every 5 minutes
   openauditLastSync: timestamp("openaudit_last_sync"),
+  // Asset tag numbering, e.g. AST-000042
+  assetTagPrefix: text("asset_tag_prefix").notNull().default("AST-"),
+  assetTagPadding: integer("asset_tag_padding").notNull().default(6),
+  assetTagNextNumber: integer("asset_tag_next_number").notNull().default(1),
+  // Hardware warranty / AMC expiry alerts, raised at each lead time (days before expiry)
+  coverageAlertsEnabled: boolean("coverage_alerts_enabled").notNull().default(true),
+  coverageAlertDays: integer("coverage_alert_days").array().notNull().default(sql`'{90,60,30,7}'`),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -74,13 +87,14 @@ export const assets = pgTable(
     id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
 
     name: text("name").notNull(),
+    assetTag: text("asset_tag"), // Printed tag identifier (barcode/QR label), unique per tenant
     type: text("type").notNull(), // Hardware, Software, Peripherals, Others
     category: text("category"), // laptop, desktop, server, etc.
     manufacturer: text("manufacturer"),
     model: text("model"),
     serialNumber: text("serial_number"),
 
-    status: text("status").notNull().default("in-stock"), // in-stock, deployed, in-repair, disposed
+    status: text("status").notNull().default("in-stock"), // ordered, received, in-stock, deployed, in-repair, retired, disposed
     location: text("location"), // Legacy field, will be deprecated
     country: text("country"),
     state: text("state"),
@@ -106,6 +120,7 @@ export const assets = pgTable(
     licenseKey: text("license_key"),
     usedLicenses: integer("used_licenses"),
     renewalDate: timestamp("renewal_date"),
+    softwareProductId: varchar("software_product_id"), // Canonical catalog product for discovered software
 
     // Vendor information
     vendorName: text("vendor_name"),
@@ -131,11 +146,16 @@ export const assets = pgTable(
       t.tenantId,
       t.name
     ),
+    uniqTenantAssetTag: uniqueIndex("uniq_assets_tenant_asset_tag").on(
+      t.tenantId,
+      t.assetTag
+    ),
     // Performance indexes for common queries
     idxTenant: index("idx_assets_tenant").on(t.tenantId),
     idxAssignedUser: index("idx_assets_assigned_user").on(t.assignedUserId),
     idxTenantStatus: index("idx_assets_tenant_status").on(t.tenantId, t.status),
     idxTenantType: index("idx_assets_tenant_type").on(t.tenantId, t.type),
+    idxSoftwareProduct: index("idx_assets_software_product").on(t.tenantId, t.softwareProductId),
   })
 );
 
@@ -152,11 +172,47 @@ export const softwareLicenses = pgTable("software_licenses", {
   costPerLicense: decimal("cost_per_license", { precision: 10, scale: 2 }),
   renewalDate: timestamp("renewal_date"),
   notes: text("notes"),
+  productId: varchar("product_id"), // Catalog product this entitlement covers
+  licenseMetric: text("license_metric"), // per_device, per_user, per_core; null = the product's metric
   tenantId: varchar("tenant_id").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Software Products - normalization catalog of canonical products and editions
+export const softwareProducts = pgTable("software_products", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull(),
+  name: text("name").notNull(), // Canonical name, e.g. "Microsoft Office"
+  publisher: text("publisher"),
+  edition: text("edition"), // e.g. "Professional Plus"; null = single-edition product
+  category: text("category"),
+  licenseMetric: text("license_metric").notNull().default("per_device"), // per_device, per_user, per_core
+  minCoresPerDevice: integer("min_cores_per_device"), // Per-core minimum charged for each device
+  saasAppId: varchar("saas_app_id"), // SaaS contracts for this app count as entitlements
+  notes: text("notes"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (t) => ({
+  idxTenantName: index("idx_software_products_tenant_name").on(t.tenantId, t.name),
+}));
+
+// Software Normalization Rules - map raw install strings and publishers to catalog products
+export const softwareNormalizationRules = pgTable("software_normalization_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull(),
+  productId: varchar("product_id").notNull(),
+  matchType: text("match_type").notNull().default("prefix"), // exact, prefix, contains, regex
+  pattern: text("pattern").notNull(), // Compared with the version-stripped name; regex runs on the raw name
+  publisherPattern: text("publisher_pattern"), // Case-insensitive substring of the publisher; null = any
+  priority: integer("priority").notNull().default(0), // Higher wins
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (t) => ({
+  idxTenantProduct: index("idx_software_normalization_rules_tenant").on(t.tenantId, t.productId),
+}));
+
 export const assetUtilization = pgTable("asset_utilization", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   assetId: varchar("asset_id").notNull(),
@@ -179,6 +235,174 @@ export const assetSoftwareLinks = pgTable("asset_software_links", {
   uniqAssetSoftwareLink: uniqueIndex("uniq_asset_software_link").on(table.tenantId, table.assetId, table.softwareAssetId),
 }));
 
+// Asset Custody Records - one row per check-out/assignment period ("who had laptop X in March")
+export const assetCustodyRecords = pgTable("asset_custody_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull(),
+  assetId: varchar("asset_id").notNull(),
+
+  // Custodian snapshot at check-out time
+  userId: varchar("user_id"),
+  userName: text("user_name"),
+  userEmail: text("user_email"),
+  userEmployeeId: text("user_employee_id"),
+
+  checkedOutAt: timestamp("checked_out_at").notNull().defaultNow(),
+  checkedOutBy: varchar("checked_out_by"),
+  expectedReturnAt: timestamp("expected_return_at"), // null = open-ended assignment
+  checkOutNotes: text("check_out_notes"),
+
+  checkedInAt: timestamp("checked_in_at"), // null = still with the custodian
+  checkedInBy: varchar("checked_in_by"),
+  returnCondition: text("return_condition"), // good, damaged, lost
+  checkInNotes: text("check_in_notes"),
+
+  // Overdue reminders
+  lastReminderAt: timestamp("last_reminder_at"),
+  reminderCount: integer("reminder_count").notNull().default(0),
+
+  createdAt: timestamp("created_at").defaultNow(),
+}, (t) => ({
+  idxAsset: index("idx_asset_custody_asset").on(t.tenantId, t.assetId, t.checkedOutAt),
+  idxUser: index("idx_asset_custody_user").on(t.tenantId, t.userId),
+  idxOpen: index("idx_asset_custody_open").on(t.checkedInAt, t.expectedReturnAt),
+}));
+
+// Asset Lifecycle Events - status transitions and custody changes shown on the asset timeline
+export const assetLifecycleEvents = pgTable("asset_lifecycle_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull(),
+  assetId: varchar("asset_id").notNull(),
+  eventType: text("event_type").notNull(), // created, status_changed, checked_out, checked_in, reassigned, moved, overdue_reminder
+  fromStatus: text("from_status"),
+  toStatus: text("to_status"),
+  custodyRecordId: varchar("custody_record_id"),
+  description: text("description").notNull(),
+  metadata: jsonb("metadata"),
+  actorId: varchar("actor_id"), // null for system events
+  actorName: text("actor_name"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (t) => ({
+  idxAsset: index("idx_asset_lifecycle_events_asset").on(t.tenantId, t.assetId, t.createdAt),
+}));
+
+// Depreciation Schedules - per-category finance rules for book value (category null = tenant default)
+export const depreciationSchedules = pgTable("depreciation_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull(),
+  name: text("name").notNull(),
+  category: text("category"), // Matches assets.category case-insensitively; null = default
+  method: text("method").notNull().default("straight_line"), // straight_line, declining_balance
+  usefulLifeMonths: integer("useful_life_months").notNull(),
+  salvagePercent: decimal("salvage_percent", { precision: 5, scale: 2 }).notNull().default("0"), // % of cost
+  decliningRate: decimal("declining_rate", { precision: 4, scale: 2 }), // Multiple of the straight-line rate, e.g. 2.00 = double-declining
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (t) => ({
+  uniqTenantCategory: uniqueIndex("uniq_depreciation_schedules_tenant_category").on(t.tenantId, t.category),
+}));
+
+// Inventory Audits - physical audit campaigns reconciling a site or location against the asset register
+export const inventoryAudits = pgTable("inventory_audits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull(),
+  name: text("name").notNull(),
+  siteId: varchar("site_id"), // Audited site; null when scoped to a free-text location
+  location: text("location").notNull(), // Asset location audited (the site's name for site audits)
+  status: text("status").notNull().default("open"), // open, closed, cancelled
+  notes: text("notes"),
+  createdBy: varchar("created_by"),
+  createdByName: text("created_by_name"),
+  closedAt: timestamp("closed_at"),
+  closedBy: varchar("closed_by"),
+  closedByName: text("closed_by_name"),
+  closeOptions: jsonb("close_options"), // Bulk actions chosen at close
+  summary: jsonb("summary"), // Variance counts frozen at close
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (t) => ({
+  idxTenantStatus: index("idx_inventory_audits_tenant_status").on(t.tenantId, t.status),
+}));
+
+// Inventory Audit Items - assets expected at the audited location (snapshotted at start) and every scan
+export const inventoryAuditItems = pgTable("inventory_audit_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull(),
+  auditId: varchar("audit_id").notNull(),
+  assetId: varchar("asset_id"), // null for codes that match no asset
+  assetName: text("asset_name"),
+  assetTag: text("asset_tag"),
+  serialNumber: text("serial_number"),
+  expected: boolean("expected").notNull().default(false), // In the register at this location when the audit started
+  registeredLocation: text("registered_location"), // Register location when snapshotted or scanned
+  result: text("result").notNull().default("pending"), // pending, found, missing, wrong_location, unexpected
+  scannedCode: text("scanned_code"),
+  scannedAt: timestamp("scanned_at"),
+  scannedBy: varchar("scanned_by"),
+  scannedByName: text("scanned_by_name"),
+  notes: text("notes"),
+  resolution: jsonb("resolution"), // Changes applied at close: status, location, ticket
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (t) => ({
+  idxAudit: index("idx_inventory_audit_items_audit").on(t.tenantId, t.auditId),
+  uniqAuditAsset: uniqueIndex("uniq_inventory_audit_items_audit_asset").on(t.auditId, t.assetId),
+}));
+
+// Business Services - the services the CMDB graph reports as affected (e.g. Payroll, Email, VPN)
+export const businessServices = pgTable("business_services", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  criticality: text("criticality").notNull().default("medium"), // low, medium, high, critical
+  ownerId: varchar("owner_id"), // Accountable user; also expressible as an owned_by relationship
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (t) => ({
+  uniqTenantName: uniqueIndex("uniq_business_services_tenant_name").on(t.tenantId, t.name),
+}));
+
+// Configuration Item Relationships - typed, directed CMDB edges: source <relationship> target,
+// e.g. "Payroll (service) runs_on db-01 (asset)" or "db-01 (asset) owned_by Jane (user)"
+export const ciRelationships = pgTable("ci_relationships", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull(),
+  sourceType: text("source_type").notNull(), // asset, saas_app, site, user, service
+  sourceId: varchar("source_id").notNull(),
+  targetType: text("target_type").notNull(),
+  targetId: varchar("target_id").notNull(),
+  relationshipType: text("relationship_type").notNull(), // runs_on, depends_on, connected_to, backs_up, owned_by
+  notes: text("notes"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (t) => ({
+  idxSource: index("idx_ci_relationships_source").on(t.tenantId, t.sourceType, t.sourceId),
+  idxTarget: index("idx_ci_relationships_target").on(t.tenantId, t.targetType, t.targetId),
+  uniqEdge: uniqueIndex("uniq_ci_relationships_edge").on(t.tenantId, t.sourceType, t.sourceId, t.targetType, t.targetId, t.relationshipType),
+}));
+
+// Coverage Alerts - warranty and AMC expiry alerts, one per asset, coverage, expiry date and lead time
+export const coverageAlerts = pgTable("coverage_alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull(),
+  assetId: varchar("asset_id").notNull(),
+  coverageType: text("coverage_type").notNull(), // warranty, amc
+  expiresAt: timestamp("expires_at").notNull(), // Coverage end date the alert was raised for
+  leadDays: integer("lead_days").notNull(), // Lead time reached; 0 once coverage has lapsed
+  vendor: text("vendor"), // Vendor (or manufacturer) the renewal quote goes to
+  status: text("status").notNull().default("open"), // open, acknowledged, renewed
+  acknowledgedBy: varchar("acknowledged_by"),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (t) => ({
+  idxTenantStatus: index("idx_coverage_alerts_tenant_status").on(t.tenantId, t.status),
+  uniqAlert: uniqueIndex("uniq_coverage_alerts_asset_lead").on(t.assetId, t.coverageType, t.expiresAt, t.leadDays),
+}));
+
 export const recommendations = pgTable("recommendations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   type: text("type").notNull(), // downgrade, upgrade, reallocation, license-optimization
@@ -279,7 +503,7 @@ export const tickets = pgTable("tickets", {
   description: text("description").notNull(),
   category: text("category").notNull(), // hardware, software, network, account, other
   priority: text("priority").notNull().default("medium"), // low, medium, high, urgent
-  status: text("status").notNull().default("open"), // open, in-progress, resolved, closed, cancelled
+  status: text("status").notNull().default("open"), // open, in-progress, awaiting-requestor, resolved, closed, cancelled
 
   // User relationships
   requestorId: varchar("requestor_id").notNull(), // Employee who raised the ticket
@@ -303,6 +527,22 @@ export const tickets = pgTable("tickets", {
   assetName: text("asset_name"),
   attachments: jsonb("attachments"), // File attachments metadata
   tags: text("tags").array(), // Array of tags for categorization
+  siteId: varchar("site_id"), // Site whose timezone drives the SLA business-hours calendar
+  impactedServices: jsonb("impacted_services"), // Business services affected via the CMDB graph when the ticket was raised
+
+  // SLA tracking (business-hours targets from the matching ticket SLA policy)
+  slaPolicyId: varchar("sla_policy_id"),
+  slaStatus: text("sla_status"), // on_track, at_risk, breached, paused, met; null = no SLA
+  firstResponseAt: timestamp("first_response_at"),
+  responseDueAt: timestamp("response_due_at"),
+  resolutionDueAt: timestamp("resolution_due_at"),
+  responseWarningAt: timestamp("response_warning_at"),
+  resolutionWarningAt: timestamp("resolution_warning_at"),
+  responseBreachedAt: timestamp("response_breached_at"),
+  resolutionBreachedAt: timestamp("resolution_breached_at"),
+  slaPausedAt: timestamp("sla_paused_at"), // Set while the ticket waits on the requestor
+  slaPausedMinutes: integer("sla_paused_minutes").default(0), // Business minutes spent paused
+  escalatedAt: timestamp("escalated_at"),
 
   // Tenant isolation
   tenantId: varchar("tenant_id").notNull(),
@@ -314,6 +554,7 @@ export const tickets = pgTable("tickets", {
   idxRequestor: index("idx_tickets_requestor").on(t.requestorId),
   idxAssignedTo: index("idx_tickets_assigned_to").on(t.assignedToId),
   idxTenantCreated: index("idx_tickets_tenant_created").on(t.tenantId, t.createdAt),
+  idxSlaStatus: index("idx_tickets_sla_status").on(t.tenantId, t.slaStatus),
 }));
 
 // Ticket Comments for communication trail
@@ -350,6 +591,29 @@ export const ticketActivities = pgTable("ticket_activities", {
   idxTenant: index("idx_ticket_activities_tenant").on(t.tenantId),
 }));
 
+// Ticket SLA Policies - Response/resolution targets keyed by category and priority
+export const ticketSlaPolicies = pgTable("ticket_sla_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  category: text("category"), // null = any category
+  priority: text("priority"), // null = any priority
+  responseMinutes: integer("response_minutes").notNull(), // Business minutes to first response
+  resolutionMinutes: integer("resolution_minutes").notNull(), // Business minutes to resolution
+  warningThresholdPercent: integer("warning_threshold_percent").notNull().default(75),
+  businessHours: jsonb("business_hours"), // { days: [1..5], start: "09:00", end: "17:00" }; null = 24x7
+  timezone: text("timezone").default("UTC"), // Used when the ticket's site has no timezone
+  escalationAction: text("escalation_action").notNull().default("escalate_manager"), // none, reassign, escalate_manager
+  escalateToId: varchar("escalate_to_id"), // Reassignment target for the "reassign" action
+  isActive: boolean("is_active").default(true),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (t) => ({
+  idxTenant: index("idx_ticket_sla_policies_tenant").on(t.tenantId),
+}));
+
 // Insert Schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -376,13 +640,180 @@ export const insertAssetSchema = createInsertSchema(assets, {
   updatedAt: true,
 }).extend({
   type: AssetTypeEnum, // Enforce Title Case asset types
+  status: AssetStatusEnum.default("in-stock"),
   purchaseCost: z.number().nonnegative().optional().or(z.undefined()),
 });
 
+export const assetStatusTransitionSchema = z.object({
+  status: AssetStatusEnum,
+  notes: z.string().max(1000).optional(),
+});
+
+export const checkOutAssetSchema = z.object({
+  userId: z.string().min(1, "Custodian is required"),
+  expectedReturnAt: z.coerce.date().optional(), // Omit for an open-ended assignment
+  notes: z.string().max(1000).optional(),
+});
+
+export const checkInAssetSchema = z.object({
+  condition: z.enum(["good", "damaged", "lost"]).default("good"),
+  notes: z.string().max(1000).optional(),
+});
+
+export const moveAssetSchema = z.object({
+  siteId: z.string().min(1, "Site is required"),
+  notes: z.string().max(1000).optional(),
+});
+
+export const assetTagSettingsSchema = z.object({
+  prefix: z.string().max(16).regex(/^[A-Za-z0-9._\/-]*$/, "Prefix may only contain letters, digits and . _ / -"),
+  padding: z.number().int().min(1).max(12),
+  nextNumber: z.number().int().min(1).optional(),
+});
+
+export const AssetLabelSymbologyEnum = z.enum(["qr", "code128"]);
+export const AssetLabelLayoutEnum = z.enum(["letter-30", "a4-24"]);
+
+export const assetLabelSheetSchema = z.object({
+  assetIds: z.array(z.string()).max(1000).optional(),
+  filters: z.object({
+    type: z.string().optional(),
+    status: z.string().optional(),
+    category: z.string().optional(),
+    search: z.string().optional(),
+  }).optional(),
+  symbology: AssetLabelSymbologyEnum.default("qr"),
+  layout: AssetLabelLayoutEnum.default("letter-30"),
+  startPosition: z.number().int().min(1).default(1), // First free label on a partly used sheet
+});
+
+export const InventoryAuditStatusEnum = z.enum(["open", "closed", "cancelled"]);
+export const InventoryAuditResultEnum = z.enum(["pending", "found", "missing", "wrong_location", "unexpected"]);
+
+export const insertInventoryAuditSchema = z.object({
+  name: z.string().trim().min(1, "Audit name is required").max(200),
+  siteId: z.string().min(1).optional(),
+  location: z.string().trim().min(1).optional(), // Free-text asset location when there is no site
+  notes: z.string().max(2000).optional(),
+}).refine(data => !!data.siteId !== !!data.location, {
+  message: "Scope the audit to either a site or a location",
+  path: ["siteId"],
+});
+
+export const inventoryAuditScanSchema = z.object({
+  code: z.string().trim().min(1, "Scanned code is required"),
+  notes: z.string().max(1000).optional(),
+});
+
+// Manual confirmation of an expected asset without scanning it
+export const updateInventoryAuditItemSchema = z.object({
+  result: z.enum(["pending", "found", "missing"]),
+  notes: z.string().max(1000).optional(),
+});
+
+export const closeInventoryAuditSchema = z.object({
+  relocateWrongLocation: z.boolean().default(false), // Move assets found here but registered elsewhere to this location
+  missingStatus: AssetStatusEnum.optional(), // Status for missing assets; omit to leave them unchanged
+  createTicketsForMissing: z.boolean().default(false),
+  notes: z.string().max(2000).optional(),
+});
+
+export const CiNodeTypeEnum = z.enum(["asset", "saas_app", "site", "user", "service"]);
+export const CiRelationshipTypeEnum = z.enum(["runs_on", "depends_on", "connected_to", "backs_up", "owned_by"]);
+export const ServiceCriticalityEnum = z.enum(["low", "medium", "high", "critical"]);
+
+export const insertBusinessServiceSchema = z.object({
+  name: z.string().trim().min(1, "Service name is required").max(200),
+  description: z.string().max(2000).nullable().optional(),
+  criticality: ServiceCriticalityEnum.default("medium"),
+  ownerId: z.string().nullable().optional(),
+  isActive: z.boolean().default(true),
+});
+
+export const insertCiRelationshipSchema = z.object({
+  sourceType: CiNodeTypeEnum,
+  sourceId: z.string().min(1),
+  targetType: CiNodeTypeEnum,
+  targetId: z.string().min(1),
+  relationshipType: CiRelationshipTypeEnum,
+  notes: z.string().max(1000).nullable().optional(),
+}).refine(data => data.sourceType !== data.targetType || data.sourceId !== data.targetId, {
+  message: "A configuration item cannot be related to itself",
+  path: ["targetId"],
+});
+
+export const CoverageTypeEnum = z.enum(["warranty", "amc"]);
+export const CoverageAlertStatusEnum = z.enum(["open", "acknowledged", "renewed"]);
+
+export const coverageAlertSettingsSchema = z.object({
+  enabled: z.boolean(),
+  leadDays: z.array(z.number().int().min(1).max(730)).min(1).max(10)
+    .transform(days => Array.from(new Set(days)).sort((a, b) => b - a)),
+});
+
+export const renewCoverageSchema = z.object({
+  assetIds: z.array(z.string()).min(1).max(1000),
+  coverageType: CoverageTypeEnum,
+  expiresAt: z.coerce.date(),
+  vendorName: z.string().max(200).optional(), // Renewed through a different vendor
+  notes: z.string().max(2000).optional(),
+});
+
+export const warrantyLookupRequestSchema = z.object({
+  assetIds: z.array(z.string()).min(1).max(200),
+  apply: z.boolean().default(false), // Write found warranty/AMC dates back to the assets
+});
+
+export const DepreciationMethodEnum = z.enum(["straight_line", "declining_balance"]);
+
+export const insertDepreciationScheduleSchema = z.object({
+  name: z.string().min(1, "Schedule name is required"),
+  category: z.string().trim().min(1).nullable().optional(), // Omit for the tenant default
+  method: DepreciationMethodEnum.default("straight_line"),
+  usefulLifeMonths: z.number().int().min(1).max(600),
+  salvagePercent: z.number().min(0).max(100).default(0),
+  decliningRate: z.number().min(1).max(4).optional(),
+  isActive: z.boolean().default(true),
+});
+
+export const LicenseMetricEnum = z.enum(["per_device", "per_user", "per_core"]);
+export const NormalizationMatchTypeEnum = z.enum(["exact", "prefix", "contains", "regex"]);
+
+export const insertSoftwareProductSchema = z.object({
+  name: z.string().trim().min(1, "Product name is required").max(200),
+  publisher: z.string().trim().max(200).nullable().optional(),
+  edition: z.string().trim().max(200).nullable().optional(),
+  category: z.string().trim().max(100).nullable().optional(),
+  licenseMetric: LicenseMetricEnum.default("per_device"),
+  minCoresPerDevice: z.number().int().min(1).max(1024).nullable().optional(),
+  saasAppId: z.string().nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  isActive: z.boolean().default(true),
+});
+
+export const insertSoftwareNormalizationRuleSchema = z.object({
+  productId: z.string().min(1, "Product is required"),
+  matchType: NormalizationMatchTypeEnum.default("prefix"),
+  pattern: z.string().trim().min(1, "Pattern is required").max(500),
+  publisherPattern: z.string().trim().max(200).nullable().optional(),
+  priority: z.number().int().min(-1000).max(1000).default(0),
+  isActive: z.boolean().default(true),
+}).refine(rule => {
+  if (rule.matchType !== "regex") return true;
+  try {
+    new RegExp(rule.pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: "Pattern is not a valid regular expression", path: ["pattern"] });
+
 export const insertSoftwareLicenseSchema = createInsertSchema(softwareLicenses).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  licenseMetric: LicenseMetricEnum.nullable().optional(),
 });
 
 export const insertAssetUtilizationSchema = createInsertSchema(assetUtilization).omit({
@@ -420,6 +851,18 @@ export const insertMasterDataSchema = createInsertSchema(masterData).omit({
 export const insertTicketSchema = createInsertSchema(tickets).omit({
   id: true,
   ticketNumber: true,
+  slaPolicyId: true,
+  slaStatus: true,
+  firstResponseAt: true,
+  responseDueAt: true,
+  resolutionDueAt: true,
+  responseWarningAt: true,
+  resolutionWarningAt: true,
+  responseBreachedAt: true,
+  resolutionBreachedAt: true,
+  slaPausedAt: true,
+  slaPausedMinutes: true,
+  escalatedAt: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -434,6 +877,12 @@ export const insertTicketActivitySchema = createInsertSchema(ticketActivities).o
   createdAt: true,
 });
 
+export const insertTicketSlaPolicySchema = createInsertSchema(ticketSlaPolicies).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // User Invitations Table
 export const userInvitations = pgTable("user_invitations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -478,12 +927,56 @@ export type Tenant = typeof tenants.$inferSelect;
 export type InsertTenant = z.infer<typeof insertTenantSchema>;
 export type Asset = typeof assets.$inferSelect;
 export type InsertAsset = z.infer<typeof insertAssetSchema>;
+export type AssetStatusTransition = z.infer<typeof assetStatusTransitionSchema>;
+export type CheckOutAsset = z.infer<typeof checkOutAssetSchema>;
+export type CheckInAsset = z.infer<typeof checkInAssetSchema>;
+export type MoveAsset = z.infer<typeof moveAssetSchema>;
+export type AssetTagSettings = z.infer<typeof assetTagSettingsSchema>;
+export type AssetLabelSheet = z.infer<typeof assetLabelSheetSchema>;
+export type InventoryAudit = typeof inventoryAudits.$inferSelect;
+export type InsertInventoryAudit = typeof inventoryAudits.$inferInsert;
+export type InventoryAuditItem = typeof inventoryAuditItems.$inferSelect;
+export type InsertInventoryAuditItem = typeof inventoryAuditItems.$inferInsert;
+export type InventoryAuditStatus = z.infer<typeof InventoryAuditStatusEnum>;
+export type InventoryAuditResult = z.infer<typeof InventoryAuditResultEnum>;
+export type CreateInventoryAudit = z.infer<typeof insertInventoryAuditSchema>;
+export type InventoryAuditScan = z.infer<typeof inventoryAuditScanSchema>;
+export type UpdateInventoryAuditItem = z.infer<typeof updateInventoryAuditItemSchema>;
+export type CloseInventoryAudit = z.infer<typeof closeInventoryAuditSchema>;
+export type BusinessService = typeof businessServices.$inferSelect;
+export type InsertBusinessService = typeof businessServices.$inferInsert;
+export type CiRelationship = typeof ciRelationships.$inferSelect;
+export type InsertCiRelationship = typeof ciRelationships.$inferInsert;
+export type CiNodeType = z.infer<typeof CiNodeTypeEnum>;
+export type CiRelationshipType = z.infer<typeof CiRelationshipTypeEnum>;
+export type CreateBusinessService = z.infer<typeof insertBusinessServiceSchema>;
+export type CreateCiRelationship = z.infer<typeof insertCiRelationshipSchema>;
+export type CoverageAlert = typeof coverageAlerts.$inferSelect;
+export type InsertCoverageAlert = typeof coverageAlerts.$inferInsert;
+export type CoverageType = z.infer<typeof CoverageTypeEnum>;
+export type CoverageAlertStatus = z.infer<typeof CoverageAlertStatusEnum>;
+export type CoverageAlertSettings = z.infer<typeof coverageAlertSettingsSchema>;
+export type RenewCoverage = z.infer<typeof renewCoverageSchema>;
+export type WarrantyLookupRequest = z.infer<typeof warrantyLookupRequestSchema>;
+export type DepreciationSchedule = typeof depreciationSchedules.$inferSelect;
+export type InsertDepreciationSchedule = typeof depreciationSchedules.$inferInsert;
+export type DepreciationMethod = z.infer<typeof DepreciationMethodEnum>;
 export type SoftwareLicense = typeof softwareLicenses.$inferSelect;
 export type InsertSoftwareLicense = z.infer<typeof insertSoftwareLicenseSchema>;
+export type SoftwareProduct = typeof softwareProducts.$inferSelect;
+export type InsertSoftwareProduct = typeof softwareProducts.$inferInsert;
+export type SoftwareNormalizationRule = typeof softwareNormalizationRules.$inferSelect;
+export type InsertSoftwareNormalizationRule = typeof softwareNormalizationRules.$inferInsert;
+export type LicenseMetric = z.infer<typeof LicenseMetricEnum>;
+export type NormalizationMatchType = z.infer<typeof NormalizationMatchTypeEnum>;
 export type AssetUtilization = typeof assetUtilization.$inferSelect;
 export type InsertAssetUtilization = z.infer<typeof insertAssetUtilizationSchema>;
 export type AssetSoftwareLink = typeof assetSoftwareLinks.$inferSelect;
 export type InsertAssetSoftwareLink = typeof assetSoftwareLinks.$inferInsert;
+export type AssetCustodyRecord = typeof assetCustodyRecords.$inferSelect;
+export type InsertAssetCustodyRecord = typeof assetCustodyRecords.$inferInsert;
+export type AssetLifecycleEvent = typeof assetLifecycleEvents.$inferSelect;
+export type InsertAssetLifecycleEvent = typeof assetLifecycleEvents.$inferInsert;
 export type Recommendation = typeof recommendations.$inferSelect;
 export type InsertRecommendation = z.infer<typeof insertRecommendationSchema>;
 export type UserPreferences = typeof userPreferences.$inferSelect;
@@ -500,6 +993,8 @@ export type TicketComment = typeof ticketComments.$inferSelect;
 export type InsertTicketComment = z.infer<typeof insertTicketCommentSchema>;
 export type TicketActivity = typeof ticketActivities.$inferSelect;
 export type InsertTicketActivity = z.infer<typeof insertTicketActivitySchema>;
+export type TicketSlaPolicy = typeof ticketSlaPolicies.$inferSelect;
+export type InsertTicketSlaPolicy = z.infer<typeof insertTicketSlaPolicySchema>;
 export type LoginRequest = z.infer<typeof loginSchema>;
 export type RegisterRequest = z.infer<typeof registerSchema>;
 
@@ -542,6 +1037,7 @@ export const updateOrgSettingsSchema = z.object({
   dateFormat: z.string(),
   autoRecommendations: z.boolean(),
   dataRetentionDays: z.number().int().min(30).max(2555), // 30 days to 7 years
+  requireMFA: z.boolean().optional(), // Enforce login MFA for admin and super-admin roles
 });
 
 // User invitation schemas
@@ -596,6 +1092,7 @@ export const updateTicketSchema = z.object({
   priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
   assetId: z.string().optional(),
   assetName: z.string().optional(),
+  siteId: z.string().optional(),
 });
 
 export const assignTicketSchema = z.object({
@@ -608,7 +1105,7 @@ export const addTicketCommentSchema = z.object({
 });
 
 export const updateTicketStatusSchema = z.object({
-  status: z.enum(["open", "in-progress", "resolved", "closed", "cancelled"]),
+  status: z.enum(["open", "in-progress", "awaiting-requestor", "resolved", "closed", "cancelled"]),
   resolution: z.string().max(2000, "Resolution too long").optional(),
   resolutionNotes: z.string().max(2000, "Resolution notes too long").optional(),
 });
@@ -681,17 +1178,20 @@ export type InsertSite = z.infer<typeof insertSiteSchema>;
 export const discoveryJobs = pgTable("discovery_jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   jobId: text("job_id").notNull().unique(), // Short alphanumeric ID for user reference
-  status: text("status").notNull().default("pending"), // pending, running, completed, failed, expired
+  status: text("status").notNull().default("pending"), // pending, running, completed, failed, cancelled, expired
   
   // Job metadata
   initiatedBy: varchar("initiated_by").notNull(), // User who started the discovery
   initiatedByName: text("initiated_by_name").notNull(),
-  osType: text("os_type").notNull(), // windows, macos, linux
+  osType: text("os_type").notNull(), // windows, macos, linux (downloaded scanner), server
+  scanMode: text("scan_mode").notNull().default("agent"), // agent (downloaded scanner), server (SNMP/port scan run by the server)
   
   // Site/network scope
   siteId: varchar("site_id"), // Optional site assignment
   siteName: text("site_name"),
   networkRange: text("network_range"), // CIDR or IP range being scanned
+  credentialProfileIds: jsonb("credential_profile_ids"), // Credential profiles tried, in order (server scans)
+  scanOptions: jsonb("scan_options"), // { snmpPort, ports, timeoutMs, concurrency } (server scans)
   
   // Progress tracking
   totalHosts: integer("total_hosts").default(0), // Total hosts discovered
@@ -786,6 +1286,59 @@ export const enrollmentSessions = pgTable("enrollment_sessions", {
   expiresAt: timestamp("expires_at").notNull(),
 });
 
+// Agent Devices - per-device credential issued at enrollment, plus check-in state
+export const agentDevices = pgTable("agent_devices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull(),
+  assetId: varchar("asset_id").notNull(), // Hardware asset the agent reports for
+  hostname: text("hostname").notNull(),
+  serialNumber: text("serial_number"),
+
+  // Credential (plaintext is returned once, at enrollment)
+  credentialHash: text("credential_hash").notNull().unique(), // SHA-256 of the agent token
+  credentialPrefix: text("credential_prefix").notNull(),
+
+  // Agent details
+  platform: text("platform"),
+  agentVersion: text("agent_version"),
+  checkInIntervalSeconds: integer("check_in_interval_seconds").notNull().default(3600),
+
+  // Check-in state
+  lastCheckInAt: timestamp("last_check_in_at"),
+  lastIp: text("last_ip"),
+  lastInventoryAt: timestamp("last_inventory_at"), // Last full or delta inventory applied
+  inventoryHashes: jsonb("inventory_hashes"), // Section -> hash of the last reported snapshot
+
+  status: text("status").notNull().default("active"), // active, revoked
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (t) => ({
+  idxTenant: index("idx_agent_devices_tenant").on(t.tenantId),
+  idxAsset: index("idx_agent_devices_asset").on(t.tenantId, t.assetId),
+}));
+
+// Agent Commands - pull-based queue delivered to the agent on check-in
+export const agentCommands = pgTable("agent_commands", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull(),
+  agentDeviceId: varchar("agent_device_id").notNull(),
+  assetId: varchar("asset_id").notNull(),
+  commandType: text("command_type").notNull(), // reinventory, uninstall_package
+  payload: jsonb("payload"), // e.g. { packageName } for uninstall_package
+  status: text("status").notNull().default("pending"), // pending, delivered, succeeded, failed, cancelled, expired
+  result: jsonb("result"), // { exitCode, output } reported by the agent
+  issuedBy: varchar("issued_by").notNull(),
+  deliveredAt: timestamp("delivered_at"),
+  deliveryAttempts: integer("delivery_attempts").notNull().default(0), // Redelivered until the agent reports a result
+  completedAt: timestamp("completed_at"),
+  expiresAt: timestamp("expires_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (t) => ({
+  idxDeviceStatus: index("idx_agent_commands_device_status").on(t.agentDeviceId, t.status),
+  idxTenant: index("idx_agent_commands_tenant").on(t.tenantId),
+}));
+
 // Credential Profiles - store SNMP credentials for discovery
 export const credentialProfiles = pgTable("credential_profiles", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -892,6 +1445,22 @@ export const insertEnrollmentTokenSchema = createInsertSchema(enrollmentTokens).
   updatedAt: true,
 });
 
+export const insertAgentDeviceSchema = createInsertSchema(agentDevices).omit({
+  id: true,
+  revokedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAgentCommandSchema = createInsertSchema(agentCommands).omit({
+  id: true,
+  result: true,
+  deliveredAt: true,
+  deliveryAttempts: true,
+  completedAt: true,
+  createdAt: true,
+});
+
 export const insertCredentialProfileSchema = createInsertSchema(credentialProfiles).omit({
   id: true,
   createdAt: true,
@@ -911,6 +1480,20 @@ export const createDiscoveryJobSchema = z.object({
   networkRange: z.string().optional(), // CIDR notation
 });
 
+// Server-side SNMP/port scan of a site's networkRanges (or explicit ranges)
+export const createNetworkScanJobSchema = z.object({
+  siteId: z.string().optional(),
+  networkRanges: z.array(z.string().min(1)).min(1).optional(), // CIDR, single IP or a.b.c.d-e
+  credentialProfileIds: z.array(z.string()).optional(), // Defaults to all active profiles by priority
+  snmpPort: z.number().int().min(1).max(65535).default(161),
+  ports: z.array(z.number().int().min(1).max(65535)).max(64).optional(),
+  timeoutMs: z.number().int().min(200).max(10000).default(1500),
+  concurrency: z.number().int().min(1).max(64).default(16),
+}).refine(job => !!job.siteId || !!job.networkRanges, {
+  message: "A site or at least one network range is required",
+  path: ["networkRanges"],
+});
+
 export const uploadDiscoveryResultsSchema = z.object({
   devices: z.array(z.object({
     ipAddress: z.string(),
@@ -940,6 +1523,7 @@ export const importDiscoveredDevicesSchema = z.object({
   siteId: z.string().optional(),
   siteName: z.string().optional(),
   tags: z.array(z.string()).optional(),
+  mergeDuplicates: z.boolean().default(false), // Update the matched asset instead of skipping duplicates
 });
 
 export const createCredentialProfileSchema = z.object({
@@ -1720,7 +2304,7 @@ export const insertIdentityProviderSchema = createInsertSchema(identityProviders
   createdAt: true,
   updatedAt: true,
 }).extend({
-  type: z.enum(["azuread", "okta", "google", "jumpcloud"]),
+  type: z.enum(["azuread", "okta", "google", "jumpcloud", "onelogin", "keycloak", "ldap"]),
   status: z.enum(["active", "disabled", "error"]).default("active"),
   syncStatus: z.enum(["idle", "syncing", "error"]).default("idle"),
 });
@@ -1775,11 +2359,16 @@ export type InsertDiscoveryToken = z.infer<typeof insertDiscoveryTokenSchema>;
 export type EnrollmentToken = typeof enrollmentTokens.$inferSelect;
 export type InsertEnrollmentToken = z.infer<typeof insertEnrollmentTokenSchema>;
 export type CreateEnrollmentToken = z.infer<typeof createEnrollmentTokenSchema>;
+export type AgentDevice = typeof agentDevices.$inferSelect;
+export type InsertAgentDevice = z.infer<typeof insertAgentDeviceSchema>;
+export type AgentCommand = typeof agentCommands.$inferSelect;
+export type InsertAgentCommand = z.infer<typeof insertAgentCommandSchema>;
 export type CredentialProfile = typeof credentialProfiles.$inferSelect;
 export type InsertCredentialProfile = z.infer<typeof insertCredentialProfileSchema>;
 export type DiscoveredDevice = typeof discoveredDevices.$inferSelect;
 export type InsertDiscoveredDevice = z.infer<typeof insertDiscoveredDeviceSchema>;
 export type CreateDiscoveryJob = z.infer<typeof createDiscoveryJobSchema>;
+export type CreateNetworkScanJob = z.infer<typeof createNetworkScanJobSchema>;
 export type UploadDiscoveryResults = z.infer<typeof uploadDiscoveryResultsSchema>;
 export type ImportDiscoveredDevices = z.infer<typeof importDiscoveredDevicesSchema>;
 export type CreateCredentialProfile = z.infer<typeof createCredentialProfileSchema>;
@@ -2212,6 +2801,68 @@ export type InsertPolicyTemplate = z.infer<typeof insertPolicyTemplateSchema>;
 export type PolicyApproval = typeof policyApprovals.$inferSelect;
 export type InsertPolicyApproval = z.infer<typeof insertPolicyApprovalSchema>;
 
+// Event Outbox Table - durable record of every event emitted through the EventSystem
+export const eventOutbox = pgTable(
+  "event_outbox",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    eventName: text("event_name").notNull(),
+    payload: jsonb("payload").$type<Record<string, any>>().notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    idxTenant: index("idx_event_outbox_tenant").on(table.tenantId),
+    idxEventName: index("idx_event_outbox_event_name").on(table.tenantId, table.eventName),
+    idxCreated: index("idx_event_outbox_created").on(table.createdAt),
+  })
+);
+
+// Event Deliveries Table - one row per (event, consumer), tracks retries and dead-lettering
+export const eventDeliveries = pgTable(
+  "event_deliveries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    eventId: varchar("event_id").notNull(),
+    eventName: text("event_name").notNull(),
+    consumer: text("consumer").notNull(), // policy-engine, alert-engine, remediation-engine, siem
+
+    status: text("status").notNull().default('pending'), // pending, processing, delivered, failed, dead_letter
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(8),
+    nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+    lockedAt: timestamp("locked_at"),
+    lastError: text("last_error"),
+    deliveredAt: timestamp("delivered_at"),
+    deadLetteredAt: timestamp("dead_lettered_at"),
+
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    idxTenantStatus: index("idx_event_deliveries_tenant_status").on(table.tenantId, table.status),
+    idxDue: index("idx_event_deliveries_due").on(table.status, table.nextAttemptAt),
+    idxEvent: index("idx_event_deliveries_event").on(table.eventId),
+  })
+);
+
+export const insertEventOutboxSchema = createInsertSchema(eventOutbox).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertEventDeliverySchema = createInsertSchema(eventDeliveries).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type EventOutboxRecord = typeof eventOutbox.$inferSelect;
+export type InsertEventOutboxRecord = z.infer<typeof insertEventOutboxSchema>;
+export type EventDelivery = typeof eventDeliveries.$inferSelect;
+export type InsertEventDelivery = z.infer<typeof insertEventDeliverySchema>;
+
 // ========================================
 // Phase 5: Identity Governance & Access Reviews
 // ========================================
@@ -2238,6 +2889,11 @@ export const accessReviewCampaigns = pgTable(
     dueDate: timestamp("due_date").notNull(),
     autoApproveOnTimeout: boolean("auto_approve_on_timeout").default(false),
 
+    // Certification stages, reviewed in order (e.g. manager, then app owner, then security for
+    // high-risk items); null means a single manager stage
+    stages: jsonb("stages").$type<Array<{ name: string; reviewerType: string; reviewerIds?: string[]; riskLevels?: string[]; dueInDays?: number }>>(),
+    fallbackReviewerId: varchar("fallback_reviewer_id"), // When a stage resolves no eligible reviewer
+
     // Status tracking
     status: text("status").notNull().default("draft"), // 'draft', 'active', 'completed', 'cancelled'
     totalItems: integer("total_items").default(0),
@@ -2294,6 +2950,12 @@ export const accessReviewItems = pgTable(
     decisionNotes: text("decision_notes"),
     reviewedAt: timestamp("reviewed_at"),
 
+    // Stages
+    currentStage: integer("current_stage").notNull().default(0), // Index into the campaign's stages
+    stageName: text("stage_name"),
+    stageDueAt: timestamp("stage_due_at"),
+    stageTrail: jsonb("stage_trail").$type<Array<{ stage: number; stageName: string; action: string; reviewerId: string | null; reviewerName: string | null; actorId: string | null; actorName: string | null; notes?: string; at: string }>>(), // Assignments, delegations, reassignments and decisions per stage
+
     // Execution
     executionStatus: text("execution_status").default("pending"), // 'pending', 'completed', 'failed'
     executedAt: timestamp("executed_at"),
@@ -2344,6 +3006,27 @@ export const accessReviewDecisions = pgTable(
   })
 );
 
+// Access Review Delegations - a reviewer's pending and new review items go to the delegate
+// between startsAt and endsAt (e.g. while on leave)
+export const accessReviewDelegations = pgTable(
+  "access_review_delegations",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    delegatorId: varchar("delegator_id").notNull(),
+    delegateId: varchar("delegate_id").notNull(),
+    startsAt: timestamp("starts_at").notNull(),
+    endsAt: timestamp("ends_at").notNull(),
+    reason: text("reason"),
+    createdBy: varchar("created_by").notNull(),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    idxDelegator: index("idx_access_review_delegations_delegator").on(table.tenantId, table.delegatorId),
+  })
+);
+
 // Role Templates
 export const roleTemplates = pgTable(
   "role_templates",
@@ -2551,13 +3234,44 @@ export const overprivilegedAccounts = pgTable(
 );
 
 // Validation schemas for Phase 5
-export const insertAccessReviewCampaignSchema = createInsertSchema(accessReviewCampaigns).omit({
+export const ReviewStageReviewerTypeEnum = z.enum(["manager", "app_owner", "specific_users"]);
+
+export const reviewStageSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  reviewerType: ReviewStageReviewerTypeEnum,
+  reviewerIds: z.array(z.string()).max(50).optional(), // specific_users, in order of preference
+  riskLevels: z.array(z.enum(["low", "medium", "high", "critical"])).min(1).optional(), // Omitted: every item
+  dueInDays: z.number().int().min(1).max(365).optional(), // From when an item reaches the stage
+}).refine(stage => stage.reviewerType !== "specific_users" || (stage.reviewerIds?.length ?? 0) > 0, {
+  message: "A specific-users stage needs at least one reviewer",
+  path: ["reviewerIds"],
+});
+
+export const reviewStagesSchema = z.array(reviewStageSchema).min(1).max(5);
+
+export const reviewStageTrailEntrySchema = z.object({
+  stage: z.number().int(),
+  stageName: z.string(),
+  action: z.string(), // 'assigned', 'delegated', 'reassigned', 'blocked_conflict', or the decision
+  reviewerId: z.string().nullable(),
+  reviewerName: z.string().nullable(),
+  actorId: z.string().nullable(),
+  actorName: z.string().nullable(),
+  notes: z.string().optional(),
+  at: z.string(),
+});
+
+export const insertAccessReviewCampaignSchema = createInsertSchema(accessReviewCampaigns, {
+  stages: reviewStagesSchema.nullish(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertAccessReviewItemSchema = createInsertSchema(accessReviewItems).omit({
+export const insertAccessReviewItemSchema = createInsertSchema(accessReviewItems, {
+  stageTrail: z.array(reviewStageTrailEntrySchema).nullish(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -2568,6 +3282,27 @@ export const insertAccessReviewDecisionSchema = createInsertSchema(accessReviewD
   createdAt: true,
 });
 
+export const insertAccessReviewDelegationSchema = createInsertSchema(accessReviewDelegations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const reassignReviewItemSchema = z.object({
+  reviewerId: z.string().min(1),
+  reason: z.string().trim().min(1).max(1000),
+});
+
+export const createReviewDelegationSchema = z.object({
+  delegatorId: z.string().optional(), // Defaults to the caller; delegating for someone else needs it-manager
+  delegateId: z.string().min(1),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  reason: z.string().max(1000).optional(),
+}).refine(data => data.endsAt > data.startsAt, {
+  message: "endsAt must be after startsAt",
+  path: ["endsAt"],
+});
+
 export const insertRoleTemplateSchema = createInsertSchema(roleTemplates).omit({
   id: true,
   createdAt: true,
@@ -2599,6 +3334,12 @@ export type AccessReviewItem = typeof accessReviewItems.$inferSelect;
 export type InsertAccessReviewItem = z.infer<typeof insertAccessReviewItemSchema>;
 export type AccessReviewDecision = typeof accessReviewDecisions.$inferSelect;
 export type InsertAccessReviewDecision = z.infer<typeof insertAccessReviewDecisionSchema>;
+export type AccessReviewDelegation = typeof accessReviewDelegations.$inferSelect;
+export type InsertAccessReviewDelegation = z.infer<typeof insertAccessReviewDelegationSchema>;
+export type ReviewStage = z.infer<typeof reviewStageSchema>;
+export type ReviewStageTrailEntry = z.infer<typeof reviewStageTrailEntrySchema>;
+export type ReassignReviewItem = z.infer<typeof reassignReviewItemSchema>;
+export type CreateReviewDelegation = z.infer<typeof createReviewDelegationSchema>;
 export type RoleTemplate = typeof roleTemplates.$inferSelect;
 export type InsertRoleTemplate = z.infer<typeof insertRoleTemplateSchema>;
 export type UserRoleAssignment = typeof userRoleAssignments.$inferSelect;
@@ -2643,6 +3384,14 @@ export const accessRequests = pgTable(
     provisioningError: text("provisioning_error"),
     slaDueAt: timestamp("sla_due_at"),
     isOverdue: boolean("is_overdue").default(false),
+    // Catalog requests: what was requested, each grant it expands to and the approval chain state
+    catalogItemId: varchar("catalog_item_id"),
+    grants: jsonb("grants").$type<AccessRequestGrant[]>(),
+    approvalSteps: jsonb("approval_steps").$type<AccessApprovalStepState[]>(),
+    currentStep: integer("current_step").default(0),
+    fulfilmentTicketId: varchar("fulfilment_ticket_id"), // Raised for grants no connector could provision
+    fulfilmentTicketNumber: text("fulfilment_ticket_number"),
+    revokedAt: timestamp("revoked_at"), // Time-bound grants, once expired
     createdAt: timestamp("created_at").default(sql`NOW()`),
     updatedAt: timestamp("updated_at").default(sql`NOW()`),
   },
@@ -2654,6 +3403,34 @@ export const accessRequests = pgTable(
   })
 );
 
+// Access Catalog (6.1) - what users can request: an app, a role in an app, or a bundle of those,
+// each with its own approval chain, duration limit and how a connector provisions it
+export const accessCatalogItems = pgTable(
+  "access_catalog_items",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    itemType: text("item_type").notNull(), // app, role, bundle
+    name: text("name").notNull(),
+    description: text("description"),
+    appId: varchar("app_id"), // app and role items
+    accessType: text("access_type").notNull().default("member"),
+    roleName: text("role_name"), // role items: the app role granted
+    bundleItemIds: jsonb("bundle_item_ids").$type<string[]>(), // bundle items: the app and role items granted together
+    approvalChain: jsonb("approval_chain").$type<AccessApprovalStep[]>(), // Null: manager, app owner, then security for risky requests
+    provisioning: jsonb("provisioning").$type<AccessCatalogProvisioning>(), // Null: app assignment through any IdP that supports it
+    maxDurationHours: integer("max_duration_hours"), // Set: grants are time-bound
+    defaultDurationHours: integer("default_duration_hours"),
+    isActive: boolean("is_active").default(true),
+    createdBy: varchar("created_by").notNull(),
+    createdAt: timestamp("created_at").default(sql`NOW()`),
+    updatedAt: timestamp("updated_at").default(sql`NOW()`),
+  },
+  (table) => ({
+    idxTenant: index("idx_access_catalog_items_tenant").on(table.tenantId, table.isActive),
+  })
+);
+
 // JIT Access Sessions (6.2)
 export const jitAccessSessions = pgTable(
   "jit_access_sessions",
@@ -2676,6 +3453,10 @@ export const jitAccessSessions = pgTable(
     approvedAt: timestamp("approved_at"),
     mfaVerified: boolean("mfa_verified").default(false),
     mfaVerifiedAt: timestamp("mfa_verified_at"),
+    mfaMethod: text("mfa_method"), // 'totp', 'webauthn'
+    mfaFactorId: varchar("mfa_factor_id"),
+    mfaFailedAttempts: integer("mfa_failed_attempts").default(0),
+    mfaLastFailedAt: timestamp("mfa_last_failed_at"),
     status: text("status").notNull().default("pending"),
     activatedAt: timestamp("activated_at"),
     revokedAt: timestamp("revoked_at"),
@@ -2696,8 +3477,293 @@ export const jitAccessSessions = pgTable(
   })
 );
 
-// SoD Rules (6.3)
-export const sodRules = pgTable(
+// Break-glass Accounts (6.2) - emergency accounts for incidents where no approver is reachable.
+// The credential is stored encrypted and only released to a session a second person has unsealed
+export const breakGlassAccounts = pgTable(
+  "break_glass_accounts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    name: text("name").notNull(),
+    system: text("system").notNull(), // What the account opens, e.g. "Azure AD global admin"
+    username: text("username").notNull(),
+    description: text("description"),
+    credentialEncrypted: text("credential_encrypted").notNull(),
+    credentialRotatedAt: timestamp("credential_rotated_at"),
+    sessionMinutes: integer("session_minutes").notNull().default(60),
+    pageChannelIds: jsonb("page_channel_ids").$type<string[]>(), // Notification channels paged on every use
+    pageRecipients: jsonb("page_recipients").$type<string[]>(), // Extra email addresses paged on every use
+    isActive: boolean("is_active").default(true),
+    lastUsedAt: timestamp("last_used_at"),
+    createdBy: varchar("created_by").notNull(),
+    createdAt: timestamp("created_at").default(sql`NOW()`),
+    updatedAt: timestamp("updated_at").default(sql`NOW()`),
+  },
+  (table) => ({
+    idxTenant: index("idx_break_glass_accounts_tenant").on(table.tenantId, table.isActive),
+  })
+);
+
+// Break-glass Sessions (6.2) - one use of a break-glass account, from request through two-person
+// unseal and expiry to the post-incident review that must be completed before the next use
+export const breakGlassSessions = pgTable(
+  "break_glass_sessions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    accountId: varchar("account_id").notNull(),
+    accountName: text("account_name").notNull(),
+    requestedBy: varchar("requested_by").notNull(),
+    requestedByName: text("requested_by_name").notNull(),
+    justification: text("justification").notNull(),
+    incidentReference: text("incident_reference"),
+    status: text("status").notNull().default("pending_unseal"), // pending_unseal, active, expired, closed, cancelled
+    unsealedBy: varchar("unsealed_by"),
+    unsealedByName: text("unsealed_by_name"),
+    unsealedAt: timestamp("unsealed_at"),
+    expiresAt: timestamp("expires_at").notNull(), // Unseal deadline while pending, then the end of the session
+    credentialViewCount: integer("credential_view_count").default(0),
+    lastCredentialViewAt: timestamp("last_credential_view_at"),
+    endedAt: timestamp("ended_at"),
+    endedBy: varchar("ended_by"),
+    endReason: text("end_reason"),
+    reviewStatus: text("review_status"), // Null until unsealed, then pending -> completed
+    reviewedBy: varchar("reviewed_by"),
+    reviewedByName: text("reviewed_by_name"),
+    reviewedAt: timestamp("reviewed_at"),
+    reviewFindings: text("review_findings"),
+    createdAt: timestamp("created_at").default(sql`NOW()`),
+    updatedAt: timestamp("updated_at").default(sql`NOW()`),
+  },
+  (table) => ({
+    idxTenant: index("idx_break_glass_sessions_tenant").on(table.tenantId, table.status),
+    idxReview: index("idx_break_glass_sessions_review").on(table.tenantId, table.reviewStatus),
+  })
+);
+
+// MFA Factors (6.2) - TOTP secrets and WebAuthn credentials enrolled by a user
+export const userMfaFactors = pgTable(
+  "user_mfa_factors",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    userId: varchar("user_id").notNull(),
+    type: text("type").notNull(), // 'totp', 'webauthn'
+    name: text("name").notNull(),
+    status: text("status").notNull().default("pending"), // 'pending' until the first successful verification, then 'active'
+    // TOTP
+    secretEncrypted: text("secret_encrypted"),
+    lastUsedStep: integer("last_used_step"), // Last accepted TOTP time step (replay protection)
+    // WebAuthn
+    credentialId: text("credential_id"), // base64url
+    publicKey: text("public_key"), // base64url SPKI DER
+    signCount: integer("sign_count").default(0),
+    transports: jsonb("transports").$type<string[]>(),
+    verifiedAt: timestamp("verified_at"),
+    lastUsedAt: timestamp("last_used_at"),
+    createdAt: timestamp("created_at").default(sql`NOW()`),
+    updatedAt: timestamp("updated_at").default(sql`NOW()`),
+  },
+  (table) => ({
+    idxUser: index("idx_mfa_factors_user").on(table.tenantId, table.userId),
+    idxCredential: uniqueIndex("idx_mfa_factors_credential").on(table.credentialId),
+  })
+);
+
+// MFA Challenges (6.2) - Single-use challenges for step-up verification and WebAuthn registration
+export const mfaChallenges = pgTable(
+  "mfa_challenges",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    userId: varchar("user_id").notNull(),
+    purpose: text("purpose").notNull(), // 'login', 'jit_activation', 'webauthn_registration'
+    resourceId: varchar("resource_id"), // e.g. JIT session ID
+    challenge: text("challenge").notNull(), // base64url random bytes
+    failedAttempts: integer("failed_attempts").default(0),
+    expiresAt: timestamp("expires_at").notNull(),
+    consumedAt: timestamp("consumed_at"),
+    createdAt: timestamp("created_at").default(sql`NOW()`),
+  },
+  (table) => ({
+    idxUser: index("idx_mfa_challenges_user").on(table.tenantId, table.userId, table.createdAt),
+  })
+);
+
+// MFA Recovery Codes (6.2) - One-time backup codes for login MFA, stored as SHA-256 hashes
+export const mfaRecoveryCodes = pgTable(
+  "mfa_recovery_codes",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    userId: varchar("user_id").notNull(),
+    codeHash: text("code_hash").notNull(),
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").default(sql`NOW()`),
+  },
+  (table) => ({
+    idxUser: index("idx_mfa_recovery_codes_user").on(table.tenantId, table.userId),
+  })
+);
+
+// SCIM Tokens - Per-tenant bearer tokens for inbound SCIM 2.0 provisioning
+export const scimTokens = pgTable(
+  "scim_tokens",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    name: text("name").notNull(), // e.g. "Okta", "Azure AD provisioning"
+    tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the token; plaintext is shown once
+    tokenPrefix: text("token_prefix").notNull(), // First characters, to tell tokens apart in the UI
+    createdBy: varchar("created_by").notNull(),
+    lastUsedAt: timestamp("last_used_at"),
+    expiresAt: timestamp("expires_at"), // null = never expires
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    idxTenant: index("idx_scim_tokens_tenant").on(table.tenantId),
+  })
+);
+
+// SCIM Groups - Groups pushed by the IdP, with their user memberships
+export const scimGroups = pgTable(
+  "scim_groups",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    displayName: text("display_name").notNull(),
+    externalId: text("external_id"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    uniqueDisplayName: uniqueIndex("uniq_scim_groups_display_name").on(table.tenantId, table.displayName),
+  })
+);
+
+export const scimGroupMembers = pgTable(
+  "scim_group_members",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    groupId: varchar("group_id").notNull(),
+    userId: varchar("user_id").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    uniqueMember: uniqueIndex("uniq_scim_group_members").on(table.groupId, table.userId),
+    idxUser: index("idx_scim_group_members_user").on(table.tenantId, table.userId),
+  })
+);
+
+// SSO Connections - SAML 2.0 / OIDC login to the platform itself (separate from discovery identityProviders)
+export const ssoConnections = pgTable(
+  "sso_connections",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    name: text("name").notNull(),
+    protocol: text("protocol").notNull(), // 'saml', 'oidc'
+    enabled: boolean("enabled").default(false),
+    identityProviderId: varchar("identity_provider_id"), // Optional link to the discovery connector for the same IdP
+    emailDomains: jsonb("email_domains").$type<string[]>().default([]), // Used to route users to this connection from the login page
+    // SAML 2.0
+    samlEntryPoint: text("saml_entry_point"), // IdP SSO URL (HTTP-Redirect binding)
+    samlIdpIssuer: text("saml_idp_issuer"),
+    samlIdpCertificate: text("saml_idp_certificate"), // PEM or base64 signing certificate
+    // OIDC
+    oidcIssuer: text("oidc_issuer"),
+    oidcClientId: text("oidc_client_id"),
+    oidcClientSecret: text("oidc_client_secret"), // Encrypted at application layer
+    oidcScopes: jsonb("oidc_scopes").$type<string[]>(),
+    // Claim / attribute mapping
+    emailAttribute: text("email_attribute"),
+    firstNameAttribute: text("first_name_attribute"),
+    lastNameAttribute: text("last_name_attribute"),
+    groupsAttribute: text("groups_attribute"),
+    // Provisioning
+    jitProvisioning: boolean("jit_provisioning").default(true),
+    defaultRole: text("default_role").notNull().default("technician"),
+    roleMappings: jsonb("role_mappings").$type<Array<{ group: string; role: string }>>().default([]),
+    lastLoginAt: timestamp("last_login_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    idxTenant: index("idx_sso_connections_tenant").on(table.tenantId, table.enabled),
+  })
+);
+
+// SSO Identities - Binds an IdP subject (SAML NameID / OIDC sub) to a platform user
+export const userSsoIdentities = pgTable(
+  "user_sso_identities",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    userId: varchar("user_id").notNull(),
+    connectionId: varchar("connection_id").notNull(),
+    subject: text("subject").notNull(),
+    email: text("email"),
+    groups: jsonb("groups").$type<string[]>(),
+    lastLoginAt: timestamp("last_login_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    uniqueSubject: uniqueIndex("uniq_user_sso_identities_subject").on(table.connectionId, table.subject),
+    idxUser: index("idx_user_sso_identities_user").on(table.tenantId, table.userId),
+  })
+);
+
+// SSO Login Requests - Pending SP-initiated logins (state/nonce/PKCE or SAML request ID) and one-time login codes
+export const ssoLoginRequests = pgTable(
+  "sso_login_requests",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    connectionId: varchar("connection_id").notNull(),
+    protocol: text("protocol").notNull(),
+    state: text("state"), // OIDC state
+    nonce: text("nonce"), // OIDC nonce
+    codeVerifier: text("code_verifier"), // OIDC PKCE verifier
+    samlRequestId: text("saml_request_id"), // Expected InResponseTo
+    returnTo: text("return_to"),
+    linkUserId: varchar("link_user_id"), // Signed-in user who started an explicit account link
+    userId: varchar("user_id"), // Set once the IdP response is validated
+    loginCodeHash: text("login_code_hash"), // SHA-256 of the one-time code the SPA exchanges for a session
+    expiresAt: timestamp("expires_at").notNull(),
+    completedAt: timestamp("completed_at"),
+    consumedAt: timestamp("consumed_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    idxState: index("idx_sso_login_requests_state").on(table.state),
+    idxLoginCode: index("idx_sso_login_requests_login_code").on(table.loginCodeHash),
+  })
+);
+
+// SSO Domains - Email domains a tenant has proven it controls (DNS TXT record) before they route
+// SSO discovery and logins to its connections
+export const ssoDomains = pgTable(
+  "sso_domains",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    domain: text("domain").notNull(),
+    verificationToken: text("verification_token").notNull(),
+    verifiedAt: timestamp("verified_at"),
+    lastCheckedAt: timestamp("last_checked_at"),
+    createdBy: varchar("created_by"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    idxTenant: index("idx_sso_domains_tenant").on(table.tenantId),
+    uniqVerifiedDomain: uniqueIndex("uniq_sso_domains_verified").on(table.domain).where(sql`verified_at IS NOT NULL`),
+  })
+);
+
+// SoD Rules (6.3)
+export const sodRules = pgTable(
   "sod_rules",
   {
     id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -2705,12 +3771,17 @@ export const sodRules = pgTable(
     name: text("name").notNull(),
     description: text("description").notNull(),
     severity: text("severity").notNull(),
-    appId1: varchar("app_id_1").notNull(),
-    appName1: text("app_name_1").notNull(),
+    ruleType: text("rule_type").notNull().default("app_pair"), // app_pair, entitlement_set
+    // app_pair rules: the two applications that must not be held together
+    appId1: varchar("app_id_1"),
+    appName1: text("app_name_1"),
     accessType1: text("access_type_1"),
-    appId2: varchar("app_id_2").notNull(),
-    appName2: text("app_name_2").notNull(),
+    appId2: varchar("app_id_2"),
+    appName2: text("app_name_2"),
     accessType2: text("access_type_2"),
+    // entitlement_set rules: toxic when a user holds at least minMatch of these entitlements
+    entitlements: jsonb("entitlements").$type<Array<{ appId: string | null; entitlementType: string; value: string; label?: string }>>(),
+    minMatch: integer("min_match"),
     complianceFramework: text("compliance_framework"),
     rationale: text("rationale"),
     exemptedUsers: jsonb("exempted_users").$type<string[]>(),
@@ -2738,12 +3809,13 @@ export const sodViolations = pgTable(
     sodRuleId: varchar("sod_rule_id").notNull(),
     ruleName: text("rule_name").notNull(),
     severity: text("severity").notNull(),
-    app1Id: varchar("app_1_id").notNull(),
-    app1Name: text("app_1_name").notNull(),
+    app1Id: varchar("app_1_id"), // Null when the colliding entitlements are directory groups
+    app1Name: text("app_1_name"),
     accessType1: text("access_type_1"),
-    app2Id: varchar("app_2_id").notNull(),
-    app2Name: text("app_2_name").notNull(),
+    app2Id: varchar("app_2_id"),
+    app2Name: text("app_2_name"),
     accessType2: text("access_type_2"),
+    matchedEntitlements: jsonb("matched_entitlements").$type<Array<{ appId: string | null; entitlementType: string; value: string; label?: string }>>(), // Exactly which entitlements collided
     riskScore: integer("risk_score").default(0),
     riskFactors: jsonb("risk_factors").$type<string[]>(),
     recommendedAction: text("recommended_action"),
@@ -2764,6 +3836,29 @@ export const sodViolations = pgTable(
   })
 );
 
+// App Entitlements - catalog of the roles, permissions and directory groups users can hold,
+// harvested from IdP app-role discovery (userAppAccess roles/permissions) and SCIM groups or added by hand
+export const appEntitlements = pgTable(
+  "app_entitlements",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    appId: varchar("app_id"), // Null for directory groups, which are not scoped to one app
+    entitlementType: text("entitlement_type").notNull(), // role, permission, group
+    value: text("value").notNull(), // As granted, e.g. "AP_Approver" or "vendor.create"
+    displayName: text("display_name"),
+    description: text("description"),
+    source: text("source").notNull().default("manual"), // app_role, idp_group, manual
+    lastSeenAt: timestamp("last_seen_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    idxTenantApp: index("idx_app_entitlements_tenant_app").on(table.tenantId, table.appId),
+    uniqueEntitlement: uniqueIndex("uniq_app_entitlements").on(table.tenantId, table.appId, table.entitlementType, table.value),
+  })
+);
+
 // Review Suggestions (6.4)
 export const reviewSuggestions = pgTable(
   "review_suggestions",
@@ -2980,7 +4075,125 @@ export const integrationEvents = pgTable(
 );
 
 // Validation schemas for Phase 6
-export const insertAccessRequestSchema = createInsertSchema(accessRequests).omit({
+export const AccessApprovalStepTypeEnum = z.enum(["manager", "app_owner", "security", "specific_users"]);
+
+export const accessApprovalStepSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  approverType: AccessApprovalStepTypeEnum,
+  approverIds: z.array(z.string()).max(50).optional(), // security (default: any IT manager) and specific_users
+  minRiskScore: z.number().int().min(0).max(100).optional(), // Only for requests scoring at least this
+}).refine(step => step.approverType !== "specific_users" || (step.approverIds?.length ?? 0) > 0, {
+  message: "A specific-users step needs at least one approver",
+  path: ["approverIds"],
+});
+
+export const accessApprovalChainSchema = z.array(accessApprovalStepSchema).min(1).max(5);
+
+export const accessApprovalStepStateSchema = z.object({
+  name: z.string(),
+  approverType: AccessApprovalStepTypeEnum,
+  approverIds: z.array(z.string()), // Empty: any IT manager may approve
+  status: z.enum(["pending", "approved", "denied", "skipped"]),
+  decidedBy: z.string().nullable().optional(),
+  decidedByName: z.string().nullable().optional(),
+  decidedAt: z.string().nullable().optional(),
+  overridden: z.boolean().optional(), // Decided by an IT manager in place of the named approvers
+  notes: z.string().optional(),
+});
+
+export const accessCatalogProvisioningSchema = z.object({
+  method: z.enum(["group", "app_assignment"]),
+  idpId: z.string().optional(), // Omitted: any active identity provider that supports the method
+  groupId: z.string().trim().min(1).max(500).optional(), // group: IdP group id (Google: group email)
+  appRoleId: z.string().trim().min(1).max(500).optional(), // app_assignment on Azure AD: app role to assign
+}).refine(provisioning => provisioning.method !== "group" || !!provisioning.groupId, {
+  message: "Group provisioning needs a groupId",
+  path: ["groupId"],
+});
+
+export const accessRequestGrantSchema = z.object({
+  catalogItemId: z.string().nullable(), // Null for requests made by bare app id
+  name: z.string(),
+  appId: z.string(),
+  appName: z.string(),
+  accessType: z.string(),
+  roleName: z.string().nullable().optional(),
+  provisioning: accessCatalogProvisioningSchema.nullable().optional(),
+  status: z.enum(["pending", "provisioned", "ticket", "failed", "revoked"]),
+  provisionedVia: z.string().nullable().optional(), // IdP type that provisioned it
+  idpId: z.string().nullable().optional(),
+  error: z.string().nullable().optional(),
+});
+
+export const createAccessCatalogItemSchema = z.object({
+  itemType: z.enum(["app", "role", "bundle"]),
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  appId: z.string().optional(),
+  accessType: z.string().trim().min(1).max(50).default("member"),
+  roleName: z.string().trim().min(1).max(500).optional(),
+  bundleItemIds: z.array(z.string()).min(1).max(50).optional(),
+  approvalChain: accessApprovalChainSchema.optional(),
+  provisioning: accessCatalogProvisioningSchema.optional(),
+  maxDurationHours: z.number().int().min(1).max(24 * 365).optional(),
+  defaultDurationHours: z.number().int().min(1).max(24 * 365).optional(),
+}).refine(item => item.itemType === "bundle" ? (item.bundleItemIds?.length ?? 0) > 0 : !!item.appId, {
+  message: "Bundles list the catalog items they grant; apps and roles need an appId",
+  path: ["itemType"],
+}).refine(item => item.itemType !== "role" || !!item.roleName, {
+  message: "A role item needs the roleName it grants",
+  path: ["roleName"],
+}).refine(item => item.itemType !== "bundle" || !item.provisioning, {
+  message: "Bundles are provisioned through the items they contain",
+  path: ["provisioning"],
+}).refine(item => !item.defaultDurationHours || !item.maxDurationHours || item.defaultDurationHours <= item.maxDurationHours, {
+  message: "defaultDurationHours cannot exceed maxDurationHours",
+  path: ["defaultDurationHours"],
+});
+
+export const catalogAccessRequestSchema = z.object({
+  catalogItemId: z.string().min(1),
+  justification: z.string().trim().min(1).max(2000),
+  durationHours: z.number().int().min(1).max(24 * 365).optional(), // Omitted: the item's default, or permanent
+});
+
+export const createBreakGlassAccountSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  system: z.string().trim().min(1).max(200),
+  username: z.string().trim().min(1).max(500),
+  description: z.string().max(2000).optional(),
+  credential: z.string().min(1).max(10000),
+  sessionMinutes: z.number().int().min(15).max(8 * 60).default(60),
+  pageChannelIds: z.array(z.string()).max(20).default([]),
+  pageRecipients: z.array(z.string().email()).max(50).default([]),
+}).refine(account => account.pageChannelIds.length + account.pageRecipients.length > 0, {
+  message: "Every use is paged, so name at least one notification channel or recipient",
+  path: ["pageChannelIds"],
+});
+
+export const breakGlassSessionRequestSchema = z.object({
+  accountId: z.string().min(1),
+  justification: z.string().trim().min(1).max(2000),
+  incidentReference: z.string().trim().max(200).optional(),
+});
+
+export const breakGlassReviewSchema = z.object({
+  findings: z.string().trim().min(1).max(5000),
+});
+
+export const insertAccessRequestSchema = createInsertSchema(accessRequests, {
+  grants: z.array(accessRequestGrantSchema).nullish(),
+  approvalSteps: z.array(accessApprovalStepStateSchema).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export const insertAccessCatalogItemSchema = createInsertSchema(accessCatalogItems, {
+  bundleItemIds: z.array(z.string()).nullish(),
+  approvalChain: accessApprovalChainSchema.nullish(),
+  provisioning: accessCatalogProvisioningSchema.nullish(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -2990,6 +4203,64 @@ export const insertJitAccessSessionSchema = createInsertSchema(jitAccessSessions
   createdAt: true,
   updatedAt: true,
 });
+export const insertBreakGlassAccountSchema = createInsertSchema(breakGlassAccounts, {
+  pageChannelIds: z.array(z.string()).nullish(),
+  pageRecipients: z.array(z.string()).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export const insertBreakGlassSessionSchema = createInsertSchema(breakGlassSessions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export const insertUserMfaFactorSchema = createInsertSchema(userMfaFactors, {
+  transports: z.array(z.string()).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export const insertMfaChallengeSchema = createInsertSchema(mfaChallenges).omit({
+  id: true,
+  createdAt: true,
+});
+export const insertMfaRecoveryCodeSchema = createInsertSchema(mfaRecoveryCodes).omit({
+  id: true,
+  createdAt: true,
+});
+export const ssoRoleMappingSchema = z.object({
+  group: z.string().min(1),
+  role: z.enum(["technician", "it-manager", "admin"]), // super-admin is never granted by an IdP
+});
+export const insertSsoConnectionSchema = createInsertSchema(ssoConnections, {
+  protocol: z.enum(["saml", "oidc"]),
+  emailDomains: z.array(z.string().min(1)).nullish(),
+  oidcScopes: z.array(z.string()).nullish(),
+  defaultRole: z.enum(["technician", "it-manager", "admin"]).optional(),
+  roleMappings: z.array(ssoRoleMappingSchema).nullish(),
+}).omit({
+  id: true,
+  lastLoginAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export const insertUserSsoIdentitySchema = createInsertSchema(userSsoIdentities, {
+  groups: z.array(z.string()).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+export const insertSsoLoginRequestSchema = createInsertSchema(ssoLoginRequests).omit({
+  id: true,
+  createdAt: true,
+});
+export const insertSsoDomainSchema = createInsertSchema(ssoDomains).omit({
+  id: true,
+  createdAt: true,
+});
 export const insertSodRuleSchema = createInsertSchema(sodRules).omit({
   id: true,
   createdAt: true,
@@ -3001,6 +4272,41 @@ export const insertSodViolationSchema = createInsertSchema(sodViolations).omit({
   createdAt: true,
   updatedAt: true,
 });
+export const insertAppEntitlementSchema = createInsertSchema(appEntitlements).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const EntitlementTypeEnum = z.enum(["access", "role", "permission", "group"]);
+
+// "access" means any access to the app (value "*"); groups carry no appId
+export const sodEntitlementRefSchema = z.object({
+  appId: z.string().nullable().default(null),
+  entitlementType: EntitlementTypeEnum,
+  value: z.string().trim().min(1).max(500),
+  label: z.string().max(500).optional(),
+}).refine(ref => (ref.entitlementType === "group") === (ref.appId === null), {
+  message: "Groups have no appId; every other entitlement belongs to an app",
+  path: ["appId"],
+});
+
+export const createAppEntitlementSchema = z.object({
+  appId: z.string().nullable().default(null),
+  entitlementType: z.enum(["role", "permission", "group"]),
+  value: z.string().trim().min(1).max(500),
+  displayName: z.string().max(200).optional(),
+  description: z.string().max(2000).optional(),
+});
+
+export const entitlementSodRuleSchema = z.object({
+  entitlements: z.array(sodEntitlementRefSchema).min(2).max(50),
+  minMatch: z.number().int().min(2).default(2),
+}).refine(rule => rule.minMatch <= rule.entitlements.length, {
+  message: "minMatch cannot exceed the number of entitlements in the rule",
+  path: ["minMatch"],
+});
+
 export const insertReviewSuggestionSchema = createInsertSchema(reviewSuggestions).omit({
   id: true,
   createdAt: true,
@@ -3040,12 +4346,62 @@ export const insertIntegrationEventSchema = createInsertSchema(integrationEvents
 // Types for Phase 6
 export type AccessRequest = typeof accessRequests.$inferSelect;
 export type InsertAccessRequest = z.infer<typeof insertAccessRequestSchema>;
+export type AccessCatalogItem = typeof accessCatalogItems.$inferSelect;
+export type InsertAccessCatalogItem = z.infer<typeof insertAccessCatalogItemSchema>;
+export type AccessApprovalStep = z.infer<typeof accessApprovalStepSchema>;
+export type AccessApprovalStepState = z.infer<typeof accessApprovalStepStateSchema>;
+export type AccessCatalogProvisioning = z.infer<typeof accessCatalogProvisioningSchema>;
+export type AccessRequestGrant = z.infer<typeof accessRequestGrantSchema>;
+export type CreateAccessCatalogItem = z.infer<typeof createAccessCatalogItemSchema>;
+export type CatalogAccessRequest = z.infer<typeof catalogAccessRequestSchema>;
 export type JitAccessSession = typeof jitAccessSessions.$inferSelect;
 export type InsertJitAccessSession = z.infer<typeof insertJitAccessSessionSchema>;
+export type BreakGlassAccount = typeof breakGlassAccounts.$inferSelect;
+export type InsertBreakGlassAccount = z.infer<typeof insertBreakGlassAccountSchema>;
+export type BreakGlassSession = typeof breakGlassSessions.$inferSelect;
+export type InsertBreakGlassSession = z.infer<typeof insertBreakGlassSessionSchema>;
+export type CreateBreakGlassAccount = z.infer<typeof createBreakGlassAccountSchema>;
+export type UserMfaFactor = typeof userMfaFactors.$inferSelect;
+export type InsertUserMfaFactor = z.infer<typeof insertUserMfaFactorSchema>;
+export type MfaChallenge = typeof mfaChallenges.$inferSelect;
+export type InsertMfaChallenge = z.infer<typeof insertMfaChallengeSchema>;
+export type MfaRecoveryCode = typeof mfaRecoveryCodes.$inferSelect;
+export type InsertMfaRecoveryCode = z.infer<typeof insertMfaRecoveryCodeSchema>;
+export type SsoConnection = typeof ssoConnections.$inferSelect;
+export type InsertSsoConnection = z.infer<typeof insertSsoConnectionSchema>;
+export type SsoRoleMapping = z.infer<typeof ssoRoleMappingSchema>;
+export type UserSsoIdentity = typeof userSsoIdentities.$inferSelect;
+export type InsertUserSsoIdentity = z.infer<typeof insertUserSsoIdentitySchema>;
+export type SsoLoginRequest = typeof ssoLoginRequests.$inferSelect;
+export type InsertSsoLoginRequest = z.infer<typeof insertSsoLoginRequestSchema>;
+export type SsoDomain = typeof ssoDomains.$inferSelect;
+export type InsertSsoDomain = z.infer<typeof insertSsoDomainSchema>;
+
+export const insertScimTokenSchema = createInsertSchema(scimTokens).omit({
+  id: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+});
+export const insertScimGroupSchema = createInsertSchema(scimGroups).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type ScimToken = typeof scimTokens.$inferSelect;
+export type InsertScimToken = z.infer<typeof insertScimTokenSchema>;
+export type ScimGroup = typeof scimGroups.$inferSelect;
+export type InsertScimGroup = z.infer<typeof insertScimGroupSchema>;
+export type ScimGroupMember = typeof scimGroupMembers.$inferSelect;
 export type SodRule = typeof sodRules.$inferSelect;
 export type InsertSodRule = z.infer<typeof insertSodRuleSchema>;
 export type SodViolation = typeof sodViolations.$inferSelect;
 export type InsertSodViolation = z.infer<typeof insertSodViolationSchema>;
+export type AppEntitlement = typeof appEntitlements.$inferSelect;
+export type InsertAppEntitlement = z.infer<typeof insertAppEntitlementSchema>;
+export type EntitlementType = z.infer<typeof EntitlementTypeEnum>;
+export type SodEntitlementRef = z.infer<typeof sodEntitlementRefSchema>;
+export type CreateAppEntitlement = z.infer<typeof createAppEntitlementSchema>;
 export type ReviewSuggestion = typeof reviewSuggestions.$inferSelect;
 export type InsertReviewSuggestion = z.infer<typeof insertReviewSuggestionSchema>;
 export type AnomalyDetection = typeof anomalyDetections.$inferSelect;
@@ -3149,6 +4505,83 @@ export type InsertCasbIntegration = z.infer<typeof insertCasbIntegrationSchema>;
 export type CasbEvent = typeof casbEvents.$inferSelect;
 export type InsertCasbEvent = z.infer<typeof insertCasbEventSchema>;
 
+// ============================================================================
+// SIEM Integration Tables
+// ============================================================================
+
+export const siemIntegrations = pgTable(
+  "siem_integrations",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    name: text("name").notNull(),
+    provider: text("provider").notNull(),
+    integrationType: text("integration_type").notNull(),
+    endpointUrl: text("endpoint_url"),
+    apiKey: text("api_key"),
+    apiSecret: text("api_secret"),
+    syslogHost: text("syslog_host"),
+    syslogPort: integer("syslog_port").default(514),
+    syslogProtocol: text("syslog_protocol").default("tcp"),
+    syslogFormat: text("syslog_format").default("cef"),
+    eventTypesEnabled: jsonb("event_types_enabled").default('["shadow_it", "high_risk_app", "oauth_grant", "policy_violation"]'),
+    severityFilter: text("severity_filter").default("medium"),
+    batchSize: integer("batch_size").default(100),
+    flushIntervalSeconds: integer("flush_interval_seconds").default(30),
+    eventsSent: integer("events_sent").default(0),
+    lastEventSentAt: timestamp("last_event_sent_at"),
+    errorsCount: integer("errors_count").default(0),
+    status: text("status").notNull().default("active"),
+    connectionVerified: boolean("connection_verified").default(false),
+    lastHealthCheckAt: timestamp("last_health_check_at"),
+    config: jsonb("config"),
+    metadata: jsonb("metadata"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    idxTenant: index("idx_siem_integrations_tenant").on(table.tenantId, table.status),
+    idxProvider: index("idx_siem_integrations_provider").on(table.tenantId, table.provider),
+  })
+);
+
+export const siemEventLog = pgTable(
+  "siem_event_log",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tenantId: varchar("tenant_id").notNull(),
+    integrationId: varchar("integration_id").notNull(),
+    eventType: text("event_type").notNull(),
+    eventId: text("event_id"),
+    severity: text("severity").notNull(),
+    eventData: jsonb("event_data").notNull(),
+    formattedEvent: text("formatted_event"),
+    sourceTable: text("source_table"),
+    sourceId: varchar("source_id"),
+    status: text("status").notNull().default("pending"),
+    sentAt: timestamp("sent_at"),
+    deliveryAttempts: integer("delivery_attempts").default(0),
+    lastError: text("last_error"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    idxTenant: index("idx_siem_event_log_tenant").on(table.tenantId, table.status),
+    idxIntegration: index("idx_siem_event_log_integration").on(table.integrationId),
+    idxCreated: index("idx_siem_event_log_created").on(table.createdAt),
+    idxEvent: index("idx_siem_event_log_event").on(table.tenantId, table.eventId),
+  })
+);
+
+// SIEM schemas
+export const insertSiemIntegrationSchema = createInsertSchema(siemIntegrations);
+export const insertSiemEventLogSchema = createInsertSchema(siemEventLog);
+
+// SIEM types
+export type SiemIntegration = typeof siemIntegrations.$inferSelect;
+export type InsertSiemIntegration = z.infer<typeof insertSiemIntegrationSchema>;
+export type SiemEventLog = typeof siemEventLog.$inferSelect;
+export type InsertSiemEventLog = z.infer<typeof insertSiemEventLogSchema>;
+
 // ============================================================================
 // Alert Configuration & Instances Tables
 // ============================================================================
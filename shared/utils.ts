@@ -143,4 +143,75 @@ export function parseUserSlug(slug: string): { firstName: string; lastName: stri
     lastName: normalizeName(lastName),
     userID
   };
-}
\ No newline at end of file
+}
+/**
+ * Number of missed check-ins after which an endpoint agent is reported as stale
+ */
+export const AGENT_STALE_MISSED_CHECKINS = 3;
+
+/**
+ * Whether an endpoint agent has stopped checking in (no check-in within
+ * AGENT_STALE_MISSED_CHECKINS intervals, or never checked in)
+ */
+export function isAgentStale(
+  lastCheckInAt: string | Date | null | undefined,
+  checkInIntervalSeconds: number | null | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!lastCheckInAt) return true;
+  const last = new Date(lastCheckInAt).getTime();
+  if (isNaN(last)) return true;
+  const interval = checkInIntervalSeconds && checkInIntervalSeconds > 0 ? checkInIntervalSeconds : 3600;
+  return now.getTime() - last > interval * AGENT_STALE_MISSED_CHECKINS * 1000;
+}
+
+/**
+ * Allowed asset lifecycle transitions:
+ * ordered → received → in-stock → deployed → in-repair → retired → disposed,
+ * with returns to stock from deployment/repair and redeployment of retired stock
+ */
+export const ASSET_STATUS_TRANSITIONS: Record<string, string[]> = {
+  "ordered": ["received"],
+  "received": ["in-stock", "in-repair"],
+  "in-stock": ["deployed", "in-repair", "retired"],
+  "deployed": ["in-stock", "in-repair", "retired"],
+  "in-repair": ["in-stock", "deployed", "retired"],
+  "retired": ["in-stock", "disposed"],
+  "disposed": [],
+};
+
+/**
+ * Whether an asset may move between two lifecycle statuses.
+ * Unchanged statuses are always allowed; unknown (legacy) statuses may move anywhere.
+ */
+export function isAssetTransitionAllowed(from: string | null | undefined, to: string): boolean {
+  if (!from || from === to) return true;
+  const allowed = ASSET_STATUS_TRANSITIONS[from];
+  return allowed ? allowed.includes(to) : true;
+}
+
+/**
+ * Asset tag for a sequence number, e.g. formatAssetTag("AST-", 6, 42) → "AST-000042"
+ */
+export function formatAssetTag(prefix: string, padding: number, sequence: number): string {
+  return `${prefix}${String(sequence).padStart(padding, "0")}`;
+}
+
+/** Path of the scan page that QR labels point at: /scan/<asset tag> */
+export const ASSET_SCAN_PATH = "/scan";
+
+/**
+ * Identifier from a scanned label: QR labels encode a scan-page URL, Code128
+ * labels and handheld scanners produce the bare tag
+ */
+export function parseScannedCode(code: string): string {
+  const value = code.trim();
+  try {
+    const url = new URL(value);
+    const match = url.pathname.match(new RegExp(`${ASSET_SCAN_PATH}/([^/]+)/?$`));
+    if (match) return decodeURIComponent(match[1]);
+    return url.searchParams.get("tag") ?? value;
+  } catch {
+    return value;
+  }
+}